@@ -1,109 +1,116 @@
 import express, { Request } from "express";
 import { createServer as createViteServer } from "vite";
 import path from "path";
+import { readFile } from "fs/promises";
 import { fileURLToPath } from "url";
-import { google } from "googleapis";
 import cookieParser from "cookie-parser";
 import session from "express-session";
-import Database from "better-sqlite3";
+import { db } from "./server/db";
+import { createAdminRouter, ensureBootstrapAdmin, requireAppRequest, requireRole } from "./server/auth";
+import { createUploadRouter, UPLOAD_DIR } from "./server/uploads";
+import { createImportRouter } from "./server/eventImport";
+import { completeSubmission } from "./server/submissions";
+import { MAX_REMINDER_MINUTES, parseReminder, renderCalendar } from "./server/calendar";
+import { driveClient, DriveSync } from "./server/drive";
+import { authUrl, completeSignIn, disconnectGoogle, forgetGoogle, isGoogleConnected, isRevokedGrant, SESSION_SECRET, sessionOAuthClient } from "./server/googleAuth";
+import { SqliteSessionStore } from "./server/sessionStore";
+import { issueEditToken, manageUrl, organizerEmail, requireEventManager, sendManageLink } from "./server/organizers";
+import { canViewEvent, confirmTrustedSubmission, createModerationRouter, isPublished, isTrustedSubmitter, statusAfterOrganizerEdit, submissionStatus } from "./server/moderation";
+import { claimFormToken, editBlockReason, issueFormToken, listBlockedAttempts, logBlockedAttempt, rateLimit, submissionBlockReason } from "./server/spam";
+import { EXPORT_FORMATS, exportableEvents, isExportFormat, renderExport } from "./server/eventExport";
+import { withEventMeta } from "./server/openGraph";
+import { renderShareImage } from "./server/shareCard";
+import { EVENT_FIELDS, eventRepository, findDuplicates, InvalidCursorError, listOccurrences, parseEventQuery, pickEventInput, queryEvents, reconcileEvents, scheduleReconcile, type StoredEvent } from "./server/repository";
+import { canModerateEvent, EVENT_TYPE_IDS, type AdminUser } from "./src/types";
+import { completeEventGeo, findDistrict } from "./src/lib/geo";
+import { hasErrors, isEmail, validateEvent, type EventErrors } from "./src/lib/eventSchema";
+import { UPLOADS_PATH } from "./src/lib/images";
+import { eventPath } from "./src/lib/routes";
+import { withStructuredDate } from "./src/lib/hijri";
+import { BANGLADESH_TIMEZONE, calculatePrayerTimes, getDistrictCentroid, todayInBangladesh, withIftarTime } from "./src/lib/prayerTimes";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// Initialize SQLite Database
-let db: Database.Database;
-try {
-  db = new Database("events.db");
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS events (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT,
-      type TEXT,
-      district TEXT,
-      upazila TEXT,
-      village TEXT,
-      address TEXT,
-      date_range TEXT,
-      start_time TEXT,
-      iftar_time TEXT,
-      contact TEXT,
-      description TEXT,
-      image_url TEXT,
-      lat REAL,
-      lng REAL,
-      link_url TEXT,
-      event_date TEXT,
-      event_day TEXT,
-      created_at TEXT
-    )
-  `);
-  console.log("SQLite Database initialized successfully.");
-} catch (err) {
-  console.error("Failed to initialize SQLite database:", err);
-}
-
-const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID;
-const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET;
 const APP_URL = process.env.APP_URL || "http://localhost:3000";
+// Proxies in front of the server (a number of hops, or addresses), so that
+// req.ip, which rate limits count by, is the visitor's address
+const TRUST_PROXY = process.env.TRUST_PROXY;
+// Session cookies, and the Drive connections kept in them, last 30 days
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// The Drive of the Google account connected in this session, if any
+function sessionDrive(req: express.Request) {
+  if (!isGoogleConnected(req)) return null;
+  req.session.driveFolders ??= { districts: {} };
+  return new DriveSync(driveClient(sessionOAuthClient(req)), req.session.driveFolders);
+}
 
-const oauth2Client = new google.auth.OAuth2(
-  GOOGLE_CLIENT_ID,
-  GOOGLE_CLIENT_SECRET,
-  `${APP_URL}/auth/google/callback`
-);
+// Keeps the moderator's own Drive copy in step with an edit or delete.
+// Other users' copies catch up when they sync.
+function updateDriveCopy(req: express.Request, update: (drive: DriveSync) => Promise<unknown>) {
+  const drive = sessionDrive(req);
+  if (drive) update(drive).catch(error => console.warn("Drive copy not updated:", error));
+}
 
-declare module 'express-session' {
-  interface SessionData {
-    tokens: any;
+// A failed Drive call: a revoked grant disconnects the session
+function driveFailed(req: express.Request, res: express.Response, error: unknown, message: string) {
+  if (isRevokedGrant(error)) {
+    forgetGoogle(req);
+    return res.status(401).json({ error: "Not connected to Google Drive" });
   }
+  console.error(`${message}:`, error);
+  res.status(500).json({ error: message });
 }
 
 async function startServer() {
   const app = express();
   const PORT = 3000;
 
+  if (TRUST_PROXY) app.set('trust proxy', /^\d+$/.test(TRUST_PROXY) ? Number(TRUST_PROXY) : TRUST_PROXY);
   app.use(express.json());
   app.use(cookieParser());
   app.use(session({
-    secret: 'iftar-shondhane-secret',
+    secret: SESSION_SECRET,
+    store: db ? new SqliteSessionStore(db) : undefined,
     resave: false,
-    saveUninitialized: true,
+    saveUninitialized: false,
     cookie: { 
       secure: true, 
       sameSite: 'none',
-      httpOnly: true
+      httpOnly: true,
+      maxAge: SESSION_MAX_AGE_MS
     }
   }));
 
+  await ensureBootstrapAdmin();
+  app.use("/api/admin", createAdminRouter());
+
+  // Event images: uploads, and the resized variants they are stored as.
+  // File names are unique per upload, so they can be cached indefinitely.
+  app.use("/api/uploads", rateLimit('upload_image'), createUploadRouter());
+  app.use("/api/events/import", createImportRouter({ appUrl: APP_URL }));
+  app.use("/api/moderation", createModerationRouter());
+  app.use(UPLOADS_PATH, express.static(UPLOAD_DIR, { maxAge: '1y', immutable: true, fallthrough: false }));
+
   // Google OAuth Routes
   app.get("/api/auth/google/url", (req, res) => {
-    const scopes = [
-      'https://www.googleapis.com/auth/drive.file',
-      'https://www.googleapis.com/auth/userinfo.profile'
-    ];
-
-    const url = oauth2Client.generateAuthUrl({
-      access_type: 'offline',
-      scope: scopes,
-      prompt: 'consent'
-    });
-
-    res.json({ url });
+    res.json({ url: authUrl(req) });
   });
 
   app.get("/auth/google/callback", async (req, res) => {
-    const { code } = req.query;
+    const { code, state } = req.query;
     try {
-      const { tokens } = await oauth2Client.getToken(code as string);
-      // Store tokens in session
-      (req.session as any).tokens = tokens;
+      if (typeof code !== 'string') throw new Error("No authorization code");
+      await completeSignIn(req, code, state);
 
+      // The opener is told only if it is this app
       res.send(`
         <html>
           <body>
             <script>
               if (window.opener) {
-                window.opener.postMessage({ type: 'GOOGLE_AUTH_SUCCESS' }, '*');
+                window.opener.postMessage({ type: 'GOOGLE_AUTH_SUCCESS' }, ${JSON.stringify(new URL(APP_URL).origin)});
                 window.close();
               } else {
                 window.location.href = '/';
@@ -120,75 +127,341 @@ async function startServer() {
   });
 
   app.get("/api/auth/google/status", (req, res) => {
-    res.json({ connected: !!(req.session as any).tokens });
+    res.json({ connected: isGoogleConnected(req) });
+  });
+
+  app.post("/api/auth/google/disconnect", requireAppRequest(), async (req, res) => {
+    await disconnectGoogle(req);
+    res.json({ success: true });
   });
 
   // Events API
-  app.get("/api/events", (req, res) => {
+  app.get("/api/events", async (req, res) => {
     if (!db) {
       return res.status(500).json({ error: "Database not initialized" });
     }
+    // Filters: ?district=&upazila=&union=&village=&type=, ?date= or ?from=&to=
+    // (YYYY-MM-DD), ?q= full-text search and ?lat=&lng=&radius= (km).
+    // ?sort=newest|soonest|nearest|relevance, ?limit= and the ?cursor= from
+    // the previous page's nextCursor.
+    const parsed = parseEventQuery(req.query);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
     try {
-      const events = db.prepare("SELECT * FROM events ORDER BY created_at DESC").all();
-      res.json(events);
+      res.json(queryEvents(db, parsed.query, todayInBangladesh()));
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ error: error.message });
+      }
       console.error("Failed to fetch events:", error);
       res.status(500).json({ error: "Failed to fetch events" });
     }
   });
 
-  app.post("/api/events", (req, res) => {
+  // Download of the filtered list: ?format=csv|json|geojson with the same
+  // filters and sort as GET /api/events, without paging.
+  app.get("/api/events/export", async (req, res) => {
     if (!db) {
       return res.status(500).json({ error: "Database not initialized" });
     }
+    const format = req.query.format ?? 'csv';
+    if (!isExportFormat(format)) {
+      return res.status(400).json({ error: `format must be one of ${EXPORT_FORMATS.join(', ')}` });
+    }
+    const parsed = parseEventQuery({ ...req.query, limit: undefined, cursor: undefined });
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
     try {
-      const event = req.body;
-      console.log("Adding event:", event.name);
-      
-      const stmt = db.prepare(`
-        INSERT INTO events (
-          name, type, district, upazila, village, address, date_range, 
-          start_time, iftar_time, contact, description, image_url, 
-          lat, lng, link_url, event_date, event_day, created_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `);
-      
-      const result = stmt.run(
-        event.name || null, 
-        event.type || null, 
-        event.district || null, 
-        event.upazila || null, 
-        event.village || null, 
-        event.address || null, 
-        event.date_range || null, 
-        event.start_time || null, 
-        event.iftar_time || null, 
-        event.contact || null, 
-        event.description || null, 
-        event.image_url || null, 
-        event.lat ?? null, 
-        event.lng ?? null, 
-        event.link_url || null, 
-        event.event_date || null, 
-        event.event_day || null, 
-        event.created_at || new Date().toISOString()
-      );
-      
-      res.json({ success: true, id: result.lastInsertRowid });
+      const today = todayInBangladesh();
+      const { body, contentType } = renderExport(exportableEvents(db, parsed.query, today), format);
+      res.type(contentType);
+      res.attachment(`iftar-events-${today}.${format}`);
+      res.send(body);
+    } catch (error) {
+      console.error("Failed to export events:", error);
+      res.status(500).json({ error: "Failed to export events" });
+    }
+  });
+
+  // Calendar export: a single event, and per-district feeds that calendar
+  // apps subscribe to and re-fetch. ?reminder= sets the alarm in minutes
+  // before iftar (0 for none).
+  app.get("/api/events/:id.ics", async (req, res) => {
+    if (!db) {
+      return res.status(500).json({ error: "Database not initialized" });
+    }
+    const reminderMinutes = parseReminder(req.query.reminder);
+    if (reminderMinutes === null) {
+      return res.status(400).json({ error: `reminder must be 0 to ${MAX_REMINDER_MINUTES} minutes` });
+    }
+    try {
+      const event = await eventRepository.get(req.params.id);
+      if (!event || !canViewEvent(req, event)) {
+        // Links to an event merged into another follow it
+        const mergedInto = eventRepository.mergedInto(req.params.id);
+        if (mergedInto) return res.redirect(301, `/api/events/${mergedInto}.ics${req.url.slice(req.path.length)}`);
+        return res.status(404).json({ error: "Event not found" });
+      }
+      res.type("text/calendar; charset=utf-8");
+      res.attachment(`${event.id}.ics`);
+      res.send(renderCalendar(listOccurrences(db, { eventId: event.id }), { name: event.name, appUrl: APP_URL, reminderMinutes }));
+    } catch (error) {
+      console.error("Failed to export event:", error);
+      res.status(500).json({ error: "Failed to export event" });
+    }
+  });
+
+  app.get("/calendar/district/:district.ics", (req, res) => {
+    if (!db) {
+      return res.status(500).json({ error: "Database not initialized" });
+    }
+    const district = findDistrict(req.params.district);
+    if (!district) {
+      return res.status(404).json({ error: "District not found" });
+    }
+    const type = typeof req.query.type === 'string' && req.query.type ? req.query.type : undefined;
+    if (type && !EVENT_TYPE_IDS.includes(type as typeof EVENT_TYPE_IDS[number])) {
+      return res.status(400).json({ error: `type must be one of ${EVENT_TYPE_IDS.join(', ')}` });
+    }
+    const reminderMinutes = parseReminder(req.query.reminder);
+    if (reminderMinutes === null) {
+      return res.status(400).json({ error: `reminder must be 0 to ${MAX_REMINDER_MINUTES} minutes` });
+    }
+    // Past dates drop out of the feed as it is refreshed
+    const occurrences = listOccurrences(db, { district: district.code, type, from: todayInBangladesh() });
+    res.type("text/calendar; charset=utf-8");
+    res.setHeader("Cache-Control", "public, max-age=900");
+    res.send(renderCalendar(occurrences, { name: `ইফতার সন্ধানে - ${district.bn}`, appUrl: APP_URL, reminderMinutes }));
+  });
+
+  // Stamps the add form with the time it was opened, see submissionBlockReason()
+  app.get("/api/events/form-token", (req, res) => {
+    res.json({ token: issueFormToken() });
+  });
+
+  // A single event. Links to an event merged into another get a 404 naming
+  // the event it was merged into, so the app can follow it.
+  app.get("/api/events/:id", async (req, res) => {
+    if (!db) {
+      return res.status(500).json({ error: "Database not initialized" });
+    }
+    try {
+      const event = await eventRepository.get(req.params.id);
+      if (!event || !canViewEvent(req, event)) {
+        return res.status(404).json({ error: "Event not found", merged_into: eventRepository.mergedInto(req.params.id) ?? undefined });
+      }
+      res.json(event);
+    } catch (error) {
+      console.error("Failed to fetch event:", error);
+      res.status(500).json({ error: "Failed to fetch event" });
+    }
+  });
+
+  // Share image for link previews, see server/shareCard.ts
+  app.get("/api/events/:id/share.png", async (req, res) => {
+    if (!db) {
+      return res.status(500).json({ error: "Database not initialized" });
+    }
+    try {
+      const event = await eventRepository.get(req.params.id);
+      if (!event || !isPublished(event)) {
+        return res.status(404).json({ error: "Event not found" });
+      }
+      res.type("png");
+      res.setHeader("Cache-Control", "public, max-age=3600");
+      res.send(await renderShareImage(event, APP_URL));
+    } catch (error) {
+      console.error("Failed to render share image:", error);
+      res.status(500).json({ error: "Failed to render share image" });
+    }
+  });
+
+  app.post("/api/events", rateLimit('submit_event'), async (req, res) => {
+    if (!db) {
+      return res.status(500).json({ error: "Database not initialized" });
+    }
+    const submitted = pickEventInput(req.body);
+    const blocked = submissionBlockReason(req, submitted);
+    if (blocked) {
+      logBlockedAttempt(req, blocked, typeof submitted.name === 'string' ? submitted.name : null);
+      return res.status(400).json({ error: "Submission blocked", blocked });
+    }
+    const errors: EventErrors & { organizer_email?: string } = validateEvent(submitted);
+    // The organizer's email only receives the management link
+    const organizerAddress = typeof req.body.organizer_email === 'string' ? req.body.organizer_email.trim() : '';
+    if (organizerAddress && !isEmail(organizerAddress)) {
+      errors.organizer_email = 'সঠিক ইমেইল ঠিকানা দিন';
+    }
+    if (hasErrors(errors)) {
+      return res.status(400).json({ error: "Invalid event", fields: errors });
+    }
+    try {
+      const input = await completeSubmission(submitted);
+      // Likely duplicates are shown to the submitter, who can send the event
+      // again with allow_duplicate once they have checked them
+      if (req.body.allow_duplicate !== true) {
+        const duplicates = findDuplicates(db, input).filter(match => isPublished(match.event));
+        if (duplicates.length) {
+          return res.status(409).json({ error: "Possible duplicate", duplicates });
+        }
+      }
+      if (!claimFormToken(req)) {
+        logBlockedAttempt(req, 'form_token', input.name);
+        return res.status(400).json({ error: "Submission blocked", blocked: 'form_token' });
+      }
+      console.log("Adding event:", input.name);
+      const event = await eventRepository.create({ ...input, status: submissionStatus(req, input) });
+      // The link is shown once, to the submitter, and optionally emailed. A
+      // trusted organizer's pending event is published when they open the
+      // emailed link, so that link is not shown.
+      const confirm_by_email = event.status === 'pending' && isTrustedSubmitter(organizerAddress);
+      const manage_url = manageUrl(APP_URL, event.id, issueEditToken(event.id, organizerAddress));
+      if (organizerAddress) {
+        sendManageLink(event, organizerAddress, manage_url, { confirm: confirm_by_email }).catch(error => console.warn("Management link not sent:", error));
+      }
+      res.json({
+        success: true,
+        id: event.id,
+        event,
+        manage_url: confirm_by_email ? undefined : manage_url,
+        emailed: !!organizerAddress,
+        confirm_by_email,
+      });
     } catch (error) {
-      console.error("Failed to add event to SQLite:", error);
+      console.error("Failed to add event:", error);
       res.status(500).json({ error: "Failed to add event to database" });
     }
   });
 
-  app.post("/api/events/delete", (req, res) => {
+  // Edits by a moderator, or by the organizer with the event's edit token
+  app.put("/api/events/:id", rateLimit('edit_event'), requireEventManager(), async (req, res) => {
+    if (!db) {
+      return res.status(500).json({ error: "Database not initialized" });
+    }
+    try {
+      const admin = res.locals.admin as AdminUser | undefined;
+      const existing = res.locals.event as StoredEvent;
+      if (!admin && existing.status === 'rejected') {
+        return res.status(409).json({ error: "Rejected events cannot be edited" });
+      }
+
+      const submitted = pickEventInput(req.body);
+      // An end date alone is checked against the event's stored start
+      const errors = validateEvent(existing.target_date ? { target_date: existing.target_date, ...submitted } : submitted, { partial: true });
+      if (hasErrors(errors)) {
+        return res.status(400).json({ error: "Invalid event", fields: errors });
+      }
+      const blocked = editBlockReason(req, { ...existing, ...submitted });
+      if (blocked) {
+        logBlockedAttempt(req, blocked, typeof submitted.name === 'string' ? submitted.name : existing.name);
+        return res.status(400).json({ error: "Submission blocked", blocked });
+      }
+      // Decided on the organizer's own changes, before the derived fields
+      // are added to them
+      const status = admin ? undefined : statusAfterOrganizerEdit(existing, submitted);
+
+      const changes = await completeEventGeo(submitted);
+      // A district moderator may neither edit events outside their district
+      // nor move one of their events into another district.
+      if (admin && !canModerateEvent(admin, { district_code: changes.district_code ?? existing.district_code })) {
+        return res.status(403).json({ error: "Insufficient permissions" });
+      }
+
+      // Derive the date and iftar time when the edit leaves them empty
+      const completed = withIftarTime(withStructuredDate({ ...existing, ...changes }, todayInBangladesh()));
+      for (const field of ['target_date', 'event_day', 'iftar_time'] as const) {
+        if (!changes[field] && completed[field]) changes[field] = completed[field];
+      }
+
+      console.log("Updating event:", existing.id);
+      const event = await eventRepository.update(existing.id, status ? { ...changes, status } : changes);
+      if (event) updateDriveCopy(req, drive => drive.save(event, { onlyIfSaved: true }));
+      res.json({ success: true, event });
+    } catch (error) {
+      console.error("Failed to update event:", error);
+      res.status(500).json({ error: "Failed to update event" });
+    }
+  });
+
+  // The organizer's management page checks its link here
+  app.get("/api/events/:id/manage", requireEventManager(), async (req, res) => {
+    try {
+      let event = res.locals.event as StoredEvent;
+      if (!res.locals.admin) event = await confirmTrustedSubmission(event);
+      res.json({ event, organizer_email: organizerEmail(event.id) });
+    } catch (error) {
+      console.error("Failed to load event:", error);
+      res.status(500).json({ error: "Failed to load event" });
+    }
+  });
+
+  // Cancelled events stay listed, marked as cancelled, until they are
+  // deleted; { cancelled: false } restores one.
+  app.post("/api/events/:id/cancel", rateLimit('edit_event'), requireEventManager(), async (req, res) => {
+    if (typeof req.body.cancelled !== 'boolean') {
+      return res.status(400).json({ error: "cancelled must be true or false" });
+    }
+    try {
+      const existing = res.locals.event as StoredEvent;
+      const cancelled_at = req.body.cancelled ? existing.cancelled_at || new Date().toISOString() : null;
+      console.log(`${cancelled_at ? 'Cancelling' : 'Restoring'} event:`, existing.id);
+      const event = await eventRepository.update(existing.id, { cancelled_at });
+      if (event) updateDriveCopy(req, drive => drive.save(event, { onlyIfSaved: true }));
+      res.json({ success: true, event });
+    } catch (error) {
+      console.error("Failed to cancel event:", error);
+      res.status(500).json({ error: "Failed to cancel event" });
+    }
+  });
+
+  // A new management link for an organizer who lost theirs. The old link
+  // stops working. It is emailed when an address is given or on file.
+  app.post("/api/events/:id/manage-link", requireRole('admin', 'moderator', 'district_moderator'), async (req, res) => {
+    if (!db) {
+      return res.status(500).json({ error: "Database not initialized" });
+    }
+    const email = typeof req.body.email === 'string' ? req.body.email.trim() : '';
+    if (email && !isEmail(email)) {
+      return res.status(400).json({ error: "Invalid email address" });
+    }
+    try {
+      const admin = res.locals.admin as AdminUser;
+      const event = await eventRepository.get(req.params.id);
+      if (!event) {
+        return res.status(404).json({ error: "Event not found" });
+      }
+      if (!canModerateEvent(admin, event)) {
+        return res.status(403).json({ error: "Insufficient permissions" });
+      }
+      const manage_url = manageUrl(APP_URL, event.id, issueEditToken(event.id, email));
+      const recipient = email || organizerEmail(event.id);
+      if (recipient) await sendManageLink(event, recipient, manage_url);
+      res.json({ success: true, manage_url, emailed: !!recipient });
+    } catch (error) {
+      console.error("Failed to issue management link:", error);
+      res.status(500).json({ error: "Failed to issue management link" });
+    }
+  });
+
+  app.post("/api/events/delete", rateLimit('delete_event'), requireRole('admin', 'moderator', 'district_moderator'), async (req, res) => {
     if (!db) {
       return res.status(500).json({ error: "Database not initialized" });
     }
     try {
       const { id } = req.body;
-      const stmt = db.prepare("DELETE FROM events WHERE id = ?");
-      stmt.run(id);
+      const admin = res.locals.admin as AdminUser;
+      const event = await eventRepository.get(String(id));
+      if (!event) {
+        return res.status(404).json({ error: "Event not found" });
+      }
+      if (!canModerateEvent(admin, event)) {
+        return res.status(403).json({ error: "Insufficient permissions" });
+      }
+
+      await eventRepository.remove(event.id);
+      updateDriveCopy(req, drive => drive.trash(event.id));
       res.json({ success: true });
     } catch (error) {
       console.error("Failed to delete event:", error);
@@ -196,68 +469,183 @@ async function startServer() {
     }
   });
 
-  app.post("/api/drive/save", async (req, res) => {
-    const tokens = (req.session as any).tokens;
-    if (!tokens) {
-      return res.status(401).json({ error: "Not connected to Google Drive" });
+  // Duplicate review: likely duplicates of an event, and merging one into it
+  app.get("/api/events/:id/duplicates", requireRole('admin', 'moderator', 'district_moderator'), async (req, res) => {
+    if (!db) {
+      return res.status(500).json({ error: "Database not initialized" });
     }
+    try {
+      const admin = res.locals.admin as AdminUser;
+      const event = await eventRepository.get(req.params.id);
+      if (!event) {
+        return res.status(404).json({ error: "Event not found" });
+      }
+      if (!canModerateEvent(admin, event)) {
+        return res.status(403).json({ error: "Insufficient permissions" });
+      }
+      res.json(findDuplicates(db, event, event.id).filter(match => canModerateEvent(admin, match.event)));
+    } catch (error) {
+      console.error("Failed to find duplicates:", error);
+      res.status(500).json({ error: "Failed to find duplicates" });
+    }
+  });
 
-    const { eventData } = req.body;
-    
+  app.post("/api/events/:id/merge", requireRole('admin', 'moderator', 'district_moderator'), async (req, res) => {
+    if (!db) {
+      return res.status(500).json({ error: "Database not initialized" });
+    }
+    const { duplicate_id, prefer = [] } = req.body;
+    if (typeof duplicate_id !== 'string' || !Array.isArray(prefer) || prefer.some(f => !(EVENT_FIELDS as readonly string[]).includes(f))) {
+      return res.status(400).json({ error: "Provide duplicate_id and the fields to prefer from it" });
+    }
     try {
-      oauth2Client.setCredentials(tokens);
-      const drive = google.drive({ version: 'v3', auth: oauth2Client });
-
-      // 1. Find or create folder "Iftar Shondhane"
-      let folderId;
-      const folderResponse = await drive.files.list({
-        q: "name = 'Iftar Shondhane' and mimeType = 'application/vnd.google-apps.folder' and trashed = false",
-        fields: 'files(id)',
+      const admin = res.locals.admin as AdminUser;
+      const [event, duplicate] = await Promise.all([eventRepository.get(req.params.id), eventRepository.get(duplicate_id)]);
+      if (!event || !duplicate) {
+        return res.status(404).json({ error: "Event not found" });
+      }
+      if (event.id === duplicate.id) {
+        return res.status(400).json({ error: "An event cannot be merged into itself" });
+      }
+      if (!canModerateEvent(admin, event) || !canModerateEvent(admin, duplicate)) {
+        return res.status(403).json({ error: "Insufficient permissions" });
+      }
+
+      console.log(`Merging event ${duplicate.id} into ${event.id}`);
+      const merged = await eventRepository.merge(event.id, duplicate.id, prefer, admin.id);
+      updateDriveCopy(req, async drive => {
+        // A copy of the duplicate is replaced by one of the kept event
+        const hadCopy = await drive.trash(duplicate.id) > 0;
+        if (merged) await drive.save(merged, { onlyIfSaved: !hadCopy });
       });
+      res.json({ success: true, event: merged });
+    } catch (error) {
+      console.error("Failed to merge events:", error);
+      res.status(500).json({ error: "Failed to merge events" });
+    }
+  });
+
+  // Sehri/iftar times for a location, or a district centroid, on a date
+  app.get("/api/times", (req, res) => {
+    const { lat, lng, district } = req.query;
+    const date = typeof req.query.date === 'string' && req.query.date ? req.query.date : todayInBangladesh();
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+      return res.status(400).json({ error: "date must be YYYY-MM-DD" });
+    }
+
+    const coordinates = lat !== undefined && lng !== undefined
+      ? [Number(lat), Number(lng)]
+      : getDistrictCentroid(typeof district === 'string' ? district : undefined);
+    if (!coordinates || coordinates.some(isNaN) || Math.abs(coordinates[0]) > 66 || Math.abs(coordinates[1]) > 180) {
+      return res.status(400).json({ error: "Provide lat and lng, or a district code" });
+    }
+
+    res.json({ ...calculatePrayerTimes(coordinates[0], coordinates[1], date), timezone: BANGLADESH_TIMEZONE });
+  });
+
+  // Cross-store consistency
+  app.get("/api/admin/failed-writes", requireRole('admin'), (req, res) => {
+    res.json(eventRepository.listFailedWrites(req.query.all === 'true'));
+  });
+
+  // Submissions and requests stopped by the spam checks and rate limits
+  app.get("/api/admin/blocked-attempts", requireRole('admin'), (req, res) => {
+    res.json(listBlockedAttempts(typeof req.query.reason === 'string' ? req.query.reason : null));
+  });
+
+  app.post("/api/admin/reconcile", requireRole('admin'), async (req, res) => {
+    try {
+      const report = await reconcileEvents(eventRepository);
+      res.json(report);
+    } catch (error) {
+      console.error("Reconcile failed:", error);
+      res.status(500).json({ error: "Reconcile failed" });
+    }
+  });
 
-      if (folderResponse.data.files && folderResponse.data.files.length > 0) {
-        folderId = folderResponse.data.files[0].id;
-      } else {
-        const folderMetadata = {
-          name: 'Iftar Shondhane',
-          mimeType: 'application/vnd.google-apps.folder',
-        };
-        const folder = await drive.files.create({
-          requestBody: folderMetadata,
-          fields: 'id',
-        });
-        folderId = folder.data.id;
+  // Google Drive copies: saving one event, bringing every copy up to date
+  // and adding saved events back to the site
+  app.post("/api/drive/save", rateLimit('drive_save'), async (req, res) => {
+    const drive = sessionDrive(req);
+    if (!drive) {
+      return res.status(401).json({ error: "Not connected to Google Drive" });
+    }
+    try {
+      const event = await eventRepository.get(String(req.body.id ?? ''));
+      if (!event || !canViewEvent(req, event)) {
+        return res.status(404).json({ error: "Event not found" });
       }
+      const fileId = await drive.save(event);
+      res.json({ success: true, fileId });
+    } catch (error) {
+      driveFailed(req, res, error, "Failed to save to Drive");
+    }
+  });
 
-      // 2. Create JSON file for the event
-      const fileMetadata = {
-        name: `${eventData.name}_${Date.now()}.json`,
-        parents: [folderId!],
-      };
-      const media = {
-        mimeType: 'application/json',
-        body: JSON.stringify(eventData, null, 2),
-      };
-
-      const file = await drive.files.create({
-        requestBody: fileMetadata,
-        media: media,
-        fields: 'id',
-      });
+  app.post("/api/drive/sync", rateLimit('drive_sync'), async (req, res) => {
+    const drive = sessionDrive(req);
+    if (!drive) {
+      return res.status(401).json({ error: "Not connected to Google Drive" });
+    }
+    try {
+      res.json(await drive.refresh(eventRepository));
+    } catch (error) {
+      driveFailed(req, res, error, "Failed to sync with Drive");
+    }
+  });
 
-      res.json({ success: true, fileId: file.data.id });
+  app.post("/api/drive/restore", rateLimit('drive_restore'), async (req, res) => {
+    const drive = sessionDrive(req);
+    if (!drive) {
+      return res.status(401).json({ error: "Not connected to Google Drive" });
+    }
+    if (!db) {
+      return res.status(500).json({ error: "Database not initialized" });
+    }
+    try {
+      res.json(await drive.restore(eventRepository));
     } catch (error) {
-      console.error("Drive Save Error:", error);
-      res.status(500).json({ error: "Failed to save to Drive" });
+      driveFailed(req, res, error, "Failed to restore from Drive");
     }
   });
 
+  // Unknown API paths are errors rather than app pages
+  app.all("/api/*", (req, res) => {
+    res.status(404).json({ error: "Not found" });
+  });
+
   // Vite middleware for development
-  if (process.env.NODE_ENV !== "production") {
-    const vite = await createViteServer({
-      server: { middlewareMode: true },
-      appType: "spa",
-    });
+  const vite = process.env.NODE_ENV !== "production"
+    ? await createViteServer({
+        server: { middlewareMode: true },
+        appType: "spa",
+      })
+    : null;
+  const indexHtml = async (url: string) => vite
+    ? vite.transformIndexHtml(url, await readFile(path.join(__dirname, "index.html"), "utf-8"))
+    : readFile(path.join(__dirname, "dist", "index.html"), "utf-8");
+
+  // Event pages carry the event's own title and Open Graph tags for link previews
+  app.get("/event/:id", async (req, res, next) => {
+    if (!db) return next();
+    try {
+      const event = await eventRepository.get(req.params.id);
+      if (!event) {
+        const mergedInto = eventRepository.mergedInto(req.params.id);
+        if (mergedInto) return res.redirect(301, eventPath(mergedInto));
+        return res.status(404).type("html").send(await indexHtml(req.originalUrl));
+      }
+      // Unpublished events get no preview; the app shows them to moderators
+      if (!isPublished(event)) return res.type("html").send(await indexHtml(req.originalUrl));
+      res.type("html").send(withEventMeta(await indexHtml(req.originalUrl), event, APP_URL));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Everything else, such as /district/:district and /about, is a route of
+  // the client-side router and gets the SPA's index.html.
+  if (vite) {
     app.use(vite.middlewares);
   } else {
     app.use(express.static(path.join(__dirname, "dist")));
@@ -266,6 +654,8 @@ async function startServer() {
     });
   }
 
+  if (db) scheduleReconcile(eventRepository);
+
   app.listen(PORT, "0.0.0.0", () => {
     console.log(`Server running on http://localhost:${PORT}`);
   });
@@ -0,0 +1,179 @@
+import express, { Request, Response, NextFunction } from "express";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { db } from "./db";
+import { findDistrict } from "../src/lib/geo";
+import { logBlockedAttempt, rateLimit } from "./spam";
+import type { AdminRole, AdminUser } from "../src/types";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+export const ADMIN_ROLES: AdminRole[] = ['admin', 'moderator', 'district_moderator'];
+
+declare module 'express-session' {
+  interface SessionData {
+    adminId: number;
+  }
+}
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString('hex');
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt$${salt}$${hash.toString('hex')}`;
+}
+
+async function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, salt, expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+function findAdminById(id: number) {
+  return db.prepare("SELECT id, username, role, district, created_at FROM admin_users WHERE id = ?").get(id) as AdminUser | undefined;
+}
+
+export async function createAdminUser(username: string, password: string, role: AdminRole, district?: string | null) {
+  const passwordHash = await hashPassword(password);
+  const result = db.prepare(`
+    INSERT INTO admin_users (username, password_hash, role, district, created_at)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(username, passwordHash, role, role === 'district_moderator' ? district || null : null, new Date().toISOString());
+  return findAdminById(Number(result.lastInsertRowid))!;
+}
+
+// Creates the first admin account from ADMIN_USERNAME / ADMIN_PASSWORD when
+// the table is still empty, so a fresh install is never left without an admin.
+export async function ensureBootstrapAdmin() {
+  if (!db) return;
+  const { count } = db.prepare("SELECT COUNT(*) AS count FROM admin_users").get() as { count: number };
+  if (count > 0) return;
+
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!username || !password) {
+    console.warn("No admin accounts exist. Set ADMIN_USERNAME and ADMIN_PASSWORD to create one.");
+    return;
+  }
+  await createAdminUser(username, password, 'admin');
+  console.log(`Created initial admin account "${username}".`);
+}
+
+export function getSessionAdmin(req: Request) {
+  const adminId = req.session.adminId;
+  if (!adminId || !db) return null;
+  return findAdminById(adminId) || null;
+}
+
+// Rejects the request unless the session belongs to an admin account with one
+// of the given roles. The loaded account is exposed as res.locals.admin.
+export function requireRole(...roles: AdminRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const admin = getSessionAdmin(req);
+    if (!admin) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (!roles.includes(admin.role)) {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+    res.locals.admin = admin;
+    next();
+  };
+}
+
+// The session cookie is sent cross-site (SameSite=None), so routes that take
+// form posts need this header: a browser only adds it to another site's
+// request after a CORS preflight, which this server never allows. JSON
+// bodies get the same protection from their content type.
+export const APP_REQUEST_HEADER = 'X-Requested-With';
+
+export function requireAppRequest() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.get(APP_REQUEST_HEADER)) {
+      return res.status(403).json({ error: `Missing ${APP_REQUEST_HEADER} header` });
+    }
+    next();
+  };
+}
+
+export function createAdminRouter() {
+  const router = express.Router();
+
+  router.post("/login", rateLimit('admin_login'), async (req, res) => {
+    const { username, password } = req.body || {};
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      return res.status(400).json({ error: "Username and password are required" });
+    }
+    try {
+      const row = db.prepare("SELECT * FROM admin_users WHERE username = ?").get(username) as (AdminUser & { password_hash: string }) | undefined;
+      if (!row || !(await verifyPassword(password, row.password_hash))) {
+        logBlockedAttempt(req, 'login_failed', username);
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+      // Issue a fresh session id on login to prevent session fixation.
+      req.session.regenerate((err) => {
+        if (err) {
+          console.error("Session regenerate failed:", err);
+          return res.status(500).json({ error: "Login failed" });
+        }
+        req.session.adminId = row.id;
+        res.json({ user: findAdminById(row.id) });
+      });
+    } catch (error) {
+      console.error("Admin login failed:", error);
+      res.status(500).json({ error: "Login failed" });
+    }
+  });
+
+  router.post("/logout", (req, res) => {
+    delete req.session.adminId;
+    res.json({ success: true });
+  });
+
+  router.get("/me", (req, res) => {
+    res.json({ user: getSessionAdmin(req) });
+  });
+
+  router.get("/users", requireRole('admin'), (req, res) => {
+    const users = db.prepare("SELECT id, username, role, district, created_at FROM admin_users ORDER BY id").all();
+    res.json(users);
+  });
+
+  router.post("/users", requireRole('admin'), async (req, res) => {
+    const { username, password, role, district } = req.body || {};
+    if (typeof username !== 'string' || !username.trim() || typeof password !== 'string' || password.length < 8) {
+      return res.status(400).json({ error: "A username and a password of at least 8 characters are required" });
+    }
+    if (!ADMIN_ROLES.includes(role)) {
+      return res.status(400).json({ error: "Unknown role" });
+    }
+    if (role === 'district_moderator' && !district) {
+      return res.status(400).json({ error: "District moderators need a district" });
+    }
+    // Stored as the district code, which events are matched by; the name in
+    // Bangla or English works too
+    const districtCode = role === 'district_moderator' ? findDistrict(String(district))?.code : null;
+    if (role === 'district_moderator' && !districtCode) {
+      return res.status(400).json({ error: "Unknown district" });
+    }
+    try {
+      const user = await createAdminUser(username.trim(), password, role, districtCode);
+      res.json({ user });
+    } catch (error) {
+      console.error("Failed to create admin user:", error);
+      res.status(409).json({ error: "Username already exists" });
+    }
+  });
+
+  router.delete("/users/:id", requireRole('admin'), (req, res) => {
+    const id = Number(req.params.id);
+    if (id === (res.locals.admin as AdminUser).id) {
+      return res.status(400).json({ error: "You cannot delete your own account" });
+    }
+    db.prepare("DELETE FROM admin_users WHERE id = ?").run(id);
+    res.json({ success: true });
+  });
+
+  return router;
+}
@@ -0,0 +1,156 @@
+import { formatClockBn } from "../src/lib/bangla";
+import { eventPath } from "../src/lib/routes";
+import { BANGLADESH_TIMEZONE, BANGLADESH_UTC_OFFSET, eventPrayerTimes } from "../src/lib/prayerTimes";
+import type { EventOccurrence } from "./repository";
+
+// iCalendar (RFC 5545) export of events. Each date an event runs on becomes
+// its own VEVENT, timed from start_time and the iftar time, with an alarm
+// ahead of iftar so phones remind people before the fast breaks.
+export const DEFAULT_REMINDER_MINUTES = 30;
+export const MAX_REMINDER_MINUTES = 240;
+
+// How long an entry lasts after the later of start and iftar
+const DURATION_MINUTES = 60;
+// Calendar apps re-fetch subscribed feeds about this often
+const REFRESH_INTERVAL = "PT1H";
+
+export interface CalendarOptions {
+  name: string;
+  // Used for links back to the event and for stable UIDs, so re-imported
+  // entries update rather than duplicate
+  appUrl: string;
+  reminderMinutes: number;
+}
+
+const CLOCK_TIME = /^(\d{1,2}):(\d{2})$/;
+
+// Minutes after midnight of an "HH:mm" time. Free-text times such as
+// "আসরের পর" have no fixed clock time.
+function clockMinutes(time?: string | null) {
+  const match = time ? CLOCK_TIME.exec(time.trim()) : null;
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+// The entered or stored iftar time holds for the event's first date. Later
+// dates of a recurring event are computed, as sunset moves day by day.
+function iftarTime({ event, date }: EventOccurrence) {
+  const entered = clockMinutes(event.iftar_time) != null ? event.iftar_time : null;
+  if (date === event.target_date && entered) return entered;
+  return eventPrayerTimes(event, date)?.iftar ?? entered;
+}
+
+const compactDate = (date: string) => date.replace(/-/g, '');
+
+// Bangladesh local time as a UTC timestamp, e.g. 20260301T120500Z
+function utcTimestamp(date: string, minutes: number) {
+  const time = Date.parse(date) + (minutes - BANGLADESH_UTC_OFFSET * 60) * 60_000;
+  return new Date(time).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+const isoTimestamp = (iso: string) => new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const nextDay = (date: string) => new Date(Date.parse(date) + 24 * 3600_000).toISOString().slice(0, 10);
+
+const duration = (minutes: number) => `${minutes < 0 ? '-' : ''}PT${Math.abs(minutes)}M`;
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded onto continuation lines starting
+// with a space, without splitting a multi-byte Bangla character.
+function foldLine(line: string) {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length ? 74 : 75;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function renderOccurrence(occurrence: EventOccurrence, options: CalendarOptions) {
+  const { event, date } = occurrence;
+  const iftarClock = iftarTime(occurrence);
+  const iftar = clockMinutes(iftarClock);
+  const start = clockMinutes(event.start_time) ?? iftar;
+
+  const place = [event.address, event.village, event.union_name, event.upazila, event.district].filter(Boolean).join(', ');
+  const details = [
+    iftarClock ? `ইফতারের সময়: ${formatClockBn(iftarClock)}` : null,
+    event.start_time && clockMinutes(event.start_time) == null ? `শুরু: ${event.start_time}` : null,
+    event.contact ? `যোগাযোগ: ${event.contact}` : null,
+    event.link_url ? `লোকেশন: ${event.link_url}` : null,
+    event.description || null,
+  ].filter(Boolean).join('\n');
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.id}-${compactDate(date)}@${new URL(options.appUrl).hostname}`,
+    `DTSTAMP:${isoTimestamp(event.updated_at)}`,
+    `LAST-MODIFIED:${isoTimestamp(event.updated_at)}`,
+  ];
+  if (start != null) {
+    lines.push(
+      `DTSTART:${utcTimestamp(date, start)}`,
+      `DTEND:${utcTimestamp(date, Math.max(start, iftar ?? start) + DURATION_MINUTES)}`,
+    );
+  } else {
+    // Without any clock time the entry is an all-day one
+    lines.push(`DTSTART;VALUE=DATE:${compactDate(date)}`, `DTEND;VALUE=DATE:${compactDate(nextDay(date))}`);
+  }
+  lines.push(`SUMMARY:${escapeText(event.cancelled_at ? `বাতিল: ${event.name}` : event.name)}`);
+  // Subscribed calendars mark the entry as called off rather than dropping it
+  if (event.cancelled_at) lines.push('STATUS:CANCELLED');
+  if (place) lines.push(`LOCATION:${escapeText(place)}`);
+  if (event.lat != null && event.lng != null) lines.push(`GEO:${event.lat};${event.lng}`);
+  if (details) lines.push(`DESCRIPTION:${escapeText(details)}`);
+  lines.push(`URL:${new URL(eventPath(event.id), options.appUrl)}`);
+
+  // The alarm is relative to DTSTART, which may be earlier than iftar
+  if (options.reminderMinutes > 0 && start != null && !event.cancelled_at) {
+    const before = iftar ?? start;
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `TRIGGER:${duration(before - options.reminderMinutes - start)}`,
+      `DESCRIPTION:${escapeText(iftar != null ? `${event.name} - ইফতারের আগে` : event.name)}`,
+      'END:VALARM',
+    );
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+export function renderCalendar(occurrences: EventOccurrence[], options: CalendarOptions) {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Iftar Shondhane//Events//BN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    `X-WR-TIMEZONE:${BANGLADESH_TIMEZONE}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+    ...occurrences.flatMap(occurrence => renderOccurrence(occurrence, options)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// Reads ?reminder= as minutes before iftar; 0 turns the alarm off.
+export function parseReminder(value: unknown) {
+  if (value === undefined || value === '') return DEFAULT_REMINDER_MINUTES;
+  const minutes = Number(value);
+  return Number.isInteger(minutes) && minutes >= 0 && minutes <= MAX_REMINDER_MINUTES ? minutes : null;
+}
@@ -0,0 +1,11 @@
+// CSV written for spreadsheets: quoted as RFC 4180 describes, with CRLF line
+// ends and a byte order mark so Excel opens the file as UTF-8.
+const quote = (value: unknown) => {
+  let text = value === null || value === undefined ? '' : String(value);
+  // Text starting like a formula is prefixed so spreadsheets show it as text
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text) && isNaN(Number(text))) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: unknown[][]) =>
+  '\uFEFF' + rows.map(row => row.map(quote).join(',')).join('\r\n') + '\r\n';
@@ -0,0 +1,15 @@
+import Database from "better-sqlite3";
+import { runMigrations } from "./migrations";
+
+// Initialize SQLite Database
+export let db: Database.Database;
+try {
+  // Only expose the connection once the schema is up to date, so routes keep
+  // answering "Database not initialized" if a migration fails.
+  const database = new Database("events.db");
+  runMigrations(database);
+  db = database;
+  console.log("SQLite Database initialized successfully.");
+} catch (err) {
+  console.error("Failed to initialize SQLite database:", err);
+}
@@ -0,0 +1,255 @@
+import { google, type Auth, type drive_v3 } from "googleapis";
+import { findDistrict } from "../src/lib/geo";
+import { hasErrors, validateEvent } from "../src/lib/eventSchema";
+import { db } from "./db";
+import { contentSpamReason } from "./spam";
+import { completeSubmission } from "./submissions";
+import { findDuplicates, pickEventInput, toStoredEvent, type EventRepository, type StoredEvent } from "./repository";
+
+// Google Drive copies of events, saved to a user's own Drive. Each event is
+// one JSON file, found again by the event id in its app properties, so
+// saving an event twice updates its file. Files are kept in a folder per
+// district under the app's folder.
+//
+// DRIVE_API_URL points the Drive and OAuth calls at a stand-in server, such
+// as `npm run drive:standin`, for working without a Google project.
+export const DRIVE_API_URL = process.env.DRIVE_API_URL;
+export const DRIVE_FOLDER_NAME = 'Iftar Shondhane';
+
+const FOLDER_MIME = 'application/vnd.google-apps.folder';
+// App properties on each event file. Drive can only search properties by
+// key and value together, so every file also carries the fixed kind.
+const KIND = { key: 'iftar_kind', value: 'event' };
+const EVENT_ID = 'iftar_event_id';
+const UPDATED_AT = 'iftar_updated_at';
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Folder ids found or created during a session, so saves do not look the
+// folders up again. Kept in the session; stale ids are dropped on a 404.
+export interface DriveFolders {
+  root?: string;
+  districts: Record<string, string>;
+}
+
+declare module 'express-session' {
+  interface SessionData {
+    driveFolders: DriveFolders;
+  }
+}
+
+export interface DriveSyncReport {
+  updated: number;
+  unchanged: number;
+  trashed: number;
+  unknown: number;
+}
+
+export interface DriveRestoreReport {
+  restored: string[];
+  present: number;
+  skipped: { file: string; reason: 'deleted' | 'invalid' | 'spam' | 'duplicate' }[];
+}
+
+export function oauthEndpoints() {
+  if (!DRIVE_API_URL) return undefined;
+  return {
+    oauth2AuthBaseUrl: new URL('o/oauth2/v2/auth', DRIVE_API_URL).toString(),
+    oauth2TokenUrl: new URL('token', DRIVE_API_URL).toString(),
+    oauth2RevokeUrl: new URL('revoke', DRIVE_API_URL).toString(),
+  };
+}
+
+const ROOT_URL = DRIVE_API_URL ? { rootUrl: DRIVE_API_URL } : {};
+
+export const driveClient = (auth: Auth.OAuth2Client) =>
+  google.drive({ version: 'v3', auth, ...ROOT_URL });
+
+const quote = (text: string) => `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+const isNotFound = (error: unknown) => {
+  const { status, code } = (error ?? {}) as { status?: number; code?: number | string };
+  return status === 404 || code === 404;
+};
+
+const fileName = (event: StoredEvent) =>
+  `${event.name.replace(/[\\/]/g, '-').slice(0, 80)} (${event.id.slice(0, 8)}).json`;
+
+export class DriveSync {
+  constructor(private drive: drive_v3.Drive, private folders: DriveFolders) {}
+
+  private async findOrCreateFolder(name: string, parent?: string) {
+    const { data } = await this.drive.files.list({
+      q: [`name = ${quote(name)}`, `mimeType = '${FOLDER_MIME}'`, 'trashed = false', parent && `${quote(parent)} in parents`].filter(Boolean).join(' and '),
+      fields: 'files(id)',
+    });
+    if (data.files?.[0]?.id) return data.files[0].id;
+    const folder = await this.drive.files.create({
+      requestBody: { name, mimeType: FOLDER_MIME, parents: parent ? [parent] : undefined },
+      fields: 'id',
+    });
+    return folder.data.id!;
+  }
+
+  // The district's folder, or the app folder for events without a district
+  private async folderFor(event: StoredEvent) {
+    this.folders.root ??= await this.findOrCreateFolder(DRIVE_FOLDER_NAME);
+    const district = findDistrict(event.district_code ?? event.district ?? undefined);
+    if (!district) return this.folders.root;
+    this.folders.districts[district.code] ??= await this.findOrCreateFolder(district.bn, this.folders.root);
+    return this.folders.districts[district.code];
+  }
+
+  // Runs a write that uses the cached folders, and runs it again with fresh
+  // folders if one has been deleted in Drive since.
+  private async withFolders<T>(write: () => Promise<T>) {
+    try {
+      return await write();
+    } catch (error) {
+      if (!isNotFound(error) || !this.folders.root) throw error;
+      this.folders.root = undefined;
+      this.folders.districts = {};
+      return write();
+    }
+  }
+
+  // The event files saved by the app, for one event or for all of them
+  private async eventFiles(eventId?: string) {
+    const conditions = [`appProperties has { key='${KIND.key}' and value='${KIND.value}' }`, 'trashed = false'];
+    if (eventId) conditions.push(`appProperties has { key='${EVENT_ID}' and value=${quote(eventId)} }`);
+    const files: drive_v3.Schema$File[] = [];
+    let pageToken: string | undefined;
+    do {
+      const { data } = await this.drive.files.list({
+        q: conditions.join(' and '),
+        fields: 'nextPageToken, files(id, name, parents, appProperties)',
+        pageSize: 1000,
+        pageToken,
+      });
+      files.push(...(data.files ?? []));
+      pageToken = data.nextPageToken ?? undefined;
+    } while (pageToken);
+    return files;
+  }
+
+  private async write(event: StoredEvent, existing?: drive_v3.Schema$File) {
+    const folder = await this.folderFor(event);
+    const media = { mimeType: 'application/json', body: JSON.stringify(event, null, 2) };
+    const appProperties = { [KIND.key]: KIND.value, [EVENT_ID]: event.id, [UPDATED_AT]: event.updated_at };
+    // Uploads go to their own URL, which the client-wide rootUrl does not
+    // change, so they are given it again.
+    if (!existing) {
+      const file = await this.drive.files.create({
+        requestBody: { name: fileName(event), parents: [folder], appProperties },
+        media,
+        fields: 'id',
+      }, ROOT_URL);
+      return file.data.id!;
+    }
+    // Edits can move the event to another district's folder
+    const parents = existing.parents ?? [];
+    await this.drive.files.update({
+      fileId: existing.id!,
+      requestBody: { name: fileName(event), appProperties },
+      media,
+      addParents: parents.includes(folder) ? undefined : folder,
+      removeParents: parents.includes(folder) ? undefined : parents.join(',') || undefined,
+      fields: 'id',
+    }, ROOT_URL);
+    return existing.id!;
+  }
+
+  // Creates or updates the event's file; with onlyIfSaved, events without
+  // a file are left out. Extra copies left by earlier saves are trashed.
+  async save(event: StoredEvent, { onlyIfSaved = false } = {}) {
+    const [file, ...extra] = await this.eventFiles(event.id);
+    if (!file && onlyIfSaved) return null;
+    const id = await this.withFolders(() => this.write(event, file));
+    await Promise.all(extra.map(copy => this.trashFile(copy.id!)));
+    return id;
+  }
+
+  private trashFile(fileId: string) {
+    return this.drive.files.update({ fileId, requestBody: { trashed: true } });
+  }
+
+  async trash(eventId: string) {
+    const files = await this.eventFiles(eventId);
+    await Promise.all(files.map(file => this.trashFile(file.id!)));
+    return files.length;
+  }
+
+  // Brings every saved file up to date with the server: edited events are
+  // rewritten, merged ones replaced by the event they were merged into and
+  // deleted ones trashed. Files of events the server does not know are
+  // left alone; restore() can add them back.
+  async refresh(repository: EventRepository): Promise<DriveSyncReport> {
+    const report: DriveSyncReport = { updated: 0, unchanged: 0, trashed: 0, unknown: 0 };
+    const files = await this.eventFiles();
+    const saved = new Set(files.map(file => file.appProperties?.[EVENT_ID]));
+    for (const file of files) {
+      const eventId = file.appProperties?.[EVENT_ID] ?? '';
+      const event = await repository.get(eventId);
+      const mergedInto = repository.mergedInto(eventId);
+      if (event && file.appProperties?.[UPDATED_AT] === event.updated_at) {
+        report.unchanged++;
+      } else if (event) {
+        await this.withFolders(() => this.write(event, file));
+        report.updated++;
+      } else if (mergedInto || repository.isDeleted(eventId)) {
+        await this.trashFile(file.id!);
+        report.trashed++;
+        const kept = mergedInto && !saved.has(mergedInto) ? await repository.get(mergedInto) : null;
+        if (kept) {
+          await this.save(kept);
+          saved.add(kept.id);
+          report.updated++;
+        }
+      } else {
+        report.unknown++;
+      }
+    }
+    return report;
+  }
+
+  // Adds saved events the server no longer has, keeping their ids so the
+  // files stay linked. Events deleted by moderators are not brought back.
+  async restore(repository: EventRepository): Promise<DriveRestoreReport> {
+    const report: DriveRestoreReport = { restored: [], present: 0, skipped: [] };
+    for (const file of await this.eventFiles()) {
+      const eventId = file.appProperties?.[EVENT_ID];
+      if (!eventId) continue;
+      if (await repository.get(eventId) || repository.mergedInto(eventId)) {
+        report.present++;
+        continue;
+      }
+      if (repository.isDeleted(eventId)) {
+        report.skipped.push({ file: file.name!, reason: 'deleted' });
+        continue;
+      }
+      const { data } = await this.drive.files.get({ fileId: file.id!, alt: 'media' }, { responseType: 'json' });
+      // With alt=media the response is the file's content, not its metadata
+      const content = data as unknown as Record<string, unknown>;
+      const submitted = pickEventInput(content);
+      if (!UUID.test(eventId) || hasErrors(validateEvent(submitted))) {
+        report.skipped.push({ file: file.name!, reason: 'invalid' });
+        continue;
+      }
+      // Files can be written by anyone with the Drive, so they get the same
+      // content checks as new submissions
+      if (contentSpamReason(submitted)) {
+        report.skipped.push({ file: file.name!, reason: 'spam' });
+        continue;
+      }
+      const input = await completeSubmission(submitted);
+      if (db && findDuplicates(db, input).length) {
+        report.skipped.push({ file: file.name!, reason: 'duplicate' });
+        continue;
+      }
+      const saved = content as Partial<StoredEvent>;
+      // Restored events are reviewed like new submissions
+      const event = await repository.restore(toStoredEvent(eventId, { ...input, status: 'pending', created_at: saved.created_at, updated_at: saved.updated_at }));
+      if (event) report.restored.push(event.id);
+    }
+    return report;
+  }
+}
@@ -0,0 +1,153 @@
+import express from "express";
+import { randomUUID } from "crypto";
+import { fileURLToPath } from "url";
+
+// A local stand-in for the parts of the Google Drive and OAuth APIs the app
+// uses, kept in memory. Run it with `npm run drive:standin` and start the
+// app with DRIVE_API_URL=http://localhost:4000/ to connect and sync without
+// a Google project. It accepts any token and does not check scopes.
+interface StandInFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  parents: string[];
+  appProperties: Record<string, string>;
+  trashed: boolean;
+  content: string;
+}
+
+// Each clause of a files.list query, as the Drive query language writes it
+type Condition = (file: StandInFile) => boolean;
+
+const unquote = (text: string) => text.slice(1, -1).replace(/\\(.)/g, '$1');
+const QUOTED = String.raw`'(?:[^'\\]|\\.)*'`;
+
+function parseQuery(q = ''): Condition[] {
+  const conditions: Condition[] = [];
+  const rest = q.replace(new RegExp(String.raw`appProperties has \{ key=(${QUOTED}) and value=(${QUOTED}) \}`, 'g'), (_, key, value) => {
+    conditions.push(file => file.appProperties[unquote(key)] === unquote(value));
+    return 'true';
+  });
+  for (const clause of rest.split(' and ').map(c => c.trim())) {
+    let match: RegExpMatchArray | null;
+    if (clause === 'true') continue;
+    if ((match = clause.match(new RegExp(`^(name|mimeType) (=|!=) (${QUOTED})$`)))) {
+      const [, field, op, value] = match;
+      conditions.push(file => (file[field as 'name' | 'mimeType'] === unquote(value)) === (op === '='));
+    } else if ((match = clause.match(/^trashed = (true|false)$/))) {
+      const trashed = match[1] === 'true';
+      conditions.push(file => file.trashed === trashed);
+    } else if ((match = clause.match(new RegExp(`^(${QUOTED}) in parents$`)))) {
+      const parent = unquote(match[1]);
+      conditions.push(file => file.parents.includes(parent));
+    } else {
+      throw new Error(`Unsupported query: ${clause}`);
+    }
+  }
+  return conditions;
+}
+
+// googleapis sends uploads as multipart/related: the metadata as JSON, then
+// the file content.
+function parseMultipart(body: Buffer, contentType: string) {
+  const boundary = contentType.match(/boundary=([^;]+)/)?.[1];
+  if (!boundary) return { metadata: JSON.parse(body.toString() || '{}'), content: undefined };
+  const parts = body.toString().split(`--${boundary}`).slice(1, -1)
+    .map(part => part.slice(part.indexOf('\r\n\r\n') + 4).replace(/\r\n$/, ''));
+  return { metadata: JSON.parse(parts[0] || '{}'), content: parts[1] };
+}
+
+const metadataOf = ({ content: _content, ...file }: StandInFile) => file;
+
+export function createDriveStandIn() {
+  const app = express();
+  const files = new Map<string, StandInFile>();
+
+  app.use(express.raw({ type: () => true, limit: '10mb' }));
+
+  // OAuth: consent is granted at once and every code exchanges for a token
+  app.get("/o/oauth2/v2/auth", (req, res) => {
+    const redirect = new URL(String(req.query.redirect_uri));
+    redirect.searchParams.set('code', randomUUID());
+    if (req.query.state) redirect.searchParams.set('state', String(req.query.state));
+    res.redirect(redirect.toString());
+  });
+  app.post("/token", (req, res) => {
+    res.json({ access_token: `standin-${randomUUID()}`, refresh_token: 'standin-refresh', expires_in: 3600, token_type: 'Bearer' });
+  });
+  app.post("/revoke", (req, res) => {
+    res.json({});
+  });
+
+  app.get("/drive/v3/files", (req, res) => {
+    try {
+      const conditions = parseQuery(typeof req.query.q === 'string' ? req.query.q : undefined);
+      const matches = [...files.values()].filter(file => conditions.every(test => test(file)));
+      res.json({ files: matches.map(metadataOf) });
+    } catch (error) {
+      res.status(400).json({ error: { code: 400, message: (error as Error).message } });
+    }
+  });
+
+  const create = (req: express.Request, res: express.Response) => {
+    const { metadata, content } = parseMultipart(req.body, req.get('content-type') ?? '');
+    for (const parent of metadata.parents ?? []) {
+      if (!files.has(parent)) return res.status(404).json({ error: { code: 404, message: `File not found: ${parent}` } });
+    }
+    const file: StandInFile = {
+      id: randomUUID(),
+      name: metadata.name ?? 'Untitled',
+      mimeType: metadata.mimeType ?? 'application/json',
+      parents: metadata.parents ?? [],
+      appProperties: metadata.appProperties ?? {},
+      trashed: false,
+      content: content ?? '',
+    };
+    files.set(file.id, file);
+    res.json(metadataOf(file));
+  };
+  app.post("/drive/v3/files", create);
+  app.post("/upload/drive/v3/files", create);
+
+  const update = (req: express.Request, res: express.Response) => {
+    const file = files.get(req.params.id);
+    if (!file) return res.status(404).json({ error: { code: 404, message: `File not found: ${req.params.id}` } });
+    const { metadata, content } = parseMultipart(req.body, req.get('content-type') ?? '');
+    const added = typeof req.query.addParents === 'string' ? req.query.addParents.split(',') : [];
+    const removed = typeof req.query.removeParents === 'string' ? req.query.removeParents.split(',') : [];
+    if (added.some(parent => !files.has(parent))) {
+      return res.status(404).json({ error: { code: 404, message: "Parent not found" } });
+    }
+    Object.assign(file, {
+      name: metadata.name ?? file.name,
+      trashed: metadata.trashed ?? file.trashed,
+      appProperties: { ...file.appProperties, ...metadata.appProperties },
+      parents: [...file.parents.filter(parent => !removed.includes(parent)), ...added],
+      content: content ?? file.content,
+    });
+    res.json(metadataOf(file));
+  };
+  app.patch("/drive/v3/files/:id", update);
+  app.patch("/upload/drive/v3/files/:id", update);
+
+  app.get("/drive/v3/files/:id", (req, res) => {
+    const file = files.get(req.params.id);
+    if (!file) return res.status(404).json({ error: { code: 404, message: `File not found: ${req.params.id}` } });
+    if (req.query.alt === 'media') return res.type(file.mimeType).send(file.content);
+    res.json(metadataOf(file));
+  });
+
+  // Not part of Drive: everything stored, for checking what a sync did
+  app.get("/standin/files", (req, res) => {
+    res.json([...files.values()]);
+  });
+
+  return app;
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const port = Number(process.env.DRIVE_STANDIN_PORT) || 4000;
+  createDriveStandIn().listen(port, () => {
+    console.log(`Drive stand-in running on http://localhost:${port}/`);
+  });
+}
@@ -0,0 +1,56 @@
+import Database from "better-sqlite3";
+import { toCsv } from "./csv";
+import { MAX_PAGE_SIZE, STORED_FIELDS, queryEvents, type EventQuery, type ListedEvent } from "./repository";
+
+// Downloads of the filtered event list for printing and GIS tools. The
+// export walks the same paged query as GET /api/events, so every list
+// filter and sort applies.
+export const EXPORT_FORMATS = ['csv', 'json', 'geojson'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const MAX_EXPORT_EVENTS = 5000;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  geojson: 'application/geo+json; charset=utf-8',
+};
+
+const COLUMNS = ['id', ...STORED_FIELDS, 'next_date', 'distance_km', 'created_at', 'updated_at'] as const;
+
+export const isExportFormat = (format: unknown): format is ExportFormat =>
+  EXPORT_FORMATS.includes(format as ExportFormat);
+
+// Every event matching the query, up to MAX_EXPORT_EVENTS, in list order.
+export function exportableEvents(db: Database.Database, query: EventQuery, today: string): ListedEvent[] {
+  const events: ListedEvent[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = queryEvents(db, { ...query, limit: MAX_PAGE_SIZE, cursor }, today);
+    events.push(...page.events);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor && events.length < MAX_EXPORT_EVENTS);
+  return events.slice(0, MAX_EXPORT_EVENTS);
+}
+
+function toGeoJson(events: ListedEvent[]) {
+  return {
+    type: 'FeatureCollection',
+    features: events.map(event => ({
+      type: 'Feature',
+      id: event.id,
+      // Events without coordinates are kept, with no geometry
+      geometry: event.lat != null && event.lng != null
+        ? { type: 'Point', coordinates: [event.lng, event.lat] }
+        : null,
+      properties: event,
+    })),
+  };
+}
+
+export function renderExport(events: ListedEvent[], format: ExportFormat) {
+  const body = format === 'csv'
+    ? toCsv([[...COLUMNS], ...events.map(event => COLUMNS.map(column => event[column]))])
+    : JSON.stringify(format === 'geojson' ? toGeoJson(events) : events, null, 2);
+  return { body, contentType: CONTENT_TYPES[format] };
+}
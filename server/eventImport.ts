@@ -0,0 +1,328 @@
+import express, { NextFunction, Request, Response } from "express";
+import multer from "multer";
+import ExcelJS from "exceljs";
+import { parse } from "csv-parse/sync";
+import path from "path";
+import { describeEventDate } from "../src/lib/hijri";
+import { hasErrors, validateEvent, type EventErrors } from "../src/lib/eventSchema";
+import { guessImportField, IMPORT_FIELDS, isImportField, type ImportField } from "../src/lib/importColumns";
+import { canModerateEvent, EVENT_TYPE_IDS, type AdminUser, type DuplicateMatch, type EventStatus } from "../src/types";
+import { getSessionAdmin, requireAppRequest } from "./auth";
+import { toCsv } from "./csv";
+import { db } from "./db";
+import { issueEditToken, manageUrl } from "./organizers";
+import { eventRepository, findDuplicates, pickEventInput, type EventInput, type StoredEvent } from "./repository";
+import { contentSpamReason, logBlockedAttempt, rateLimit, type BlockReason } from "./spam";
+import { completeSubmission } from "./submissions";
+
+// Bulk import of events from a CSV or Excel sheet. Each row is validated like
+// a form submission; a dry run reports what would happen, and a real run
+// creates the valid rows through the same path as POST /api/events.
+export const MAX_IMPORT_ROWS = 500;
+// Organizers without an account add their rows to the review queue
+export const MAX_ORGANIZER_IMPORT_ROWS = 50;
+export const MAX_IMPORT_MB = 5;
+export const IMPORT_EXTENSIONS = ['.csv', '.xlsx'];
+
+export class ImportFileError extends Error {}
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMPORT_MB * 1024 * 1024, files: 1 },
+});
+
+export interface Spreadsheet {
+  headers: string[];
+  rows: string[][];
+}
+
+// Field for each column, in column order; null columns are ignored
+export type ColumnMapping = (ImportField | null)[];
+
+export interface ImportRow {
+  // Row number as shown in the spreadsheet, counting the header row
+  row: number;
+  input: EventInput;
+  errors: EventErrors;
+  duplicates: DuplicateMatch<StoredEvent>[];
+  // Set when an organizer's row fails the add form's content checks
+  blocked?: BlockReason;
+  // Set once the row has been stored
+  id?: string;
+  status?: EventStatus;
+  // The stored event's management link, for organizers without an account
+  manage_url?: string;
+}
+
+export interface ImportReport {
+  columns: { header: string; field: ImportField | null }[];
+  rows: ImportRow[];
+  dry_run: boolean;
+  created: number;
+}
+
+const SPAM_ERRORS: Partial<Record<BlockReason, string>> = {
+  phone_spam: 'ইভেন্টের নামে ফোন নম্বর বা একাধিক ফোন নম্বর দেওয়া যাবে না',
+  link_spam: 'ইভেন্টের নামে লিংক বা বিবরণে একাধিক লিংক দেওয়া যাবে না',
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const TYPE_NAMES: Record<string, typeof EVENT_TYPE_IDS[number]> = {
+  'গণ-ইফতার': 'public_iftar',
+  'গণ ইফতার': 'public_iftar',
+  'ইফতার': 'public_iftar',
+  'iftar': 'public_iftar',
+  'ওয়াজ/দ্বীনি মজলিস': 'religious_gathering',
+  'ওয়াজ': 'religious_gathering',
+  'দ্বীনি মজলিস': 'religious_gathering',
+  'waz': 'religious_gathering',
+};
+
+const RECURRENCE_NAMES: Record<string, string> = {
+  'প্রতিদিন': 'daily',
+  'সাপ্তাহিক': 'weekly',
+  'প্রতি সপ্তাহে': 'weekly',
+};
+
+// Excel cells hold numbers, dates, rich text, links and formulas; every
+// value is read as the text a volunteer would have typed.
+function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    // Times of day are stored as dates on Excel's day zero, 1899-12-30
+    return value.getUTCFullYear() < 1900 ? value.toISOString().slice(11, 16) : value.toISOString().slice(0, 10);
+  }
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map(part => part.text).join('');
+    if ('result' in value) return cellText(value.result as ExcelJS.CellValue);
+    if ('text' in value) return String(value.text);
+    return '';
+  }
+  return String(value);
+}
+
+async function readRows(buffer: Buffer, extension: string): Promise<string[][]> {
+  if (extension === '.csv') {
+    return parse(buffer, { bom: true, skip_empty_lines: true, relax_column_count: true, trim: true });
+  }
+  const workbook = new ExcelJS.Workbook();
+  try {
+    // ExcelJS takes an ArrayBuffer; multer's Buffer may be a view into a larger one
+    await workbook.xlsx.load(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength));
+  } catch {
+    throw new ImportFileError("The file is not a readable Excel workbook");
+  }
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+  const rows: string[][] = [];
+  sheet.eachRow({ includeEmpty: false }, row => {
+    const cells: string[] = [];
+    for (let column = 1; column <= sheet.columnCount; column++) {
+      cells.push(cellText(row.getCell(column).value).trim());
+    }
+    rows.push(cells);
+  });
+  return rows;
+}
+
+// Reads the first sheet. The first non-empty row holds the column headers.
+export async function readSpreadsheet(buffer: Buffer, filename: string): Promise<Spreadsheet> {
+  const extension = path.extname(filename).toLowerCase();
+  if (!IMPORT_EXTENSIONS.includes(extension)) {
+    throw new ImportFileError("Upload a .csv or .xlsx file");
+  }
+  let rows: string[][];
+  try {
+    rows = (await readRows(buffer, extension)).filter(row => row.some(cell => cell));
+  } catch (error) {
+    if (error instanceof ImportFileError) throw error;
+    throw new ImportFileError(`The file could not be read: ${error instanceof Error ? error.message : error}`);
+  }
+  const [headers, ...data] = rows;
+  if (!headers || !data.length) {
+    throw new ImportFileError("The sheet needs a header row and at least one event");
+  }
+  if (data.length > MAX_IMPORT_ROWS) {
+    throw new ImportFileError(`At most ${MAX_IMPORT_ROWS} events can be imported at once`);
+  }
+  return { headers, rows: data };
+}
+
+// The mapping sent by the client, as { "<header>": "<field>" }, with columns
+// it leaves out mapped by their header names.
+export function columnMapping(headers: string[], requested?: Record<string, unknown>): ColumnMapping | { error: string } {
+  const mapping: ColumnMapping = [];
+  for (const header of headers) {
+    if (requested && header in requested) {
+      const field = requested[header];
+      if (field !== null && field !== '' && !isImportField(field)) {
+        return { error: `Unknown field "${field}" for column "${header}"` };
+      }
+      mapping.push(isImportField(field) ? field : null);
+    } else {
+      mapping.push(guessImportField(header));
+    }
+  }
+  return mapping;
+}
+
+function fieldValue(field: ImportField, text: string): Record<string, unknown> {
+  switch (field) {
+    case 'lat':
+    case 'lng':
+      return { [field]: Number(text) };
+    case 'type':
+      return { type: TYPE_NAMES[text.normalize('NFC').toLowerCase()] ?? text };
+    case 'recurrence':
+      return { recurrence: RECURRENCE_NAMES[text.normalize('NFC')] ?? text.toLowerCase() };
+    case 'event_date':
+      // Calendar dates become the Hijri text the app shows, as in the form
+      return ISO_DATE.test(text) ? describeEventDate(text) : { event_date: text };
+    case 'contact':
+      // Spreadsheets drop the leading zero of numbers typed as numbers
+      return { contact: /^1[3-9]\d{8}$/.test(text) ? `0${text}` : text };
+    default:
+      return { [field]: text };
+  }
+}
+
+export function rowInput(cells: string[], mapping: ColumnMapping): EventInput {
+  const input: Record<string, unknown> = {};
+  mapping.forEach((field, column) => {
+    const text = cells[column]?.trim();
+    if (field && text) Object.assign(input, fieldValue(field, text));
+  });
+  return pickEventInput(input);
+}
+
+// Checks every row and, unless this is a dry run, stores the valid ones in
+// order. Rows that look like existing events are held back unless
+// allowDuplicates is set; in a real run that includes rows earlier in the
+// same sheet. admin is null for organizers without an account, whose rows
+// each get a management link.
+export async function importEvents(sheet: Spreadsheet, mapping: ColumnMapping, options: { admin: AdminUser | null; appUrl: string; dryRun: boolean; allowDuplicates: boolean }): Promise<ImportReport> {
+  const rows: ImportRow[] = [];
+  let created = 0;
+
+  for (const [index, cells] of sheet.rows.entries()) {
+    const submitted = rowInput(cells, mapping);
+    const errors = validateEvent(submitted);
+    const blocked = options.admin ? null : contentSpamReason(submitted);
+    if (blocked) errors.name ??= SPAM_ERRORS[blocked];
+    const input = hasErrors(errors) ? submitted : await completeSubmission(submitted);
+    const duplicates = hasErrors(errors) || !db ? [] : findDuplicates(db, input);
+    const result: ImportRow = { row: index + 2, input, errors, duplicates, blocked: blocked ?? undefined };
+
+    if (!options.dryRun && !hasErrors(errors) && (options.allowDuplicates || !duplicates.length)) {
+      // Approved only where the importer may moderate, as for the add form
+      const event = await eventRepository.create({ ...input, status: canModerateEvent(options.admin, input) ? 'approved' : 'pending' });
+      result.id = event.id;
+      result.status = event.status;
+      if (!options.admin) result.manage_url = manageUrl(options.appUrl, event.id, issueEditToken(event.id));
+      created++;
+    }
+    rows.push(result);
+  }
+
+  return {
+    columns: sheet.headers.map((header, column) => ({ header, field: mapping[column] ?? null })),
+    rows,
+    dry_run: options.dryRun,
+    created,
+  };
+}
+
+// A CSV with the recognised column headers and one example row.
+export function importTemplate() {
+  const example: Partial<Record<ImportField, string>> = {
+    name: 'বায়তুল আমান জামে মসজিদ ইফতার মাহফিল',
+    type: 'গণ-ইফতার',
+    district: 'ঢাকা',
+    upazila: 'মিরপুর',
+    village: 'পল্লবী',
+    address: 'রোড ১২, ব্লক সি',
+    event_date: '১০ই রমজান',
+    start_time: '16:30',
+    contact: '01712345678',
+  };
+  return toCsv([
+    IMPORT_FIELDS.map(f => f.label),
+    IMPORT_FIELDS.map(f => example[f.field] ?? ''),
+  ]);
+}
+
+export function createImportRouter({ appUrl }: { appUrl: string }) {
+  const router = express.Router();
+
+  router.get("/template.csv", (req, res) => {
+    res.type("text/csv; charset=utf-8");
+    res.attachment("iftar-events-template.csv");
+    res.send(importTemplate());
+  });
+
+  // multipart/form-data with the sheet in a "file" field. Optional fields:
+  // mapping (JSON, { "<header>": "<field>" or "" to skip }), dry_run
+  // ("false" to store the rows; a dry run is the default) and
+  // allow_duplicates ("true" to store rows that look like existing events).
+  // Open to organizers without an account, whose rows wait for review.
+  router.post("/", requireAppRequest(), rateLimit('import_events'), (req: Request, res: Response, next: NextFunction) => {
+    upload.single("file")(req, res, (err: unknown) => {
+      if (err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({ error: `Sheets must be smaller than ${MAX_IMPORT_MB} MB` });
+      }
+      if (err) return next(err);
+      next();
+    });
+  }, async (req, res) => {
+    if (!db) {
+      return res.status(500).json({ error: "Database not initialized" });
+    }
+    if (!req.file) {
+      return res.status(400).json({ error: "Attach a .csv or .xlsx file as \"file\"" });
+    }
+    let requested: Record<string, unknown> | undefined;
+    if (req.body.mapping) {
+      try {
+        requested = JSON.parse(req.body.mapping);
+      } catch {
+        return res.status(400).json({ error: "mapping must be a JSON object" });
+      }
+      if (!requested || typeof requested !== 'object' || Array.isArray(requested)) {
+        return res.status(400).json({ error: "mapping must be a JSON object" });
+      }
+    }
+    try {
+      const sheet = await readSpreadsheet(req.file.buffer, req.file.originalname);
+      const mapping = columnMapping(sheet.headers, requested);
+      if ('error' in mapping) {
+        return res.status(400).json({ error: mapping.error });
+      }
+      const admin = getSessionAdmin(req);
+      if (!admin && sheet.rows.length > MAX_ORGANIZER_IMPORT_ROWS) {
+        return res.status(400).json({ error: `At most ${MAX_ORGANIZER_IMPORT_ROWS} events can be imported at once without a moderator account` });
+      }
+      const dryRun = req.body.dry_run !== 'false';
+      const report = await importEvents(sheet, mapping, {
+        admin,
+        appUrl,
+        dryRun,
+        allowDuplicates: req.body.allow_duplicates === 'true',
+      });
+      // One entry per upload; the rows themselves say which were blocked
+      const blocked = report.rows.filter(row => row.blocked);
+      if (!dryRun && blocked[0]?.blocked) {
+        logBlockedAttempt(req, blocked[0].blocked, `${blocked.length} rows: ${blocked.map(row => row.input.name).join(', ')}`);
+      }
+      res.json(report);
+    } catch (error) {
+      if (error instanceof ImportFileError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Import failed:", error);
+      res.status(500).json({ error: "Import failed" });
+    }
+  });
+
+  return router;
+}
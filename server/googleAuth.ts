@@ -0,0 +1,144 @@
+import type { Request } from "express";
+import { createCipheriv, createDecipheriv, createHash, hkdfSync, randomBytes } from "crypto";
+import { google, type Auth } from "googleapis";
+import { oauthEndpoints } from "./drive";
+
+// Google sign-in for Drive. Every request gets its own OAuth client holding
+// that session's tokens, and the tokens are encrypted in the session store.
+const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID;
+const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET;
+const APP_URL = process.env.APP_URL || "http://localhost:3000";
+
+export const GOOGLE_SCOPES = [
+  'https://www.googleapis.com/auth/drive.file',
+  'https://www.googleapis.com/auth/userinfo.profile'
+];
+
+declare module 'express-session' {
+  interface SessionData {
+    // Encrypted with encryptTokens()
+    googleTokens: string;
+    // Sent with the consent request and checked on the callback
+    googleState: string;
+  }
+}
+
+export class GoogleNotConnectedError extends Error {
+  constructor() {
+    super("Not connected to Google Drive");
+  }
+}
+
+// The session secret signs the session cookie. Without SESSION_SECRET a
+// random one is used, and sessions end when the server restarts.
+export const SESSION_SECRET = process.env.SESSION_SECRET || (() => {
+  if (process.env.NODE_ENV === "production") {
+    console.warn("SESSION_SECRET is not set; sessions will not survive a restart.");
+  }
+  return randomBytes(32).toString('hex');
+})();
+
+// TOKEN_ENCRYPTION_KEY (32 bytes, hex or base64) encrypts the Google tokens.
+// Without it a key is derived from the session secret.
+const TOKEN_KEY = (() => {
+  const configured = process.env.TOKEN_ENCRYPTION_KEY;
+  if (configured) {
+    const key = Buffer.from(configured, /^[0-9a-f]{64}$/i.test(configured) ? 'hex' : 'base64');
+    if (key.length !== 32) throw new Error("TOKEN_ENCRYPTION_KEY must be 32 bytes, in hex or base64");
+    return key;
+  }
+  return Buffer.from(hkdfSync('sha256', SESSION_SECRET, createHash('sha256').update('google-tokens').digest(), 'token-encryption', 32));
+})();
+
+// AES-256-GCM, stored as "v1.<iv>.<tag>.<ciphertext>" in base64url
+export function encryptTokens(tokens: Auth.Credentials) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', TOKEN_KEY, iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(tokens), 'utf8'), cipher.final()]);
+  return ['v1', iv, cipher.getAuthTag(), ciphertext].map(part => typeof part === 'string' ? part : part.toString('base64url')).join('.');
+}
+
+// Null when the value cannot be read, for example after the key changed
+export function decryptTokens(value: string): Auth.Credentials | null {
+  const [version, iv, tag, ciphertext] = value.split('.');
+  if (version !== 'v1' || !iv || !tag || !ciphertext) return null;
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', TOKEN_KEY, Buffer.from(iv, 'base64url'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    return JSON.parse(Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+export const createOAuthClient = () => new google.auth.OAuth2({
+  clientId: GOOGLE_CLIENT_ID,
+  clientSecret: GOOGLE_CLIENT_SECRET,
+  redirectUri: `${APP_URL}/auth/google/callback`,
+  endpoints: oauthEndpoints(),
+});
+
+export function authUrl(req: Request) {
+  req.session.googleState = randomBytes(16).toString('hex');
+  return createOAuthClient().generateAuthUrl({
+    access_type: 'offline',
+    scope: GOOGLE_SCOPES,
+    prompt: 'consent',
+    state: req.session.googleState,
+  });
+}
+
+// Exchanges the callback's code for tokens and keeps them in the session
+export async function completeSignIn(req: Request, code: string, state: unknown) {
+  const expected = req.session.googleState;
+  delete req.session.googleState;
+  if (!expected || state !== expected) throw new Error("OAuth state mismatch");
+  const { tokens } = await createOAuthClient().getToken(code);
+  req.session.googleTokens = encryptTokens(tokens);
+}
+
+export const isGoogleConnected = (req: Request) =>
+  !!req.session.googleTokens && !!decryptTokens(req.session.googleTokens);
+
+// An OAuth client for this session's tokens. Access tokens are refreshed by
+// the client when they expire, and the new ones are written back to the
+// session.
+export function sessionOAuthClient(req: Request) {
+  const tokens = req.session.googleTokens ? decryptTokens(req.session.googleTokens) : null;
+  if (!tokens) throw new GoogleNotConnectedError();
+  const client = createOAuthClient();
+  client.setCredentials(tokens);
+  client.on('tokens', refreshed => {
+    req.session.googleTokens = encryptTokens({ ...tokens, ...refreshed });
+    req.session.save(error => {
+      if (error) console.error("Failed to save refreshed Google tokens:", error);
+    });
+  });
+  return client;
+}
+
+// Google refuses refreshes once the user revokes access or the refresh
+// token expires; the session is then treated as disconnected.
+export function isRevokedGrant(error: unknown) {
+  const data = (error as { response?: { data?: { error?: string } } })?.response?.data;
+  return data?.error === 'invalid_grant' || (error as Error)?.message === 'invalid_grant';
+}
+
+export function forgetGoogle(req: Request) {
+  delete req.session.googleTokens;
+  delete req.session.driveFolders;
+}
+
+// Revokes the session's grant at Google and forgets the tokens. The tokens
+// are forgotten even if Google cannot be reached.
+export async function disconnectGoogle(req: Request) {
+  const tokens = req.session.googleTokens ? decryptTokens(req.session.googleTokens) : null;
+  forgetGoogle(req);
+  const token = tokens?.refresh_token || tokens?.access_token;
+  if (!token) return;
+  try {
+    await createOAuthClient().revokeToken(token);
+  } catch (error) {
+    console.warn("Google token revoke failed:", error);
+  }
+}
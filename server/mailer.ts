@@ -0,0 +1,71 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+
+// Outgoing email. MAILER picks the transport; "outbox", the default, is a
+// local stub that writes each message to MAIL_OUTBOX_DIR as an .eml file
+// instead of sending it. Further transports implement Mailer and are added
+// to MAILERS.
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || "ইফতার সন্ধানে <no-reply@localhost>";
+export const MAIL_OUTBOX_DIR = path.resolve(process.env.MAIL_OUTBOX_DIR || "mail-outbox");
+
+// Header values outside ASCII are encoded as RFC 2047 words
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+
+export class OutboxMailer implements Mailer {
+  readonly name = 'outbox';
+
+  constructor(private dir = MAIL_OUTBOX_DIR) {}
+
+  async send(message: MailMessage) {
+    await mkdir(this.dir, { recursive: true });
+    const file = path.join(this.dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^\w.@-]/g, '_')}.eml`);
+    await writeFile(file, [
+      `From: ${MAIL_FROM.replace(/^(.*?)\s*</, (_, name) => `${encodeHeader(name)} <`)}`,
+      `To: ${message.to}`,
+      `Subject: ${encodeHeader(message.subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 8bit',
+      '',
+      message.text,
+    ].join('\r\n'));
+    console.log(`Mail to ${message.to} written to ${file}`);
+  }
+}
+
+export class ConsoleMailer implements Mailer {
+  readonly name = 'console';
+
+  async send(message: MailMessage) {
+    console.log(`Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+const MAILERS: Record<string, () => Mailer> = {
+  outbox: () => new OutboxMailer(),
+  console: () => new ConsoleMailer(),
+};
+
+function createMailer(): Mailer {
+  const name = process.env.MAILER || 'outbox';
+  if (!MAILERS[name]) {
+    console.warn(`Unknown MAILER "${name}"; using the outbox.`);
+    return MAILERS.outbox();
+  }
+  return MAILERS[name]();
+}
+
+export const mailer = createMailer();
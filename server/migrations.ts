@@ -0,0 +1,336 @@
+import Database from "better-sqlite3";
+import { findDistrict, resolveGeoCodes } from "../src/lib/geo";
+import { eventTargetDate, weekdayBn } from "../src/lib/hijri";
+import { expandOccurrences } from "../src/lib/schedule";
+import { normalizeSearchText } from "../src/lib/search";
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+// Databases created before migrations existed may already have some of these
+// tables and columns, so every step must be safe to apply to such a file.
+function addColumn(db: Database.Database, table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+// Append new migrations to the end of this list. Never edit or reorder one
+// that has already shipped: its version is recorded in schema_version.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: "initial_schema",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT,
+          type TEXT,
+          district TEXT,
+          upazila TEXT,
+          village TEXT,
+          address TEXT,
+          date_range TEXT,
+          start_time TEXT,
+          iftar_time TEXT,
+          contact TEXT,
+          description TEXT,
+          image_url TEXT,
+          lat REAL,
+          lng REAL,
+          link_url TEXT,
+          event_date TEXT,
+          event_day TEXT,
+          created_at TEXT
+        )
+      `);
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS admin_users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          username TEXT NOT NULL UNIQUE,
+          password_hash TEXT NOT NULL,
+          role TEXT NOT NULL,
+          district TEXT,
+          created_at TEXT
+        )
+      `);
+    }
+  },
+  {
+    version: 2,
+    name: "event_repository",
+    up: (db) => {
+      addColumn(db, 'events', 'uid', 'TEXT');
+      addColumn(db, 'events', 'updated_at', 'TEXT');
+      db.exec("CREATE UNIQUE INDEX IF NOT EXISTS events_uid ON events (uid)");
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS failed_writes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          event_id TEXT NOT NULL,
+          backend TEXT NOT NULL,
+          operation TEXT NOT NULL,
+          error TEXT,
+          created_at TEXT NOT NULL,
+          resolved_at TEXT
+        )
+      `);
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS deleted_events (
+          id TEXT PRIMARY KEY,
+          deleted_at TEXT NOT NULL
+        )
+      `);
+    }
+  },
+  {
+    version: 3,
+    name: "add_event_target_date",
+    up: (db) => {
+      addColumn(db, 'events', 'target_date', 'TEXT');
+    }
+  },
+  {
+    version: 4,
+    name: "add_event_indexes",
+    up: (db) => {
+      db.exec("CREATE INDEX IF NOT EXISTS events_created_at ON events (created_at)");
+      db.exec("CREATE INDEX IF NOT EXISTS events_district_type ON events (district, type)");
+      db.exec("CREATE INDEX IF NOT EXISTS events_target_date ON events (target_date)");
+      db.exec("CREATE INDEX IF NOT EXISTS failed_writes_unresolved ON failed_writes (backend, resolved_at)");
+    }
+  },
+  {
+    version: 5,
+    name: "add_event_geo_codes",
+    up: (db) => {
+      addColumn(db, 'events', 'division_code', 'TEXT');
+      addColumn(db, 'events', 'district_code', 'TEXT');
+      addColumn(db, 'events', 'upazila_code', 'TEXT');
+      addColumn(db, 'events', 'union_code', 'TEXT');
+      addColumn(db, 'events', 'union_name', 'TEXT');
+      db.exec("CREATE INDEX IF NOT EXISTS events_geo ON events (district_code, upazila_code, union_code)");
+
+      // Existing events only have free-text names; match them against the dataset.
+      const rows = db.prepare("SELECT id, district, upazila FROM events WHERE district_code IS NULL").all() as { id: number; district: string | null; upazila: string | null }[];
+      const update = db.prepare("UPDATE events SET division_code = ?, district_code = ?, upazila_code = ? WHERE id = ?");
+      for (const row of rows) {
+        const codes = resolveGeoCodes(row);
+        if (codes.district_code) {
+          update.run(codes.division_code, codes.district_code, codes.upazila_code ?? null, row.id);
+        }
+      }
+    }
+  },
+  {
+    version: 6,
+    name: "parse_event_dates",
+    up: (db) => {
+      // Events whose organizers never worked out the calendar date only have
+      // free text such as "১০ই রমজান"; read it relative to when they were posted.
+      const rows = db.prepare("SELECT id, event_date, event_day, created_at FROM events WHERE target_date IS NULL OR target_date = ''").all() as { id: number; event_date: string | null; event_day: string | null; created_at: string | null }[];
+      const update = db.prepare("UPDATE events SET target_date = ?, event_day = ? WHERE id = ?");
+      for (const row of rows) {
+        const targetDate = eventTargetDate(row, new Date().toISOString().slice(0, 10));
+        if (targetDate) {
+          update.run(targetDate, row.event_day || weekdayBn(targetDate), row.id);
+        }
+      }
+    }
+  },
+  {
+    version: 7,
+    name: "add_event_schedules",
+    up: (db) => {
+      addColumn(db, 'events', 'end_date', 'TEXT');
+      addColumn(db, 'events', 'recurrence', 'TEXT');
+      addColumn(db, 'events', 'recurrence_weekdays', 'TEXT');
+      addColumn(db, 'events', 'exception_dates', 'TEXT');
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS event_occurrences (
+          event_id TEXT NOT NULL,
+          date TEXT NOT NULL,
+          PRIMARY KEY (event_id, date)
+        )
+      `);
+      db.exec("CREATE INDEX IF NOT EXISTS event_occurrences_date ON event_occurrences (date)");
+
+      // Existing events are one-off, so each gets its target date.
+      const rows = db.prepare("SELECT uid, target_date FROM events WHERE uid IS NOT NULL").all() as { uid: string; target_date: string | null }[];
+      const insert = db.prepare("INSERT OR IGNORE INTO event_occurrences (event_id, date) VALUES (?, ?)");
+      for (const row of rows) {
+        for (const date of expandOccurrences(row)) {
+          insert.run(row.uid, date);
+        }
+      }
+    }
+  },
+  {
+    version: 8,
+    name: "add_event_geo_index",
+    up: (db) => {
+      db.exec("CREATE VIRTUAL TABLE IF NOT EXISTS events_geo_index USING rtree(id, min_lat, max_lat, min_lng, max_lng)");
+      db.exec(`
+        INSERT OR REPLACE INTO events_geo_index (id, min_lat, max_lat, min_lng, max_lng)
+        SELECT id, lat, lat, lng, lng FROM events WHERE lat IS NOT NULL AND lng IS NOT NULL
+      `);
+    }
+  },
+  {
+    version: 9,
+    name: "add_event_search_index",
+    up: (db) => {
+      db.exec("CREATE VIRTUAL TABLE IF NOT EXISTS events_fts USING fts5(name, address, village, description, tokenize = 'unicode61')");
+      db.exec("DELETE FROM events_fts");
+      const rows = db.prepare("SELECT id, name, address, village, description FROM events").all() as { id: number; name: string | null; address: string | null; village: string | null; description: string | null }[];
+      const insert = db.prepare("INSERT INTO events_fts (rowid, name, address, village, description) VALUES (?, ?, ?, ?, ?)");
+      for (const row of rows) {
+        insert.run(row.id, normalizeSearchText(row.name), normalizeSearchText(row.address), normalizeSearchText(row.village), normalizeSearchText(row.description));
+      }
+    }
+  },
+  {
+    version: 10,
+    name: "add_event_merges",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS event_merges (
+          merged_id TEXT PRIMARY KEY,
+          into_id TEXT NOT NULL,
+          merged_by INTEGER,
+          merged_at TEXT NOT NULL
+        )
+      `);
+    }
+  },
+  {
+    version: 11,
+    name: "add_sessions",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sessions (
+          sid TEXT PRIMARY KEY,
+          sess TEXT NOT NULL,
+          expires_at INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_sessions_expires_at ON sessions(expires_at);
+      `);
+    }
+  },
+  {
+    version: 12,
+    name: "add_event_owners",
+    up: (db) => {
+      addColumn(db, "events", "cancelled_at", "TEXT");
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS event_owners (
+          event_id TEXT PRIMARY KEY,
+          token_hash TEXT NOT NULL,
+          email TEXT,
+          created_at TEXT NOT NULL
+        );
+      `);
+    }
+  },
+  {
+    version: 13,
+    name: "add_moderation",
+    up: (db) => {
+      addColumn(db, "events", "status", "TEXT");
+      addColumn(db, "events", "status_reason", "TEXT");
+      // Events published before the queue existed stay published
+      db.exec(`
+        UPDATE events SET status = 'approved' WHERE status IS NULL;
+        CREATE INDEX IF NOT EXISTS idx_events_status ON events(status);
+        CREATE TABLE IF NOT EXISTS event_reviews (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          event_id TEXT NOT NULL,
+          status TEXT NOT NULL,
+          reason TEXT,
+          reviewed_by INTEGER,
+          reviewed_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_event_reviews_event_id ON event_reviews(event_id);
+        CREATE TABLE IF NOT EXISTS trusted_submitters (
+          email TEXT PRIMARY KEY,
+          added_by INTEGER,
+          created_at TEXT NOT NULL
+        );
+      `);
+    }
+  },
+  {
+    version: 14,
+    name: "add_blocked_attempts",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS blocked_attempts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          route TEXT NOT NULL,
+          reason TEXT NOT NULL,
+          ip TEXT,
+          admin_id INTEGER,
+          detail TEXT,
+          created_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_blocked_attempts_reason ON blocked_attempts(reason);
+      `);
+    }
+  },
+  {
+    version: 15,
+    name: "admin_district_codes",
+    up: (db) => {
+      // District moderators were stored with the district as typed; events
+      // are matched by code. Unknown districts are left as they were and
+      // still match no events.
+      const users = db.prepare("SELECT id, district FROM admin_users WHERE district IS NOT NULL").all() as { id: number; district: string }[];
+      const update = db.prepare("UPDATE admin_users SET district = ? WHERE id = ?");
+      for (const user of users) {
+        const district = findDistrict(user.district.trim());
+        if (district && district.code !== user.district) update.run(district.code, user.id);
+      }
+    }
+  },
+  {
+    version: 16,
+    name: "add_used_form_tokens",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS used_form_tokens (
+          nonce TEXT PRIMARY KEY,
+          expires_at INTEGER NOT NULL
+        );
+      `);
+    }
+  },
+];
+
+// Applies every migration newer than the recorded schema version, each in its
+// own transaction so a failing step leaves the database at the last good one.
+export function runMigrations(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  const { current } = db.prepare("SELECT COALESCE(MAX(version), 0) AS current FROM schema_version").get() as { current: number };
+  const pending = migrations.filter(m => m.version > current).sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    db.transaction(() => {
+      migration.up(db);
+      db.prepare("INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)")
+        .run(migration.version, migration.name, new Date().toISOString());
+    })();
+    console.log(`Applied migration ${migration.version}: ${migration.name}`);
+  }
+  return pending.length;
+}
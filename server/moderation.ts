@@ -0,0 +1,189 @@
+import express, { type Request } from "express";
+import { db } from "./db";
+import { getSessionAdmin, requireRole } from "./auth";
+import { mailer } from "./mailer";
+import { EDIT_TOKEN_HEADER, organizerEmail, verifyEditToken } from "./organizers";
+import { eventRepository, rowToEvent, type EventInput, type StoredEvent } from "./repository";
+import { isEmail } from "../src/lib/eventSchema";
+import { findDistrict } from "../src/lib/geo";
+import { canModerateEvent, type AdminUser, type EventStatus } from "../src/types";
+
+// The review queue. Submissions start out pending and are published once a
+// moderator approves them. Events submitted by moderators, and by trusted
+// organizers once they confirm their address, skip the queue.
+export const REVIEW_ACTIONS = {
+  approve: 'approved',
+  reject: 'rejected',
+  request_changes: 'changes_requested',
+} as const satisfies Record<string, EventStatus>;
+export type ReviewAction = keyof typeof REVIEW_ACTIONS;
+
+const MAX_REASON_LENGTH = 1000;
+
+export type QueuedEvent = StoredEvent & { organizer_email: string | null };
+
+export const isPublished = (event: Pick<StoredEvent, 'status'>) => event.status === 'approved';
+
+// Unpublished events are seen only by their organizer, through the edit
+// token, and by moderators who may act on them.
+export function canViewEvent(req: Request, event: StoredEvent) {
+  if (isPublished(event)) return true;
+  const token = req.get(EDIT_TOKEN_HEADER);
+  if (token) return verifyEditToken(event.id, token);
+  return canModerateEvent(getSessionAdmin(req), event);
+}
+
+// The status a new submission starts in
+export function submissionStatus(req: Request, event: Pick<StoredEvent, 'district_code'>): EventStatus {
+  return canModerateEvent(getSessionAdmin(req), event) ? 'approved' : 'pending';
+}
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export function isTrustedSubmitter(email: string | null | undefined) {
+  if (!email) return false;
+  return !!db.prepare("SELECT 1 FROM trusted_submitters WHERE email = ?").get(normalizeEmail(email));
+}
+
+function trustSubmitter(email: string, adminId: number) {
+  db.prepare("INSERT OR IGNORE INTO trusted_submitters (email, added_by, created_at) VALUES (?, ?, ?)")
+    .run(normalizeEmail(email), adminId, new Date().toISOString());
+}
+
+const wasReviewed = (eventId: string) =>
+  !!db.prepare("SELECT 1 FROM event_reviews WHERE event_id = ?").get(eventId);
+
+// Records a review and applies it to the event. reviewedBy is null for
+// automatic approvals.
+export async function reviewEvent(event: StoredEvent, status: EventStatus, reason: string | null, reviewedBy: number | null) {
+  db.prepare("INSERT INTO event_reviews (event_id, status, reason, reviewed_by, reviewed_at) VALUES (?, ?, ?, ?, ?)")
+    .run(event.id, status, reason, reviewedBy, new Date().toISOString());
+  return eventRepository.update(event.id, { status, status_reason: reason });
+}
+
+// Opening the emailed management link proves a trusted organizer owns the
+// address they gave, and publishes their event. Events a moderator has
+// already reviewed are left alone.
+export async function confirmTrustedSubmission(event: StoredEvent) {
+  if (event.status !== 'pending' || wasReviewed(event.id) || !isTrustedSubmitter(organizerEmail(event.id))) return event;
+  console.log("Approving event of trusted organizer:", event.id);
+  return await reviewEvent(event, 'approved', null, null) ?? event;
+}
+
+// Organizer edits that may be published only after another review: any
+// change to an approved event other than extending it, and any edit after a
+// moderator asked for changes.
+export function statusAfterOrganizerEdit(event: StoredEvent, changes: EventInput): EventStatus | undefined {
+  if (event.status === 'changes_requested') return 'pending';
+  if (event.status !== 'approved') return undefined;
+  const changed = (Object.keys(changes) as (keyof EventInput)[])
+    .filter(field => String(changes[field] ?? '') !== String(event[field] ?? ''));
+  return changed.some(field => field !== 'end_date') ? 'pending' : undefined;
+}
+
+const DECISION_TEXT: Record<ReviewAction, string> = {
+  approve: 'অনুমোদিত হয়েছে এবং এখন সবাই দেখতে পাবেন।',
+  reject: 'প্রকাশের জন্য অনুমোদিত হয়নি।',
+  request_changes: 'প্রকাশের আগে কিছু পরিবর্তন প্রয়োজন। আপনার ম্যানেজমেন্ট লিংক থেকে ইভেন্টটি সম্পাদনা করুন।',
+};
+
+async function notifyOrganizer(event: StoredEvent, action: ReviewAction, reason: string | null) {
+  const email = organizerEmail(event.id);
+  if (!email) return;
+  await mailer.send({
+    to: email,
+    subject: `আপনার ইভেন্ট: ${event.name}`,
+    text: [
+      `"${event.name}" ইভেন্টটি ${DECISION_TEXT[action]}`,
+      reason ? `\nমডারেটরের মন্তব্য: ${reason}` : '',
+    ].join('\n'),
+  });
+}
+
+// Events waiting for review: pending ones, and those sent back to their
+// organizer for changes. Events with no status have not been reviewed
+// either.
+function listQueue(admin: AdminUser, district?: string) {
+  const rows = db.prepare(`
+    SELECT e.*, o.email AS organizer_email
+    FROM events e LEFT JOIN event_owners o ON o.event_id = e.uid
+    WHERE e.uid IS NOT NULL AND (e.status IS NULL OR e.status IN ('pending', 'changes_requested'))
+      AND (@district IS NULL OR e.district_code = @district)
+    ORDER BY e.district_code, e.created_at
+  `).all({ district: district ?? null }) as (Record<string, unknown> & { organizer_email: string | null })[];
+  return rows
+    .map((row): QueuedEvent => ({ ...rowToEvent(row), organizer_email: row.organizer_email }))
+    .filter(event => canModerateEvent(admin, event));
+}
+
+export function createModerationRouter() {
+  const router = express.Router();
+  router.use(requireRole('admin', 'moderator', 'district_moderator'));
+
+  router.get("/queue", (req, res) => {
+    const district = typeof req.query.district === 'string' && req.query.district ? findDistrict(req.query.district) : null;
+    if (req.query.district && !district) {
+      return res.status(400).json({ error: "Unknown district" });
+    }
+    res.json(listQueue(res.locals.admin as AdminUser, district?.code));
+  });
+
+  // { action, reason, trust }: rejections and change requests need a
+  // reason, which the organizer sees. trust adds the organizer's email to
+  // the trusted submitters when approving; trust applies in every district,
+  // so district moderators cannot grant it.
+  router.post("/events/:id/review", async (req, res) => {
+    const { action, trust } = req.body || {};
+    const reason = typeof req.body?.reason === 'string' && req.body.reason.trim() ? req.body.reason.trim() : null;
+    if (typeof action !== 'string' || !Object.keys(REVIEW_ACTIONS).includes(action)) {
+      return res.status(400).json({ error: `action must be one of ${Object.keys(REVIEW_ACTIONS).join(', ')}` });
+    }
+    if (action !== 'approve' && !reason) {
+      return res.status(400).json({ error: "A reason is required" });
+    }
+    if (reason && reason.length > MAX_REASON_LENGTH) {
+      return res.status(400).json({ error: `The reason must be at most ${MAX_REASON_LENGTH} characters` });
+    }
+    try {
+      const admin = res.locals.admin as AdminUser;
+      const existing = await eventRepository.get(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Event not found" });
+      }
+      if (!canModerateEvent(admin, existing)) {
+        return res.status(403).json({ error: "Insufficient permissions" });
+      }
+
+      const reviewAction = action as ReviewAction;
+      console.log(`Review of event ${existing.id}: ${reviewAction}`);
+      const event = await reviewEvent(existing, REVIEW_ACTIONS[reviewAction], reason, admin.id);
+      const email = organizerEmail(existing.id);
+      if (reviewAction === 'approve' && trust === true && email && admin.role !== 'district_moderator') trustSubmitter(email, admin.id);
+      if (event) notifyOrganizer(event, reviewAction, reason).catch(error => console.warn("Review notice not sent:", error));
+      res.json({ success: true, event });
+    } catch (error) {
+      console.error("Failed to review event:", error);
+      res.status(500).json({ error: "Failed to review event" });
+    }
+  });
+
+  router.get("/trusted", (req, res) => {
+    res.json(db.prepare("SELECT email, added_by, created_at FROM trusted_submitters ORDER BY created_at DESC").all());
+  });
+
+  router.post("/trusted", requireRole('admin', 'moderator'), (req, res) => {
+    const email = typeof req.body?.email === 'string' ? req.body.email.trim() : '';
+    if (!isEmail(email)) {
+      return res.status(400).json({ error: "Invalid email address" });
+    }
+    trustSubmitter(email, (res.locals.admin as AdminUser).id);
+    res.json({ success: true });
+  });
+
+  router.delete("/trusted/:email", requireRole('admin', 'moderator'), (req, res) => {
+    db.prepare("DELETE FROM trusted_submitters WHERE email = ?").run(normalizeEmail(req.params.email));
+    res.json({ success: true });
+  });
+
+  return router;
+}
@@ -0,0 +1,54 @@
+import { eventPath } from "../src/lib/routes";
+import { eventShareDetails, SHARE_IMAGE_SIZE } from "./shareCard";
+import type { StoredEvent } from "./repository";
+
+// Link previews on Facebook, WhatsApp and the like come from the page's Open
+// Graph tags, and their crawlers do not run the app's JavaScript. Event pages
+// are therefore served with the event's own tags written into index.html.
+const SITE_NAME = "ইফতার সন্ধানে";
+const MAX_DESCRIPTION_LENGTH = 200;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Site-wide tags in index.html that an event page replaces
+const DEFAULT_TAGS = /\s*<meta (?:property|name)="(?:og:[^"]*|twitter:[^"]*|description)"[^>]*>/g;
+
+export const shareImagePath = (event: StoredEvent) =>
+  // The version makes crawlers fetch the image again after an edit
+  `/api/events/${event.id}/share.png?v=${Date.parse(event.updated_at) || 0}`;
+
+export function eventDescription(event: StoredEvent) {
+  const details = eventShareDetails(event);
+  const text = [
+    details.date && `তারিখ: ${details.date}`,
+    details.iftar && `ইফতার: ${details.iftar}`,
+    details.place && `স্থান: ${details.place}`,
+    event.description,
+  ].filter(Boolean).join(' · ');
+  return text.length > MAX_DESCRIPTION_LENGTH ? `${text.slice(0, MAX_DESCRIPTION_LENGTH - 1).trim()}…` : text;
+}
+
+export function withEventMeta(html: string, event: StoredEvent, appUrl: string) {
+  const title = `${event.name} - ${SITE_NAME}`;
+  const description = eventDescription(event);
+  const tags: [string, string, string][] = [
+    ['name', 'description', description],
+    ['property', 'og:type', 'website'],
+    ['property', 'og:site_name', SITE_NAME],
+    ['property', 'og:locale', 'bn_BD'],
+    ['property', 'og:title', event.name],
+    ['property', 'og:description', description],
+    ['property', 'og:url', new URL(eventPath(event.id), appUrl).toString()],
+    ['property', 'og:image', new URL(shareImagePath(event), appUrl).toString()],
+    ['property', 'og:image:width', String(SHARE_IMAGE_SIZE.width)],
+    ['property', 'og:image:height', String(SHARE_IMAGE_SIZE.height)],
+    ['property', 'og:image:alt', title],
+    ['name', 'twitter:card', 'summary_large_image'],
+  ];
+  const meta = tags.map(([attribute, key, value]) => `    <meta ${attribute}="${key}" content="${escapeHtml(value)}" />`).join('\n');
+  return html
+    .replace(DEFAULT_TAGS, '')
+    .replace(/<title>[^<]*<\/title>/, `<title>${escapeHtml(title)}</title>`)
+    .replace(/\s*<\/head>/, `\n${meta}\n  </head>`);
+}
@@ -0,0 +1,92 @@
+import type { Request, Response, NextFunction } from "express";
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { db } from "./db";
+import { getSessionAdmin } from "./auth";
+import { mailer } from "./mailer";
+import { eventRepository, type StoredEvent } from "./repository";
+import { canModerateEvent } from "../src/types";
+import { managePath } from "../src/lib/routes";
+
+// Organizer access to submitted events. Every new event gets a secret edit
+// token; only its hash is stored. The token travels in the management
+// link's fragment, so it never reaches server logs, and is sent back in the
+// X-Edit-Token header.
+export const EDIT_TOKEN_HEADER = 'X-Edit-Token';
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest();
+
+// Issues a new token for the event, replacing any earlier one
+export function issueEditToken(eventId: string, email?: string | null) {
+  const token = randomBytes(32).toString('base64url');
+  db.prepare(`
+    INSERT INTO event_owners (event_id, token_hash, email, created_at) VALUES (?, ?, ?, ?)
+    ON CONFLICT(event_id) DO UPDATE SET token_hash = excluded.token_hash, email = COALESCE(excluded.email, event_owners.email), created_at = excluded.created_at
+  `).run(eventId, hashToken(token).toString('hex'), email || null, new Date().toISOString());
+  return token;
+}
+
+export function verifyEditToken(eventId: string, token: unknown) {
+  if (typeof token !== 'string' || !token) return false;
+  const row = db.prepare("SELECT token_hash FROM event_owners WHERE event_id = ?").get(eventId) as { token_hash: string } | undefined;
+  if (!row) return false;
+  return timingSafeEqual(Buffer.from(row.token_hash, 'hex'), hashToken(token));
+}
+
+export function organizerEmail(eventId: string) {
+  const row = db.prepare("SELECT email FROM event_owners WHERE event_id = ?").get(eventId) as { email: string | null } | undefined;
+  return row?.email ?? null;
+}
+
+export const manageUrl = (appUrl: string, eventId: string, token: string) =>
+  `${appUrl}${managePath(eventId)}#${token}`;
+
+// confirm: opening the link publishes the event, see confirmTrustedSubmission()
+export async function sendManageLink(event: StoredEvent, email: string, url: string, { confirm = false } = {}) {
+  await mailer.send({
+    to: email,
+    subject: `আপনার ইভেন্ট: ${event.name}`,
+    text: [
+      `"${event.name}" ইভেন্টটি ইফতার সন্ধানে যোগ হয়েছে।`,
+      confirm ? 'নিচের লিংকটি খুললেই ইভেন্টটি প্রকাশিত হবে।'
+        : event.status === 'approved' ? null : 'মডারেটরের অনুমোদনের পর ইভেন্টটি সবাই দেখতে পাবেন।',
+      '',
+      'এই লিংক থেকে ইভেন্টটি সম্পাদনা, বাতিল বা মেয়াদ বাড়াতে পারবেন:',
+      url,
+      '',
+      'লিংকটি গোপন রাখুন; যার কাছে লিংক থাকবে সে-ই ইভেন্টটি পরিবর্তন করতে পারবে।',
+    ].filter(line => line !== null).join('\n'),
+  });
+}
+
+// Lets the request through for the event's organizer, by edit token, or for
+// an admin who may moderate it. The event is exposed as res.locals.event and
+// the admin, when signed in as one, as res.locals.admin.
+export function requireEventManager() {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const event = await eventRepository.get(req.params.id);
+      if (!event) {
+        return res.status(404).json({ error: "Event not found", merged_into: eventRepository.mergedInto(req.params.id) ?? undefined });
+      }
+      const token = req.get(EDIT_TOKEN_HEADER);
+      if (token) {
+        if (!verifyEditToken(event.id, token)) {
+          return res.status(401).json({ error: "Invalid edit token" });
+        }
+      } else {
+        const admin = getSessionAdmin(req);
+        if (!admin) {
+          return res.status(401).json({ error: "Authentication required" });
+        }
+        if (!canModerateEvent(admin, event)) {
+          return res.status(403).json({ error: "Insufficient permissions" });
+        }
+        res.locals.admin = admin;
+      }
+      res.locals.event = event;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,88 @@
+import Database from "better-sqlite3";
+import { boundingBox, haversineKm } from "../../src/lib/geo";
+import { expandOccurrences } from "../../src/lib/schedule";
+import { searchTokens } from "../../src/lib/search";
+import type { DuplicateMatch } from "../../src/types";
+import { rowToEvent } from "./sqliteBackend";
+import type { EventInput, StoredEvent } from "./model";
+
+// A match needs a similar name, place and date together; the weights add up
+// to 1, and the same name at the same place on another day stays below the
+// threshold so a mosque's events on different days are not flagged.
+const WEIGHTS = { name: 0.45, place: 0.25, date: 0.3 };
+export const DUPLICATE_THRESHOLD = 0.75;
+
+// Events further apart than this are treated as different places.
+const NEARBY_KM = 1;
+const MAX_MATCHES = 5;
+
+// Character bigrams of the phonetic key, so "বড় মসজিদ" and "Boro Moshjid"
+// compare as the same name.
+function nameBigrams(name?: string | null) {
+  const key = searchTokens(name).join(' ');
+  const bigrams = new Set<string>();
+  for (let i = 0; i < key.length - 1; i++) bigrams.add(key.slice(i, i + 2));
+  return bigrams;
+}
+
+// Dice coefficient of the two names' bigrams, from 0 to 1.
+export function nameSimilarity(a?: string | null, b?: string | null) {
+  const x = nameBigrams(a);
+  const y = nameBigrams(b);
+  if (!x.size || !y.size) return 0;
+  let shared = 0;
+  for (const bigram of x) if (y.has(bigram)) shared++;
+  return (2 * shared) / (x.size + y.size);
+}
+
+const sameText = (a?: string | null, b?: string | null) =>
+  !!a && !!b && a.normalize('NFC').trim().toLowerCase() === b.normalize('NFC').trim().toLowerCase();
+
+// 1 for the same spot, falling to 0 at NEARBY_KM. Without coordinates the
+// administrative codes and village name stand in.
+function placeSimilarity(a: EventInput, b: StoredEvent) {
+  if (a.lat != null && a.lng != null && b.lat != null && b.lng != null) {
+    const distance = haversineKm([a.lat, a.lng], [b.lat, b.lng]);
+    return { score: Math.max(0, 1 - distance / NEARBY_KM), distance_km: Math.round(distance * 100) / 100 };
+  }
+  if (!a.upazila_code || a.upazila_code !== b.upazila_code) return { score: 0, distance_km: null };
+  const score = sameText(a.village, b.village) ? 1 : a.union_code && a.union_code === b.union_code ? 0.7 : 0.4;
+  return { score, distance_km: null };
+}
+
+// Existing events that look like the same gathering as `input`, best match
+// first. `input` should already carry its geography codes and target_date.
+export function findDuplicates(db: Database.Database, input: EventInput, excludeId?: string): DuplicateMatch<StoredEvent>[] {
+  const clauses: string[] = [];
+  const params: Record<string, unknown> = { exclude: excludeId ?? null };
+  if (input.lat != null && input.lng != null) {
+    Object.assign(params, boundingBox([input.lat, input.lng], NEARBY_KM));
+    clauses.push("id IN (SELECT id FROM events_geo_index WHERE max_lat >= @minLat AND min_lat <= @maxLat AND max_lng >= @minLng AND min_lng <= @maxLng)");
+  }
+  if (input.upazila_code) {
+    clauses.push("upazila_code = @upazila_code");
+    params.upazila_code = input.upazila_code;
+  }
+  if (!clauses.length) return [];
+
+  const rows = db.prepare(`
+    SELECT * FROM events
+    WHERE uid IS NOT NULL AND (@exclude IS NULL OR uid != @exclude) AND (${clauses.join(' OR ')})
+  `).all(params) as Record<string, unknown>[];
+
+  const dates = new Set(expandOccurrences(input));
+  const occurrences = db.prepare("SELECT date FROM event_occurrences WHERE event_id = ?").pluck();
+
+  return rows
+    .map(row => {
+      const event = rowToEvent(row);
+      const name_similarity = Math.round(nameSimilarity(input.name, event.name) * 100) / 100;
+      const place = placeSimilarity(input, event);
+      const same_date = dates.size > 0 && (occurrences.all(event.id) as string[]).some(d => dates.has(d));
+      const score = WEIGHTS.name * name_similarity + WEIGHTS.place * place.score + WEIGHTS.date * (same_date ? 1 : 0);
+      return { event, score: Math.round(score * 100) / 100, name_similarity, distance_km: place.distance_km, same_date };
+    })
+    .filter(match => match.score >= DUPLICATE_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_MATCHES);
+}
@@ -0,0 +1,271 @@
+import Database from "better-sqlite3";
+import { boundingBox, findDistrict, findUpazila, haversineKm } from "../../src/lib/geo";
+import { ftsMatchExpression } from "./searchIndex";
+import { rowToEvent } from "./sqliteBackend";
+import type { StoredEvent } from "./model";
+
+export const EVENT_SORTS = ['newest', 'soonest', 'nearest', 'relevance'] as const;
+export type EventSort = typeof EVENT_SORTS[number];
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+export const DEFAULT_RADIUS_KM = 5;
+export const MAX_RADIUS_KM = 100;
+
+export interface EventQuery {
+  district?: string;
+  upazila?: string;
+  union?: string;
+  village?: string;
+  type?: string;
+  from?: string;
+  to?: string;
+  q?: string;
+  near?: { lat: number; lng: number; radiusKm: number };
+  sort: EventSort;
+  limit: number;
+  cursor?: string;
+}
+
+export type ListedEvent = StoredEvent & { next_date?: string; distance_km?: number };
+
+export interface EventPage {
+  events: ListedEvent[];
+  nextCursor: string | null;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const text = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+// Reads GET /api/events query parameters. Returns an error message for the
+// 400 response when a parameter is malformed.
+export function parseEventQuery(params: Record<string, unknown>): { query: EventQuery } | { error: string } {
+  const from = text(params.date) ?? text(params.from);
+  const to = text(params.date) ?? text(params.to);
+  if ([from, to].some(d => d && (!ISO_DATE.test(d) || isNaN(Date.parse(d))))) {
+    return { error: "Dates must be YYYY-MM-DD" };
+  }
+
+  let near: EventQuery['near'];
+  if (params.lat !== undefined || params.lng !== undefined) {
+    const lat = Number(params.lat);
+    const lng = Number(params.lng);
+    const radiusKm = params.radius !== undefined ? Number(params.radius) : DEFAULT_RADIUS_KM;
+    if (isNaN(lat) || isNaN(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180 || !(radiusKm > 0 && radiusKm <= MAX_RADIUS_KM)) {
+      return { error: `Provide lat, lng and a radius of up to ${MAX_RADIUS_KM} km` };
+    }
+    near = { lat, lng, radiusKm };
+  }
+
+  const q = text(params.q);
+  const sort = (text(params.sort) ?? (near ? 'nearest' : q ? 'relevance' : 'newest')) as EventSort;
+  if (!EVENT_SORTS.includes(sort)) {
+    return { error: `sort must be one of ${EVENT_SORTS.join(', ')}` };
+  }
+  if (sort === 'nearest' && !near) return { error: "sort=nearest needs lat and lng" };
+  if (sort === 'relevance' && !q) return { error: "sort=relevance needs q" };
+
+  const limit = params.limit !== undefined ? Number(params.limit) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { error: `limit must be between 1 and ${MAX_PAGE_SIZE}` };
+  }
+
+  return {
+    query: {
+      district: text(params.district),
+      upazila: text(params.upazila),
+      union: text(params.union),
+      village: text(params.village),
+      type: text(params.type),
+      from,
+      to,
+      q,
+      near,
+      sort,
+      limit,
+      cursor: text(params.cursor),
+    }
+  };
+}
+
+// Cursors are opaque to clients: the sort they belong to and the sort key
+// and internal id of the last event on the page.
+const encodeCursor = (sort: EventSort, key: string | number, id: number) =>
+  Buffer.from(JSON.stringify([sort, key, id])).toString('base64url');
+
+function decodeCursor(cursor: string, sort: EventSort): [string | number, number] | null {
+  try {
+    const [cursorSort, key, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (cursorSort !== sort || !['string', 'number'].includes(typeof key) || !Number.isInteger(id)) return null;
+    return [key, id];
+  } catch {
+    return null;
+  }
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid cursor");
+  }
+}
+
+const registered = new WeakSet<Database.Database>();
+
+// One page of events matching the query, with the next date each event runs
+// and, for radius searches, its distance. Filtering, ordering and paging all
+// happen in SQL; ties are broken by the internal id so pages never overlap.
+export function queryEvents(db: Database.Database, query: EventQuery, today: string): EventPage {
+  if (!registered.has(db)) {
+    db.function('haversine_km', { deterministic: true }, (lat1, lng1, lat2, lng2) =>
+      haversineKm([Number(lat1), Number(lng1)], [Number(lat2), Number(lng2)]));
+    registered.add(db);
+  }
+
+  // Lists are public, so they hold approved events only
+  const where = ["e.uid IS NOT NULL", "e.status = 'approved'"];
+  const joins: string[] = [];
+  const params: Record<string, unknown> = { today, limit: query.limit + 1 };
+
+  if (query.district) {
+    // Codes and names are both accepted; unknown names fall back to the text column
+    const district = findDistrict(query.district);
+    where.push(district ? "e.district_code = @district" : "e.district = @district");
+    params.district = district?.code ?? query.district;
+  }
+  if (query.upazila) {
+    const upazila = findUpazila(findDistrict(query.district)?.code, query.upazila);
+    where.push(upazila ? "e.upazila_code = @upazila" : "e.upazila = @upazila");
+    params.upazila = upazila?.code ?? query.upazila;
+  }
+  if (query.union) {
+    where.push("e.union_code = @union");
+    params.union = query.union;
+  }
+  if (query.village) {
+    where.push("e.village LIKE @village ESCAPE '\\'");
+    params.village = `%${query.village.replace(/[\\%_]/g, c => `\\${c}`)}%`;
+  }
+  if (query.type) {
+    where.push("e.type = @type");
+    params.type = query.type;
+  }
+  if (query.from || query.to) {
+    where.push("e.uid IN (SELECT event_id FROM event_occurrences WHERE date BETWEEN @from AND @to)");
+    params.from = query.from ?? '0000-01-01';
+    params.to = query.to ?? '9999-12-31';
+  }
+
+  let distance = "NULL";
+  if (query.near) {
+    const box = boundingBox([query.near.lat, query.near.lng], query.near.radiusKm);
+    where.push("e.id IN (SELECT id FROM events_geo_index WHERE max_lat >= @minLat AND min_lat <= @maxLat AND max_lng >= @minLng AND min_lng <= @maxLng)");
+    Object.assign(params, box, { lat: query.near.lat, lng: query.near.lng, radius: query.near.radiusKm });
+    distance = "haversine_km(@lat, @lng, e.lat, e.lng)";
+    where.push(`${distance} <= @radius`);
+  }
+
+  if (query.q) {
+    const match = ftsMatchExpression(query.q);
+    if (!match) return { events: [], nextCursor: null };
+    joins.push("JOIN events_fts ON events_fts.rowid = e.id");
+    where.push("events_fts MATCH @match");
+    params.match = match;
+  }
+
+  const upcoming = "(SELECT MIN(date) FROM event_occurrences WHERE event_id = e.uid AND date >= @today)";
+  const [sortKey, direction] = {
+    newest: ["COALESCE(e.created_at, '')", 'DESC'],
+    soonest: [`COALESCE(${upcoming}, '9999-12-31')`, 'ASC'],
+    nearest: [distance, 'ASC'],
+    relevance: ["bm25(events_fts, 10, 4, 4, 1)", 'ASC'],
+  }[query.sort];
+
+  let after = "";
+  if (query.cursor) {
+    const cursor = decodeCursor(query.cursor, query.sort);
+    if (!cursor) throw new InvalidCursorError();
+    const op = direction === 'DESC' ? '<' : '>';
+    after = `WHERE sort_key ${op} @cursorKey OR (sort_key = @cursorKey AND id ${op} @cursorId)`;
+    [params.cursorKey, params.cursorId] = cursor;
+  }
+
+  const rows = db.prepare(`
+    SELECT * FROM (
+      SELECT e.*,
+        COALESCE(${upcoming}, (SELECT MAX(date) FROM event_occurrences WHERE event_id = e.uid)) AS next_date,
+        ${distance} AS distance_km,
+        ${sortKey} AS sort_key
+      FROM events e ${joins.join(' ')}
+      WHERE ${where.join(' AND ')}
+    ) ${after}
+    ORDER BY sort_key ${direction}, id ${direction}
+    LIMIT @limit
+  `).all(params) as (Record<string, unknown> & { id: number; next_date: string | null; distance_km: number | null; sort_key: string | number })[];
+
+  const page = rows.slice(0, query.limit);
+  const last = page[page.length - 1];
+  return {
+    events: page.map(row => ({
+      ...rowToEvent(row),
+      next_date: row.next_date ?? undefined,
+      distance_km: row.distance_km != null ? Math.round(row.distance_km * 100) / 100 : undefined,
+    })),
+    nextCursor: rows.length > query.limit ? encodeCursor(query.sort, last.sort_key, last.id) : null,
+  };
+}
+
+export interface OccurrenceQuery {
+  eventId?: string;
+  district?: string;
+  type?: string;
+  from?: string;
+}
+
+export interface EventOccurrence {
+  event: StoredEvent;
+  date: string;
+}
+
+// Each date an event runs on, paired with the event, in date order. Calendar
+// feeds list one entry per date rather than one per event.
+export function listOccurrences(db: Database.Database, query: OccurrenceQuery): EventOccurrence[] {
+  const where = ["e.uid IS NOT NULL"];
+  const params: Record<string, unknown> = {};
+
+  // A single event's dates are listed whatever its status, as the caller
+  // decides who may see it; feeds hold approved events only.
+  if (query.eventId) {
+    where.push("e.uid = @eventId");
+    params.eventId = query.eventId;
+  } else {
+    where.push("e.status = 'approved'");
+  }
+  if (query.district) {
+    const district = findDistrict(query.district);
+    where.push(district ? "e.district_code = @district" : "e.district = @district");
+    params.district = district?.code ?? query.district;
+  }
+  if (query.type) {
+    where.push("e.type = @type");
+    params.type = query.type;
+  }
+  if (query.from) {
+    where.push("o.date >= @from");
+    params.from = query.from;
+  }
+
+  const rows = db.prepare(`
+    SELECT e.*, o.date AS occurrence_date
+    FROM event_occurrences o JOIN events e ON e.uid = o.event_id
+    WHERE ${where.join(' AND ')}
+    ORDER BY o.date, e.id
+  `).all(params) as (Record<string, unknown> & { uid: string; occurrence_date: string })[];
+
+  // Rows of a recurring event share one parsed event
+  const events = new Map<string, StoredEvent>();
+  return rows.map(row => {
+    if (!events.has(row.uid)) events.set(row.uid, rowToEvent(row));
+    return { event: events.get(row.uid)!, date: row.occurrence_date };
+  });
+}
@@ -0,0 +1,126 @@
+import Database from "better-sqlite3";
+import { randomUUID } from "crypto";
+import { EVENT_FIELDS, errorMessage, toStoredEvent, type EventBackend, type EventInput, type StateField, type StoredEvent } from "./model";
+
+export interface FailedWrite {
+  id: number;
+  event_id: string;
+  backend: string;
+  operation: 'upsert' | 'remove';
+  error: string | null;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+// Owns event ids and fans every write out to the configured backends. The
+// primary backend must accept the write for it to succeed; replica failures
+// are logged to failed_writes and repaired later by reconcileEvents().
+export class EventRepository {
+  constructor(
+    private db: Database.Database,
+    readonly primary: EventBackend,
+    readonly replicas: EventBackend[]
+  ) {}
+
+  list() {
+    return this.primary.list();
+  }
+
+  get(id: string) {
+    return this.primary.get(id);
+  }
+
+  async create(input: EventInput & Partial<Pick<StoredEvent, StateField>>) {
+    const now = new Date().toISOString();
+    const event = toStoredEvent(randomUUID(), { ...input, created_at: now, updated_at: now });
+    await this.primary.upsert(event);
+    await this.replicate(event.id, 'upsert', backend => backend.upsert(event));
+    return event;
+  }
+
+  // Writes back an event kept elsewhere, such as a Drive copy, under its own
+  // id. Ids that are in use or were deleted are refused.
+  async restore(event: StoredEvent) {
+    if (await this.primary.get(event.id) || this.isDeleted(event.id) || this.mergedInto(event.id)) return null;
+    await this.primary.upsert(event);
+    await this.replicate(event.id, 'upsert', backend => backend.upsert(event));
+    return event;
+  }
+
+  async update(id: string, changes: EventInput & Partial<Pick<StoredEvent, StateField>>) {
+    const existing = await this.primary.get(id);
+    if (!existing) return null;
+
+    const event = toStoredEvent(id, { ...existing, ...changes, updated_at: new Date().toISOString() });
+    await this.primary.upsert(event);
+    await this.replicate(id, 'upsert', backend => backend.upsert(event));
+    return event;
+  }
+
+  async remove(id: string) {
+    // The tombstone keeps reconciliation from resurrecting the event out of
+    // a replica whose delete failed.
+    this.db.prepare("INSERT OR REPLACE INTO deleted_events (id, deleted_at) VALUES (?, ?)").run(id, new Date().toISOString());
+    await this.primary.remove(id);
+    await this.replicate(id, 'remove', backend => backend.remove(id));
+  }
+
+  // Folds a duplicate into the event that is kept. Fields empty on the kept
+  // event are filled from the duplicate, and the fields listed in `prefer`
+  // are taken from it outright. The duplicate is then removed, and links to
+  // it resolve to the kept event through mergedInto().
+  async merge(keepId: string, duplicateId: string, prefer: string[] = [], mergedBy?: number) {
+    const [keep, duplicate] = await Promise.all([this.primary.get(keepId), this.primary.get(duplicateId)]);
+    if (!keep || !duplicate || keep.id === duplicate.id) return null;
+
+    const changes: Record<string, unknown> = {};
+    for (const field of EVENT_FIELDS) {
+      const value = duplicate[field];
+      if (value === null || value === undefined || value === '') continue;
+      if (prefer.includes(field) || keep[field] === null || keep[field] === '') changes[field] = value;
+    }
+    const event = await this.update(keepId, changes as EventInput);
+
+    this.db.transaction(() => {
+      this.db.prepare("INSERT OR REPLACE INTO event_merges (merged_id, into_id, merged_by, merged_at) VALUES (?, ?, ?, ?)")
+        .run(duplicateId, keepId, mergedBy ?? null, new Date().toISOString());
+      // Events merged into the duplicate earlier now point at the kept one
+      this.db.prepare("UPDATE event_merges SET into_id = ? WHERE into_id = ?").run(keepId, duplicateId);
+    })();
+    await this.remove(duplicateId);
+    return event;
+  }
+
+  mergedInto(id: string) {
+    const row = this.db.prepare("SELECT into_id FROM event_merges WHERE merged_id = ?").get(id) as { into_id: string } | undefined;
+    return row?.into_id ?? null;
+  }
+
+  isDeleted(id: string) {
+    return !!this.db.prepare("SELECT 1 FROM deleted_events WHERE id = ?").get(id);
+  }
+
+  listFailedWrites(includeResolved = false) {
+    const where = includeResolved ? "" : "WHERE resolved_at IS NULL";
+    return this.db.prepare(`SELECT * FROM failed_writes ${where} ORDER BY created_at DESC`).all() as FailedWrite[];
+  }
+
+  resolveFailedWrites(backend: string) {
+    this.db.prepare("UPDATE failed_writes SET resolved_at = ? WHERE backend = ? AND resolved_at IS NULL")
+      .run(new Date().toISOString(), backend);
+  }
+
+  private async replicate(eventId: string, operation: FailedWrite['operation'], write: (backend: EventBackend) => Promise<void>) {
+    await Promise.all(this.replicas.map(async backend => {
+      try {
+        await write(backend);
+      } catch (error) {
+        console.warn(`${backend.name} ${operation} failed for event ${eventId}`, error);
+        this.db.prepare(`
+          INSERT INTO failed_writes (event_id, backend, operation, error, created_at)
+          VALUES (?, ?, ?, ?, ?)
+        `).run(eventId, backend.name, operation, errorMessage(error), new Date().toISOString());
+      }
+    }));
+  }
+}
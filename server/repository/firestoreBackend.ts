@@ -0,0 +1,52 @@
+import { collection, deleteDoc, doc, getDoc, getDocs, setDoc, type Firestore } from "firebase/firestore";
+import { STORED_FIELDS, toStoredEvent, type EventBackend, type LegacyRecord, type StoredEvent } from "./model";
+
+// Firestore documents are keyed by the repository UUID. Documents written
+// with addDoc before the repository existed have a random id and no uid.
+export class FirestoreEventBackend implements EventBackend {
+  readonly name = 'firestore';
+
+  constructor(private firestore: Firestore) {}
+
+  private toDoc(event: StoredEvent) {
+    // Firestore rejects undefined values, so every field is written explicitly.
+    const data: Record<string, unknown> = { uid: event.id, created_at: event.created_at, updated_at: event.updated_at };
+    for (const field of STORED_FIELDS) data[field] = event[field] ?? null;
+    return data;
+  }
+
+  async list() {
+    const snapshot = await getDocs(collection(this.firestore, 'events'));
+    return snapshot.docs
+      .filter(d => d.data().uid === d.id)
+      .map(d => toStoredEvent(d.id, d.data()));
+  }
+
+  async get(id: string) {
+    const snapshot = await getDoc(doc(this.firestore, 'events', id));
+    return snapshot.exists() ? toStoredEvent(id, snapshot.data()) : null;
+  }
+
+  async upsert(event: StoredEvent) {
+    await setDoc(doc(this.firestore, 'events', event.id), this.toDoc(event));
+  }
+
+  async remove(id: string) {
+    await deleteDoc(doc(this.firestore, 'events', id));
+  }
+
+  async listLegacy(): Promise<LegacyRecord[]> {
+    const snapshot = await getDocs(collection(this.firestore, 'events'));
+    return snapshot.docs
+      .filter(d => d.data().uid !== d.id)
+      .map(d => {
+        const { id: _id, ...event } = toStoredEvent('', d.data());
+        return { nativeId: d.id, event };
+      });
+  }
+
+  async adoptLegacy(nativeId: string, event: StoredEvent) {
+    await this.upsert(event);
+    await deleteDoc(doc(this.firestore, 'events', nativeId));
+  }
+}
@@ -0,0 +1,16 @@
+import Database from "better-sqlite3";
+
+// R*Tree of event locations keyed by the internal events.id, kept in step
+// with the events table so radius searches only read nearby rows.
+export function syncGeoIndex(db: Database.Database, eventId: string) {
+  removeFromGeoIndex(db, eventId);
+  db.prepare(`
+    INSERT INTO events_geo_index (id, min_lat, max_lat, min_lng, max_lng)
+    SELECT id, lat, lat, lng, lng FROM events WHERE uid = ? AND lat IS NOT NULL AND lng IS NOT NULL
+  `).run(eventId);
+}
+
+export function removeFromGeoIndex(db: Database.Database, eventId: string) {
+  db.prepare("DELETE FROM events_geo_index WHERE id IN (SELECT id FROM events WHERE uid = ?)").run(eventId);
+}
+
@@ -0,0 +1,23 @@
+import { db } from "../db";
+import { supabase } from "../supabase";
+import { db as firestore } from "../../src/firebase";
+import { EventRepository } from "./eventRepository";
+import { SqliteEventBackend } from "./sqliteBackend";
+import { SupabaseEventBackend } from "./supabaseBackend";
+import { FirestoreEventBackend } from "./firestoreBackend";
+import { withTimeout } from "./model";
+
+const REPLICA_TIMEOUT_MS = Number(process.env.REPLICA_TIMEOUT_MS) || 10_000;
+
+export * from "./model";
+export { EventRepository, type FailedWrite } from "./eventRepository";
+export { rowToEvent } from "./sqliteBackend";
+export { reconcileEvents, scheduleReconcile, type ReconcileReport } from "./reconcile";
+export { findDuplicates, DUPLICATE_THRESHOLD } from "./duplicates";
+export { listOccurrences, parseEventQuery, MAX_PAGE_SIZE, queryEvents, InvalidCursorError, type EventOccurrence, type EventPage, type EventQuery, type ListedEvent } from "./eventQuery";
+
+// SQLite is the source of truth; Supabase and Firestore are kept as replicas.
+export const eventRepository = new EventRepository(db, new SqliteEventBackend(db), [
+  withTimeout(new SupabaseEventBackend(supabase), REPLICA_TIMEOUT_MS),
+  withTimeout(new FirestoreEventBackend(firestore), REPLICA_TIMEOUT_MS),
+]);
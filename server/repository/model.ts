@@ -0,0 +1,106 @@
+import type { Event } from "../../src/types";
+
+// Fields that describe an event. id, created_at and updated_at are owned by
+// the repository and never taken from client input.
+export const EVENT_FIELDS = [
+  'name', 'type', 'district', 'upazila', 'village', 'address', 'date_range',
+  'start_time', 'iftar_time', 'contact', 'description', 'image_url', 'lat', 'lng',
+  'link_url', 'event_date', 'event_day', 'target_date', 'division_code', 'district_code',
+  'upazila_code', 'union_code', 'union_name', 'end_date', 'recurrence', 'recurrence_weekdays',
+  'exception_dates'
+] as const;
+
+export type EventField = typeof EVENT_FIELDS[number];
+
+// Fields set by the server's own workflows rather than taken from client
+// input: cancelled_at marks an event its organizer called off, and status
+// and status_reason record the moderators' review.
+export const STATE_FIELDS = ['cancelled_at', 'status', 'status_reason'] as const;
+export type StateField = typeof STATE_FIELDS[number];
+
+// Every field a backend stores besides the id and timestamps
+export const STORED_FIELDS = [...EVENT_FIELDS, ...STATE_FIELDS] as const;
+export type EventInput = Partial<Pick<Event, EventField>>;
+
+// An event as held by the repository: the id is the stable UUID shared by
+// every backend, whatever native id the backend uses internally.
+export interface StoredEvent extends Event {
+  id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// A record written before the repository existed, identified only by the
+// backend's own id. Reconciliation adopts these by assigning a UUID.
+export interface LegacyRecord {
+  nativeId: string;
+  event: Omit<StoredEvent, 'id'>;
+}
+
+export interface EventBackend {
+  readonly name: string;
+  list(): Promise<StoredEvent[]>;
+  get(id: string): Promise<StoredEvent | null>;
+  upsert(event: StoredEvent): Promise<void>;
+  remove(id: string): Promise<void>;
+  listLegacy(): Promise<LegacyRecord[]>;
+  adoptLegacy(nativeId: string, event: StoredEvent): Promise<void>;
+}
+
+// Keeps only the event fields of a request body or file. The values are
+// whatever was sent, and are checked by validateEvent().
+export function pickEventInput(body: Record<string, unknown> | null | undefined): EventInput {
+  const input: Partial<Record<keyof EventInput, unknown>> = {};
+  for (const field of EVENT_FIELDS) {
+    if (body?.[field] !== undefined) input[field] = body[field];
+  }
+  return input as EventInput;
+}
+
+// Every stored field holds text or a number
+const storedValue = (value: unknown) =>
+  typeof value === 'string' || typeof value === 'number' ? value : null;
+const storedTimestamp = (value: unknown) =>
+  typeof value === 'string' && value ? value : null;
+
+// Normalizes a raw row from any backend into the repository shape. Missing
+// values become null so rows from different stores compare equal.
+export function toStoredEvent(id: string, row: Record<string, unknown>): StoredEvent {
+  const fields: Partial<Record<typeof STORED_FIELDS[number], string | number | null>> = {};
+  for (const field of STORED_FIELDS) {
+    fields[field] = storedValue(row[field]);
+  }
+  const created_at = storedTimestamp(row.created_at) ?? new Date(0).toISOString();
+  return { ...fields, id, created_at, updated_at: storedTimestamp(row.updated_at) ?? created_at } as StoredEvent;
+}
+
+// Content fingerprint used to detect drift between two copies of an event.
+export function eventFingerprint(event: StoredEvent, fields: readonly (keyof StoredEvent)[] = STORED_FIELDS) {
+  return JSON.stringify([event.updated_at, ...fields.map(field => event[field] ?? null)]);
+}
+
+// Supabase reports failures as plain PostgrestError objects rather than Error
+// instances, so the message has to be read off either shape.
+export function errorMessage(error: unknown) {
+  if (error && typeof error === 'object' && 'message' in error) return String(error.message);
+  return String(error);
+}
+
+// Wraps a backend so none of its calls can hang the request that triggered
+// it. The Firestore SDK, for one, waits indefinitely for an acknowledgement
+// while it cannot reach the server.
+export function withTimeout(backend: EventBackend, ms: number): EventBackend {
+  const limit = <T>(operation: string, promise: Promise<T>) => new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`${backend.name} ${operation} timed out after ${ms}ms`)), ms);
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+  return {
+    name: backend.name,
+    list: () => limit('list', backend.list()),
+    get: (id) => limit('get', backend.get(id)),
+    upsert: (event) => limit('upsert', backend.upsert(event)),
+    remove: (id) => limit('remove', backend.remove(id)),
+    listLegacy: () => limit('listLegacy', backend.listLegacy()),
+    adoptLegacy: (nativeId, event) => limit('adoptLegacy', backend.adoptLegacy(nativeId, event)),
+  };
+}
@@ -0,0 +1,18 @@
+import Database from "better-sqlite3";
+import { expandOccurrences } from "../../src/lib/schedule";
+import type { StoredEvent } from "./model";
+
+// Every date each event runs on, expanded from its schedule whenever the
+// event is written, so date filters and next dates are plain SQL lookups.
+export function syncOccurrences(db: Database.Database, event: Pick<StoredEvent, 'id' | 'target_date' | 'end_date' | 'recurrence' | 'recurrence_weekdays' | 'exception_dates'>) {
+  removeOccurrences(db, event.id);
+  const insert = db.prepare("INSERT OR IGNORE INTO event_occurrences (event_id, date) VALUES (?, ?)");
+  for (const date of expandOccurrences(event)) {
+    insert.run(event.id, date);
+  }
+}
+
+export function removeOccurrences(db: Database.Database, eventId: string) {
+  db.prepare("DELETE FROM event_occurrences WHERE event_id = ?").run(eventId);
+}
+
@@ -0,0 +1,129 @@
+import { randomUUID } from "crypto";
+import { errorMessage, eventFingerprint, type EventBackend, type StoredEvent } from "./model";
+import type { EventRepository } from "./eventRepository";
+import { resolveGeoCodes } from "../../src/lib/geo";
+
+export interface ReconcileReport {
+  startedAt: string;
+  finishedAt?: string;
+  adopted: number;
+  imported: number;
+  repaired: Record<string, number>;
+  removed: Record<string, number>;
+  errors: string[];
+}
+
+// Gives legacy records (written before the repository) a UUID. Copies of the
+// same submission share their created_at, so they end up with the same UUID.
+async function adoptLegacyRecords(backends: EventBackend[], report: ReconcileReport) {
+  const uidByCreatedAt = new Map<string, string>();
+  for (const backend of backends) {
+    try {
+      for (const event of await backend.list()) uidByCreatedAt.set(event.created_at, event.id);
+    } catch (error) {
+      report.errors.push(`${backend.name}: ${errorMessage(error)}`);
+    }
+  }
+
+  for (const backend of backends) {
+    try {
+      for (const legacy of await backend.listLegacy()) {
+        const id = uidByCreatedAt.get(legacy.event.created_at) || randomUUID();
+        uidByCreatedAt.set(legacy.event.created_at, id);
+        // Legacy records predate geography codes, so derive them on the way in.
+        const codes = legacy.event.district_code ? {} : resolveGeoCodes(legacy.event);
+        await backend.adoptLegacy(legacy.nativeId, { ...legacy.event, ...codes, id });
+        report.adopted++;
+      }
+    } catch (error) {
+      report.errors.push(`${backend.name}: ${errorMessage(error)}`);
+    }
+  }
+}
+
+// Detects and repairs drift between the primary store and its replicas:
+//  1. legacy records are adopted under a UUID,
+//  2. events only a replica has are pulled into the primary, unless they
+//     were deleted, and wait for review,
+//  3. every replica is brought in line with the primary.
+// The primary is authoritative for events it has: the replicas can be written
+// with the public client keys, so a replica's newer copy, or its status, could
+// otherwise publish anyone's changes without review.
+export async function reconcileEvents(repository: EventRepository): Promise<ReconcileReport> {
+  const report: ReconcileReport = { startedAt: new Date().toISOString(), adopted: 0, imported: 0, repaired: {}, removed: {}, errors: [] };
+  const { primary, replicas } = repository;
+
+  await adoptLegacyRecords([primary, ...replicas], report);
+
+  const replicaEvents = new Map<EventBackend, Map<string, StoredEvent>>();
+  for (const replica of replicas) {
+    try {
+      replicaEvents.set(replica, new Map((await replica.list()).map(e => [e.id, e])));
+    } catch (error) {
+      report.errors.push(`${replica.name}: ${errorMessage(error)}`);
+    }
+  }
+
+  const primaryEvents = new Map((await primary.list()).map(e => [e.id, e]));
+  for (const events of replicaEvents.values()) {
+    for (const event of events.values()) {
+      if (repository.isDeleted(event.id) || primaryEvents.has(event.id)) continue;
+      const pulled: StoredEvent = { ...event, status: 'pending', status_reason: null };
+      await primary.upsert(pulled);
+      primaryEvents.set(event.id, pulled);
+      report.imported++;
+    }
+  }
+
+  for (const [replica, events] of replicaEvents) {
+    let repaired = 0;
+    let removed = 0;
+    try {
+      for (const event of primaryEvents.values()) {
+        const copy = events.get(event.id);
+        if (!copy || eventFingerprint(copy) !== eventFingerprint(event)) {
+          await replica.upsert(event);
+          repaired++;
+        }
+      }
+      for (const id of events.keys()) {
+        if (!primaryEvents.has(id) && repository.isDeleted(id)) {
+          await replica.remove(id);
+          removed++;
+        }
+      }
+      repository.resolveFailedWrites(replica.name);
+    } catch (error) {
+      report.errors.push(`${replica.name}: ${errorMessage(error)}`);
+    }
+    report.repaired[replica.name] = repaired;
+    report.removed[replica.name] = removed;
+  }
+
+  report.finishedAt = new Date().toISOString();
+  return report;
+}
+
+// Runs reconciliation shortly after startup and then every
+// RECONCILE_INTERVAL_MINUTES (default 15, 0 disables the schedule).
+export function scheduleReconcile(repository: EventRepository) {
+  const minutes = Number(process.env.RECONCILE_INTERVAL_MINUTES ?? 15);
+  if (!minutes) return;
+
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const report = await reconcileEvents(repository);
+      console.log("Reconcile finished:", JSON.stringify(report));
+    } catch (error) {
+      console.error("Reconcile failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  setTimeout(run, 10_000).unref();
+  setInterval(run, minutes * 60_000).unref();
+}
@@ -0,0 +1,23 @@
+import Database from "better-sqlite3";
+import { isPrefixToken, normalizeSearchText, searchTokens, SEARCH_FIELDS } from "../../src/lib/search";
+
+// FTS5 index over the phonetic keys of each event's searchable fields, keyed
+// by the internal events.id, so Bangla and romanized queries find each other.
+export function syncSearchIndex(db: Database.Database, eventId: string) {
+  const row = db.prepare(`SELECT id, ${SEARCH_FIELDS.join(', ')} FROM events WHERE uid = ?`).get(eventId) as (Record<typeof SEARCH_FIELDS[number], string | null> & { id: number }) | undefined;
+  if (!row) return;
+  db.prepare("DELETE FROM events_fts WHERE rowid = ?").run(row.id);
+  db.prepare(`INSERT INTO events_fts (rowid, ${SEARCH_FIELDS.join(', ')}) VALUES (?, ${SEARCH_FIELDS.map(() => '?').join(', ')})`)
+    .run(row.id, ...SEARCH_FIELDS.map(field => normalizeSearchText(row[field])));
+}
+
+export function removeFromSearchIndex(db: Database.Database, eventId: string) {
+  db.prepare("DELETE FROM events_fts WHERE rowid IN (SELECT id FROM events WHERE uid = ?)").run(eventId);
+}
+
+// FTS5 query matching every word of a search, or null when it has no words.
+export function ftsMatchExpression(query: string) {
+  const tokens = searchTokens(query);
+  if (!tokens.length) return null;
+  return tokens.map(t => isPrefixToken(t) ? `"${t}"*` : `"${t}"`).join(' ');
+}
@@ -0,0 +1,71 @@
+import Database from "better-sqlite3";
+import { STORED_FIELDS, toStoredEvent, type EventBackend, type LegacyRecord, type StoredEvent } from "./model";
+import { removeOccurrences, syncOccurrences } from "./occurrences";
+import { removeFromGeoIndex, syncGeoIndex } from "./geoIndex";
+import { removeFromSearchIndex, syncSearchIndex } from "./searchIndex";
+
+const COLUMNS = [...STORED_FIELDS, 'created_at', 'updated_at'] as const;
+
+export function rowToEvent(row: Record<string, unknown>) {
+  return toStoredEvent(String(row.uid), row);
+}
+
+// Local SQLite store and the repository's source of truth. The integer
+// primary key stays internal; events are addressed by their uid column.
+export class SqliteEventBackend implements EventBackend {
+  readonly name = 'sqlite';
+
+  constructor(private db: Database.Database) {}
+
+  async list() {
+    const rows = this.db.prepare("SELECT * FROM events WHERE uid IS NOT NULL ORDER BY created_at DESC").all() as Record<string, unknown>[];
+    return rows.map(rowToEvent);
+  }
+
+  async get(id: string) {
+    const row = this.db.prepare("SELECT * FROM events WHERE uid = ?").get(id) as Record<string, unknown> | undefined;
+    return row ? rowToEvent(row) : null;
+  }
+
+  async upsert(event: StoredEvent) {
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO events (uid, ${COLUMNS.join(', ')})
+        VALUES (?, ${COLUMNS.map(() => '?').join(', ')})
+        ON CONFLICT(uid) DO UPDATE SET ${COLUMNS.map(c => `${c} = excluded.${c}`).join(', ')}
+      `).run(event.id, ...COLUMNS.map(c => event[c] ?? null));
+      syncOccurrences(this.db, event);
+      syncGeoIndex(this.db, event.id);
+      syncSearchIndex(this.db, event.id);
+    })();
+  }
+
+  async remove(id: string) {
+    this.db.transaction(() => {
+      removeFromGeoIndex(this.db, id);
+      removeFromSearchIndex(this.db, id);
+      this.db.prepare("DELETE FROM events WHERE uid = ?").run(id);
+      removeOccurrences(this.db, id);
+    })();
+  }
+
+  async listLegacy(): Promise<LegacyRecord[]> {
+    const rows = this.db.prepare("SELECT * FROM events WHERE uid IS NULL").all() as Record<string, unknown>[];
+    return rows.map(row => {
+      const { id: _id, ...event } = toStoredEvent('', row);
+      return { nativeId: String(row.id), event };
+    });
+  }
+
+  async adoptLegacy(nativeId: string, event: StoredEvent) {
+    // A copy already stored under this uid makes the legacy row a duplicate.
+    if (await this.get(event.id)) {
+      this.db.prepare("DELETE FROM events_geo_index WHERE id = ?").run(Number(nativeId));
+      this.db.prepare("DELETE FROM events_fts WHERE rowid = ?").run(Number(nativeId));
+      this.db.prepare("DELETE FROM events WHERE id = ?").run(Number(nativeId));
+      return;
+    }
+    this.db.prepare("UPDATE events SET uid = ? WHERE id = ?").run(event.id, Number(nativeId));
+    await this.upsert(event);
+  }
+}
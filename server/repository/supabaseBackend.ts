@@ -0,0 +1,56 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { STORED_FIELDS, toStoredEvent, type EventBackend, type LegacyRecord, type StoredEvent } from "./model";
+
+// Supabase keeps its own bigint id; the repository UUID lives in a unique
+// "uid" column (see README for the required table changes).
+export class SupabaseEventBackend implements EventBackend {
+  readonly name = 'supabase';
+
+  constructor(private client: SupabaseClient) {}
+
+  private toRow(event: StoredEvent) {
+    const row: Record<string, unknown> = { uid: event.id, created_at: event.created_at, updated_at: event.updated_at };
+    for (const field of STORED_FIELDS) row[field] = event[field] ?? null;
+    return row;
+  }
+
+  async list() {
+    const { data, error } = await this.client.from('events').select('*').not('uid', 'is', null);
+    if (error) throw error;
+    return (data || []).map(row => toStoredEvent(row.uid, row));
+  }
+
+  async get(id: string) {
+    const { data, error } = await this.client.from('events').select('*').eq('uid', id).maybeSingle();
+    if (error) throw error;
+    return data ? toStoredEvent(data.uid, data) : null;
+  }
+
+  async upsert(event: StoredEvent) {
+    const { error } = await this.client.from('events').upsert(this.toRow(event), { onConflict: 'uid' });
+    if (error) throw error;
+  }
+
+  async remove(id: string) {
+    const { error } = await this.client.from('events').delete().eq('uid', id);
+    if (error) throw error;
+  }
+
+  async listLegacy(): Promise<LegacyRecord[]> {
+    const { data, error } = await this.client.from('events').select('*').is('uid', null);
+    if (error) throw error;
+    return (data || []).map(row => {
+      const { id: _id, ...event } = toStoredEvent('', row);
+      return { nativeId: String(row.id), event };
+    });
+  }
+
+  async adoptLegacy(nativeId: string, event: StoredEvent) {
+    // A copy already stored under this uid makes the legacy row a duplicate.
+    const query = (await this.get(event.id))
+      ? this.client.from('events').delete().eq('id', nativeId)
+      : this.client.from('events').update(this.toRow(event)).eq('id', nativeId);
+    const { error } = await query;
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,65 @@
+import Database from "better-sqlite3";
+import session from "express-session";
+
+// Sessions kept in SQLite, so logins and Drive connections survive a
+// restart. Expired rows are ignored on read and swept out every so often.
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+
+type Callback = (err?: unknown) => void;
+
+export class SqliteSessionStore extends session.Store {
+  constructor(private db: Database.Database) {
+    super();
+    setInterval(() => this.sweep(), SWEEP_INTERVAL_MS).unref();
+  }
+
+  // Cookies without maxAge last for the browser session; their rows are
+  // kept for a day after the last request.
+  private expiresAt(sess: session.SessionData) {
+    return sess.cookie?.expires ? new Date(sess.cookie.expires).getTime() : Date.now() + DEFAULT_TTL_MS;
+  }
+
+  get(sid: string, callback: (err: unknown, session?: session.SessionData | null) => void) {
+    try {
+      const row = this.db.prepare("SELECT sess FROM sessions WHERE sid = ? AND expires_at > ?").get(sid, Date.now()) as { sess: string } | undefined;
+      callback(null, row ? JSON.parse(row.sess) : null);
+    } catch (error) {
+      callback(error);
+    }
+  }
+
+  set(sid: string, sess: session.SessionData, callback?: Callback) {
+    try {
+      this.db.prepare(`
+        INSERT INTO sessions (sid, sess, expires_at) VALUES (?, ?, ?)
+        ON CONFLICT(sid) DO UPDATE SET sess = excluded.sess, expires_at = excluded.expires_at
+      `).run(sid, JSON.stringify(sess), this.expiresAt(sess));
+      callback?.();
+    } catch (error) {
+      callback?.(error);
+    }
+  }
+
+  destroy(sid: string, callback?: Callback) {
+    try {
+      this.db.prepare("DELETE FROM sessions WHERE sid = ?").run(sid);
+      callback?.();
+    } catch (error) {
+      callback?.(error);
+    }
+  }
+
+  touch(sid: string, sess: session.SessionData, callback?: Callback) {
+    try {
+      this.db.prepare("UPDATE sessions SET expires_at = ? WHERE sid = ?").run(this.expiresAt(sess), sid);
+      callback?.();
+    } catch (error) {
+      callback?.(error);
+    }
+  }
+
+  sweep() {
+    return this.db.prepare("DELETE FROM sessions WHERE expires_at <= ?").run(Date.now()).changes;
+  }
+}
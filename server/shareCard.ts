@@ -0,0 +1,153 @@
+import sharp, { type OverlayOptions } from "sharp";
+import path from "path";
+import { createRequire } from "module";
+import { formatClockBn } from "../src/lib/bangla";
+import { formatHijriBn, toHijri, weekdayBn } from "../src/lib/hijri";
+import { isUploadedImage, thumbnailUrl } from "../src/lib/images";
+import { eventPrayerTimes, todayInBangladesh } from "../src/lib/prayerTimes";
+import { eventNextDate } from "../src/lib/schedule";
+import { UPLOAD_DIR } from "./uploads";
+import type { StoredEvent } from "./repository";
+
+// The image shown when an event link is shared: the event's name, next date,
+// place and iftar time in Bangla on the app's colours, with its poster when
+// one was uploaded. 1200×630 is the size Facebook and WhatsApp crop to.
+export const SHARE_IMAGE_SIZE = { width: 1200, height: 630 };
+
+const PADDING = 64;
+const FOOTER_HEIGHT = 72;
+const POSTER_SIZE = 400;
+const MAX_NAME_LENGTH = 70;
+// Names longer than this are set smaller so the details still fit
+const LONG_NAME_LENGTH = 32;
+
+// The server has no Bangla system fonts, so Pango is given the font files.
+const FONT_DIR = path.dirname(createRequire(import.meta.url).resolve("@expo-google-fonts/hind-siliguri/package.json"));
+const FONTS = {
+  regular: path.join(FONT_DIR, "400Regular/HindSiliguri_400Regular.ttf"),
+  bold: path.join(FONT_DIR, "700Bold/HindSiliguri_700Bold.ttf"),
+};
+
+const COLORS = { text: "#ffffff", muted: "#a7f3d0", accent: "#fcd34d" };
+
+export interface ShareDetails {
+  date: string | null;
+  place: string;
+  iftar: string | null;
+}
+
+// The lines both the share image and the Open Graph description are made of.
+export function eventShareDetails(event: StoredEvent, today = todayInBangladesh()): ShareDetails {
+  const date = eventNextDate(event, today);
+  const times = date ? eventPrayerTimes(event, date) : null;
+  const iftar = (date === event.target_date && event.iftar_time) || times?.iftar || event.iftar_time;
+  return {
+    date: date ? `${formatHijriBn(toHijri(date))} (${weekdayBn(date)})` : event.event_date || event.date_range || null,
+    place: [event.village, event.union_name, event.upazila, event.district].filter(Boolean).join(', '),
+    iftar: iftar ? formatClockBn(iftar) : null,
+  };
+}
+
+const escapeMarkup = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Shortens text to at most `max` characters, at a word break where possible
+function truncate(text: string, max: number) {
+  if (text.length <= max) return text;
+  const cut = text.slice(0, max - 1);
+  return `${(cut.lastIndexOf(' ') > max / 2 ? cut.slice(0, cut.lastIndexOf(' ')) : cut).trim()}…`;
+}
+
+// Renders Pango markup to a transparent PNG no wider than `width`.
+async function textLayer(markup: string, { size, bold = false, width }: { size: number; bold?: boolean; width: number }) {
+  const { data, info } = await sharp({
+    text: {
+      text: markup,
+      font: `Hind Siliguri ${bold ? 'Bold ' : ''}${size}`,
+      fontfile: bold ? FONTS.bold : FONTS.regular,
+      width,
+      wrap: 'word',
+      rgba: true,
+    },
+  }).png().toBuffer({ resolveWithObject: true });
+  return { input: data, width: info.width, height: info.height };
+}
+
+const labelled = (label: string, value: string) =>
+  `<span foreground="${COLORS.accent}">${escapeMarkup(label)}</span> <span foreground="${COLORS.text}">${escapeMarkup(value)}</span>`;
+
+function background() {
+  const { width, height } = SHARE_IMAGE_SIZE;
+  return Buffer.from(`
+    <svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+      <defs>
+        <linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">
+          <stop offset="0" stop-color="#064e3b"/>
+          <stop offset="1" stop-color="#047857"/>
+        </linearGradient>
+      </defs>
+      <rect width="${width}" height="${height}" fill="url(#bg)"/>
+      <circle cx="${width - 80}" cy="60" r="240" fill="#34d399" fill-opacity="0.12"/>
+      <circle cx="80" cy="${height}" r="180" fill="#34d399" fill-opacity="0.08"/>
+      <rect y="${height - FOOTER_HEIGHT}" width="${width}" height="${FOOTER_HEIGHT}" fill="#022c22" fill-opacity="0.55"/>
+    </svg>
+  `);
+}
+
+// The uploaded poster's thumbnail cropped square with rounded corners.
+// Images linked from other sites are not fetched.
+async function posterLayer(imageUrl?: string | null) {
+  if (!isUploadedImage(imageUrl)) return null;
+  const mask = Buffer.from(`<svg width="${POSTER_SIZE}" height="${POSTER_SIZE}"><rect width="${POSTER_SIZE}" height="${POSTER_SIZE}" rx="32"/></svg>`);
+  try {
+    return await sharp(path.join(UPLOAD_DIR, path.basename(thumbnailUrl(imageUrl!))))
+      .resize(POSTER_SIZE, POSTER_SIZE, { fit: 'cover', position: 'attention' })
+      .composite([{ input: mask, blend: 'dest-in' }])
+      .png()
+      .toBuffer();
+  } catch (error) {
+    console.error("Share image poster unavailable:", error);
+    return null;
+  }
+}
+
+export async function renderShareImage(event: StoredEvent, appUrl: string) {
+  const { width, height } = SHARE_IMAGE_SIZE;
+  const details = eventShareDetails(event);
+  const poster = await posterLayer(event.image_url);
+  const textWidth = width - PADDING * 2 - (poster ? POSTER_SIZE + 48 : 0);
+
+  const blocks = await Promise.all([
+    textLayer(`<span foreground="${COLORS.text}">${escapeMarkup(truncate(event.name, MAX_NAME_LENGTH))}</span>`, { size: event.name.length > LONG_NAME_LENGTH ? 44 : 60, bold: true, width: textWidth }),
+    details.date ? textLayer(labelled('তারিখ:', details.date), { size: 34, width: textWidth }) : null,
+    details.place ? textLayer(labelled('স্থান:', details.place), { size: 34, width: textWidth }) : null,
+    details.iftar ? textLayer(labelled('ইফতার:', details.iftar), { size: 34, width: textWidth }) : null,
+  ]);
+
+  // The text is centred above the footer; lines that would run into the
+  // footer are left out.
+  const footerTop = height - FOOTER_HEIGHT;
+  const lines: { input: Buffer; offset: number }[] = [];
+  let textHeight = 0;
+  blocks.forEach((block, i) => {
+    if (!block || PADDING + textHeight + block.height > footerTop - PADDING / 2) return;
+    lines.push({ input: block.input, offset: textHeight });
+    textHeight += block.height + (i === 0 ? 32 : 16);
+  });
+  const textTop = Math.max(PADDING / 2, Math.round((footerTop - textHeight) / 2));
+  const layers: OverlayOptions[] = lines.map(line => ({ input: line.input, left: PADDING, top: textTop + line.offset }));
+  if (poster) {
+    layers.push({ input: poster, left: width - PADDING - POSTER_SIZE, top: Math.round((height - FOOTER_HEIGHT - POSTER_SIZE) / 2) });
+  }
+
+  const [brand, site] = await Promise.all([
+    textLayer(`<span foreground="${COLORS.text}">ইফতার সন্ধানে</span>`, { size: 30, bold: true, width: 400 }),
+    textLayer(`<span foreground="${COLORS.muted}">${escapeMarkup(new URL(appUrl).host)}</span>`, { size: 24, width: 500 }),
+  ]);
+  layers.push(
+    { input: brand.input, left: PADDING, top: footerTop + Math.round((FOOTER_HEIGHT - brand.height) / 2) },
+    { input: site.input, left: width - PADDING - site.width, top: footerTop + Math.round((FOOTER_HEIGHT - site.height) / 2) },
+  );
+
+  return sharp(background()).composite(layers).png().toBuffer();
+}
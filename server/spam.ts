@@ -0,0 +1,210 @@
+import type { Request, Response, NextFunction } from "express";
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { db } from "./db";
+import { getSessionAdmin } from "./auth";
+import { isGoogleConnected, SESSION_SECRET } from "./googleAuth";
+import type { EventInput } from "./repository";
+
+// Protection of the public write routes: rate limits, the add form's honeypot
+// and timing checks, and content heuristics for phone and link spam. Every
+// blocked attempt is logged for admins, along with failed admin logins.
+export type BlockReason = 'rate_limit' | 'honeypot' | 'too_fast' | 'form_token' | 'phone_spam' | 'link_spam' | 'login_failed';
+
+const MINUTE_MS = 60_000;
+
+// Every request counts against its IP address. Requests from signed-in
+// sessions (moderators, Drive users) also count against the session, which
+// may use perSession requests, and the address then allows that many too, so
+// people signing in from a shared network are not held to perIp. Starting a
+// new session does not reset the address's count.
+export const RATE_LIMITS = {
+  submit_event: { windowMs: 60 * MINUTE_MS, perIp: 10, perSession: 60 },
+  delete_event: { windowMs: 10 * MINUTE_MS, perIp: 30, perSession: 30 },
+  drive_save: { windowMs: 10 * MINUTE_MS, perIp: 30, perSession: 30 },
+  // Organizer edits and cancellations through the management link
+  edit_event: { windowMs: 60 * MINUTE_MS, perIp: 30, perSession: 60 },
+  // Each upload is resized and stored whether or not an event uses it
+  upload_image: { windowMs: 60 * MINUTE_MS, perIp: 20, perSession: 100 },
+  // Both read every file in the user's Drive; restore queues what it finds
+  drive_sync: { windowMs: 60 * MINUTE_MS, perIp: 10, perSession: 10 },
+  drive_restore: { windowMs: 60 * MINUTE_MS, perIp: 5, perSession: 5 },
+  // The import page sends a dry run for every change to the column mapping
+  import_events: { windowMs: 60 * MINUTE_MS, perIp: 30, perSession: 100 },
+  // Password guessing against admin accounts
+  admin_login: { windowMs: 15 * MINUTE_MS, perIp: 10, perSession: 10 },
+};
+type RateLimitName = keyof typeof RATE_LIMITS;
+
+const MAX_DETAIL_LENGTH = 500;
+
+// detail is whatever helps an admin tell spam from a false positive, such
+// as the submitted event's name
+export function logBlockedAttempt(req: Request, reason: BlockReason, detail?: string | null) {
+  console.warn(`Blocked ${req.method} ${req.path} from ${req.ip}: ${reason}`);
+  db.prepare(`
+    INSERT INTO blocked_attempts (route, reason, ip, admin_id, detail, created_at) VALUES (?, ?, ?, ?, ?, ?)
+  `).run(req.path, reason, req.ip ?? null, req.session?.adminId ?? null, detail?.slice(0, MAX_DETAIL_LENGTH) ?? null, new Date().toISOString());
+}
+
+const sessionKey = (req: Request) =>
+  req.session?.adminId || isGoogleConnected(req) ? req.sessionID : null;
+
+interface Bucket {
+  count: number;
+  resetAt: number;
+}
+
+// Fixed-window counters, kept in memory: they only need to outlast a burst,
+// not a restart
+const buckets = new Map<string, Bucket>();
+let nextSweep = 0;
+
+function sweepBuckets(now: number) {
+  if (now < nextSweep) return;
+  for (const [key, bucket] of buckets) {
+    if (bucket.resetAt <= now) buckets.delete(key);
+  }
+  nextSweep = now + MINUTE_MS;
+}
+
+function countRequest(key: string, windowMs: number, now: number) {
+  let bucket = buckets.get(key);
+  if (!bucket || bucket.resetAt <= now) {
+    bucket = { count: 0, resetAt: now + windowMs };
+    buckets.set(key, bucket);
+  }
+  bucket.count++;
+  return bucket;
+}
+
+export function rateLimit(name: RateLimitName) {
+  const { windowMs, perIp, perSession } = RATE_LIMITS[name];
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    sweepBuckets(now);
+    const session = sessionKey(req);
+    const limits: [Bucket, number][] = [
+      [countRequest(`${name}:ip:${req.ip}`, windowMs, now), session ? Math.max(perIp, perSession) : perIp],
+    ];
+    if (session) limits.push([countRequest(`${name}:session:${session}`, windowMs, now), perSession]);
+
+    const exceeded = limits.find(([bucket, max]) => bucket.count > max);
+    if (!exceeded) return next();
+    const [bucket, max] = exceeded;
+
+    // One log entry per window is enough to see who is flooding a route
+    if (bucket.count === max + 1) logBlockedAttempt(req, 'rate_limit', `${max} requests per ${windowMs / MINUTE_MS} minutes`);
+    res.set('Retry-After', String(Math.ceil((bucket.resetAt - now) / 1000)));
+    res.status(429).json({ error: "Too many requests", blocked: 'rate_limit' });
+  };
+}
+
+// The add form carries a hidden field people never see, and a token stamped
+// with the time the form was opened. Bots tend to fill in every field and to
+// submit within moments of loading the page. Each token adds one event: its
+// nonce is recorded when the event is created, see claimFormToken().
+export const HONEYPOT_FIELD = 'website';
+const MIN_FILL_MS = 3000;
+const MAX_FORM_AGE_MS = 24 * 60 * MINUTE_MS;
+
+const signForm = (issuedAt: string, nonce: string) =>
+  createHmac('sha256', SESSION_SECRET).update(`form:${issuedAt}.${nonce}`).digest();
+
+export function issueFormToken() {
+  const issuedAt = String(Date.now());
+  const nonce = randomBytes(16).toString('base64url');
+  return `${issuedAt}.${nonce}.${signForm(issuedAt, nonce).toString('base64url')}`;
+}
+
+function parseFormToken(token: unknown) {
+  if (typeof token !== 'string') return null;
+  const [issuedAt, nonce = '', signature = ''] = token.split('.');
+  const expected = signForm(issuedAt, nonce);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+  return { issuedAt: Number(issuedAt), nonce };
+}
+
+const isUsedNonce = (nonce: string) => !!db.prepare("SELECT 1 FROM used_form_tokens WHERE nonce = ?").get(nonce);
+
+function checkFormToken(token: unknown): BlockReason | null {
+  const form = parseFormToken(token);
+  if (!form || isUsedNonce(form.nonce)) return 'form_token';
+  const age = Date.now() - form.issuedAt;
+  if (age > MAX_FORM_AGE_MS) return 'form_token';
+  return age < MIN_FILL_MS ? 'too_fast' : null;
+}
+
+// Spends the submission's form token just before its event is created, so
+// a submission sent back for errors or a duplicate check can be sent again.
+// Returns false when the token was already spent. Moderators need no token.
+export function claimFormToken(req: Request) {
+  if (getSessionAdmin(req)) return true;
+  const form = parseFormToken(req.body?.form_token);
+  if (!form) return false;
+  const now = Date.now();
+  // Expired tokens are turned away by their age, so their nonces can go
+  db.prepare("DELETE FROM used_form_tokens WHERE expires_at < ?").run(now);
+  return db.prepare("INSERT OR IGNORE INTO used_form_tokens (nonce, expires_at) VALUES (?, ?)")
+    .run(form.nonce, form.issuedAt + MAX_FORM_AGE_MS).changes > 0;
+}
+
+const BANGLA_DIGITS = /[০-৯]/g;
+const toAsciiDigits = (text: string) => text.replace(BANGLA_DIGITS, d => String(d.charCodeAt(0) - 0x09E6));
+
+// Bangladeshi mobile numbers, with or without the country code, once spaces
+// and dashes are taken out
+const PHONE_PATTERN = /(?:\+?88)?01[3-9]\d{8}/g;
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+/gi;
+const links = (text: string) => text.match(LINK_PATTERN) ?? [];
+
+// The contact field is where a phone number belongs; more than this many
+// different numbers across the event is a list of adverts.
+const MAX_PHONE_NUMBERS = 2;
+// link_url is the event's own link; more than this many links elsewhere is
+// link spam.
+const MAX_LINKS = 1;
+
+function phoneNumbers(text: string) {
+  const compact = toAsciiDigits(text).replace(/[\s\-().]/g, '');
+  return (compact.match(PHONE_PATTERN) ?? []).map(number => number.slice(-11));
+}
+
+export function contentSpamReason(input: EventInput): BlockReason | null {
+  // Checked before validation, so the fields may not be strings yet
+  const [name, ...rest] = [input.name, input.address, input.village, input.contact, input.description]
+    .map(value => typeof value === 'string' ? value : '');
+  const fields = [name, ...rest];
+
+  if (phoneNumbers(name).length) return 'phone_spam';
+  if (new Set(fields.flatMap(phoneNumbers)).size > MAX_PHONE_NUMBERS) return 'phone_spam';
+
+  if (links(name).length) return 'link_spam';
+  return fields.flatMap(links).length > MAX_LINKS ? 'link_spam' : null;
+}
+
+// The checks a public submission goes through before it is validated.
+// Moderators are trusted not to spam and skip them.
+export function submissionBlockReason(req: Request, input: EventInput): BlockReason | null {
+  if (getSessionAdmin(req)) return null;
+  const honeypot = req.body?.[HONEYPOT_FIELD];
+  if (typeof honeypot === 'string' && honeypot.trim()) return 'honeypot';
+  return checkFormToken(req.body?.form_token) ?? contentSpamReason(input);
+}
+
+// Organizer edits go through the content checks only: the form was already
+// stamped when the event was submitted.
+export function editBlockReason(req: Request, event: EventInput): BlockReason | null {
+  return getSessionAdmin(req) ? null : contentSpamReason(event);
+}
+
+const MAX_LISTED_ATTEMPTS = 500;
+
+export function listBlockedAttempts(reason?: string | null) {
+  return db.prepare(`
+    SELECT b.id, b.route, b.reason, b.ip, u.username AS admin_username, b.detail, b.created_at
+    FROM blocked_attempts b LEFT JOIN admin_users u ON u.id = b.admin_id
+    WHERE (@reason IS NULL OR b.reason = @reason)
+    ORDER BY b.id DESC LIMIT ${MAX_LISTED_ATTEMPTS}
+  `).all({ reason: reason ?? null });
+}
@@ -0,0 +1,12 @@
+import { completeEventGeo } from "../src/lib/geo";
+import { withStructuredDate } from "../src/lib/hijri";
+import { todayInBangladesh, withIftarTime } from "../src/lib/prayerTimes";
+import type { EventInput } from "./repository";
+
+// What the server works out for a new event before it is stored: geography
+// codes from names (or names from codes), the calendar date from a free-text
+// one, and the iftar time from the place and date. Shared by POST /api/events
+// and spreadsheet imports so both store events the same way.
+export async function completeSubmission(input: EventInput): Promise<EventInput> {
+  return withIftarTime(withStructuredDate(await completeEventGeo(input), todayInBangladesh()));
+}
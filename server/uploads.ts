@@ -0,0 +1,78 @@
+import express, { NextFunction, Request, Response } from "express";
+import multer from "multer";
+import sharp from "sharp";
+import path from "path";
+import { mkdir, writeFile } from "fs/promises";
+import { randomUUID } from "crypto";
+import { IMAGE_TYPES, MAX_IMAGE_MB, thumbnailUrl, UPLOADS_PATH } from "../src/lib/images";
+
+// Posters and venue photos are kept on local disk next to the database.
+export const UPLOAD_DIR = path.resolve(process.env.UPLOAD_DIR || "uploads");
+
+const MAX_UPLOAD_BYTES = Math.round(Number(process.env.MAX_UPLOAD_MB || MAX_IMAGE_MB) * 1024 * 1024);
+// What sharp reports for IMAGE_TYPES once the file itself is read
+const ACCEPTED_FORMATS = ['jpeg', 'png', 'webp', 'gif'];
+
+// Long edge of the full-size variant, and the card-shaped thumbnail
+const FULL_SIZE_PX = 1600;
+const THUMBNAIL_SIZE = { width: 640, height: 360 };
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+  fileFilter: (req, file, callback) => callback(null, IMAGE_TYPES.includes(file.mimetype)),
+});
+
+class UnsupportedImageError extends Error {}
+
+// Re-encodes an upload as WebP in two sizes. Re-encoding also strips EXIF
+// data such as the GPS position of the phone that took the photo.
+async function saveEventImage(buffer: Buffer) {
+  const metadata = await sharp(buffer).metadata().catch(() => null);
+  if (!metadata?.format || !ACCEPTED_FORMATS.includes(metadata.format)) {
+    throw new UnsupportedImageError();
+  }
+
+  await mkdir(UPLOAD_DIR, { recursive: true });
+  const url = `${UPLOADS_PATH}/${randomUUID()}-full.webp`;
+  const image = sharp(buffer).rotate();
+  const [full, thumbnail] = await Promise.all([
+    image.clone().resize(FULL_SIZE_PX, FULL_SIZE_PX, { fit: 'inside', withoutEnlargement: true }).webp({ quality: 82 }).toBuffer(),
+    image.clone().resize(THUMBNAIL_SIZE.width, THUMBNAIL_SIZE.height, { fit: 'cover', position: 'attention' }).webp({ quality: 75 }).toBuffer(),
+  ]);
+  await Promise.all([
+    writeFile(path.join(UPLOAD_DIR, path.basename(url)), full),
+    writeFile(path.join(UPLOAD_DIR, path.basename(thumbnailUrl(url))), thumbnail),
+  ]);
+  return { url, thumbnail_url: thumbnailUrl(url) };
+}
+
+export function createUploadRouter() {
+  const router = express.Router();
+
+  // multipart/form-data with the file in an "image" field
+  router.post("/", (req: Request, res: Response, next: NextFunction) => {
+    upload.single("image")(req, res, (err: unknown) => {
+      if (err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({ error: `Images must be smaller than ${Math.round(MAX_UPLOAD_BYTES / 1024 / 102.4) / 10} MB` });
+      }
+      if (err) return next(err);
+      next();
+    });
+  }, async (req, res) => {
+    if (!req.file) {
+      return res.status(400).json({ error: "Attach a JPEG, PNG, WebP or GIF image as \"image\"" });
+    }
+    try {
+      res.json(await saveEventImage(req.file.buffer));
+    } catch (error) {
+      if (error instanceof UnsupportedImageError) {
+        return res.status(400).json({ error: "The file is not a JPEG, PNG, WebP or GIF image" });
+      }
+      console.error("Image upload failed:", error);
+      res.status(500).json({ error: "Image upload failed" });
+    }
+  });
+
+  return router;
+}
@@ -1,62 +1,161 @@
-import React, { useState, useEffect } from 'react';
-import { Search, MapPin, Clock, Phone, Plus, X, Filter, Calendar, Info, Utensils, BookOpen, Map as MapIcon, List, Navigation, ExternalLink, Share2, Copy, Check } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Search, MapPin, Clock, Phone, Plus, X, Filter, Calendar, Info, Utensils, Map as MapIcon, List, Navigation, ExternalLink, Share2, Copy, Check, Lock, LogOut, Pencil, Sunrise, Sunset, Repeat, Merge, AlertTriangle, ImagePlus, CalendarPlus, Download, RefreshCw, ArchiveRestore, Unlink, KeyRound } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
-import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
-import 'leaflet/dist/leaflet.css';
-import L from 'leaflet';
+import { Link, useLocation, useMatch, useNavigate, useSearchParams } from 'react-router-dom';
 import { db } from './firebase';
-import { collection, addDoc, query, getDocs, where, orderBy, onSnapshot, doc, deleteDoc } from 'firebase/firestore';
+import { collection, query, getDocs, where, limit, startAfter, type QueryConstraint, type QueryDocumentSnapshot } from 'firebase/firestore';
 import { supabase } from './supabase';
-
-// Fix for default marker icons in Leaflet
-const DefaultIcon = L.icon({
-  iconUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png',
-  shadowUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png',
-  iconSize: [25, 41],
-  iconAnchor: [12, 41]
-});
-
-L.Marker.prototype.options.icon = DefaultIcon;
-
-interface Event {
-  id: string | number;
-  name: string;
-  type: string;
-  district: string;
-  upazila: string;
-  village: string;
-  address: string;
-  date_range: string;
-  start_time: string;
-  iftar_time: string;
-  contact: string;
-  description: string;
-  image_url: string;
-  lat?: number;
-  lng?: number;
-  link_url?: string;
-  event_date?: string;
-  event_day?: string;
-  target_date?: string;
-  created_at?: string;
+import { canModerateEvent, type AdminUser, type DuplicateMatch, type Event } from './types';
+import AdminLoginModal from './components/AdminLoginModal';
+import MergeEventsModal from './components/MergeEventsModal';
+import EventDetailPage from './components/EventDetailPage';
+import ImportPage from './components/ImportPage';
+import ManagePage from './components/ManagePage';
+import ModerationPage from './components/ModerationPage';
+import ManageLinkModal from './components/ManageLinkModal';
+import EventMap from './components/EventMap';
+import { EVENT_TYPES, getEventType } from './eventTypes';
+import { DIVISIONS, DISTRICTS, boundingBox, getDistricts, getUpazilas, haversineKm, resolveGeoCodes } from './lib/geo';
+import { useUnions } from './hooks/useUnions';
+import { toBanglaDigits, formatClockBn, formatDistanceBn } from './lib/bangla';
+import { eventPrayerTimes, todayInBangladesh } from './lib/prayerTimes';
+import { RAMADAN, WEEKDAYS_BN, describeEventDate, eventTargetDate, formatHijriBn, ramadanDate, toHijri, weekdayBn } from './lib/hijri';
+import { matchesSearch } from './lib/search';
+import { hasErrors, isEmail, validateEvent, type EventErrors } from './lib/eventSchema';
+import { IMAGE_TYPES, MAX_IMAGE_MB, thumbnailUrl } from './lib/images';
+import { countdownBn, eventNextDate, formatScheduleBn, occursBetween, parseDateList, parseWeekdays } from './lib/schedule';
+import { eventPath, filtersFromUrl, filtersUrl, type EventFilters, type EventSort } from './lib/routes';
+
+const EMPTY_FORM = {
+  name: "",
+  type: "public_iftar",
+  division_code: "",
+  district_code: "",
+  district: "",
+  upazila_code: "",
+  upazila: "",
+  union_code: "",
+  union_name: "",
+  village: "",
+  address: "",
+  date_range: "",
+  start_time: "",
+  iftar_time: "",
+  contact: "",
+  description: "",
+  image_url: "",
+  lat: undefined as number | undefined,
+  lng: undefined as number | undefined,
+  link_url: "",
+  event_date: "",
+  event_day: "",
+  target_date: "",
+  end_date: "",
+  recurrence: "" as Event['recurrence'] | "",
+  recurrence_weekdays: "",
+  exception_dates: ""
+};
+
+// Events are loaded a page at a time as the list scrolls
+const PAGE_SIZE = 20;
+
+// Where the next page starts, in whichever source served the first one
+type NextPage =
+  | { source: 'server'; cursor: string }
+  | { source: 'supabase'; offset: number }
+  | { source: 'firebase'; after: QueryDocumentSnapshot };
+
+type EventPage = { events: Event[]; next: NextPage | null };
+
+// Downloads an event image for the share sheet, or null if it cannot be read
+async function imageFile(url: string) {
+  try {
+    const res = await fetch(url);
+    if (!res.ok) return null;
+    const blob = await res.blob();
+    return new File([blob], `poster.${blob.type.split('/')[1] || 'jpg'}`, { type: blob.type });
+  } catch {
+    return null;
+  }
 }
 
-const DISTRICTS = ["ঢাকা", "চট্টগ্রাম", "রাজশাহী", "খুলনা", "বরিশাল", "সিলেট", "রংপুর", "ময়মনসিংহ", "বগুড়া", "কুমিল্লা"];
-const EVENT_TYPES = [
-  { id: "public_iftar", label: "গণ-ইফতার", icon: Utensils, color: "text-blue-600", bg: "bg-blue-50" },
-  { id: "religious_gathering", label: "ওয়াজ/দ্বীনি মজলিস", icon: BookOpen, color: "text-emerald-600", bg: "bg-emerald-50" }
-];
+// The organizer's email is checked with the event but not stored on it
+type FormErrors = EventErrors & { organizer_email?: string };
+
+const FieldError = ({ message }: { message?: string }) =>
+  message ? <p className="text-xs text-red-600">{message}</p> : null;
+
+// Why the server turned a submission away, see server/spam.ts
+const BLOCKED_MESSAGES: Record<string, string> = {
+  rate_limit: "অল্প সময়ে অনেকবার চেষ্টা করা হয়েছে। কিছুক্ষণ পর আবার চেষ্টা করুন।",
+  too_fast: "ফর্মটি খুব দ্রুত জমা পড়েছে। তথ্যগুলো আরেকবার দেখে আবার জমা দিন।",
+  form_token: "ফর্মের মেয়াদ শেষ হয়েছে। আবার জমা দিন।",
+  phone_spam: "ইভেন্টের নামে ফোন নম্বর বা একাধিক ফোন নম্বর দেওয়া যাবে না। যোগাযোগের ঘরে একটি নম্বর দিন।",
+  link_spam: "ইভেন্টের নামে লিংক বা বিবরণে একাধিক লিংক দেওয়া যাবে না। ইভেন্টের লিংক আলাদা ঘরে দিন।",
+  honeypot: "ইভেন্টটি জমা দেওয়া যায়নি।",
+};
+
+// Pages with a path of their own; / and /district/:district are the event list
+const PAGE_PATHS = {
+  '/about': 'about',
+  '/products': 'products',
+  '/services': 'services',
+  '/contact': 'contact',
+  '/import': 'import',
+  '/moderation': 'moderation',
+} as const;
+
+type Page = 'iftar' | 'event' | 'manage' | 'not_found' | typeof PAGE_PATHS[keyof typeof PAGE_PATHS];
 
 export default function App() {
-  const [currentPage, setCurrentPage] = useState<'iftar' | 'about' | 'products' | 'services' | 'contact'>('iftar');
+  const location = useLocation();
+  const navigate = useNavigate();
+  const districtMatch = useMatch('/district/:district');
+  const eventMatch = useMatch('/event/:id');
+  const manageMatch = useMatch('/manage/:id');
+  const currentPage: Page = location.pathname === '/' || districtMatch ? 'iftar'
+    : eventMatch ? 'event'
+    : manageMatch ? 'manage'
+    : PAGE_PATHS[location.pathname as keyof typeof PAGE_PATHS] ?? 'not_found';
   const [events, setEvents] = useState<Event[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddForm, setShowAddForm] = useState(false);
+  const [editingEvent, setEditingEvent] = useState<Event | null>(null);
+  // Set while the organizer edits through their management link
+  const [editToken, setEditToken] = useState<string | null>(null);
+  const [savedEdits, setSavedEdits] = useState(0);
+  // The management link of a newly added event, shown once to the submitter
+  const [manageLink, setManageLink] = useState<{ url: string; emailed: boolean; isNew: boolean; pending: boolean } | null>(null);
+  const [organizerEmail, setOrganizerEmail] = useState('');
   const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [isGoogleConnected, setIsGoogleConnected] = useState(false);
   const [isSavingToDrive, setIsSavingToDrive] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [adminUser, setAdminUser] = useState<AdminUser | null>(null);
+  const [showAdminLogin, setShowAdminLogin] = useState(false);
+
+  useEffect(() => {
+    const checkAdminSession = async () => {
+      try {
+        const res = await fetch('/api/admin/me');
+        const data = await res.json();
+        setAdminUser(data.user);
+      } catch (e) {
+        console.error("Failed to check admin session", e);
+      }
+    };
+    checkAdminSession();
+  }, []);
+
+  const logoutAdmin = async () => {
+    try {
+      await fetch('/api/admin/logout', { method: 'POST' });
+    } catch (e) {
+      console.error("Failed to log out", e);
+    }
+    setAdminUser(null);
+  };
 
   useEffect(() => {
     const checkGoogleStatus = async () => {
@@ -70,8 +169,9 @@ export default function App() {
     };
     checkGoogleStatus();
 
+    // Only the sign-in popup, served from this app, may report success
     const handleMessage = (event: MessageEvent) => {
-      if (event.data?.type === 'GOOGLE_AUTH_SUCCESS') {
+      if (event.origin === window.location.origin && event.data?.type === 'GOOGLE_AUTH_SUCCESS') {
         setIsGoogleConnected(true);
       }
     };
@@ -89,6 +189,17 @@ export default function App() {
     }
   };
 
+  const disconnectGoogle = async () => {
+    if (!window.confirm("গুগল ড্রাইভ কানেকশন বিচ্ছিন্ন করতে চান?")) return;
+    try {
+      const res = await fetch('/api/auth/google/disconnect', { method: 'POST', headers: { 'X-Requested-With': 'fetch' } });
+      if (!res.ok) throw new Error(`Server responded with ${res.status}`);
+      setIsGoogleConnected(false);
+    } catch (e) {
+      console.error("Failed to disconnect Google", e);
+    }
+  };
+
   const saveToDrive = async (event: Event) => {
     if (!isGoogleConnected) {
       alert("আগে গুগল ড্রাইভ কানেক্ট করুন।");
@@ -100,10 +211,12 @@ export default function App() {
       const res = await fetch('/api/drive/save', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ eventData: event })
+        body: JSON.stringify({ id: event.id })
       });
       
-      if (res.ok) {
+      if (res.status === 429) {
+        alert(BLOCKED_MESSAGES.rate_limit);
+      } else if (res.ok) {
         alert("গুগল ড্রাইভে সফলভাবে সেভ হয়েছে!");
       } else {
         const error = await res.json();
@@ -122,46 +235,89 @@ export default function App() {
     }
   };
 
-  const deleteEvent = async (id: string | number) => {
-    const password = window.prompt("ইভেন্ট ডিলিট করতে পাসওয়ার্ড দিন:");
-    
-    if (password !== "0179215718") {
-      alert("ভুল পাসওয়ার্ড! ডিলিট করা সম্ভব নয়।");
-      return;
+  // Runs a Drive-wide action and reports its result in Bangla
+  const driveAction = async (action: 'sync' | 'restore') => {
+    setIsSavingToDrive(action);
+    try {
+      const res = await fetch(`/api/drive/${action}`, { method: 'POST' });
+      if (res.status === 429) {
+        alert(BLOCKED_MESSAGES.rate_limit);
+        return;
+      }
+      if (res.status === 401) {
+        setIsGoogleConnected(false);
+        alert("গুগল ড্রাইভ কানেকশন বিচ্ছিন্ন হয়েছে। আবার কানেক্ট করুন।");
+        return;
+      }
+      if (!res.ok) throw new Error(`Server responded with ${res.status}`);
+      const report = await res.json();
+      if (action === 'sync') {
+        alert(`ড্রাইভ সিঙ্ক হয়েছে: ${toBanglaDigits(report.updated)} টি হালনাগাদ, ${toBanglaDigits(report.trashed)} টি ট্র্যাশে সরানো হয়েছে।`);
+      } else {
+        alert(`ড্রাইভ থেকে ${toBanglaDigits(report.restored.length)} টি ইভেন্ট ফিরিয়ে আনা হয়েছে।${report.skipped.length ? ` ${toBanglaDigits(report.skipped.length)} টি বাদ পড়েছে।` : ''}`);
+        if (report.restored.length) fetchEvents();
+      }
+    } catch (e) {
+      console.error(`Drive ${action} failed`, e);
+      alert("ড্রাইভের সাথে কাজ করতে সমস্যা হয়েছে।");
+    } finally {
+      setIsSavingToDrive(null);
     }
+  };
 
+  const deleteEvent = async (id: string | number) => {
     if (!window.confirm("আপনি কি নিশ্চিত যে আপনি এই ইভেন্টটি ডিলিট করতে চান?")) return;
 
     try {
-      // 1. Delete from Supabase
-      const { error: supabaseError } = await supabase
-        .from('events')
-        .delete()
-        .eq('id', id);
-      
-      if (supabaseError) throw supabaseError;
-
-      // 2. Delete from Firebase
-      if (typeof id === 'string') {
-        try {
-          const eventRef = doc(db, 'events', id);
-          await deleteDoc(eventRef);
-        } catch (firebaseError) {
-          console.warn("Firebase delete failed", firebaseError);
-        }
-      }
-
-      // 3. Delete from SQLite (Optional)
-      await fetch('/api/events/delete', {
+      // The server verifies the admin session and deletes from every store
+      const res = await fetch('/api/events/delete', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ id })
       });
 
+      if (res.status === 401) {
+        setAdminUser(null);
+        alert("সেশন শেষ হয়েছে। আবার লগইন করুন।");
+        return;
+      }
+      if (res.status === 403) {
+        alert("এই ইভেন্টটি ডিলিট করার অনুমতি আপনার নেই।");
+        return;
+      }
+      if (res.status === 429) {
+        alert(BLOCKED_MESSAGES.rate_limit);
+        return;
+      }
+      if (!res.ok) throw new Error("Delete failed");
+
       fetchEvents();
     } catch (e) {
       console.error("Failed to delete event", e);
-      alert("ডিলিট করতে সমস্যা হয়েছে।");
+      alert("ডিলিট করতে সমস্যা হয়েছে।");
+    }
+  };
+
+  // A new management link for an organizer who lost theirs
+  const issueManageLink = async (event: Event) => {
+    const email = window.prompt("নতুন লিংক তৈরি হলে আগের লিংকটি আর কাজ করবে না। আয়োজকের ইমেইল (ঐচ্ছিক):", "");
+    if (email === null) return;
+    try {
+      const res = await fetch(`/api/events/${event.id}/manage-link`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email })
+      });
+      if (res.status === 400) {
+        alert("সঠিক ইমেইল ঠিকানা দিন।");
+        return;
+      }
+      if (!res.ok) throw new Error(`Server responded with ${res.status}`);
+      const { manage_url, emailed } = await res.json();
+      setManageLink({ url: manage_url, emailed, isNew: false, pending: false });
+    } catch (e) {
+      console.error("Failed to issue management link", e);
+      alert("লিংক তৈরি করতে সমস্যা হয়েছে।");
     }
   };
 
@@ -169,12 +325,15 @@ export default function App() {
     const shareData = {
       title: event.name,
       text: `${event.name}\nতারিখ: ${event.event_date || event.date_range}\nস্থান: ${event.address}, ${event.village}\nযোগাযোগ: ${event.contact}\n\nবিস্তারিত দেখুন ইফতার সন্ধানে অ্যাপে।`,
-      url: window.location.href
+      url: `${window.location.origin}${eventPath(event.id)}`
     };
 
     if (navigator.share) {
       try {
-        await navigator.share(shareData);
+        // Attach the poster where the platform can share files with the text
+        const poster = event.image_url ? await imageFile(event.image_url) : null;
+        const withPoster = poster ? { ...shareData, files: [poster] } : null;
+        await navigator.share(withPoster && navigator.canShare?.(withPoster) ? withPoster : shareData);
       } catch (err) {
         console.error('Error sharing:', err);
       }
@@ -187,35 +346,159 @@ export default function App() {
     }
   };
   
-  // Search filters
-  const [filters, setFilters] = useState({
-    district: "",
-    upazila: "",
-    village: "",
-    type: ""
-  });
+  // Search filters live in the URL so a search can be bookmarked and shared
+  const [searchParams] = useSearchParams();
+  const districtParam = districtMatch?.params.district;
+  const filters = useMemo(() => filtersFromUrl(districtParam, searchParams), [districtParam, searchParams.toString()]);
+  const setFilters = (next: EventFilters) => navigate(filtersUrl(next));
+  // The free-text boxes only search when submitted
+  const [searchText, setSearchText] = useState(filters.q);
+  const [villageText, setVillageText] = useState(filters.village);
+  // Going back or forward to another search shows its text in the boxes
+  useEffect(() => {
+    setSearchText(filters.q);
+    setVillageText(filters.village);
+  }, [filters.q, filters.village]);
+  const filterUnions = useUnions(filters.upazila_code);
+  // "Near me" search: the visitor's location and a radius in kilometres
+  const [nearMe, setNearMe] = useState<{ lat: number; lng: number; radius: number } | null>(null);
+  const [nextPage, setNextPage] = useState<NextPage | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Bumped on every new search so pages of an older one are dropped
+  const searchGeneration = useRef(0);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
   // Form state
-  const [formData, setFormData] = useState({
-    name: "",
-    type: "public_iftar",
-    district: "",
-    upazila: "",
-    village: "",
-    address: "",
-    date_range: "",
-    start_time: "",
-    iftar_time: "",
-    contact: "",
-    description: "",
-    image_url: "",
-    lat: undefined as number | undefined,
-    lng: undefined as number | undefined,
-    link_url: "",
-    event_date: "",
-    event_day: "",
-    target_date: ""
-  });
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [formErrors, setFormErrors] = useState<FormErrors>({});
+  // Existing events the server thinks the submission duplicates
+  const [duplicateMatches, setDuplicateMatches] = useState<DuplicateMatch[] | null>(null);
+  const [mergingEvent, setMergingEvent] = useState<Event | null>(null);
+  // Stamps the add form with the time it was opened, and a field hidden
+  // from people that bots fill in
+  const [formToken, setFormToken] = useState('');
+  const [honeypot, setHoneypot] = useState('');
+  const [isUploadingImage, setIsUploadingImage] = useState(false);
+  const formUnions = useUnions(formData.upazila_code);
+  // Set once the organizer types their own iftar time, so the calculated
+  // one stops overwriting it
+  const [iftarTimeEdited, setIftarTimeEdited] = useState(false);
+  const formTimes = eventPrayerTimes(formData);
+  const formHijri = formData.target_date ? toHijri(formData.target_date) : null;
+  const formRamadanDay = formHijri?.month === RAMADAN ? String(formHijri.day) : "";
+
+  // Picking a date fills in the Hijri date and weekday shown on the card
+  const setFormDate = (date: string) =>
+    setFormData({ ...formData, ...(date ? describeEventDate(date) : { target_date: "" }) });
+
+  useEffect(() => {
+    if (iftarTimeEdited) return;
+    setFormData(f => ({ ...f, iftar_time: eventPrayerTimes(f)?.iftar || "" }));
+  }, [formData.target_date, formData.lat, formData.lng, formData.district_code, formData.district, iftarTimeEdited]);
+
+  const fetchFormToken = async () => {
+    try {
+      const res = await fetch('/api/events/form-token');
+      if (res.ok) setFormToken((await res.json()).token);
+    } catch (e) {
+      console.error("Failed to fetch form token", e);
+    }
+  };
+
+  useEffect(() => {
+    if (showAddForm && !editingEvent) fetchFormToken();
+  }, [showAddForm, editingEvent]);
+
+  // Once errors are shown they are re-checked as the organizer fixes them
+  useEffect(() => {
+    if (hasErrors(formErrors)) setFormErrors(validateEvent(formData));
+  }, [formData]);
+
+  // Posters are uploaded as soon as they are picked; the form keeps the URL
+  const uploadImage = async (file: File) => {
+    const { image_url: _previous, ...otherErrors } = formErrors;
+    if (!IMAGE_TYPES.includes(file.type)) {
+      setFormErrors({ ...otherErrors, image_url: "শুধু JPG, PNG, WebP বা GIF ছবি দেওয়া যাবে" });
+      return;
+    }
+    if (file.size > MAX_IMAGE_MB * 1024 * 1024) {
+      setFormErrors({ ...otherErrors, image_url: `ছবির আকার ${toBanglaDigits(MAX_IMAGE_MB)} মেগাবাইটের কম হতে হবে` });
+      return;
+    }
+
+    setIsUploadingImage(true);
+    setFormErrors(otherErrors);
+    try {
+      const body = new FormData();
+      body.append('image', file);
+      const res = await fetch('/api/uploads', { method: 'POST', body });
+      if (res.status === 429) {
+        setFormErrors(errors => ({ ...errors, image_url: BLOCKED_MESSAGES.rate_limit }));
+        return;
+      }
+      if (!res.ok) throw new Error(`Server responded with ${res.status}`);
+      const { url } = await res.json();
+      setFormData(f => ({ ...f, image_url: url }));
+    } catch (error) {
+      console.error("Image upload failed", error);
+      setFormErrors(errors => ({ ...errors, image_url: "ছবি আপলোড করতে সমস্যা হয়েছে। আবার চেষ্টা করুন।" }));
+    } finally {
+      setIsUploadingImage(false);
+    }
+  };
+
+  // Reuses the add-event form as an edit form, pre-filled from the event.
+  // Organizers pass the edit token from their management link.
+  const openEditForm = (event: Event, token?: string) => {
+    const codes = event.district_code ? event : resolveGeoCodes(event);
+    setFormData({
+      name: event.name || "",
+      type: event.type || "public_iftar",
+      division_code: codes.division_code || "",
+      district_code: codes.district_code || "",
+      district: event.district || "",
+      upazila_code: codes.upazila_code || "",
+      upazila: event.upazila || "",
+      union_code: event.union_code || "",
+      union_name: event.union_name || "",
+      village: event.village || "",
+      address: event.address || "",
+      date_range: event.date_range || "",
+      start_time: event.start_time || "",
+      iftar_time: event.iftar_time || "",
+      contact: event.contact || "",
+      description: event.description || "",
+      image_url: event.image_url || "",
+      lat: event.lat ?? undefined,
+      lng: event.lng ?? undefined,
+      link_url: event.link_url || "",
+      event_date: event.event_date || "",
+      event_day: event.event_day || "",
+      target_date: event.target_date || "",
+      end_date: event.end_date || "",
+      recurrence: event.recurrence || "",
+      recurrence_weekdays: event.recurrence_weekdays || "",
+      exception_dates: event.exception_dates || ""
+    });
+    // A stored time that differs from the calculated one was set by hand
+    setIftarTimeEdited(!!event.iftar_time && event.iftar_time !== eventPrayerTimes(event)?.iftar);
+    setEditingEvent(event);
+    setEditToken(token ?? null);
+    setFormErrors({});
+    setShowAddForm(true);
+  };
+
+  const closeForm = () => {
+    setShowAddForm(false);
+    setFormErrors({});
+    setDuplicateMatches(null);
+    if (editingEvent) {
+      setEditingEvent(null);
+      setEditToken(null);
+      setFormData(EMPTY_FORM);
+      setIftarTimeEdited(false);
+    }
+  };
 
   const getCurrentLocation = () => {
     if (navigator.geolocation) {
@@ -232,117 +515,361 @@ export default function App() {
     }
   };
 
-  const fetchEvents = async () => {
-    setLoading(true);
-    try {
-      // Primary: Fetch from Supabase
-      let queryBuilder = supabase
-        .from('events')
-        .select('*')
-        .order('created_at', { ascending: false });
+  const findNearMe = () => {
+    if (!navigator.geolocation) {
+      alert("আপনার ব্রাউজার লোকেশন সমর্থন করে না।");
+      return;
+    }
+    navigator.geolocation.getCurrentPosition((position) => {
+      setNearMe({
+        lat: position.coords.latitude,
+        lng: position.coords.longitude,
+        radius: nearMe?.radius ?? 3
+      });
+    }, (error) => {
+      console.error("Error getting location", error);
+      alert("লোকেশন পাওয়া যায়নি। ব্রাউজারে লোকেশনের অনুমতি দিন।");
+    });
+  };
 
-      if (filters.district) queryBuilder = queryBuilder.eq('district', filters.district);
-      if (filters.type) queryBuilder = queryBuilder.eq('type', filters.type);
-      if (filters.upazila) queryBuilder = queryBuilder.ilike('upazila', `%${filters.upazila}%`);
-      if (filters.village) queryBuilder = queryBuilder.ilike('village', `%${filters.village}%`);
+  // Radius search over events read from a replica, mirroring the server's
+  const applyNearMe = (list: Event[]) => {
+    if (!nearMe) return list;
+    return list
+      .filter(e => e.lat != null && e.lng != null)
+      .map(e => ({ ...e, distance_km: haversineKm([nearMe.lat, nearMe.lng], [e.lat!, e.lng!]) }))
+      .filter(e => e.distance_km <= nearMe.radius)
+      .sort((a, b) => a.distance_km - b.distance_km);
+  };
 
-      const { data, error } = await queryBuilder;
+  const submitSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (searchText.trim() !== filters.q || villageText.trim() !== filters.village) {
+      setFilters({ ...filters, q: searchText.trim(), village: villageText.trim() });
+    } else {
+      fetchEvents();
+    }
+  };
 
-      if (error) throw error;
+  const matchesFilters = (event: Event) => {
+    // Events saved before geography codes existed are matched by their names
+    const codes = event.district_code ? event : resolveGeoCodes(event);
+    if (filters.district_code && codes.district_code !== filters.district_code) return false;
+    if (filters.upazila_code && codes.upazila_code !== filters.upazila_code) return false;
+    if (filters.union_code && event.union_code !== filters.union_code) return false;
+    if (filters.village && !(event.village || '').toLowerCase().includes(filters.village.toLowerCase())) return false;
+    if (filters.type && event.type !== filters.type) return false;
+    if (filters.q && !matchesSearch(event, filters.q)) return false;
+    if (filters.date) {
+      const targetDate = eventTargetDate(event, todayInBangladesh());
+      if (!targetDate || !occursBetween({ ...event, target_date: targetDate }, filters.date, filters.date)) return false;
+    }
+    return true;
+  };
 
-      if (data) {
-        setEvents(data as Event[]);
-      }
+  // The chosen order, unless it no longer applies; the server then picks
+  // nearest, relevance or newest from the other filters.
+  const activeSort = (filters.sort === 'nearest' && !nearMe) || (filters.sort === 'relevance' && !filters.q) ? '' : filters.sort;
+  const displayedSort: EventSort = activeSort || (nearMe ? 'nearest' : filters.q ? 'relevance' : 'newest');
+
+  // The list filters as GET /api/events parameters, shared with the export links
+  const listParams = () => {
+    const params = new URLSearchParams();
+    if (filters.district_code) params.set('district', filters.district_code);
+    if (filters.upazila_code) params.set('upazila', filters.upazila_code);
+    if (filters.union_code) params.set('union', filters.union_code);
+    if (filters.village) params.set('village', filters.village);
+    if (filters.type) params.set('type', filters.type);
+    if (filters.q) params.set('q', filters.q);
+    if (filters.date) params.set('date', filters.date);
+    if (activeSort) params.set('sort', activeSort);
+    if (nearMe) {
+      params.set('lat', String(nearMe.lat));
+      params.set('lng', String(nearMe.lng));
+      params.set('radius', String(nearMe.radius));
+    }
+    return params;
+  };
+
+  const fetchFromServer = async (cursor?: string): Promise<EventPage> => {
+    const params = listParams();
+    params.set('limit', String(PAGE_SIZE));
+    if (cursor) params.set('cursor', cursor);
+    const res = await fetch(`/api/events?${params}`);
+    if (!res.ok) throw new Error(`Server responded with ${res.status}`);
+    const page: { events: Event[]; nextCursor: string | null } = await res.json();
+    return { events: page.events, next: page.nextCursor ? { source: 'server', cursor: page.nextCursor } : null };
+  };
+
+  // Replica reads used when the server is unreachable. Rows adopted by the
+  // server repository carry the stable event id in their uid field. The
+  // replicas filter what they can; dates, search and distance are checked
+  // here, and each page is ordered on its own.
+  const sortReplicaPage = (list: Event[]) => {
+    if (displayedSort !== 'soonest') return list;
+    const today = todayInBangladesh();
+    const upcoming = (event: Event) => {
+      const next = eventNextDate(event, today);
+      return next && next >= today ? next : '9999-12-31';
+    };
+    return [...list].sort((a, b) => upcoming(a).localeCompare(upcoming(b)));
+  };
+
+  const replicaPage = (page: EventPage): EventPage =>
+    ({ ...page, events: sortReplicaPage(applyNearMe(page.events.filter(matchesFilters))) });
+
+  const fetchFromSupabase = async (offset = 0): Promise<EventPage> => {
+    let queryBuilder = supabase
+      .from('events')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (filters.district_code) queryBuilder = queryBuilder.eq('district_code', filters.district_code);
+    if (filters.upazila_code) queryBuilder = queryBuilder.eq('upazila_code', filters.upazila_code);
+    if (filters.union_code) queryBuilder = queryBuilder.eq('union_code', filters.union_code);
+    if (filters.village) queryBuilder = queryBuilder.ilike('village', `%${filters.village}%`);
+    if (filters.type) queryBuilder = queryBuilder.eq('type', filters.type);
+    queryBuilder = queryBuilder.eq('status', 'approved');
+    if (nearMe) {
+      const box = boundingBox([nearMe.lat, nearMe.lng], nearMe.radius);
+      queryBuilder = queryBuilder.gte('lat', box.minLat).lte('lat', box.maxLat).gte('lng', box.minLng).lte('lng', box.maxLng);
+    }
+
+    const { data, error } = await queryBuilder;
+    if (error) throw error;
+    // Schedules are expanded here, as Supabase only stores their rules
+    return {
+      events: (data || []).map(row => ({ ...row, id: row.uid ?? row.id }) as Event),
+      next: data && data.length === PAGE_SIZE ? { source: 'supabase', offset: offset + PAGE_SIZE } : null
+    };
+  };
+
+  // Ordering by created_at alongside equality filters would need a composite
+  // index for every combination, so Firestore pages follow document order.
+  const fetchFromFirebase = async (after?: QueryDocumentSnapshot): Promise<EventPage> => {
+    const constraints: QueryConstraint[] = [];
+    if (filters.district_code) constraints.push(where('district_code', '==', filters.district_code));
+    if (filters.upazila_code) constraints.push(where('upazila_code', '==', filters.upazila_code));
+    if (filters.union_code) constraints.push(where('union_code', '==', filters.union_code));
+    if (filters.type) constraints.push(where('type', '==', filters.type));
+    constraints.push(where('status', '==', 'approved'));
+    if (after) constraints.push(startAfter(after));
+    const snapshot = await getDocs(query(collection(db, 'events'), ...constraints, limit(PAGE_SIZE)));
+    const eventsData = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Event);
+
+    // Sort by created_at desc
+    eventsData.sort((a, b) => {
+      const dateA = a.created_at ? new Date(a.created_at).getTime() : 0;
+      const dateB = b.created_at ? new Date(b.created_at).getTime() : 0;
+      return dateB - dateA;
+    });
+    return {
+      events: eventsData,
+      next: snapshot.docs.length === PAGE_SIZE ? { source: 'firebase', after: snapshot.docs[snapshot.docs.length - 1] } : null
+    };
+  };
+
+  const fetchFirstPage = async (): Promise<EventPage> => {
+    try {
+      // Primary: Fetch from the server repository
+      return await fetchFromServer();
     } catch (error) {
-      console.error("Failed to fetch events from Supabase", error);
-      // Fallback: Fetch from Firebase Firestore
+      console.error("Failed to fetch events from server", error);
       try {
-        const eventsRef = collection(db, 'events');
-        const q = query(eventsRef);
-        const querySnapshot = await getDocs(q);
-        const eventsData: Event[] = [];
-        
-        querySnapshot.forEach((doc) => {
-          const data = doc.data();
-          let matches = true;
-          if (filters.district && data.district !== filters.district) matches = false;
-          if (filters.type && data.type !== filters.type) matches = false;
-          if (filters.upazila && !data.upazila?.toLowerCase().includes(filters.upazila.toLowerCase())) matches = false;
-          if (filters.village && !data.village?.toLowerCase().includes(filters.village.toLowerCase())) matches = false;
-          
-          if (matches) {
-            eventsData.push({ id: doc.id, ...data } as Event);
-          }
-        });
+        return replicaPage(await fetchFromSupabase());
+      } catch (supabaseError) {
+        console.error("Supabase fallback failed", supabaseError);
+        return replicaPage(await fetchFromFirebase());
+      }
+    }
+  };
 
-        // Sort by created_at desc
-        eventsData.sort((a, b) => {
-          const dateA = a.created_at ? new Date(a.created_at).getTime() : 0;
-          const dateB = b.created_at ? new Date(b.created_at).getTime() : 0;
-          return dateB - dateA;
-        });
+  const fetchEvents = async () => {
+    const generation = ++searchGeneration.current;
+    setLoading(true);
+    try {
+      const page = await fetchFirstPage();
+      if (generation !== searchGeneration.current) return;
+      setEvents(page.events);
+      setNextPage(page.next);
+    } catch (firebaseError) {
+      console.error("Firebase fallback failed", firebaseError);
+    } finally {
+      if (generation === searchGeneration.current) setLoading(false);
+    }
+  };
 
-        setEvents(eventsData);
-      } catch (firebaseError) {
-        console.error("Firebase fallback failed", firebaseError);
-      }
+  // Appends the next page from the source that served the first one
+  const loadMore = async () => {
+    if (!nextPage || loadingMore) return;
+    const generation = searchGeneration.current;
+    setLoadingMore(true);
+    try {
+      const page = nextPage.source === 'server' ? await fetchFromServer(nextPage.cursor)
+        : nextPage.source === 'supabase' ? replicaPage(await fetchFromSupabase(nextPage.offset))
+        : replicaPage(await fetchFromFirebase(nextPage.after));
+      if (generation !== searchGeneration.current) return;
+      setEvents(prev => [...prev, ...page.events]);
+      setNextPage(page.next);
+    } catch (error) {
+      console.error("Failed to load more events", error);
     } finally {
-      setLoading(false);
+      setLoadingMore(false);
     }
   };
 
   useEffect(() => {
     fetchEvents();
-  }, [filters]);
+  }, [filters, nearMe]);
+
+  // Infinite scroll: load the next page as the end of the list comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextPage || loadingMore) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) loadMore();
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextPage, loadingMore, viewMode, loading]);
+
+  const updateEvent = async (event: Event) => {
+    try {
+      // The server propagates the edit to Supabase, Firebase and SQLite
+      const res = await fetch(`/api/events/${event.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...(editToken ? { 'X-Edit-Token': editToken } : {}) },
+        body: JSON.stringify(formData)
+      });
+
+      if (res.status === 401 && editToken) {
+        alert("ম্যানেজমেন্ট লিংকটি আর কার্যকর নয়।");
+        return;
+      }
+      if (res.status === 401) {
+        setAdminUser(null);
+        alert("সেশন শেষ হয়েছে। আবার লগইন করুন।");
+        return;
+      }
+      if (res.status === 403) {
+        alert("এই ইভেন্টটি সম্পাদনা করার অনুমতি আপনার নেই।");
+        return;
+      }
+      if (res.status === 400 || res.status === 429) {
+        const error = await res.json().catch(() => ({}));
+        if (error.fields) {
+          setFormErrors(error.fields);
+          return;
+        }
+        if (error.blocked) {
+          alert(BLOCKED_MESSAGES[error.blocked] ?? BLOCKED_MESSAGES.honeypot);
+          return;
+        }
+      }
+      if (!res.ok) throw new Error("Update failed");
 
-  const handleSubmit = async (e: React.FormEvent) => {
+      const { event: updated } = await res.json();
+      // An organizer's changes to a published event are reviewed again
+      alert(editToken && updated?.status === 'pending'
+        ? "পরিবর্তন সংরক্ষণ হয়েছে। মডারেটরের অনুমোদনের পর এটি আবার প্রকাশিত হবে।"
+        : "পরিবর্তন সংরক্ষণ হয়েছে!");
+      setShowAddForm(false);
+      setEditingEvent(null);
+      setEditToken(null);
+      setSavedEdits(n => n + 1);
+      setFormData(EMPTY_FORM);
+      setIftarTimeEdited(false);
+      fetchEvents();
+    } catch (error) {
+      console.error("Failed to update event:", error);
+      alert("ইভেন্ট আপডেট করতে সমস্যা হয়েছে।");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    submitEvent();
+  };
+
+  // allowDuplicate is set once the submitter has seen the likely duplicates
+  const submitEvent = async (allowDuplicate = false) => {
     if (isSubmitting) return;
-    
-    setIsSubmitting(true);
-    const newEvent = {
-      ...formData,
-      created_at: new Date().toISOString()
-    };
 
-    try {
-      // 1. Save to Supabase (Primary) - We wait for this
-      const { error: supabaseError } = await supabase
-        .from('events')
-        .insert([newEvent]);
-      
-      if (supabaseError) throw supabaseError;
+    const errors: FormErrors = validateEvent(formData);
+    if (!editingEvent && organizerEmail.trim() && !isEmail(organizerEmail.trim())) {
+      errors.organizer_email = 'সঠিক ইমেইল ঠিকানা দিন';
+    }
+    setFormErrors(errors);
+    if (hasErrors(errors)) return;
 
-      // Perform backups in the background without awaiting them to speed up UI response
-      // 2. Save to Firebase (Backup)
-      addDoc(collection(db, 'events'), newEvent).catch(e => console.warn("Firebase backup failed", e));
+    setIsSubmitting(true);
+    if (editingEvent) {
+      await updateEvent(editingEvent);
+      return;
+    }
 
-      // 3. Save to Server (SQLite - Optional/Local Cache)
-      fetch('/api/events', {
+    try {
+      // The server assigns the event id and writes it to every store
+      const res = await fetch('/api/events', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(newEvent)
-      }).catch(e => console.warn("SQLite save failed", e));
+        body: JSON.stringify({
+          ...formData,
+          organizer_email: organizerEmail.trim() || undefined,
+          allow_duplicate: allowDuplicate,
+          form_token: formToken,
+          website: honeypot
+        })
+      });
+      if (res.status === 409) {
+        const { duplicates } = await res.json();
+        setDuplicateMatches(duplicates);
+        return;
+      }
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        if (error.blocked) {
+          alert(BLOCKED_MESSAGES[error.blocked] ?? BLOCKED_MESSAGES.honeypot);
+          if (error.blocked === 'form_token') fetchFormToken();
+          return;
+        }
+        // Field errors found by the server are shown in the form like the client's own
+        if (error.fields) {
+          setFormErrors(error.fields);
+          return;
+        }
+        throw new Error(error.error || `Server responded with ${res.status}`);
+      }
       
-      // 4. Save to Google Drive if connected
-      if (isGoogleConnected) {
+      // Save the stored event, with its id, to Google Drive if connected
+      const { id, event, manage_url, emailed, confirm_by_email } = await res.json();
+      // Until it is approved the event is only shown to its organizer, who
+      // proves it with the token in their management link
+      const token = manage_url ? new URL(manage_url).hash.slice(1) : '';
+      if (isGoogleConnected && (token || event.status === 'approved')) {
         fetch('/api/drive/save', {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ eventData: formData })
+          headers: { 'Content-Type': 'application/json', ...(token ? { 'X-Edit-Token': token } : {}) },
+          body: JSON.stringify({ id })
         }).catch(e => console.error("Failed to save to Google Drive", e));
       }
       
-      alert("সফলভাবে যুক্ত হয়েছে! ওকে ক্লিক করুন।");
+      if (confirm_by_email) {
+        alert("ইভেন্টটি যুক্ত হয়েছে। আপনার ইমেইলে পাঠানো লিংকটি খুললেই এটি প্রকাশিত হবে।");
+      } else {
+        setManageLink({ url: manage_url, emailed, isNew: true, pending: event.status !== 'approved' });
+      }
       setShowAddForm(false);
-      setCurrentPage('iftar'); // Go to home page
+      if (currentPage !== 'iftar') navigate('/'); // Go to home page
       fetchEvents(); // Refresh the list
-      setFormData({
-        name: "", type: "public_iftar", district: "", upazila: "", village: "",
-        address: "", date_range: "", start_time: "", iftar_time: "",
-        contact: "", description: "", image_url: "", lat: undefined, lng: undefined,
-        link_url: "", event_date: "", event_day: "", target_date: ""
-      });
+      setFormData(EMPTY_FORM);
+      setOrganizerEmail('');
+      setHoneypot('');
+      setIftarTimeEdited(false);
+      setDuplicateMatches(null);
     } catch (error) {
       console.error("Failed to add event:", error);
       alert("ইভেন্ট যুক্ত করতে সমস্যা হয়েছে: " + (error instanceof Error ? error.message : "Unknown error"));
@@ -351,66 +878,12 @@ export default function App() {
     }
   };
 
-  // Helper to calculate countdown
-  const getCountdown = (targetDate?: string) => {
-    if (!targetDate) return null;
-    const target = new Date(targetDate);
-    const now = new Date();
-    now.setHours(0, 0, 0, 0);
-    target.setHours(0, 0, 0, 0);
-    
-    const diffTime = target.getTime() - now.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    
-    if (diffDays < 0) return "শেষ হয়েছে";
-    if (diffDays === 0) return "আজকে";
-    if (diffDays === 1) return "আগামীকাল";
-    
-    const bengaliNumbers = ['০', '১', '২', '৩', '৪', '৫', '৬', '৭', '৮', '৯'];
-    const convertToBengali = (num: number) => num.toString().split('').map(d => bengaliNumbers[parseInt(d)]).join('');
-    
-    return `${convertToBengali(diffDays)} দিন বাকি`;
-  };
-
-  // Map Component to handle view changes
-  function MapView({ events }: { events: Event[] }) {
-    const map = useMap();
-    useEffect(() => {
-      if (events.length > 0 && events[0].lat && events[0].lng) {
-        map.setView([events[0].lat, events[0].lng], 13);
-      }
-    }, [events, map]);
-
-    return (
-      <>
-        {events.filter(e => e.lat && e.lng).map(event => (
-          <Marker key={event.id} position={[event.lat!, event.lng!]}>
-            <Popup>
-              <div className="p-1">
-                <h5 className="font-bold text-emerald-800">{event.name}</h5>
-                <p className="text-xs text-slate-600 mb-2">{event.address}</p>
-                <div className="flex gap-2">
-                  <a 
-                    href={`tel:${event.contact}`}
-                    className="text-[10px] bg-emerald-600 text-white px-2 py-1 rounded-md"
-                  >
-                    কল দিন
-                  </a>
-                </div>
-              </div>
-            </Popup>
-          </Marker>
-        ))}
-      </>
-    );
-  }
-
   return (
     <div className="min-h-screen bg-[#FDFCF8] text-slate-900 font-sans">
       {/* Header */}
       <header className="bg-white border-b border-slate-200 sticky top-0 z-30">
         <div className="max-w-5xl mx-auto px-4 py-4 flex justify-between items-center">
-          <div className="flex items-center gap-2 cursor-pointer" onClick={() => setCurrentPage('iftar')}>
+          <Link to="/" className="flex items-center gap-2 cursor-pointer">
             <div className="w-10 h-10 bg-emerald-600 rounded-xl flex items-center justify-center text-white shadow-lg shadow-emerald-200">
               <Utensils size={24} />
             </div>
@@ -418,17 +891,31 @@ export default function App() {
               <h1 className="text-xl font-bold tracking-tight text-emerald-900">ইফতার সন্ধানে</h1>
               <p className="text-[10px] uppercase tracking-widest font-semibold text-emerald-600/70">Iftar Shondhane</p>
             </div>
-          </div>
+          </Link>
           
           <nav className="hidden md:flex items-center gap-6">
-            <button onClick={() => setCurrentPage('iftar')} className={`text-sm font-bold transition-colors ${currentPage === 'iftar' ? 'text-emerald-600' : 'text-slate-500 hover:text-emerald-600'}`}>হোম</button>
-            <button onClick={() => setCurrentPage('about')} className={`text-sm font-bold transition-colors ${currentPage === 'about' ? 'text-emerald-600' : 'text-slate-500 hover:text-emerald-600'}`}>আমাদের সম্পর্কে</button>
-            <button onClick={() => setCurrentPage('products')} className={`text-sm font-bold transition-colors ${currentPage === 'products' ? 'text-emerald-600' : 'text-slate-500 hover:text-emerald-600'}`}>প্রোডাক্টস</button>
-            <button onClick={() => setCurrentPage('services')} className={`text-sm font-bold transition-colors ${currentPage === 'services' ? 'text-emerald-600' : 'text-slate-500 hover:text-emerald-600'}`}>সার্ভিস</button>
-            <button onClick={() => setCurrentPage('contact')} className={`text-sm font-bold transition-colors ${currentPage === 'contact' ? 'text-emerald-600' : 'text-slate-500 hover:text-emerald-600'}`}>যোগাযোগ</button>
+            <Link to="/" className={`text-sm font-bold transition-colors ${currentPage === 'iftar' ? 'text-emerald-600' : 'text-slate-500 hover:text-emerald-600'}`}>হোম</Link>
+            <Link to="/about" className={`text-sm font-bold transition-colors ${currentPage === 'about' ? 'text-emerald-600' : 'text-slate-500 hover:text-emerald-600'}`}>আমাদের সম্পর্কে</Link>
+            <Link to="/products" className={`text-sm font-bold transition-colors ${currentPage === 'products' ? 'text-emerald-600' : 'text-slate-500 hover:text-emerald-600'}`}>প্রোডাক্টস</Link>
+            <Link to="/services" className={`text-sm font-bold transition-colors ${currentPage === 'services' ? 'text-emerald-600' : 'text-slate-500 hover:text-emerald-600'}`}>সার্ভিস</Link>
+            <Link to="/contact" className={`text-sm font-bold transition-colors ${currentPage === 'contact' ? 'text-emerald-600' : 'text-slate-500 hover:text-emerald-600'}`}>যোগাযোগ</Link>
+            {adminUser && (
+              <Link to="/moderation" className={`text-sm font-bold transition-colors ${currentPage === 'moderation' ? 'text-emerald-600' : 'text-slate-500 hover:text-emerald-600'}`}>মডারেশন</Link>
+            )}
+            <Link to="/import" className={`text-sm font-bold transition-colors ${currentPage === 'import' ? 'text-emerald-600' : 'text-slate-500 hover:text-emerald-600'}`}>ইমপোর্ট</Link>
           </nav>
 
           <div className="flex items-center gap-2">
+            {adminUser && (
+              <button 
+                onClick={logoutAdmin}
+                className="hidden sm:flex items-center gap-2 bg-amber-50 text-amber-700 px-3 py-2 rounded-xl text-xs font-bold border border-amber-100 hover:bg-amber-100 transition-all"
+                title="লগআউট"
+              >
+                <LogOut size={14} />
+                {adminUser.username}
+              </button>
+            )}
             {!isGoogleConnected ? (
               <button 
                 onClick={connectGoogle}
@@ -441,6 +928,30 @@ export default function App() {
               <div className="hidden sm:flex items-center gap-2 bg-emerald-50 text-emerald-700 px-3 py-2 rounded-xl text-xs font-bold border border-emerald-100">
                 <Check size={14} />
                 ড্রাইভ কানেক্টেড
+                <button
+                  onClick={() => driveAction('sync')}
+                  disabled={!!isSavingToDrive}
+                  title="ড্রাইভের কপিগুলো হালনাগাদ করুন"
+                  className="p-0.5 rounded hover:bg-emerald-100 disabled:opacity-50"
+                >
+                  <RefreshCw size={14} className={isSavingToDrive === 'sync' ? 'animate-spin' : ''} />
+                </button>
+                <button
+                  onClick={() => driveAction('restore')}
+                  disabled={!!isSavingToDrive}
+                  title="ড্রাইভ থেকে ফিরিয়ে আনুন"
+                  className="p-0.5 rounded hover:bg-emerald-100 disabled:opacity-50"
+                >
+                  <ArchiveRestore size={14} />
+                </button>
+                <button
+                  onClick={disconnectGoogle}
+                  disabled={!!isSavingToDrive}
+                  title="ড্রাইভ কানেকশন বিচ্ছিন্ন করুন"
+                  className="p-0.5 rounded hover:bg-emerald-100 disabled:opacity-50"
+                >
+                  <Unlink size={14} />
+                </button>
               </div>
             )}
             
@@ -487,45 +998,73 @@ export default function App() {
                 </motion.p>
 
                 {/* Search Bar */}
-                <div className="bg-white p-2 rounded-2xl shadow-2xl flex flex-col md:flex-row gap-2">
-                  <div className="flex-1 flex items-center px-3 border-b md:border-b-0 md:border-r border-slate-100">
-                    <MapPin size={20} className="text-slate-400 mr-2" />
-                    <select 
-                      value={filters.district}
-                      onChange={(e) => setFilters({...filters, district: e.target.value})}
-                      className="w-full py-3 bg-transparent text-slate-700 focus:outline-none appearance-none cursor-pointer"
+                <form onSubmit={submitSearch} className="bg-white p-2 rounded-2xl shadow-2xl flex flex-col gap-2">
+                  <div className="flex flex-col md:flex-row gap-2">
+                    <div className="flex-1 flex items-center px-3 border-b md:border-b-0 border-slate-100">
+                      <Search size={20} className="text-slate-400 mr-2" />
+                      <input
+                        type="search"
+                        value={searchText}
+                        onChange={(e) => setSearchText(e.target.value)}
+                        placeholder="মসজিদ, বক্তা বা জায়গার নাম লিখুন (যেমন: boro masjid)"
+                        className="w-full py-3 bg-transparent text-slate-700 focus:outline-none"
+                      />
+                    </div>
+                    <button 
+                      type="submit"
+                      className="bg-emerald-600 hover:bg-emerald-700 text-white px-8 py-3 rounded-xl font-bold transition-all"
                     >
-                      <option value="">জেলা নির্বাচন করুন</option>
-                      {DISTRICTS.map(d => <option key={d} value={d}>{d}</option>)}
-                    </select>
-                  </div>
-                  <div className="flex-1 flex items-center px-3 border-b md:border-b-0 md:border-r border-slate-100">
-                    <Filter size={20} className="text-slate-400 mr-2" />
-                    <input 
-                      type="text"
-                      placeholder="উপজেলা/ইউনিয়ন"
-                      value={filters.upazila}
-                      onChange={(e) => setFilters({...filters, upazila: e.target.value})}
-                      className="w-full py-3 bg-transparent text-slate-700 focus:outline-none"
-                    />
+                      খুঁজুন
+                    </button>
                   </div>
-                  <div className="flex-1 flex items-center px-3">
-                    <Search size={20} className="text-slate-400 mr-2" />
-                    <input 
-                      type="text"
-                      placeholder="গ্রাম/মহল্লা"
-                      value={filters.village}
-                      onChange={(e) => setFilters({...filters, village: e.target.value})}
-                      className="w-full py-3 bg-transparent text-slate-700 focus:outline-none"
-                    />
+                  <div className="flex flex-col md:flex-row gap-2 border-t border-slate-100 pt-2">
+                    <div className="flex-1 flex items-center px-3 border-b md:border-b-0 md:border-r border-slate-100">
+                      <MapPin size={20} className="text-slate-400 mr-2" />
+                      <select 
+                        value={filters.district_code}
+                        onChange={(e) => setFilters({...filters, district_code: e.target.value, upazila_code: "", union_code: ""})}
+                        className="w-full py-3 bg-transparent text-slate-700 focus:outline-none appearance-none cursor-pointer"
+                      >
+                        <option value="">জেলা নির্বাচন করুন</option>
+                        {DISTRICTS.map(d => <option key={d.code} value={d.code}>{d.bn}</option>)}
+                      </select>
+                    </div>
+                    <div className="flex-1 flex items-center px-3 border-b md:border-b-0 md:border-r border-slate-100">
+                      <Filter size={20} className="text-slate-400 mr-2" />
+                      <select 
+                        value={filters.upazila_code}
+                        disabled={!filters.district_code}
+                        onChange={(e) => setFilters({...filters, upazila_code: e.target.value, union_code: ""})}
+                        className="w-full py-3 bg-transparent text-slate-700 focus:outline-none appearance-none cursor-pointer disabled:cursor-not-allowed disabled:text-slate-400"
+                      >
+                        <option value="">উপজেলা</option>
+                        {getUpazilas(filters.district_code).map(u => <option key={u.code} value={u.code}>{u.bn}</option>)}
+                      </select>
+                    </div>
+                    <div className="flex-1 flex items-center px-3 border-b md:border-b-0 md:border-r border-slate-100">
+                      <Search size={20} className="text-slate-400 mr-2" />
+                      <select 
+                        value={filters.union_code}
+                        disabled={!filters.upazila_code}
+                        onChange={(e) => setFilters({...filters, union_code: e.target.value})}
+                        className="w-full py-3 bg-transparent text-slate-700 focus:outline-none appearance-none cursor-pointer disabled:cursor-not-allowed disabled:text-slate-400"
+                      >
+                        <option value="">ইউনিয়ন</option>
+                        {filterUnions.map(u => <option key={u.code} value={u.code}>{u.bn}</option>)}
+                      </select>
+                    </div>
+                    <div className="flex-1 flex items-center px-3">
+                      <MapPin size={20} className="text-slate-400 mr-2" />
+                      <input
+                        type="search"
+                        value={villageText}
+                        onChange={(e) => setVillageText(e.target.value)}
+                        placeholder="গ্রাম / মহল্লা"
+                        className="w-full py-3 bg-transparent text-slate-700 focus:outline-none"
+                      />
+                    </div>
                   </div>
-                  <button 
-                    onClick={fetchEvents}
-                    className="bg-emerald-600 hover:bg-emerald-700 text-white px-8 py-3 rounded-xl font-bold transition-all"
-                  >
-                    খুঁজুন
-                  </button>
-                </div>
+                </form>
               </div>
             </section>
 
@@ -553,6 +1092,43 @@ export default function App() {
                       ম্যাপ
                     </button>
                   </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={nearMe ? () => setNearMe(null) : findNearMe}
+                      className={`px-3 py-1.5 rounded-xl text-sm font-bold flex items-center gap-2 transition-all ${nearMe ? 'bg-emerald-600 text-white' : 'bg-white text-slate-600 border border-slate-200 hover:bg-slate-50'}`}
+                    >
+                      <Navigation size={16} />
+                      আমার কাছাকাছি
+                      {nearMe && <X size={14} />}
+                    </button>
+                    {nearMe && (
+                      <select
+                        value={nearMe.radius}
+                        onChange={(e) => setNearMe({ ...nearMe, radius: Number(e.target.value) })}
+                        className="px-2 py-1.5 rounded-xl text-sm bg-white text-slate-600 border border-slate-200 outline-none"
+                      >
+                        {[1, 3, 5, 10, 25].map(km => <option key={km} value={km}>{toBanglaDigits(km)} কিমি</option>)}
+                      </select>
+                    )}
+                  </div>
+                  <input
+                    type="date"
+                    title="এই তারিখের ইভেন্ট"
+                    value={filters.date}
+                    onChange={(e) => setFilters({...filters, date: e.target.value})}
+                    className="px-3 py-1.5 rounded-xl text-sm bg-white text-slate-600 border border-slate-200 focus:ring-2 focus:ring-emerald-500 outline-none"
+                  />
+                  <select
+                    title="সাজানোর ক্রম"
+                    value={displayedSort}
+                    onChange={(e) => setFilters({...filters, sort: e.target.value as EventSort})}
+                    className="px-2 py-1.5 rounded-xl text-sm bg-white text-slate-600 border border-slate-200 outline-none"
+                  >
+                    <option value="newest">নতুন</option>
+                    <option value="soonest">শীঘ্রই</option>
+                    <option value="nearest" disabled={!nearMe}>কাছাকাছি</option>
+                    <option value="relevance" disabled={!filters.q}>সবচেয়ে মিল</option>
+                  </select>
                   <div className="flex gap-2">
                     <button 
                       onClick={() => setFilters({...filters, type: ""})}
@@ -570,6 +1146,29 @@ export default function App() {
                       </button>
                     ))}
                   </div>
+                  {filters.district_code && (
+                    <a
+                      href={`webcal://${window.location.host}/calendar/district/${filters.district_code}.ics${filters.type ? `?type=${filters.type}` : ''}`}
+                      title="এই জেলার ইভেন্টগুলো ক্যালেন্ডারে পেতে সাবস্ক্রাইব করুন"
+                      className="px-3 py-1.5 rounded-xl text-sm font-bold flex items-center gap-2 bg-white text-amber-700 border border-slate-200 hover:bg-amber-50 transition-all"
+                    >
+                      <CalendarPlus size={16} />
+                      ক্যালেন্ডারে সাবস্ক্রাইব
+                    </a>
+                  )}
+                  <div className="flex items-center gap-1" title="এই তালিকা ডাউনলোড করুন">
+                    <Download size={16} className="text-slate-400" />
+                    {(['csv', 'json', 'geojson'] as const).map(format => (
+                      <a
+                        key={format}
+                        href={`/api/events/export?${new URLSearchParams([...listParams(), ['format', format]])}`}
+                        download
+                        className="px-2 py-1.5 rounded-xl text-xs font-bold bg-white text-slate-600 border border-slate-200 hover:bg-slate-50 transition-all"
+                      >
+                        {format === 'geojson' ? 'GeoJSON' : format.toUpperCase()}
+                      </a>
+                    ))}
+                  </div>
                 </div>
               </div>
 
@@ -583,7 +1182,9 @@ export default function App() {
                 events.length > 0 ? (
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     {events.map((event) => {
-                      const typeInfo = EVENT_TYPES.find(t => t.id === event.type) || EVENT_TYPES[0];
+                      const typeInfo = getEventType(event.type);
+                      const targetDate = eventNextDate(event, todayInBangladesh());
+                      const schedule = formatScheduleBn(event);
                       return (
                         <motion.div 
                           layout
@@ -592,53 +1193,131 @@ export default function App() {
                           key={event.id}
                           className="bg-white rounded-3xl border border-slate-100 shadow-sm hover:shadow-xl transition-all overflow-hidden group"
                         >
+                          {event.image_url && (
+                            <a href={event.image_url} target="_blank" rel="noopener noreferrer">
+                              <img
+                                src={thumbnailUrl(event.image_url)}
+                                alt={event.name}
+                                loading="lazy"
+                                className="w-full aspect-video object-cover bg-slate-100"
+                              />
+                            </a>
+                          )}
                           <div className="p-6">
                             <div className="flex justify-between items-start mb-4">
                               <div className="flex flex-col gap-2">
                                 <span className={`px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider ${typeInfo.bg} ${typeInfo.color} w-fit`}>
                                   {typeInfo.label}
                                 </span>
-                                {event.target_date && (
+                                {event.cancelled_at ? (
+                                  <span className="px-3 py-1 bg-red-100 text-red-700 rounded-full text-[10px] font-bold tracking-wider w-fit">
+                                    বাতিল
+                                  </span>
+                                ) : targetDate && (
                                   <span className="px-3 py-1 bg-amber-100 text-amber-700 rounded-full text-[10px] font-bold uppercase tracking-wider w-fit flex items-center gap-1">
                                     <Clock size={10} />
-                                    {getCountdown(event.target_date)}
+                                    {countdownBn(targetDate, todayInBangladesh())}
+                                  </span>
+                                )}
+                                {event.distance_km != null && (
+                                  <span className="px-3 py-1 bg-sky-100 text-sky-700 rounded-full text-[10px] font-bold tracking-wider w-fit flex items-center gap-1">
+                                    <Navigation size={10} />
+                                    {formatDistanceBn(event.distance_km)} দূরে
                                   </span>
                                 )}
                               </div>
                               <div className="flex gap-2">
-                                <button 
-                                  onClick={() => deleteEvent(event.id)}
-                                  className="p-2 text-slate-300 hover:text-red-500 transition-colors"
-                                  title="ডিলিট করুন"
-                                >
-                                  <X size={16} />
-                                </button>
-                                <div className="text-slate-400 group-hover:text-emerald-600 transition-colors">
+                                {canModerateEvent(adminUser, event) && (
+                                  <button 
+                                    onClick={() => openEditForm(event)}
+                                    className="p-2 text-slate-300 hover:text-emerald-600 transition-colors"
+                                    title="সম্পাদনা করুন"
+                                  >
+                                    <Pencil size={16} />
+                                  </button>
+                                )}
+                                {canModerateEvent(adminUser, event) && (
+                                  <button 
+                                    onClick={() => issueManageLink(event)}
+                                    className="p-2 text-slate-300 hover:text-emerald-600 transition-colors"
+                                    title="আয়োজকের ম্যানেজমেন্ট লিংক"
+                                  >
+                                    <KeyRound size={16} />
+                                  </button>
+                                )}
+                                {canModerateEvent(adminUser, event) && (
+                                  <button 
+                                    onClick={() => setMergingEvent(event)}
+                                    className="p-2 text-slate-300 hover:text-emerald-600 transition-colors"
+                                    title="ডুপ্লিকেট একত্রিত করুন"
+                                  >
+                                    <Merge size={16} />
+                                  </button>
+                                )}
+                                {canModerateEvent(adminUser, event) && (
+                                  <button 
+                                    onClick={() => deleteEvent(event.id)}
+                                    className="p-2 text-slate-300 hover:text-red-500 transition-colors"
+                                    title="ডিলিট করুন"
+                                  >
+                                    <X size={16} />
+                                  </button>
+                                )}
+                                <Link to={eventPath(event.id)} className="text-slate-400 group-hover:text-emerald-600 transition-colors" title="বিস্তারিত দেখুন">
                                   <Info size={20} />
-                                </div>
+                                </Link>
                               </div>
                             </div>
                             
                             <h4 className="text-xl font-bold mb-2 text-slate-900 group-hover:text-emerald-700 transition-colors">
-                              {event.name}
+                              <Link to={eventPath(event.id)}>{event.name}</Link>
                             </h4>
                             
                             <div className="space-y-2 mb-6">
                               <div className="flex items-center gap-2 text-slate-500 text-sm">
                                 <MapPin size={16} className="text-emerald-500" />
-                                <span>{event.district} {event.upazila ? `> ${event.upazila}` : ''} {event.village ? `> ${event.village}` : ''}</span>
+                                <span>{event.district} {event.upazila ? `> ${event.upazila}` : ''} {event.union_name ? `> ${event.union_name}` : ''} {event.village ? `> ${event.village}` : ''}</span>
                               </div>
                               <div className="flex items-center gap-2 text-slate-500 text-sm">
                                 <Calendar size={16} className="text-emerald-500" />
                                 <span className="font-medium text-slate-700">
-                                  {event.event_date || event.date_range || 'তারিখ উল্লেখ নেই'}
-                                  {event.event_day ? ` (${event.event_day})` : ''}
+                                  {schedule && targetDate
+                                    ? `পরবর্তী: ${formatHijriBn(toHijri(targetDate))} (${weekdayBn(targetDate)})`
+                                    : <>
+                                        {event.event_date || event.date_range || 'তারিখ উল্লেখ নেই'}
+                                        {event.event_day ? ` (${event.event_day})` : ''}
+                                      </>}
                                 </span>
                               </div>
+                              {schedule && (
+                                <div className="flex items-center gap-2 text-slate-500 text-sm">
+                                  <Repeat size={16} className="text-emerald-500" />
+                                  <span>{schedule}</span>
+                                </div>
+                              )}
                               <div className="flex items-center gap-2 text-slate-500 text-sm">
                                 <Clock size={16} className="text-emerald-500" />
                                 <span>{event.start_time || 'আসরের পর'} থেকে ইফতার পর্যন্ত</span>
                               </div>
+                              {(() => {
+                                const times = targetDate ? eventPrayerTimes(event, targetDate) : null;
+                                const iftar = event.iftar_time || times?.iftar;
+                                if (!iftar) return null;
+                                return (
+                                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-slate-500 text-sm">
+                                    <span className="flex items-center gap-2">
+                                      <Sunset size={16} className="text-emerald-500" />
+                                      <span>ইফতার: <span className="font-medium text-slate-700">{formatClockBn(iftar)}</span></span>
+                                    </span>
+                                    {times && (
+                                      <span className="flex items-center gap-2">
+                                        <Sunrise size={16} className="text-emerald-500" />
+                                        <span>সেহরি শেষ: <span className="font-medium text-slate-700">{formatClockBn(times.sehri_end)}</span></span>
+                                      </span>
+                                    )}
+                                  </div>
+                                );
+                              })()}
                               {event.contact && (
                                 <div className="flex items-center gap-2 text-slate-500 text-sm">
                                   <Phone size={16} className="text-emerald-500" />
@@ -672,6 +1351,18 @@ export default function App() {
                                 {copiedId === event.id.toString() ? <Check size={14} /> : <Share2 size={14} />}
                                 {copiedId === event.id.toString() ? 'কপি' : 'শেয়ার'}
                               </button>
+                              {event.target_date && (
+                                <a
+                                  href={`/api/events/${event.id}.ics`}
+                                  download
+                                  title="ক্যালেন্ডারে যোগ করুন"
+                                  aria-label="ক্যালেন্ডারে যোগ করুন"
+                                  className="flex-1 bg-amber-50 hover:bg-amber-100 text-amber-700 py-3 rounded-xl text-center text-[12px] font-bold transition-all flex items-center justify-center gap-1"
+                                >
+                                  <CalendarPlus size={14} />
+                                  ক্যালেন্ডার
+                                </a>
+                              )}
                               {isGoogleConnected && (
                                 <button 
                                   onClick={() => saveToDrive(event)}
@@ -703,15 +1394,26 @@ export default function App() {
                 )
               ) : (
                 <div className="h-[600px] w-full bg-white rounded-3xl border border-slate-100 shadow-xl overflow-hidden relative">
-                  <MapContainer center={[23.685, 90.3563]} zoom={7} style={{ height: '100%', width: '100%' }}>
-                    <TileLayer
-                      attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-                      url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-                    />
-                    <MapView events={events} />
-                  </MapContainer>
+                  <EventMap events={events} nearMe={nearMe} copiedId={copiedId} onShare={handleShare} />
                 </div>
               )}
+              {!loading && nextPage && (
+                viewMode === 'list' ? (
+                  <div ref={loadMoreRef} className="py-8 text-center text-sm text-slate-400">
+                    {loadingMore && 'আরও ইভেন্ট লোড হচ্ছে...'}
+                  </div>
+                ) : (
+                  <div className="pt-6 text-center">
+                    <button
+                      onClick={loadMore}
+                      disabled={loadingMore}
+                      className="px-6 py-2 rounded-xl text-sm font-bold bg-white text-emerald-700 border border-emerald-200 hover:bg-emerald-50 disabled:opacity-50"
+                    >
+                      {loadingMore ? 'লোড হচ্ছে...' : 'আরও ইভেন্ট দেখান'}
+                    </button>
+                  </div>
+                )
+              )}
             </main>
 
             {/* Global Share Section */}
@@ -846,7 +1548,7 @@ export default function App() {
               <div className="relative z-10">
                 <h3 className="text-2xl font-bold mb-4">আপনার ব্যবসার জন্য সঠিক প্রোডাক্ট খুঁজছেন?</h3>
                 <p className="text-emerald-100/70 mb-8 max-w-xl mx-auto">আমাদের এক্সপার্ট টিমের সাথে কথা বলুন এবং আপনার প্রয়োজন অনুযায়ী কাস্টম সল্যুশন নিন।</p>
-                <button onClick={() => setCurrentPage('contact')} className="bg-white text-emerald-900 px-8 py-3 rounded-xl font-bold hover:bg-emerald-50 transition-all">যোগাযোগ করুন</button>
+                <Link to="/contact" className="bg-white text-emerald-900 px-8 py-3 rounded-xl font-bold hover:bg-emerald-50 transition-all">যোগাযোগ করুন</Link>
               </div>
             </div>
           </motion.div>
@@ -919,6 +1621,63 @@ export default function App() {
             </div>
           </motion.div>
         )}
+
+        {currentPage === 'event' && (
+          <motion.div
+            key={`event-${eventMatch?.params.id}`}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+          >
+            <EventDetailPage copiedId={copiedId} onShare={handleShare} />
+          </motion.div>
+        )}
+
+        {currentPage === 'manage' && (
+          <motion.div
+            key={`manage-${manageMatch?.params.id}`}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+          >
+            <ManagePage onEdit={openEditForm} reloadKey={savedEdits} />
+          </motion.div>
+        )}
+
+        {currentPage === 'moderation' && (
+          <motion.div
+            key="moderation"
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+          >
+            <ModerationPage adminUser={adminUser} onEdit={openEditForm} onReviewed={fetchEvents} reloadKey={savedEdits} />
+          </motion.div>
+        )}
+
+        {currentPage === 'import' && (
+          <motion.div
+            key="import"
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+          >
+            <ImportPage adminUser={adminUser} onImported={fetchEvents} />
+          </motion.div>
+        )}
+
+        {currentPage === 'not_found' && (
+          <motion.div
+            key="not_found"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="max-w-2xl mx-auto px-4 py-20 text-center"
+          >
+            <h2 className="text-2xl font-bold text-slate-800 mb-2">পাতাটি খুঁজে পাওয়া যায়নি</h2>
+            <Link to="/" className="text-emerald-600 font-bold hover:underline">হোম পেজে যান</Link>
+          </motion.div>
+        )}
       </AnimatePresence>
 
       {/* Add Event Modal */}
@@ -929,7 +1688,7 @@ export default function App() {
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
               exit={{ opacity: 0 }}
-              onClick={() => setShowAddForm(false)}
+              onClick={closeForm}
               className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm"
             />
             <motion.div 
@@ -939,16 +1698,30 @@ export default function App() {
               className="bg-white w-full max-w-2xl rounded-3xl shadow-2xl relative z-10 overflow-hidden flex flex-col max-h-[90vh]"
             >
               <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-emerald-50">
-                <h3 className="text-xl font-bold text-emerald-900">নতুন ইভেন্ট যুক্ত করুন</h3>
+                <h3 className="text-xl font-bold text-emerald-900">{editingEvent ? "ইভেন্ট সম্পাদনা করুন" : "নতুন ইভেন্ট যুক্ত করুন"}</h3>
                 <button 
-                  onClick={() => setShowAddForm(false)}
+                  onClick={closeForm}
                   className="p-2 hover:bg-white rounded-full transition-colors text-emerald-700"
                 >
                   <X size={24} />
                 </button>
               </div>
               
-              <form onSubmit={handleSubmit} className="p-6 overflow-y-auto space-y-4">
+              <form onSubmit={handleSubmit} noValidate className="p-6 overflow-y-auto space-y-4">
+                {!editingEvent && (
+                  <div aria-hidden="true" className="absolute -left-[9999px] w-px h-px overflow-hidden">
+                    <label>
+                      Website
+                      <input
+                        type="text"
+                        tabIndex={-1}
+                        autoComplete="off"
+                        value={honeypot}
+                        onChange={(e) => setHoneypot(e.target.value)}
+                      />
+                    </label>
+                  </div>
+                )}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div className="space-y-1">
                     <label className="text-xs font-bold text-slate-500 uppercase">ইভেন্টের নাম *</label>
@@ -960,6 +1733,7 @@ export default function App() {
                       value={formData.name}
                       onChange={(e) => setFormData({...formData, name: e.target.value})}
                     />
+                    <FieldError message={formErrors.name} />
                   </div>
                   <div className="space-y-1">
                     <label className="text-xs font-bold text-slate-500 uppercase">ধরন *</label>
@@ -971,43 +1745,84 @@ export default function App() {
                     >
                       {EVENT_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
                     </select>
+                    <FieldError message={formErrors.type} />
                   </div>
                 </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <label className="text-xs font-bold text-slate-500 uppercase">বিভাগ</label>
+                    <select 
+                      className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                      value={formData.division_code}
+                      onChange={(e) => setFormData({...formData, division_code: e.target.value, district_code: "", district: "", upazila_code: "", upazila: "", union_code: "", union_name: ""})}
+                    >
+                      <option value="">সব বিভাগ</option>
+                      {DIVISIONS.map(d => <option key={d.code} value={d.code}>{d.bn}</option>)}
+                    </select>
+                  </div>
                   <div className="space-y-1">
                     <label className="text-xs font-bold text-slate-500 uppercase">জেলা *</label>
                     <select 
                       required
                       className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
-                      value={formData.district}
-                      onChange={(e) => setFormData({...formData, district: e.target.value})}
+                      value={formData.district_code}
+                      onChange={(e) => {
+                        const district = DISTRICTS.find(d => d.code === e.target.value);
+                        setFormData({...formData, division_code: district?.division || formData.division_code, district_code: e.target.value, district: district?.bn || "", upazila_code: "", upazila: "", union_code: "", union_name: ""});
+                      }}
                     >
                       <option value="">নির্বাচন করুন</option>
-                      {DISTRICTS.map(d => <option key={d} value={d}>{d}</option>)}
+                      {getDistricts(formData.division_code).map(d => <option key={d.code} value={d.code}>{d.bn}</option>)}
                     </select>
+                    <FieldError message={formErrors.district_code} />
                   </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div className="space-y-1">
-                    <label className="text-xs font-bold text-slate-500 uppercase">উপজেলা/ইউনিয়ন *</label>
-                    <input 
+                    <label className="text-xs font-bold text-slate-500 uppercase">উপজেলা *</label>
+                    <select 
                       required
-                      type="text"
-                      placeholder="উদা: সোনাতলা"
-                      className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
-                      value={formData.upazila}
-                      onChange={(e) => setFormData({...formData, upazila: e.target.value})}
-                    />
+                      disabled={!formData.district_code}
+                      className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-emerald-500 outline-none transition-all disabled:opacity-60"
+                      value={formData.upazila_code}
+                      onChange={(e) => {
+                        const upazila = getUpazilas(formData.district_code).find(u => u.code === e.target.value);
+                        setFormData({...formData, upazila_code: e.target.value, upazila: upazila?.bn || "", union_code: "", union_name: ""});
+                      }}
+                    >
+                      <option value="">নির্বাচন করুন</option>
+                      {getUpazilas(formData.district_code).map(u => <option key={u.code} value={u.code}>{u.bn}</option>)}
+                    </select>
+                    <FieldError message={formErrors.upazila_code} />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs font-bold text-slate-500 uppercase">ইউনিয়ন</label>
+                    <select 
+                      disabled={!formData.upazila_code}
+                      className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-emerald-500 outline-none transition-all disabled:opacity-60"
+                      value={formData.union_code}
+                      onChange={(e) => {
+                        const union = formUnions.find(u => u.code === e.target.value);
+                        setFormData({...formData, union_code: e.target.value, union_name: union?.bn || ""});
+                      }}
+                    >
+                      <option value="">নির্বাচন করুন</option>
+                      {formUnions.map(u => <option key={u.code} value={u.code}>{u.bn}</option>)}
+                    </select>
                   </div>
                   <div className="space-y-1">
                     <label className="text-xs font-bold text-slate-500 uppercase">গ্রাম/মহল্লা *</label>
                     <input 
                       required
                       type="text"
-                      placeholder="উদা: উত্তর পাড়া"
+                      placeholder="উদা: উত্তর পাড়া"
                       className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
                       value={formData.village}
                       onChange={(e) => setFormData({...formData, village: e.target.value})}
                     />
+                    <FieldError message={formErrors.village} />
                   </div>
                 </div>
 
@@ -1021,6 +1836,34 @@ export default function App() {
                     value={formData.address}
                     onChange={(e) => setFormData({...formData, address: e.target.value})}
                   />
+                  <FieldError message={formErrors.address} />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <label className="text-xs font-bold text-slate-500 uppercase">রমজানের দিন</label>
+                    <select 
+                      className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                      value={formRamadanDay}
+                      onChange={(e) => e.target.value && setFormDate(ramadanDate(Number(e.target.value), todayInBangladesh()))}
+                    >
+                      <option value="">দিন নির্বাচন করুন</option>
+                      {Array.from({ length: 30 }, (_, i) => i + 1).map(day => (
+                        <option key={day} value={day}>{toBanglaDigits(day)} রমজান</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs font-bold text-slate-500 uppercase">ক্যালেন্ডার তারিখ (কাউন্টডাউন এর জন্য) *</label>
+                    <input 
+                      required
+                      type="date"
+                      className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                      value={formData.target_date}
+                      onChange={(e) => setFormDate(e.target.value)}
+                    />
+                    <FieldError message={formErrors.target_date} />
+                  </div>
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -1048,15 +1891,92 @@ export default function App() {
                   </div>
                 </div>
 
-                <div className="space-y-1">
-                  <label className="text-xs font-bold text-slate-500 uppercase">ক্যালেন্ডার তারিখ (কাউন্টডাউন এর জন্য) *</label>
-                  <input 
-                    required
-                    type="date"
-                    className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
-                    value={formData.target_date}
-                    onChange={(e) => setFormData({...formData, target_date: e.target.value})}
-                  />
+                <div className="p-4 bg-slate-50 rounded-2xl border border-slate-200 space-y-3">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-1">
+                      <label className="text-xs font-bold text-slate-500 uppercase">পুনরাবৃত্তি</label>
+                      <select 
+                        className="w-full p-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                        value={formData.recurrence}
+                        onChange={(e) => setFormData({
+                          ...formData,
+                          recurrence: e.target.value as typeof formData.recurrence,
+                          ...(e.target.value ? {} : { end_date: "", recurrence_weekdays: "", exception_dates: "" })
+                        })}
+                      >
+                        <option value="">একবার</option>
+                        <option value="daily">প্রতিদিন</option>
+                        <option value="weekly">সাপ্তাহিক</option>
+                      </select>
+                      <FieldError message={formErrors.recurrence} />
+                    </div>
+                    {formData.recurrence && (
+                      <div className="space-y-1">
+                        <label className="text-xs font-bold text-slate-500 uppercase">শেষ তারিখ</label>
+                        <input 
+                          type="date"
+                          min={formData.target_date}
+                          className="w-full p-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                          value={formData.end_date}
+                          onChange={(e) => setFormData({...formData, end_date: e.target.value})}
+                        />
+                        <FieldError message={formErrors.end_date} />
+                      </div>
+                    )}
+                  </div>
+                  {formData.recurrence === 'weekly' && (
+                    <div className="flex flex-wrap gap-2">
+                      {WEEKDAYS_BN.map((label, day) => {
+                        const selected = parseWeekdays(formData.recurrence_weekdays);
+                        const active = selected.includes(day);
+                        return (
+                          <button
+                            key={day}
+                            type="button"
+                            onClick={() => setFormData({
+                              ...formData,
+                              recurrence_weekdays: (active ? selected.filter(d => d !== day) : [...selected, day]).sort().join(',')
+                            })}
+                            className={`px-3 py-1 rounded-full text-xs font-medium transition-all ${active ? 'bg-emerald-600 text-white' : 'bg-white text-slate-600 border border-slate-200'}`}
+                          >
+                            {label}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+                  {formData.recurrence && (
+                    <div className="space-y-2">
+                      <label className="text-xs font-bold text-slate-500 uppercase">যেসব দিনে হবে না</label>
+                      <input 
+                        type="date"
+                        min={formData.target_date}
+                        max={formData.end_date || undefined}
+                        className="w-full p-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                        value=""
+                        onChange={(e) => {
+                          const dates = parseDateList(formData.exception_dates);
+                          if (e.target.value && !dates.includes(e.target.value)) {
+                            setFormData({...formData, exception_dates: [...dates, e.target.value].sort().join(',')});
+                          }
+                        }}
+                      />
+                      <div className="flex flex-wrap gap-2">
+                        {parseDateList(formData.exception_dates).map(date => (
+                          <span key={date} className="px-3 py-1 bg-white border border-slate-200 rounded-full text-xs text-slate-600 flex items-center gap-1">
+                            {formatHijriBn(toHijri(date))} ({weekdayBn(date)})
+                            <button
+                              type="button"
+                              onClick={() => setFormData({...formData, exception_dates: parseDateList(formData.exception_dates).filter(d => d !== date).join(',')})}
+                              className="text-slate-400 hover:text-red-500"
+                            >
+                              <X size={12} />
+                            </button>
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -1070,6 +1990,28 @@ export default function App() {
                       onChange={(e) => setFormData({...formData, start_time: e.target.value})}
                     />
                   </div>
+                  <div className="space-y-1">
+                    <label className="text-xs font-bold text-slate-500 uppercase">ইফতারের সময়</label>
+                    <input 
+                      type="time"
+                      className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                      value={formData.iftar_time}
+                      onChange={(e) => {
+                        setIftarTimeEdited(true);
+                        setFormData({...formData, iftar_time: e.target.value});
+                      }}
+                    />
+                    <p className="text-[11px] text-slate-400">
+                      {formTimes
+                        ? `হিসাব অনুযায়ী ইফতার ${formatClockBn(formTimes.iftar)}, সেহরি শেষ ${formatClockBn(formTimes.sehri_end)}`
+                        : 'তারিখ ও জেলা দিলে সময় স্বয়ংক্রিয়ভাবে বসবে'}
+                      {iftarTimeEdited && formTimes && (
+                        <button type="button" onClick={() => setIftarTimeEdited(false)} className="ml-1 text-emerald-600 hover:underline">
+                          হিসাবের সময় ব্যবহার করুন
+                        </button>
+                      )}
+                    </p>
+                  </div>
                   <div className="space-y-1">
                     <label className="text-xs font-bold text-slate-500 uppercase">যোগাযোগ নম্বর</label>
                     <input 
@@ -1079,6 +2021,7 @@ export default function App() {
                       value={formData.contact}
                       onChange={(e) => setFormData({...formData, contact: e.target.value})}
                     />
+                    <FieldError message={formErrors.contact} />
                   </div>
                 </div>
 
@@ -1142,6 +2085,7 @@ export default function App() {
                       onChange={(e) => setFormData({...formData, lng: parseFloat(e.target.value)})}
                     />
                   </div>
+                  <FieldError message={formErrors.lat} />
                 </div>
 
                 <div className="space-y-1">
@@ -1153,6 +2097,7 @@ export default function App() {
                     value={formData.link_url}
                     onChange={(e) => setFormData({...formData, link_url: e.target.value})}
                   />
+                  <FieldError message={formErrors.link_url} />
                 </div>
 
                 <div className="space-y-1">
@@ -1164,20 +2109,111 @@ export default function App() {
                     value={formData.description}
                     onChange={(e) => setFormData({...formData, description: e.target.value})}
                   />
+                  <FieldError message={formErrors.description} />
+                </div>
+
+                <div className="space-y-1">
+                  <label className="text-xs font-bold text-slate-500 uppercase">পোস্টার বা ছবি</label>
+                  {formData.image_url ? (
+                    <div className="relative rounded-xl overflow-hidden border border-slate-200">
+                      <img src={thumbnailUrl(formData.image_url)} alt="" className="w-full aspect-video object-cover" />
+                      <button
+                        type="button"
+                        onClick={() => setFormData({...formData, image_url: ""})}
+                        className="absolute top-2 right-2 p-1.5 bg-white/90 rounded-full text-slate-600 hover:text-red-500"
+                        title="ছবি সরান"
+                      >
+                        <X size={16} />
+                      </button>
+                    </div>
+                  ) : (
+                    <label className="w-full p-4 bg-slate-50 border border-dashed border-slate-300 rounded-xl flex flex-col items-center gap-1 text-sm text-slate-500 cursor-pointer hover:bg-slate-100">
+                      <ImagePlus size={24} className="text-slate-400" />
+                      {isUploadingImage ? 'আপলোড হচ্ছে...' : `ছবি বেছে নিন (JPG, PNG, WebP, সর্বোচ্চ ${toBanglaDigits(MAX_IMAGE_MB)} মেগাবাইট)`}
+                      <input
+                        type="file"
+                        accept={IMAGE_TYPES.join(',')}
+                        className="sr-only"
+                        disabled={isUploadingImage}
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          e.target.value = "";
+                          if (file) uploadImage(file);
+                        }}
+                      />
+                    </label>
+                  )}
+                  <FieldError message={formErrors.image_url} />
                 </div>
 
+                {!editingEvent && (
+                  <div className="space-y-1">
+                    <label className="text-xs font-bold text-slate-500 uppercase">আপনার ইমেইল (ঐচ্ছিক)</label>
+                    <input
+                      type="email"
+                      placeholder="ইভেন্ট পরিবর্তনের লিংক এই ঠিকানায় পাঠানো হবে"
+                      className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                      value={organizerEmail}
+                      onChange={(e) => setOrganizerEmail(e.target.value)}
+                    />
+                    <FieldError message={formErrors.organizer_email} />
+                  </div>
+                )}
+
+                {duplicateMatches && duplicateMatches.length > 0 && (
+                  <div className="p-4 bg-amber-50 rounded-2xl border border-amber-200 space-y-3">
+                    <p className="text-sm font-bold text-amber-800 flex items-center gap-2">
+                      <AlertTriangle size={16} />
+                      এই ইভেন্টটি হয়তো আগেই যুক্ত করা হয়েছে
+                    </p>
+                    <ul className="space-y-2">
+                      {duplicateMatches.map(match => (
+                        <li key={match.event.id} className="p-3 bg-white rounded-xl border border-amber-100 text-sm">
+                          <p className="font-bold text-slate-800">{match.event.name}</p>
+                          <p className="text-xs text-slate-500">
+                            {[match.event.address, match.event.village, match.event.upazila].filter(Boolean).join(', ')}
+                            {match.event.event_date && ` · ${match.event.event_date}`}
+                            {match.distance_km != null && ` · ${formatDistanceBn(match.distance_km)} দূরে`}
+                          </p>
+                        </li>
+                      ))}
+                    </ul>
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={closeForm}
+                        className="flex-1 bg-white text-slate-700 border border-slate-200 py-2 rounded-xl text-sm font-bold"
+                      >
+                        বাতিল করুন
+                      </button>
+                      <button
+                        type="button"
+                        disabled={isSubmitting}
+                        onClick={() => submitEvent(true)}
+                        className="flex-1 bg-amber-600 text-white py-2 rounded-xl text-sm font-bold disabled:opacity-70"
+                      >
+                        তবুও যুক্ত করুন
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {hasErrors(formErrors) && (
+                  <p className="text-sm text-red-600 text-center">কিছু তথ্য ঠিক করা দরকার। লাল লেখাগুলো দেখুন।</p>
+                )}
+
                 <button 
                   type="submit"
-                  disabled={isSubmitting}
+                  disabled={isSubmitting || isUploadingImage}
                   className="w-full bg-emerald-600 hover:bg-emerald-700 text-white py-4 rounded-2xl font-bold text-lg transition-all shadow-lg shadow-emerald-200 active:scale-[0.98] disabled:opacity-70 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                 >
                   {isSubmitting ? (
                     <>
                       <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                      যুক্ত হচ্ছে...
+                      {editingEvent ? "সংরক্ষণ হচ্ছে..." : "যুক্ত হচ্ছে..."}
                     </>
                   ) : (
-                    "ইভেন্টটি যুক্ত করুন"
+                    editingEvent ? "পরিবর্তন সংরক্ষণ করুন" : "ইভেন্টটি যুক্ত করুন"
                   )}
                 </button>
               </form>
@@ -1186,6 +2222,40 @@ export default function App() {
         )}
       </AnimatePresence>
 
+      {/* Duplicate Merge Modal */}
+      <AnimatePresence>
+        {mergingEvent && (
+          <MergeEventsModal
+            event={mergingEvent}
+            onClose={() => setMergingEvent(null)}
+            onMerged={() => {
+              setMergingEvent(null);
+              fetchEvents();
+            }}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Management Link Modal */}
+      <AnimatePresence>
+        {manageLink && (
+          <ManageLinkModal {...manageLink} onClose={() => setManageLink(null)} />
+        )}
+      </AnimatePresence>
+
+      {/* Admin Login Modal */}
+      <AnimatePresence>
+        {showAdminLogin && (
+          <AdminLoginModal 
+            onClose={() => setShowAdminLogin(false)}
+            onLogin={(user) => {
+              setAdminUser(user);
+              setShowAdminLogin(false);
+            }}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Footer */}
       <footer className="bg-white border-t border-slate-100 py-12 px-4 mt-20">
         <div className="max-w-5xl mx-auto grid grid-cols-1 md:grid-cols-4 gap-12">
@@ -1212,18 +2282,21 @@ export default function App() {
           <div>
             <h5 className="font-bold text-slate-900 mb-6 uppercase text-xs tracking-widest">Useful Links</h5>
             <ul className="space-y-4">
-              <li><button onClick={() => setCurrentPage('iftar')} className="text-slate-500 hover:text-emerald-600 text-sm transition-colors">Home</button></li>
-              <li><button onClick={() => setCurrentPage('about')} className="text-slate-500 hover:text-emerald-600 text-sm transition-colors">About us</button></li>
-              <li><button onClick={() => setCurrentPage('products')} className="text-slate-500 hover:text-emerald-600 text-sm transition-colors">Products</button></li>
-              <li><button onClick={() => setCurrentPage('services')} className="text-slate-500 hover:text-emerald-600 text-sm transition-colors">Services</button></li>
-              <li><button onClick={() => setCurrentPage('contact')} className="text-slate-500 hover:text-emerald-600 text-sm transition-colors">Contact us</button></li>
+              <li><Link to="/" className="text-slate-500 hover:text-emerald-600 text-sm transition-colors">Home</Link></li>
+              <li><Link to="/about" className="text-slate-500 hover:text-emerald-600 text-sm transition-colors">About us</Link></li>
+              <li><Link to="/products" className="text-slate-500 hover:text-emerald-600 text-sm transition-colors">Products</Link></li>
+              <li><Link to="/services" className="text-slate-500 hover:text-emerald-600 text-sm transition-colors">Services</Link></li>
+              <li><Link to="/contact" className="text-slate-500 hover:text-emerald-600 text-sm transition-colors">Contact us</Link></li>
+              {!adminUser && (
+                <li><button onClick={() => setShowAdminLogin(true)} className="text-slate-500 hover:text-emerald-600 text-sm transition-colors flex items-center gap-1"><Lock size={12} /> Admin login</button></li>
+              )}
             </ul>
           </div>
 
           <div>
             <h5 className="font-bold text-slate-900 mb-6 uppercase text-xs tracking-widest">Connect with us</h5>
             <p className="text-slate-500 text-sm mb-4">im.softwark.team@gmail.com</p>
-            <button onClick={() => setCurrentPage('contact')} className="bg-emerald-600 text-white px-6 py-2 rounded-xl text-sm font-bold hover:bg-emerald-700 transition-all">Contact Us</button>
+            <Link to="/contact" className="bg-emerald-600 text-white px-6 py-2 rounded-xl text-sm font-bold hover:bg-emerald-700 transition-all">Contact Us</Link>
           </div>
         </div>
         <div className="max-w-5xl mx-auto border-t border-slate-50 mt-12 pt-8 flex flex-col md:flex-row justify-between items-center gap-4">
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { X, Lock } from 'lucide-react';
+import { motion } from 'motion/react';
+import type { AdminUser } from '../types';
+
+interface AdminLoginModalProps {
+  onClose: () => void;
+  onLogin: (user: AdminUser) => void;
+}
+
+export default function AdminLoginModal({ onClose, onLogin }: AdminLoginModalProps) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSubmitting) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/admin/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password })
+      });
+      if (res.ok) {
+        const { user } = await res.json();
+        onLogin(user);
+      } else if (res.status === 401) {
+        setError("ভুল ইউজারনেম অথবা পাসওয়ার্ড।");
+      } else if (res.status === 429) {
+        setError("অনেকবার ভুল চেষ্টা হয়েছে। কিছুক্ষণ পর আবার চেষ্টা করুন।");
+      } else {
+        setError("লগইন করতে সমস্যা হয়েছে।");
+      }
+    } catch (e) {
+      console.error("Admin login failed", e);
+      setError("সার্ভার এরর। আবার চেষ্টা করুন।");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.9, y: 20 }}
+        className="bg-white w-full max-w-sm rounded-3xl shadow-2xl relative z-10 overflow-hidden"
+      >
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-emerald-50">
+          <h3 className="text-xl font-bold text-emerald-900 flex items-center gap-2">
+            <Lock size={20} />
+            অ্যাডমিন লগইন
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white rounded-full transition-colors text-emerald-700"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="space-y-1">
+            <label className="text-xs font-bold text-slate-500 uppercase">ইউজারনেম</label>
+            <input
+              required
+              type="text"
+              autoComplete="username"
+              className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-bold text-slate-500 uppercase">পাসওয়ার্ড</label>
+            <input
+              required
+              type="password"
+              autoComplete="current-password"
+              className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600 font-medium">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-emerald-600 hover:bg-emerald-700 text-white py-3 rounded-2xl font-bold transition-all shadow-lg shadow-emerald-200 active:scale-[0.98] disabled:opacity-70 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? "লগইন হচ্ছে..." : "লগইন করুন"}
+          </button>
+        </form>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+import React, { useEffect, useState } from 'react';
+import { Link, Navigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Calendar, CalendarPlus, Check, Clock, ExternalLink, MapPin, Phone, Repeat, Share2, Sunrise, Sunset } from 'lucide-react';
+import { motion } from 'motion/react';
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '../firebase';
+import { supabase } from '../supabase';
+import type { Event } from '../types';
+import { getEventType } from '../eventTypes';
+import EventMap from './EventMap';
+import { formatClockBn } from '../lib/bangla';
+import { formatHijriBn, toHijri, weekdayBn } from '../lib/hijri';
+import { eventPrayerTimes, todayInBangladesh } from '../lib/prayerTimes';
+import { countdownBn, eventNextDate, formatScheduleBn } from '../lib/schedule';
+import { districtPath, eventPath } from '../lib/routes';
+import { findDistrict } from '../lib/geo';
+import { STATUS_LABELS, STATUS_STYLES, eventStatus } from '../lib/eventStatus';
+
+type LoadedEvent = { event: Event } | { mergedInto: string } | null;
+
+// Reads one event from the server, or from a replica when the server is
+// unreachable. Replicas store the stable event id as uid; only approved
+// events are read from them, as the server would show no others.
+async function loadEvent(id: string): Promise<LoadedEvent> {
+  try {
+    const res = await fetch(`/api/events/${encodeURIComponent(id)}`);
+    if (res.status === 404) {
+      const { merged_into } = await res.json().catch(() => ({}));
+      return merged_into ? { mergedInto: merged_into } : null;
+    }
+    if (!res.ok) throw new Error(`Server responded with ${res.status}`);
+    return { event: await res.json() };
+  } catch (error) {
+    console.error("Failed to fetch event from server", error);
+  }
+  try {
+    const { data, error } = await supabase.from('events').select('*').eq('uid', id).eq('status', 'approved').maybeSingle();
+    if (error) throw error;
+    return data ? { event: { ...data, id: data.uid } as Event } : null;
+  } catch (supabaseError) {
+    console.error("Supabase fallback failed", supabaseError);
+    const snapshot = await getDoc(doc(db, 'events', id));
+    return snapshot.exists() && snapshot.get('status') === 'approved' ? { event: { ...snapshot.data(), id: snapshot.id } as Event } : null;
+  }
+}
+
+interface EventDetailPageProps {
+  copiedId: string | null;
+  onShare: (event: Event) => void;
+}
+
+// The page an event's shared link opens: /event/:id
+export default function EventDetailPage({ copiedId, onShare }: EventDetailPageProps) {
+  const { id = '' } = useParams();
+  const [loaded, setLoaded] = useState<LoadedEvent | undefined>(undefined);
+
+  useEffect(() => {
+    let current = true;
+    setLoaded(undefined);
+    loadEvent(id)
+      .then(result => { if (current) setLoaded(result); })
+      .catch(error => {
+        console.error("Firebase fallback failed", error);
+        if (current) setLoaded(null);
+      });
+    return () => { current = false; };
+  }, [id]);
+
+  if (loaded === undefined) {
+    return (
+      <div className="flex justify-center py-20">
+        <div className="w-12 h-12 border-4 border-emerald-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (loaded && 'mergedInto' in loaded) {
+    return <Navigate to={eventPath(loaded.mergedInto)} replace />;
+  }
+
+  if (!loaded) {
+    return (
+      <main className="max-w-3xl mx-auto px-4 py-20 text-center">
+        <h2 className="text-2xl font-bold text-slate-800 mb-2">ইভেন্টটি পাওয়া যায়নি</h2>
+        <p className="text-slate-500 mb-6">লিংকটি ভুল হতে পারে, অথবা ইভেন্টটি মুছে ফেলা হয়েছে।</p>
+        <Link to="/" className="inline-flex items-center gap-2 bg-emerald-600 hover:bg-emerald-700 text-white px-6 py-3 rounded-xl font-bold transition-all">
+          <ArrowLeft size={18} />
+          সব ইভেন্ট দেখুন
+        </Link>
+      </main>
+    );
+  }
+
+  const { event } = loaded;
+  const typeInfo = getEventType(event.type);
+  const today = todayInBangladesh();
+  const targetDate = eventNextDate(event, today);
+  const schedule = formatScheduleBn(event);
+  const times = targetDate ? eventPrayerTimes(event, targetDate) : null;
+  const iftar = event.iftar_time || times?.iftar;
+  const districtCode = event.district_code || findDistrict(event.district)?.code;
+  const copied = copiedId === event.id.toString();
+
+  return (
+    <main className="max-w-3xl mx-auto px-4 py-8">
+      <Link to="/" className="inline-flex items-center gap-2 text-sm font-bold text-slate-500 hover:text-emerald-600 transition-colors mb-6">
+        <ArrowLeft size={16} />
+        সব ইভেন্ট
+      </Link>
+
+      <motion.article
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white rounded-3xl border border-slate-100 shadow-sm overflow-hidden"
+      >
+        {event.image_url && (
+          <img src={event.image_url} alt={event.name} className="w-full max-h-[480px] object-cover bg-slate-100" />
+        )}
+        <div className="p-6 md:p-8 space-y-6">
+          <div className="flex flex-wrap gap-2">
+            <span className={`px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider ${typeInfo.bg} ${typeInfo.color}`}>
+              {typeInfo.label}
+            </span>
+            {eventStatus(event) !== 'approved' && (
+              <span className={`px-3 py-1 rounded-full text-[10px] font-bold tracking-wider ${STATUS_STYLES[eventStatus(event)]}`}>
+                {STATUS_LABELS[eventStatus(event)]}
+              </span>
+            )}
+            {event.cancelled_at ? (
+              <span className="px-3 py-1 bg-red-100 text-red-700 rounded-full text-[10px] font-bold tracking-wider">
+                বাতিল
+              </span>
+            ) : targetDate && (
+              <span className="px-3 py-1 bg-amber-100 text-amber-700 rounded-full text-[10px] font-bold uppercase tracking-wider flex items-center gap-1">
+                <Clock size={10} />
+                {countdownBn(targetDate, today)}
+              </span>
+            )}
+          </div>
+
+          <h2 className="text-3xl font-bold text-slate-900">{event.name}</h2>
+
+          {event.cancelled_at && (
+            <p className="p-3 bg-red-50 border border-red-100 rounded-xl text-sm font-medium text-red-700">
+              আয়োজক এই ইভেন্টটি বাতিল করেছেন।
+            </p>
+          )}
+
+          <div className="space-y-3 text-slate-600">
+            <div className="flex items-start gap-2">
+              <MapPin size={18} className="text-emerald-500 shrink-0 mt-0.5" />
+              <span>
+                {[event.address, event.village, event.union_name, event.upazila].filter(Boolean).join(', ')}
+                {event.district && (
+                  <>
+                    {', '}
+                    {districtCode
+                      ? <Link to={districtPath(districtCode)} className="text-emerald-600 hover:underline">{event.district}</Link>
+                      : event.district}
+                  </>
+                )}
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              <Calendar size={18} className="text-emerald-500 shrink-0" />
+              <span className="font-medium text-slate-700">
+                {targetDate
+                  ? `${formatHijriBn(toHijri(targetDate))} (${weekdayBn(targetDate)})`
+                  : event.event_date || event.date_range || 'তারিখ উল্লেখ নেই'}
+              </span>
+            </div>
+            {schedule && (
+              <div className="flex items-center gap-2">
+                <Repeat size={18} className="text-emerald-500 shrink-0" />
+                <span>{schedule}</span>
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <Clock size={18} className="text-emerald-500 shrink-0" />
+              <span>{event.start_time || 'আসরের পর'} থেকে ইফতার পর্যন্ত</span>
+            </div>
+            {iftar && (
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+                <span className="flex items-center gap-2">
+                  <Sunset size={18} className="text-emerald-500" />
+                  <span>ইফতার: <span className="font-medium text-slate-700">{formatClockBn(iftar)}</span></span>
+                </span>
+                {times && (
+                  <span className="flex items-center gap-2">
+                    <Sunrise size={18} className="text-emerald-500" />
+                    <span>সেহরি শেষ: <span className="font-medium text-slate-700">{formatClockBn(times.sehri_end)}</span></span>
+                  </span>
+                )}
+              </div>
+            )}
+            {event.contact && (
+              <div className="flex items-center gap-2">
+                <Phone size={18} className="text-emerald-500 shrink-0" />
+                <a href={`tel:${event.contact}`} className="text-emerald-600 hover:underline">{event.contact}</a>
+              </div>
+            )}
+            {event.link_url && (
+              <div className="flex items-center gap-2">
+                <ExternalLink size={18} className="text-emerald-500 shrink-0" />
+                <a href={event.link_url} target="_blank" rel="noopener noreferrer" className="text-emerald-600 hover:underline truncate">
+                  লোকেশন লিংক
+                </a>
+              </div>
+            )}
+          </div>
+
+          {event.description && (
+            <p className="text-slate-700 whitespace-pre-line leading-relaxed">{event.description}</p>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <a
+              href={event.lat && event.lng ? `https://www.google.com/maps/search/?api=1&query=${event.lat},${event.lng}` : `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(`${event.name} ${event.address} ${event.village}`)}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex-1 bg-slate-50 hover:bg-slate-100 text-slate-700 py-3 px-4 rounded-xl text-sm font-bold transition-all flex items-center justify-center gap-2"
+            >
+              <MapPin size={16} />
+              লোকেশন
+            </a>
+            <button
+              onClick={() => onShare(event)}
+              className="flex-1 bg-emerald-50 hover:bg-emerald-100 text-emerald-700 py-3 px-4 rounded-xl text-sm font-bold transition-all flex items-center justify-center gap-2"
+            >
+              {copied ? <Check size={16} /> : <Share2 size={16} />}
+              {copied ? 'কপি' : 'শেয়ার'}
+            </button>
+            {event.target_date && (
+              <a
+                href={`/api/events/${event.id}.ics`}
+                download
+                className="flex-1 bg-amber-50 hover:bg-amber-100 text-amber-700 py-3 px-4 rounded-xl text-sm font-bold transition-all flex items-center justify-center gap-2"
+              >
+                <CalendarPlus size={16} />
+                ক্যালেন্ডারে যোগ করুন
+              </a>
+            )}
+          </div>
+        </div>
+      </motion.article>
+
+      {event.lat != null && event.lng != null && (
+        <div className="h-[360px] mt-6 bg-white rounded-3xl border border-slate-100 shadow-sm overflow-hidden">
+          <EventMap events={[event]} nearMe={null} copiedId={copiedId} onShare={onShare} />
+        </div>
+      )}
+    </main>
+  );
+}
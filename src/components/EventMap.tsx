@@ -0,0 +1,188 @@
+import React, { useEffect } from 'react';
+import { MapContainer, TileLayer, Marker, Popup, CircleMarker, useMap } from 'react-leaflet';
+import { createPathComponent } from '@react-leaflet/core';
+import { Link } from 'react-router-dom';
+import L from 'leaflet';
+import 'leaflet.markercluster';
+import 'leaflet/dist/leaflet.css';
+import 'leaflet.markercluster/dist/MarkerCluster.css';
+import 'leaflet.markercluster/dist/MarkerCluster.Default.css';
+import markerIcon from 'leaflet/dist/images/marker-icon.png';
+import markerIcon2x from 'leaflet/dist/images/marker-icon-2x.png';
+import markerShadow from 'leaflet/dist/images/marker-shadow.png';
+import { Calendar, Clock, MapPin, Navigation, Phone, Share2, Check, Sunset } from 'lucide-react';
+import type { Event } from '../types';
+import { DEFAULT_MARKER, EVENT_TYPES, getEventType } from '../eventTypes';
+import { formatClockBn, formatDistanceBn } from '../lib/bangla';
+import { formatHijriBn, toHijri, weekdayBn } from '../lib/hijri';
+import { eventPrayerTimes, todayInBangladesh } from '../lib/prayerTimes';
+import { countdownBn, eventNextDate, formatScheduleBn } from '../lib/schedule';
+import { thumbnailUrl } from '../lib/images';
+import { eventPath } from '../lib/routes';
+
+// Leaflet's own marker images, bundled instead of loaded from a CDN
+L.Marker.prototype.options.icon = L.icon({
+  iconUrl: markerIcon,
+  iconRetinaUrl: markerIcon2x,
+  shadowUrl: markerShadow,
+  iconSize: [25, 41],
+  iconAnchor: [12, 41],
+  popupAnchor: [1, -34]
+});
+
+const markerIconFor = (url: string) => L.icon({
+  iconUrl: url,
+  iconSize: [32, 42],
+  iconAnchor: [16, 42],
+  popupAnchor: [0, -36]
+});
+
+const TYPE_ICONS: Record<string, L.Icon> = Object.fromEntries(EVENT_TYPES.map(t => [t.id, markerIconFor(t.marker)]));
+const DEFAULT_ICON = markerIconFor(DEFAULT_MARKER);
+
+// Groups dense markers into numbered clusters that split apart on zoom
+const MarkerClusterGroup = createPathComponent<L.MarkerClusterGroup, L.MarkerClusterGroupOptions & { children?: React.ReactNode }>(
+  ({ children: _children, ...options }, context) => {
+    const instance = L.markerClusterGroup(options);
+    return { instance, context: { ...context, layerContainer: instance } };
+  }
+);
+
+// Zooms the map to show every result, and the visitor's location if known
+function FitBounds({ points }: { points: [number, number][] }) {
+  const map = useMap();
+  const key = points.map(p => p.join(',')).join(';');
+  useEffect(() => {
+    if (points.length === 1) {
+      map.setView(points[0], 15);
+    } else if (points.length > 1) {
+      map.fitBounds(L.latLngBounds(points), { padding: [40, 40], maxZoom: 15 });
+    }
+  }, [key, map]);
+  return null;
+}
+
+interface EventMapProps {
+  events: Event[];
+  nearMe?: { lat: number; lng: number } | null;
+  copiedId: string | null;
+  onShare: (event: Event) => void;
+}
+
+function EventPopup({ event, copied, onShare }: { event: Event; copied: boolean; onShare: () => void }) {
+  const typeInfo = getEventType(event.type);
+  const today = todayInBangladesh();
+  const nextDate = eventNextDate(event, today);
+  const schedule = formatScheduleBn(event);
+  const times = nextDate ? eventPrayerTimes(event, nextDate) : null;
+  const iftar = event.iftar_time || times?.iftar;
+
+  return (
+    <div className="w-60 space-y-2">
+      {event.image_url && (
+        <img src={thumbnailUrl(event.image_url)} alt={event.name} loading="lazy" className="w-full aspect-video object-cover rounded-lg" />
+      )}
+      <div className="flex flex-wrap gap-1">
+        <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold ${typeInfo.bg} ${typeInfo.color}`}>
+          {typeInfo.label}
+        </span>
+        {event.cancelled_at ? (
+          <span className="px-2 py-0.5 bg-red-100 text-red-700 rounded-full text-[10px] font-bold">
+            বাতিল
+          </span>
+        ) : nextDate && (
+          <span className="px-2 py-0.5 bg-amber-100 text-amber-700 rounded-full text-[10px] font-bold flex items-center gap-1">
+            <Clock size={10} />
+            {countdownBn(nextDate, today)}
+          </span>
+        )}
+        {event.distance_km != null && (
+          <span className="px-2 py-0.5 bg-sky-100 text-sky-700 rounded-full text-[10px] font-bold">
+            {formatDistanceBn(event.distance_km)} দূরে
+          </span>
+        )}
+      </div>
+      <h5 className="font-bold text-emerald-800 text-sm leading-tight">
+        <Link to={eventPath(event.id)} className="!text-emerald-800 hover:underline">{event.name}</Link>
+      </h5>
+      <div className="space-y-1 text-xs text-slate-600">
+        <p className="flex items-start gap-1 !m-0">
+          <MapPin size={12} className="text-emerald-500 shrink-0 mt-0.5" />
+          <span>{[event.address, event.village, event.union_name, event.upazila, event.district].filter(Boolean).join(', ')}</span>
+        </p>
+        <p className="flex items-center gap-1 !m-0">
+          <Calendar size={12} className="text-emerald-500 shrink-0" />
+          <span>
+            {nextDate
+              ? `${formatHijriBn(toHijri(nextDate))} (${weekdayBn(nextDate)})`
+              : event.event_date || event.date_range || 'তারিখ উল্লেখ নেই'}
+          </span>
+        </p>
+        {schedule && <p className="!m-0 pl-4 text-slate-500">{schedule}</p>}
+        {iftar && (
+          <p className="flex items-center gap-1 !m-0">
+            <Sunset size={12} className="text-emerald-500 shrink-0" />
+            <span>ইফতার: {formatClockBn(iftar)}</span>
+          </p>
+        )}
+      </div>
+      <div className="flex gap-1 pt-1">
+        {event.contact && (
+          <a
+            href={`tel:${event.contact}`}
+            className="flex-1 bg-emerald-600 !text-white py-1.5 rounded-lg text-[11px] font-bold flex items-center justify-center gap-1"
+          >
+            <Phone size={12} />
+            কল
+          </a>
+        )}
+        <a
+          href={`https://www.google.com/maps/dir/?api=1&destination=${event.lat},${event.lng}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex-1 bg-slate-100 !text-slate-700 py-1.5 rounded-lg text-[11px] font-bold flex items-center justify-center gap-1"
+        >
+          <Navigation size={12} />
+          পথ
+        </a>
+        <button
+          onClick={onShare}
+          className="flex-1 bg-emerald-50 text-emerald-700 py-1.5 rounded-lg text-[11px] font-bold flex items-center justify-center gap-1"
+        >
+          {copied ? <Check size={12} /> : <Share2 size={12} />}
+          {copied ? 'কপি' : 'শেয়ার'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function EventMap({ events, nearMe, copiedId, onShare }: EventMapProps) {
+  const located = events.filter(e => e.lat != null && e.lng != null && !isNaN(e.lat) && !isNaN(e.lng));
+  const points: [number, number][] = located.map(e => [e.lat!, e.lng!]);
+  if (nearMe) points.push([nearMe.lat, nearMe.lng]);
+
+  return (
+    <MapContainer center={[23.685, 90.3563]} zoom={7} style={{ height: '100%', width: '100%' }}>
+      <TileLayer
+        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+      />
+      <FitBounds points={points} />
+      {nearMe && (
+        <CircleMarker center={[nearMe.lat, nearMe.lng]} radius={8} pathOptions={{ color: '#0284c7', fillColor: '#38bdf8', fillOpacity: 0.8 }}>
+          <Popup>আপনার অবস্থান</Popup>
+        </CircleMarker>
+      )}
+      <MarkerClusterGroup chunkedLoading showCoverageOnHover={false} maxClusterRadius={50}>
+        {located.map(event => (
+          <Marker key={event.id} position={[event.lat!, event.lng!]} icon={TYPE_ICONS[event.type] || DEFAULT_ICON}>
+            <Popup>
+              <EventPopup event={event} copied={copiedId === event.id.toString()} onShare={() => onShare(event)} />
+            </Popup>
+          </Marker>
+        ))}
+      </MarkerClusterGroup>
+    </MapContainer>
+  );
+}
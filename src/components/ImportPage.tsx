@@ -0,0 +1,254 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, Check, Download, FileSpreadsheet, Upload } from 'lucide-react';
+import type { AdminUser, DuplicateMatch, Event, EventStatus } from '../types';
+import type { EventErrors } from '../lib/eventSchema';
+import { IMPORT_FIELDS, type ImportField } from '../lib/importColumns';
+import { toBanglaDigits } from '../lib/bangla';
+import { eventPath } from '../lib/routes';
+
+interface ImportRow {
+  row: number;
+  input: Partial<Event>;
+  errors: EventErrors;
+  duplicates: DuplicateMatch[];
+  id?: string;
+  status?: EventStatus;
+  manage_url?: string;
+}
+
+interface ImportReport {
+  columns: { header: string; field: ImportField | null }[];
+  rows: ImportRow[];
+  dry_run: boolean;
+  created: number;
+}
+
+const fieldLabel = (field: string) =>
+  IMPORT_FIELDS.find(f => f.field === field)?.label ?? field;
+
+interface ImportPageProps {
+  adminUser: AdminUser | null;
+  onImported: () => void;
+}
+
+// Upload a CSV or Excel sheet of events, check the dry-run preview and
+// column mapping, then add the valid rows. Rows imported without a moderator
+// account wait for review and come back with their management links.
+export default function ImportPage({ adminUser, onImported }: ImportPageProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [allowDuplicates, setAllowDuplicates] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const send = async (dryRun: boolean, sheet = file, columns = mapping) => {
+    if (!sheet || isWorking) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      const body = new FormData();
+      body.append('file', sheet);
+      body.append('mapping', JSON.stringify(columns));
+      body.append('dry_run', String(dryRun));
+      body.append('allow_duplicates', String(allowDuplicates));
+      const res = await fetch('/api/events/import', { method: 'POST', body, headers: { 'X-Requested-With': 'fetch' } });
+      if (res.status === 429) {
+        setError("অল্প সময়ে অনেকবার চেষ্টা করা হয়েছে। কিছুক্ষণ পর আবার চেষ্টা করুন।");
+        return;
+      }
+      if (res.status === 413) {
+        setError("ফাইলটি অনেক বড়।");
+        return;
+      }
+      if (res.status === 400) {
+        const { error: message } = await res.json().catch(() => ({}));
+        setError(`ফাইলটি পড়া যায়নি: ${message ?? ''}`);
+        return;
+      }
+      if (!res.ok) throw new Error(`Server responded with ${res.status}`);
+      const data: ImportReport = await res.json();
+      setReport(data);
+      if (!dryRun && data.created) onImported();
+    } catch (e) {
+      console.error("Import failed", e);
+      setError("ইমপোর্ট করতে সমস্যা হয়েছে। আবার চেষ্টা করুন।");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const chooseFile = (chosen: File | null) => {
+    setFile(chosen);
+    setMapping({});
+    setReport(null);
+    if (chosen) send(true, chosen, {});
+  };
+
+  const changeColumn = (header: string, field: string) => {
+    const next = { ...mapping, [header]: field };
+    setMapping(next);
+    send(true, file, next);
+  };
+
+  const rows = report?.rows ?? [];
+  const invalid = rows.filter(r => Object.keys(r.errors).length);
+  const ready = rows.filter(r => !Object.keys(r.errors).length && (allowDuplicates || !r.duplicates.length));
+  const imported = report && !report.dry_run;
+  const pending = rows.filter(r => r.status === 'pending');
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-8 space-y-6">
+      <div className="bg-white rounded-3xl border border-slate-200 p-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <FileSpreadsheet className="text-emerald-600" />
+          <h2 className="text-xl font-bold text-slate-800">একসাথে ইভেন্ট ইমপোর্ট</h2>
+        </div>
+        <p className="text-sm text-slate-500">
+          CSV বা Excel (.xlsx) ফাইলের প্রথম সারিতে কলামের নাম থাকবে, প্রতিটি পরের সারিতে একটি ইভেন্ট। যুক্ত করার আগে প্রতিটি সারি যাচাই করে দেখানো হবে।
+        </p>
+        {!adminUser && (
+          <p className="text-sm text-slate-500">
+            একবারে সর্বোচ্চ ৫০টি ইভেন্ট যুক্ত করা যাবে। মডারেটরের অনুমোদনের পর ইভেন্টগুলো সবাই দেখতে পাবেন।
+          </p>
+        )}
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-xl text-sm font-bold cursor-pointer transition-all">
+            <Upload size={16} />
+            ফাইল বাছাই করুন
+            <input
+              type="file"
+              accept=".csv,.xlsx"
+              className="hidden"
+              onChange={e => {
+                chooseFile(e.target.files?.[0] ?? null);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <a href="/api/events/import/template.csv" download className="flex items-center gap-2 text-sm font-bold text-emerald-700 hover:underline">
+            <Download size={16} />
+            নমুনা ফাইল
+          </a>
+          {file && <span className="text-sm text-slate-600">{file.name}</span>}
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+
+      {report && !imported && (
+        <div className="bg-white rounded-3xl border border-slate-200 p-6 space-y-3">
+          <h3 className="font-bold text-slate-800">কলাম মেলানো</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {report.columns.map(({ header, field }) => (
+              <label key={header} className="flex flex-col gap-1 text-sm">
+                <span className="text-slate-500">{header}</span>
+                <select
+                  value={field ?? ''}
+                  disabled={isWorking}
+                  onChange={e => changeColumn(header, e.target.value)}
+                  className="border border-slate-200 rounded-xl px-3 py-2 bg-white"
+                >
+                  <option value="">— বাদ দিন —</option>
+                  {IMPORT_FIELDS.map(f => <option key={f.field} value={f.field}>{f.label}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {report && (
+        <div className="bg-white rounded-3xl border border-slate-200 p-6 space-y-4">
+          {imported ? (
+            <div className="space-y-1">
+              <p className="flex items-center gap-2 font-bold text-emerald-700">
+                <Check size={18} />
+                {toBanglaDigits(report.created)} টি ইভেন্ট যুক্ত হয়েছে।
+              </p>
+              {pending.length > 0 && (
+                <p className="text-sm text-slate-600">
+                  {toBanglaDigits(pending.length)} টি ইভেন্ট মডারেটরের অনুমোদনের অপেক্ষায় আছে।
+                  {pending.some(r => r.manage_url) && ' প্রতিটি ইভেন্টের পরিচালনা লিংক শুধু এখনই দেখানো হচ্ছে; লিংকগুলো সংরক্ষণ করে রাখুন।'}
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-slate-600">
+              মোট {toBanglaDigits(rows.length)} সারি · যুক্ত করা যাবে {toBanglaDigits(ready.length)} · ভুল {toBanglaDigits(invalid.length)}
+            </p>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 border-b border-slate-100">
+                  <th className="py-2 pr-3">সারি</th>
+                  <th className="py-2 pr-3">নাম</th>
+                  <th className="py-2 pr-3">এলাকা</th>
+                  <th className="py-2 pr-3">তারিখ</th>
+                  <th className="py-2">অবস্থা</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(r => {
+                  const errors = Object.entries(r.errors);
+                  return (
+                    <tr key={r.row} className="border-b border-slate-50 align-top">
+                      <td className="py-2 pr-3 text-slate-400">{toBanglaDigits(r.row)}</td>
+                      <td className="py-2 pr-3 font-medium text-slate-800">
+                        {r.id ? <Link to={eventPath(r.id)} className="text-emerald-700 hover:underline">{r.input.name}</Link> : r.input.name}
+                      </td>
+                      <td className="py-2 pr-3 text-slate-600">{[r.input.upazila, r.input.district].filter(Boolean).join(', ')}</td>
+                      <td className="py-2 pr-3 text-slate-600">{r.input.event_date}</td>
+                      <td className="py-2">
+                        {errors.length > 0 ? (
+                          <ul className="text-red-600 space-y-0.5">
+                            {errors.map(([field, message]) => <li key={field}>{fieldLabel(field)}: {message}</li>)}
+                          </ul>
+                        ) : r.duplicates.length > 0 && !r.id ? (
+                          <p className="flex items-start gap-1 text-amber-700">
+                            <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+                            মিল আছে: {r.duplicates.map(d => d.event.name).join(', ')}
+                          </p>
+                        ) : (
+                          <div className="space-y-0.5">
+                            <p className="flex items-center gap-1 text-emerald-700">
+                              <Check size={14} />
+                              {r.status === 'pending' ? 'অনুমোদনের অপেক্ষায়' : r.id ? 'যুক্ত হয়েছে' : 'ঠিক আছে'}
+                            </p>
+                            {r.manage_url && (
+                              <a href={r.manage_url} target="_blank" rel="noreferrer" className="text-emerald-700 hover:underline break-all">
+                                পরিচালনা লিংক
+                              </a>
+                            )}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {!imported && (
+            <div className="flex flex-wrap items-center justify-between gap-3 pt-2">
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input type="checkbox" checked={allowDuplicates} onChange={e => setAllowDuplicates(e.target.checked)} />
+                সম্ভাব্য ডুপ্লিকেটও যুক্ত করুন
+              </label>
+              <button
+                onClick={() => send(false)}
+                disabled={isWorking || !ready.length}
+                className="bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white px-5 py-2 rounded-xl text-sm font-bold transition-all"
+              >
+                {toBanglaDigits(ready.length)} টি ইভেন্ট যুক্ত করুন
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Check, Copy, KeyRound, X } from 'lucide-react';
+import { motion } from 'motion/react';
+
+interface ManageLinkModalProps {
+  url: string;
+  emailed: boolean;
+  // Shown to the submitter right after adding the event, rather than to a
+  // moderator who issued a new link
+  isNew: boolean;
+  // The event waits for a moderator before it is listed
+  pending: boolean;
+  onClose: () => void;
+}
+
+// The private link with which an organizer edits, cancels or extends their
+// event. It cannot be shown again, only replaced by a moderator.
+export default function ManageLinkModal({ url, emailed, isNew, pending, onClose }: ManageLinkModalProps) {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Failed to copy link", error);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.9, y: 20 }}
+        className="bg-white w-full max-w-md rounded-3xl shadow-2xl relative z-10 overflow-hidden"
+      >
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-emerald-50">
+          <h3 className="text-xl font-bold text-emerald-900 flex items-center gap-2">
+            <KeyRound size={20} />
+            {isNew ? "সফলভাবে যুক্ত হয়েছে!" : "নতুন ম্যানেজমেন্ট লিংক"}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white rounded-full transition-colors text-emerald-700"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {pending && (
+            <p className="p-3 bg-amber-50 border border-amber-100 rounded-xl text-sm text-amber-800">
+              মডারেটরের অনুমোদনের পর ইভেন্টটি তালিকায় দেখা যাবে। অনুমোদনের অবস্থা এই লিংক থেকে দেখতে পারবেন।
+            </p>
+          )}
+          <p className="text-sm text-slate-600">
+            এই লিংক দিয়ে কোনো অ্যাকাউন্ট ছাড়াই ইভেন্টটি সম্পাদনা, বাতিল বা মেয়াদ বাড়াতে পারবেন। লিংকটি সংরক্ষণ করুন ও গোপন রাখুন; এটি আর দেখানো হবে না।
+          </p>
+          <div className="flex gap-2">
+            <input
+              readOnly
+              value={url}
+              onFocus={e => e.target.select()}
+              className="flex-1 min-w-0 p-3 bg-slate-50 border border-slate-200 rounded-xl text-xs text-slate-700 outline-none"
+            />
+            <button
+              onClick={copy}
+              className="flex items-center gap-1 bg-emerald-600 hover:bg-emerald-700 text-white px-4 rounded-xl text-sm font-bold transition-all"
+            >
+              {copied ? <Check size={16} /> : <Copy size={16} />}
+              {copied ? "কপি হয়েছে" : "কপি"}
+            </button>
+          </div>
+          {emailed && (
+            <p className="text-xs text-slate-500">লিংকটি আপনার ইমেইলেও পাঠানো হয়েছে।</p>
+          )}
+          <button
+            onClick={onClose}
+            className="w-full bg-white text-slate-700 border border-slate-200 py-3 rounded-2xl font-bold hover:bg-slate-50 transition-all"
+          >
+            ঠিক আছে
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
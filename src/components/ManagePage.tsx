@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useLocation, useParams } from 'react-router-dom';
+import { Ban, CalendarPlus, ExternalLink, Pencil, RotateCcw, Settings } from 'lucide-react';
+import type { Event } from '../types';
+import { formatHijriBn, toHijri } from '../lib/hijri';
+import { todayInBangladesh } from '../lib/prayerTimes';
+import { eventNextDate, formatScheduleBn } from '../lib/schedule';
+import { eventPath } from '../lib/routes';
+import { STATUS_LABELS, STATUS_STYLES, eventStatus } from '../lib/eventStatus';
+
+interface ManagePageProps {
+  // Opens the event form for the organizer, sending their edit token
+  onEdit: (event: Event, token: string) => void;
+  // Changes each time an edit is saved, so the page shows the new details
+  reloadKey: number;
+}
+
+// The organizer's management page, /manage/:id#<edit token>, linked from
+// the confirmation shown after submitting an event and from the email.
+export default function ManagePage({ onEdit, reloadKey }: ManagePageProps) {
+  const { id = '' } = useParams();
+  const token = useLocation().hash.slice(1);
+  const [event, setEvent] = useState<Event | null | undefined>(undefined);
+  const [endDate, setEndDate] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const headers = { 'Content-Type': 'application/json', 'X-Edit-Token': token };
+
+  useEffect(() => {
+    let current = true;
+    if (!token) {
+      setEvent(null);
+      return;
+    }
+    fetch(`/api/events/${encodeURIComponent(id)}/manage`, { headers })
+      .then(async res => {
+        if (!current) return;
+        if (res.status === 401 || res.status === 404) return setEvent(null);
+        if (!res.ok) throw new Error(`Server responded with ${res.status}`);
+        const data: { event: Event } = await res.json();
+        setEvent(data.event);
+        setEndDate(data.event.end_date || '');
+      })
+      .catch(e => {
+        console.error("Failed to load event for management", e);
+        if (current) setError("ইভেন্টটি লোড করা যায়নি। আবার চেষ্টা করুন।");
+      });
+    return () => { current = false; };
+  }, [id, token, reloadKey]);
+
+  // Sends a change and shows the stored event the server returns
+  const send = async (path: string, method: 'POST' | 'PUT', body: object) => {
+    if (isWorking) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/events/${encodeURIComponent(id)}${path}`, { method, headers, body: JSON.stringify(body) });
+      if (res.status === 401) {
+        setEvent(null);
+        return;
+      }
+      if (res.status === 429) {
+        setError("অল্প সময়ে অনেকবার চেষ্টা করা হয়েছে। কিছুক্ষণ পর আবার চেষ্টা করুন।");
+        return;
+      }
+      if (res.status === 400) {
+        const { fields, blocked } = await res.json().catch(() => ({}));
+        setError(fields ? Object.values(fields).join(' ')
+          : blocked ? "নামে ফোন নম্বর বা লিংক, কিংবা একাধিক ফোন নম্বর বা লিংক থাকায় পরিবর্তনটি গ্রহণ করা হয়নি।"
+          : "তথ্য সঠিক নয়।");
+        return;
+      }
+      if (!res.ok) throw new Error(`Server responded with ${res.status}`);
+      const data: { event: Event } = await res.json();
+      setEvent(data.event);
+      setEndDate(data.event.end_date || '');
+    } catch (e) {
+      console.error("Event change failed", e);
+      setError("পরিবর্তন সংরক্ষণ করতে সমস্যা হয়েছে।");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (event === undefined && !error) {
+    return (
+      <div className="flex justify-center py-20">
+        <div className="w-12 h-12 border-4 border-emerald-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!event) {
+    return (
+      <div className="max-w-2xl mx-auto px-4 py-20 text-center">
+        <h2 className="text-2xl font-bold text-slate-800 mb-2">লিংকটি কার্যকর নয়</h2>
+        <p className="text-slate-500 mb-6">{error ?? "লিংকটি ভুল, পুরোনো অথবা ইভেন্টটি মুছে ফেলা হয়েছে। নতুন লিংকের জন্য মডারেটরের সাথে যোগাযোগ করুন।"}</p>
+        <Link to="/" className="text-emerald-600 font-bold hover:underline">হোম পেজে যান</Link>
+      </div>
+    );
+  }
+
+  const status = eventStatus(event);
+  const today = todayInBangladesh();
+  const nextDate = eventNextDate(event, today);
+  const schedule = formatScheduleBn(event);
+  const minEndDate = event.target_date && event.target_date > today ? event.target_date : today;
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-8 space-y-6">
+      <div className="bg-white rounded-3xl border border-slate-200 p-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <Settings className="text-emerald-600" />
+          <h2 className="text-xl font-bold text-slate-800">আপনার ইভেন্ট</h2>
+          <span className={`px-3 py-1 rounded-full text-xs font-bold ${STATUS_STYLES[status]}`}>{STATUS_LABELS[status]}</span>
+          {event.cancelled_at && (
+            <span className="px-3 py-1 bg-red-100 text-red-700 rounded-full text-xs font-bold">বাতিল</span>
+          )}
+        </div>
+        {status === 'pending' && (
+          <p className="text-sm text-slate-500">মডারেটরের অনুমোদনের পর ইভেন্টটি সবাই দেখতে পাবেন।</p>
+        )}
+        {event.status_reason && status !== 'approved' && (
+          <div className={`p-3 rounded-xl text-sm ${STATUS_STYLES[status]}`}>
+            <span className="font-bold">মডারেটরের মন্তব্য: </span>
+            {event.status_reason}
+            {status === 'changes_requested' && <p className="mt-1">ইভেন্টটি সম্পাদনা করে সংরক্ষণ করলে এটি আবার যাচাই করা হবে।</p>}
+          </div>
+        )}
+        <div>
+          <h3 className="text-2xl font-bold text-slate-900">{event.name}</h3>
+          <p className="text-sm text-slate-500">
+            {[event.upazila, event.district].filter(Boolean).join(', ')}
+            {' · '}
+            {nextDate ? formatHijriBn(toHijri(nextDate)) : event.event_date || event.date_range || 'তারিখ উল্লেখ নেই'}
+          </p>
+          {schedule && <p className="text-sm text-slate-500">{schedule}</p>}
+        </div>
+        <p className="text-xs text-slate-400">এই পাতার লিংক যার কাছে থাকবে সে-ই ইভেন্টটি পরিবর্তন করতে পারবে, তাই লিংকটি গোপন রাখুন।</p>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex flex-wrap gap-2">
+          {status !== 'rejected' && (
+            <button
+              onClick={() => onEdit(event, token)}
+              disabled={isWorking}
+              className="flex items-center gap-2 bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-xl text-sm font-bold transition-all disabled:opacity-50"
+            >
+              <Pencil size={16} />
+              সম্পাদনা করুন
+            </button>
+          )}
+          {event.cancelled_at ? (
+            <button
+              onClick={() => send('/cancel', 'POST', { cancelled: false })}
+              disabled={isWorking}
+              className="flex items-center gap-2 bg-white border border-slate-200 text-slate-700 hover:bg-slate-50 px-4 py-2 rounded-xl text-sm font-bold transition-all disabled:opacity-50"
+            >
+              <RotateCcw size={16} />
+              আবার চালু করুন
+            </button>
+          ) : (
+            <button
+              onClick={() => {
+                if (confirm("ইভেন্টটি বাতিল করবেন? তালিকায় এটি বাতিল হিসেবে দেখানো হবে।")) send('/cancel', 'POST', { cancelled: true });
+              }}
+              disabled={isWorking}
+              className="flex items-center gap-2 bg-red-50 border border-red-100 text-red-700 hover:bg-red-100 px-4 py-2 rounded-xl text-sm font-bold transition-all disabled:opacity-50"
+            >
+              <Ban size={16} />
+              বাতিল করুন
+            </button>
+          )}
+          {status === 'approved' && (
+            <Link
+              to={eventPath(event.id)}
+              className="flex items-center gap-2 bg-white border border-slate-200 text-slate-700 hover:bg-slate-50 px-4 py-2 rounded-xl text-sm font-bold transition-all"
+            >
+              <ExternalLink size={16} />
+              ইভেন্টের পাতা
+            </Link>
+          )}
+        </div>
+      </div>
+
+      {event.target_date && status !== 'rejected' && (
+        <div className="bg-white rounded-3xl border border-slate-200 p-6 space-y-3">
+          <div className="flex items-center gap-2">
+            <CalendarPlus size={18} className="text-emerald-600" />
+            <h3 className="font-bold text-slate-800">মেয়াদ বাড়ান</h3>
+          </div>
+          <p className="text-sm text-slate-500">শেষ তারিখ পর্যন্ত প্রতিদিন ইভেন্টটি চলবে{event.recurrence === 'weekly' ? ' (সাপ্তাহিক দিনগুলোতে)' : ''}।</p>
+          <div className="flex flex-wrap gap-2">
+            <input
+              type="date"
+              value={endDate}
+              min={minEndDate}
+              onChange={e => setEndDate(e.target.value)}
+              className="px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+            />
+            <button
+              onClick={() => send('', 'PUT', { end_date: endDate })}
+              disabled={isWorking || !endDate || endDate === event.end_date}
+              className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-xl text-sm font-bold transition-all disabled:opacity-50"
+            >
+              সংরক্ষণ করুন
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import { X, Merge } from 'lucide-react';
+import { motion } from 'motion/react';
+import type { DuplicateMatch, Event } from '../types';
+import { getEventType } from '../eventTypes';
+import { formatDistanceBn, toBanglaDigits } from '../lib/bangla';
+
+// Fields a moderator can take from the duplicate. Geography and schedule
+// stay with the kept event so their codes and dates remain consistent.
+const MERGE_FIELDS: { field: keyof Event; label: string }[] = [
+  { field: 'name', label: 'নাম' },
+  { field: 'type', label: 'ধরন' },
+  { field: 'village', label: 'গ্রাম/মহল্লা' },
+  { field: 'address', label: 'ঠিকানা' },
+  { field: 'event_date', label: 'তারিখ' },
+  { field: 'start_time', label: 'শুরুর সময়' },
+  { field: 'iftar_time', label: 'ইফতারের সময়' },
+  { field: 'contact', label: 'যোগাযোগ' },
+  { field: 'link_url', label: 'লোকেশন লিংক' },
+  { field: 'description', label: 'বিবরণ' },
+];
+
+const display = (event: Event, field: keyof Event) =>
+  field === 'type' ? getEventType(event.type).label : String(event[field] ?? '');
+
+interface MergeEventsModalProps {
+  event: Event;
+  onClose: () => void;
+  onMerged: () => void;
+}
+
+// Lists likely duplicates of an event and folds the chosen one into it.
+export default function MergeEventsModal({ event, onClose, onMerged }: MergeEventsModalProps) {
+  const [matches, setMatches] = useState<DuplicateMatch[] | null>(null);
+  const [duplicate, setDuplicate] = useState<Event | null>(null);
+  // Fields whose value is taken from the duplicate
+  const [prefer, setPrefer] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isMerging, setIsMerging] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/events/${event.id}/duplicates`)
+      .then(res => {
+        if (!res.ok) throw new Error(`Server responded with ${res.status}`);
+        return res.json();
+      })
+      .then(setMatches)
+      .catch(e => {
+        console.error("Failed to load duplicates", e);
+        setError("সম্ভাব্য ডুপ্লিকেট খুঁজতে সমস্যা হয়েছে।");
+        setMatches([]);
+      });
+  }, [event.id]);
+
+  const chooseDuplicate = (candidate: Event) => {
+    setDuplicate(candidate);
+    // By default empty fields are filled from the duplicate and the rest kept
+    setPrefer([]);
+  };
+
+  const differing = duplicate
+    ? MERGE_FIELDS.filter(({ field }) => duplicate[field] && display(event, field) !== display(duplicate, field))
+    : [];
+
+  const merge = async () => {
+    if (!duplicate || isMerging) return;
+    setIsMerging(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/events/${event.id}/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ duplicate_id: duplicate.id, prefer })
+      });
+      if (res.status === 403) {
+        setError("এই ইভেন্টগুলো একত্রিত করার অনুমতি আপনার নেই।");
+        return;
+      }
+      if (!res.ok) throw new Error(`Server responded with ${res.status}`);
+      onMerged();
+    } catch (e) {
+      console.error("Failed to merge events", e);
+      setError("একত্রিত করতে সমস্যা হয়েছে।");
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.9, y: 20 }}
+        className="bg-white w-full max-w-2xl max-h-[90vh] rounded-3xl shadow-2xl relative z-10 overflow-hidden flex flex-col"
+      >
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-emerald-50">
+          <h3 className="text-xl font-bold text-emerald-900 flex items-center gap-2">
+            <Merge size={20} />
+            ডুপ্লিকেট একত্রিত করুন
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white rounded-full transition-colors text-emerald-700"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <p className="text-sm text-slate-600">
+            <span className="font-bold text-slate-800">{event.name}</span> রাখা হবে। বেছে নেওয়া ইভেন্টটি এর সাথে একত্রিত হয়ে মুছে যাবে।
+          </p>
+
+          {matches === null ? (
+            <p className="text-sm text-slate-400">খোঁজা হচ্ছে...</p>
+          ) : matches.length === 0 ? (
+            <p className="text-sm text-slate-500">কোনো সম্ভাব্য ডুপ্লিকেট পাওয়া যায়নি।</p>
+          ) : (
+            <div className="space-y-2">
+              {matches.map(match => (
+                <button
+                  key={match.event.id}
+                  type="button"
+                  onClick={() => chooseDuplicate(match.event)}
+                  className={`w-full text-left p-3 rounded-xl border transition-all ${duplicate?.id === match.event.id ? 'border-emerald-500 bg-emerald-50' : 'border-slate-200 hover:bg-slate-50'}`}
+                >
+                  <div className="flex justify-between gap-2">
+                    <span className="font-bold text-slate-800">{match.event.name}</span>
+                    <span className="text-xs font-bold text-amber-700 shrink-0">মিল {toBanglaDigits(Math.round(match.score * 100))}%</span>
+                  </div>
+                  <p className="text-xs text-slate-500">
+                    {[match.event.address, match.event.village, match.event.upazila].filter(Boolean).join(', ')}
+                    {match.distance_km != null && ` · ${formatDistanceBn(match.distance_km)} দূরে`}
+                    {match.same_date && ' · একই দিনে'}
+                  </p>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {duplicate && (
+            <div className="space-y-2">
+              <h4 className="text-xs font-bold text-slate-500 uppercase">যেসব তথ্য আলাদা</h4>
+              {differing.length === 0 && <p className="text-sm text-slate-500">দুটো ইভেন্টের তথ্য একই।</p>}
+              {differing.map(({ field, label }) => (
+                <div key={field} className="grid grid-cols-[6rem_1fr_1fr] gap-2 items-start text-sm">
+                  <span className="text-xs font-bold text-slate-500 pt-2">{label}</span>
+                  {[event, duplicate].map((source, i) => {
+                    const fromDuplicate = i === 1;
+                    const takesDuplicate = prefer.includes(field) || !event[field];
+                    const chosen = fromDuplicate === takesDuplicate;
+                    return (
+                      <label key={i} className={`p-2 rounded-lg border cursor-pointer ${chosen ? 'border-emerald-500 bg-emerald-50' : 'border-slate-200'}`}>
+                        <input
+                          type="radio"
+                          name={field}
+                          className="sr-only"
+                          checked={chosen}
+                          disabled={!fromDuplicate && !event[field]}
+                          onChange={() => setPrefer(fromDuplicate ? [...prefer, field] : prefer.filter(f => f !== field))}
+                        />
+                        {display(source, field) || <span className="text-slate-400">খালি</span>}
+                      </label>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600 font-medium">{error}</p>}
+
+          <button
+            onClick={merge}
+            disabled={!duplicate || isMerging}
+            className="w-full bg-emerald-600 hover:bg-emerald-700 text-white py-3 rounded-2xl font-bold transition-all shadow-lg shadow-emerald-200 active:scale-[0.98] disabled:opacity-70 disabled:cursor-not-allowed"
+          >
+            {isMerging ? "একত্রিত হচ্ছে..." : "একত্রিত করুন"}
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
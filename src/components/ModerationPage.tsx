@@ -0,0 +1,394 @@
+import React, { useEffect, useState } from 'react';
+import { Ban, Check, MessageSquareWarning, Pencil, ShieldCheck, Trash2, X } from 'lucide-react';
+import type { AdminUser, Event } from '../types';
+import { getEventType } from '../eventTypes';
+import { DISTRICTS } from '../lib/geo';
+import { formatHijriBn, toHijri } from '../lib/hijri';
+import { todayInBangladesh } from '../lib/prayerTimes';
+import { eventNextDate, formatScheduleBn } from '../lib/schedule';
+import { thumbnailUrl } from '../lib/images';
+import { toBanglaDigits } from '../lib/bangla';
+import { STATUS_LABELS, STATUS_STYLES, eventStatus } from '../lib/eventStatus';
+
+type QueuedEvent = Event & { id: string; organizer_email: string | null };
+type ReviewAction = 'approve' | 'reject' | 'request_changes';
+
+interface TrustedSubmitter {
+  email: string;
+  created_at: string;
+}
+
+interface BlockedAttempt {
+  id: number;
+  route: string;
+  reason: string;
+  ip: string | null;
+  admin_username: string | null;
+  detail: string | null;
+  created_at: string;
+}
+
+const BLOCK_REASON_LABELS: Record<string, string> = {
+  rate_limit: 'অতিরিক্ত অনুরোধ',
+  honeypot: 'লুকানো ঘর পূরণ',
+  too_fast: 'অতি দ্রুত জমা',
+  form_token: 'মেয়াদোত্তীর্ণ ফর্ম',
+  phone_spam: 'ফোন নম্বর স্প্যাম',
+  link_spam: 'লিংক স্প্যাম',
+  login_failed: 'ব্যর্থ লগইন',
+};
+
+interface ModerationPageProps {
+  adminUser: AdminUser | null;
+  onEdit: (event: Event) => void;
+  // Called after a review, so the public list picks up approved events
+  onReviewed: () => void;
+  // Changes each time an edit is saved, so the queue shows the new details
+  reloadKey: number;
+}
+
+// The review queue: submissions waiting for a moderator, grouped by
+// district, the organizers whose submissions are published without it and,
+// for admins, the submissions the spam checks turned away.
+export default function ModerationPage({ adminUser, onEdit, onReviewed, reloadKey }: ModerationPageProps) {
+  const [district, setDistrict] = useState('');
+  const [queue, setQueue] = useState<QueuedEvent[] | null>(null);
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [trust, setTrust] = useState<Record<string, boolean>>({});
+  const [trusted, setTrusted] = useState<TrustedSubmitter[]>([]);
+  const [trustedEmail, setTrustedEmail] = useState('');
+  const [blocked, setBlocked] = useState<BlockedAttempt[]>([]);
+  const [blockedReason, setBlockedReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState<string | null>(null);
+
+  // Trust applies in every district, so district moderators cannot grant it
+  const canTrust = adminUser?.role === 'admin' || adminUser?.role === 'moderator';
+
+  const loadQueue = async () => {
+    try {
+      const res = await fetch(`/api/moderation/queue${district ? `?district=${district}` : ''}`);
+      if (!res.ok) throw new Error(`Server responded with ${res.status}`);
+      setQueue(await res.json());
+    } catch (e) {
+      console.error("Failed to load the review queue", e);
+      setError("যাচাইয়ের তালিকা লোড করা যায়নি।");
+      setQueue([]);
+    }
+  };
+
+  const loadTrusted = async () => {
+    try {
+      const res = await fetch('/api/moderation/trusted');
+      if (!res.ok) throw new Error(`Server responded with ${res.status}`);
+      setTrusted(await res.json());
+    } catch (e) {
+      console.error("Failed to load trusted organizers", e);
+    }
+  };
+
+  useEffect(() => {
+    if (!adminUser) return;
+    loadQueue();
+  }, [adminUser, district, reloadKey]);
+
+  useEffect(() => {
+    if (canTrust) loadTrusted();
+  }, [canTrust]);
+
+  useEffect(() => {
+    if (adminUser?.role !== 'admin') return;
+    fetch(`/api/admin/blocked-attempts${blockedReason ? `?reason=${blockedReason}` : ''}`)
+      .then(res => res.ok ? res.json() : Promise.reject(new Error(`Server responded with ${res.status}`)))
+      .then(setBlocked)
+      .catch(e => console.error("Failed to load blocked attempts", e));
+  }, [adminUser, blockedReason]);
+
+  if (!adminUser) {
+    return (
+      <div className="max-w-2xl mx-auto px-4 py-20 text-center">
+        <h2 className="text-2xl font-bold text-slate-800 mb-2">মডারেশনের জন্য লগইন করুন</h2>
+        <p className="text-slate-500">নতুন ইভেন্ট শুধু মডারেটর ও জেলা সমন্বয়কারীরা যাচাই করতে পারেন।</p>
+      </div>
+    );
+  }
+
+  const review = async (event: QueuedEvent, action: ReviewAction) => {
+    const reason = reasons[event.id]?.trim() || '';
+    if (action !== 'approve' && !reason) {
+      setError("প্রত্যাখ্যান বা পরিবর্তনের অনুরোধের কারণ লিখুন; আয়োজক এটি দেখতে পাবেন।");
+      return;
+    }
+    setWorking(event.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/moderation/events/${event.id}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, reason, trust: !!trust[event.id] })
+      });
+      if (res.status === 403) {
+        setError("এই ইভেন্টটি যাচাই করার অনুমতি আপনার নেই।");
+        return;
+      }
+      if (!res.ok) throw new Error(`Server responded with ${res.status}`);
+      await loadQueue();
+      if (trust[event.id]) loadTrusted();
+      onReviewed();
+    } catch (e) {
+      console.error("Review failed", e);
+      setError("সিদ্ধান্ত সংরক্ষণ করতে সমস্যা হয়েছে।");
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const addTrusted = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const res = await fetch('/api/moderation/trusted', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: trustedEmail })
+    });
+    if (res.status === 400) {
+      setError("সঠিক ইমেইল ঠিকানা দিন।");
+      return;
+    }
+    setTrustedEmail('');
+    loadTrusted();
+  };
+
+  const removeTrusted = async (email: string) => {
+    await fetch(`/api/moderation/trusted/${encodeURIComponent(email)}`, { method: 'DELETE' });
+    loadTrusted();
+  };
+
+  const today = todayInBangladesh();
+  const groups = new Map<string, QueuedEvent[]>();
+  for (const event of queue ?? []) {
+    const name = event.district || 'জেলা উল্লেখ নেই';
+    groups.set(name, [...(groups.get(name) ?? []), event]);
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+      <div className="bg-white rounded-3xl border border-slate-200 p-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <ShieldCheck className="text-emerald-600" />
+            <h2 className="text-xl font-bold text-slate-800">যাচাইয়ের অপেক্ষায়</h2>
+            {queue && (
+              <span className="px-3 py-1 bg-amber-100 text-amber-700 rounded-full text-xs font-bold">{toBanglaDigits(queue.length)}</span>
+            )}
+          </div>
+          {adminUser.role !== 'district_moderator' && (
+            <select
+              value={district}
+              onChange={e => setDistrict(e.target.value)}
+              className="px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+            >
+              <option value="">সব জেলা</option>
+              {DISTRICTS.map(d => <option key={d.code} value={d.code}>{d.bn}</option>)}
+            </select>
+          )}
+        </div>
+        <p className="text-sm text-slate-500">
+          নতুন ইভেন্ট অনুমোদনের পরই তালিকা ও মানচিত্রে দেখা যায়। প্রত্যাখ্যান বা পরিবর্তনের অনুরোধের কারণ আয়োজককে দেখানো হয়।
+        </p>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+
+      {queue === null ? (
+        <div className="flex justify-center py-20">
+          <div className="w-12 h-12 border-4 border-emerald-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : queue.length === 0 ? (
+        <p className="text-center text-slate-500 py-12">যাচাইয়ের অপেক্ষায় কোনো ইভেন্ট নেই।</p>
+      ) : (
+        [...groups].map(([name, events]) => (
+          <section key={name} className="space-y-3">
+            <h3 className="font-bold text-slate-700">{name} <span className="text-slate-400">({toBanglaDigits(events.length)})</span></h3>
+            {events.map(event => {
+              const status = eventStatus(event);
+              const nextDate = eventNextDate(event, today);
+              const schedule = formatScheduleBn(event);
+              return (
+                <div key={event.id} className="bg-white rounded-3xl border border-slate-200 p-5 flex flex-col md:flex-row gap-4">
+                  {event.image_url && (
+                    <a href={event.image_url} target="_blank" rel="noopener noreferrer" className="shrink-0">
+                      <img src={thumbnailUrl(event.image_url)} alt="" className="w-full md:w-40 aspect-video object-cover rounded-xl bg-slate-100" />
+                    </a>
+                  )}
+                  <div className="flex-1 space-y-3 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className={`px-3 py-1 rounded-full text-[10px] font-bold ${STATUS_STYLES[status]}`}>{STATUS_LABELS[status]}</span>
+                      <span className={`px-3 py-1 rounded-full text-[10px] font-bold ${getEventType(event.type).bg} ${getEventType(event.type).color}`}>{getEventType(event.type).label}</span>
+                      {event.created_at && (
+                        <span className="text-xs text-slate-400">{new Date(event.created_at).toLocaleString('bn-BD')}</span>
+                      )}
+                    </div>
+                    <div>
+                      <h4 className="text-lg font-bold text-slate-900">{event.name}</h4>
+                      <p className="text-sm text-slate-500">
+                        {[event.address, event.village, event.union_name, event.upazila].filter(Boolean).join(', ')}
+                        {' · '}
+                        {nextDate ? formatHijriBn(toHijri(nextDate)) : event.event_date || event.date_range || 'তারিখ উল্লেখ নেই'}
+                        {schedule && ` · ${schedule}`}
+                      </p>
+                      <p className="text-sm text-slate-500">
+                        {event.contact && `যোগাযোগ: ${event.contact}`}
+                        {event.contact && event.organizer_email && ' · '}
+                        {event.organizer_email && `আয়োজক: ${event.organizer_email}`}
+                      </p>
+                    </div>
+                    {event.description && <p className="text-sm text-slate-700 whitespace-pre-line line-clamp-4">{event.description}</p>}
+                    {event.status_reason && (
+                      <p className="text-xs text-slate-500">আগের মন্তব্য: {event.status_reason}</p>
+                    )}
+                    <textarea
+                      rows={2}
+                      placeholder="কারণ বা মন্তব্য (প্রত্যাখ্যান ও পরিবর্তনের অনুরোধে আবশ্যক)"
+                      value={reasons[event.id] ?? ''}
+                      onChange={e => setReasons({ ...reasons, [event.id]: e.target.value })}
+                      className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-emerald-500 outline-none resize-none"
+                    />
+                    <div className="flex flex-wrap items-center gap-2">
+                      <button
+                        onClick={() => review(event, 'approve')}
+                        disabled={working === event.id}
+                        className="flex items-center gap-1 bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-xl text-sm font-bold transition-all disabled:opacity-50"
+                      >
+                        <Check size={16} />
+                        অনুমোদন
+                      </button>
+                      <button
+                        onClick={() => review(event, 'request_changes')}
+                        disabled={working === event.id}
+                        className="flex items-center gap-1 bg-orange-50 border border-orange-100 text-orange-700 hover:bg-orange-100 px-4 py-2 rounded-xl text-sm font-bold transition-all disabled:opacity-50"
+                      >
+                        <MessageSquareWarning size={16} />
+                        পরিবর্তন চাই
+                      </button>
+                      <button
+                        onClick={() => review(event, 'reject')}
+                        disabled={working === event.id}
+                        className="flex items-center gap-1 bg-red-50 border border-red-100 text-red-700 hover:bg-red-100 px-4 py-2 rounded-xl text-sm font-bold transition-all disabled:opacity-50"
+                      >
+                        <X size={16} />
+                        প্রত্যাখ্যান
+                      </button>
+                      <button
+                        onClick={() => onEdit(event)}
+                        className="flex items-center gap-1 text-slate-500 hover:text-emerald-600 px-3 py-2 text-sm font-bold transition-colors"
+                      >
+                        <Pencil size={16} />
+                        সম্পাদনা
+                      </button>
+                      {canTrust && event.organizer_email && (
+                        <label className="flex items-center gap-2 text-xs text-slate-600">
+                          <input
+                            type="checkbox"
+                            checked={!!trust[event.id]}
+                            onChange={e => setTrust({ ...trust, [event.id]: e.target.checked })}
+                          />
+                          অনুমোদনের সাথে আয়োজককে বিশ্বস্ত করুন
+                        </label>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </section>
+        ))
+      )}
+
+      {canTrust && (
+        <div className="bg-white rounded-3xl border border-slate-200 p-6 space-y-4">
+          <h3 className="font-bold text-slate-800">বিশ্বস্ত আয়োজক</h3>
+          <p className="text-sm text-slate-500">
+            এই ঠিকানা দিয়ে জমা দেওয়া ইভেন্ট, ইমেইলে পাঠানো লিংক খুলে নিশ্চিত করার পর যাচাই ছাড়াই প্রকাশিত হয়।
+          </p>
+          <form onSubmit={addTrusted} className="flex gap-2">
+            <input
+              type="email"
+              placeholder="ইমেইল ঠিকানা"
+              value={trustedEmail}
+              onChange={e => setTrustedEmail(e.target.value)}
+              className="flex-1 p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+            />
+            <button type="submit" className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 rounded-xl text-sm font-bold transition-all">
+              যুক্ত করুন
+            </button>
+          </form>
+          {trusted.length > 0 && (
+            <ul className="divide-y divide-slate-100">
+              {trusted.map(submitter => (
+                <li key={submitter.email} className="flex items-center justify-between py-2 text-sm">
+                  <span className="text-slate-700">{submitter.email}</span>
+                  <button
+                    onClick={() => removeTrusted(submitter.email)}
+                    className="p-2 text-slate-300 hover:text-red-500 transition-colors"
+                    title="সরিয়ে দিন"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {adminUser.role === 'admin' && (
+        <div className="bg-white rounded-3xl border border-slate-200 p-6 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h3 className="font-bold text-slate-800 flex items-center gap-2">
+              <Ban size={18} className="text-red-500" />
+              আটকানো চেষ্টা
+            </h3>
+            <select
+              value={blockedReason}
+              onChange={e => setBlockedReason(e.target.value)}
+              className="px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+            >
+              <option value="">সব কারণ</option>
+              {Object.entries(BLOCK_REASON_LABELS).map(([reason, label]) => <option key={reason} value={reason}>{label}</option>)}
+            </select>
+          </div>
+          <p className="text-sm text-slate-500">
+            রেট লিমিট ও স্প্যাম যাচাইয়ে আটকে যাওয়া জমা ও অনুরোধ। সর্বশেষগুলো আগে দেখানো হয়েছে।
+          </p>
+          {blocked.length === 0 ? (
+            <p className="text-sm text-slate-400">কোনো আটকানো চেষ্টা নেই।</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-slate-500">
+                    <th className="py-2 pr-4">সময়</th>
+                    <th className="py-2 pr-4">কারণ</th>
+                    <th className="py-2 pr-4">পথ</th>
+                    <th className="py-2 pr-4">আইপি / অ্যাকাউন্ট</th>
+                    <th className="py-2">বিস্তারিত</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {blocked.map(attempt => (
+                    <tr key={attempt.id} className="text-slate-700 align-top">
+                      <td className="py-2 pr-4 whitespace-nowrap">{new Date(attempt.created_at).toLocaleString('bn-BD')}</td>
+                      <td className="py-2 pr-4">{BLOCK_REASON_LABELS[attempt.reason] ?? attempt.reason}</td>
+                      <td className="py-2 pr-4 font-mono text-xs">{attempt.route}</td>
+                      <td className="py-2 pr-4 font-mono text-xs">{attempt.admin_username ?? attempt.ip ?? '—'}</td>
+                      <td className="py-2 text-slate-500 break-all">{attempt.detail}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,589 @@
+// Generated from the bd-divisions-to-unions dataset (ISC). Codes are stable:
+// divisions and districts use the BBS geocode, upazilas and unions the
+// dataset id. Regenerate rather than edit by hand.
+import type { GeoDistrict, GeoDivision, GeoUpazila } from "../lib/geo";
+
+export const DIVISIONS: GeoDivision[] = [
+  { code: "10", bn: "বরিশাল", en: "Barisal" },
+  { code: "20", bn: "চট্টগ্রাম", en: "Chattogram" },
+  { code: "30", bn: "ঢাকা", en: "Dhaka" },
+  { code: "40", bn: "খুলনা", en: "Khulna" },
+  { code: "45", bn: "ময়মনসিংহ", en: "Mymensingh" },
+  { code: "50", bn: "রাজশাহী", en: "Rajshahi" },
+  { code: "55", bn: "রংপুর", en: "Rangpur" },
+  { code: "60", bn: "সিলেট", en: "Sylhet" },
+];
+
+export const DISTRICTS: GeoDistrict[] = [
+  { code: "01", bn: "বাগেরহাট", en: "Bagerhat", division: "40" },
+  { code: "03", bn: "বান্দরবান", en: "Bandarban", division: "20" },
+  { code: "04", bn: "বরগুনা", en: "Barguna", division: "10" },
+  { code: "06", bn: "বরিশাল", en: "Barisal", division: "10" },
+  { code: "09", bn: "ভোলা", en: "Bhola", division: "10" },
+  { code: "10", bn: "বগুড়া", en: "Bogura", division: "50" },
+  { code: "12", bn: "ব্রাহ্মণবাড়িয়া", en: "Brahmanbaria", division: "20" },
+  { code: "13", bn: "চাঁদপুর", en: "Chandpur", division: "20" },
+  { code: "70", bn: "চাঁপাইনবাবগঞ্জ", en: "Chapainawabganj", division: "50" },
+  { code: "15", bn: "চট্টগ্রাম", en: "Chattogram", division: "20" },
+  { code: "18", bn: "চুয়াডাঙ্গা", en: "Chuadanga", division: "40" },
+  { code: "19", bn: "কুমিল্লা", en: "Comilla", division: "20" },
+  { code: "22", bn: "কক্সবাজার", en: "Cox's Bazar", division: "20" },
+  { code: "26", bn: "ঢাকা", en: "Dhaka", division: "30" },
+  { code: "27", bn: "দিনাজপুর", en: "Dinajpur", division: "55" },
+  { code: "29", bn: "ফরিদপুর", en: "Faridpur", division: "30" },
+  { code: "30", bn: "ফেনী", en: "Feni", division: "20" },
+  { code: "32", bn: "গাইবান্ধা", en: "Gaibandha", division: "55" },
+  { code: "33", bn: "গাজীপুর", en: "Gazipur", division: "30" },
+  { code: "35", bn: "গোপালগঞ্জ", en: "Gopalganj", division: "30" },
+  { code: "36", bn: "হবিগঞ্জ", en: "Habiganj", division: "60" },
+  { code: "39", bn: "জামালপুর", en: "Jamalpur", division: "45" },
+  { code: "41", bn: "যশোর", en: "Jashore", division: "40" },
+  { code: "42", bn: "ঝালকাঠি", en: "Jhalakathi", division: "10" },
+  { code: "44", bn: "ঝিনাইদহ", en: "Jhenaidah", division: "40" },
+  { code: "38", bn: "জয়পুরহাট", en: "Joypurhat", division: "50" },
+  { code: "46", bn: "খাগড়াছড়ি", en: "Khagrachhari", division: "20" },
+  { code: "47", bn: "খুলনা", en: "Khulna", division: "40" },
+  { code: "48", bn: "কিশোরগঞ্জ", en: "Kishoreganj", division: "30" },
+  { code: "49", bn: "কুড়িগ্রাম", en: "Kurigram", division: "55" },
+  { code: "50", bn: "কুষ্টিয়া", en: "Kushtia", division: "40" },
+  { code: "51", bn: "লক্ষ্মীপুর", en: "Lakshmipur", division: "20" },
+  { code: "52", bn: "লালমনিরহাট", en: "Lalmonirhat", division: "55" },
+  { code: "54", bn: "মাদারীপুর", en: "Madaripur", division: "30" },
+  { code: "55", bn: "মাগুরা", en: "Magura", division: "40" },
+  { code: "56", bn: "মানিকগঞ্জ", en: "Manikganj", division: "30" },
+  { code: "57", bn: "মেহেরপুর", en: "Meherpur", division: "40" },
+  { code: "58", bn: "মৌলভীবাজার", en: "Moulvibazar", division: "60" },
+  { code: "59", bn: "মুন্সিগঞ্জ", en: "Munshiganj", division: "30" },
+  { code: "61", bn: "ময়মনসিংহ", en: "Mymensingh", division: "45" },
+  { code: "64", bn: "নওগাঁ", en: "Naogaon", division: "50" },
+  { code: "65", bn: "নড়াইল", en: "Narail", division: "40" },
+  { code: "67", bn: "নারায়ণগঞ্জ", en: "Narayanganj", division: "30" },
+  { code: "68", bn: "নরসিংদী", en: "Narsingdi", division: "30" },
+  { code: "69", bn: "নাটোর", en: "Natore", division: "50" },
+  { code: "72", bn: "নেত্রকোণা", en: "Netrokona", division: "45" },
+  { code: "73", bn: "নীলফামারী", en: "Nilphamari", division: "55" },
+  { code: "75", bn: "নোয়াখালী", en: "Noakhali", division: "20" },
+  { code: "76", bn: "পাবনা", en: "Pabna", division: "50" },
+  { code: "77", bn: "পঞ্চগড়", en: "Panchagarh", division: "55" },
+  { code: "78", bn: "পটুয়াখালী", en: "Patuakhali", division: "10" },
+  { code: "79", bn: "পিরোজপুর", en: "Pirojpur", division: "10" },
+  { code: "82", bn: "রাজবাড়ী", en: "Rajbari", division: "30" },
+  { code: "81", bn: "রাজশাহী", en: "Rajshahi", division: "50" },
+  { code: "84", bn: "রাঙ্গামাটি", en: "Rangamati", division: "20" },
+  { code: "85", bn: "রংপুর", en: "Rangpur", division: "55" },
+  { code: "87", bn: "সাতক্ষীরা", en: "Satkhira", division: "40" },
+  { code: "86", bn: "শরীয়তপুর", en: "Shariatpur", division: "30" },
+  { code: "89", bn: "শেরপুর", en: "Sherpur", division: "45" },
+  { code: "88", bn: "সিরাজগঞ্জ", en: "Sirajganj", division: "50" },
+  { code: "90", bn: "সুনামগঞ্জ", en: "Sunamganj", division: "60" },
+  { code: "91", bn: "সিলেট", en: "Sylhet", division: "60" },
+  { code: "93", bn: "টাঙ্গাইল", en: "Tangail", division: "30" },
+  { code: "94", bn: "ঠাকুরগাঁও", en: "Thakurgaon", division: "55" },
+];
+
+export const UPAZILAS: GeoUpazila[] = [
+  { code: "216", bn: "বাগেরহাট সদর", en: "Bagerhat Sadar", district: "01" },
+  { code: "223", bn: "চিতলমারী", en: "Chitalmari", district: "01" },
+  { code: "215", bn: "ফকিরহাট", en: "Fakirhat", district: "01" },
+  { code: "221", bn: "কচুয়া", en: "Kachua", district: "01" },
+  { code: "217", bn: "মোল্লাহাট", en: "Mollahat", district: "01" },
+  { code: "222", bn: "মোংলা", en: "Mongla", district: "01" },
+  { code: "220", bn: "মোড়েলগঞ্জ", en: "Morrelganj", district: "01" },
+  { code: "219", bn: "রামপাল", en: "Rampal", district: "01" },
+  { code: "218", bn: "শরণখোলা", en: "Sarankhola", district: "01" },
+  { code: "98", bn: "আলীকদম", en: "Alikadam", district: "03" },
+  { code: "97", bn: "বান্দরবান সদর", en: "Bandarban Sadar", district: "03" },
+  { code: "101", bn: "লামা", en: "Lama", district: "03" },
+  { code: "99", bn: "নাইক্ষ্যংছড়ি", en: "Naikhongchhari", district: "03" },
+  { code: "100", bn: "রোয়াংছড়ি", en: "Rowangchhari", district: "03" },
+  { code: "102", bn: "রুমা", en: "Ruma", district: "03" },
+  { code: "103", bn: "থানচি", en: "Thanchi", district: "03" },
+  { code: "266", bn: "আমতলী", en: "Amtali", district: "04" },
+  { code: "269", bn: "বামনা", en: "Bamna", district: "04" },
+  { code: "267", bn: "বরগুনা সদর", en: "Barguna Sadar", district: "04" },
+  { code: "268", bn: "বেতাগী", en: "Betagi", district: "04" },
+  { code: "270", bn: "পাথরঘাটা", en: "Pathorghata", district: "04" },
+  { code: "271", bn: "তালতলি", en: "Taltali", district: "04" },
+  { code: "255", bn: "আগৈলঝাড়া", en: "Agailjhara", district: "06" },
+  { code: "251", bn: "বাবুগঞ্জ", en: "Babuganj", district: "06" },
+  { code: "250", bn: "বাকেরগঞ্জ", en: "Bakerganj", district: "06" },
+  { code: "253", bn: "বানারীপাড়া", en: "Banaripara", district: "06" },
+  { code: "249", bn: "বরিশাল সদর", en: "Barisal Sadar", district: "06" },
+  { code: "497", bn: "বরিশাল সিটি কর্পোরেশন", en: "Barishal City Corporation", district: "06" },
+  { code: "254", bn: "গৌরনদী", en: "Gournadi", district: "06" },
+  { code: "258", bn: "হিজলা", en: "Hizla", district: "06" },
+  { code: "256", bn: "মেহেন্দিগঞ্জ", en: "Mehendiganj", district: "06" },
+  { code: "257", bn: "মুলাদী", en: "Muladi", district: "06" },
+  { code: "252", bn: "উজিরপুর", en: "Wazirpur", district: "06" },
+  { code: "259", bn: "ভোলা সদর", en: "Bhola Sadar", district: "09" },
+  { code: "260", bn: "বোরহান উদ্দিন", en: "Borhan Sddin", district: "09" },
+  { code: "261", bn: "চরফ্যাশন", en: "Charfesson", district: "09" },
+  { code: "262", bn: "দৌলতখান", en: "Doulatkhan", district: "09" },
+  { code: "265", bn: "লালমোহন", en: "Lalmohan", district: "09" },
+  { code: "263", bn: "মনপুরা", en: "Monpura", district: "09" },
+  { code: "264", bn: "তজুমদ্দিন", en: "Tazumuddin", district: "09" },
+  { code: "127", bn: "আদমদিঘি", en: "Adamdighi", district: "10" },
+  { code: "123", bn: "বগুড়া সদর", en: "Bogra Sadar", district: "10" },
+  { code: "130", bn: "ধুনট", en: "Dhunot", district: "10" },
+  { code: "126", bn: "দুপচাচিঁয়া", en: "Dupchanchia", district: "10" },
+  { code: "131", bn: "গাবতলী", en: "Gabtali", district: "10" },
+  { code: "122", bn: "কাহালু", en: "Kahaloo", district: "10" },
+  { code: "128", bn: "নন্দিগ্রাম", en: "Nondigram", district: "10" },
+  { code: "125", bn: "শাজাহানপুর", en: "Shajahanpur", district: "10" },
+  { code: "124", bn: "সারিয়াকান্দি", en: "Shariakandi", district: "10" },
+  { code: "132", bn: "শেরপুর", en: "Sherpur", district: "10" },
+  { code: "133", bn: "শিবগঞ্জ", en: "Shibganj", district: "10" },
+  { code: "129", bn: "সোনাতলা", en: "Sonatala", district: "10" },
+  { code: "29", bn: "আখাউড়া", en: "Akhaura", district: "12" },
+  { code: "28", bn: "আশুগঞ্জ", en: "Ashuganj", district: "12" },
+  { code: "31", bn: "বাঞ্ছারামপুর", en: "Bancharampur", district: "12" },
+  { code: "32", bn: "বিজয়নগর", en: "Bijoynagar", district: "12" },
+  { code: "24", bn: "ব্রাহ্মণবাড়িয়া সদর", en: "Brahmanbaria Sadar", district: "12" },
+  { code: "25", bn: "কসবা", en: "Kasba", district: "12" },
+  { code: "30", bn: "নবীনগর", en: "Nabinagar", district: "12" },
+  { code: "26", bn: "নাসিরনগর", en: "Nasirnagar", district: "12" },
+  { code: "27", bn: "সরাইল", en: "Sarail", district: "12" },
+  { code: "55", bn: "চাঁদপুর সদর", en: "Chandpur Sadar", district: "13" },
+  { code: "59", bn: "ফরিদগঞ্জ", en: "Faridgonj", district: "13" },
+  { code: "52", bn: "হাইমচর", en: "Haimchar", district: "13" },
+  { code: "57", bn: "হাজীগঞ্জ", en: "Hajiganj", district: "13" },
+  { code: "53", bn: "কচুয়া", en: "Kachua", district: "13" },
+  { code: "58", bn: "মতলব উত্তর", en: "Matlab North", district: "13" },
+  { code: "56", bn: "মতলব দক্ষিণ", en: "Matlab South", district: "13" },
+  { code: "54", bn: "শাহরাস্তি", en: "Shahrasti", district: "13" },
+  { code: "72", bn: "আনোয়ারা", en: "Anwara", district: "15" },
+  { code: "70", bn: "বাঁশখালী", en: "Banshkhali", district: "15" },
+  { code: "71", bn: "বোয়ালখালী", en: "Boalkhali", district: "15" },
+  { code: "73", bn: "চন্দনাইশ", en: "Chandanaish", district: "15" },
+  { code: "498", bn: "চট্রগ্রাম সিটি কর্পোরেশন", en: "Chittagong City Corporation", district: "15" },
+  { code: "77", bn: "ফটিকছড়ি", en: "Fatikchhari", district: "15" },
+  { code: "76", bn: "হাটহাজারী", en: "Hathazari", district: "15" },
+  { code: "79", bn: "কর্ণফুলী", en: "Karnafuli", district: "15" },
+  { code: "75", bn: "লোহাগাড়া", en: "Lohagara", district: "15" },
+  { code: "67", bn: "মীরসরাই", en: "Mirsharai", district: "15" },
+  { code: "68", bn: "পটিয়া", en: "Patiya", district: "15" },
+  { code: "65", bn: "রাঙ্গুনিয়া", en: "Rangunia", district: "15" },
+  { code: "78", bn: "রাউজান", en: "Raozan", district: "15" },
+  { code: "69", bn: "সন্দ্বীপ", en: "Sandwip", district: "15" },
+  { code: "74", bn: "সাতকানিয়া", en: "Satkania", district: "15" },
+  { code: "66", bn: "সীতাকুন্ড", en: "Sitakunda", district: "15" },
+  { code: "193", bn: "আলমডাঙ্গা", en: "Alamdanga", district: "18" },
+  { code: "192", bn: "চুয়াডাঙ্গা সদর", en: "Chuadanga Sadar", district: "18" },
+  { code: "194", bn: "দামুড়হুদা", en: "Damurhuda", district: "18" },
+  { code: "195", bn: "জীবননগর", en: "Jibannagar", district: "18" },
+  { code: "2", bn: "বরুড়া", en: "Barura", district: "19" },
+  { code: "3", bn: "ব্রাহ্মণপাড়া", en: "Brahmanpara", district: "19" },
+  { code: "16", bn: "বুড়িচং", en: "Burichang", district: "19" },
+  { code: "4", bn: "চান্দিনা", en: "Chandina", district: "19" },
+  { code: "5", bn: "চৌদ্দগ্রাম", en: "Chauddagram", district: "19" },
+  { code: "11", bn: "কুমিল্লা সদর", en: "Comilla Sadar", district: "19" },
+  { code: "503", bn: "কুমিল্লা সিটি কর্পোরেশন", en: "Cumilla City Corporation", district: "19" },
+  { code: "6", bn: "দাউদকান্দি", en: "Daudkandi", district: "19" },
+  { code: "1", bn: "দেবিদ্বার", en: "Debidwar", district: "19" },
+  { code: "7", bn: "হোমনা", en: "Homna", district: "19" },
+  { code: "8", bn: "লাকসাম", en: "Laksam", district: "19" },
+  { code: "17", bn: "লালমাই", en: "Lalmai", district: "19" },
+  { code: "12", bn: "মেঘনা", en: "Meghna", district: "19" },
+  { code: "13", bn: "মনোহরগঞ্জ", en: "Monohargonj", district: "19" },
+  { code: "9", bn: "মুরাদনগর", en: "Muradnagar", district: "19" },
+  { code: "10", bn: "নাঙ্গলকোট", en: "Nangalkot", district: "19" },
+  { code: "14", bn: "সদর দক্ষিণ", en: "Sadarsouth", district: "19" },
+  { code: "15", bn: "তিতাস", en: "Titas", district: "19" },
+  { code: "81", bn: "চকরিয়া", en: "Chakaria", district: "22" },
+  { code: "80", bn: "কক্সবাজার সদর", en: "Coxsbazar Sadar", district: "22" },
+  { code: "82", bn: "কুতুবদিয়া", en: "Kutubdia", district: "22" },
+  { code: "84", bn: "মহেশখালী", en: "Moheshkhali", district: "22" },
+  { code: "85", bn: "পেকুয়া", en: "Pekua", district: "22" },
+  { code: "86", bn: "রামু", en: "Ramu", district: "22" },
+  { code: "87", bn: "টেকনাফ", en: "Teknaf", district: "22" },
+  { code: "83", bn: "উখিয়া", en: "Ukhiya", district: "22" },
+  { code: "493", bn: "ঢাকা উত্তর সিটি কর্পোরেশন", en: "Dhaka North City Corporat", district: "26" },
+  { code: "492", bn: "ঢাকা দক্ষিণ সিটি কর্পোরেশন", en: "Dhaka South City Corporat", district: "26" },
+  { code: "366", bn: "ধামরাই", en: "Dhamrai", district: "26" },
+  { code: "369", bn: "দোহার", en: "Dohar", district: "26" },
+  { code: "367", bn: "কেরাণীগঞ্জ", en: "Keraniganj", district: "26" },
+  { code: "368", bn: "নবাবগঞ্জ", en: "Nawabganj", district: "26" },
+  { code: "365", bn: "সাভার", en: "Savar", district: "26" },
+  { code: "407", bn: "বিরামপুর", en: "Birampur", district: "27" },
+  { code: "405", bn: "বীরগঞ্জ", en: "Birganj", district: "27" },
+  { code: "415", bn: "বিরল", en: "Birol", district: "27" },
+  { code: "409", bn: "বোচাগঞ্জ", en: "Bochaganj", district: "27" },
+  { code: "416", bn: "চিরিরবন্দর", en: "Chirirbandar", district: "27" },
+  { code: "412", bn: "দিনাজপুর সদর", en: "Dinajpur Sadar", district: "27" },
+  { code: "411", bn: "ফুলবাড়ী", en: "Fulbari", district: "27" },
+  { code: "406", bn: "ঘোড়াঘাট", en: "Ghoraghat", district: "27" },
+  { code: "413", bn: "হাকিমপুর", en: "Hakimpur", district: "27" },
+  { code: "410", bn: "কাহারোল", en: "Kaharol", district: "27" },
+  { code: "414", bn: "খানসামা", en: "Khansama", district: "27" },
+  { code: "404", bn: "নবাবগঞ্জ", en: "Nawabganj", district: "27" },
+  { code: "408", bn: "পার্বতীপুর", en: "Parbatipur", district: "27" },
+  { code: "391", bn: "আলফাডাঙ্গা", en: "Alfadanga", district: "29" },
+  { code: "395", bn: "ভাঙ্গা", en: "Bhanga", district: "29" },
+  { code: "392", bn: "বোয়ালমারী", en: "Boalmari", district: "29" },
+  { code: "396", bn: "চরভদ্রাসন", en: "Charbhadrasan", district: "29" },
+  { code: "390", bn: "ফরিদপুর সদর", en: "Faridpur Sadar", district: "29" },
+  { code: "397", bn: "মধুখালী", en: "Madhukhali", district: "29" },
+  { code: "394", bn: "নগরকান্দা", en: "Nagarkanda", district: "29" },
+  { code: "393", bn: "সদরপুর", en: "Sadarpur", district: "29" },
+  { code: "398", bn: "সালথা", en: "Saltha", district: "29" },
+  { code: "18", bn: "ছাগলনাইয়া", en: "Chhagalnaiya", district: "30" },
+  { code: "23", bn: "দাগনভূঞা", en: "Daganbhuiyan", district: "30" },
+  { code: "19", bn: "ফেনী সদর", en: "Feni Sadar", district: "30" },
+  { code: "21", bn: "ফুলগাজী", en: "Fulgazi", district: "30" },
+  { code: "22", bn: "পরশুরাম", en: "Parshuram", district: "30" },
+  { code: "20", bn: "সোনাগাজী", en: "Sonagazi", district: "30" },
+  { code: "429", bn: "গাইবান্ধা সদর", en: "Gaibandha Sadar", district: "32" },
+  { code: "432", bn: "গোবিন্দগঞ্জ", en: "Gobindaganj", district: "32" },
+  { code: "430", bn: "পলাশবাড়ী", en: "Palashbari", district: "32" },
+  { code: "434", bn: "ফুলছড়ি", en: "Phulchari", district: "32" },
+  { code: "428", bn: "সাদুল্লাপুর", en: "Sadullapur", district: "32" },
+  { code: "431", bn: "সাঘাটা", en: "Saghata", district: "32" },
+  { code: "433", bn: "সুন্দরগঞ্জ", en: "Sundarganj", district: "32" },
+  { code: "499", bn: "গাজীপুর সিটি কর্পোরেশন", en: "Gazipur City Corporation", district: "33" },
+  { code: "320", bn: "গাজীপুর সদর", en: "Gazipur Sadar", district: "33" },
+  { code: "318", bn: "কালিয়াকৈর", en: "Kaliakair", district: "33" },
+  { code: "317", bn: "কালীগঞ্জ", en: "Kaliganj", district: "33" },
+  { code: "319", bn: "কাপাসিয়া", en: "Kapasia", district: "33" },
+  { code: "321", bn: "শ্রীপুর", en: "Sreepur", district: "33" },
+  { code: "385", bn: "গোপালগঞ্জ সদর", en: "Gopalganj Sadar", district: "35" },
+  { code: "386", bn: "কাশিয়ানী", en: "Kashiani", district: "35" },
+  { code: "388", bn: "কোটালীপাড়া", en: "Kotalipara", district: "35" },
+  { code: "389", bn: "মুকসুদপুর", en: "Muksudpur", district: "35" },
+  { code: "387", bn: "টুংগীপাড়া", en: "Tungipara", district: "35" },
+  { code: "294", bn: "আজমিরীগঞ্জ", en: "Ajmiriganj", district: "36" },
+  { code: "293", bn: "বাহুবল", en: "Bahubal", district: "36" },
+  { code: "295", bn: "বানিয়াচং", en: "Baniachong", district: "36" },
+  { code: "297", bn: "চুনারুঘাট", en: "Chunarughat", district: "36" },
+  { code: "298", bn: "হবিগঞ্জ সদর", en: "Habiganj Sadar", district: "36" },
+  { code: "296", bn: "লাখাই", en: "Lakhai", district: "36" },
+  { code: "299", bn: "মাধবপুর", en: "Madhabpur", district: "36" },
+  { code: "292", bn: "নবীগঞ্জ", en: "Nabiganj", district: "36" },
+  { code: "504", bn: "শায়েস্তাগঞ্জ", en: "Shayestagonj", district: "36" },
+  { code: "150", bn: "আক্কেলপুর", en: "Akkelpur", district: "38" },
+  { code: "154", bn: "জয়পুরহাট সদর", en: "Joypurhat Sadar", district: "38" },
+  { code: "151", bn: "কালাই", en: "Kalai", district: "38" },
+  { code: "152", bn: "ক্ষেতলাল", en: "Khetlal", district: "38" },
+  { code: "153", bn: "পাঁচবিবি", en: "Panchbibi", district: "38" },
+  { code: "481", bn: "বকশীগঞ্জ", en: "Bokshiganj", district: "39" },
+  { code: "478", bn: "দেওয়ানগঞ্জ", en: "Dewangonj", district: "39" },
+  { code: "477", bn: "ইসলামপুর", en: "Islampur", district: "39" },
+  { code: "475", bn: "জামালপুর সদর", en: "Jamalpur Sadar", district: "39" },
+  { code: "480", bn: "মাদারগঞ্জ", en: "Madarganj", district: "39" },
+  { code: "476", bn: "মেলান্দহ", en: "Melandah", district: "39" },
+  { code: "479", bn: "সরিষাবাড়ী", en: "Sarishabari", district: "39" },
+  { code: "172", bn: "অভয়নগর", en: "Abhaynagar", district: "41" },
+  { code: "173", bn: "বাঘারপাড়া", en: "Bagherpara", district: "41" },
+  { code: "174", bn: "চৌগাছা", en: "Chougachha", district: "41" },
+  { code: "177", bn: "যশোর সদর", en: "Jessore Sadar", district: "41" },
+  { code: "175", bn: "ঝিকরগাছা", en: "Jhikargacha", district: "41" },
+  { code: "176", bn: "কেশবপুর", en: "Keshabpur", district: "41" },
+  { code: "171", bn: "মণিরামপুর", en: "Manirampur", district: "41" },
+  { code: "178", bn: "শার্শা", en: "Sharsha", district: "41" },
+  { code: "230", bn: "ঝালকাঠি সদর", en: "Jhalakathi Sadar", district: "42" },
+  { code: "231", bn: "কাঠালিয়া", en: "Kathalia", district: "42" },
+  { code: "232", bn: "নলছিটি", en: "Nalchity", district: "42" },
+  { code: "233", bn: "রাজাপুর", en: "Rajapur", district: "42" },
+  { code: "226", bn: "হরিণাকুন্ডু", en: "Harinakundu", district: "44" },
+  { code: "224", bn: "ঝিনাইদহ সদর", en: "Jhenaidah Sadar", district: "44" },
+  { code: "227", bn: "কালীগঞ্জ", en: "Kaliganj", district: "44" },
+  { code: "228", bn: "কোটচাঁদপুর", en: "Kotchandpur", district: "44" },
+  { code: "229", bn: "মহেশপুর", en: "Moheshpur", district: "44" },
+  { code: "225", bn: "শৈলকুপা", en: "Shailkupa", district: "44" },
+  { code: "89", bn: "দিঘীনালা", en: "Dighinala", district: "46" },
+  { code: "96", bn: "গুইমারা", en: "Guimara", district: "46" },
+  { code: "88", bn: "খাগড়াছড়ি সদর", en: "Khagrachhari Sadar", district: "46" },
+  { code: "91", bn: "লক্ষীছড়ি", en: "Laxmichhari", district: "46" },
+  { code: "93", bn: "মানিকছড়ি", en: "Manikchari", district: "46" },
+  { code: "95", bn: "মাটিরাঙ্গা", en: "Matiranga", district: "46" },
+  { code: "92", bn: "মহালছড়ি", en: "Mohalchari", district: "46" },
+  { code: "90", bn: "পানছড়ি", en: "Panchari", district: "46" },
+  { code: "94", bn: "রামগড়", en: "Ramgarh", district: "46" },
+  { code: "212", bn: "বটিয়াঘাটা", en: "Botiaghata", district: "47" },
+  { code: "213", bn: "দাকোপ", en: "Dakop", district: "47" },
+  { code: "208", bn: "দিঘলিয়া", en: "Digholia", district: "47" },
+  { code: "211", bn: "ডুমুরিয়া", en: "Dumuria", district: "47" },
+  { code: "207", bn: "ফুলতলা", en: "Fultola", district: "47" },
+  { code: "494", bn: "খুলনা সিটি কর্পোরেশন", en: "khulna city corporation", district: "47" },
+  { code: "214", bn: "কয়রা", en: "Koyra", district: "47" },
+  { code: "206", bn: "পাইকগাছা", en: "Paikgasa", district: "47" },
+  { code: "209", bn: "রূপসা", en: "Rupsha", district: "47" },
+  { code: "210", bn: "তেরখাদা", en: "Terokhada", district: "47" },
+  { code: "355", bn: "অষ্টগ্রাম", en: "Austagram", district: "48" },
+  { code: "354", bn: "বাজিতপুর", en: "Bajitpur", district: "48" },
+  { code: "347", bn: "ভৈরব", en: "Bhairab", district: "48" },
+  { code: "349", bn: "হোসেনপুর", en: "Hossainpur", district: "48" },
+  { code: "345", bn: "ইটনা", en: "Itna", district: "48" },
+  { code: "353", bn: "করিমগঞ্জ", en: "Karimgonj", district: "48" },
+  { code: "346", bn: "কটিয়াদী", en: "Katiadi", district: "48" },
+  { code: "352", bn: "কিশোরগঞ্জ সদর", en: "Kishoreganj Sadar", district: "48" },
+  { code: "351", bn: "কুলিয়ারচর", en: "Kuliarchar", district: "48" },
+  { code: "356", bn: "মিঠামইন", en: "Mithamoin", district: "48" },
+  { code: "357", bn: "নিকলী", en: "Nikli", district: "48" },
+  { code: "350", bn: "পাকুন্দিয়া", en: "Pakundia", district: "48" },
+  { code: "348", bn: "তাড়াইল", en: "Tarail", district: "48" },
+  { code: "450", bn: "ভুরুঙ্গামারী", en: "Bhurungamari", district: "49" },
+  { code: "456", bn: "চর রাজিবপুর", en: "Charrajibpur", district: "49" },
+  { code: "454", bn: "চিলমারী", en: "Chilmari", district: "49" },
+  { code: "448", bn: "কুড়িগ্রাম সদর", en: "Kurigram Sadar", district: "49" },
+  { code: "449", bn: "নাগেশ্বরী", en: "Nageshwari", district: "49" },
+  { code: "451", bn: "ফুলবাড়ী", en: "Phulbari", district: "49" },
+  { code: "452", bn: "রাজারহাট", en: "Rajarhat", district: "49" },
+  { code: "455", bn: "রৌমারী", en: "Rowmari", district: "49" },
+  { code: "453", bn: "উলিপুর", en: "Ulipur", district: "49" },
+  { code: "201", bn: "ভেড়ামারা", en: "Bheramara", district: "50" },
+  { code: "200", bn: "দৌলতপুর", en: "Daulatpur", district: "50" },
+  { code: "198", bn: "খোকসা", en: "Khoksa", district: "50" },
+  { code: "197", bn: "কুমারখালী", en: "Kumarkhali", district: "50" },
+  { code: "196", bn: "কুষ্টিয়া সদর", en: "Kushtia Sadar", district: "50" },
+  { code: "199", bn: "মিরপুর", en: "Mirpur", district: "50" },
+  { code: "61", bn: "কমলনগর", en: "Kamalnagar", district: "51" },
+  { code: "60", bn: "লক্ষ্মীপুর সদর", en: "Lakshmipur Sadar", district: "51" },
+  { code: "62", bn: "রায়পুর", en: "Raipur", district: "51" },
+  { code: "64", bn: "রামগঞ্জ", en: "Ramganj", district: "51" },
+  { code: "63", bn: "রামগতি", en: "Ramgati", district: "51" },
+  { code: "421", bn: "আদিতমারী", en: "Aditmari", district: "52" },
+  { code: "419", bn: "হাতীবান্ধা", en: "Hatibandha", district: "52" },
+  { code: "418", bn: "কালীগঞ্জ", en: "Kaliganj", district: "52" },
+  { code: "417", bn: "লালমনিরহাট সদর", en: "Lalmonirhat Sadar", district: "52" },
+  { code: "420", bn: "পাটগ্রাম", en: "Patgram", district: "52" },
+  { code: "383", bn: "কালকিনি", en: "Kalkini", district: "54" },
+  { code: "381", bn: "মাদারীপুর সদর", en: "Madaripur Sadar", district: "54" },
+  { code: "384", bn: "রাজৈর", en: "Rajoir", district: "54" },
+  { code: "382", bn: "শিবচর", en: "Shibchar", district: "54" },
+  { code: "204", bn: "মাগুরা সদর", en: "Magura Sadar", district: "55" },
+  { code: "205", bn: "মহম্মদপুর", en: "Mohammadpur", district: "55" },
+  { code: "202", bn: "শালিখা", en: "Shalikha", district: "55" },
+  { code: "203", bn: "শ্রীপুর", en: "Sreepur", district: "55" },
+  { code: "363", bn: "দৌলতপুর", en: "Doulatpur", district: "56" },
+  { code: "361", bn: "ঘিওর", en: "Gior", district: "56" },
+  { code: "358", bn: "হরিরামপুর", en: "Harirampur", district: "56" },
+  { code: "360", bn: "মানিকগঞ্জ সদর", en: "Manikganj Sadar", district: "56" },
+  { code: "359", bn: "সাটুরিয়া", en: "Saturia", district: "56" },
+  { code: "362", bn: "শিবালয়", en: "Shibaloy", district: "56" },
+  { code: "364", bn: "সিংগাইর", en: "Singiar", district: "56" },
+  { code: "188", bn: "গাংনী", en: "Gangni", district: "57" },
+  { code: "187", bn: "মেহেরপুর সদর", en: "Meherpur Sadar", district: "57" },
+  { code: "186", bn: "মুজিবনগর", en: "Mujibnagar", district: "57" },
+  { code: "285", bn: "বড়লেখা", en: "Barlekha", district: "58" },
+  { code: "291", bn: "জুড়ী", en: "Juri", district: "58" },
+  { code: "286", bn: "কমলগঞ্জ", en: "Kamolganj", district: "58" },
+  { code: "287", bn: "কুলাউড়া", en: "Kulaura", district: "58" },
+  { code: "288", bn: "মৌলভীবাজার সদর", en: "Moulvibazar Sadar", district: "58" },
+  { code: "289", bn: "রাজনগর", en: "Rajnagar", district: "58" },
+  { code: "290", bn: "শ্রীমঙ্গল", en: "Sreemangal", district: "58" },
+  { code: "374", bn: "গজারিয়া", en: "Gajaria", district: "59" },
+  { code: "373", bn: "লৌহজং", en: "Louhajanj", district: "59" },
+  { code: "370", bn: "মুন্সিগঞ্জ সদর", en: "Munshiganj Sadar", district: "59" },
+  { code: "372", bn: "সিরাজদিখান", en: "Sirajdikhan", district: "59" },
+  { code: "371", bn: "শ্রীনগর", en: "Sreenagar", district: "59" },
+  { code: "375", bn: "টংগীবাড়ি", en: "Tongibari", district: "59" },
+  { code: "464", bn: "ভালুকা", en: "Bhaluka", district: "61" },
+  { code: "467", bn: "ধোবাউড়া", en: "Dhobaura", district: "61" },
+  { code: "462", bn: "ফুলবাড়ীয়া", en: "Fulbaria", district: "61" },
+  { code: "471", bn: "গফরগাঁও", en: "Gafargaon", district: "61" },
+  { code: "470", bn: "গৌরীপুর", en: "Gouripur", district: "61" },
+  { code: "469", bn: "হালুয়াঘাট", en: "Haluaghat", district: "61" },
+  { code: "472", bn: "ঈশ্বরগঞ্জ", en: "Iswarganj", district: "61" },
+  { code: "465", bn: "মুক্তাগাছা", en: "Muktagacha", district: "61" },
+  { code: "501", bn: "ময়মনসিংহ সিটি কর্পোরেশন", en: "Mymansing city corporation", district: "61" },
+  { code: "466", bn: "ময়মনসিংহ সদর", en: "Mymensingh Sadar", district: "61" },
+  { code: "473", bn: "নান্দাইল", en: "Nandail", district: "61" },
+  { code: "468", bn: "ফুলপুর", en: "Phulpur", district: "61" },
+  { code: "474", bn: "তারাকান্দা", en: "Tarakanda", district: "61" },
+  { code: "463", bn: "ত্রিশাল", en: "Trishal", district: "61" },
+  { code: "166", bn: "আত্রাই", en: "Atrai", district: "64" },
+  { code: "161", bn: "বদলগাছী", en: "Badalgachi", district: "64" },
+  { code: "163", bn: "ধামইরহাট", en: "Dhamoirhat", district: "64" },
+  { code: "165", bn: "মান্দা", en: "Manda", district: "64" },
+  { code: "160", bn: "মহাদেবপুর", en: "Mohadevpur", district: "64" },
+  { code: "168", bn: "নওগাঁ সদর", en: "Naogaon Sadar", district: "64" },
+  { code: "164", bn: "নিয়ামতপুর", en: "Niamatpur", district: "64" },
+  { code: "162", bn: "পত্নিতলা", en: "Patnitala", district: "64" },
+  { code: "169", bn: "পোরশা", en: "Porsha", district: "64" },
+  { code: "167", bn: "রাণীনগর", en: "Raninagar", district: "64" },
+  { code: "170", bn: "সাপাহার", en: "Sapahar", district: "64" },
+  { code: "191", bn: "কালিয়া", en: "Kalia", district: "65" },
+  { code: "190", bn: "লোহাগড়া", en: "Lohagara", district: "65" },
+  { code: "189", bn: "নড়াইল সদর", en: "Narail Sadar", district: "65" },
+  { code: "328", bn: "আড়াইহাজার", en: "Araihazar", district: "67" },
+  { code: "329", bn: "বন্দর", en: "Bandar", district: "67" },
+  { code: "500", bn: "নারায়ণগঞ্জ সিটি কর্পোরেশন", en: "Narayanganj City Corporation", district: "67" },
+  { code: "330", bn: "নারায়নগঞ্জ সদর", en: "Narayanganj Sadar", district: "67" },
+  { code: "331", bn: "রূপগঞ্জ", en: "Rupganj", district: "67" },
+  { code: "332", bn: "সোনারগাঁ", en: "Sonargaon", district: "67" },
+  { code: "311", bn: "বেলাবো", en: "Belabo", district: "68" },
+  { code: "312", bn: "মনোহরদী", en: "Monohardi", district: "68" },
+  { code: "313", bn: "নরসিংদী সদর", en: "Narsingdi Sadar", district: "68" },
+  { code: "314", bn: "পলাশ", en: "Palash", district: "68" },
+  { code: "315", bn: "রায়পুরা", en: "Raipura", district: "68" },
+  { code: "316", bn: "শিবপুর", en: "Shibpur", district: "68" },
+  { code: "146", bn: "বাগাতিপাড়া", en: "Bagatipara", district: "69" },
+  { code: "145", bn: "বড়াইগ্রাম", en: "Baraigram", district: "69" },
+  { code: "148", bn: "গুরুদাসপুর", en: "Gurudaspur", district: "69" },
+  { code: "147", bn: "লালপুর", en: "Lalpur", district: "69" },
+  { code: "149", bn: "নলডাঙ্গা", en: "Naldanga", district: "69" },
+  { code: "143", bn: "নাটোর সদর", en: "Natore Sadar", district: "69" },
+  { code: "144", bn: "সিংড়া", en: "Singra", district: "69" },
+  { code: "158", bn: "ভোলাহাট", en: "Bholahat", district: "70" },
+  { code: "155", bn: "চাঁপাইনবাবগঞ্জ সদর", en: "Chapainawabganj Sadar", district: "70" },
+  { code: "156", bn: "গোমস্তাপুর", en: "Gomostapur", district: "70" },
+  { code: "157", bn: "নাচোল", en: "Nachol", district: "70" },
+  { code: "159", bn: "শিবগঞ্জ", en: "Shibganj", district: "70" },
+  { code: "485", bn: "আটপাড়া", en: "Atpara", district: "72" },
+  { code: "482", bn: "বারহাট্টা", en: "Barhatta", district: "72" },
+  { code: "483", bn: "দুর্গাপুর", en: "Durgapur", district: "72" },
+  { code: "488", bn: "কলমাকান্দা", en: "Kalmakanda", district: "72" },
+  { code: "484", bn: "কেন্দুয়া", en: "Kendua", district: "72" },
+  { code: "487", bn: "খালিয়াজুরী", en: "Khaliajuri", district: "72" },
+  { code: "486", bn: "মদন", en: "Madan", district: "72" },
+  { code: "489", bn: "মোহনগঞ্জ", en: "Mohongonj", district: "72" },
+  { code: "491", bn: "নেত্রকোণা সদর", en: "Netrokona Sadar", district: "72" },
+  { code: "490", bn: "পূর্বধলা", en: "Purbadhala", district: "72" },
+  { code: "424", bn: "ডিমলা", en: "Dimla", district: "73" },
+  { code: "423", bn: "ডোমার", en: "Domar", district: "73" },
+  { code: "425", bn: "জলঢাকা", en: "Jaldhaka", district: "73" },
+  { code: "426", bn: "কিশোরগঞ্জ", en: "Kishorganj", district: "73" },
+  { code: "427", bn: "নীলফামারী সদর", en: "Nilphamari Sadar", district: "73" },
+  { code: "422", bn: "সৈয়দপুর", en: "Syedpur", district: "73" },
+  { code: "45", bn: "বেগমগঞ্জ", en: "Begumganj", district: "75" },
+  { code: "50", bn: "চাটখিল", en: "Chatkhil", district: "75" },
+  { code: "44", bn: "কোম্পানীগঞ্জ", en: "Companiganj", district: "75" },
+  { code: "46", bn: "হাতিয়া", en: "Hatia", district: "75" },
+  { code: "48", bn: "কবিরহাট", en: "Kabirhat", district: "75" },
+  { code: "43", bn: "নোয়াখালী সদর", en: "Noakhali Sadar", district: "75" },
+  { code: "49", bn: "সেনবাগ", en: "Senbug", district: "75" },
+  { code: "51", bn: "সোনাইমুড়ী", en: "Sonaimori", district: "75" },
+  { code: "47", bn: "সুবর্ণচর", en: "Subarnachar", district: "75" },
+  { code: "118", bn: "আটঘরিয়া", en: "Atghoria", district: "76" },
+  { code: "117", bn: "বেড়া", en: "Bera", district: "76" },
+  { code: "115", bn: "ভাঙ্গুড়া", en: "Bhangura", district: "76" },
+  { code: "119", bn: "চাটমোহর", en: "Chatmohar", district: "76" },
+  { code: "121", bn: "ফরিদপুর", en: "Faridpur", district: "76" },
+  { code: "114", bn: "ঈশ্বরদী", en: "Ishurdi", district: "76" },
+  { code: "116", bn: "পাবনা সদর", en: "Pabna Sadar", district: "76" },
+  { code: "120", bn: "সাঁথিয়া", en: "Santhia", district: "76" },
+  { code: "113", bn: "সুজানগর", en: "Sujanagar", district: "76" },
+  { code: "402", bn: "আটোয়ারী", en: "Atwari", district: "77" },
+  { code: "401", bn: "বোদা", en: "Boda", district: "77" },
+  { code: "400", bn: "দেবীগঞ্জ", en: "Debiganj", district: "77" },
+  { code: "399", bn: "পঞ্চগড় সদর", en: "Panchagarh Sadar", district: "77" },
+  { code: "403", bn: "তেতুলিয়া", en: "Tetulia", district: "77" },
+  { code: "234", bn: "বাউফল", en: "Bauphal", district: "78" },
+  { code: "237", bn: "দশমিনা", en: "Dashmina", district: "78" },
+  { code: "236", bn: "দুমকি", en: "Dumki", district: "78" },
+  { code: "240", bn: "গলাচিপা", en: "Galachipa", district: "78" },
+  { code: "238", bn: "কলাপাড়া", en: "Kalapara", district: "78" },
+  { code: "239", bn: "মির্জাগঞ্জ", en: "Mirzaganj", district: "78" },
+  { code: "235", bn: "পটুয়াখালী সদর", en: "Patuakhali Sadar", district: "78" },
+  { code: "241", bn: "রাঙ্গাবালী", en: "Rangabali", district: "78" },
+  { code: "246", bn: "ভান্ডারিয়া", en: "Bhandaria", district: "79" },
+  { code: "244", bn: "কাউখালী", en: "Kawkhali", district: "79" },
+  { code: "247", bn: "মঠবাড়ীয়া", en: "Mathbaria", district: "79" },
+  { code: "243", bn: "নাজিরপুর", en: "Nazirpur", district: "79" },
+  { code: "248", bn: "নেছারাবাদ", en: "Nesarabad", district: "79" },
+  { code: "242", bn: "পিরোজপুর সদর", en: "Pirojpur Sadar", district: "79" },
+  { code: "245", bn: "জিয়ানগর", en: "Zianagar", district: "79" },
+  { code: "139", bn: "বাঘা", en: "Bagha", district: "81" },
+  { code: "142", bn: "বাগমারা", en: "Bagmara", district: "81" },
+  { code: "137", bn: "চারঘাট", en: "Charghat", district: "81" },
+  { code: "135", bn: "দুর্গাপুর", en: "Durgapur", district: "81" },
+  { code: "140", bn: "গোদাগাড়ী", en: "Godagari", district: "81" },
+  { code: "136", bn: "মোহনপুর", en: "Mohonpur", district: "81" },
+  { code: "134", bn: "পবা", en: "Paba", district: "81" },
+  { code: "138", bn: "পুঠিয়া", en: "Puthia", district: "81" },
+  { code: "495", bn: "রাজশাহী সিটি কর্পোরেশন", en: "Rajshahi city corporation", district: "81" },
+  { code: "141", bn: "তানোর", en: "Tanore", district: "81" },
+  { code: "379", bn: "বালিয়াকান্দি", en: "Baliakandi", district: "82" },
+  { code: "377", bn: "গোয়ালন্দ", en: "Goalanda", district: "82" },
+  { code: "380", bn: "কালুখালী", en: "Kalukhali", district: "82" },
+  { code: "378", bn: "পাংশা", en: "Pangsa", district: "82" },
+  { code: "376", bn: "রাজবাড়ী সদর", en: "Rajbari Sadar", district: "82" },
+  { code: "36", bn: "বাঘাইছড়ি", en: "Baghaichari", district: "84" },
+  { code: "37", bn: "বরকল", en: "Barkal", district: "84" },
+  { code: "40", bn: "বিলাইছড়ি", en: "Belaichari", district: "84" },
+  { code: "41", bn: "জুরাছড়ি", en: "Juraichari", district: "84" },
+  { code: "34", bn: "কাপ্তাই", en: "Kaptai", district: "84" },
+  { code: "35", bn: "কাউখালী", en: "Kawkhali", district: "84" },
+  { code: "38", bn: "লংগদু", en: "Langadu", district: "84" },
+  { code: "42", bn: "নানিয়ারচর", en: "Naniarchar", district: "84" },
+  { code: "39", bn: "রাজস্থলী", en: "Rajasthali", district: "84" },
+  { code: "33", bn: "রাঙ্গামাটি সদর", en: "Rangamati Sadar", district: "84" },
+  { code: "443", bn: "বদরগঞ্জ", en: "Badargonj", district: "85" },
+  { code: "441", bn: "গংগাচড়া", en: "Gangachara", district: "85" },
+  { code: "446", bn: "কাউনিয়া", en: "Kaunia", district: "85" },
+  { code: "444", bn: "মিঠাপুকুর", en: "Mithapukur", district: "85" },
+  { code: "447", bn: "পীরগাছা", en: "Pirgacha", district: "85" },
+  { code: "445", bn: "পীরগঞ্জ", en: "Pirgonj", district: "85" },
+  { code: "440", bn: "রংপুর সদর", en: "Rangpur Sadar", district: "85" },
+  { code: "496", bn: "রংপুর সিটি কর্পোরেশন", en: "Rungpur City Corporation", district: "85" },
+  { code: "442", bn: "তারাগঞ্জ", en: "Taragonj", district: "85" },
+  { code: "326", bn: "ভেদরগঞ্জ", en: "Bhedarganj", district: "86" },
+  { code: "327", bn: "ডামুড্যা", en: "Damudya", district: "86" },
+  { code: "325", bn: "গোসাইরহাট", en: "Gosairhat", district: "86" },
+  { code: "323", bn: "নড়িয়া", en: "Naria", district: "86" },
+  { code: "322", bn: "শরিয়তপুর সদর", en: "Shariatpur Sadar", district: "86" },
+  { code: "324", bn: "জাজিরা", en: "Zajira", district: "86" },
+  { code: "179", bn: "আশাশুনি", en: "Assasuni", district: "87" },
+  { code: "180", bn: "দেবহাটা", en: "Debhata", district: "87" },
+  { code: "181", bn: "কলারোয়া", en: "Kalaroa", district: "87" },
+  { code: "185", bn: "কালিগঞ্জ", en: "Kaliganj", district: "87" },
+  { code: "182", bn: "সাতক্ষীরা সদর", en: "Satkhira Sadar", district: "87" },
+  { code: "183", bn: "শ্যামনগর", en: "Shyamnagar", district: "87" },
+  { code: "184", bn: "তালা", en: "Tala", district: "87" },
+  { code: "104", bn: "বেলকুচি", en: "Belkuchi", district: "88" },
+  { code: "105", bn: "চৌহালি", en: "Chauhali", district: "88" },
+  { code: "106", bn: "কামারখন্দ", en: "Kamarkhand", district: "88" },
+  { code: "107", bn: "কাজীপুর", en: "Kazipur", district: "88" },
+  { code: "108", bn: "রায়গঞ্জ", en: "Raigonj", district: "88" },
+  { code: "109", bn: "শাহজাদপুর", en: "Shahjadpur", district: "88" },
+  { code: "110", bn: "সিরাজগঞ্জ সদর", en: "Sirajganj Sadar", district: "88" },
+  { code: "111", bn: "তাড়াশ", en: "Tarash", district: "88" },
+  { code: "112", bn: "উল্লাপাড়া", en: "Ullapara", district: "88" },
+  { code: "461", bn: "ঝিনাইগাতী", en: "Jhenaigati", district: "89" },
+  { code: "458", bn: "নালিতাবাড়ী", en: "Nalitabari", district: "89" },
+  { code: "460", bn: "নকলা", en: "Nokla", district: "89" },
+  { code: "457", bn: "শেরপুর সদর", en: "Sherpur Sadar", district: "89" },
+  { code: "459", bn: "শ্রীবরদী", en: "Sreebordi", district: "89" },
+  { code: "302", bn: "বিশ্বম্ভরপুর", en: "Bishwambarpur", district: "90" },
+  { code: "303", bn: "ছাতক", en: "Chhatak", district: "90" },
+  { code: "310", bn: "দিরাই", en: "Derai", district: "90" },
+  { code: "307", bn: "ধর্মপাশা", en: "Dharmapasha", district: "90" },
+  { code: "305", bn: "দোয়ারাবাজার", en: "Dowarabazar", district: "90" },
+  { code: "304", bn: "জগন্নাথপুর", en: "Jagannathpur", district: "90" },
+  { code: "308", bn: "জামালগঞ্জ", en: "Jamalganj", district: "90" },
+  { code: "309", bn: "শাল্লা", en: "Shalla", district: "90" },
+  { code: "301", bn: "দক্ষিণ সুনামগঞ্জ", en: "South Sunamganj", district: "90" },
+  { code: "300", bn: "সুনামগঞ্জ সদর", en: "Sunamganj Sadar", district: "90" },
+  { code: "306", bn: "তাহিরপুর", en: "Tahirpur", district: "90" },
+  { code: "272", bn: "বালাগঞ্জ", en: "Balaganj", district: "91" },
+  { code: "273", bn: "বিয়ানীবাজার", en: "Beanibazar", district: "91" },
+  { code: "274", bn: "বিশ্বনাথ", en: "Bishwanath", district: "91" },
+  { code: "275", bn: "কোম্পানীগঞ্জ", en: "Companiganj", district: "91" },
+  { code: "283", bn: "দক্ষিণ সুরমা", en: "Dakshinsurma", district: "91" },
+  { code: "276", bn: "ফেঞ্চুগঞ্জ", en: "Fenchuganj", district: "91" },
+  { code: "277", bn: "গোলাপগঞ্জ", en: "Golapganj", district: "91" },
+  { code: "278", bn: "গোয়াইনঘাট", en: "Gowainghat", district: "91" },
+  { code: "279", bn: "জৈন্তাপুর", en: "Jaintiapur", district: "91" },
+  { code: "280", bn: "কানাইঘাট", en: "Kanaighat", district: "91" },
+  { code: "284", bn: "ওসমানী নগর", en: "Osmaninagar", district: "91" },
+  { code: "502", bn: "সিলেট সিটি কর্পোরেশন", en: "Sylet City Corporation", district: "91" },
+  { code: "281", bn: "সিলেট সদর", en: "Sylhet Sadar", district: "91" },
+  { code: "282", bn: "জকিগঞ্জ", en: "Zakiganj", district: "91" },
+  { code: "333", bn: "বাসাইল", en: "Basail", district: "93" },
+  { code: "334", bn: "ভুয়াপুর", en: "Bhuapur", district: "93" },
+  { code: "335", bn: "দেলদুয়ার", en: "Delduar", district: "93" },
+  { code: "344", bn: "ধনবাড়ী", en: "Dhanbari", district: "93" },
+  { code: "336", bn: "ঘাটাইল", en: "Ghatail", district: "93" },
+  { code: "337", bn: "গোপালপুর", en: "Gopalpur", district: "93" },
+  { code: "343", bn: "কালিহাতী", en: "Kalihati", district: "93" },
+  { code: "338", bn: "মধুপুর", en: "Madhupur", district: "93" },
+  { code: "339", bn: "মির্জাপুর", en: "Mirzapur", district: "93" },
+  { code: "340", bn: "নাগরপুর", en: "Nagarpur", district: "93" },
+  { code: "341", bn: "সখিপুর", en: "Sakhipur", district: "93" },
+  { code: "342", bn: "টাঙ্গাইল সদর", en: "Tangail Sadar", district: "93" },
+  { code: "439", bn: "বালিয়াডাঙ্গী", en: "Baliadangi", district: "94" },
+  { code: "438", bn: "হরিপুর", en: "Haripur", district: "94" },
+  { code: "436", bn: "পীরগঞ্জ", en: "Pirganj", district: "94" },
+  { code: "437", bn: "রাণীশংকৈল", en: "Ranisankail", district: "94" },
+  { code: "435", bn: "ঠাকুরগাঁও সদর", en: "Thakurgaon Sadar", district: "94" },
+];
@@ -0,0 +1,4970 @@
+// Generated from the bd-divisions-to-unions dataset (ISC). Loaded on demand
+// because it is far larger than the rest of the administrative data.
+import type { GeoUnion } from "../lib/geo";
+
+export const UNIONS: GeoUnion[] = [
+  { code: "14", bn: "বরকামতা", en: "Barkamta", upazila: "1" },
+  { code: "4", bn: "বড়শালঘর", en: "Boroshalghor", upazila: "1" },
+  { code: "4574", bn: "দেবিদ্বার পৌরসভা", en: "Debidwar Pouroshova", upazila: "1" },
+  { code: "11", bn: "ধামতী", en: "Dhampti", upazila: "1" },
+  { code: "9", bn: "এলাহাবাদ", en: "Elahabad", upazila: "1" },
+  { code: "8", bn: "ফতেহাবাদ", en: "Fatehabad", upazila: "1" },
+  { code: "10", bn: "জাফরগঞ্জ", en: "Jafargonj", upazila: "1" },
+  { code: "12", bn: "মোহনপুর", en: "Mohanpur", upazila: "1" },
+  { code: "2", bn: "উত্তর গুনাইঘর", en: "North Gunaighor", upazila: "1" },
+  { code: "5", bn: "রাজামেহার", en: "Rajameher", upazila: "1" },
+  { code: "7", bn: "রসুলপুর", en: "Rasulpur", upazila: "1" },
+  { code: "3", bn: "দক্ষিণ গুনাইঘর", en: "South Gunaighor", upazila: "1" },
+  { code: "1", bn: "সুবিল", en: "Subil", upazila: "1" },
+  { code: "15", bn: "সুলতানপুর", en: "Sultanpur", upazila: "1" },
+  { code: "13", bn: "ভানী", en: "Vani", upazila: "1" },
+  { code: "6", bn: "ইউসুফপুর", en: "Yousufpur", upazila: "1" },
+  { code: "27", bn: "আড্ডা", en: "Adda", upazila: "2" },
+  { code: "28", bn: "আদ্রা", en: "Adra", upazila: "2" },
+  { code: "16", bn: "আগানগর", en: "Aganagar", upazila: "2" },
+  { code: "4576", bn: "বরুড়া পৌরসভা", en: "Barura Pouroshova", upazila: "2" },
+  { code: "17", bn: "ভবানীপুর", en: "Bhabanipur", upazila: "2" },
+  { code: "26", bn: "ভাউকসার", en: "Bhaukshar", upazila: "2" },
+  { code: "21", bn: "চিতড্ডা", en: "Chitodda", upazila: "2" },
+  { code: "24", bn: "গালিমপুর", en: "Galimpur", upazila: "2" },
+  { code: "20", bn: "ঝলম", en: "Jhalam", upazila: "2" },
+  { code: "30", bn: "লক্ষীপুর", en: "Laxmipur", upazila: "2" },
+  { code: "18", bn: "উত্তর খোশবাস", en: "North Khoshbas", upazila: "2" },
+  { code: "22", bn: "উত্তর শিলমুড়ি", en: "North Shilmuri", upazila: "2" },
+  { code: "29", bn: "পয়ালগাছা", en: "Payalgacha", upazila: "2" },
+  { code: "25", bn: "শাকপুর", en: "Shakpur", upazila: "2" },
+  { code: "19", bn: "দক্ষিন খোশবাস", en: "South Khoshbas", upazila: "2" },
+  { code: "23", bn: "দক্ষিন শিলমুড়ি", en: "South Shilmuri", upazila: "2" },
+  { code: "35", bn: "ব্রাহ্মনপাড়া সদর", en: "Brahmanpara Sadar", upazila: "3" },
+  { code: "32", bn: "চান্দলা", en: "Chandla", upazila: "3" },
+  { code: "34", bn: "দুলালপুর", en: "Dulalpur", upazila: "3" },
+  { code: "38", bn: "মাধবপুর", en: "Madhabpur", upazila: "3" },
+  { code: "37", bn: "মালাপাড়া", en: "Malapara", upazila: "3" },
+  { code: "36", bn: "সাহেবাবাদ", en: "Shahebabad", upazila: "3" },
+  { code: "33", bn: "শশীদল", en: "Shashidal", upazila: "3" },
+  { code: "31", bn: "শিদলাই", en: "Shidli", upazila: "3" },
+  { code: "50", bn: "বাড়েরা", en: "Barera", upazila: "4" },
+  { code: "40", bn: "বাতাঘাসি", en: "Bataghashi", upazila: "4" },
+  { code: "42", bn: "বরকরই", en: "Borcarai", upazila: "4" },
+  { code: "51", bn: "বরকইট", en: "Borcoit", upazila: "4" },
+  { code: "4572", bn: "চান্দিনা পৌরসভা", en: "Chandina Pouroshova", upazila: "4" },
+  { code: "44", bn: "দোল্লাই নবাবপুর", en: "Dollai Nowabpur", upazila: "4" },
+  { code: "49", bn: "এতবারপুর", en: "Etberpur", upazila: "4" },
+  { code: "46", bn: "গল্লাই", en: "Gollai", upazila: "4" },
+  { code: "41", bn: "জোয়াগ", en: "Joag", upazila: "4" },
+  { code: "47", bn: "কেরণখাল", en: "Keronkhal", upazila: "4" },
+  { code: "43", bn: "মাধাইয়া", en: "Madhaiya", upazila: "4" },
+  { code: "48", bn: "মাইজখার", en: "Maijkhar", upazila: "4" },
+  { code: "45", bn: "মহিচাইল", en: "Mohichial", upazila: "4" },
+  { code: "39", bn: "সুহিলপুর", en: "Shuhilpur", upazila: "4" },
+  { code: "63", bn: "আলকরা", en: "Alkara", upazila: "5" },
+  { code: "58", bn: "বাতিসা", en: "Batisha", upazila: "5" },
+  { code: "4562", bn: "চৌদ্দগ্রাম পৌরসভা", en: "Chaddagram", upazila: "5" },
+  { code: "60", bn: "চিওড়া", en: "Cheora", upazila: "5" },
+  { code: "56", bn: "ঘোলপাশা", en: "Ghulpasha", upazila: "5" },
+  { code: "62", bn: "গুনবতী", en: "Goonabati", upazila: "5" },
+  { code: "61", bn: "জগন্নাথদিঘী", en: "Jagannatdighi", upazila: "5" },
+  { code: "54", bn: "কালিকাপুর", en: "Kalikapur", upazila: "5" },
+  { code: "59", bn: "কনকাপৈত", en: "Kankapait", upazila: "5" },
+  { code: "53", bn: "কাশিনগর", en: "Kashinagar", upazila: "5" },
+  { code: "57", bn: "মুন্সীরহাট", en: "Moonshirhat", upazila: "5" },
+  { code: "55", bn: "শুভপুর", en: "Shuvapur", upazila: "5" },
+  { code: "52", bn: "শ্রীপুর", en: "Sreepur", upazila: "5" },
+  { code: "78", bn: "বারপাড়া", en: "Baropara", upazila: "6" },
+  { code: "75", bn: "বিটেশ্বর", en: "Betessor", upazila: "6" },
+  { code: "65", bn: "দাউদকান্দি", en: "Daudkandi", upazila: "6" },
+  { code: "4573", bn: "দাউদকান্দি পৌরসভা", en: "Daudkandi Pouroshova", upazila: "6" },
+  { code: "64", bn: "দৌলতপুর", en: "Doulotpur", upazila: "6" },
+  { code: "71", bn: "পুর্ব মোহাম্মদপুর", en: "East Mohammadpur", upazila: "6" },
+  { code: "73", bn: "গোয়ালমারী", en: "Goalmari", upazila: "6" },
+  { code: "70", bn: "গৌরীপুর", en: "Gouripur", upazila: "6" },
+  { code: "74", bn: "মারুকা", en: "Maruka", upazila: "6" },
+  { code: "66", bn: "উত্তর ইলিয়টগঞ্জ", en: "North Eliotgonj", upazila: "6" },
+  { code: "76", bn: "পদুয়া", en: "Podua", upazila: "6" },
+  { code: "67", bn: "দক্ষিন ইলিয়টগঞ্জ", en: "South Eliotgonj", upazila: "6" },
+  { code: "69", bn: "সুন্দলপুর", en: "Sundolpur", upazila: "6" },
+  { code: "72", bn: "পশ্চিম মোহাম্মদপুর", en: "West Mohammadpur", upazila: "6" },
+  { code: "77", bn: "পশ্চিম পাচঁগাছিয়া", en: "West Passgacia", upazila: "6" },
+  { code: "68", bn: "জিংলাতলী", en: "Zinglatoli", upazila: "6" },
+  { code: "81", bn: "আছাদপুর", en: "Asadpur", upazila: "7" },
+  { code: "82", bn: "চান্দেরচর", en: "Chanderchor", upazila: "7" },
+  { code: "87", bn: "দুলালপুর", en: "Dulalpur", upazila: "7" },
+  { code: "80", bn: "ঘাগুটিয়া", en: "Gagutiea", upazila: "7" },
+  { code: "85", bn: "ঘারমোড়া", en: "Garmora", upazila: "7" },
+  { code: "4577", bn: "হোমনা পৌরসভা", en: "Homna Pouroshova", upazila: "7" },
+  { code: "86", bn: "জয়পুর", en: "Joypur", upazila: "7" },
+  { code: "79", bn: "মাথাভাঙ্গা", en: "Mathabanga", upazila: "7" },
+  { code: "84", bn: "নিলখী", en: "Nilokhi", upazila: "7" },
+  { code: "83", bn: "ভাষানিয়া", en: "Vashania", upazila: "7" },
+  { code: "94", bn: "আজগরা", en: "Azgora", upazila: "8" },
+  { code: "88", bn: "বাকই", en: "Bakoi", upazila: "8" },
+  { code: "91", bn: "গোবিন্দপুর", en: "Gobindapur", upazila: "8" },
+  { code: "90", bn: "কান্দিরপাড়", en: "Kandirpar", upazila: "8" },
+  { code: "4564", bn: "লাকসাম পৌরসভা", en: "Laksam pouroshova", upazila: "8" },
+  { code: "93", bn: "লাকসাম পুর্ব", en: "Laksam Purba", upazila: "8" },
+  { code: "89", bn: "মুদাফফর গঞ্জ", en: "Mudafargonj", upazila: "8" },
+  { code: "92", bn: "উত্তরদা", en: "Uttarda", upazila: "8" },
+  { code: "96", bn: "আকুবপুর", en: "Akubpur", upazila: "9" },
+  { code: "97", bn: "আন্দিকোট", en: "Andicot", upazila: "9" },
+  { code: "115", bn: "বাবুটিপাড়া", en: "Babutipara", upazila: "9" },
+  { code: "100", bn: "বাঙ্গরা (পূর্ব)", en: "Bangara (East)", upazila: "9" },
+  { code: "101", bn: "বাঙ্গরা (পশ্চিম)", en: "Bangara (West)", upazila: "9" },
+  { code: "103", bn: "কামাল্লা", en: "Camalla", upazila: "9" },
+  { code: "102", bn: "চাপিতলা", en: "Chapitala", upazila: "9" },
+  { code: "110", bn: "ধামঘর", en: "Damgar", upazila: "9" },
+  { code: "113", bn: "দারোরা", en: "Darura", upazila: "9" },
+  { code: "111", bn: "জাহাপুর", en: "Jahapur", upazila: "9" },
+  { code: "104", bn: "যাত্রাপুর", en: "Jatrapur", upazila: "9" },
+  { code: "107", bn: "মুরাদনগর সদর", en: "Muradnagar Sadar", upazila: "9" },
+  { code: "108", bn: "নবীপুর (পুর্ব)", en: "Nobipur (East)", upazila: "9" },
+  { code: "109", bn: "নবীপুর (পশ্চিম)", en: "Nobipur (West)", upazila: "9" },
+  { code: "114", bn: "পাহাড়পুর", en: "Paharpur", upazila: "9" },
+  { code: "98", bn: "পুর্বধৈইর (পুর্ব)", en: "Purbadair (East)", upazila: "9" },
+  { code: "99", bn: "পুর্বধৈইর (পশ্চিম)", en: "Purbadair (West)", upazila: "9" },
+  { code: "105", bn: "রামচন্দ্রপুর (উত্তর)", en: "Ramachandrapur (North)", upazila: "9" },
+  { code: "106", bn: "রামচন্দ্রপুর (দক্ষিন)", en: "Ramachandrapur (South)", upazila: "9" },
+  { code: "112", bn: "ছালিয়াকান্দি", en: "Salikandi", upazila: "9" },
+  { code: "95", bn: "শ্রীকাইল", en: "Sreekil", upazila: "9" },
+  { code: "116", bn: "টনকী", en: "Tanki", upazila: "9" },
+  { code: "123", bn: "আদ্রা", en: "Adra", upazila: "10" },
+  { code: "117", bn: "বাঙ্গড্ডা", en: "Bangadda", upazila: "10" },
+  { code: "127", bn: "বক্সগঞ্জ", en: "Boxgonj", upazila: "10" },
+  { code: "125", bn: "ঢালুয়া", en: "Dhalua", upazila: "10" },
+  { code: "126", bn: "দৌলখাঁড়", en: "Doulkha", upazila: "10" },
+  { code: "122", bn: "হেসাখাল", en: "Heshakhal", upazila: "10" },
+  { code: "124", bn: "জোড্ডা", en: "Judda", upazila: "10" },
+  { code: "121", bn: "মক্রবপুর", en: "Makrabpur", upazila: "10" },
+  { code: "120", bn: "মোকরা", en: "Mokara", upazila: "10" },
+  { code: "4575", bn: "নাঙ্গলকোট পৌরসভা", en: "Nangalkot Pouroshova", upazila: "10" },
+  { code: "118", bn: "পেরিয়া", en: "Paria", upazila: "10" },
+  { code: "119", bn: "রায়কোট", en: "Raykot", upazila: "10" },
+  { code: "128", bn: "সাতবাড়ীয়া", en: "Satbaria", upazila: "10" },
+  { code: "132", bn: "আমড়াতলী", en: "Amratoli", upazila: "11" },
+  { code: "134", bn: "জগন্নাথপুর", en: "Jagannatpur", upazila: "11" },
+  { code: "129", bn: "কালীর বাজার", en: "Kalirbazer", upazila: "11" },
+  { code: "130", bn: "উত্তর দুর্গাপুর", en: "North Durgapur", upazila: "11" },
+  { code: "133", bn: "পাঁচথুবী", en: "Panchthubi", upazila: "11" },
+  { code: "131", bn: "দক্ষিন দুর্গাপুর", en: "South Durgapur", upazila: "11" },
+  { code: "139", bn: "বড়কান্দা", en: "Barakanda", upazila: "12" },
+  { code: "136", bn: "চালিভাঙ্গা", en: "Chalibanga", upazila: "12" },
+  { code: "135", bn: "চন্দনপুর", en: "Chandanpur", upazila: "12" },
+  { code: "140", bn: "গোবিন্দপুর", en: "Govindapur", upazila: "12" },
+  { code: "141", bn: "লুটেরচর", en: "Luterchar", upazila: "12" },
+  { code: "138", bn: "মানিকারচর", en: "Manikarchar", upazila: "12" },
+  { code: "137", bn: "রাধানগর", en: "Radanagar", upazila: "12" },
+  { code: "142", bn: "ভাওরখোলা", en: "Vaorkhola", upazila: "12" },
+  { code: "143", bn: "বাইশগাঁও", en: "Baishgaon", upazila: "13" },
+  { code: "153", bn: "বিপুলাসার", en: "Bipulashar", upazila: "13" },
+  { code: "145", bn: "হাসনাবাদ", en: "Hasnabad", upazila: "13" },
+  { code: "146", bn: "ঝলম (উত্তর)", en: "Jholam (North)", upazila: "13" },
+  { code: "147", bn: "ঝলম (দক্ষিন)", en: "Jholam (South)", upazila: "13" },
+  { code: "150", bn: "খিলা", en: "Khela", upazila: "13" },
+  { code: "149", bn: "লক্ষনপুর", en: "Lokkhanpur", upazila: "13" },
+  { code: "148", bn: "মৈশাতুয়া", en: "Moishatua", upazila: "13" },
+  { code: "152", bn: "নাথেরপেটুয়া", en: "Natherpetua", upazila: "13" },
+  { code: "144", bn: "সরসপুর", en: "Shoroshpur", upazila: "13" },
+  { code: "151", bn: "উত্তর হাওলা", en: "Uttarhowla", upazila: "13" },
+  { code: "159", bn: "বাগমারা (উত্তর)", en: "Bagmara (North)", upazila: "14" },
+  { code: "160", bn: "বাগমারা (দক্ষিন)", en: "Bagmara (South)", upazila: "14" },
+  { code: "155", bn: "বারপাড়া", en: "Baropara", upazila: "14" },
+  { code: "163", bn: "বেলঘর (উত্তর)", en: "Belgor (North)", upazila: "14" },
+  { code: "164", bn: "বেলঘর (দক্ষিন)", en: "Belgor (South)", upazila: "14" },
+  { code: "161", bn: "ভূলইন (উত্তর)", en: "Bhuloin (North)", upazila: "14" },
+  { code: "162", bn: "ভূলইন (দক্ষিন)", en: "Bhuloin (South)", upazila: "14" },
+  { code: "167", bn: "বিজয়পুর", en: "Bijoypur", upazila: "14" },
+  { code: "154", bn: "চৌয়ারা", en: "Chuwara", upazila: "14" },
+  { code: "157", bn: "গলিয়ারা", en: "Goliara", upazila: "14" },
+  { code: "156", bn: "জোড়কানন (পুর্ব)", en: "Jorkanoneast", upazila: "14" },
+  { code: "158", bn: "জোড়কানন (পশ্চিম)", en: "Jorkanonwest", upazila: "14" },
+  { code: "165", bn: "পেরুল (উত্তর)", en: "Perul (North)", upazila: "14" },
+  { code: "166", bn: "পেরুল (দক্ষিন)", en: "Perul (South)", upazila: "14" },
+  { code: "170", bn: "বলরামপুর", en: "Balorampur", upazila: "15" },
+  { code: "169", bn: "জগতপুর", en: "Jagatpur", upazila: "15" },
+  { code: "172", bn: "কলাকান্দি", en: "Kalakandi", upazila: "15" },
+  { code: "171", bn: "কড়িকান্দি", en: "Karikandi", upazila: "15" },
+  { code: "176", bn: "মজিদপুর", en: "Majidpur", upazila: "15" },
+  { code: "174", bn: "নারান্দিয়া", en: "Narayandia", upazila: "15" },
+  { code: "168", bn: "সাতানী", en: "Satani", upazila: "15" },
+  { code: "173", bn: "ভিটিকান্দি", en: "Vitikandi", upazila: "15" },
+  { code: "175", bn: "জিয়ারকান্দি", en: "Zearkandi", upazila: "15" },
+  { code: "181", bn: "বাকশীমূল", en: "Bakshimul", upazila: "16" },
+  { code: "180", bn: "বুড়িচং সদর", en: "Burichang Sadar", upazila: "16" },
+  { code: "179", bn: "মোকাম", en: "Mokam", upazila: "16" },
+  { code: "177", bn: "ময়নামতি", en: "Moynamoti", upazila: "16" },
+  { code: "182", bn: "পীরযাত্রাপুর", en: "Pirjatrapur", upazila: "16" },
+  { code: "184", bn: "রাজাপুর", en: "Rajapur", upazila: "16" },
+  { code: "183", bn: "ষোলনল", en: "Sholonal", upazila: "16" },
+  { code: "178", bn: "ভারেল্লা", en: "Varella", upazila: "16" },
+  { code: "185", bn: "বাগমারা (উত্তর)", en: "Bagmara (North)", upazila: "17" },
+  { code: "186", bn: "বাগমারা (দক্ষিন)", en: "Bagmara (South)", upazila: "17" },
+  { code: "189", bn: "বেলঘর (উত্তর)", en: "Belgor (North)", upazila: "17" },
+  { code: "190", bn: "বেলঘর (দক্ষিন)", en: "Belgor (South)", upazila: "17" },
+  { code: "187", bn: "ভূলইন (উত্তর)", en: "Bhuloin (North)", upazila: "17" },
+  { code: "188", bn: "ভূলইন (দক্ষিন)", en: "Bhuloin (South)", upazila: "17" },
+  { code: "191", bn: "পেরুল (উত্তর)", en: "Perul (North)", upazila: "17" },
+  { code: "192", bn: "পেরুল (দক্ষিন)", en: "Perul (South)", upazila: "17" },
+  { code: "4587", bn: "ছাগলনাইয়া পৌরসভা", en: "Chhagalnaiya Paurasabha", upazila: "18" },
+  { code: "197", bn: "ঘোপাল", en: "Gopal", upazila: "18" },
+  { code: "193", bn: "মহামায়া", en: "Mohamaya", upazila: "18" },
+  { code: "194", bn: "পাঠাননগর", en: "Pathannagar", upazila: "18" },
+  { code: "196", bn: "রাধানগর", en: "Radhanagar", upazila: "18" },
+  { code: "195", bn: "শুভপুর", en: "Subhapur", upazila: "18" },
+  { code: "203", bn: "বালিগাঁও", en: "Baligaon", upazila: "19" },
+  { code: "206", bn: "ছনুয়া", en: "Chonua", upazila: "19" },
+  { code: "204", bn: "ধলিয়া", en: "Dholia", upazila: "19" },
+  { code: "200", bn: "ধর্মপুর", en: "Dhormapur", upazila: "19" },
+  { code: "208", bn: "ফাজিলপুর", en: "Fazilpur", upazila: "19" },
+  { code: "4586", bn: "ফেনী পৌরসভা", en: "Feni Sadar Paurasabha", upazila: "19" },
+  { code: "209", bn: "ফরহাদনগর", en: "Forhadnogor", upazila: "19" },
+  { code: "202", bn: "কালিদহ", en: "Kalidah", upazila: "19" },
+  { code: "201", bn: "কাজিরবাগ", en: "Kazirbag", upazila: "19" },
+  { code: "205", bn: "লেমুয়া", en: "Lemua", upazila: "19" },
+  { code: "207", bn: "মোটবী", en: "Motobi", upazila: "19" },
+  { code: "199", bn: "পাঁচগাছিয়া", en: "Panchgachia", upazila: "19" },
+  { code: "198", bn: "শর্শদি", en: "Sarishadi", upazila: "19" },
+  { code: "217", bn: "আমিরাবাদ", en: "Amirabad", upazila: "20" },
+  { code: "211", bn: "বগাদানা", en: "Bogadana", upazila: "20" },
+  { code: "214", bn: "চরদরবেশ", en: "Chardorbesh", upazila: "20" },
+  { code: "210", bn: "চরমজলিশপুর", en: "Charmozlishpur", upazila: "20" },
+  { code: "215", bn: "চরচান্দিয়া", en: "Chorchandia", upazila: "20" },
+  { code: "213", bn: "মঙ্গলকান্দি", en: "Mongolkandi", upazila: "20" },
+  { code: "212", bn: "মতিগঞ্জ", en: "Motigonj", upazila: "20" },
+  { code: "218", bn: "নবাবপুর", en: "Nababpur", upazila: "20" },
+  { code: "216", bn: "সোনাগাজী", en: "Sonagazi", upazila: "20" },
+  { code: "4589", bn: "সোনাগাজী পৌরসভা", en: "Sonagazi Paurasabha", upazila: "20" },
+  { code: "223", bn: "আমজাদহাট", en: "Amzadhat", upazila: "21" },
+  { code: "222", bn: "আনন্দপুর", en: "Anandopur", upazila: "21" },
+  { code: "221", bn: "দরবারপুর", en: "Dorbarpur", upazila: "21" },
+  { code: "219", bn: "ফুলগাজী", en: "Fulgazi", upazila: "21" },
+  { code: "224", bn: "জি,এম, হাট", en: "Gmhat", upazila: "21" },
+  { code: "220", bn: "মুন্সিরহাট", en: "Munshirhat", upazila: "21" },
+  { code: "227", bn: "বক্সমাহমুদ", en: "Boxmahmmud", upazila: "22" },
+  { code: "226", bn: "চিথলিয়া", en: "Ctholia", upazila: "22" },
+  { code: "225", bn: "মির্জানগর", en: "Mizanagar", upazila: "22" },
+  { code: "4588", bn: "পরশুরাম পৌরসভা", en: "Parshuram Paurasabha", upazila: "22" },
+  { code: "233", bn: "দাগনভূঞা", en: "Daganbhuiyan", upazila: "23" },
+  { code: "4585", bn: "দাগনভূঁইয়া পৌরসভা", en: "Daganbhuiyan Paurasabha", upazila: "23" },
+  { code: "235", bn: "জায়লস্কর", en: "Jayloskor", upazila: "23" },
+  { code: "234", bn: "মাতুভূঞা", en: "Matubhuiyan", upazila: "23" },
+  { code: "230", bn: "পূর্বচন্দ্রপুর", en: "Purbachandrapur", upazila: "23" },
+  { code: "229", bn: "রাজাপুর", en: "Rajapur", upazila: "23" },
+  { code: "231", bn: "রামনগর", en: "Ramnagar", upazila: "23" },
+  { code: "228", bn: "সিন্দুরপুর", en: "Sindurpur", upazila: "23" },
+  { code: "232", bn: "ইয়াকুবপুর", en: "Yeakubpur", upazila: "23" },
+  { code: "236", bn: "বাসুদেব", en: "Basudeb", upazila: "24" },
+  { code: "245", bn: "বুধল", en: "Bodhal", upazila: "24" },
+  { code: "4592", bn: "ব্রাহ্মণবাড়িয়া পৌরসভা", en: "Brahmanbaria Paurasabha", upazila: "24" },
+  { code: "237", bn: "মাছিহাতা", en: "Machihata", upazila: "24" },
+  { code: "246", bn: "মজলিশপুর", en: "Majlishpur", upazila: "24" },
+  { code: "242", bn: "নাটাই (দক্ষিন)", en: "Natai", upazila: "24" },
+  { code: "243", bn: "নাটাই (উত্তর)", en: "Natai", upazila: "24" },
+  { code: "239", bn: "রামরাইল", en: "Ramrail", upazila: "24" },
+  { code: "240", bn: "সাদেকপুর", en: "Sadekpur", upazila: "24" },
+  { code: "244", bn: "সুহিলপুর", en: "Shuhilpur", upazila: "24" },
+  { code: "238", bn: "সুলতানপুর", en: "Sultanpur", upazila: "24" },
+  { code: "241", bn: "তালশহর", en: "Talsahar", upazila: "24" },
+  { code: "249", bn: "বাদৈর", en: "Badair", upazila: "25" },
+  { code: "256", bn: "বায়েক", en: "Bayek", upazila: "25" },
+  { code: "251", bn: "বিনাউটি", en: "Benauty", upazila: "25" },
+  { code: "252", bn: "গোপীনাথপুর", en: "Gopinathpur", upazila: "25" },
+  { code: "4593", bn: "কসবা পৌরসভা", en: "Kasba Paurasabha", upazila: "25" },
+  { code: "253", bn: "কসবা", en: "Kasbaw", upazila: "25" },
+  { code: "255", bn: "কাইমপুর", en: "Kayempur", upazila: "25" },
+  { code: "250", bn: "খাড়েরা", en: "Kharera", upazila: "25" },
+  { code: "254", bn: "কুটি", en: "Kuti", upazila: "25" },
+  { code: "248", bn: "মেহারী", en: "Mehari", upazila: "25" },
+  { code: "247", bn: "মূলগ্রাম", en: "Mulagram", upazila: "25" },
+  { code: "258", bn: "ভলাকুট", en: "Bhalakut", upazila: "26" },
+  { code: "262", bn: "বুড়িশ্বর", en: "Burishwar", upazila: "26" },
+  { code: "265", bn: "চাপৈরতলা", en: "Chapartala", upazila: "26" },
+  { code: "257", bn: "চাতলপাড়", en: "Chatalpar", upazila: "26" },
+  { code: "266", bn: "ধরমন্ডল", en: "Dharnondol", upazila: "26" },
+  { code: "263", bn: "ফান্দাউক", en: "Fandauk", upazila: "26" },
+  { code: "260", bn: "গোয়ালনগর", en: "Goalnagar", upazila: "26" },
+  { code: "269", bn: "গোকর্ণ", en: "Gokarna", upazila: "26" },
+  { code: "264", bn: "গুনিয়াউক", en: "Goniauk", upazila: "26" },
+  { code: "267", bn: "হরিপুর", en: "Haripur", upazila: "26" },
+  { code: "259", bn: "কুন্ডা", en: "Kunda", upazila: "26" },
+  { code: "261", bn: "নাসিরনগর", en: "Nasirnagar", upazila: "26" },
+  { code: "268", bn: "পূর্বভাগ", en: "Purbabhag", upazila: "26" },
+  { code: "270", bn: "অরুয়াইল", en: "Auraol", upazila: "27" },
+  { code: "272", bn: "চুন্টা", en: "Chunta", upazila: "27" },
+  { code: "273", bn: "কালীকচ্ছ", en: "Kalikaccha", upazila: "27" },
+  { code: "276", bn: "নোয়াগাঁও", en: "Noagoun", upazila: "27" },
+  { code: "271", bn: "পাকশিমুল", en: "Pakshimuul", upazila: "27" },
+  { code: "274", bn: "পানিশ্বর", en: "Panishor", upazila: "27" },
+  { code: "275", bn: "সরাইল সদর", en: "Sarail", upazila: "27" },
+  { code: "277", bn: "শাহজাদাপুর", en: "Shahajadapur", upazila: "27" },
+  { code: "278", bn: "শাহবাজপুর", en: "Shahbazpur", upazila: "27" },
+  { code: "282", bn: "আড়াইসিধা", en: "Araishidha", upazila: "28" },
+  { code: "279", bn: "আশুগঞ্জ সদর", en: "Ashuganj", upazila: "28" },
+  { code: "280", bn: "চরচারতলা", en: "Charchartala", upazila: "28" },
+  { code: "281", bn: "দুর্গাপুর", en: "Durgapur", upazila: "28" },
+  { code: "285", bn: "লালপুর", en: "Lalpur", upazila: "28" },
+  { code: "284", bn: "শরীফপুর", en: "Sarifpur", upazila: "28" },
+  { code: "283", bn: "তালশহর(পঃ)", en: "Talshaharw", upazila: "28" },
+  { code: "286", bn: "তারুয়া", en: "Tarua", upazila: "28" },
+  { code: "4590", bn: "আখাউড়া পৌরসভা", en: "Akhaura Paurasabha", upazila: "29" },
+  { code: "290", bn: "আখাউড়া (উঃ)", en: "Akhauran", upazila: "29" },
+  { code: "291", bn: "আখাউড়া (দঃ)", en: "Akhauras", upazila: "29" },
+  { code: "288", bn: "ধরখার", en: "Dharkhar", upazila: "29" },
+  { code: "289", bn: "মোগড়া", en: "Mogra", upazila: "29" },
+  { code: "287", bn: "মনিয়ন্দ", en: "Monionda", upazila: "29" },
+  { code: "292", bn: "বড়াইল", en: "Barail", upazila: "30" },
+  { code: "308", bn: "বড়িকান্দি", en: "Barikandi", upazila: "30" },
+  { code: "296", bn: "বিদ্যাকুট", en: "Biddayakut", upazila: "30" },
+  { code: "293", bn: "বীরগাঁও", en: "Birgaon", upazila: "30" },
+  { code: "299", bn: "বিটঘর", en: "Bitghar", upazila: "30" },
+  { code: "304", bn: "ইব্রাহিমপুর", en: "Ibrahimpur", upazila: "30" },
+  { code: "302", bn: "জিনোদপুর", en: "Jinudpur", upazila: "30" },
+  { code: "311", bn: "কাইতলা (উত্তর)", en: "Kaitala (North)", upazila: "30" },
+  { code: "312", bn: "কাইতলা (দক্ষিন)", en: "Kaitala (South)", upazila: "30" },
+  { code: "294", bn: "কৃষ্ণনগর", en: "Krishnanagar", upazila: "30" },
+  { code: "303", bn: "লাউরফতেপুর", en: "Laurfatehpur", upazila: "30" },
+  { code: "4591", bn: "নবীনগর পৌরসভা", en: "Nabinagar Paurasabha", upazila: "30" },
+  { code: "297", bn: "নবীনগর (পূর্ব)", en: "Nabinagare", upazila: "30" },
+  { code: "298", bn: "নবীনগর(পশ্চিম)", en: "Nabinagarw", upazila: "30" },
+  { code: "295", bn: "নাটঘর", en: "Nathghar", upazila: "30" },
+  { code: "307", bn: "রসুল্লাবাদ", en: "Rasullabad", upazila: "30" },
+  { code: "310", bn: "রতনপুর", en: "Ratanpur", upazila: "30" },
+  { code: "309", bn: "ছলিমগঞ্জ", en: "Salimganj", upazila: "30" },
+  { code: "305", bn: "সাতমোড়া", en: "Satmura", upazila: "30" },
+  { code: "306", bn: "শ্যামগ্রাম", en: "Shamogram", upazila: "30" },
+  { code: "300", bn: "শিবপুর", en: "Shibpur", upazila: "30" },
+  { code: "301", bn: "শ্রীরামপুর", en: "Sreerampur", upazila: "30" },
+  { code: "320", bn: "আইয়ুবপুর", en: "Ayabpur", upazila: "31" },
+  { code: "319", bn: "বাঞ্ছারামপুর", en: "Bancharampur", upazila: "31" },
+  { code: "4594", bn: "বাঞ্ছারামপুর পৌরসভা", en: "Bancharampur Paurasabha", upazila: "31" },
+  { code: "315", bn: "দরিয়াদৌলত", en: "Dariadulat", upazila: "31" },
+  { code: "317", bn: "দড়িকান্দি", en: "Darikandi", upazila: "31" },
+  { code: "321", bn: "ফরদাবাদ", en: "Fardabad", upazila: "31" },
+  { code: "325", bn: "মানিকপুর", en: "Manikpur", upazila: "31" },
+  { code: "314", bn: "পাহাড়িয়া কান্দি", en: "Pahariya Kandi", upazila: "31" },
+  { code: "322", bn: "রুপসদী পশ্চিম", en: "Rupushdi", upazila: "31" },
+  { code: "318", bn: "ছয়ফুল্লাকান্দি", en: "Saifullyakandi", upazila: "31" },
+  { code: "323", bn: "ছলিমাবাদ", en: "Salimabad", upazila: "31" },
+  { code: "316", bn: "সোনারামপুর", en: "Sonarampur", upazila: "31" },
+  { code: "313", bn: "তেজখালী", en: "Tazkhali", upazila: "31" },
+  { code: "324", bn: "উজানচর পূর্ব", en: "Ujanchar", upazila: "31" },
+  { code: "326", bn: "বুধন্তি", en: "Bhudanty", upazila: "32" },
+  { code: "333", bn: "বিষ্ণুপুর", en: "Bishupor", upazila: "32" },
+  { code: "329", bn: "চম্পকনগর", en: "Champaknagar", upazila: "32" },
+  { code: "327", bn: "চান্দুরা", en: "Chandura", upazila: "32" },
+  { code: "334", bn: "চর-ইসলামপুর", en: "Charislampur", upazila: "32" },
+  { code: "330", bn: "হরষপুর", en: "Harashpur", upazila: "32" },
+  { code: "328", bn: "ইছাপুরা", en: "Ichapura", upazila: "32" },
+  { code: "335", bn: "পাহাড়পুর", en: "Paharpur", upazila: "32" },
+  { code: "331", bn: "পত্তন", en: "Pattan", upazila: "32" },
+  { code: "332", bn: "সিংগারবিল", en: "Singerbil", upazila: "32" },
+  { code: "340", bn: "বালুখালী", en: "Balukhali", upazila: "33" },
+  { code: "339", bn: "বন্দুকভাঙ্গা", en: "Bandukbhanga", upazila: "33" },
+  { code: "336", bn: "জীবতলি", en: "Jibtali", upazila: "33" },
+  { code: "338", bn: "কুতুকছড়ি", en: "Kutukchari", upazila: "33" },
+  { code: "341", bn: "মগবান", en: "Mogban", upazila: "33" },
+  { code: "4595", bn: "রাঙ্গামাটি পৌরসভা", en: "Rangamati Paurasabha", upazila: "33" },
+  { code: "337", bn: "সাপছড়ি", en: "Sapchari", upazila: "33" },
+  { code: "345", bn: "চন্দ্রঘোনা", en: "Chandraghona", upazila: "34" },
+  { code: "346", bn: "চিৎমরম", en: "Chitmorom", upazila: "34" },
+  { code: "343", bn: "কাপ্তাই", en: "Kaptai", upazila: "34" },
+  { code: "342", bn: "রাইখালী", en: "Raikhali", upazila: "34" },
+  { code: "344", bn: "ওয়াজ্ঞা", en: "Wagga", upazila: "34" },
+  { code: "349", bn: "বেতবুনিয়া", en: "Betbunia", upazila: "35" },
+  { code: "348", bn: "ফটিকছড়ি", en: "Fatikchari", upazila: "35" },
+  { code: "347", bn: "ঘাগড়া", en: "Ghagra", upazila: "35" },
+  { code: "350", bn: "কলমপতি", en: "Kalampati", upazila: "35" },
+  { code: "352", bn: "আমতলী", en: "Amtali", upazila: "36" },
+  { code: "358", bn: "বাঘাইছড়ি", en: "Baghaichari", upazila: "36" },
+  { code: "4596", bn: "বাঘাইছড়ি পৌরসভা", en: "Baghaichari Paurasabha", upazila: "36" },
+  { code: "353", bn: "বঙ্গলতলী", en: "Bongoltali", upazila: "36" },
+  { code: "356", bn: "খেদারমারা", en: "Khedarmara", upazila: "36" },
+  { code: "355", bn: "মারিশ্যা", en: "Marisha", upazila: "36" },
+  { code: "354", bn: "রুপকারী", en: "Rupokari", upazila: "36" },
+  { code: "351", bn: "সাজেক", en: "Sajek", upazila: "36" },
+  { code: "357", bn: "সারোয়াতলী", en: "Sharoyatali", upazila: "36" },
+  { code: "362", bn: "আইমাছড়া", en: "Aimachara", upazila: "37" },
+  { code: "360", bn: "বরকল", en: "Barkal", upazila: "37" },
+  { code: "363", bn: "বড় হরিণা", en: "Borohorina", upazila: "37" },
+  { code: "361", bn: "ভূষনছড়া", en: "Bushanchara", upazila: "37" },
+  { code: "359", bn: "সুবলং", en: "Subalong", upazila: "37" },
+  { code: "370", bn: "আটারকছড়া", en: "Atarakchara", upazila: "38" },
+  { code: "367", bn: "বগাচতর", en: "Bogachattar", upazila: "38" },
+  { code: "368", bn: "গুলশাখালী", en: "Gulshakhali", upazila: "38" },
+  { code: "369", bn: "কালাপাকুজ্যা", en: "Kalapakujja", upazila: "38" },
+  { code: "364", bn: "লংগদু", en: "Langad", upazila: "38" },
+  { code: "365", bn: "মাইনীমুখ", en: "Maeinimukh", upazila: "38" },
+  { code: "366", bn: "ভাসান্যাদম", en: "Vasannadam", upazila: "38" },
+  { code: "373", bn: "বাঙ্গালহালিয়া", en: "Bangalhalia", upazila: "39" },
+  { code: "372", bn: "গাইন্দ্যা", en: "Gaindya", upazila: "39" },
+  { code: "371", bn: "ঘিলাছড়ি", en: "Ghilachari", upazila: "39" },
+  { code: "375", bn: "বিলাইছড়ি", en: "Belaichari", upazila: "40" },
+  { code: "376", bn: "ফারুয়া", en: "Farua", upazila: "40" },
+  { code: "374", bn: "কেংড়াছড়ি", en: "Kengrachari", upazila: "40" },
+  { code: "378", bn: "বনযোগীছড়া", en: "Banajogichara", upazila: "41" },
+  { code: "380", bn: "দুমদুম্যা", en: "Dumdumya", upazila: "41" },
+  { code: "377", bn: "জুরাছড়ি", en: "Juraichari", upazila: "41" },
+  { code: "379", bn: "মৈদং", en: "Moidong", upazila: "41" },
+  { code: "383", bn: "বুড়িঘাট", en: "Burighat", upazila: "42" },
+  { code: "384", bn: "ঘিলাছড়ি", en: "Ghilachhari", upazila: "42" },
+  { code: "382", bn: "নানিয়ারচর", en: "Naniarchar", upazila: "42" },
+  { code: "381", bn: "সাবেক্ষ্যং", en: "Sabekkhong", upazila: "42" },
+  { code: "396", bn: "আন্ডারচর", en: "Andarchar", upazila: "43" },
+  { code: "393", bn: "অশ্বদিয়া", en: "Ashwadia", upazila: "43" },
+  { code: "391", bn: "এওজবালিয়া", en: "Aujbalia", upazila: "43" },
+  { code: "389", bn: "বিনোদপুর", en: "Binodpur", upazila: "43" },
+  { code: "385", bn: "চরমটুয়া", en: "Charmatua", upazila: "43" },
+  { code: "386", bn: "দাদপুর", en: "Dadpur", upazila: "43" },
+  { code: "390", bn: "ধর্মপুর", en: "Dharmapur", upazila: "43" },
+  { code: "395", bn: "পূর্ব চরমটুয়া", en: "East Charmatua", upazila: "43" },
+  { code: "388", bn: "কাদির হানিফ", en: "Kadirhanif", upazila: "43" },
+  { code: "392", bn: "কালাদরপ", en: "Kaladara", upazila: "43" },
+  { code: "394", bn: "নিয়াজপুর", en: "Newajpur", upazila: "43" },
+  { code: "397", bn: "নোয়াখালী", en: "Noakhali", upazila: "43" },
+  { code: "4599", bn: "নোয়াখালী পৌরসভা", en: "Noakhali Paurasabha", upazila: "43" },
+  { code: "387", bn: "নোয়ান্নই", en: "Noannoi", upazila: "43" },
+  { code: "4600", bn: "বসুরহাট পৌরসভা", en: "basurhat Paurasabha", upazila: "44" },
+  { code: "404", bn: "চরএলাহী", en: "Charelahi", upazila: "44" },
+  { code: "402", bn: "চরফকিরা", en: "Charfakira", upazila: "44" },
+  { code: "400", bn: "চরহাজারী", en: "Charhazari", upazila: "44" },
+  { code: "401", bn: "চরকাঁকড়া", en: "Charkakra", upazila: "44" },
+  { code: "399", bn: "চরপার্বতী", en: "Charparboti", upazila: "44" },
+  { code: "403", bn: "মুসাপুর", en: "Musapur", upazila: "44" },
+  { code: "405", bn: "রামপুর", en: "Rampur", upazila: "44" },
+  { code: "398", bn: "সিরাজপুর", en: "Sirajpur", upazila: "44" },
+  { code: "410", bn: "আলাইয়ারপুর", en: "Alyearpur", upazila: "45" },
+  { code: "406", bn: "আমানউল্ল্যাপুর", en: "Amanullapur", upazila: "45" },
+  { code: "414", bn: "বেগমগঞ্জ", en: "Begumganj", upazila: "45" },
+  { code: "411", bn: "ছয়ানী", en: "Chayani", upazila: "45" },
+  { code: "4598", bn: "চৌমুহনী পৌরসভা", en: "chowmohani Paurasabha", upazila: "45" },
+  { code: "417", bn: "দূর্গাপুর", en: "Durgapur", upazila: "45" },
+  { code: "413", bn: "একলাশপুর", en: "Eklashpur", upazila: "45" },
+  { code: "407", bn: "গোপালপুর", en: "Gopalpur", upazila: "45" },
+  { code: "419", bn: "হাজীপুর", en: "Hajipur", upazila: "45" },
+  { code: "408", bn: "জিরতলী", en: "Jirtali", upazila: "45" },
+  { code: "421", bn: "কাদিরপুর", en: "Kadirpur", upazila: "45" },
+  { code: "409", bn: "কুতবপুর", en: "Kutubpur", upazila: "45" },
+  { code: "415", bn: "মিরওয়ারিশপুর", en: "Mirwarishpur", upazila: "45" },
+  { code: "416", bn: "নরোত্তমপুর", en: "Narottampur", upazila: "45" },
+  { code: "412", bn: "রাজগঞ্জ", en: "Rajganj", upazila: "45" },
+  { code: "418", bn: "রসুলপুর", en: "Rasulpur", upazila: "45" },
+  { code: "420", bn: "শরীফপুর", en: "Sharifpur", upazila: "45" },
+  { code: "428", bn: "বুড়িরচর", en: "Burirchar", upazila: "46" },
+  { code: "424", bn: "চরঈশ্বর", en: "Charishwar", upazila: "46" },
+  { code: "425", bn: "চরকিং", en: "Charking", upazila: "46" },
+  { code: "4604", bn: "হাতিয়া পৌরসভা", en: "Hatia Paurasabha", upazila: "46" },
+  { code: "429", bn: "জাহাজমারা", en: "Jahajmara", upazila: "46" },
+  { code: "430", bn: "নিঝুমদ্বীপ", en: "Nijhumdwi", upazila: "46" },
+  { code: "423", bn: "নলচিরা", en: "Nolchira", upazila: "46" },
+  { code: "427", bn: "সোনাদিয়া", en: "Sonadiya", upazila: "46" },
+  { code: "422", bn: "সুখচর", en: "Sukhchar", upazila: "46" },
+  { code: "426", bn: "তমরদ্দি", en: "Tomoroddi", upazila: "46" },
+  { code: "436", bn: "চরআমান উল্যা", en: "Charaman Ullah", upazila: "47" },
+  { code: "432", bn: "চরবাটা", en: "Charbata", upazila: "47" },
+  { code: "433", bn: "চরক্লার্ক", en: "Charclerk", upazila: "47" },
+  { code: "431", bn: "চরজাব্বার", en: "Charjabbar", upazila: "47" },
+  { code: "435", bn: "চরজুবলী", en: "Charjubilee", upazila: "47" },
+  { code: "434", bn: "চরওয়াপদা", en: "Charwapda", upazila: "47" },
+  { code: "437", bn: "পূর্ব চরবাটা", en: "East Charbata", upazila: "47" },
+  { code: "438", bn: "মোহাম্মদপুর", en: "Mohammadpur", upazila: "47" },
+  { code: "445", bn: "বাটইয়া", en: "Batoiya", upazila: "48" },
+  { code: "443", bn: "চাপরাশিরহাট", en: "Chaprashirhat", upazila: "48" },
+  { code: "444", bn: "ধানশালিক", en: "Dhanshalik", upazila: "48" },
+  { code: "440", bn: "ধানসিঁড়ি", en: "Dhanshiri", upazila: "48" },
+  { code: "442", bn: "ঘোষবাগ", en: "Ghoshbag", upazila: "48" },
+  { code: "4602", bn: "কবিরহাট পৌরসভা", en: "Kabirhat Paurasabha", upazila: "48" },
+  { code: "439", bn: "নরোত্তমপুর", en: "Narottampur", upazila: "48" },
+  { code: "441", bn: "সুন্দলপুর", en: "Sundalpur", upazila: "48" },
+  { code: "450", bn: "অর্জুনতলা", en: "Arjuntala", upazila: "49" },
+  { code: "454", bn: "বিজবাগ", en: "Bejbagh", upazila: "49" },
+  { code: "446", bn: "ছাতারপাইয়া", en: "Chhatarpaia", upazila: "49" },
+  { code: "448", bn: "ডুমুরুয়া", en: "Dumurua", upazila: "49" },
+  { code: "451", bn: "কাবিলপুর", en: "Kabilpur", upazila: "49" },
+  { code: "449", bn: "কাদরা", en: "Kadra", upazila: "49" },
+  { code: "447", bn: "কেশরপাড়া", en: "Kesharpar", upazila: "49" },
+  { code: "452", bn: "মোহাম্মদপুর", en: "Mohammadpur", upazila: "49" },
+  { code: "453", bn: "নবীপুর", en: "Nabipur", upazila: "49" },
+  { code: "4603", bn: "সেনবাগ পৌরসভা", en: "Senbug Paurasabha", upazila: "49" },
+  { code: "458", bn: "বাদলকোট", en: "Badalkot", upazila: "50" },
+  { code: "4597", bn: "চাটখিল পৌরসভা", en: "Chatkhil Paurasabha", upazila: "50" },
+  { code: "460", bn: "হাট-পুকুরিয়া ঘাটলাবাগ", en: "Hat-Pukuria Ghatlabag", upazila: "50" },
+  { code: "462", bn: "খিলপাড়া", en: "Khilpara", upazila: "50" },
+  { code: "463", bn: "মোহাম্মদপুর", en: "Mohammadpur", upazila: "50" },
+  { code: "461", bn: "নোয়াখলা", en: "Noakhala", upazila: "50" },
+  { code: "459", bn: "পাঁচগাঁও", en: "Panchgaon", upazila: "50" },
+  { code: "457", bn: "পরকোট", en: "Porokote", upazila: "50" },
+  { code: "456", bn: "রামনারায়নপুর", en: "Ramnarayanpur", upazila: "50" },
+  { code: "455", bn: "সাহাপুর", en: "Sahapur", upazila: "50" },
+  { code: "468", bn: "অম্বরনগর", en: "Ambarnagor", upazila: "51" },
+  { code: "473", bn: "আমিশাপাড়া", en: "Amishapara", upazila: "51" },
+  { code: "470", bn: "বজরা", en: "Bajra", upazila: "51" },
+  { code: "467", bn: "বারগাঁও", en: "Barogaon", upazila: "51" },
+  { code: "466", bn: "চাষীরহাট", en: "Chashirhat", upazila: "51" },
+  { code: "472", bn: "দেওটি", en: "Deoti", upazila: "51" },
+  { code: "464", bn: "জয়াগ", en: "Joyag", upazila: "51" },
+  { code: "469", bn: "নাটেশ্বর", en: "Nateshwar", upazila: "51" },
+  { code: "465", bn: "নদনা", en: "Nodona", upazila: "51" },
+  { code: "4601", bn: "সোনাইমুড়ি পৌরসভা", en: "Sonaimori Paurasabha", upazila: "51" },
+  { code: "471", bn: "সোনাপুর", en: "Sonapur", upazila: "51" },
+  { code: "475", bn: "আলগী দুর্গাপুর (উত্তর)", en: "Algidurgapur (North)", upazila: "52" },
+  { code: "476", bn: "আলগী দুর্গাপুর (দক্ষিণ)", en: "Algidurgapur (South)", upazila: "52" },
+  { code: "479", bn: "চরভৈরবী", en: "Charbhairabi", upazila: "52" },
+  { code: "474", bn: "গাজীপুর", en: "Gazipur", upazila: "52" },
+  { code: "478", bn: "হাইমচর", en: "Haimchar", upazila: "52" },
+  { code: "477", bn: "নীলকমল", en: "Nilkamal", upazila: "52" },
+  { code: "488", bn: "আসরাফপুর", en: "Ashrafpur", upazila: "53" },
+  { code: "481", bn: "বিতারা", en: "Bitara", upazila: "53" },
+  { code: "486", bn: "গোহাট (উত্তর)", en: "Gohat (North)", upazila: "53" },
+  { code: "489", bn: "গোহাট (দক্ষিণ)", en: "Gohat (South)", upazila: "53" },
+  { code: "484", bn: "কচুয়া (উত্তর)", en: "Kachua (North)", upazila: "53" },
+  { code: "485", bn: "কচুয়া (দক্ষিণ)", en: "Kachua (South)", upazila: "53" },
+  { code: "4605", bn: "কচুয়া পৌরসভা", en: "Kachua pourasabha", upazila: "53" },
+  { code: "487", bn: "কাদলা", en: "Kadla", upazila: "53" },
+  { code: "491", bn: "কড়ইয়া", en: "Koroia", upazila: "53" },
+  { code: "480", bn: "পাথৈর", en: "Pathair", upazila: "53" },
+  { code: "490", bn: "সাচার", en: "Sachar", upazila: "53" },
+  { code: "482", bn: "সহদেবপুর (পূর্ব)", en: "Shohodebpur (East)", upazila: "53" },
+  { code: "483", bn: "সহদেবপুর (পশ্চিম)", en: "Shohodebpur (West)", upazila: "53" },
+  { code: "498", bn: "চিতষী (পূর্ব)", en: "Chitoshi (East)", upazila: "54" },
+  { code: "501", bn: "চিতষী (পশ্চিম)", en: "Chitoshiwest", upazila: "54" },
+  { code: "494", bn: "মেহের (উত্তর)", en: "Meher (North)", upazila: "54" },
+  { code: "495", bn: "মেহের (দক্ষিণ)", en: "Meher (South)", upazila: "54" },
+  { code: "500", bn: "রায়শ্রী (উত্তর)", en: "Raysree (North)", upazila: "54" },
+  { code: "499", bn: "রায়শ্রী (দক্ষিন)", en: "Raysree (South)", upazila: "54" },
+  { code: "4609", bn: "শাহরাস্তি পৌরসভা", en: "Shahrasti pourasabha", upazila: "54" },
+  { code: "496", bn: "সুচিপাড়া (উত্তর)", en: "Suchipara (North)", upazila: "54" },
+  { code: "497", bn: "সুচিপাড়া (দক্ষিণ)", en: "Suchipara (South)", upazila: "54" },
+  { code: "493", bn: "টামটা (উত্তর)", en: "Tamta (North)", upazila: "54" },
+  { code: "492", bn: "টামটা (দক্ষিণ)", en: "Tamta (South)", upazila: "54" },
+  { code: "503", bn: "আশিকাটি", en: "Ashikati", upazila: "55" },
+  { code: "509", bn: "বাগাদী", en: "Baghadi", upazila: "55" },
+  { code: "515", bn: "বালিয়া", en: "Balia", upazila: "55" },
+  { code: "502", bn: "বিষ্ণপুর", en: "Bishnapur", upazila: "55" },
+  { code: "4606", bn: "চাঁদপুর পৌরসভা", en: "Chandpur pourasabha", upazila: "55" },
+  { code: "512", bn: "চান্দ্রা", en: "Chandra", upazila: "55" },
+  { code: "511", bn: "হানারচর", en: "Hanarchar", upazila: "55" },
+  { code: "514", bn: "ইব্রাহীমপুর", en: "Ibrahimpur", upazila: "55" },
+  { code: "505", bn: "কল্যাণপুর", en: "Kalyanpur", upazila: "55" },
+  { code: "510", bn: "লক্ষীপুর মডেল", en: "Laxmipur Model", upazila: "55" },
+  { code: "507", bn: "মৈশাদী", en: "Maishadi", upazila: "55" },
+  { code: "513", bn: "রাজরাজেশ্বর", en: "Rajrajeshwar", upazila: "55" },
+  { code: "506", bn: "রামপুর", en: "Rampur", upazila: "55" },
+  { code: "504", bn: "শাহ্‌ মাহমুদপুর", en: "Shahmahmudpur", upazila: "55" },
+  { code: "508", bn: "তরপুচন্ডী", en: "Tarpurchandi", upazila: "55" },
+  { code: "518", bn: "খাদেরগাঁও", en: "Khadergaon", upazila: "56" },
+  { code: "4608", bn: "মতলব পৌরসভা", en: "matlab pourasabha", upazila: "56" },
+  { code: "519", bn: "নারায়নপুর", en: "Narayanpur", upazila: "56" },
+  { code: "4755", bn: "নারায়ণপুর পৌরসভা", en: "Narayanpur Municipality", upazila: "56" },
+  { code: "516", bn: "নায়েরগাঁও (উত্তর)", en: "Nayergaon (North)", upazila: "56" },
+  { code: "517", bn: "নায়েরগাঁও (দক্ষিন)", en: "Nayergaon (South)", upazila: "56" },
+  { code: "521", bn: "উপাদী (উত্তর)", en: "Upadi (North)", upazila: "56" },
+  { code: "520", bn: "উপাদী (দক্ষিণ)", en: "Upadi (South)", upazila: "56" },
+  { code: "523", bn: "বাকিলা", en: "Bakila", upazila: "57" },
+  { code: "527", bn: "বড়কুল (পূর্ব)", en: "Barkul (East)", upazila: "57" },
+  { code: "528", bn: "বড়কুল (পশ্চিম)", en: "Barkul (West)", upazila: "57" },
+  { code: "6779", bn: "দ্বাদশ গ্রাম", en: "Dadoshgram", upazila: "57" },
+  { code: "531", bn: "গন্ধর্ব্যপুর (উত্তর)", en: "Gandharbapur (North)", upazila: "57" },
+  { code: "532", bn: "গন্ধর্ব্যপুর (দক্ষিণ)", en: "Gandharbapur (South)", upazila: "57" },
+  { code: "4610", bn: "হাজীগঞ্জ পৌরসভা", en: "Hajiganj pourasabha", upazila: "57" },
+  { code: "525", bn: "হাজীগঞ্জ সদর", en: "Hajiganj Sadar", upazila: "57" },
+  { code: "529", bn: "হাটিলা (পূর্ব)", en: "Hatila (East)", upazila: "57" },
+  { code: "530", bn: "হাটিলা (পশ্চিম)", en: "Hatila (West)", upazila: "57" },
+  { code: "524", bn: "কালচোঁ (উত্তর)", en: "Kalocho (North)", upazila: "57" },
+  { code: "526", bn: "কালচোঁ (দক্ষিণ)", en: "Kalocho (South)", upazila: "57" },
+  { code: "522", bn: "রাজারগাঁও (উত্তর)", en: "Rajargaon (North)", upazila: "57" },
+  { code: "534", bn: "বাগানবাড়ী", en: "Banganbari", upazila: "58" },
+  { code: "4607", bn: "ছেংগারচর পৌরসভা", en: "chengar chor pourasabha", upazila: "58" },
+  { code: "536", bn: "দূর্গাপুর", en: "Durgapur", upazila: "58" },
+  { code: "539", bn: "এখলাছপুর", en: "Eklaspur", upazila: "58" },
+  { code: "543", bn: "ফরাজীকান্দি", en: "Farajikandi", upazila: "58" },
+  { code: "541", bn: "ফতেহপুর (পূর্ব)", en: "Fatehpur (East)", upazila: "58" },
+  { code: "542", bn: "ফতেহপুর (পশ্চিম)", en: "Fatehpur (West)", upazila: "58" },
+  { code: "546", bn: "গজরা", en: "Gazra", upazila: "58" },
+  { code: "544", bn: "ইসলামাবাদ", en: "Islamabad", upazila: "58" },
+  { code: "540", bn: "জহিরাবাদ", en: "Jahirabad", upazila: "58" },
+  { code: "537", bn: "কালাকান্দা", en: "Kalakanda", upazila: "58" },
+  { code: "538", bn: "মোহনপুর", en: "Mohanpur", upazila: "58" },
+  { code: "535", bn: "সাদুল্ল্যাপুর", en: "Sadullapur", upazila: "58" },
+  { code: "533", bn: "ষাটনল", en: "Satnal", upazila: "58" },
+  { code: "545", bn: "সুলতানাবাদ", en: "Sultanabad", upazila: "58" },
+  { code: "548", bn: "বালিথুবা (পূর্ব)", en: "Balithuba (East)", upazila: "59" },
+  { code: "547", bn: "বালিথুবা (পশ্চিম)", en: "Balithuba (West)", upazila: "59" },
+  { code: "557", bn: "চরদুখিয়া (পূর্ব)", en: "Chardukhia (East)", upazila: "59" },
+  { code: "558", bn: "চরদুঃখিয়া (পশ্চিম)", en: "Chardukhia (West)", upazila: "59" },
+  { code: "559", bn: "ফরিদ্গঞ্জ (দক্ষিণ)", en: "Faridgonj (South)", upazila: "59" },
+  { code: "4611", bn: "ফরিদগঞ্জ পৌরসভা", en: "Faridgonj pourasabha", upazila: "59" },
+  { code: "555", bn: "গবিন্দপুর (উত্তর)", en: "Gobindapur (North)", upazila: "59" },
+  { code: "556", bn: "গবিন্দপুর (দক্ষিণ)", en: "Gobindapur (South)", upazila: "59" },
+  { code: "552", bn: "গুপ্তি (পূর্ব)", en: "Gupti (East)", upazila: "59" },
+  { code: "551", bn: "গুপ্তি (পশ্চিম)", en: "Gupti (West)", upazila: "59" },
+  { code: "553", bn: "পাইকপাড়া (উত্তর)", en: "Paikpara (North)", upazila: "59" },
+  { code: "554", bn: "পাইকপাড়া (দক্ষিণ)", en: "Paikpara (South)", upazila: "59" },
+  { code: "561", bn: "রুপসা (উত্তর)", en: "Rupsha (North)", upazila: "59" },
+  { code: "560", bn: "রুপসা (দক্ষিণ)", en: "Rupsha (South)", upazila: "59" },
+  { code: "549", bn: "সুবিদপুর (পূর্ব)", en: "Subidpur (East)", upazila: "59" },
+  { code: "550", bn: "সুবিদপুর (পশ্চিম)", en: "Subidpur (West)", upazila: "59" },
+  { code: "567", bn: "বাঙ্গাখাঁ", en: "Bangakha", upazila: "60" },
+  { code: "569", bn: "বশিকপুর", en: "Basikpur", upazila: "60" },
+  { code: "570", bn: "চন্দ্রগঞ্জ", en: "Chandrogonj", upazila: "60" },
+  { code: "581", bn: "চররমনী মোহন", en: "Charramoni Mohon", upazila: "60" },
+  { code: "565", bn: "চররুহিতা", en: "Charruhita", upazila: "60" },
+  { code: "573", bn: "চরশাহী", en: "Charshahi", upazila: "60" },
+  { code: "564", bn: "দালাল বাজার", en: "Dalalbazar", upazila: "60" },
+  { code: "568", bn: "দত্তপাড়া", en: "Dattapara", upazila: "60" },
+  { code: "574", bn: "দিঘলী", en: "Digli", upazila: "60" },
+  { code: "562", bn: "হামছাদী (উত্তর)", en: "Hamsadi (North)", upazila: "60" },
+  { code: "563", bn: "হামছাদী (দক্ষিন)", en: "Hamsadi (South)", upazila: "60" },
+  { code: "572", bn: "হাজিরপাড়া", en: "Hazirpara", upazila: "60" },
+  { code: "577", bn: "কুশাখালী", en: "Kusakhali", upazila: "60" },
+  { code: "575", bn: "লাহারকান্দি", en: "Laharkandi", upazila: "60" },
+  { code: "4615", bn: "লক্ষ্মীপুর পৌরসভা", en: "Lakshmipur Pourasabha", upazila: "60" },
+  { code: "5756", bn: "মান্দারী ইউনিয়ন", en: "Mandari Union", upazila: "60" },
+  { code: "571", bn: "উত্তর জয়পুর", en: "Nourthjoypur", upazila: "60" },
+  { code: "566", bn: "পার্বতীনগর", en: "Parbotinagar", upazila: "60" },
+  { code: "578", bn: "শাকচর", en: "Sakchor", upazila: "60" },
+  { code: "579", bn: "তেয়ারীগঞ্জ", en: "Tearigonj", upazila: "60" },
+  { code: "580", bn: "টুমচর", en: "Tumchor", upazila: "60" },
+  { code: "576", bn: "ভবানীগঞ্জ", en: "Vobanigonj", upazila: "60" },
+  { code: "585", bn: "চর ফলকন", en: "Char Folcon", upazila: "61" },
+  { code: "588", bn: "চর কাদিরা", en: "Char Kadira", upazila: "61" },
+  { code: "584", bn: "চর মার্টিন", en: "Char Martin", upazila: "61" },
+  { code: "582", bn: "চর কালকিনি", en: "Charkalkini", upazila: "61" },
+  { code: "590", bn: "চর লরেঞ্চ", en: "Charlorench", upazila: "61" },
+  { code: "587", bn: "হাজিরহাট", en: "Hajirhat", upazila: "61" },
+  { code: "586", bn: "পাটারীরহাট", en: "Patarirhat", upazila: "61" },
+  { code: "583", bn: "সাহেবেরহাট", en: "Shaheberhat", upazila: "61" },
+  { code: "589", bn: "তোরাবগঞ্জ", en: "Torabgonj", upazila: "61" },
+  { code: "596", bn: "বামনী", en: "Bamni", upazila: "62" },
+  { code: "593", bn: "চর মোহনা", en: "Char Mohana", upazila: "62" },
+  { code: "595", bn: "চর পাতা", en: "Charpata", upazila: "62" },
+  { code: "600", bn: "কেরোয়া", en: "Keora", upazila: "62" },
+  { code: "591", bn: "উত্তর চর আবাবিল", en: "North Char Ababil", upazila: "62" },
+  { code: "592", bn: "উত্তর চর বংশী", en: "North Char Bangshi", upazila: "62" },
+  { code: "599", bn: "রায়পুর", en: "Raipur", upazila: "62" },
+  { code: "4614", bn: "রায়পুর পৌরসভা", en: "Raipur Pourasabha", upazila: "62" },
+  { code: "594", bn: "সোনাপুর", en: "Sonapur", upazila: "62" },
+  { code: "598", bn: "দক্ষিন চর আবাবিল", en: "South Char Ababil", upazila: "62" },
+  { code: "597", bn: "দক্ষিন চর বংশী", en: "South Char Bangshi", upazila: "62" },
+  { code: "604", bn: "আলেকজান্ডার", en: "Alxendar", upazila: "63" },
+  { code: "607", bn: "বড়খেড়ী", en: "Borokheri", upazila: "63" },
+  { code: "603", bn: "চর আবদুল্যাহ", en: "Char Abdullah", upazila: "63" },
+  { code: "605", bn: "চর আলগী", en: "Char Algi", upazila: "63" },
+  { code: "601", bn: "চর পোড়াগাছা", en: "Char Poragacha", upazila: "63" },
+  { code: "606", bn: "চর রমিজ", en: "Char Ramiz", upazila: "63" },
+  { code: "602", bn: "চর বাদাম", en: "Charbadam", upazila: "63" },
+  { code: "608", bn: "চরগাজী", en: "Chargazi", upazila: "63" },
+  { code: "4616", bn: "রামগতি পৌরসভা", en: "Ramgati Pourasabha", upazila: "63" },
+  { code: "611", bn: "ভাদুর", en: "Bhadur", upazila: "64" },
+  { code: "618", bn: "ভাটরা", en: "Bhatra", upazila: "64" },
+  { code: "617", bn: "ভোলাকোট", en: "Bholakot", upazila: "64" },
+  { code: "613", bn: "চন্ডিপুর", en: "Chandipur", upazila: "64" },
+  { code: "615", bn: "দরবেশপুর", en: "Darbeshpur", upazila: "64" },
+  { code: "612", bn: "ইছাপুর", en: "Ichhapur", upazila: "64" },
+  { code: "609", bn: "কাঞ্চনপুর", en: "Kanchanpur", upazila: "64" },
+  { code: "616", bn: "করপাড়া", en: "Karpara", upazila: "64" },
+  { code: "614", bn: "লামচর", en: "Lamchar", upazila: "64" },
+  { code: "610", bn: "নোয়াগাঁও", en: "Noagaon", upazila: "64" },
+  { code: "4613", bn: "রামগঞ্জ পৌরসভা", en: "Ramganj Pourasabha", upazila: "64" },
+  { code: "8315", bn: "১০ নং পদুয়া ইউনিয়ন", en: "10 padua union", upazila: "65" },
+  { code: "625", bn: "বেতাগী", en: "Betagi", upazila: "65" },
+  { code: "628", bn: "চন্দ্রঘোনা", en: "Chandraghona", upazila: "65" },
+  { code: "620", bn: "হোছনাবাদ", en: "Hosnabad", upazila: "65" },
+  { code: "630", bn: "ইসলামপুর", en: "Islampur", upazila: "65" },
+  { code: "629", bn: "কোদালা", en: "Kodala", upazila: "65" },
+  { code: "632", bn: "লালানগর", en: "Lalanagar", upazila: "65" },
+  { code: "622", bn: "মরিয়মনগর", en: "Mariumnagar", upazila: "65" },
+  { code: "623", bn: "পারুয়া", en: "Parua", upazila: "65" },
+  { code: "624", bn: "পোমরা", en: "Pomra", upazila: "65" },
+  { code: "619", bn: "রাজানগর", en: "Rajanagar", upazila: "65" },
+  { code: "4628", bn: "রাঙ্গুনিয়া পৌরসভা", en: "Rangunia", upazila: "65" },
+  { code: "626", bn: "সরফভাটা", en: "Sharafbhata", upazila: "65" },
+  { code: "627", bn: "শিলক", en: "Shilok", upazila: "65" },
+  { code: "631", bn: "দক্ষিণ রাজানগর", en: "South Rajanagar", upazila: "65" },
+  { code: "621", bn: "স্বনির্ভর রাঙ্গুনিয়া", en: "Swanirbor Rangunia", upazila: "65" },
+  { code: "634", bn: "বাঁশবারীয়া", en: "Banshbaria", upazila: "66" },
+  { code: "635", bn: "বারবকুন্ড", en: "Barabkunda", upazila: "66" },
+  { code: "636", bn: "বাড়িয়াডিয়ালা", en: "Bariadyala", upazila: "66" },
+  { code: "641", bn: "ভাটিয়ারী", en: "Bhatiari", upazila: "66" },
+  { code: "633", bn: "কুমিরা", en: "Kumira", upazila: "66" },
+  { code: "637", bn: "মুরাদপুর", en: "Muradpur", upazila: "66" },
+  { code: "638", bn: "সাঈদপুর", en: "Saidpur", upazila: "66" },
+  { code: "639", bn: "সালিমপুর", en: "Salimpur", upazila: "66" },
+  { code: "4622", bn: "সীতাকুণ্ড পৌরসভা", en: "Sitakunda", upazila: "66" },
+  { code: "640", bn: "সোনাইছড়ি", en: "Sonaichhari", upazila: "66" },
+  { code: "4619", bn: "বারৈয়ারহাট পৌরসভা", en: "Baraiyarhat Pourashava", upazila: "67" },
+  { code: "645", bn: "ধুম", en: "Dhoom", upazila: "67" },
+  { code: "649", bn: "দূর্গাপুর", en: "Durgapur", upazila: "67" },
+  { code: "655", bn: "হাইতকান্দি", en: "Haitkandi", upazila: "67" },
+  { code: "643", bn: "হিংগুলি", en: "Hinguli", upazila: "67" },
+  { code: "647", bn: "ইছাখালী", en: "Ichakhali", upazila: "67" },
+  { code: "644", bn: "জোরারগঞ্জ", en: "Jorarganj", upazila: "67" },
+  { code: "648", bn: "কাটাছরা", en: "Katachhara", upazila: "67" },
+  { code: "653", bn: "খৈয়াছরা", en: "Khaiyachhara", upazila: "67" },
+  { code: "642", bn: "করেরহাট", en: "Korerhat", upazila: "67" },
+  { code: "652", bn: "মঘাদিয়া", en: "Maghadia", upazila: "67" },
+  { code: "654", bn: "মায়ানী", en: "Mayani", upazila: "67" },
+  { code: "650", bn: "মীরসরাই", en: "Mirsharai", upazila: "67" },
+  { code: "4626", bn: "মীরসরাই পৌরসভা", en: "Mirsharai", upazila: "67" },
+  { code: "651", bn: "মিঠানালা", en: "Mithanala", upazila: "67" },
+  { code: "646", bn: "ওসমানপুর", en: "Osmanpur", upazila: "67" },
+  { code: "657", bn: "সাহেরখালী", en: "Saherkhali", upazila: "67" },
+  { code: "656", bn: "ওয়াহেদপুর", en: "Wahedpur", upazila: "67" },
+  { code: "658", bn: "আশিয়া", en: "Asia", upazila: "68" },
+  { code: "673", bn: "বড় উঠান", en: "Bara Uthan", upazila: "68" },
+  { code: "674", bn: "বরলিয়া", en: "Baralia", upazila: "68" },
+  { code: "675", bn: "ভাটিখাইন", en: "Bhatikhain", upazila: "68" },
+  { code: "667", bn: "ছনহরা", en: "Chanhara", upazila: "68" },
+  { code: "666", bn: "চর লক্ষ্যা", en: "Char Lakshya", upazila: "68" },
+  { code: "665", bn: "চর পাথরঘাটা", en: "Char Patharghata", upazila: "68" },
+  { code: "671", bn: "দক্ষিণ ভূর্ষি", en: "Dakkhin Bhurshi", upazila: "68" },
+  { code: "672", bn: "ধলঘাট", en: "Dhalghat", upazila: "68" },
+  { code: "678", bn: "হাবিলাসদ্বীপ", en: "Habilasdwi", upazila: "68" },
+  { code: "679", bn: "হাইদগাঁও", en: "Haidgaon", upazila: "68" },
+  { code: "668", bn: "জঙ্গলখাইন", en: "Janglukhain", upazila: "68" },
+  { code: "669", bn: "জিরি", en: "Jiri", upazila: "68" },
+  { code: "670", bn: "জুলধা", en: "Juldha", upazila: "68" },
+  { code: "659", bn: "কাচুয়াই", en: "Kachuai", upazila: "68" },
+  { code: "660", bn: "কাশিয়াইশ", en: "Kasiais", upazila: "68" },
+  { code: "662", bn: "কেলিশহর", en: "Kelishahar", upazila: "68" },
+  { code: "664", bn: "খরনা", en: "Kharana", upazila: "68" },
+  { code: "663", bn: "কোলাগাঁও", en: "Kolagaon", upazila: "68" },
+  { code: "661", bn: "কুসুমপুরা", en: "Kusumpura", upazila: "68" },
+  { code: "4618", bn: "পটিয়া পৌরসভা", en: "Patiya", upazila: "68" },
+  { code: "676", bn: "শিকলবাহা", en: "Sikalbaha", upazila: "68" },
+  { code: "677", bn: "শোভনদন্ডী", en: "Sobhandandi", upazila: "68" },
+  { code: "683", bn: "আমানউল্যা", en: "Amanullah", upazila: "69" },
+  { code: "692", bn: "আজিমপুর", en: "Azimpur", upazila: "69" },
+  { code: "686", bn: "বাউরিয়া", en: "Bauria", upazila: "69" },
+  { code: "685", bn: "গাছুয়া", en: "Gachhua", upazila: "69" },
+  { code: "687", bn: "হারামিয়া", en: "Haramia", upazila: "69" },
+  { code: "681", bn: "হরিশপুর", en: "Harispur", upazila: "69" },
+  { code: "682", bn: "কালাপানিয়া", en: "Kalapania", upazila: "69" },
+  { code: "688", bn: "মগধরা", en: "Magdhara", upazila: "69" },
+  { code: "689", bn: "মাইটভাঙ্গা", en: "Maitbhanga", upazila: "69" },
+  { code: "691", bn: "মুছাপুর", en: "Musapur", upazila: "69" },
+  { code: "680", bn: "রহমতপুর", en: "Rahmatpur", upazila: "69" },
+  { code: "4629", bn: "সন্দ্বীপ পৌরসভা", en: "Sandwip", upazila: "69" },
+  { code: "684", bn: "সন্তোষপুর", en: "Santoshpur", upazila: "69" },
+  { code: "690", bn: "সারিকাইত", en: "Sarikait", upazila: "69" },
+  { code: "693", bn: "উড়িরচর", en: "Urirchar", upazila: "69" },
+  { code: "697", bn: "বাহারছড়া", en: "Baharchhara", upazila: "70" },
+  { code: "699", bn: "বৈলছড়ি", en: "Bailchhari", upazila: "70" },
+  { code: "4620", bn: "বাঁশখালী পৌরসভা", en: "Banshkhali", upazila: "70" },
+  { code: "703", bn: "চাম্বল", en: "Chambal", upazila: "70" },
+  { code: "707", bn: "ছনুয়া", en: "Chhanua", upazila: "70" },
+  { code: "704", bn: "গন্ডামারা", en: "Gandamara", upazila: "70" },
+  { code: "698", bn: "কালীপুর", en: "Kalipur", upazila: "70" },
+  { code: "700", bn: "কাথরিয়া", en: "Katharia", upazila: "70" },
+  { code: "696", bn: "খানখানাবাদ", en: "Khankhanabad", upazila: "70" },
+  { code: "706", bn: "পুঁইছড়ি", en: "Puichhari", upazila: "70" },
+  { code: "694", bn: "পুকুরিয়া", en: "Pukuria", upazila: "70" },
+  { code: "695", bn: "সাধনপুর", en: "Sadhanpur", upazila: "70" },
+  { code: "701", bn: "সরল", en: "Saral", upazila: "70" },
+  { code: "705", bn: "শেখেরখীল", en: "Sekherkhil", upazila: "70" },
+  { code: "702", bn: "শীলকুপ", en: "Silk", upazila: "70" },
+  { code: "717", bn: "আহল্লা করলডেঙ্গা", en: "Ahla Karaldenga", upazila: "71" },
+  { code: "716", bn: "আমুচিয়া", en: "Amuchia", upazila: "71" },
+  { code: "4625", bn: "বোয়ালখালী পৌরসভা", en: "Boalkhali", upazila: "71" },
+  { code: "714", bn: "চরনদ্বীপ", en: "Charandwi", upazila: "71" },
+  { code: "708", bn: "কধুরখীল", en: "Kandhurkhil", upazila: "71" },
+  { code: "709", bn: "পশ্চিম গোমদন্ডী", en: "Pashchim Gamdandi", upazila: "71" },
+  { code: "713", bn: "পোপাদিয়া", en: "Popadia", upazila: "71" },
+  { code: "710", bn: "পুর্ব গোমদন্ডী", en: "Purba Gomdandi", upazila: "71" },
+  { code: "711", bn: "শাকপুরা", en: "Sakpura", upazila: "71" },
+  { code: "712", bn: "সারোয়াতলী", en: "Saroatali", upazila: "71" },
+  { code: "715", bn: "শ্রীপুর-খরন্দীপ", en: "Sreepur-Kharandwi", upazila: "71" },
+  { code: "724", bn: "আনোয়ারা", en: "Anwara", upazila: "72" },
+  { code: "719", bn: "বারশত", en: "Barasat", upazila: "72" },
+  { code: "723", bn: "বারখাইন", en: "Baroakhan", upazila: "72" },
+  { code: "722", bn: "বরম্নমচড়া", en: "Barumchara", upazila: "72" },
+  { code: "721", bn: "বটতলী", en: "Battali", upazila: "72" },
+  { code: "718", bn: "বৈরাগ", en: "Boirag", upazila: "72" },
+  { code: "725", bn: "চাতরী", en: "Chatari", upazila: "72" },
+  { code: "727", bn: "হাইলধর", en: "Haildhar", upazila: "72" },
+  { code: "728", bn: "জুঁইদন্ডী", en: "Juidandi", upazila: "72" },
+  { code: "726", bn: "পরৈকোড়া", en: "Paraikora", upazila: "72" },
+  { code: "720", bn: "রায়পুর", en: "Raipur", upazila: "72" },
+  { code: "733", bn: "বৈলতলী", en: "Bailtali", upazila: "73" },
+  { code: "732", bn: "বরমা", en: "Barama", upazila: "73" },
+  { code: "731", bn: "বরকল", en: "Barkal", upazila: "73" },
+  { code: "4617", bn: "চন্দনাইশ পৌরসভা", en: "Chandanaish Pourasabha", upazila: "73" },
+  { code: "737", bn: "ধোপাছড়ী", en: "Dhopachhari", upazila: "73" },
+  { code: "4630", bn: "দোহাজারী পৌরসভা", en: "dohazari", upazila: "73" },
+  { code: "736", bn: "দোহাজারী", en: "Dohazari", upazila: "73" },
+  { code: "735", bn: "হাশিমপুর", en: "Hashimpur", upazila: "73" },
+  { code: "730", bn: "জোয়ারা", en: "Joara", upazila: "73" },
+  { code: "729", bn: "কাঞ্চনাবাদ", en: "Kanchanabad", upazila: "73" },
+  { code: "734", bn: "সাতবাড়িয়া", en: "Satbaria", upazila: "73" },
+  { code: "742", bn: "আমিলাইশ", en: "Amilaisi", upazila: "74" },
+  { code: "749", bn: "বাজালিয়া", en: "Bazalia", upazila: "74" },
+  { code: "738", bn: "চরতী", en: "Charati", upazila: "74" },
+  { code: "745", bn: "ঢেমশা", en: "Dhemsa", upazila: "74" },
+  { code: "743", bn: "এওচিয়া", en: "Eochiai", upazila: "74" },
+  { code: "748", bn: "কালিয়াইশ", en: "Kaliais", upazila: "74" },
+  { code: "741", bn: "কাঞ্চনা", en: "Kanchana", upazila: "74" },
+  { code: "747", bn: "কেঁওচিয়া", en: "Keochia", upazila: "74" },
+  { code: "739", bn: "খাগরিয়া", en: "Khagaria", upazila: "74" },
+  { code: "744", bn: "মাদার্শা", en: "Madarsa", upazila: "74" },
+  { code: "740", bn: "নলুয়া", en: "Nalua", upazila: "74" },
+  { code: "746", bn: "পশ্চিম ঢেমশা", en: "Paschim Dhemsa", upazila: "74" },
+  { code: "750", bn: "পুরানগড়", en: "Puranagar", upazila: "74" },
+  { code: "751", bn: "ছদাহা", en: "Sadaha", upazila: "74" },
+  { code: "752", bn: "সাতকানিয়া", en: "Satkania", upazila: "74" },
+  { code: "4621", bn: "সাতকানিয়া পৌরসভা", en: "Satkania", upazila: "74" },
+  { code: "753", bn: "সোনাকানিয়া", en: "Sonakania", upazila: "74" },
+  { code: "762", bn: "আধুনগর", en: "Adhunagar", upazila: "75" },
+  { code: "756", bn: "আমিরাবাদ", en: "Amirabad", upazila: "75" },
+  { code: "755", bn: "বড়হাতিয়া", en: "Barahatia", upazila: "75" },
+  { code: "757", bn: "চরম্বা", en: "Charamba", upazila: "75" },
+  { code: "761", bn: "চুনতি", en: "Chunati", upazila: "75" },
+  { code: "758", bn: "কলাউজান", en: "Kalauzan", upazila: "75" },
+  { code: "759", bn: "লোহাগাড়া", en: "Lohagara", upazila: "75" },
+  { code: "754", bn: "পদুয়া", en: "Padua", upazila: "75" },
+  { code: "760", bn: "পুটিবিলা", en: "Putibila", upazila: "75" },
+  { code: "776", bn: "বুডিরশ্চর", en: "Budirchar", upazila: "76" },
+  { code: "772", bn: "চিকনদন্ডী", en: "Chikondandi", upazila: "76" },
+  { code: "768", bn: "ছিপাতলী", en: "Chipatali", upazila: "76" },
+  { code: "774", bn: "দক্ষিন মাদার্শা", en: "Dakkin Madrasha", upazila: "76" },
+  { code: "764", bn: "ধলই", en: "Dhalai", upazila: "76" },
+  { code: "763", bn: "ফরহাদাবাদ", en: "Farhadabad", upazila: "76" },
+  { code: "771", bn: "ফতেপুর", en: "Fathepur", upazila: "76" },
+  { code: "770", bn: "গড়দুয়ারা", en: "Garduara", upazila: "76" },
+  { code: "767", bn: "গুমানমর্দ্দন", en: "Gomanmordan", upazila: "76" },
+  { code: "777", bn: "হাটহাজারী", en: "Hathazari", upazila: "76" },
+  { code: "4623", bn: "হাটহাজারী পৌরসভা", en: "Hathazari", upazila: "76" },
+  { code: "769", bn: "মেখল", en: "Mekhal", upazila: "76" },
+  { code: "765", bn: "মির্জাপুর", en: "Mirjapur", upazila: "76" },
+  { code: "766", bn: "নাঙ্গলমোরা", en: "Nangolmora", upazila: "76" },
+  { code: "775", bn: "শিকারপুর", en: "Sikarpur", upazila: "76" },
+  { code: "773", bn: "উত্তর মাদার্শা", en: "Uttar Madrasha", upazila: "76" },
+  { code: "788", bn: "আবদুল্লাপুর", en: "Abdullapur", upazila: "77" },
+  { code: "779", bn: "বাগান বাজার", en: "Baganbazar", upazila: "77" },
+  { code: "782", bn: "ভূজপুর", en: "Bhujpur", upazila: "77" },
+  { code: "791", bn: "বক্তপুর", en: "Bokhtapur", upazila: "77" },
+  { code: "780", bn: "দাঁতমারা", en: "Dantmara", upazila: "77" },
+  { code: "795", bn: "দৌলতপুর", en: "Daulatpur", upazila: "77" },
+  { code: "778", bn: "ধর্মপুর", en: "Dharmapur", upazila: "77" },
+  { code: "4624", bn: "ফটিকছড়ি পৌরসভা", en: "Fatikchhari", upazila: "77" },
+  { code: "783", bn: "হারুয়ালছড়ি", en: "Harualchari", upazila: "77" },
+  { code: "790", bn: "জাফতনগর", en: "Jafathagar", upazila: "77" },
+  { code: "785", bn: "কাঞ্চনগর", en: "Kanchannagor", upazila: "77" },
+  { code: "794", bn: "লেলাং", en: "Lelang", upazila: "77" },
+  { code: "793", bn: "নানুপুর", en: "Nanupur", upazila: "77" },
+  { code: "781", bn: "নারায়নহাট", en: "Narayanhat", upazila: "77" },
+  { code: "4631", bn: "নাজিরহাট পৌরসভা", en: "Nazirhat", upazila: "77" },
+  { code: "784", bn: "পাইনদং", en: "Paindong", upazila: "77" },
+  { code: "792", bn: "রোসাংগিরী", en: "Roshangiri", upazila: "77" },
+  { code: "789", bn: "সমিতির হাট", en: "Samitirhat", upazila: "77" },
+  { code: "787", bn: "সুয়াবিল", en: "Suabil", upazila: "77" },
+  { code: "786", bn: "সুনদরপুর", en: "Sunderpur", upazila: "77" },
+  { code: "797", bn: "বাগোয়ান", en: "Bagoan", upazila: "78" },
+  { code: "798", bn: "বিনাজুরী", en: "Binajuri", upazila: "78" },
+  { code: "799", bn: "চিকদাইর", en: "Chikdair", upazila: "78" },
+  { code: "800", bn: "ডাবুয়া", en: "Dabua", upazila: "78" },
+  { code: "803", bn: "গহিরা", en: "Gohira", upazila: "78" },
+  { code: "804", bn: "হলদিয়া", en: "Holdia", upazila: "78" },
+  { code: "805", bn: "কদলপূর", en: "Kodolpur", upazila: "78" },
+  { code: "806", bn: "নোয়াপাড়া", en: "Noapara", upazila: "78" },
+  { code: "809", bn: "নওয়াজিশপুর", en: "Nowajushpur", upazila: "78" },
+  { code: "807", bn: "পাহাড়তলী", en: "Pahartali", upazila: "78" },
+  { code: "802", bn: "পশ্চিম গুজরা", en: "Paschim Gujra", upazila: "78" },
+  { code: "801", bn: "পূর্ব গুজরা", en: "Purbagujra", upazila: "78" },
+  { code: "796", bn: "রাউজান", en: "Raozan", upazila: "78" },
+  { code: "4627", bn: "রাউজান পৌরসভা", en: "Raozan", upazila: "78" },
+  { code: "808", bn: "উড়কিরচর", en: "Urkirchar", upazila: "78" },
+  { code: "813", bn: "বড় উঠান", en: "Barauthan", upazila: "79" },
+  { code: "811", bn: "চর লক্ষ্যা", en: "Char Lakshya", upazila: "79" },
+  { code: "810", bn: "চর পাথরঘাটা", en: "Char Patharghata", upazila: "79" },
+  { code: "812", bn: "জুলধা", en: "Juldha", upazila: "79" },
+  { code: "814", bn: "শিকলবাহা", en: "Sikalbaha", upazila: "79" },
+  { code: "820", bn: "চৌফলদন্ডী", en: "Chowfaldandi", upazila: "80" },
+  { code: "4632", bn: "কক্সবাজার পৌরসভা", en: "Coxsbazar Pourasabha", upazila: "80" },
+  { code: "818", bn: "ঈদগাঁও", en: "Eidgaon", upazila: "80" },
+  { code: "815", bn: "ইসলামাবাদ", en: "Islamabad", upazila: "80" },
+  { code: "816", bn: "ইসলামপুর", en: "Islampur", upazila: "80" },
+  { code: "819", bn: "জালালাবাদ", en: "Jalalabad", upazila: "80" },
+  { code: "824", bn: "ঝিলংঝা", en: "Jhilongjha", upazila: "80" },
+  { code: "823", bn: "খুরুশকুল", en: "Khurushkhul", upazila: "80" },
+  { code: "822", bn: "পিএমখালী", en: "Pmkhali", upazila: "80" },
+  { code: "817", bn: "পোকখালী", en: "Pokkhali", upazila: "80" },
+  { code: "821", bn: "ভারুয়াখালী", en: "Varuakhali", upazila: "80" },
+  { code: "833", bn: "বদরখালী", en: "Badarkhali", upazila: "81" },
+  { code: "834", bn: "বামু বিলছড়ি", en: "Bamobil Chari", upazila: "81" },
+  { code: "835", bn: "বড়ইতলী", en: "Baraitali", upazila: "81" },
+  { code: "836", bn: "ভেওলা মানিক চর", en: "Bheola Manik Char", upazila: "81" },
+  { code: "4633", bn: "চকরিয়া পৌরসভা", en: "Chakaria Pourasabha", upazila: "81" },
+  { code: "829", bn: "চিরিঙ্গা", en: "Chiringa", upazila: "81" },
+  { code: "830", bn: "ঢেমুশিয়া", en: "Demusia", upazila: "81" },
+  { code: "831", bn: "ডুলাহাজারা", en: "Dulahazara", upazila: "81" },
+  { code: "840", bn: "ফাঁসিয়াখালী", en: "Fashiakhali", upazila: "81" },
+  { code: "839", bn: "হারবাঙ্গ", en: "Harbang", upazila: "81" },
+  { code: "826", bn: "কাইয়ার বিল", en: "Kaiar Bil", upazila: "81" },
+  { code: "825", bn: "কাকারা", en: "Kakhara", upazila: "81" },
+  { code: "828", bn: "খুটাখালী", en: "Khuntakhali", upazila: "81" },
+  { code: "827", bn: "কোনাখালী", en: "Konakhali", upazila: "81" },
+  { code: "832", bn: "পশ্চিম বড় ভেওলা", en: "Paschim Bara Bheola", upazila: "81" },
+  { code: "837", bn: "শাহারবিল", en: "Saharbil", upazila: "81" },
+  { code: "838", bn: "সুরজপুর মানিকপুর", en: "Surajpur Manikpur", upazila: "81" },
+  { code: "841", bn: "আলি আকবর ডেইল", en: "Ali Akbar Deil", upazila: "82" },
+  { code: "845", bn: "বড়ঘোপ", en: "Baragho", upazila: "82" },
+  { code: "844", bn: "দক্ষিণ ধুরুং", en: "Dakshi Dhurung", upazila: "82" },
+  { code: "843", bn: "কৈয়ারবিল", en: "Kaiyarbil", upazila: "82" },
+  { code: "846", bn: "লেমসিখালী", en: "Lemsikhali", upazila: "82" },
+  { code: "842", bn: "উত্তর ধুরুং", en: "Uttar Dhurung", upazila: "82" },
+  { code: "849", bn: "হলদিয়াপালং", en: "Holdiapalong", upazila: "83" },
+  { code: "848", bn: "জালিয়াপালং", en: "Jaliapalong", upazila: "83" },
+  { code: "851", bn: "পালংখালী", en: "Palongkhali", upazila: "83" },
+  { code: "847", bn: "রাজাপালং", en: "Rajapalong", upazila: "83" },
+  { code: "850", bn: "রত্নাপালং", en: "Ratnapalong", upazila: "83" },
+  { code: "852", bn: "বড় মহেশখালী", en: "Boro Moheshkhali", upazila: "84" },
+  { code: "853", bn: "ছোট মহেশখালী", en: "Choto Moheshkhali", upazila: "84" },
+  { code: "859", bn: "ধলঘাটা", en: "Dhalghata", upazila: "84" },
+  { code: "856", bn: "হোয়ানক", en: "Hoanak", upazila: "84" },
+  { code: "857", bn: "কালারমারছড়া", en: "Kalarmarchhara", upazila: "84" },
+  { code: "855", bn: "কুতুবজোম", en: "Kutubjum", upazila: "84" },
+  { code: "858", bn: "মাতারবাড়ী", en: "Matarbari", upazila: "84" },
+  { code: "4635", bn: "মহেশখালী পৌরসভা", en: "Moheshkhali Pourasabha", upazila: "84" },
+  { code: "854", bn: "শাপলাপুর", en: "Shaplapur", upazila: "84" },
+  { code: "863", bn: "বড় বাকিয়া", en: "Barabakia", upazila: "85" },
+  { code: "864", bn: "মগনামা", en: "Magnama", upazila: "85" },
+  { code: "862", bn: "পেকুয়া", en: "Pekua", upazila: "85" },
+  { code: "865", bn: "রাজাখালী", en: "Rajakhali", upazila: "85" },
+  { code: "866", bn: "শীলখালী", en: "Shilkhali", upazila: "85" },
+  { code: "861", bn: "টাইটং", en: "Taitong", upazila: "85" },
+  { code: "860", bn: "উজানটিয়া", en: "Ujantia", upazila: "85" },
+  { code: "872", bn: "চাকমারকুল", en: "Chakmarkul", upazila: "86" },
+  { code: "875", bn: "দক্ষিণ মিঠাছড়ি", en: "Dakkhin Mithachhari", upazila: "86" },
+  { code: "871", bn: "ঈদগড়", en: "Eidghar", upazila: "86" },
+  { code: "867", bn: "ফতেখাঁরকুল", en: "Fotekharkul", upazila: "86" },
+  { code: "877", bn: "গর্জনিয়া", en: "Garjoniya", upazila: "86" },
+  { code: "876", bn: "জোয়ারিয়া নালা", en: "Jouarianala", upazila: "86" },
+  { code: "873", bn: "কচ্ছপিয়া", en: "Kacchapia", upazila: "86" },
+  { code: "874", bn: "কাউয়ারখোপ", en: "Kauwarkho", upazila: "86" },
+  { code: "870", bn: "খুনিয়াপালং", en: "Khuniapalong", upazila: "86" },
+  { code: "868", bn: "রাজারকুল", en: "Rajarkul", upazila: "86" },
+  { code: "869", bn: "রশীদনগর", en: "Rashidnagar", upazila: "86" },
+  { code: "879", bn: "বাহারছড়া", en: "Baharchara", upazila: "87" },
+  { code: "880", bn: "হ্নীলা", en: "Hnila", upazila: "87" },
+  { code: "882", bn: "সেন্ট মার্টিন", en: "Saintmartin", upazila: "87" },
+  { code: "878", bn: "সাবরাং", en: "Subrang", upazila: "87" },
+  { code: "4634", bn: "টেকনাফ পৌরসভা", en: "Teknaf Pourasabha", upazila: "87" },
+  { code: "883", bn: "টেকনাফ সদর", en: "Teknaf Sadar", upazila: "87" },
+  { code: "881", bn: "হোয়াইক্যং", en: "Whykong", upazila: "87" },
+  { code: "7296", bn: "ভাইবোনছড়া", en: "Bhaibonchara", upazila: "88" },
+  { code: "885", bn: "গোলাবাড়ী", en: "Golabari", upazila: "88" },
+  { code: "887", bn: "কমলছড়ি", en: "Kamalchari", upazila: "88" },
+  { code: "4636", bn: "খাগড়াছড়ি পৌরসভা", en: "Khagrachhari Pourasabha", upazila: "88" },
+  { code: "884", bn: "খাগরাছড়ি সদর", en: "Khagrachhari Sadar", upazila: "88" },
+  { code: "886", bn: "পেরাছড়া", en: "Parachara", upazila: "88" },
+  { code: "892", bn: "বাবুছড়া", en: "Babuchara", upazila: "89" },
+  { code: "889", bn: "বোয়ালখালী", en: "Boalkhali", upazila: "89" },
+  { code: "891", bn: "দিঘীনালা", en: "Dighinala", upazila: "89" },
+  { code: "890", bn: "কবাখালী", en: "Kabakhali", upazila: "89" },
+  { code: "888", bn: "মেরুং", en: "Merung", upazila: "89" },
+  { code: "894", bn: "চেংগী", en: "Changi", upazila: "90" },
+  { code: "896", bn: "লতিবান", en: "Latiban", upazila: "90" },
+  { code: "893", bn: "লোগাং", en: "Logang", upazila: "90" },
+  { code: "895", bn: "পানছড়ি", en: "Panchari", upazila: "90" },
+  { code: "898", bn: "বর্মাছড়ি", en: "Barmachari", upazila: "91" },
+  { code: "897", bn: "দুল্যাতলী", en: "Dullyatali", upazila: "91" },
+  { code: "899", bn: "লক্ষীছড়ি", en: "Laxmichhari", upazila: "91" },
+  { code: "900", bn: "ভাইবোনছড়া", en: "Bhaibonchara", upazila: "92" },
+  { code: "903", bn: "ক্যায়াংঘাট", en: "Kayanghat", upazila: "92" },
+  { code: "901", bn: "মহালছড়ি", en: "Mahalchari", upazila: "92" },
+  { code: "904", bn: "মাইসছড়ি", en: "Maischari", upazila: "92" },
+  { code: "902", bn: "মুবাছড়ি", en: "Mobachari", upazila: "92" },
+  { code: "7291", bn: "সিন্দুকছড়ি", en: "sindukchari", upazila: "92" },
+  { code: "906", bn: "বাটনাতলী", en: "Batnatali", upazila: "93" },
+  { code: "907", bn: "যোগ্যছোলা", en: "Jogyachola", upazila: "93" },
+  { code: "905", bn: "মানিকছড়ি", en: "Manikchari", upazila: "93" },
+  { code: "908", bn: "তিনটহরী", en: "Tintahari", upazila: "93" },
+  { code: "911", bn: "হাফছড়ি", en: "Hafchari", upazila: "94" },
+  { code: "910", bn: "পাতাছড়া", en: "Patachara", upazila: "94" },
+  { code: "909", bn: "রামগড়", en: "Ramgarh", upazila: "94" },
+  { code: "4638", bn: "রামগড় পৌরসভা", en: "Ramgarh Pourasabha", upazila: "94" },
+  { code: "919", bn: "আমতলি", en: "Amtali", upazila: "95" },
+  { code: "916", bn: "বেলছড়ি", en: "Balchari", upazila: "95" },
+  { code: "914", bn: "বর্ণাল", en: "Barnal", upazila: "95" },
+  { code: "915", bn: "গোমতি", en: "Gomti", upazila: "95" },
+  { code: "918", bn: "গুইমারা", en: "Guimara", upazila: "95" },
+  { code: "917", bn: "মাটিরাঙ্গা", en: "Matiranga", upazila: "95" },
+  { code: "4637", bn: "মাটিরাঙ্গা পৌরসভা", en: "Matiranga Pourasabha", upazila: "95" },
+  { code: "913", bn: "তবলছড়ি", en: "Tabalchari", upazila: "95" },
+  { code: "912", bn: "তাইন্দং", en: "Taindong", upazila: "95" },
+  { code: "5243", bn: "গুইমারা", en: "guimara", upazila: "96" },
+  { code: "5244", bn: "হাফছড়ি", en: "halfchori", upazila: "96" },
+  { code: "5060", bn: "সিন্দুকছড়ি", en: "sindukchori", upazila: "96" },
+  { code: "4639", bn: "বান্দরবান পৌরসভা", en: "Bandarban Pourasabha", upazila: "97" },
+  { code: "923", bn: "বান্দরবান সদর", en: "Bandarban Sadar", upazila: "97" },
+  { code: "924", bn: "কুহালং", en: "Kuhalong", upazila: "97" },
+  { code: "920", bn: "রাজবিলা", en: "Rajbila", upazila: "97" },
+  { code: "922", bn: "সুয়ালক", en: "Suwalok", upazila: "97" },
+  { code: "921", bn: "টংকাবতী", en: "Tongkaboty", upazila: "97" },
+  { code: "925", bn: "আলীকদম সদর", en: "Alikadam Sadar", upazila: "98" },
+  { code: "926", bn: "চৈক্ষ্যং", en: "Chwekhyong", upazila: "98" },
+  { code: "929", bn: "বাইশারী", en: "Baishari", upazila: "99" },
+  { code: "931", bn: "দোছড়ি", en: "Duwchari", upazila: "99" },
+  { code: "928", bn: "ঘুমধুম", en: "Gumdhum", upazila: "99" },
+  { code: "927", bn: "নাইক্ষ্যংছড়ি সদর", en: "Naikhyongchari Sadar", upazila: "99" },
+  { code: "930", bn: "সোনাইছড়ি", en: "Sonaychari", upazila: "99" },
+  { code: "934", bn: "আলেক্ষ্যং", en: "Alekyong", upazila: "100" },
+  { code: "935", bn: "নোয়াপতং", en: "Nawapotong", upazila: "100" },
+  { code: "932", bn: "রোয়াংছড়ি সদর", en: "Rowangchari Sadar", upazila: "100" },
+  { code: "933", bn: "তারাছা", en: "Taracha", upazila: "100" },
+  { code: "942", bn: "আজিজনগর", en: "Aziznagar", upazila: "101" },
+  { code: "938", bn: "ফাসিয়াখালী", en: "Fasiakhali", upazila: "101" },
+  { code: "939", bn: "ফাইতং", en: "Fythong", upazila: "101" },
+  { code: "936", bn: "গজালিয়া", en: "Gajalia", upazila: "101" },
+  { code: "4640", bn: "লামা পৌরসভা", en: "Lama Pourasabha", upazila: "101" },
+  { code: "937", bn: "লামা সদর", en: "Lama Sadar", upazila: "101" },
+  { code: "940", bn: "রূপসীপাড়া", en: "Rupushipara", upazila: "101" },
+  { code: "941", bn: "সরই", en: "Sarai", upazila: "101" },
+  { code: "946", bn: "গ্যালেংগ্যা", en: "Galanggya", upazila: "102" },
+  { code: "943", bn: "পাইন্দু", en: "Paind", upazila: "102" },
+  { code: "945", bn: "রেমাক্রীপ্রাংসা", en: "Ramakreprangsa", upazila: "102" },
+  { code: "944", bn: "রুমা সদর", en: "Ruma Sadar", upazila: "102" },
+  { code: "950", bn: "বলিপাড়া", en: "Balipara", upazila: "103" },
+  { code: "947", bn: "রেমাক্রী", en: "Remakre", upazila: "103" },
+  { code: "949", bn: "থানচি সদর", en: "Thanchi Sadar", upazila: "103" },
+  { code: "948", bn: "তিন্দু", en: "Tind", upazila: "103" },
+  { code: "952", bn: "বড়ধুল", en: "Baradhul", upazila: "104" },
+  { code: "4779", bn: "বেলকুচি পৌরসভা", en: "Belkuchi Municipality", upazila: "104" },
+  { code: "953", bn: "বেলকুচি সদর", en: "Belkuchi Sadar", upazila: "104" },
+  { code: "956", bn: "ভাঙ্গাবাড়ী", en: "Bhangabari", upazila: "104" },
+  { code: "954", bn: "ধুকুরিয়া বেড়া", en: "Dhukuriabera", upazila: "104" },
+  { code: "955", bn: "দৌলতপুর", en: "Doulatpur", upazila: "104" },
+  { code: "951", bn: "রাজাপুর", en: "Rajapur", upazila: "104" },
+  { code: "957", bn: "বাঘুটিয়া", en: "Baghutia", upazila: "105" },
+  { code: "958", bn: "ঘোরজান", en: "Gharjan", upazila: "105" },
+  { code: "959", bn: "খাসকাউলিয়া", en: "Khaskaulia", upazila: "105" },
+  { code: "960", bn: "খাসপুকুরিয়া", en: "Khaspukuria", upazila: "105" },
+  { code: "961", bn: "উমারপুর", en: "Omarpur", upazila: "105" },
+  { code: "962", bn: "সদিয়া চাঁদপুর", en: "Sadia Chandpur", upazila: "105" },
+  { code: "963", bn: "স্থল", en: "Sthal", upazila: "105" },
+  { code: "964", bn: "ভদ্রঘাট", en: "Bhadraghat", upazila: "106" },
+  { code: "965", bn: "জামতৈল", en: "Jamtail", upazila: "106" },
+  { code: "966", bn: "ঝাঐল", en: "Jhawail", upazila: "106" },
+  { code: "967", bn: "রায়দৌলতপুর", en: "Roydaulatpur", upazila: "106" },
+  { code: "968", bn: "চালিতাডাঙ্গা", en: "Chalitadangha", upazila: "107" },
+  { code: "969", bn: "চরগিরিশ", en: "Chargirish", upazila: "107" },
+  { code: "970", bn: "গান্ধাইল", en: "Gandail", upazila: "107" },
+  { code: "4780", bn: "কাজিপুর পৌরসভা", en: "Kazipur Municipality", upazila: "107" },
+  { code: "971", bn: "কাজিপুর সদর", en: "Kazipur Sadar", upazila: "107" },
+  { code: "972", bn: "খাসরাজবাড়ী", en: "Khasrajbari", upazila: "107" },
+  { code: "973", bn: "মাইজবাড়ী", en: "Maijbari", upazila: "107" },
+  { code: "974", bn: "মনসুর নগর", en: "Monsur Nagar", upazila: "107" },
+  { code: "975", bn: "নাটুয়ারপাড়া", en: "Natuarpara", upazila: "107" },
+  { code: "976", bn: "নিশ্চিন্তপুর", en: "Nishchintapur", upazila: "107" },
+  { code: "977", bn: "সোনামুখী", en: "Sonamukhi", upazila: "107" },
+  { code: "978", bn: "শুভগাছা", en: "Subhagacha", upazila: "107" },
+  { code: "979", bn: "তেকানী", en: "Tekani", upazila: "107" },
+  { code: "980", bn: "ব্রহ্মগাছা", en: "Brommogacha", upazila: "108" },
+  { code: "981", bn: "চান্দাইকোনা", en: "Chandaikona", upazila: "108" },
+  { code: "982", bn: "ধামাইনগর", en: "Dhamainagar", upazila: "108" },
+  { code: "983", bn: "ধানগড়া", en: "Dhangora", upazila: "108" },
+  { code: "984", bn: "ধুবিল", en: "Dhubil", upazila: "108" },
+  { code: "985", bn: "ঘুড়কা", en: "Ghurka", upazila: "108" },
+  { code: "986", bn: "নলকা", en: "Nalka", upazila: "108" },
+  { code: "987", bn: "পাঙ্গাসী", en: "Pangashi", upazila: "108" },
+  { code: "4873", bn: "রায়গঞ্জ পৌরসভা", en: "Raiganj Municipality", upazila: "108" },
+  { code: "988", bn: "সোনাখাড়া", en: "Sonakhara", upazila: "108" },
+  { code: "989", bn: "বেলতৈল", en: "Beltail", upazila: "109" },
+  { code: "995", bn: "গালা", en: "Gala", upazila: "109" },
+  { code: "992", bn: "গাড়াদহ", en: "Garadah", upazila: "109" },
+  { code: "997", bn: "হাবিবুল্লাহ নগর", en: "Habibullah Nagar", upazila: "109" },
+  { code: "990", bn: "জালালপুর", en: "Jalalpur", upazila: "109" },
+  { code: "991", bn: "কায়েমপুর", en: "Kayempure", upazila: "109" },
+  { code: "998", bn: "খুকনী", en: "Khukni", upazila: "109" },
+  { code: "999", bn: "কৈজুরী", en: "Koizuri", upazila: "109" },
+  { code: "1001", bn: "নরিনা", en: "Narina", upazila: "109" },
+  { code: "996", bn: "পোরজনা", en: "Porzona", upazila: "109" },
+  { code: "993", bn: "পোতাজিয়া", en: "Potazia", upazila: "109" },
+  { code: "994", bn: "রূপবাটি", en: "Rupbati", upazila: "109" },
+  { code: "5022", bn: "শাহজাদপুর পৌরসভা", en: "Shahjadpur Municipality", upazila: "109" },
+  { code: "1000", bn: "সোনাতনী", en: "Sonatoni", upazila: "109" },
+  { code: "1002", bn: "বাগবাটি", en: "Bagbati", upazila: "110" },
+  { code: "1004", bn: "বহুলী", en: "Bohuli", upazila: "110" },
+  { code: "1010", bn: "কালিয়াহরিপুর", en: "Kaliahoripur", upazila: "110" },
+  { code: "1006", bn: "খোকশাবাড়ী", en: "Khokshabari", upazila: "110" },
+  { code: "1009", bn: "কাওয়াখোলা", en: "Kowakhola", upazila: "110" },
+  { code: "1008", bn: "মেছড়া", en: "Mesra", upazila: "110" },
+  { code: "1003", bn: "রতনকান্দি", en: "Ratankandi", upazila: "110" },
+  { code: "1005", bn: "শিয়ালকোল", en: "Sheyalkol", upazila: "110" },
+  { code: "4561", bn: "সিরাজগঞ্জ পৌরসভা", en: "Sirajganj Sadar", upazila: "110" },
+  { code: "1007", bn: "ছোনগাছা", en: "Songacha", upazila: "110" },
+  { code: "1011", bn: "সয়দাবাদ", en: "Soydabad", upazila: "110" },
+  { code: "1012", bn: "বারুহাস", en: "Baruhas", upazila: "111" },
+  { code: "1019", bn: "দেশীগ্রাম", en: "Deshigram", upazila: "111" },
+  { code: "1018", bn: "মাধাইনগর", en: "Madhainagar", upazila: "111" },
+  { code: "1015", bn: "মাগুড়া বিনোদ", en: "Magura Binod", upazila: "111" },
+  { code: "1016", bn: "নওগাঁ", en: "Naogaon", upazila: "111" },
+  { code: "1014", bn: "সগুনা", en: "Soguna", upazila: "111" },
+  { code: "1013", bn: "তালম", en: "Talam", upazila: "111" },
+  { code: "4874", bn: "তাড়াশ পৌরসভা", en: "Tarash Municipality", upazila: "111" },
+  { code: "1017", bn: "তাড়াশ সদর", en: "Tarash Sadar", upazila: "111" },
+  { code: "1022", bn: "বাঙ্গালা", en: "Bangala", upazila: "112" },
+  { code: "1029", bn: "বড়হর", en: "Borohor", upazila: "112" },
+  { code: "1024", bn: "বড়পাঙ্গাসী", en: "Boropangashi", upazila: "112" },
+  { code: "1025", bn: "দুর্গা নগর", en: "Durga Nagar", upazila: "112" },
+  { code: "1028", bn: "হটিকুমরুল", en: "Hatikumrul", upazila: "112" },
+  { code: "1032", bn: "মোহনপুর", en: "Mohonpur", upazila: "112" },
+  { code: "1030", bn: "পঞ্চক্রোশী", en: "Ponchocroshi", upazila: "112" },
+  { code: "1026", bn: "পূর্ণিমাগাতী", en: "Purnimagati", upazila: "112" },
+  { code: "1021", bn: "রামকৃষ্ণপুর", en: "Ramkrisnopur", upazila: "112" },
+  { code: "1027", bn: "সলঙ্গা", en: "Salanga", upazila: "112" },
+  { code: "1031", bn: "সলপ", en: "Salo", upazila: "112" },
+  { code: "1023", bn: "উধুনিয়া", en: "Udhunia", upazila: "112" },
+  { code: "5021", bn: "উল্লাপাড়া পৌরসভা", en: "Ullapara Municipality", upazila: "112" },
+  { code: "1020", bn: "উল্লাপাড়া সদর", en: "Ullapara Sadar", upazila: "112" },
+  { code: "1037", bn: "আহম্মদপুর", en: "Ahammadpur", upazila: "113" },
+  { code: "1036", bn: "দুলাই", en: "Dulai", upazila: "113" },
+  { code: "1040", bn: "হাটখালী", en: "Hatkhali", upazila: "113" },
+  { code: "1035", bn: "মানিকহাট", en: "Manikhat", upazila: "113" },
+  { code: "1041", bn: "নাজিরগঞ্জ", en: "Nazirganj", upazila: "113" },
+  { code: "1038", bn: "রাণীনগর", en: "Raninagar", upazila: "113" },
+  { code: "1042", bn: "সাগরকান্দি", en: "Sagorkandi", upazila: "113" },
+  { code: "1039", bn: "সাতবাড়ীয়া", en: "Satbaria", upazila: "113" },
+  { code: "4943", bn: "সুজানগর পৌরসভা", en: "Sujanagar Municipality", upazila: "113" },
+  { code: "1034", bn: "তাঁতিবন্দ", en: "Tantibonda", upazila: "113" },
+  { code: "1033", bn: "ভায়না", en: "Vaina", upazila: "113" },
+  { code: "1046", bn: "দাশুরিয়া", en: "Dashuria", upazila: "114" },
+  { code: "4942", bn: "ঈশ্বরদী পৌরসভা", en: "Ishwardi Municipality", upazila: "114" },
+  { code: "1049", bn: "লক্ষীকুন্ডা", en: "Luxmikunda", upazila: "114" },
+  { code: "1045", bn: "মুলাডুলি", en: "Muladuli", upazila: "114" },
+  { code: "1044", bn: "পাকশী", en: "Pakshi", upazila: "114" },
+  { code: "1048", bn: "সাহাপুর", en: "Sahapur", upazila: "114" },
+  { code: "1043", bn: "সাঁড়া", en: "Sara", upazila: "114" },
+  { code: "1047", bn: "ছলিমপুর", en: "Silimpur", upazila: "114" },
+  { code: "1052", bn: "অষ্টমণিষা", en: "Ashtamanisha", upazila: "115" },
+  { code: "1050", bn: "ভাঙ্গুড়া", en: "Bhangura", upazila: "115" },
+  { code: "5016", bn: "ভাঙ্গুরা পৌরসভা", en: "Bhangura Municipality", upazila: "115" },
+  { code: "1053", bn: "দিলপাশার", en: "Dilpasar", upazila: "115" },
+  { code: "1051", bn: "খানমরিচ", en: "Khanmarich", upazila: "115" },
+  { code: "1054", bn: "পারভাঙ্গুড়া", en: "Parbhangura", upazila: "115" },
+  { code: "1058", bn: "আতাইকুলা", en: "Ataikula", upazila: "116" },
+  { code: "1061", bn: "ভাঁড়ারা", en: "Bharara", upazila: "116" },
+  { code: "1059", bn: "চরতারাপুর", en: "Chartarapur", upazila: "116" },
+  { code: "1064", bn: "দাপুনিয়া", en: "Dapunia", upazila: "116" },
+  { code: "1062", bn: "দোগাছী", en: "Dogachi", upazila: "116" },
+  { code: "1057", bn: "গয়েশপুর", en: "Gayeshpur", upazila: "116" },
+  { code: "1063", bn: "হেমায়েতপুর", en: "Hemayetpur", upazila: "116" },
+  { code: "1056", bn: "মালঞ্চি", en: "Malanchi", upazila: "116" },
+  { code: "1055", bn: "মালিগাছা", en: "Maligachha", upazila: "116" },
+  { code: "4864", bn: "পাবনা পৌরসভা", en: "Pabna Municipality", upazila: "116" },
+  { code: "1060", bn: "সাদুল্লাপুর", en: "Sadullahpur", upazila: "116" },
+  { code: "1068", bn: "চাকলা", en: "Chakla", upazila: "117" },
+  { code: "1073", bn: "ঢালার চর", en: "Dhalar Char", upazila: "117" },
+  { code: "5015", bn: "বেড়া পৌরসভা", en: "Fence Municipality", upazila: "117" },
+  { code: "1065", bn: "হাটুরিয়া নাকালিয়া", en: "Haturia Nakalia", upazila: "117" },
+  { code: "1069", bn: "জাতসাখিনি", en: "Jatsakhini", upazila: "117" },
+  { code: "1067", bn: "কৈটোলা", en: "Koitola", upazila: "117" },
+  { code: "1072", bn: "মাসুমদিয়া", en: "Masumdia", upazila: "117" },
+  { code: "1066", bn: "নতুন ভারেঙ্গা", en: "Notun Varenga", upazila: "117" },
+  { code: "1070", bn: "পুরান ভারেঙ্গা", en: "Puran Varenga", upazila: "117" },
+  { code: "1071", bn: "রূপপুর", en: "Ruppur", upazila: "117" },
+  { code: "4767", bn: "আটঘরিয়া পৌরসভা", en: "Atgharia municipality", upazila: "118" },
+  { code: "1075", bn: "চাঁদভা", en: "Chandba", upazila: "118" },
+  { code: "1076", bn: "দেবোত্তর", en: "Debottar", upazila: "118" },
+  { code: "1077", bn: "একদন্ত", en: "Ekdanta", upazila: "118" },
+  { code: "1078", bn: "লক্ষীপুর", en: "Laxshmipur", upazila: "118" },
+  { code: "1074", bn: "মাজপাড়া", en: "Majhpara", upazila: "118" },
+  { code: "1088", bn: "বিলচলন", en: "Bilchalan", upazila: "119" },
+  { code: "4944", bn: "চাটমোহর পৌরসভা", en: "Chatmohar Municipality", upazila: "119" },
+  { code: "1080", bn: "ছাইকোলা", en: "Chhaikola", upazila: "119" },
+  { code: "1089", bn: "দাতিয়া বামনগ্রাম", en: "Danthia Bamangram", upazila: "119" },
+  { code: "1084", bn: "ফৈলজানা", en: "Failjana", upazila: "119" },
+  { code: "1082", bn: "গুনাইগাছা", en: "Gunaigachha", upazila: "119" },
+  { code: "1079", bn: "হান্ডিয়াল", en: "Handial", upazila: "119" },
+  { code: "1086", bn: "হরিপুর", en: "Haripur", upazila: "119" },
+  { code: "1087", bn: "মথুরাপুর", en: "Mothurapur", upazila: "119" },
+  { code: "1085", bn: "মুলগ্রাম", en: "Mulgram", upazila: "119" },
+  { code: "1081", bn: "নিমাইচড়া", en: "Nimaichara", upazila: "119" },
+  { code: "1083", bn: "পার্শ্বডাঙ্গা", en: "Parshadanga", upazila: "119" },
+  { code: "1099", bn: "আর-আতাইকুলা", en: "Ar-Ataikula", upazila: "120" },
+  { code: "1092", bn: "ভুলবাড়ীয়া", en: "Bhulbaria", upazila: "120" },
+  { code: "1093", bn: "ধোপাদহ", en: "Dhopadaha", upazila: "120" },
+  { code: "1091", bn: "ধুলাউড়ি", en: "Dhulauri", upazila: "120" },
+  { code: "1096", bn: "গৌরীগ্রাম", en: "Gaurigram", upazila: "120" },
+  { code: "1094", bn: "করমজা", en: "Karamja", upazila: "120" },
+  { code: "1095", bn: "কাশিনাথপুর", en: "Kashinathpur", upazila: "120" },
+  { code: "1098", bn: "ক্ষেতুপাড়া", en: "Khetupara", upazila: "120" },
+  { code: "1090", bn: "নাগডেমড়া", en: "Nagdemra", upazila: "120" },
+  { code: "1097", bn: "নন্দনপুর", en: "Nandanpur", upazila: "120" },
+  { code: "4866", bn: "সাঁথিয়া পৌরসভা", en: "Santhia Municipality", upazila: "120" },
+  { code: "1104", bn: "বনওয়ারীনগর", en: "Banwarinagar", upazila: "121" },
+  { code: "1100", bn: "বৃলাহিড়ীবাড়ী", en: "Brilahiribari", upazila: "121" },
+  { code: "1105", bn: "ডেমড়া", en: "Demra", upazila: "121" },
+  { code: "1102", bn: "ফরিদপুর", en: "Faridpur", upazila: "121" },
+  { code: "4865", bn: "ফরিদপুর পৌরসভা", en: "Faridpur Municipality", upazila: "121" },
+  { code: "1103", bn: "হাদল", en: "Hadal", upazila: "121" },
+  { code: "1101", bn: "পুঙ্গুলি", en: "Pungali", upazila: "121" },
+  { code: "1106", bn: "বীরকেদার", en: "Birkedar", upazila: "122" },
+  { code: "1112", bn: "দূর্গাপুর", en: "Durgapur", upazila: "122" },
+  { code: "1113", bn: "জামগ্রাম", en: "Jamgaon", upazila: "122" },
+  { code: "1111", bn: "কাহালু", en: "Kahaloo", upazila: "122" },
+  { code: "4773", bn: "কাহালু পৌরসভা", en: "Kahalu Municipality", upazila: "122" },
+  { code: "1107", bn: "কালাই", en: "Kalai", upazila: "122" },
+  { code: "1114", bn: "মালঞ্চা", en: "Malancha", upazila: "122" },
+  { code: "1110", bn: "মুরইল", en: "Murail", upazila: "122" },
+  { code: "1109", bn: "নারহট্ট", en: "Narhatta", upazila: "122" },
+  { code: "1108", bn: "পাইকড়", en: "Paikar", upazila: "122" },
+  { code: "4945", bn: "বগুড়া পৌরসভা", en: "Bogra Municipality", upazila: "123" },
+  { code: "1118", bn: "এরুলিয়া", en: "Erulia", upazila: "123" },
+  { code: "1115", bn: "ফাঁপোর", en: "Fapore", upazila: "123" },
+  { code: "1122", bn: "গোকুল", en: "Gokul", upazila: "123" },
+  { code: "1124", bn: "লাহিড়ীপাড়া", en: "Lahiripara", upazila: "123" },
+  { code: "1125", bn: "নামুজা", en: "Namuja", upazila: "123" },
+  { code: "1117", bn: "নিশিন্দারা", en: "Nishindara", upazila: "123" },
+  { code: "1123", bn: "নুনগোলা", en: "Noongola", upazila: "123" },
+  { code: "1119", bn: "রাজাপুর", en: "Rajapur", upazila: "123" },
+  { code: "1121", bn: "শেখেরকোলা", en: "Sekherkola", upazila: "123" },
+  { code: "1116", bn: "সাবগ্রাম", en: "Shabgram", upazila: "123" },
+  { code: "1120", bn: "শাখারিয়া", en: "Shakharia", upazila: "123" },
+  { code: "1137", bn: "ভেলাবাড়ী", en: "Bhelabari", upazila: "124" },
+  { code: "1128", bn: "বোহাইল", en: "Bohail", upazila: "124" },
+  { code: "1129", bn: "চালুয়াবাড়ী", en: "Chaluabari", upazila: "124" },
+  { code: "1130", bn: "চন্দনবাইশা", en: "Chandanbaisha", upazila: "124" },
+  { code: "1131", bn: "হাটফুলবাড়ী", en: "Hatfulbari", upazila: "124" },
+  { code: "1132", bn: "হাটশেরপুর", en: "Hatsherpur", upazila: "124" },
+  { code: "1136", bn: "কামালপুর", en: "Kamalpur", upazila: "124" },
+  { code: "1133", bn: "কর্ণিবাড়ী", en: "Karnibari", upazila: "124" },
+  { code: "1134", bn: "কাজলা", en: "Kazla", upazila: "124" },
+  { code: "1135", bn: "কুতুবপুর", en: "Kutubpur", upazila: "124" },
+  { code: "1127", bn: "নারচী", en: "Narchi", upazila: "124" },
+  { code: "4947", bn: "সারিয়াকান্দি পৌরসভা", en: "Sariakandi Municipality", upazila: "124" },
+  { code: "1126", bn: "সারিয়াকান্দি সদর", en: "Sariakandi Sadar", upazila: "124" },
+  { code: "1145", bn: "আমরুল", en: "Amrul", upazila: "125" },
+  { code: "1141", bn: "আড়িয়া", en: "Aria", upazila: "125" },
+  { code: "1138", bn: "আশেকপুর", en: "Asekpur", upazila: "125" },
+  { code: "1144", bn: "চোপিনগর", en: "Chopinagar", upazila: "125" },
+  { code: "1146", bn: "গোহাইল", en: "Gohail", upazila: "125" },
+  { code: "1142", bn: "খরনা", en: "Kharna", upazila: "125" },
+  { code: "1143", bn: "খোট্টাপাড়া", en: "Khottapara", upazila: "125" },
+  { code: "1139", bn: "মাদলা", en: "Madla", upazila: "125" },
+  { code: "1140", bn: "মাঝিড়া", en: "Majhira", upazila: "125" },
+  { code: "1148", bn: "চামরুল", en: "Chamrul", upazila: "126" },
+  { code: "1149", bn: "দুপচাঁচিয়া", en: "Dupchanchia", upazila: "126" },
+  { code: "4768", bn: "দুপচাঁচিয়া পৌরসভা", en: "Dupchanchia Municipality", upazila: "126" },
+  { code: "1151", bn: "গোবিন্দপুর", en: "Gobindapur", upazila: "126" },
+  { code: "1150", bn: "গুনাহার", en: "Gunahar", upazila: "126" },
+  { code: "1152", bn: "তালোড়া", en: "Talora", upazila: "126" },
+  { code: "4868", bn: "তালোড়া পৌরসভা", en: "Taora Municipality", upazila: "126" },
+  { code: "1147", bn: "জিয়ানগর", en: "Zianagar", upazila: "126" },
+  { code: "1155", bn: "আদমদিঘি", en: "Adamdighi", upazila: "127" },
+  { code: "1157", bn: "চাঁপাপুর", en: "Chapapur", upazila: "127" },
+  { code: "1153", bn: "ছাতিয়ানগ্রাম", en: "Chhatiangram", upazila: "127" },
+  { code: "1156", bn: "কুন্দগ্রাম", en: "Kundagram", upazila: "127" },
+  { code: "4770", bn: "সান্তাহার পৌরসভা", en: "Municipality of Santahar", upazila: "127" },
+  { code: "1154", bn: "নশরতপুর", en: "Nasaratpur", upazila: "127" },
+  { code: "1158", bn: "সান্তাহার", en: "Shantahar", upazila: "127" },
+  { code: "1163", bn: "ভাটগ্রাম", en: "Bhatgram", upazila: "128" },
+  { code: "1161", bn: "ভাটরা", en: "Bhatra", upazila: "128" },
+  { code: "1159", bn: "বুড়ইল", en: "Burail", upazila: "128" },
+  { code: "1160", bn: "নন্দিগ্রাম", en: "Nandigram", upazila: "128" },
+  { code: "4769", bn: "নন্দীগ্রাম পৌরসভা", en: "Nandigram Municipality", upazila: "128" },
+  { code: "1162", bn: "থালতা মাঝগ্রাম", en: "Thalta Majhgram", upazila: "128" },
+  { code: "1165", bn: "বালুয়া", en: "Balua", upazila: "129" },
+  { code: "1167", bn: "দিগদাইড়", en: "Digdair", upazila: "129" },
+  { code: "1168", bn: "মধুপুর", en: "Madhupur", upazila: "129" },
+  { code: "1169", bn: "পাকুল্ল্যা", en: "Pakulla", upazila: "129" },
+  { code: "1164", bn: "সোনাতলা", en: "Sonatala", upazila: "129" },
+  { code: "4946", bn: "সোনাতলা পৌরসভা", en: "Sonatala Municipality", upazila: "129" },
+  { code: "1170", bn: "তেকানী চুকাইনগর", en: "Tekani Chukinagar", upazila: "129" },
+  { code: "1166", bn: "জোড়গাছা", en: "Zorgacha", upazila: "129" },
+  { code: "1175", bn: "ভান্ডারবাড়ী", en: "Bhandarbari", upazila: "130" },
+  { code: "1173", bn: "চিকাশী", en: "Chikashi", upazila: "130" },
+  { code: "1178", bn: "চৌকিবাড়ী", en: "Chowkibari", upazila: "130" },
+  { code: "4772", bn: "ধুনট পৌরসভা", en: "Dhunat Municipality", upazila: "130" },
+  { code: "1180", bn: "ধুনট সদর", en: "Dhunat Sadar", upazila: "130" },
+  { code: "1179", bn: "এলাঙ্গী", en: "Elangi", upazila: "130" },
+  { code: "1176", bn: "১গোপালনগর", en: "Gopalnagar", upazila: "130" },
+  { code: "1174", bn: "গোসাইবাড়ী", en: "Gossainbari", upazila: "130" },
+  { code: "1172", bn: "কালেরপাড়া", en: "Kalerpara", upazila: "130" },
+  { code: "1177", bn: "মথুরাপুর", en: "Mothurapur", upazila: "130" },
+  { code: "1171", bn: "নিমগাছি", en: "Nimgachi", upazila: "130" },
+  { code: "1181", bn: "বালিয়া দিঘী", en: "Baliadighi", upazila: "131" },
+  { code: "1182", bn: "দক্ষিণপাড়া", en: "Dakshinpara", upazila: "131" },
+  { code: "1183", bn: "দুর্গাহাটা", en: "Durgahata", upazila: "131" },
+  { code: "1189", bn: "গাবতলি", en: "Gabtali", upazila: "131" },
+  { code: "4771", bn: "গাবতলী পৌরসভা", en: "Gabtali Municipality", upazila: "131" },
+  { code: "1184", bn: "কাগইল", en: "Kagail", upazila: "131" },
+  { code: "1190", bn: "মহিষাবান", en: "Mahishaban", upazila: "131" },
+  { code: "1187", bn: "নাড়ুয়ামালা", en: "Naruamala", upazila: "131" },
+  { code: "1191", bn: "নশিপুর", en: "Nasipur", upazila: "131" },
+  { code: "1188", bn: "নেপালতলী", en: "Nepaltali", upazila: "131" },
+  { code: "1186", bn: "রামেশ্বরপুর", en: "Rameshwarpur", upazila: "131" },
+  { code: "1185", bn: "সোনারায়", en: "Sonarai", upazila: "131" },
+  { code: "1201", bn: "ভবানীপুর", en: "Bhabanipur", upazila: "132" },
+  { code: "1196", bn: "বিশালপুর", en: "Bishalpur", upazila: "132" },
+  { code: "1194", bn: "গাড়িদহ", en: "Garidaha", upazila: "132" },
+  { code: "1193", bn: "খামারকান্দি", en: "Khamarkandi", upazila: "132" },
+  { code: "1200", bn: "খানপুর", en: "Khanpur", upazila: "132" },
+  { code: "1195", bn: "কুসুম্বী", en: "Kusumbi", upazila: "132" },
+  { code: "1192", bn: "মির্জাপুর", en: "Mirzapur", upazila: "132" },
+  { code: "1198", bn: "শাহবন্দেগী", en: "Shahbondegi", upazila: "132" },
+  { code: "4867", bn: "শেরপুর পৌরসভা", en: "Sherpur Municipality", upazila: "132" },
+  { code: "1197", bn: "সীমাবাড়ি", en: "Shimabari", upazila: "132" },
+  { code: "1199", bn: "সুঘাট", en: "Sughat", upazila: "132" },
+  { code: "1204", bn: "আটমূল", en: "Atmul", upazila: "133" },
+  { code: "1208", bn: "বিহার", en: "Bihar", upazila: "133" },
+  { code: "1207", bn: "বুড়িগঞ্জ", en: "Buriganj", upazila: "133" },
+  { code: "1210", bn: "দেউলি", en: "Deuly", upazila: "133" },
+  { code: "1203", bn: "কিচক", en: "Kichok", upazila: "133" },
+  { code: "1206", bn: "মাঝিহট্ট", en: "Majhihatta", upazila: "133" },
+  { code: "1202", bn: "ময়দানহাট্টা", en: "Moidanhatta", upazila: "133" },
+  { code: "1212", bn: "মোকামতলা", en: "Mokamtala", upazila: "133" },
+  { code: "1205", bn: "পিরব", en: "Pirob", upazila: "133" },
+  { code: "1213", bn: "রায়নগর", en: "Raynagar", upazila: "133" },
+  { code: "1211", bn: "সৈয়দপুর", en: "Sayedpur", upazila: "133" },
+  { code: "1209", bn: "শিবগঞ্জ", en: "Shibganj", upazila: "133" },
+  { code: "4774", bn: "শিবগঞ্জ পৌরসভা", en: "Shibganj Municipality", upazila: "133" },
+  { code: "1220", bn: "বড়্গাছি", en: "Borgachi", upazila: "134" },
+  { code: "1216", bn: "দামকুড়া", en: "Damkura", upazila: "134" },
+  { code: "1214", bn: "দর্শনপাড়া", en: "Darsanpara", upazila: "134" },
+  { code: "1219", bn: "হরিয়ান", en: "Harian", upazila: "134" },
+  { code: "1217", bn: "হরিপুর", en: "Horipur", upazila: "134" },
+  { code: "1218", bn: "হড়গ্রাম", en: "Horogram", upazila: "134" },
+  { code: "1215", bn: "হুজুরী পাড়া", en: "Hujuripara", upazila: "134" },
+  { code: "4777", bn: "কাটাখালি পৌরসভা", en: "Katakhali Municipality", upazila: "134" },
+  { code: "4775", bn: "নওহাটা পৌরসভা", en: "Naohata Municipality", upazila: "134" },
+  { code: "1221", bn: "পারিলা", en: "Parila", upazila: "134" },
+  { code: "1225", bn: "দেলুয়াবাড়ী", en: "Deluabari", upazila: "135" },
+  { code: "4871", bn: "দুর্গাপুর পৌরসভা", en: "Durgapur Municipality", upazila: "135" },
+  { code: "1226", bn: "ঝালুকা", en: "Jhaluka", upazila: "135" },
+  { code: "1228", bn: "জয়নগর", en: "Joynogor", upazila: "135" },
+  { code: "1223", bn: "কিসমতগণকৈড়", en: "Kismatgankoir", upazila: "135" },
+  { code: "1227", bn: "মাড়িয়া", en: "Maria", upazila: "135" },
+  { code: "1222", bn: "নওপাড়া", en: "Naopara", upazila: "135" },
+  { code: "1224", bn: "পানানগর", en: "Pananagar", upazila: "135" },
+  { code: "1233", bn: "বাকশিমইল", en: "Baksimoil", upazila: "136" },
+  { code: "1229", bn: "ধুরইল", en: "Dhuroil", upazila: "136" },
+  { code: "1230", bn: "ঘষিগ্রাম", en: "Ghasigram", upazila: "136" },
+  { code: "1234", bn: "জাহানাবাদ", en: "Jahanabad", upazila: "136" },
+  { code: "4778", bn: "কেশরহাট পৌরসভা", en: "Kesharhat Municipality", upazila: "136" },
+  { code: "1232", bn: "মৌগাছি", en: "Mougachi", upazila: "136" },
+  { code: "1231", bn: "রায়ঘাটি", en: "Raighati", upazila: "136" },
+  { code: "1239", bn: "চারঘাট", en: "Charghat", upazila: "137" },
+  { code: "5018", bn: "চারঘাট পৌরসভা", en: "Charghat Municipality", upazila: "137" },
+  { code: "1238", bn: "নিমপাড়া", en: "Nimpara", upazila: "137" },
+  { code: "1237", bn: "সরদহ", en: "Sardah", upazila: "137" },
+  { code: "1236", bn: "শলুয়া", en: "Solua", upazila: "137" },
+  { code: "1240", bn: "ভায়ালক্ষ্মীপুর", en: "Vialuxmipur", upazila: "137" },
+  { code: "1235", bn: "ইউসুফপুর", en: "Yousufpur", upazila: "137" },
+  { code: "1243", bn: "বানেশ্বর", en: "Baneswar", upazila: "138" },
+  { code: "1242", bn: "বেলপুকুরিয়া", en: "Belpukuria", upazila: "138" },
+  { code: "1246", bn: "জিউপাড়া", en: "Jewpara", upazila: "138" },
+  { code: "1241", bn: "পুঠিয়া", en: "Puthia", upazila: "138" },
+  { code: "4872", bn: "পুঠিয়া পৌরসভা", en: "Puthia Municipality", upazila: "138" },
+  { code: "1245", bn: "শিলমাড়িয়া", en: "Shilmaria", upazila: "138" },
+  { code: "1244", bn: "ভালুক গাছি", en: "Valukgachi", upazila: "138" },
+  { code: "1252", bn: "আড়ানী", en: "Arani", upazila: "139" },
+  { code: "4776", bn: "আড়ানী পৌরসভা", en: "Arani Municipality", upazila: "139" },
+  { code: "4948", bn: "বাঘা পৌরসভা", en: "Bagha Municipality", upazila: "139" },
+  { code: "1247", bn: "বাজুবাঘা", en: "Bajubagha", upazila: "139" },
+  { code: "1251", bn: "বাউসা", en: "Bausa", upazila: "139" },
+  { code: "1248", bn: "গড়গড়ি", en: "Gorgori", upazila: "139" },
+  { code: "1250", bn: "মনিগ্রাম", en: "Monigram", upazila: "139" },
+  { code: "1249", bn: "পাকুড়িয়া", en: "Pakuria", upazila: "139" },
+  { code: "1261", bn: "আষাড়িয়াদহ", en: "Asariadaha", upazila: "140" },
+  { code: "1260", bn: "বাসুদেবপুর", en: "Basudebpur", upazila: "140" },
+  { code: "1259", bn: "দেওপাড়া", en: "Dewpara", upazila: "140" },
+  { code: "1253", bn: "গোদাগাড়ী", en: "Godagari", upazila: "140" },
+  { code: "4870", bn: "গোদাগাড়ী পৌরসভা", en: "Godagari Municipality", upazila: "140" },
+  { code: "1257", bn: "গোগ্রাম", en: "Gogram", upazila: "140" },
+  { code: "4869", bn: "কাঁকনহাট পৌরসভা", en: "Kankanhat Municipality", upazila: "140" },
+  { code: "1258", bn: "মাটিকাটা", en: "Matikata", upazila: "140" },
+  { code: "1254", bn: "মোহনপুর", en: "Mohonpur", upazila: "140" },
+  { code: "1255", bn: "পাকড়ী", en: "Pakri", upazila: "140" },
+  { code: "1256", bn: "রিশিকুল", en: "Risikul", upazila: "140" },
+  { code: "1263", bn: "বাধাইড়", en: "Badhair", upazila: "141" },
+  { code: "1268", bn: "চান্দুড়িয়া", en: "Chanduria", upazila: "141" },
+  { code: "1262", bn: "কলমা", en: "Kalma", upazila: "141" },
+  { code: "1267", bn: "কামারগাঁ", en: "Kamargaon", upazila: "141" },
+  { code: "4949", bn: "মুণ্ডুমালা পৌরসভা", en: "Mundumala Municipality", upazila: "141" },
+  { code: "5020", bn: "তানোর পৌরসভা", en: "Municipality of Tanore", upazila: "141" },
+  { code: "1264", bn: "পাঁচন্দর", en: "Panchandar", upazila: "141" },
+  { code: "1265", bn: "সরঞ্জাই", en: "Saranjai", upazila: "141" },
+  { code: "1266", bn: "তালন্দ", en: "Talondo", upazila: "141" },
+  { code: "1273", bn: "আউচপাড়া", en: "Auchpara", upazila: "142" },
+  { code: "1275", bn: "বাসুপাড়া", en: "Basupara", upazila: "142" },
+  { code: "5019", bn: "ভবানীগঞ্জ পৌরসভা", en: "Bhabaniganj Municipality", upazila: "142" },
+  { code: "1272", bn: "বড়বিহানলী", en: "Borobihanoli", upazila: "142" },
+  { code: "1271", bn: "দ্বীপপুর", en: "Dippur", upazila: "142" },
+  { code: "1279", bn: "গণিপুর", en: "Ganipur", upazila: "142" },
+  { code: "1269", bn: "গোবিন্দপাড়া", en: "Gobindopara", upazila: "142" },
+  { code: "1281", bn: "গোয়ালকান্দি", en: "Gualkandi", upazila: "142" },
+  { code: "1282", bn: "হামিরকুৎসা", en: "Hamirkutsa", upazila: "142" },
+  { code: "1283", bn: "যোগিপাড়া", en: "Jogipara", upazila: "142" },
+  { code: "1276", bn: "কাচাড়ী কোয়লিপাড়া", en: "Kacharikoalipara", upazila: "142" },
+  { code: "1278", bn: "মাড়িয়া", en: "Mariaup", upazila: "142" },
+  { code: "1270", bn: "নরদাস", en: "Nordas", upazila: "142" },
+  { code: "1284", bn: "সোনাডাঙ্গা", en: "Sonadanga", upazila: "142" },
+  { code: "1274", bn: "শ্রীপুর", en: "Sreepur", upazila: "142" },
+  { code: "1277", bn: "শুভডাঙ্গা", en: "Suvodanga", upazila: "142" },
+  { code: "5017", bn: "তাহেরপুর পৌরসভা", en: "Taherpur Municipality", upazila: "142" },
+  { code: "1280", bn: "ঝিকড়া", en: "Zhikara", upazila: "142" },
+  { code: "1294", bn: "বড়হরিশপুর", en: "Barahorispur", upazila: "143" },
+  { code: "1289", bn: "বিপ্রবেলঘড়িয়া", en: "Biprobelghoria", upazila: "143" },
+  { code: "1285", bn: "ব্রহ্মপুর", en: "Brahmapur", upazila: "143" },
+  { code: "1290", bn: "ছাতনী", en: "Chhatni", upazila: "143" },
+  { code: "1292", bn: "দিঘাপতিয়া", en: "Dighapatia", upazila: "143" },
+  { code: "1296", bn: "হালসা", en: "Halsa", upazila: "143" },
+  { code: "1295", bn: "কাফুরিয়া", en: "Kaphuria", upazila: "143" },
+  { code: "1287", bn: "খাজুরা", en: "Khajura", upazila: "143" },
+  { code: "1293", bn: "লক্ষীপুর খোলাবাড়িয়া", en: "Luxmipurkholabaria", upazila: "143" },
+  { code: "1286", bn: "মাধনগর", en: "Madhnagar", upazila: "143" },
+  { code: "4764", bn: "নাটোর পৌরসভা", en: "Natore Municipality", upazila: "143" },
+  { code: "1288", bn: "পিপরুল", en: "Piprul", upazila: "143" },
+  { code: "1291", bn: "তেবাড়িয়া", en: "Tebaria", upazila: "143" },
+  { code: "1301", bn: "চামারী", en: "Chamari", upazila: "144" },
+  { code: "1306", bn: "চৌগ্রাম", en: "Chaugram", upazila: "144" },
+  { code: "1307", bn: "ছাতারদিঘী", en: "Chhatardighi", upazila: "144" },
+  { code: "1298", bn: "ডাহিয়া", en: "Dahia", upazila: "144" },
+  { code: "1302", bn: "হাতিয়ানদহ", en: "Hatiandaha", upazila: "144" },
+  { code: "1299", bn: "ইটালী", en: "Italy", upazila: "144" },
+  { code: "1300", bn: "কলম", en: "Kalam", upazila: "144" },
+  { code: "1303", bn: "লালোর", en: "Lalore", upazila: "144" },
+  { code: "1308", bn: "রামান্দখাজুরা", en: "Ramanandakhajura", upazila: "144" },
+  { code: "1304", bn: "শেরকোল", en: "Sherkole", upazila: "144" },
+  { code: "4862", bn: "সিংড়া পৌরসভা", en: "Singra Municipality", upazila: "144" },
+  { code: "4552", bn: "সিংড়া পৌরসভা", en: "Singra Pourashava", upazila: "144" },
+  { code: "1297", bn: "শুকাশ", en: "Sukash", upazila: "144" },
+  { code: "1305", bn: "তাজপুর", en: "Tajpur", upazila: "144" },
+  { code: "1310", bn: "বড়াইগ্রাম", en: "Baraigram", upazila: "145" },
+  { code: "5014", bn: "বড়াইগ্রাম পৌরসভা", en: "Baraigram Municipality", upazila: "145" },
+  { code: "4861", bn: "বনপাড়া পৌরসভা", en: "Bonpara Municipality", upazila: "145" },
+  { code: "1315", bn: "চান্দাই", en: "Chandai", upazila: "145" },
+  { code: "1314", bn: "গোপালপুর", en: "Gopalpur", upazila: "145" },
+  { code: "1309", bn: "জোয়াড়ী", en: "Joari", upazila: "145" },
+  { code: "1313", bn: "মাঝগাও", en: "Majgoan", upazila: "145" },
+  { code: "1312", bn: "নগর", en: "Nagor", upazila: "145" },
+  { code: "1311", bn: "জোনাইল", en: "Zonail", upazila: "145" },
+  { code: "1318", bn: "বাগাতিপাড়া", en: "Bagatipara", upazila: "146" },
+  { code: "4863", bn: "বাগাতিপাড়া পৌরসভা", en: "Bagatipara Municipality", upazila: "146" },
+  { code: "1319", bn: "দয়ারামপুর", en: "Dayarampur", upazila: "146" },
+  { code: "1320", bn: "ফাগুয়ারদিয়াড়", en: "Faguardiar", upazila: "146" },
+  { code: "1317", bn: "জামনগর", en: "Jamnagor", upazila: "146" },
+  { code: "1316", bn: "পাঁকা", en: "Panka", upazila: "146" },
+  { code: "1324", bn: "আড়বাব", en: "Arbab", upazila: "147" },
+  { code: "1329", bn: "অর্জুনপুর বরমহাটী", en: "Arjunpur", upazila: "147" },
+  { code: "1325", bn: "বিলমাড়িয়া", en: "Bilmaria", upazila: "147" },
+  { code: "1323", bn: "চংধুপইল", en: "Chongdhupoil", upazila: "147" },
+  { code: "1326", bn: "দুয়ারিয়া", en: "Duaria", upazila: "147" },
+  { code: "1328", bn: "দুড়দুরিয়া", en: "Durduria", upazila: "147" },
+  { code: "4766", bn: "গোপালপুর পৌরসভা", en: "Gopalpur Municipality", upazila: "147" },
+  { code: "1322", bn: "ঈশ্বরদী", en: "Iswardi", upazila: "147" },
+  { code: "1330", bn: "কদিমচিলান", en: "Kadimchilan", upazila: "147" },
+  { code: "1321", bn: "লালপুর", en: "Lalpur", upazila: "147" },
+  { code: "1327", bn: "ওয়ালিয়া", en: "Oalia", upazila: "147" },
+  { code: "1332", bn: "বিয়াঘাট", en: "Biaghat", upazila: "148" },
+  { code: "1336", bn: "চাপিলা", en: "Chapila", upazila: "148" },
+  { code: "1334", bn: "ধারাবারিষা", en: "Dharabarisha", upazila: "148" },
+  { code: "4860", bn: "গুরুদাসপুর পৌরসভা", en: "Gurudaspur Municipality", upazila: "148" },
+  { code: "1333", bn: "খুবজীপুর", en: "Khubjipur", upazila: "148" },
+  { code: "1335", bn: "মসিন্দা", en: "Moshindha", upazila: "148" },
+  { code: "1331", bn: "নাজিরপুর", en: "Nazirpur", upazila: "148" },
+  { code: "4765", bn: "নলডাঙ্গা পৌরসভা", en: "Naldanga Municipality", upazila: "149" },
+  { code: "5012", bn: "আক্কেলপুর পৌরসভা", en: "Akkelpur Municipality", upazila: "150" },
+  { code: "1341", bn: "গোপীনাথপুর", en: "Gopinathpur", upazila: "150" },
+  { code: "1340", bn: "রায়কালী", en: "Raikali", upazila: "150" },
+  { code: "1337", bn: "রুকিন্দীপুর", en: "Rukindipur", upazila: "150" },
+  { code: "1338", bn: "সোনামূখী", en: "Sonamukhi", upazila: "150" },
+  { code: "1339", bn: "তিলকপুর", en: "Tilakpur", upazila: "150" },
+  { code: "1343", bn: "আহম্মেদাবাদ", en: "Ahammedabad", upazila: "151" },
+  { code: "5013", bn: "কালাই পৌরসভা", en: "Kalai Municipality", upazila: "151" },
+  { code: "1342", bn: "মাত্রাই", en: "Matrai", upazila: "151" },
+  { code: "1344", bn: "পুনট", en: "Punot", upazila: "151" },
+  { code: "1346", bn: "উদয়পুর", en: "Udaipur", upazila: "151" },
+  { code: "1345", bn: "জিন্দারপুর", en: "Zindarpur", upazila: "151" },
+  { code: "1347", bn: "আলমপুর", en: "Alampur", upazila: "152" },
+  { code: "1348", bn: "বড়াইল", en: "Borail", upazila: "152" },
+  { code: "1351", bn: "বড়তারা", en: "Boratara", upazila: "152" },
+  { code: "4763", bn: "ক্ষেতলাল পৌরসভা", en: "Khetlal Municipality", upazila: "152" },
+  { code: "1350", bn: "মামুদপুর", en: "Mamudpur", upazila: "152" },
+  { code: "1349", bn: "তুলশীগংগা", en: "Tulshiganga", upazila: "152" },
+  { code: "1358", bn: "আওলাই", en: "Aolai", upazila: "153" },
+  { code: "1356", bn: "আটাপুর", en: "Atapur", upazila: "153" },
+  { code: "1354", bn: "আয়মারসুলপুর", en: "Aymarasulpur", upazila: "153" },
+  { code: "1352", bn: "বাগজানা", en: "Bagjana", upazila: "153" },
+  { code: "1355", bn: "বালিঘাটা", en: "Balighata", upazila: "153" },
+  { code: "1353", bn: "ধরঞ্জি", en: "Dharanji", upazila: "153" },
+  { code: "1359", bn: "কুসুম্বা", en: "Kusumba", upazila: "153" },
+  { code: "1357", bn: "মোহাম্মদপুর", en: "Mohammadpur", upazila: "153" },
+  { code: "4762", bn: "পাঁচবিবি পৌরসভা", en: "Panchbibi Municipality", upazila: "153" },
+  { code: "1360", bn: "আমদই", en: "Amdai", upazila: "154" },
+  { code: "1361", bn: "বম্বু", en: "Bamb", upazila: "154" },
+  { code: "1368", bn: "ভাদসা", en: "Bhadsha", upazila: "154" },
+  { code: "1365", bn: "চকবরকত", en: "Chakborkat", upazila: "154" },
+  { code: "1367", bn: "ধলাহার", en: "Dhalahar", upazila: "154" },
+  { code: "1362", bn: "দোগাছি", en: "Dogachi", upazila: "154" },
+  { code: "1364", bn: "জামালপুর", en: "Jamalpur", upazila: "154" },
+  { code: "4857", bn: "জয়পুরহাট পৌরসভা", en: "Joypurhat Municipality", upazila: "154" },
+  { code: "1366", bn: "মোহাম্মদাবাদ", en: "Mohammadabad", upazila: "154" },
+  { code: "1363", bn: "পুরানাপৈল", en: "Puranapail", upazila: "154" },
+  { code: "1369", bn: "আলাতুলী", en: "Alatuli", upazila: "155" },
+  { code: "1373", bn: "বালিয়াডাঙ্গা", en: "Baliadanga", upazila: "155" },
+  { code: "1370", bn: "বারঘরিয়া", en: "Baroghoria", upazila: "155" },
+  { code: "5010", bn: "চাঁপাইনবাবগঞ্জ পৌরসভা", en: "Chapainawabganj Municipal", upazila: "155" },
+  { code: "1376", bn: "চর অনুপনগর", en: "Char Anupnagar", upazila: "155" },
+  { code: "1380", bn: "চরবাগডাঙ্গা", en: "Charbagdanga", upazila: "155" },
+  { code: "1377", bn: "দেবীনগর", en: "Debinagar", upazila: "155" },
+  { code: "1374", bn: "গোবরাতলা", en: "Gobratola", upazila: "155" },
+  { code: "1379", bn: "ইসলামপুর", en: "Islampur", upazila: "155" },
+  { code: "1375", bn: "ঝিলিম", en: "Jhilim", upazila: "155" },
+  { code: "1371", bn: "মহারাজপুর", en: "Moharajpur", upazila: "155" },
+  { code: "1381", bn: "নারায়নপুর", en: "Narayanpur", upazila: "155" },
+  { code: "1372", bn: "রানীহাটি", en: "Ranihati", upazila: "155" },
+  { code: "1378", bn: "শাহজাহানপুর", en: "Shahjahanpur", upazila: "155" },
+  { code: "1382", bn: "সুন্দরপুর", en: "Sundarpur", upazila: "155" },
+  { code: "1390", bn: "আলীনগর", en: "Alinagar", upazila: "156" },
+  { code: "1386", bn: "বাঙ্গাবাড়ী", en: "Bangabari", upazila: "156" },
+  { code: "1385", bn: "বোয়ালিয়া", en: "Boalia", upazila: "156" },
+  { code: "1388", bn: "চৌডালা", en: "Chowdala", upazila: "156" },
+  { code: "1389", bn: "গোমস্তাপুর", en: "Gomostapur", upazila: "156" },
+  { code: "1387", bn: "পার্বতীপুর", en: "Parbotipur", upazila: "156" },
+  { code: "1383", bn: "রাধানগর", en: "Radhanagar", upazila: "156" },
+  { code: "1384", bn: "রহনপুর", en: "Rahanpur", upazila: "156" },
+  { code: "4939", bn: "রহনপুর পৌরসভা", en: "Rahanpur Municipality", upazila: "156" },
+  { code: "1391", bn: "ফতেপুর", en: "Fhotepur", upazila: "157" },
+  { code: "1392", bn: "কসবা", en: "Kosba", upazila: "157" },
+  { code: "1394", bn: "নাচোল", en: "Nachol", upazila: "157" },
+  { code: "5011", bn: "নাচোল পৌরসভা", en: "Nachol Municipality", upazila: "157" },
+  { code: "1393", bn: "নেজামপুর", en: "Nezampur", upazila: "157" },
+  { code: "1395", bn: "ভোলাহাট", en: "Bholahat", upazila: "158" },
+  { code: "1398", bn: "দলদলী", en: "Daldoli", upazila: "158" },
+  { code: "1397", bn: "গোহালবাড়ী", en: "Gohalbari", upazila: "158" },
+  { code: "1396", bn: "জামবাড়িয়া", en: "Jambaria", upazila: "158" },
+  { code: "1399", bn: "বিনোদপুর", en: "Binodpur", upazila: "159" },
+  { code: "1400", bn: "চককির্তী", en: "Chakkirti", upazila: "159" },
+  { code: "1409", bn: "ছত্রাজিতপুর", en: "Chatrajitpur", upazila: "159" },
+  { code: "1401", bn: "দাইপুকুরিয়া", en: "Daipukuria", upazila: "159" },
+  { code: "1402", bn: "ধাইনগর", en: "Dhainagar", upazila: "159" },
+  { code: "1403", bn: "দুর্লভপুর", en: "Durlovpur", upazila: "159" },
+  { code: "1404", bn: "ঘোড়াপাখিয়া", en: "Ghorapakhia", upazila: "159" },
+  { code: "1412", bn: "কানসাট", en: "Kansat", upazila: "159" },
+  { code: "1405", bn: "মোবারকপুর", en: "Mobarakpur", upazila: "159" },
+  { code: "1406", bn: "মনাকষা", en: "Monakasha", upazila: "159" },
+  { code: "1407", bn: "নয়ালাভাঙ্গা", en: "Noyalavanga", upazila: "159" },
+  { code: "1408", bn: "পাঁকা", en: "Panka", upazila: "159" },
+  { code: "1410", bn: "শাহাবাজপুর", en: "Shahabajpur", upazila: "159" },
+  { code: "4940", bn: "শিবগঞ্জ পৌরসভা", en: "Shibganj Municipality", upazila: "159" },
+  { code: "1411", bn: "শ্যামপুর", en: "Shyampur", upazila: "159" },
+  { code: "1413", bn: "উজিরপুর", en: "Ujirpur", upazila: "159" },
+  { code: "1414", bn: "মহাদেবপুর", en: "1nomohadevpur", upazila: "160" },
+  { code: "1417", bn: "চাঁন্দাশ", en: "Chandas", upazila: "160" },
+  { code: "1421", bn: "চেরাগপুর", en: "Cheragpur", upazila: "160" },
+  { code: "1418", bn: "এনায়েতপুর", en: "Enayetpur", upazila: "160" },
+  { code: "1415", bn: "হাতুড়", en: "Hatur", upazila: "160" },
+  { code: "1416", bn: "খাজুর", en: "Khajur", upazila: "160" },
+  { code: "1423", bn: "রাইগাঁ", en: "Roygon", upazila: "160" },
+  { code: "1419", bn: "সফাপুর", en: "Sofapur", upazila: "160" },
+  { code: "1420", bn: "উত্তরগ্রাম", en: "Uttargram", upazila: "160" },
+  { code: "1422", bn: "ভীমপুর", en: "Vimpur", upazila: "160" },
+  { code: "1430", bn: "আধাইপুর", en: "Adhaipur", upazila: "161" },
+  { code: "1424", bn: "বদলগাছী", en: "Badalgachi", upazila: "161" },
+  { code: "1431", bn: "বালুভরা", en: "Balubhara", upazila: "161" },
+  { code: "1429", bn: "বিলাশবাড়ী", en: "Bilashbari", upazila: "161" },
+  { code: "1428", bn: "কোলা", en: "Kola", upazila: "161" },
+  { code: "1427", bn: "মিঠাপুর", en: "Mithapur", upazila: "161" },
+  { code: "1425", bn: "মথুরাপুর", en: "Mothurapur", upazila: "161" },
+  { code: "1426", bn: "পাহারপুর", en: "Paharpur", upazila: "161" },
+  { code: "1435", bn: "আকবরপুর", en: "Akbarpur", upazila: "162" },
+  { code: "1441", bn: "আমাইড়", en: "Amair", upazila: "162" },
+  { code: "1434", bn: "দিবর", en: "Dibar", upazila: "162" },
+  { code: "1440", bn: "ঘষনগর", en: "Ghasnagar", upazila: "162" },
+  { code: "1437", bn: "কৃষ্ণপুর", en: "Krishnapur", upazila: "162" },
+  { code: "1436", bn: "মাটিন্দর", en: "Matindar", upazila: "162" },
+  { code: "1439", bn: "নজিপুর", en: "Nazipur", upazila: "162" },
+  { code: "4941", bn: "নজিপুর পৌরসভা", en: "Nazipur Municipality", upazila: "162" },
+  { code: "1433", bn: "নিমইল", en: "Nirmail", upazila: "162" },
+  { code: "1438", bn: "পাটিচড়া", en: "Patichrara", upazila: "162" },
+  { code: "1432", bn: "পত্নীতলা", en: "Patnitala", upazila: "162" },
+  { code: "1442", bn: "শিহারা", en: "Shihara", upazila: "162" },
+  { code: "1450", bn: "আগ্রাদ্বিগুন", en: "Agradigun", upazila: "163" },
+  { code: "1444", bn: "আলমপুর", en: "Alampur", upazila: "163" },
+  { code: "1446", bn: "আড়ানগর", en: "Aranagar", upazila: "163" },
+  { code: "4859", bn: "ধামইরহাট পৌরসভা", en: "Dhamairhat Municipality", upazila: "163" },
+  { code: "1443", bn: "ধামইরহাট", en: "Dhamoirhat", upazila: "163" },
+  { code: "1448", bn: "ইসবপুর", en: "Isabpur", upazila: "163" },
+  { code: "1447", bn: "জাহানপুর", en: "Jahanpur", upazila: "163" },
+  { code: "1449", bn: "খেলনা", en: "Khelna", upazila: "163" },
+  { code: "1445", bn: "উমার", en: "Umar", upazila: "163" },
+  { code: "1458", bn: "বাহাদুরপুর", en: "Bahadurpur", upazila: "164" },
+  { code: "1453", bn: "ভাবিচা", en: "Bhabicha", upazila: "164" },
+  { code: "1452", bn: "চন্দননগর", en: "Chandannagar", upazila: "164" },
+  { code: "1451", bn: "হাজীনগর", en: "Hajinagar", upazila: "164" },
+  { code: "1454", bn: "নিয়ামতপুর", en: "Niamatpur", upazila: "164" },
+  { code: "1456", bn: "পাড়ইল", en: "Paroil", upazila: "164" },
+  { code: "1455", bn: "রসুলপুর", en: "Rasulpur", upazila: "164" },
+  { code: "1457", bn: "শ্রীমন্তপুর", en: "Sremantapur", upazila: "164" },
+  { code: "1472", bn: "বিষ্ণপুর", en: "Bisnopur", upazila: "165" },
+  { code: "1463", bn: "গনেশপুর", en: "Goneshpur", upazila: "165" },
+  { code: "1469", bn: "কালিকাপুর", en: "Kalikapur", upazila: "165" },
+  { code: "1470", bn: "কাঁশোকাপুর", en: "Kashopara", upazila: "165" },
+  { code: "1471", bn: "কশব", en: "Koshob", upazila: "165" },
+  { code: "1466", bn: "কুসুম্বা", en: "Kosomba", upazila: "165" },
+  { code: "1462", bn: "মান্দা", en: "Manda", upazila: "165" },
+  { code: "1464", bn: "মৈনম", en: "Moinom", upazila: "165" },
+  { code: "1468", bn: "নূরুল্যাবাদ", en: "Nurullabad", upazila: "165" },
+  { code: "1461", bn: "পরানপুর", en: "Paranpur", upazila: "165" },
+  { code: "1465", bn: "প্রসাদপুর", en: "Proshadpur", upazila: "165" },
+  { code: "1467", bn: "তেঁতুলিয়া", en: "Tetulia", upazila: "165" },
+  { code: "1460", bn: "ভালাইন", en: "Valain", upazila: "165" },
+  { code: "1459", bn: "ভারশো", en: "Varsho", upazila: "165" },
+  { code: "1475", bn: "আহসানগঞ্জ", en: "Ahsanganj", upazila: "166" },
+  { code: "1474", bn: "ভোঁপড়া", en: "Bhonpara", upazila: "166" },
+  { code: "1477", bn: "বিশা", en: "Bisha", upazila: "166" },
+  { code: "1480", bn: "হাটকালুপাড়া", en: "Hatkalupara", upazila: "166" },
+  { code: "1479", bn: "কালিকাপুর", en: "Kalikapur", upazila: "166" },
+  { code: "1478", bn: "মনিয়ারী", en: "Maniary", upazila: "166" },
+  { code: "1476", bn: "পাঁচুপুর", en: "Panchupur", upazila: "166" },
+  { code: "1473", bn: "শাহাগোলা", en: "Shahagola", upazila: "166" },
+  { code: "1485", bn: "বরগাছা", en: "Borgoca", upazila: "167" },
+  { code: "1487", bn: "একডালা", en: "Ekdala", upazila: "167" },
+  { code: "1483", bn: "গোনা", en: "Gona", upazila: "167" },
+  { code: "1486", bn: "কালিগ্রাম", en: "Kaligram", upazila: "167" },
+  { code: "1482", bn: "কাশিমপুর", en: "Kashimpur", upazila: "167" },
+  { code: "1481", bn: "খট্টেশ্বর রাণীনগর", en: "Khatteshawr", upazila: "167" },
+  { code: "1488", bn: "মিরাট", en: "Mirat", upazila: "167" },
+  { code: "1484", bn: "পারইল", en: "Paroil", upazila: "167" },
+  { code: "1491", bn: "বক্তারপুর", en: "Baktiarpur", upazila: "168" },
+  { code: "1489", bn: "বর্ষাইল", en: "Barshail", upazila: "168" },
+  { code: "1495", bn: "বোয়ালিয়া", en: "Boalia", upazila: "168" },
+  { code: "1498", bn: "বলিহার", en: "Bolihar", upazila: "168" },
+  { code: "1497", bn: "চন্ডিপুর", en: "Chandipur", upazila: "168" },
+  { code: "1494", bn: "দুবলহাটী", en: "Dubalhati", upazila: "168" },
+  { code: "1493", bn: "হাপানিয়া", en: "Hapaniya", upazila: "168" },
+  { code: "1496", bn: "হাঁসাইগাড়ী", en: "Hashaigari", upazila: "168" },
+  { code: "1490", bn: "কির্ত্তিপুর", en: "Kritipur", upazila: "168" },
+  { code: "4858", bn: "নওগাঁ পৌরসভা", en: "Naogaon Municipality", upazila: "168" },
+  { code: "1500", bn: "শৈলগাছী", en: "Shailgachhi", upazila: "168" },
+  { code: "1499", bn: "শিকারপুর", en: "Shekerpur", upazila: "168" },
+  { code: "1492", bn: "তিলোকপুর", en: "Tilakpur", upazila: "168" },
+  { code: "1503", bn: "ছাওড়", en: "Chhaor", upazila: "169" },
+  { code: "1504", bn: "গাঙ্গুরিয়া", en: "Ganguria", upazila: "169" },
+  { code: "1505", bn: "ঘাটনগর", en: "Ghatnagar", upazila: "169" },
+  { code: "1506", bn: "মশিদপুর", en: "Moshidpur", upazila: "169" },
+  { code: "1501", bn: "নিতপুর", en: "Nitpur", upazila: "169" },
+  { code: "1502", bn: "তেঁতুলিয়া", en: "Tetulia", upazila: "169" },
+  { code: "1509", bn: "আইহাই", en: "Aihai", upazila: "170" },
+  { code: "1511", bn: "গোয়ালা", en: "Goala", upazila: "170" },
+  { code: "1512", bn: "পাতাড়ী", en: "Patari", upazila: "170" },
+  { code: "1507", bn: "সাপাহার", en: "Sapahar", upazila: "170" },
+  { code: "1510", bn: "শিরন্টী", en: "Shironti", upazila: "170" },
+  { code: "1508", bn: "তিলনা", en: "Tilna", upazila: "170" },
+  { code: "5036", bn: "‌ মনিরামপুর পৌরসভা", en: "‌ Monirampur Municipality", upazila: "171" },
+  { code: "1521", bn: "ভোজগাতি", en: "Bhojgati", upazila: "171" },
+  { code: "1525", bn: "চালুয়াহাটি", en: "Chaluahati", upazila: "171" },
+  { code: "1523", bn: "ঢাকুরিয়া", en: "Dhakuria", upazila: "171" },
+  { code: "1522", bn: "দুর্বাডাংগা", en: "Durbadanga", upazila: "171" },
+  { code: "1515", bn: "হরিদাসকাটি", en: "Haridaskati", upazila: "171" },
+  { code: "1514", bn: "হরিহরনগর", en: "Hariharnagar", upazila: "171" },
+  { code: "1524", bn: "ঝাঁপা", en: "Jhanpa", upazila: "171" },
+  { code: "1529", bn: "কাশিমনগর", en: "Kashimnagar", upazila: "171" },
+  { code: "1527", bn: "খানপুর", en: "Khanpur", upazila: "171" },
+  { code: "1526", bn: "খেদাপাড়া", en: "Khedapara", upazila: "171" },
+  { code: "1528", bn: "কুলটিয়া", en: "Kultia", upazila: "171" },
+  { code: "1520", bn: "মনিরামপুর", en: "Manirampur", upazila: "171" },
+  { code: "1519", bn: "মনোহরপুর", en: "Manoharpur", upazila: "171" },
+  { code: "1518", bn: "মশ্মিমনগর", en: "Maswimnagar", upazila: "171" },
+  { code: "1513", bn: "নেহালপুর", en: "Nehalpur", upazila: "171" },
+  { code: "1517", bn: "রোহিতা", en: "Rohita", upazila: "171" },
+  { code: "1516", bn: "শ্যামকুড়", en: "Shyamkur", upazila: "171" },
+  { code: "1530", bn: "বাঘুটিয়া", en: "Baghutia", upazila: "172" },
+  { code: "1531", bn: "চলিশিয়া", en: "Chalishia", upazila: "172" },
+  { code: "5033", bn: "নওয়াপাড়া পৌরসভা", en: "Nawapara Municipality", upazila: "172" },
+  { code: "1537", bn: "পায়রা", en: "Payra", upazila: "172" },
+  { code: "1536", bn: "প্রেমবাগ", en: "Prambag", upazila: "172" },
+  { code: "1533", bn: "সিদ্দিপাশা", en: "Siddhipasha", upazila: "172" },
+  { code: "1534", bn: "শ্রীধরপুর", en: "Sreedharpur", upazila: "172" },
+  { code: "1535", bn: "শুভরাড়া", en: "Subharara", upazila: "172" },
+  { code: "1532", bn: "সুন্দলী", en: "Sundoli", upazila: "172" },
+  { code: "4956", bn: "বাঘারপাড়া পৌরসভা", en: "Bagharpara Municipality", upazila: "173" },
+  { code: "1543", bn: "বন্দবিলা", en: "Bandabilla", upazila: "173" },
+  { code: "1544", bn: "বাসুয়াড়ী", en: "Basuari", upazila: "173" },
+  { code: "1540", bn: "দরাজহাট", en: "Darajhat", upazila: "173" },
+  { code: "1541", bn: "ধলগ্রাম", en: "Dhalgram", upazila: "173" },
+  { code: "1546", bn: "দোহাকুলা", en: "Dohakula", upazila: "173" },
+  { code: "1538", bn: "জহুরপুর", en: "Jaharpur", upazila: "173" },
+  { code: "1539", bn: "জামদিয়া", en: "Jamdia", upazila: "173" },
+  { code: "1542", bn: "নারিকেলবাড়ীয়া", en: "Narikelbaria", upazila: "173" },
+  { code: "1545", bn: "রায়পুর", en: "Roypur", upazila: "173" },
+  { code: "1547", bn: "চৌগাছা", en: "Chougachha", upazila: "174" },
+  { code: "4789", bn: "চৌগাছা পৌরসভা", en: "Chougachha municipality", upazila: "174" },
+  { code: "1549", bn: "ধুলিয়ানী", en: "Dhuliani", upazila: "174" },
+  { code: "1553", bn: "ফুলসারা", en: "Fulsara", upazila: "174" },
+  { code: "1557", bn: "হাকিমপুর", en: "Hakimpur", upazila: "174" },
+  { code: "1548", bn: "জগদীশপুর", en: "Jagadishpur", upazila: "174" },
+  { code: "1550", bn: "নারায়নপুর", en: "Narayanpur", upazila: "174" },
+  { code: "1552", bn: "পাশাপোল", en: "Pashapole", upazila: "174" },
+  { code: "1551", bn: "পাতিবিলা", en: "Patibila", upazila: "174" },
+  { code: "1554", bn: "সিংহঝুলি", en: "Singhajhuli", upazila: "174" },
+  { code: "1555", bn: "সুখপুকুরিয়া", en: "Sukpukhuria", upazila: "174" },
+  { code: "1556", bn: "সরুপদাহ", en: "Swarupdaha", upazila: "174" },
+  { code: "1564", bn: "বাঁকড়া", en: "Bankra", upazila: "175" },
+  { code: "1559", bn: "গদখালী", en: "Gadkhali", upazila: "175" },
+  { code: "1558", bn: "গংগানন্দপুর", en: "Gangananda", upazila: "175" },
+  { code: "1567", bn: "হাজিরবাগ", en: "Hajirbagh", upazila: "175" },
+  { code: "1560", bn: "ঝিকরগাছা", en: "Jhikargachha", upazila: "175" },
+  { code: "5035", bn: "ঝিকরগাছা পৌরসভা", en: "Jhikargachha Municipality", upazila: "175" },
+  { code: "1568", bn: "মাগুরা", en: "Magura", upazila: "175" },
+  { code: "1561", bn: "নাভারন", en: "Nabharan", upazila: "175" },
+  { code: "1562", bn: "নির্বাসখোলা", en: "Nibaskhola", upazila: "175" },
+  { code: "1563", bn: "পানিসারা", en: "Panisara", upazila: "175" },
+  { code: "1565", bn: "শংকরপুর", en: "Shankarpur", upazila: "175" },
+  { code: "1566", bn: "শিমুলিয়া", en: "Shimulia", upazila: "175" },
+  { code: "1573", bn: "বিদ্যানন্দকাটি", en: "Bidyanandakati", upazila: "176" },
+  { code: "1576", bn: "গৌরিঘোনা", en: "Gaurighona", upazila: "176" },
+  { code: "1577", bn: "কেশবপুর", en: "Keshabpur", upazila: "176" },
+  { code: "4879", bn: "কেশবপুর পৌরসভা", en: "Keshabpur Municipality", upazila: "176" },
+  { code: "1571", bn: "মজিদপুর", en: "Majidpur", upazila: "176" },
+  { code: "1572", bn: "মঙ্গলকোর্ট", en: "Mongolkot", upazila: "176" },
+  { code: "1574", bn: "পাজিয়া", en: "Panjia", upazila: "176" },
+  { code: "1570", bn: "সাগরদাড়ী", en: "Sagardari", upazila: "176" },
+  { code: "1569", bn: "সুফলাকাটি", en: "Sufalakati", upazila: "176" },
+  { code: "1575", bn: "ত্রিমোহিনী", en: "Trimohini", upazila: "176" },
+  { code: "1580", bn: "আরবপুর", en: "Arabpur", upazila: "177" },
+  { code: "1589", bn: "বসুন্দিয়া", en: "Basundia", upazila: "177" },
+  { code: "1584", bn: "চাঁচড়া", en: "Chanchra", upazila: "177" },
+  { code: "1585", bn: "চূড়ামনকাটি", en: "Churamankati", upazila: "177" },
+  { code: "1592", bn: "দেয়ারা মডেল", en: "Dearamodel", upazila: "177" },
+  { code: "1588", bn: "ফতেপুর", en: "Fathehpur", upazila: "177" },
+  { code: "1591", bn: "হৈবতপুর", en: "Haibatpur", upazila: "177" },
+  { code: "1579", bn: "ইছালী", en: "Ichhali", upazila: "177" },
+  { code: "4955", bn: "যশোর পৌরসভা", en: "Jessore Municipality", upazila: "177" },
+  { code: "1582", bn: "কচুয়া", en: "Kachua", upazila: "177" },
+  { code: "1583", bn: "কাশিমপুর", en: "Kashimpur", upazila: "177" },
+  { code: "1578", bn: "লেবুতলা", en: "Lebutala", upazila: "177" },
+  { code: "1586", bn: "নরেন্দ্রপুর", en: "Narendrapur", upazila: "177" },
+  { code: "1587", bn: "নওয়াপাড়া", en: "Noapara", upazila: "177" },
+  { code: "1590", bn: "রামনগর", en: "Ramnagar", upazila: "177" },
+  { code: "1581", bn: "উপশহর", en: "Upasahar", upazila: "177" },
+  { code: "1598", bn: "বাগআচড়া", en: "Bagachra", upazila: "178" },
+  { code: "1597", bn: "বাহাদুরপুর", en: "Bahadurpur", upazila: "178" },
+  { code: "1596", bn: "বেনাপোল", en: "Benapole", upazila: "178" },
+  { code: "5034", bn: "বেনাপোল পৌরসভা", en: "Benapole Municipality", upazila: "178" },
+  { code: "1601", bn: "ডিহি", en: "Dihi", upazila: "178" },
+  { code: "1602", bn: "গোগা", en: "Goga", upazila: "178" },
+  { code: "1603", bn: "কায়বা", en: "Kayba", upazila: "178" },
+  { code: "1595", bn: "লক্ষণপুর", en: "Lakshmanpur", upazila: "178" },
+  { code: "1600", bn: "নিজামপুর", en: "Nizampur", upazila: "178" },
+  { code: "1599", bn: "পুটখালী", en: "Putkhali", upazila: "178" },
+  { code: "1594", bn: "শার্শা", en: "Sharsha", upazila: "178" },
+  { code: "1593", bn: "উলশী", en: "Ulshi", upazila: "178" },
+  { code: "1604", bn: "আনুলিয়া", en: "Anulia", upazila: "179" },
+  { code: "1605", bn: "আশাশুনি", en: "Assasuni", upazila: "179" },
+  { code: "1612", bn: "বড়দল", en: "Baradal", upazila: "179" },
+  { code: "1611", bn: "বুধহাটা", en: "Budhhata", upazila: "179" },
+  { code: "1609", bn: "দরগাহপুর", en: "Durgapur", upazila: "179" },
+  { code: "1606", bn: "কাদাকাটি", en: "Kadakati", upazila: "179" },
+  { code: "1608", bn: "খাজরা", en: "Khajra", upazila: "179" },
+  { code: "1607", bn: "কুল্যা", en: "Kulla", upazila: "179" },
+  { code: "1610", bn: "প্রতাপনগর", en: "Pratapnagar", upazila: "179" },
+  { code: "1614", bn: "শোভনালী", en: "Sobhnali", upazila: "179" },
+  { code: "1613", bn: "শ্রীউলা", en: "Sreeula", upazila: "179" },
+  { code: "1616", bn: "দেবহাটা", en: "Debhata", upazila: "180" },
+  { code: "1615", bn: "কুলিয়া", en: "Kulia", upazila: "180" },
+  { code: "1617", bn: "নওয়াপাড়া", en: "Noapara", upazila: "180" },
+  { code: "1618", bn: "পারুলিয়া", en: "Parulia", upazila: "180" },
+  { code: "1619", bn: "সখিপুর", en: "Sakhipur", upazila: "180" },
+  { code: "1629", bn: "চন্দনপুর", en: "Chandanpur", upazila: "181" },
+  { code: "1630", bn: "দেয়ারা", en: "Deara", upazila: "181" },
+  { code: "1628", bn: "হেলাতলা", en: "Helatala", upazila: "181" },
+  { code: "1624", bn: "জালালাবাদ", en: "Jallabad", upazila: "181" },
+  { code: "1625", bn: "যুগিখালী", en: "Jogikhali", upazila: "181" },
+  { code: "1631", bn: "জয়নগর", en: "Joynagar", upazila: "181" },
+  { code: "1623", bn: "কয়লা", en: "Kaila", upazila: "181" },
+  { code: "5037", bn: "কলারোয়া পৌরসভা", en: "Kalaroa Municipality", upazila: "181" },
+  { code: "1622", bn: "কেঁড়াগাছি", en: "Keragachhi", upazila: "181" },
+  { code: "1621", bn: "কেরালকাতা", en: "Keralkata", upazila: "181" },
+  { code: "1620", bn: "কুশোডাংগা", en: "Kushadanga", upazila: "181" },
+  { code: "1626", bn: "লাঙ্গলঝাড়া", en: "Langaljhara", upazila: "181" },
+  { code: "1627", bn: "সোনাবাড়িয়া", en: "Sonabaria", upazila: "181" },
+  { code: "1645", bn: "আগরদাড়ী", en: "Agardari", upazila: "182" },
+  { code: "1644", bn: "আলিপুর", en: "Alipur", upazila: "182" },
+  { code: "1638", bn: "বৈকারী", en: "Baikari", upazila: "182" },
+  { code: "1636", bn: "বল্লী", en: "Balli", upazila: "182" },
+  { code: "1637", bn: "বাঁশদহ", en: "Banshdaha", upazila: "182" },
+  { code: "1634", bn: "ভোমরা", en: "Bhomra", upazila: "182" },
+  { code: "1635", bn: "ব্রক্ষ্মরাজপুর", en: "Brahmarajpur", upazila: "182" },
+  { code: "1640", bn: "ধুলিহর", en: "Dhulihar", upazila: "182" },
+  { code: "1639", bn: "ফিংড়ি", en: "Fingri", upazila: "182" },
+  { code: "1642", bn: "ঘোনা", en: "Ghona", upazila: "182" },
+  { code: "1641", bn: "ঝাউডাঙ্গা", en: "Jhaudanga", upazila: "182" },
+  { code: "1643", bn: "কুশখালী", en: "Kuskhali", upazila: "182" },
+  { code: "1633", bn: "লাবসা", en: "Labsa", upazila: "182" },
+  { code: "4790", bn: "সাতক্ষীরা পৌরসভা", en: "Satkhira Municipality", upazila: "182" },
+  { code: "1632", bn: "শিবপুর", en: "Shibpur", upazila: "182" },
+  { code: "1646", bn: "আটুলিয়া", en: "Atulia", upazila: "183" },
+  { code: "1653", bn: "ভুরুলিয়া", en: "Bhurulia", upazila: "183" },
+  { code: "1652", bn: "বুড়িগোয়ালিনী", en: "Burigoalini", upazila: "183" },
+  { code: "1657", bn: "গাবুরা", en: "Gabura", upazila: "183" },
+  { code: "1647", bn: "ঈশ্বরীপুর", en: "Ishwaripur", upazila: "183" },
+  { code: "1648", bn: "কৈখালী", en: "Kaikhali", upazila: "183" },
+  { code: "1649", bn: "কাশিমাড়ী", en: "Kashimari", upazila: "183" },
+  { code: "1654", bn: "মুন্সীগজ্ঞ", en: "Munshiganj", upazila: "183" },
+  { code: "1650", bn: "নুরনগর", en: "Nurnagar", upazila: "183" },
+  { code: "1651", bn: "পদ্মপুকুর", en: "Padmapukur", upazila: "183" },
+  { code: "1655", bn: "রমজাননগর", en: "Ramjannagar", upazila: "183" },
+  { code: "1656", bn: "শ্যামনগর", en: "Shyamnagar", upazila: "183" },
+  { code: "5038", bn: "শ্যামনগর পৌরসভা", en: "Shyamnagar Municipality", upazila: "183" },
+  { code: "1661", bn: "ধানদিয়া", en: "Dhandia", upazila: "184" },
+  { code: "1669", bn: "ইসলামকাটি", en: "Islamkati", upazila: "184" },
+  { code: "1664", bn: "জালালপুর", en: "Jalalpur", upazila: "184" },
+  { code: "1667", bn: "খলিলনগর", en: "Khalilnagar", upazila: "184" },
+  { code: "1666", bn: "খলিশখালী", en: "Khalishkhali", upazila: "184" },
+  { code: "1665", bn: "খেশরা", en: "Khesra", upazila: "184" },
+  { code: "1668", bn: "কুমিরা", en: "Kumira", upazila: "184" },
+  { code: "1659", bn: "মাগুরা", en: "Magura", upazila: "184" },
+  { code: "1660", bn: "নগরঘাটা", en: "Nagarghata", upazila: "184" },
+  { code: "1658", bn: "সরুলিয়া", en: "Sarulia", upazila: "184" },
+  { code: "1663", bn: "তালা", en: "Tala", upazila: "184" },
+  { code: "1662", bn: "তেতুলিয়া", en: "Tentulia", upazila: "184" },
+  { code: "1677", bn: "ভাড়াশিমলা", en: "Bharasimla", upazila: "185" },
+  { code: "1676", bn: "বিষ্ণুপুর", en: "Bishnupur", upazila: "185" },
+  { code: "1671", bn: "চাম্পাফুল", en: "Champaphul", upazila: "185" },
+  { code: "1673", bn: "দক্ষিণ শ্রীপুর", en: "Dakshin Sreepur", upazila: "185" },
+  { code: "1674", bn: "ধলবাড়িয়া", en: "Dhalbaria", upazila: "185" },
+  { code: "1681", bn: "কৃষ্ণনগর", en: "Krishnanagar", upazila: "185" },
+  { code: "1670", bn: "কুশুলিয়া", en: "Kushlia", upazila: "185" },
+  { code: "1678", bn: "মথুরেশপুর", en: "Mathureshpur", upazila: "185" },
+  { code: "1680", bn: "মৌতলা", en: "Mautala", upazila: "185" },
+  { code: "1675", bn: "নলতা", en: "Nalta", upazila: "185" },
+  { code: "1679", bn: "রতনপুর", en: "Ratanpur", upazila: "185" },
+  { code: "1672", bn: "তারালী", en: "Tarali", upazila: "185" },
+  { code: "1684", bn: "বাগোয়ান", en: "Bagowan", upazila: "186" },
+  { code: "1682", bn: "দারিয়াপুর", en: "Dariapur", upazila: "186" },
+  { code: "1685", bn: "মহাজনপুর", en: "Mohajanpur", upazila: "186" },
+  { code: "1683", bn: "মোনাখালী", en: "Monakhali", upazila: "186" },
+  { code: "1689", bn: "আমদহ", en: "Amdah", upazila: "187" },
+  { code: "1686", bn: "আমঝুপি", en: "Amjhupi", upazila: "187" },
+  { code: "1690", bn: "বুড়িপোতা", en: "Buripota", upazila: "187" },
+  { code: "1688", bn: "কতুবপুর", en: "Kutubpur", upazila: "187" },
+  { code: "5032", bn: "মেহেরপুর পৌরসভা", en: "Meherpur Municipality", upazila: "187" },
+  { code: "1687", bn: "পিরোজপুর", en: "Pirojpur", upazila: "187" },
+  { code: "1693", bn: "বামন্দী", en: "Bamondi", upazila: "188" },
+  { code: "1697", bn: "ধানখোলা", en: "Dhankolla", upazila: "188" },
+  { code: "4788", bn: "গাংনী পৌরসভা", en: "Gangni Municipality", upazila: "188" },
+  { code: "1699", bn: "কাথুলী", en: "Kathuli", upazila: "188" },
+  { code: "1692", bn: "কাজিপুর", en: "Kazipur", upazila: "188" },
+  { code: "1694", bn: "মটমুড়া", en: "Motmura", upazila: "188" },
+  { code: "1698", bn: "রায়পুর", en: "Raipur", upazila: "188" },
+  { code: "1696", bn: "সাহারবাটী", en: "Shaharbati", upazila: "188" },
+  { code: "1695", bn: "ষোলটাকা", en: "Sholotaka", upazila: "188" },
+  { code: "1691", bn: "তেঁতুলবাড়ীয়া", en: "Tentulbaria", upazila: "188" },
+  { code: "1710", bn: "আউড়িয়া", en: "Auria", upazila: "189" },
+  { code: "1704", bn: "বাশগ্রাম", en: "Bashgram", upazila: "189" },
+  { code: "1709", bn: "ভদ্রবিলা", en: "Bhadrabila", upazila: "189" },
+  { code: "1707", bn: "বিছালী", en: "Bisali", upazila: "189" },
+  { code: "1708", bn: "চন্ডিবরপুর", en: "Chandiborpur", upazila: "189" },
+  { code: "1705", bn: "হবখালী", en: "Habokhali", upazila: "189" },
+  { code: "1702", bn: "কলোড়া", en: "Kalora", upazila: "189" },
+  { code: "1706", bn: "মাইজপাড়া", en: "Maijpara", upazila: "189" },
+  { code: "1712", bn: "মুলিয়া", en: "Mulia", upazila: "189" },
+  { code: "4783", bn: "নড়াইল পৌরসভা", en: "Narail Municipality", upazila: "189" },
+  { code: "1703", bn: "শাহাবাদ", en: "Shahabad", upazila: "189" },
+  { code: "1700", bn: "সেখহাটী", en: "Sheikhati", upazila: "189" },
+  { code: "1711", bn: "সিঙ্গাশোলপুর", en: "Singasholpur", upazila: "189" },
+  { code: "1701", bn: "তুলারামপুর", en: "Tularampur", upazila: "189" },
+  { code: "1723", bn: "দিঘলিয়া", en: "Digholia", upazila: "190" },
+  { code: "1724", bn: "ইতনা", en: "Itna", upazila: "190" },
+  { code: "1721", bn: "জয়পুর", en: "Joypur", upazila: "190" },
+  { code: "1714", bn: "কাশিপুর", en: "Kashipur", upazila: "190" },
+  { code: "1722", bn: "কোটাকোল", en: "Kotakol", upazila: "190" },
+  { code: "1717", bn: "লাহুড়িয়া", en: "Lahuria", upazila: "190" },
+  { code: "1720", bn: "লক্ষীপাশা", en: "Lakshmipasha", upazila: "190" },
+  { code: "4784", bn: "লোহাগড়া পৌরসভা", en: "Lohagarh Municipality", upazila: "190" },
+  { code: "1713", bn: "লোহাগড়া", en: "Lohagora", upazila: "190" },
+  { code: "1718", bn: "মল্লিকপুর", en: "Mallikpur", upazila: "190" },
+  { code: "1715", bn: "নলদী", en: "Naldi", upazila: "190" },
+  { code: "1716", bn: "নোয়াগ্রাম", en: "Noagram", upazila: "190" },
+  { code: "1719", bn: "শালনগর", en: "Salnagar", upazila: "190" },
+  { code: "1727", bn: "বাবরা-হাচলা", en: "Babrahasla", upazila: "191" },
+  { code: "1729", bn: "বাঐসোনা", en: "Baioshona", upazila: "191" },
+  { code: "1737", bn: "বড়নাল-ইলিয়াছাবাদ", en: "Boronaleliasabad", upazila: "191" },
+  { code: "1730", bn: "চাচুড়ী", en: "Chacuri", upazila: "191" },
+  { code: "1731", bn: "হামিদপুর", en: "Hamidpur", upazila: "191" },
+  { code: "1725", bn: "জয়নগর", en: "Jaynagor", upazila: "191" },
+  { code: "1735", bn: "কলাবাড়ীয়া", en: "Kalabaria", upazila: "191" },
+  { code: "5031", bn: "কালিয়া পৌরসভা", en: "Kalia Municipality", upazila: "191" },
+  { code: "1733", bn: "খাসিয়াল", en: "Khashial", upazila: "191" },
+  { code: "1736", bn: "মাউলী", en: "Mauli", upazila: "191" },
+  { code: "1726", bn: "পহরডাঙ্গা", en: "Pahordanga", upazila: "191" },
+  { code: "1738", bn: "পাঁচগ্রাম", en: "Panchgram", upazila: "191" },
+  { code: "1732", bn: "পেড়লী", en: "Peroli", upazila: "191" },
+  { code: "1734", bn: "পুরুলিয়া", en: "Purulia", upazila: "191" },
+  { code: "1728", bn: "সালামাবাদ", en: "Salamabad", upazila: "191" },
+  { code: "1739", bn: "আলুকদিয়া", en: "Alukdia", upazila: "192" },
+  { code: "1743", bn: "বেগমপুর", en: "Begumpur", upazila: "192" },
+  { code: "5028", bn: "চুয়াডাঙ্গা পৌরসভা", en: "Chuadanga Municipality", upazila: "192" },
+  { code: "1744", bn: "কুতুবপুর", en: "Kutubpur", upazila: "192" },
+  { code: "1740", bn: "মোমিনপুর", en: "Mominpur", upazila: "192" },
+  { code: "1745", bn: "পদ্মবিলা", en: "Padmabila", upazila: "192" },
+  { code: "1742", bn: "শংকরচন্দ্র", en: "Shankarchandra", upazila: "192" },
+  { code: "1741", bn: "তিতুদাহ", en: "Titudah", upazila: "192" },
+  { code: "1760", bn: "আইলহাঁস", en: "Ailhash", upazila: "193" },
+  { code: "5027", bn: "আলমডাঙ্গা পৌরসভা", en: "Alamdanga Municipality", upazila: "193" },
+  { code: "1747", bn: "বাড়াদী", en: "Baradi", upazila: "193" },
+  { code: "1751", bn: "বেলগাছি", en: "Belgachi", upazila: "193" },
+  { code: "1746", bn: "ভাংবাড়ীয়া", en: "Bhangbaria", upazila: "193" },
+  { code: "1756", bn: "চিৎলা", en: "Chitla", upazila: "193" },
+  { code: "1752", bn: "ডাউকী", en: "Dauki", upazila: "193" },
+  { code: "1748", bn: "গাংনী", en: "Gangni", upazila: "193" },
+  { code: "1759", bn: "হারদী", en: "Hardi", upazila: "193" },
+  { code: "1753", bn: "জামজামি", en: "Jamjami", upazila: "193" },
+  { code: "1750", bn: "জেহালা", en: "Jehala", upazila: "193" },
+  { code: "1757", bn: "কালিদাসপুর", en: "Kalidashpur", upazila: "193" },
+  { code: "1755", bn: "খাসকররা", en: "Kashkorara", upazila: "193" },
+  { code: "1749", bn: "খাদিমপুর", en: "Khadimpur", upazila: "193" },
+  { code: "1758", bn: "কুমারী", en: "Kumari", upazila: "193" },
+  { code: "1754", bn: "নাগদাহ", en: "Nagdah", upazila: "193" },
+  { code: "1761", bn: "দামুড়হুদা", en: "Damurhuda", upazila: "194" },
+  { code: "4953", bn: "দর্শনা পৌরসভা", en: "Darshana Municipality", upazila: "194" },
+  { code: "1764", bn: "হাওলী", en: "Hawli", upazila: "194" },
+  { code: "1767", bn: "জুড়ানপুর", en: "Juranpur", upazila: "194" },
+  { code: "1762", bn: "কার্পাসডাঙ্গা", en: "Karpashdanga", upazila: "194" },
+  { code: "1765", bn: "কুড়ালগাছী", en: "Kurulgachhi", upazila: "194" },
+  { code: "1763", bn: "নতিপোতা", en: "Natipota", upazila: "194" },
+  { code: "1766", bn: "পারকৃষ্ণপুর মদনা", en: "Perkrishnopur Madna", upazila: "194" },
+  { code: "1769", bn: "আন্দুলবাড়ীয়া", en: "Andulbaria", upazila: "195" },
+  { code: "1770", bn: "বাঁকা", en: "Banka", upazila: "195" },
+  { code: "1773", bn: "হাসাদাহ", en: "Hasadah", upazila: "195" },
+  { code: "4781", bn: "জীবননগর পৌরসভা", en: "Jivannagar Municipality", upazila: "195" },
+  { code: "1772", bn: "রায়পুর", en: "Raypur", upazila: "195" },
+  { code: "1771", bn: "সীমান্ত", en: "Shimanto", upazila: "195" },
+  { code: "1768", bn: "উথলী", en: "Uthali", upazila: "195" },
+  { code: "1784", bn: "আব্দালপুর", en: "Abdulpur", upazila: "196" },
+  { code: "1780", bn: "আইলচারা", en: "Ailchara", upazila: "196" },
+  { code: "1778", bn: "আলামপুর", en: "Alampur", upazila: "196" },
+  { code: "1775", bn: "বারখাদা", en: "Barkhada", upazila: "196" },
+  { code: "1777", bn: "বটতৈল", en: "Bottail", upazila: "196" },
+  { code: "1787", bn: "গোস্বামী দুর্গাপুর", en: "Goswami Durgapur", upazila: "196" },
+  { code: "1785", bn: "হরিনারায়নপুর", en: "Harinarayanpur", upazila: "196" },
+  { code: "1774", bn: "হাটশ হরিপুর", en: "Hatash Haripur", upazila: "196" },
+  { code: "1782", bn: "ঝাউদিয়া", en: "Jhaudia", upazila: "196" },
+  { code: "5023", bn: "কুষ্টিয়া পৌরসভা", en: "Kushtia Municipality", upazila: "196" },
+  { code: "1776", bn: "মজমপুর", en: "Mazampur", upazila: "196" },
+  { code: "1786", bn: "মনোহরদিয়া", en: "Monohardia", upazila: "196" },
+  { code: "1781", bn: "পাটিকাবাড়ী", en: "Patikabari", upazila: "196" },
+  { code: "1783", bn: "উজানগ্রাম", en: "Ujangram", upazila: "196" },
+  { code: "1779", bn: "জিয়ারাখী", en: "Ziaraakhi", upazila: "196" },
+  { code: "1794", bn: "বাগুলাট", en: "Bagulat", upazila: "197" },
+  { code: "1796", bn: "চাঁদপুর", en: "Chadpur", upazila: "197" },
+  { code: "1793", bn: "চাপড়া", en: "Chapra", upazila: "197" },
+  { code: "1798", bn: "চরসাদীপুর", en: "Charsadipur", upazila: "197" },
+  { code: "1795", bn: "যদুবয়রা", en: "Jaduboyra", upazila: "197" },
+  { code: "1789", bn: "জগন্নাথপুর", en: "Jagonnathpur", upazila: "197" },
+  { code: "1788", bn: "কয়া", en: "Kaya", upazila: "197" },
+  { code: "4875", bn: "কুমারখালী পৌরসভা", en: "Kumarkhali Municipality", upazila: "197" },
+  { code: "1792", bn: "নন্দলালপুর", en: "Nandolalpur", upazila: "197" },
+  { code: "1797", bn: "পান্টি", en: "Panti", upazila: "197" },
+  { code: "1790", bn: "সদকী", en: "Sadki", upazila: "197" },
+  { code: "1791", bn: "শিলাইদহ", en: "Shelaidah", upazila: "197" },
+  { code: "1804", bn: "আমবাড়ীয়া", en: "Ambaria", upazila: "198" },
+  { code: "1805", bn: "বেতবাড়ীয়া", en: "Bethbaria", upazila: "198" },
+  { code: "1807", bn: "গোপগ্রাম", en: "Gopgram", upazila: "198" },
+  { code: "1801", bn: "জানিপুর", en: "Janipur", upazila: "198" },
+  { code: "1803", bn: "জয়ন্তীহাজরা", en: "Joyntihazra", upazila: "198" },
+  { code: "1799", bn: "খোকসা", en: "Khoksa", upazila: "198" },
+  { code: "5025", bn: "খোকসা পৌরসভা", en: "Khoksa Municipality", upazila: "198" },
+  { code: "1800", bn: "ওসমানপুর", en: "Osmanpur", upazila: "198" },
+  { code: "1802", bn: "শিমুলিয়া", en: "Shimulia", upazila: "198" },
+  { code: "1806", bn: "শোমসপুর", en: "Shomospur", upazila: "198" },
+  { code: "1818", bn: "আমবাড়ীয়া", en: "Ambaria", upazila: "199" },
+  { code: "1813", bn: "আমলা", en: "Amla", upazila: "199" },
+  { code: "1809", bn: "বহলবাড়ীয়া", en: "Bahalbaria", upazila: "199" },
+  { code: "1811", bn: "বারুইপাড়া", en: "Baruipara", upazila: "199" },
+  { code: "1815", bn: "ছাতিয়ান", en: "Chhatian", upazila: "199" },
+  { code: "1808", bn: "চিথলিয়া", en: "Chithalia", upazila: "199" },
+  { code: "1819", bn: "ধূবইল", en: "Dhubail", upazila: "199" },
+  { code: "1812", bn: "ফুলবাড়ীয়া", en: "Fulbaria", upazila: "199" },
+  { code: "1817", bn: "কুর্শা", en: "Kursha", upazila: "199" },
+  { code: "1820", bn: "মালিহাদ", en: "Malihad", upazila: "199" },
+  { code: "5024", bn: "মিরপুর পৌরসভা", en: "Mirpur Municipality", upazila: "199" },
+  { code: "1816", bn: "পোড়াদহ", en: "Poradaha", upazila: "199" },
+  { code: "1814", bn: "সদরপুর", en: "Sadarpur", upazila: "199" },
+  { code: "1810", bn: "তালবাড়ীয়া", en: "Talbaria", upazila: "199" },
+  { code: "1822", bn: "ড়ীয়া", en: "Adabaria", upazila: "200" },
+  { code: "1826", bn: "আড়িয়া", en: "Aria", upazila: "200" },
+  { code: "1824", bn: "বোয়ালি", en: "Boalia", upazila: "200" },
+  { code: "1828", bn: "চিলমারী", en: "Chilmary", upazila: "200" },
+  { code: "1821", bn: "দৌলতপুর", en: "Daulatpur", upazila: "200" },
+  { code: "1823", bn: "হোগলবাড়ীয়া", en: "Hogolbaria", upazila: "200" },
+  { code: "1827", bn: "খলিশাকুন্ডি", en: "Khalishakundi", upazila: "200" },
+  { code: "1832", bn: "মরিচা", en: "Moricha", upazila: "200" },
+  { code: "1829", bn: "মথুরাপুর", en: "Mothurapur", upazila: "200" },
+  { code: "1825", bn: "ফিলিপনগর", en: "Philipnagor", upazila: "200" },
+  { code: "1831", bn: "পিয়ারপুর", en: "Piarpur", upazila: "200" },
+  { code: "1830", bn: "প্রাগপুর", en: "Pragpur", upazila: "200" },
+  { code: "1834", bn: "রামকৃষ্ণপুর", en: "Ramkrishnopur", upazila: "200" },
+  { code: "1833", bn: "রিফাইতপুর", en: "Refaitpur", upazila: "200" },
+  { code: "1840", bn: "বাহাদুরপুর", en: "Bahadurpur", upazila: "201" },
+  { code: "1836", bn: "বাহিরচর", en: "Bahirchar", upazila: "201" },
+  { code: "4951", bn: "ভেড়ামারা পৌরসভা", en: "Bheramara Municipality", upazila: "201" },
+  { code: "1839", bn: "চাঁদগ্রাম", en: "Chandgram", upazila: "201" },
+  { code: "1835", bn: "ধরমপুর", en: "Dharampur", upazila: "201" },
+  { code: "1838", bn: "জুনিয়াদহ", en: "Juniadah", upazila: "201" },
+  { code: "1837", bn: "মোকারিমপুর", en: "Mukarimpur", upazila: "201" },
+  { code: "1843", bn: "আড়পাড়া", en: "Arpara", upazila: "202" },
+  { code: "1846", bn: "বুনাগাতী", en: "Bunagati", upazila: "202" },
+  { code: "1841", bn: "ধনেশ্বরগাতী", en: "Dhaneshwargati", upazila: "202" },
+  { code: "1847", bn: "গঙ্গারামপুর", en: "Gongarampur", upazila: "202" },
+  { code: "1845", bn: "শালিখা", en: "Shalikha", upazila: "202" },
+  { code: "1844", bn: "শতখালী", en: "Shatakhali", upazila: "202" },
+  { code: "1842", bn: "তালখড়ি", en: "Talkhari", upazila: "202" },
+  { code: "1855", bn: "আমলসার", en: "Amalshar", upazila: "203" },
+  { code: "1850", bn: "দ্বারিয়াপুর", en: "Dariapur", upazila: "203" },
+  { code: "1848", bn: "গয়েশপুর", en: "Goyespur", upazila: "203" },
+  { code: "1851", bn: "কাদিরপাড়া", en: "Kadirpara", upazila: "203" },
+  { code: "1854", bn: "নাকোল", en: "Nakol", upazila: "203" },
+  { code: "1852", bn: "সব্দালপুর", en: "Shobdalpur", upazila: "203" },
+  { code: "1849", bn: "শ্রীকোল", en: "Sreekol", upazila: "203" },
+  { code: "1853", bn: "শ্রীপুর", en: "Sreepur", upazila: "203" },
+  { code: "1857", bn: "আঠারখাদা", en: "Atharokhada", upazila: "204" },
+  { code: "1865", bn: "বেরইল পলিতা", en: "Baroilpolita", upazila: "204" },
+  { code: "1859", bn: "বগিয়া", en: "Bogia", upazila: "204" },
+  { code: "1863", bn: "চাউলিয়া", en: "Chawlia", upazila: "204" },
+  { code: "1867", bn: "গোপালগ্রাম", en: "Gopalgram", upazila: "204" },
+  { code: "1856", bn: "হাজীপুর", en: "Hazipur", upazila: "204" },
+  { code: "1860", bn: "হাজরাপুর", en: "Hazrapur", upazila: "204" },
+  { code: "1862", bn: "জগদল", en: "Jagdal", upazila: "204" },
+  { code: "1858", bn: "কছুন্দী", en: "Kosundi", upazila: "204" },
+  { code: "1866", bn: "কুচিয়ামো", en: "Kuchiamora", upazila: "204" },
+  { code: "4787", bn: "মাগুরা পৌরসভা", en: "Magura Municipality", upazila: "204" },
+  { code: "1868", bn: "মঘী", en: "Moghi", upazila: "204" },
+  { code: "1861", bn: "রাঘবদাইড়", en: "Raghobdair", upazila: "204" },
+  { code: "1864", bn: "শত্রুজিৎপুর", en: "Satrijitpur", upazila: "204" },
+  { code: "1872", bn: "বাবুখালী", en: "Babukhali", upazila: "205" },
+  { code: "1873", bn: "বালিদিয়া", en: "Balidia", upazila: "205" },
+  { code: "1874", bn: "বিনোদপুর", en: "Binodpur", upazila: "205" },
+  { code: "1869", bn: "দীঘা", en: "Digha", upazila: "205" },
+  { code: "1875", bn: "মহম্মদপুর", en: "Mohammadpur", upazila: "205" },
+  { code: "1870", bn: "নহাটা", en: "Nohata", upazila: "205" },
+  { code: "1871", bn: "পলাশবাড়ীয়া", en: "Palashbaria", upazila: "205" },
+  { code: "1876", bn: "রাজাপুর", en: "Rajapur", upazila: "205" },
+  { code: "1885", bn: "চাঁদখালী", en: "Chandkhali", upazila: "206" },
+  { code: "1881", bn: "দেলুটি", en: "Deluti", upazila: "206" },
+  { code: "1883", bn: "গদাইপুর", en: "Godaipur", upazila: "206" },
+  { code: "1878", bn: "গড়ইখালী", en: "Goroikhali", upazila: "206" },
+  { code: "1877", bn: "হরিঢালী", en: "Horidhali", upazila: "206" },
+  { code: "1879", bn: "কপিলমুনি", en: "Kopilmuni", upazila: "206" },
+  { code: "1882", bn: "লস্কর", en: "Loskor", upazila: "206" },
+  { code: "1880", bn: "লতা", en: "Lota", upazila: "206" },
+  { code: "4952", bn: "পাইকগাছা পৌরসভা", en: "Paikgachha Municipality", upazila: "206" },
+  { code: "1884", bn: "রাড়ুলী", en: "Raruli", upazila: "206" },
+  { code: "1886", bn: "সোলাদানা", en: "Soladana", upazila: "206" },
+  { code: "1889", bn: "আটরা গিলাতলা", en: "Atra Gilatola", upazila: "207" },
+  { code: "1888", bn: "দামোদর", en: "Damodar", upazila: "207" },
+  { code: "1887", bn: "ফুলতলা", en: "Fultola", upazila: "207" },
+  { code: "1890", bn: "জামিরা", en: "Jamira", upazila: "207" },
+  { code: "1894", bn: "আড়ংঘাটা", en: "Aronghata", upazila: "208" },
+  { code: "1893", bn: "বারাকপুর", en: "Barakpur", upazila: "208" },
+  { code: "1896", bn: "দিঘলিয়া", en: "Digholia", upazila: "208" },
+  { code: "1892", bn: "গাজীরহাট", en: "Gajirhat", upazila: "208" },
+  { code: "1895", bn: "যোগীপোল", en: "Jogipol", upazila: "208" },
+  { code: "1891", bn: "সেনহাটি", en: "Senhati", upazila: "208" },
+  { code: "1897", bn: "আইচগাতী", en: "Aichgati", upazila: "209" },
+  { code: "1901", bn: "ঘাটভোগ", en: "Ghatvog", upazila: "209" },
+  { code: "1899", bn: "নৈহাটি", en: "Noihati", upazila: "209" },
+  { code: "1898", bn: "শ্রীফলতলা", en: "Srifoltola", upazila: "209" },
+  { code: "1900", bn: "টিএসবি", en: "Tsb", upazila: "209" },
+  { code: "1907", bn: "আজগড়া", en: "Ajgora", upazila: "210" },
+  { code: "1904", bn: "বারাসাত", en: "Barasat", upazila: "210" },
+  { code: "1903", bn: "ছাগলাদহ", en: "Chagladoho", upazila: "210" },
+  { code: "1906", bn: "মধুপুর", en: "Modhupur", upazila: "210" },
+  { code: "1905", bn: "সাচিয়াদাহ", en: "Sochiadaho", upazila: "210" },
+  { code: "1902", bn: "তেরখাদা", en: "Terokhada", upazila: "210" },
+  { code: "1916", bn: "আটলিয়া", en: "Atlia", upazila: "211" },
+  { code: "1917", bn: "ধামালিয়া", en: "Dhamalia", upazila: "211" },
+  { code: "1908", bn: "ডুমুরিয়া", en: "Dumuria", upazila: "211" },
+  { code: "1913", bn: "গুটুদিয়া", en: "Ghutudia", upazila: "211" },
+  { code: "1915", bn: "খর্ণিয়া", en: "Khornia", upazila: "211" },
+  { code: "1909", bn: "মাগুরাঘোনা", en: "Magurghona", upazila: "211" },
+  { code: "1921", bn: "মাগুরখালি", en: "Magurkhali", upazila: "211" },
+  { code: "1918", bn: "রঘুনাথপুর", en: "Raghunathpur", upazila: "211" },
+  { code: "1919", bn: "রংপুর", en: "Rongpur", upazila: "211" },
+  { code: "1912", bn: "রুদাঘরা", en: "Rudaghora", upazila: "211" },
+  { code: "1911", bn: "সাহস", en: "Sahos", upazila: "211" },
+  { code: "1920", bn: "শরাফপুর", en: "Shorafpur", upazila: "211" },
+  { code: "1914", bn: "শোভনা", en: "Shovna", upazila: "211" },
+  { code: "1910", bn: "ভান্ডারপাড়া", en: "Vandarpara", upazila: "211" },
+  { code: "1923", bn: "আমিরপুর", en: "Amirpur", upazila: "212" },
+  { code: "1927", bn: "বালিয়াডাঙ্গা", en: "Baliadanga", upazila: "212" },
+  { code: "1922", bn: "বটিয়াঘাটা", en: "Botiaghata", upazila: "212" },
+  { code: "1924", bn: "গঙ্গারামপুর", en: "Gongarampur", upazila: "212" },
+  { code: "1928", bn: "জলমা", en: "Jolma", upazila: "212" },
+  { code: "1925", bn: "সুরখালী", en: "Surkhali", upazila: "212" },
+  { code: "1926", bn: "ভান্ডারকোট", en: "Vandarkot", upazila: "212" },
+  { code: "1930", bn: "বাজুয়া", en: "Bajua", upazila: "213" },
+  { code: "1936", bn: "বানিশান্তা", en: "Banishanta", upazila: "213" },
+  { code: "5026", bn: "চালনা পৌরসভা", en: "Chalna Municipality", upazila: "213" },
+  { code: "1929", bn: "দাকোপ", en: "Dakop", upazila: "213" },
+  { code: "1931", bn: "কামারখোলা", en: "Kamarkhola", upazila: "213" },
+  { code: "1937", bn: "কৈলাশগঞ্জ", en: "Koilashgonj", upazila: "213" },
+  { code: "1934", bn: "লাউডোব", en: "Laudoba", upazila: "213" },
+  { code: "1935", bn: "পানখালী", en: "Pankhali", upazila: "213" },
+  { code: "1933", bn: "সুতারখালী", en: "Sutarkhali", upazila: "213" },
+  { code: "1932", bn: "তিলডাঙ্গা", en: "Tildanga", upazila: "213" },
+  { code: "1943", bn: "আমাদি", en: "Amadi", upazila: "214" },
+  { code: "1944", bn: "বাগালী", en: "Bagali", upazila: "214" },
+  { code: "1938", bn: "কয়রা", en: "Koyra", upazila: "214" },
+  { code: "1939", bn: "মহারাজপুর", en: "Moharajpur", upazila: "214" },
+  { code: "1940", bn: "মহেশ্বরীপুর", en: "Moheswaripur", upazila: "214" },
+  { code: "1941", bn: "উত্তর বেদকাশী", en: "North Bedkashi", upazila: "214" },
+  { code: "1942", bn: "দক্ষিণ বেদকাশী", en: "South Bedkashi", upazila: "214" },
+  { code: "1948", bn: "বাহিরদিয়া-মানসা", en: "Bahirdia-Mansa", upazila: "215" },
+  { code: "1945", bn: "বেতাগা", en: "Betaga", upazila: "215" },
+  { code: "1947", bn: "ফকিরহাট", en: "Fakirhat", upazila: "215" },
+  { code: "1946", bn: "লখপুর", en: "Lakhpur", upazila: "215" },
+  { code: "1951", bn: "মূলঘর", en: "Mulghar", upazila: "215" },
+  { code: "1950", bn: "নলধা-মৌভোগ", en: "Naldha-Mouvhog", upazila: "215" },
+  { code: "1949", bn: "পিলজংগ", en: "Piljanga", upazila: "215" },
+  { code: "1952", bn: "শুভদিয়া", en: "Suvhadia", upazila: "215" },
+  { code: "4785", bn: "বাগেরহাট পৌরসভা", en: "Bagerhat Municipality", upazila: "216" },
+  { code: "1954", bn: "বেমরতা", en: "Bamorta", upazila: "216" },
+  { code: "1957", bn: "বারুইপাড়া", en: "Baruipara", upazila: "216" },
+  { code: "1956", bn: "বিষ্ণুপুর", en: "Bishnapur", upazila: "216" },
+  { code: "1962", bn: "ডেমা", en: "Dema", upazila: "216" },
+  { code: "1955", bn: "গোটাপাড়া", en: "Gotapara", upazila: "216" },
+  { code: "1958", bn: "যাত্রাপুর", en: "Jatharapur", upazila: "216" },
+  { code: "1953", bn: "কাড়াপাড়া", en: "Karapara", upazila: "216" },
+  { code: "1960", bn: "খানপুর", en: "Khanpur", upazila: "216" },
+  { code: "1961", bn: "রাখালগাছি", en: "Rakhalgachi", upazila: "216" },
+  { code: "1959", bn: "ষাটগুম্বজ", en: "Shaitgomboj", upazila: "216" },
+  { code: "1969", bn: "আটজুড়ী", en: "Atjuri", upazila: "217" },
+  { code: "1964", bn: "চুনখোলা", en: "Chunkhola", upazila: "217" },
+  { code: "1965", bn: "গাংনী", en: "Gangni", upazila: "217" },
+  { code: "1967", bn: "গাওলা", en: "Gaola", upazila: "217" },
+  { code: "1968", bn: "কোদালিয়া", en: "Kodalia", upazila: "217" },
+  { code: "1966", bn: "কুলিয়া", en: "Kulia", upazila: "217" },
+  { code: "1963", bn: "উদয়পুর", en: "Udoypur", upazila: "217" },
+  { code: "1970", bn: "ধানসাগর", en: "Dhanshagor", upazila: "218" },
+  { code: "1971", bn: "খোন্তাকাটা", en: "Khontakata", upazila: "218" },
+  { code: "1972", bn: "রায়েন্দা", en: "Rayenda", upazila: "218" },
+  { code: "1973", bn: "সাউথখালী", en: "Southkhali", upazila: "218" },
+  { code: "1976", bn: "বাইনতলা", en: "Baintala", upazila: "219" },
+  { code: "1983", bn: "বাঁশতলী", en: "Bastoli", upazila: "219" },
+  { code: "1974", bn: "গৌরম্ভা", en: "Gouramva", upazila: "219" },
+  { code: "1979", bn: "হুড়কা", en: "Hurka", upazila: "219" },
+  { code: "1982", bn: "মল্লিকেরবেড়", en: "Mollikerbar", upazila: "219" },
+  { code: "1980", bn: "পেড়িখালী", en: "Perikhali", upazila: "219" },
+  { code: "1978", bn: "রাজনগর", en: "Rajnagar", upazila: "219" },
+  { code: "1977", bn: "রামপাল", en: "Rampal", upazila: "219" },
+  { code: "1975", bn: "উজলকুড়", en: "Uzzalkur", upazila: "219" },
+  { code: "1981", bn: "ভোজপাতিয়া", en: "Vospatia", upazila: "219" },
+  { code: "1995", bn: "বহরবুনিয়া", en: "Baharbunia", upazila: "220" },
+  { code: "1993", bn: "বলইবুনিয়া", en: "Balaibunia", upazila: "220" },
+  { code: "1992", bn: "বনগ্রাম", en: "Banagram", upazila: "220" },
+  { code: "1999", bn: "বারইখালী", en: "Baraikhali", upazila: "220" },
+  { code: "1989", bn: "চিংড়াখালী", en: "Chingrakhali", upazila: "220" },
+  { code: "1987", bn: "দৈবজ্ঞহাটি", en: "Daibagnyahati", upazila: "220" },
+  { code: "1994", bn: "হোগলাবুনিয়া", en: "Hoglabunia", upazila: "220" },
+  { code: "1991", bn: "হোগলাপাশা", en: "Hoglapasha", upazila: "220" },
+  { code: "1990", bn: "জিউধরা", en: "Jiudhara", upazila: "220" },
+  { code: "1997", bn: "খাউলিয়া", en: "Khaulia", upazila: "220" },
+  { code: "4786", bn: "মোড়েলগঞ্জ পৌরসভা", en: "Morelganj Municipality", upazila: "220" },
+  { code: "1996", bn: "মোড়েলগঞ্জ", en: "Morrelganj", upazila: "220" },
+  { code: "1998", bn: "নিশানবাড়িয়া", en: "Nishanbaria", upazila: "220" },
+  { code: "1985", bn: "পঞ্চকরণ", en: "Panchakaran", upazila: "220" },
+  { code: "1986", bn: "পুটিখালী", en: "Putikhali", upazila: "220" },
+  { code: "1988", bn: "রামচন্দ্রপুর", en: "Ramchandrapur", upazila: "220" },
+  { code: "1984", bn: "তেলিগাতী", en: "Teligati", upazila: "220" },
+  { code: "2006", bn: "বাধাল", en: "Badhal", upazila: "221" },
+  { code: "2001", bn: "ধোপাখালী", en: "Dhopakhali", upazila: "221" },
+  { code: "2000", bn: "গজালিয়া", en: "Gojalia", upazila: "221" },
+  { code: "2004", bn: "গোপালপুর", en: "Gopalpur", upazila: "221" },
+  { code: "2003", bn: "কচুয়া", en: "Kachua", upazila: "221" },
+  { code: "2002", bn: "মঘিয়া", en: "Moghia", upazila: "221" },
+  { code: "2005", bn: "রাড়ীপাড়া", en: "Raripara", upazila: "221" },
+  { code: "2007", bn: "বুড়িরডাঙ্গা", en: "Burrirdangga", upazila: "222" },
+  { code: "2010", bn: "চাঁদপাই", en: "Chadpai", upazila: "222" },
+  { code: "2011", bn: "চিলা", en: "Chila", upazila: "222" },
+  { code: "2008", bn: "মিঠাখালী", en: "Mithakhali", upazila: "222" },
+  { code: "4878", bn: "মোংলা পোর্ট পৌরসভা", en: "Mongla Port Municipality", upazila: "222" },
+  { code: "2009", bn: "সোনাইলতলা", en: "Sonailtala", upazila: "222" },
+  { code: "2012", bn: "সুন্দরবন", en: "Sundarban", upazila: "222" },
+  { code: "2013", bn: "বড়বাড়িয়া", en: "Barobaria", upazila: "223" },
+  { code: "2018", bn: "চরবানিয়ারী", en: "Charbaniri", upazila: "223" },
+  { code: "2017", bn: "চিতলমারী", en: "Chitalmari", upazila: "223" },
+  { code: "2015", bn: "হিজলা", en: "Hizla", upazila: "223" },
+  { code: "2014", bn: "কলাতলা", en: "Kalatala", upazila: "223" },
+  { code: "2019", bn: "সন্তোষপুর", en: "Shantoshpur", upazila: "223" },
+  { code: "2016", bn: "শিবপুর", en: "Shibpur", upazila: "223" },
+  { code: "2031", bn: "দোগাছি", en: "Dogachhi", upazila: "224" },
+  { code: "2032", bn: "ফুরসন্দি", en: "Furshondi", upazila: "224" },
+  { code: "2025", bn: "গান্না", en: "Ganna", upazila: "224" },
+  { code: "2033", bn: "ঘোড়শাল", en: "Ghorshal", upazila: "224" },
+  { code: "2023", bn: "হলিধানী", en: "Halidhani", upazila: "224" },
+  { code: "2029", bn: "হরিশংকরপুর", en: "Harishongkorpur", upazila: "224" },
+  { code: "4954", bn: "ঝিনাইদহ পৌরসভা", en: "Jhenaidah Municipality", upazila: "224" },
+  { code: "2034", bn: "কালীচরণপুর", en: "Kalicharanpur", upazila: "224" },
+  { code: "2024", bn: "কুমড়াবাড়ীয়া", en: "Kumrabaria", upazila: "224" },
+  { code: "2026", bn: "মহারাজপুর", en: "Maharazpur", upazila: "224" },
+  { code: "2021", bn: "মধুহাটী", en: "Modhuhati", upazila: "224" },
+  { code: "2036", bn: "নলডাঙ্গা", en: "Naldanga", upazila: "224" },
+  { code: "2030", bn: "পদ্মাকর", en: "Padmakar", upazila: "224" },
+  { code: "2027", bn: "পাগলাকানাই", en: "Paglakanai", upazila: "224" },
+  { code: "2028", bn: "পোড়াহাটী", en: "Porahati", upazila: "224" },
+  { code: "2020", bn: "সাধুহাটী", en: "Sadhuhati", upazila: "224" },
+  { code: "2022", bn: "সাগান্না", en: "Saganna", upazila: "224" },
+  { code: "2035", bn: "সুরাট", en: "Surat", upazila: "224" },
+  { code: "2046", bn: "আবাইপুর", en: "Abaipur", upazila: "225" },
+  { code: "2045", bn: "বগুড়া", en: "Bogura", upazila: "225" },
+  { code: "2043", bn: "ধলহরাচন্দ্র", en: "Dhaloharachandra", upazila: "225" },
+  { code: "2039", bn: "দিগনগর", en: "Dignagore", upazila: "225" },
+  { code: "2049", bn: "দুধসর", en: "Dudshar", upazila: "225" },
+  { code: "2050", bn: "ফুলহরি", en: "Fulhari", upazila: "225" },
+  { code: "2042", bn: "হাকিমপুর", en: "Hakimpur", upazila: "225" },
+  { code: "2040", bn: "কাঁচেরকোল", en: "Kancherkol", upazila: "225" },
+  { code: "2044", bn: "মনোহরপুর", en: "Manoharpur", upazila: "225" },
+  { code: "2038", bn: "মির্জাপুর", en: "Mirzapur", upazila: "225" },
+  { code: "2047", bn: "নিত্যানন্দপুর", en: "Nityanandapur", upazila: "225" },
+  { code: "2041", bn: "সারুটিয়া", en: "Sarutia", upazila: "225" },
+  { code: "5030", bn: "শৈলকুপা পৌরসভা", en: "Shailkupa Municipality", upazila: "225" },
+  { code: "2037", bn: "ত্রিবেনী", en: "Tribeni", upazila: "225" },
+  { code: "2048", bn: "উমেদপুর", en: "Umedpur", upazila: "225" },
+  { code: "2051", bn: "ভায়না", en: "Bhayna", upazila: "226" },
+  { code: "2058", bn: "চাঁদপুর", en: "Chandpur", upazila: "226" },
+  { code: "2054", bn: "দৌলতপুর", en: "Daulatpur", upazila: "226" },
+  { code: "2056", bn: "ফলসী", en: "Falsi", upazila: "226" },
+  { code: "4877", bn: "হরিণাকুণ্ডু পৌরসভা", en: "Harinakundu Municipality", upazila: "226" },
+  { code: "2052", bn: "জোড়াদহ", en: "Joradah", upazila: "226" },
+  { code: "2055", bn: "কাপাশহাটিয়া", en: "Kapashatia", upazila: "226" },
+  { code: "2057", bn: "রঘুনাথপুর", en: "Raghunathpur", upazila: "226" },
+  { code: "2053", bn: "তাহেরহুদা", en: "Taherhuda", upazila: "226" },
+  { code: "2067", bn: "বারবাজার", en: "Barabazar", upazila: "227" },
+  { code: "2060", bn: "জামাল", en: "Jamal", upazila: "227" },
+  { code: "4876", bn: "কালীগঞ্জ পৌরসভা", en: "Kaliganj Municipality", upazila: "227" },
+  { code: "2068", bn: "কাষ্টভাঙ্গা", en: "Kashtabhanga", upazila: "227" },
+  { code: "2061", bn: "কোলা", en: "Kola", upazila: "227" },
+  { code: "2066", bn: "মালিয়াট", en: "Maliat", upazila: "227" },
+  { code: "2062", bn: "নিয়ামতপুর", en: "Niamatpur", upazila: "227" },
+  { code: "2069", bn: "রাখালগাছি", en: "Rakhalgachhi", upazila: "227" },
+  { code: "2065", bn: "রায়গ্রাম", en: "Raygram", upazila: "227" },
+  { code: "2063", bn: "শিমলা-রোকনপুর", en: "Simla-Rokonpur", upazila: "227" },
+  { code: "2059", bn: "সুন্দরপুর-দূর্গাপুর", en: "Sundarpurdurgapur", upazila: "227" },
+  { code: "2064", bn: "ত্রিলোচনপুর", en: "Trilochanpur", upazila: "227" },
+  { code: "2073", bn: "বলুহর", en: "Baluhar", upazila: "228" },
+  { code: "2071", bn: "দোড়া", en: "Dora", upazila: "228" },
+  { code: "2074", bn: "এলাঙ্গী", en: "Elangi", upazila: "228" },
+  { code: "5029", bn: "কোটচাঁদপুর পৌরসভা", en: "Kotchandpur Municipality", upazila: "228" },
+  { code: "2072", bn: "কুশনা", en: "Kushna", upazila: "228" },
+  { code: "2070", bn: "সাবদালপুর", en: "Sabdalpur", upazila: "228" },
+  { code: "2086", bn: "আজমপুর", en: "Azampur", upazila: "229" },
+  { code: "2082", bn: "বাঁশবাড়ীয়া", en: "Banshbaria", upazila: "229" },
+  { code: "2076", bn: "ফতেপুর", en: "Fatepur", upazila: "229" },
+  { code: "2083", bn: "যাদবপুর", en: "Jadabpur", upazila: "229" },
+  { code: "2081", bn: "কাজীরবেড়", en: "Kazirber", upazila: "229" },
+  { code: "4782", bn: "মহেশপুর পৌরসভা", en: "Maheshpur Municipality", upazila: "229" },
+  { code: "2085", bn: "মান্দারবাড়ীয়া", en: "Manderbaria", upazila: "229" },
+  { code: "2084", bn: "নাটিমা", en: "Natima", upazila: "229" },
+  { code: "2080", bn: "নেপা", en: "Nepa", upazila: "229" },
+  { code: "2077", bn: "পান্থপাড়া", en: "Panthapara", upazila: "229" },
+  { code: "2075", bn: "এস, বি, কে", en: "Sbk", upazila: "229" },
+  { code: "2079", bn: "শ্যামকুড়", en: "Shyamkur", upazila: "229" },
+  { code: "2078", bn: "স্বরুপপুর", en: "Swaruppur", upazila: "229" },
+  { code: "2087", bn: "বাসন্ডা", en: "Basanda", upazila: "230" },
+  { code: "2088", bn: "বিনয়কাঠী", en: "Binoykati", upazila: "230" },
+  { code: "2089", bn: "গাভারামচন্দ্রপুর", en: "Gabharamchandrapur", upazila: "230" },
+  { code: "2096", bn: "গাবখান ধানসিঁড়ি", en: "Gabkhandhansiri", upazila: "230" },
+  { code: "4957", bn: "ঝালকাঠি পৌরসভা", en: "Jhalokati Municipality", upazila: "230" },
+  { code: "2090", bn: "কেওড়া", en: "Keora", upazila: "230" },
+  { code: "2091", bn: "কীর্তিপাশা", en: "Kirtipasha", upazila: "230" },
+  { code: "2092", bn: "নবগ্রাম", en: "Nabagram", upazila: "230" },
+  { code: "2093", bn: "নথুলল্লাবাদ", en: "Nathullabad", upazila: "230" },
+  { code: "2094", bn: "পোনাবালিয়া", en: "Ponabalia", upazila: "230" },
+  { code: "2095", bn: "শেখেরহাট", en: "Sekherhat", upazila: "230" },
+  { code: "2097", bn: "আমুয়া", en: "Amua", upazila: "231" },
+  { code: "2098", bn: "আওরাবুনিয়া", en: "Awrabunia", upazila: "231" },
+  { code: "2099", bn: "চেঁচরীরামপুর", en: "Chenchrirampur", upazila: "231" },
+  { code: "2100", bn: "কাঠালিয়া", en: "Kanthalia", upazila: "231" },
+  { code: "2101", bn: "পাটিখালঘাটা", en: "Patikhalghata", upazila: "231" },
+  { code: "2102", bn: "শৌলজালিয়া", en: "Shaulajalia", upazila: "231" },
+  { code: "2112", bn: "ভৈরবপাশা", en: "Bharabpasha", upazila: "232" },
+  { code: "2111", bn: "দপদপিয়া", en: "Dapdapia", upazila: "232" },
+  { code: "2110", bn: "কুলকাঠী", en: "Kulkathi", upazila: "232" },
+  { code: "2109", bn: "কুশঙ্গল", en: "Kusanghal", upazila: "232" },
+  { code: "2108", bn: "মগর", en: "Magar", upazila: "232" },
+  { code: "2107", bn: "মোল্লারহাট", en: "Mollahat", upazila: "232" },
+  { code: "2106", bn: "নাচনমহল", en: "Nachanmohal", upazila: "232" },
+  { code: "5039", bn: "নলছিটি পৌরসভা", en: "Nalchiti Municipality", upazila: "232" },
+  { code: "2105", bn: "রানাপাশা", en: "Ranapasha", upazila: "232" },
+  { code: "2104", bn: "সিদ্ধকাঠী", en: "Siddhakati", upazila: "232" },
+  { code: "2103", bn: "সুবিদপুর", en: "Subidpur", upazila: "232" },
+  { code: "2117", bn: "বড়ইয়া", en: "Baraia", upazila: "233" },
+  { code: "2116", bn: "গালুয়া", en: "Galua", upazila: "233" },
+  { code: "2115", bn: "মঠবাড়ী", en: "Mathbari", upazila: "233" },
+  { code: "2118", bn: "রাজাপুর", en: "Rajapur", upazila: "233" },
+  { code: "2114", bn: "সাতুরিয়া", en: "Saturia", upazila: "233" },
+  { code: "2113", bn: "শুক্তাগড়", en: "Suktagarh", upazila: "233" },
+  { code: "2119", bn: "আদাবারিয়া", en: "Adabaria", upazila: "234" },
+  { code: "4793", bn: "বাউফল পৌরসভা", en: "Baufal Municipality", upazila: "234" },
+  { code: "2120", bn: "বাউফল", en: "Bauphal", upazila: "234" },
+  { code: "2126", bn: "বগা", en: "Boga", upazila: "234" },
+  { code: "2121", bn: "দাস পাড়া", en: "Daspara", upazila: "234" },
+  { code: "2130", bn: "ধুলিয়া", en: "Dhulia", upazila: "234" },
+  { code: "2132", bn: "কাছিপাড়া", en: "Kachipara", upazila: "234" },
+  { code: "2122", bn: "কালাইয়া", en: "Kalaiya", upazila: "234" },
+  { code: "2131", bn: "কালিশুরী", en: "Kalisuri", upazila: "234" },
+  { code: "2127", bn: "কনকদিয়া", en: "Kanakdia", upazila: "234" },
+  { code: "2129", bn: "কেশবপুর", en: "Keshabpur", upazila: "234" },
+  { code: "2125", bn: "মদনপুরা", en: "Madanpura", upazila: "234" },
+  { code: "2124", bn: "নাজিরপুর", en: "Najirpur", upazila: "234" },
+  { code: "2123", bn: "নওমালা", en: "Nawmala", upazila: "234" },
+  { code: "2128", bn: "সূর্য্যমনি", en: "Shurjamoni", upazila: "234" },
+  { code: "2141", bn: "আউলিয়াপুর", en: "Auliapur", upazila: "235" },
+  { code: "2138", bn: "বদরপুর", en: "Badarpur", upazila: "235" },
+  { code: "2143", bn: "বড় বিঘাই", en: "Borobighai", upazila: "235" },
+  { code: "2142", bn: "ছোট বিঘাই", en: "Chotobighai", upazila: "235" },
+  { code: "2139", bn: "ইটবাড়ীয়া", en: "Itbaria", upazila: "235" },
+  { code: "2136", bn: "জৈনকাঠী", en: "Jainkathi", upazila: "235" },
+  { code: "2137", bn: "কালিকাপুর", en: "Kalikapur", upazila: "235" },
+  { code: "2135", bn: "কমলাপুর", en: "Kamalapur", upazila: "235" },
+  { code: "2133", bn: "লাউকাঠী", en: "Laukathi", upazila: "235" },
+  { code: "2134", bn: "লোহালিয়া", en: "Lohalia", upazila: "235" },
+  { code: "2144", bn: "মাদারবুনিয়া", en: "Madarbunia", upazila: "235" },
+  { code: "2140", bn: "মরিচবুনিয়া", en: "Marichbunia", upazila: "235" },
+  { code: "4792", bn: "পটুয়াখালী পৌরসভা", en: "Patuakhali Municipality", upazila: "235" },
+  { code: "2148", bn: "আংগারিয়া", en: "Angaria", upazila: "236" },
+  { code: "2147", bn: "লেবুখালী", en: "Labukhali", upazila: "236" },
+  { code: "2146", bn: "মুরাদিয়া", en: "Muradia", upazila: "236" },
+  { code: "2145", bn: "পাংগাশিয়া", en: "Pangasia", upazila: "236" },
+  { code: "2149", bn: "শ্রীরামপুর", en: "Sreerampur", upazila: "236" },
+  { code: "2152", bn: "আলীপুর", en: "Alipur", upazila: "237" },
+  { code: "2155", bn: "বহরমপুর", en: "Baharampur", upazila: "237" },
+  { code: "2150", bn: "বাঁশবাড়ীয়া", en: "Bashbaria", upazila: "237" },
+  { code: "2153", bn: "বেতাগী সানকিপুর", en: "Betagi Shankipur", upazila: "237" },
+  { code: "2154", bn: "দশমিনা", en: "Dashmina", upazila: "237" },
+  { code: "2151", bn: "রণগোপালদী", en: "Rangopaldi", upazila: "237" },
+  { code: "2166", bn: "বালিয়াতলী", en: "Baliatali", upazila: "238" },
+  { code: "2156", bn: "চাকামইয়া", en: "Chakamaia", upazila: "238" },
+  { code: "2167", bn: "চম্পাপুর", en: "Champapur", upazila: "238" },
+  { code: "2165", bn: "ডালবুগঞ্জ", en: "Dalbugonj", upazila: "238" },
+  { code: "2159", bn: "ধানখালী", en: "Dhankhali", upazila: "238" },
+  { code: "2162", bn: "ধুলাসার", en: "Dulaser", upazila: "238" },
+  { code: "4880", bn: "কলাপাড়া পৌরসভা", en: "Kalapara Municipality", upazila: "238" },
+  { code: "4958", bn: "কুয়াকাটা পৌরসভা", en: "Kuakata Municipality", upazila: "238" },
+  { code: "2158", bn: "লালুয়া", en: "Lalua", upazila: "238" },
+  { code: "2163", bn: "লতাচাপলী", en: "Latachapli", upazila: "238" },
+  { code: "2164", bn: "মহিপুর", en: "Mahipur", upazila: "238" },
+  { code: "2160", bn: "মিঠাগঞ্জ", en: "Mithagonj", upazila: "238" },
+  { code: "2161", bn: "নীলগঞ্জ", en: "Nilgonj", upazila: "238" },
+  { code: "2157", bn: "টিয়াখালী", en: "Tiakhali", upazila: "238" },
+  { code: "2170", bn: "আমড়াগাছিয়া", en: "Amragachia", upazila: "239" },
+  { code: "2171", bn: "দেউলী সুবিদখালী", en: "Deuli Subidkhali", upazila: "239" },
+  { code: "2172", bn: "কাকড়াবুনিয়া", en: "Kakrabunia", upazila: "239" },
+  { code: "2168", bn: "মাধবখালী", en: "Madhabkhali", upazila: "239" },
+  { code: "2173", bn: "মজিদবাড়িয়া", en: "Majidbaria", upazila: "239" },
+  { code: "2169", bn: "মির্জাগঞ্জ", en: "Mirzaganj", upazila: "239" },
+  { code: "2174", bn: "আমখোলা", en: "Amkhola", upazila: "240" },
+  { code: "2184", bn: "বকুলবাড়ীয়া", en: "Bakulbaria", upazila: "240" },
+  { code: "2183", bn: "চরবিশ্বাস", en: "Charbiswas", upazila: "240" },
+  { code: "2182", bn: "চরকাজল", en: "Charkajol", upazila: "240" },
+  { code: "2180", bn: "চিকনিকান্দী", en: "Chiknikandi", upazila: "240" },
+  { code: "2179", bn: "ডাকুয়া", en: "Dakua", upazila: "240" },
+  { code: "2176", bn: "গলাচিপা", en: "Galachipa", upazila: "240" },
+  { code: "4791", bn: "গলাচিপা পৌরসভা", en: "Galachipa Municipality", upazila: "240" },
+  { code: "2181", bn: "গজালিয়া", en: "Gazalia", upazila: "240" },
+  { code: "2175", bn: "গোলখালী", en: "Golkhali", upazila: "240" },
+  { code: "2185", bn: "কলাগাছিয়া", en: "Kalagachhia", upazila: "240" },
+  { code: "2177", bn: "পানপট্টি", en: "Panpatty", upazila: "240" },
+  { code: "2178", bn: "রতনদী তালতলী", en: "Ratandi Taltali", upazila: "240" },
+  { code: "2187", bn: "বড়বাইশদিয়া", en: "Barobaisdia", upazila: "241" },
+  { code: "2190", bn: "চালিতাবুনিয়া", en: "Chalitabunia", upazila: "241" },
+  { code: "2189", bn: "চরমোন্তাজ", en: "Charmontaz", upazila: "241" },
+  { code: "2188", bn: "ছোটবাইশদিয়া", en: "Chattobaisdia", upazila: "241" },
+  { code: "2186", bn: "রাঙ্গাবালী", en: "Rangabali", upazila: "241" },
+  { code: "2193", bn: "দূর্গাপুর", en: "Durgapur", upazila: "242" },
+  { code: "2192", bn: "কদমতলা", en: "Kodomtala", upazila: "242" },
+  { code: "2194", bn: "কলাখালী", en: "Kolakhali", upazila: "242" },
+  { code: "4794", bn: "পিরোজপুর পৌরসভা", en: "Pirojpur Municipality", upazila: "242" },
+  { code: "2197", bn: "শংকরপাশা", en: "Shankorpasa", upazila: "242" },
+  { code: "2196", bn: "শরিকতলা", en: "Shariktola", upazila: "242" },
+  { code: "2191", bn: "শিকদার মল্লিক", en: "Shikder Mallik", upazila: "242" },
+  { code: "2195", bn: "টোনা", en: "Tona", upazila: "242" },
+  { code: "2200", bn: "দেউলবাড়ী দোবড়া", en: "Daulbari Dobra", upazila: "243" },
+  { code: "2201", bn: "দীর্ঘা", en: "Dirgha", upazila: "243" },
+  { code: "2202", bn: "কলারদোয়ানিয়া", en: "Kolardoania", upazila: "243" },
+  { code: "2199", bn: "মালিখালী", en: "Malikhali", upazila: "243" },
+  { code: "2198", bn: "মাটিভাংগা", en: "Mativangga", upazila: "243" },
+  { code: "2205", bn: "নাজিরপুর সদর", en: "Nazirpur Sadar", upazila: "243" },
+  { code: "2206", bn: "শাখারীকাঠী", en: "Shakharikathi", upazila: "243" },
+  { code: "2204", bn: "সেখমাটিয়া", en: "Shakhmatia", upazila: "243" },
+  { code: "2203", bn: "শ্রীরামকাঠী", en: "Sriramkathi", upazila: "243" },
+  { code: "2208", bn: "আমড়াজুড়ি", en: "Amrazuri", upazila: "244" },
+  { code: "2210", bn: "চিরাপাড়া", en: "Chirapara", upazila: "244" },
+  { code: "2209", bn: "কাউখালি সদর", en: "Kawkhali Sadar", upazila: "244" },
+  { code: "2207", bn: "সয়না রঘুনাথপুর", en: "Sayna Rogunathpur", upazila: "244" },
+  { code: "2211", bn: "শিয়ালকাঠী", en: "Shialkhathi", upazila: "244" },
+  { code: "2212", bn: "বালিপাড়া", en: "Balipara", upazila: "245" },
+  { code: "2214", bn: "পাড়েরহাট", en: "Parerhat", upazila: "245" },
+  { code: "2213", bn: "পত্তাশি", en: "Pattashi", upazila: "245" },
+  { code: "4960", bn: "ভাণ্ডারিয়া পৌরসভা", en: "Bhandaria Municipality", upazila: "246" },
+  { code: "2219", bn: "ধাওয়া", en: "Dhaoa", upazila: "246" },
+  { code: "2218", bn: "ইকড়ী", en: "Ekree", upazila: "246" },
+  { code: "2221", bn: "গৌরীপুর", en: "Gouripur", upazila: "246" },
+  { code: "2216", bn: "নদমূলা শিয়ালকাঠী", en: "Nodmulla", upazila: "246" },
+  { code: "2217", bn: "তেলিখালী", en: "Telikhali", upazila: "246" },
+  { code: "2220", bn: "ভান্ডারিয়া সদর", en: "Vandaria Sadar", upazila: "246" },
+  { code: "2215", bn: "ভিটাবাড়িয়া", en: "Vitabaria", upazila: "246" },
+  { code: "2227", bn: "আমড়াগাছিয়া", en: "Amragachia", upazila: "247" },
+  { code: "2231", bn: "বড়মাছুয়া", en: "Baramasua", upazila: "247" },
+  { code: "2226", bn: "বেতমোর রাজপাড়া", en: "Betmor Rajpara", upazila: "247" },
+  { code: "2229", bn: "দাউদখালী", en: "Daudkhali", upazila: "247" },
+  { code: "2223", bn: "ধানীসাফা", en: "Dhanisafa", upazila: "247" },
+  { code: "2232", bn: "হলতাগুলিশাখালী", en: "Haltagulishakhali", upazila: "247" },
+  { code: "2230", bn: "মঠবাড়িয়া", en: "Mathbaria", upazila: "247" },
+  { code: "4959", bn: "মঠবাড়িয়া পৌরসভা", en: "Mathbaria Municipality", upazila: "247" },
+  { code: "2224", bn: "মিরুখালী", en: "Mirukhali", upazila: "247" },
+  { code: "2228", bn: "শাপলেজা", en: "Shapleza", upazila: "247" },
+  { code: "2225", bn: "টিকিকাটা", en: "Tikikata", upazila: "247" },
+  { code: "2222", bn: "তুষখালী", en: "Tuskhali", upazila: "247" },
+  { code: "2235", bn: "আটঘর কুড়িয়ানা", en: "Atghorkuriana", upazila: "248" },
+  { code: "2233", bn: "বলদিয়া", en: "Boldia", upazila: "248" },
+  { code: "2237", bn: "দৈহারী", en: "Doyhary", upazila: "248" },
+  { code: "2238", bn: "গুয়ারেখা", en: "Guarekha", upazila: "248" },
+  { code: "2236", bn: "জলাবাড়ী", en: "Jolabari", upazila: "248" },
+  { code: "2241", bn: "সারেংকাঠী", en: "Sarengkathi", upazila: "248" },
+  { code: "2242", bn: "স্বরুপকাঠী", en: "Shorupkathi", upazila: "248" },
+  { code: "2234", bn: "সোহাগদল", en: "Sohagdal", upazila: "248" },
+  { code: "2239", bn: "সমুদয়কাঠী", en: "Somudoykathi", upazila: "248" },
+  { code: "2240", bn: "সুটিয়াকাঠী", en: "Sutiakathi", upazila: "248" },
+  { code: "4795", bn: "স্বরূপকাঠী পৌরসভা", en: "Swarupkathi Municipality", upazila: "248" },
+  { code: "2250", bn: "চাঁদপুরা", en: "Chandpura", upazila: "249" },
+  { code: "2252", bn: "চন্দ্রমোহন", en: "Chandramohan", upazila: "249" },
+  { code: "2245", bn: "চরবাড়িয়া", en: "Charbaria", upazila: "249" },
+  { code: "2249", bn: "চরকাউয়া", en: "Charcowa", upazila: "249" },
+  { code: "2247", bn: "চরমোনাই", en: "Charmonai", upazila: "249" },
+  { code: "2244", bn: "কাশীপুর", en: "Kashipur", upazila: "249" },
+  { code: "2243", bn: "রায়পাশা কড়াপুর", en: "Raipasha Karapur", upazila: "249" },
+  { code: "2246", bn: "সায়েস্তাবাদ", en: "Shyastabad", upazila: "249" },
+  { code: "2251", bn: "টুঙ্গীবাড়িয়া", en: "Tungibaria", upazila: "249" },
+  { code: "2248", bn: "জাগুয়া", en: "Zagua", upazila: "249" },
+  { code: "4885", bn: "বাকেরগঞ্জ পৌরসভা", en: "Bakerganj Municipality", upazila: "250" },
+  { code: "2263", bn: "ভরপাশা", en: "Bharpasha", upazila: "250" },
+  { code: "2254", bn: "চরাদি", en: "Charade", upazila: "250" },
+  { code: "2253", bn: "চরামদ্দি", en: "Charamaddi", upazila: "250" },
+  { code: "2255", bn: "দাড়িয়াল", en: "Darial", upazila: "250" },
+  { code: "2256", bn: "দুধল", en: "Dudhal", upazila: "250" },
+  { code: "2257", bn: "দুর্গাপাশা", en: "Durgapasha", upazila: "250" },
+  { code: "2258", bn: "ফরিদপুর", en: "Faridpur", upazila: "250" },
+  { code: "2262", bn: "গারুরিয়া", en: "Garuria", upazila: "250" },
+  { code: "2259", bn: "কবাই", en: "Kabai", upazila: "250" },
+  { code: "2261", bn: "কলসকাঠী", en: "Kalashkathi", upazila: "250" },
+  { code: "2260", bn: "নলুয়া", en: "Nalua", upazila: "250" },
+  { code: "2266", bn: "নিয়ামতি", en: "Niamoti", upazila: "250" },
+  { code: "2265", bn: "পাদ্রিশিবপুর", en: "Padreeshibpur", upazila: "250" },
+  { code: "2264", bn: "রঙ্গশ্রী", en: "Rangasree", upazila: "250" },
+  { code: "2270", bn: "চাঁদপাশা", en: "Chandpasha", upazila: "251" },
+  { code: "2269", bn: "দেহেরগতি", en: "Deherhoti", upazila: "251" },
+  { code: "2267", bn: "জাহাঙ্গীর নগর", en: "Jahangir Nagar", upazila: "251" },
+  { code: "2268", bn: "কেদারপুর", en: "Kaderpur", upazila: "251" },
+  { code: "2272", bn: "মাধবপাশা", en: "Madhbpasha", upazila: "251" },
+  { code: "2271", bn: "রহমতপুর", en: "Rahamtpur", upazila: "251" },
+  { code: "2279", bn: "বামরাইল", en: "Bamrail", upazila: "252" },
+  { code: "2278", bn: "বরাকোঠা", en: "Barakhota", upazila: "252" },
+  { code: "2281", bn: "গুঠিয়া", en: "Gouthia", upazila: "252" },
+  { code: "2274", bn: "হারতা", en: "Harta", upazila: "252" },
+  { code: "2275", bn: "জল্লা", en: "Jalla", upazila: "252" },
+  { code: "2276", bn: "ওটরা", en: "Otra", upazila: "252" },
+  { code: "2273", bn: "সাতলা", en: "Shatla", upazila: "252" },
+  { code: "2280", bn: "শিকারপুর উজিরপুর", en: "Shikerpur Wazirpur", upazila: "252" },
+  { code: "2277", bn: "শোলক", en: "Sholok", upazila: "252" },
+  { code: "5041", bn: "উজিরপুর পৌরসভা", en: "Wazirpur Municipality", upazila: "252" },
+  { code: "2287", bn: "বাইশারী", en: "Baishari", upazila: "253" },
+  { code: "2288", bn: "বানারিপাড়া", en: "Banaripara", upazila: "253" },
+  { code: "4886", bn: "বানারীপাড়া পৌরসভা", en: "Banaripara Municipality", upazila: "253" },
+  { code: "2282", bn: "বিশারকান্দি", en: "Bisharkandi", upazila: "253" },
+  { code: "2285", bn: "চাখার", en: "Chakhar", upazila: "253" },
+  { code: "2283", bn: "ইলুহার", en: "Illuhar", upazila: "253" },
+  { code: "2286", bn: "সলিয়াবাকপুর", en: "Saliabakpur", upazila: "253" },
+  { code: "2284", bn: "সৈয়দকাঠী", en: "Sayedkathi", upazila: "253" },
+  { code: "2289", bn: "উদয়কাঠী", en: "Udykhati", upazila: "253" },
+  { code: "2291", bn: "বার্থী", en: "Barthi", upazila: "254" },
+  { code: "2295", bn: "বাটাজোর", en: "Batajore", upazila: "254" },
+  { code: "2292", bn: "চাঁদশী", en: "Chandshi", upazila: "254" },
+  { code: "4884", bn: "গৌরনদী পৌরসভা", en: "Gournadi Municipality", upazila: "254" },
+  { code: "2290", bn: "খাঞ্জাপুর", en: "Khanjapur", upazila: "254" },
+  { code: "2293", bn: "মাহিলারা", en: "Mahilara", upazila: "254" },
+  { code: "2294", bn: "নলচিড়া", en: "Nalchira", upazila: "254" },
+  { code: "2296", bn: "সরিকল", en: "Sarikal", upazila: "254" },
+  { code: "2299", bn: "বাগধা", en: "Bagdha", upazila: "255" },
+  { code: "2298", bn: "বাকাল", en: "Bakal", upazila: "255" },
+  { code: "2300", bn: "গৈলা", en: "Goila", upazila: "255" },
+  { code: "2297", bn: "রাজিহার", en: "Rajihar", upazila: "255" },
+  { code: "2301", bn: "রত্নপুর", en: "Ratnapur", upazila: "255" },
+  { code: "2310", bn: "আলিমাবাদ", en: "Alimabad", upazila: "256" },
+  { code: "2302", bn: "আন্দারমানিক", en: "Andarmanik", upazila: "256" },
+  { code: "2308", bn: "ভাষানচর", en: "Bhashanchar", upazila: "256" },
+  { code: "2307", bn: "বিদ্যানন্দনপুর", en: "Biddanandapur", upazila: "256" },
+  { code: "2311", bn: "চানপুর", en: "Chandpur", upazila: "256" },
+  { code: "2304", bn: "চরএককরিয়া", en: "Charakkorea", upazila: "256" },
+  { code: "2314", bn: "চরগোপালপুর", en: "Chargopalpur", upazila: "256" },
+  { code: "2312", bn: "দড়িরচর খাজুরিয়া", en: "Darirchar Khajuria", upazila: "256" },
+  { code: "2313", bn: "গোবিন্দপুর", en: "Gobindapur", upazila: "256" },
+  { code: "2309", bn: "জাঙ্গালিয়া", en: "Jangalia", upazila: "256" },
+  { code: "2303", bn: "লতা", en: "Lata", upazila: "256" },
+  { code: "4796", bn: "মেহেন্দিগঞ্জ পৌরসভা", en: "Mehendiganj Municipality", upazila: "256" },
+  { code: "2306", bn: "মেহেন্দিগঞ্জ", en: "Mehendigong", upazila: "256" },
+  { code: "2305", bn: "উলানিয়া", en: "Ulania", upazila: "256" },
+  { code: "2315", bn: "বাটামারা", en: "Batamara", upazila: "257" },
+  { code: "2319", bn: "চরকালেখা", en: "Charkalekha", upazila: "257" },
+  { code: "2318", bn: "গাছুয়া", en: "Gaschua", upazila: "257" },
+  { code: "2321", bn: "কাজিরচর", en: "Kazirchar", upazila: "257" },
+  { code: "2320", bn: "মুলাদী", en: "Muladi", upazila: "257" },
+  { code: "4961", bn: "মুলাদী পৌরসভা", en: "Muladi Municipality", upazila: "257" },
+  { code: "2316", bn: "নাজিরপুর", en: "Nazirpur", upazila: "257" },
+  { code: "2317", bn: "সফিপুর", en: "Safipur", upazila: "257" },
+  { code: "2325", bn: "বড়জালিয়া", en: "Barjalia", upazila: "258" },
+  { code: "2327", bn: "ধুলখোলা", en: "Dhulkhola", upazila: "258" },
+  { code: "2324", bn: "গুয়াবাড়িয়া", en: "Guabaria", upazila: "258" },
+  { code: "2322", bn: "হরিনাথপুর", en: "Harinathpur", upazila: "258" },
+  { code: "2326", bn: "হিজলা গৌরাব্দি", en: "Hizla Gourabdi", upazila: "258" },
+  { code: "2323", bn: "মেমানিয়া", en: "Memania", upazila: "258" },
+  { code: "2335", bn: "আলীনগর", en: "Alinagor", upazila: "259" },
+  { code: "2332", bn: "বাপ্তা", en: "Bapta", upazila: "259" },
+  { code: "5042", bn: "ভোলা পৌরসভা", en: "Bhola Municipality", upazila: "259" },
+  { code: "2336", bn: "চরসামাইয়া", en: "Charshamya", upazila: "259" },
+  { code: "2333", bn: "ধনিয়া", en: "Dhania", upazila: "259" },
+  { code: "2329", bn: "ইলিশা", en: "Ilisha", upazila: "259" },
+  { code: "2331", bn: "কাচিয়া", en: "Kachia", upazila: "259" },
+  { code: "2339", bn: "উত্তর দিঘলদী", en: "North Digholdi", upazila: "259" },
+  { code: "2328", bn: "রাজাপুর", en: "Razapur", upazila: "259" },
+  { code: "2334", bn: "শিবপুর", en: "Shibpur", upazila: "259" },
+  { code: "2340", bn: "দক্ষিণ দিঘলদী", en: "South Digholdi", upazila: "259" },
+  { code: "2338", bn: "ভেদুরিয়া", en: "Vheduria", upazila: "259" },
+  { code: "2337", bn: "ভেলুমিয়া", en: "Vhelumia", upazila: "259" },
+  { code: "2330", bn: "পশ্চিম ইলিশা", en: "Westilisa", upazila: "259" },
+  { code: "4888", bn: "বোরহানউদ্দিন পৌরসভা", en: "Borhanuddin Municipality", upazila: "260" },
+  { code: "2341", bn: "বড় মানিকা", en: "Boromanika", upazila: "260" },
+  { code: "2342", bn: "দেউলা", en: "Deula", upazila: "260" },
+  { code: "7293", bn: "গঙ্গাপুর", en: "Gongapur", upazila: "260" },
+  { code: "7295", bn: "হাসাননগর", en: "Hasannogor", upazila: "260" },
+  { code: "2345", bn: "কাচিয়া", en: "Kachia", upazila: "260" },
+  { code: "2343", bn: "কুতুবা", en: "Kutuba", upazila: "260" },
+  { code: "2344", bn: "পক্ষিয়া", en: "Pakshia", upazila: "260" },
+  { code: "7292", bn: "সাচড়া", en: "Sachra", upazila: "260" },
+  { code: "7294", bn: "টবগী", en: "Tobgi", upazila: "260" },
+  { code: "2362", bn: "আবদুল্লাহ", en: "Abdullahpur", upazila: "261" },
+  { code: "2361", bn: "আবুবকরপুর", en: "Abubakarpur", upazila: "261" },
+  { code: "2349", bn: "আমিনাবাদ", en: "Aminabad", upazila: "261" },
+  { code: "2347", bn: "আছলামপুর", en: "Aslampur", upazila: "261" },
+  { code: "2352", bn: "আওয়াজপুর", en: "Awajpur", upazila: "261" },
+  { code: "4887", bn: "চরফ্যাশন পৌরসভা", en: "Char Fashion Municipality", upazila: "261" },
+  { code: "2354", bn: "চরকলমী", en: "Charkolmi", upazila: "261" },
+  { code: "2351", bn: "চরমাদ্রাজ", en: "Charmadraj", upazila: "261" },
+  { code: "2355", bn: "চরমানিকা", en: "Charmanika", upazila: "261" },
+  { code: "2365", bn: "ঢালচর", en: "Dalchar", upazila: "261" },
+  { code: "2356", bn: "হাজারীগঞ্জ", en: "Hazarigonj", upazila: "261" },
+  { code: "2357", bn: "জাহানপুর", en: "Jahanpur", upazila: "261" },
+  { code: "2360", bn: "কুকরীমূকরী", en: "Kukrimukri", upazila: "261" },
+  { code: "2364", bn: "মুজিব নগর", en: "Mujibnagar", upazila: "261" },
+  { code: "2363", bn: "নজরুল নগর", en: "Nazrulnagar", upazila: "261" },
+  { code: "2350", bn: "নীলকমল", en: "Nilkomol", upazila: "261" },
+  { code: "2358", bn: "নুরাবাদ", en: "Nurabad", upazila: "261" },
+  { code: "2346", bn: "ওসমানগঞ্জ", en: "Osmangonj", upazila: "261" },
+  { code: "2359", bn: "রসুলপুর", en: "Rasulpur", upazila: "261" },
+  { code: "2348", bn: "জিন্নাগড়", en: "Zinnagor", upazila: "261" },
+  { code: "2371", bn: "চর খলিফা", en: "Char Khalipa", upazila: "262" },
+  { code: "2368", bn: "চরপাতা", en: "Charpata", upazila: "262" },
+  { code: "4962", bn: "দৌলতখান পৌরসভা", en: "Daulatkhan Municipality", upazila: "262" },
+  { code: "2373", bn: "হাজীপুর", en: "Hazipur", upazila: "262" },
+  { code: "2366", bn: "মদনপুর", en: "Madanpur", upazila: "262" },
+  { code: "2367", bn: "মেদুয়া", en: "Madua", upazila: "262" },
+  { code: "2369", bn: "উত্তর জয়নগর", en: "North Joy Nagar", upazila: "262" },
+  { code: "2372", bn: "সৈয়দপুর", en: "Sayedpur", upazila: "262" },
+  { code: "2370", bn: "দক্ষিন জয়নগর", en: "South Joy Nagar", upazila: "262" },
+  { code: "2374", bn: "ভবানীপুর", en: "Vhovanipur", upazila: "262" },
+  { code: "2375", bn: "হাজীর হাট", en: "Hazirhat", upazila: "263" },
+  { code: "2376", bn: "মনপুরা", en: "Monpura", upazila: "263" },
+  { code: "2377", bn: "উত্তর সাকুচিয়া", en: "North Sakuchia", upazila: "263" },
+  { code: "2378", bn: "দক্ষিন সাকুচিয়া", en: "South Sakuchia", upazila: "263" },
+  { code: "2383", bn: "বড় মলংচড়া", en: "Baro Molongchora", upazila: "264" },
+  { code: "2382", bn: "চাঁদপুর", en: "Chadpur", upazila: "264" },
+  { code: "2379", bn: "চাচঁড়া", en: "Chanchra", upazila: "264" },
+  { code: "2380", bn: "শম্ভুপুর", en: "Shambupur", upazila: "264" },
+  { code: "2381", bn: "সোনাপুর", en: "Sonapur", upazila: "264" },
+  { code: "2384", bn: "বদরপুর", en: "Badarpur", upazila: "265" },
+  { code: "2385", bn: "চরভূতা", en: "Charbhuta", upazila: "265" },
+  { code: "2387", bn: "ধলীগৌর নগর", en: "Dholigour Nagar", upazila: "265" },
+  { code: "2392", bn: "ফরাজগঞ্জ", en: "Farajgonj", upazila: "265" },
+  { code: "2386", bn: "কালমা", en: "Kalma", upazila: "265" },
+  { code: "2388", bn: "লালমোহন", en: "Lalmohan", upazila: "265" },
+  { code: "4797", bn: "লালমোহন পৌরসভা", en: "Lalmohan Municipality", upazila: "265" },
+  { code: "2389", bn: "লর্ড হার্ডিঞ্জ", en: "Lord Hardinge", upazila: "265" },
+  { code: "2391", bn: "পশ্চিম চর উমেদ", en: "Paschim Char Umed", upazila: "265" },
+  { code: "2390", bn: "রমাগঞ্জ", en: "Ramagonj", upazila: "265" },
+  { code: "2393", bn: "আমতলী", en: "Amtali", upazila: "266" },
+  { code: "4881", bn: "আমতলী পৌরসভা", en: "Amtali Municipality", upazila: "266" },
+  { code: "2399", bn: "আড়পাঙ্গাশিয়া", en: "Arpangasia", upazila: "266" },
+  { code: "2395", bn: "আঠারগাছিয়া", en: "Athrogasia", upazila: "266" },
+  { code: "2398", bn: "ছোটবগী", en: "Chotobogi", upazila: "266" },
+  { code: "2400", bn: "চাওড়া", en: "Chowra", upazila: "266" },
+  { code: "2394", bn: "গুলিশাখালী", en: "Gulishakhali", upazila: "266" },
+  { code: "2397", bn: "হলদিয়া", en: "Haldia", upazila: "266" },
+  { code: "2396", bn: "কুকুয়া", en: "Kukua", upazila: "266" },
+  { code: "2407", bn: "আয়লা পাতাকাটা", en: "Ayla Patakata", upazila: "267" },
+  { code: "2410", bn: "বরগুনা", en: "Barguna", upazila: "267" },
+  { code: "4882", bn: "বরগুনা পৌরসভা", en: "Barguna Municipality", upazila: "267" },
+  { code: "2403", bn: "বদরখালী", en: "Bodorkhali", upazila: "267" },
+  { code: "2408", bn: "বুড়িরচর", en: "Burirchor", upazila: "267" },
+  { code: "2409", bn: "ঢলুয়া", en: "Dhalua", upazila: "267" },
+  { code: "2405", bn: "ফুলঝুড়ি", en: "Fuljhuri", upazila: "267" },
+  { code: "2404", bn: "গৌরিচন্না", en: "Gowrichanna", upazila: "267" },
+  { code: "2406", bn: "কেওড়াবুনিয়া", en: "Keorabunia", upazila: "267" },
+  { code: "2401", bn: "এম. বালিয়াতলী", en: "M. Baliatali", upazila: "267" },
+  { code: "2402", bn: "নলটোনা", en: "Noltona", upazila: "267" },
+  { code: "2412", bn: "বেতাগী", en: "Betagi", upazila: "268" },
+  { code: "4883", bn: "বেতাগী পৌরসভা", en: "Betagi Municipality", upazila: "268" },
+  { code: "2411", bn: "বিবিচিন", en: "Bibichini", upazila: "268" },
+  { code: "2415", bn: "বুড়ামজুমদার", en: "Buramajumder", upazila: "268" },
+  { code: "2413", bn: "হোসনাবাদ", en: "Hosnabad", upazila: "268" },
+  { code: "2416", bn: "কাজীরাবাদ", en: "Kazirabad", upazila: "268" },
+  { code: "2414", bn: "মোকামিয়া", en: "Mokamia", upazila: "268" },
+  { code: "2417", bn: "সরিষামুড়ী", en: "Sarisamuri", upazila: "268" },
+  { code: "2419", bn: "বামনা", en: "Bamna", upazila: "269" },
+  { code: "2418", bn: "বুকাবুনিয়া", en: "Bukabunia", upazila: "269" },
+  { code: "2421", bn: "ডৌয়াতলা", en: "Doutola", upazila: "269" },
+  { code: "2420", bn: "রামনা", en: "Ramna", upazila: "269" },
+  { code: "2424", bn: "চরদুয়ানী", en: "Charduany", upazila: "270" },
+  { code: "2427", bn: "কাকচিঢ়া", en: "Kakchira", upazila: "270" },
+  { code: "2426", bn: "কালমেঘা", en: "Kalmegha", upazila: "270" },
+  { code: "2428", bn: "কাঠালতলী", en: "Kathaltali", upazila: "270" },
+  { code: "2423", bn: "নাচনাপাড়া", en: "Nachnapara", upazila: "270" },
+  { code: "2425", bn: "পাথরঘাটা", en: "Patharghata", upazila: "270" },
+  { code: "5040", bn: "পাথরঘাটা পৌরসভা", en: "Patharghata Municipality", upazila: "270" },
+  { code: "2422", bn: "রায়হানপুর", en: "Raihanpur", upazila: "270" },
+  { code: "2431", bn: "বড়বগি", en: "Barabagi", upazila: "271" },
+  { code: "2432", bn: "ছোটবগি", en: "Chhotabagi", upazila: "271" },
+  { code: "2429", bn: "কড়ইবাড়ীয়া", en: "Karibaria", upazila: "271" },
+  { code: "2433", bn: "নিশানবাড়ীয়া", en: "Nishanbaria", upazila: "271" },
+  { code: "2430", bn: "পচাকোড়ালিয়া", en: "Panchakoralia", upazila: "271" },
+  { code: "2434", bn: "শারিকখালি", en: "Sarikkhali", upazila: "271" },
+  { code: "2435", bn: "সোনাকাটা", en: "Sonakata", upazila: "271" },
+  { code: "2448", bn: "বালাগঞ্জ", en: "Balaganj", upazila: "272" },
+  { code: "2440", bn: "বোয়ালজুর", en: "Boaljur", upazila: "272" },
+  { code: "2445", bn: "দেওয়ান বাজার", en: "Dewanbazar", upazila: "272" },
+  { code: "2447", bn: "পূর্ব গৌরীপুর", en: "East Gouripur", upazila: "272" },
+  { code: "2439", bn: "পূর্ব পৈলনপুর", en: "East Poilanpur", upazila: "272" },
+  { code: "2446", bn: "পশ্চিম গৌরীপুর", en: "West Gouripur", upazila: "272" },
+  { code: "2451", bn: "আলীনগর", en: "Alinagar", upazila: "273" },
+  { code: "4800", bn: "বিয়ানীবাজার পৌরসভা", en: "Beanibazar Municipality", upazila: "273" },
+  { code: "2452", bn: "চরখাই", en: "Charkhai", upazila: "273" },
+  { code: "2453", bn: "দুবাগ", en: "Dubag", upazila: "273" },
+  { code: "2455", bn: "কুড়ারবাজার", en: "Kurarbazar", upazila: "273" },
+  { code: "2459", bn: "লাউতা", en: "Lauta", upazila: "273" },
+  { code: "2456", bn: "মাথিউরা", en: "Mathiura", upazila: "273" },
+  { code: "2457", bn: "মোল্লাপুর", en: "Mullapur", upazila: "273" },
+  { code: "2458", bn: "মুড়িয়া", en: "Muria", upazila: "273" },
+  { code: "2454", bn: "শেওলা", en: "Sheola", upazila: "273" },
+  { code: "2450", bn: "তিলপাড়া", en: "Tilpara", upazila: "273" },
+  { code: "2463", bn: "অলংকারী", en: "Alankari", upazila: "274" },
+  { code: "2465", bn: "বিশ্বনাথ", en: "Bishwanath", upazila: "274" },
+  { code: "4801", bn: "বিশ্বনাথ পৌরসভা", en: "Bishwanath Municipality", upazila: "274" },
+  { code: "2467", bn: "দৌলতপুর", en: "Daulatpur", upazila: "274" },
+  { code: "2464", bn: "দেওকলস", en: "Dewkalash", upazila: "274" },
+  { code: "2466", bn: "দশঘর", en: "Doshghar", upazila: "274" },
+  { code: "2462", bn: "খাজাঞ্চী", en: "Khajanchi", upazila: "274" },
+  { code: "2461", bn: "লামাকাজী", en: "Lamakazi", upazila: "274" },
+  { code: "2460", bn: "রামপাশা", en: "Rampasha", upazila: "274" },
+  { code: "2473", bn: "দক্ষিন রনিখাই", en: "Dakkin Ronikhai", upazila: "275" },
+  { code: "2471", bn: "ইসাকলস", en: "Isakalas", upazila: "275" },
+  { code: "2469", bn: "ইসলামপুর পশ্চিম", en: "Islampur Paschim", upazila: "275" },
+  { code: "2470", bn: "ইসলামপুর পূর্ব", en: "Islampur Purba", upazila: "275" },
+  { code: "2468", bn: "তেলিখাল", en: "Telikhal", upazila: "275" },
+  { code: "2472", bn: "উত্তর রনিখাই", en: "Uttor Ronikhai", upazila: "275" },
+  { code: "2475", bn: "ফেঞ্চুগঞ্জ", en: "Fenchuganj", upazila: "276" },
+  { code: "2474", bn: "ঘিলাছড়া", en: "Ghilachora", upazila: "276" },
+  { code: "2478", bn: "মাইজগাঁও", en: "Maijgaon", upazila: "276" },
+  { code: "2477", bn: "উত্তর ফেঞ্চুগঞ্জ", en: "Uttar Fenchuganj", upazila: "276" },
+  { code: "2476", bn: "উত্তর কুশিয়ারা", en: "Uttar Kushiara", upazila: "276" },
+  { code: "2487", bn: "ভাদেশ্বর", en: "Bhadeshwar", upazila: "277" },
+  { code: "2482", bn: "বুধবারীবাজার", en: "Budhbaribazar", upazila: "277" },
+  { code: "2483", bn: "ঢাকাদক্ষিন", en: "Dhakadakshin", upazila: "277" },
+  { code: "2480", bn: "ফুলবাড়ী", en: "Fulbari", upazila: "277" },
+  { code: "2479", bn: "গোলাপগঞ্জ", en: "Golapganj", upazila: "277" },
+  { code: "4963", bn: "গোলাপগঞ্জ পৌরসভা", en: "Golapganj Municipality", upazila: "277" },
+  { code: "2486", bn: "লক্ষনাবন্দ", en: "Lakshanaband", upazila: "277" },
+  { code: "2481", bn: "লক্ষ্মীপাশা", en: "Lakshmipasha", upazila: "277" },
+  { code: "2484", bn: "শরিফগঞ্জ", en: "Sharifganj", upazila: "277" },
+  { code: "2485", bn: "উত্তর বাদেপাশা", en: "Uttar Badepasha", upazila: "277" },
+  { code: "2488", bn: "পশ্চিম আমুরা", en: "West Amura", upazila: "277" },
+  { code: "2494", bn: "আলীরগাঁও", en: "Alirgaon", upazila: "278" },
+  { code: "2497", bn: "ডৌবাড়ী", en: "Daubari", upazila: "278" },
+  { code: "2489", bn: "ফতেপুর", en: "Fothepur", upazila: "278" },
+  { code: "2493", bn: "লেঙ্গুড়া", en: "Lengura", upazila: "278" },
+  { code: "2495", bn: "নন্দিরগাঁও", en: "Nandirgaon", upazila: "278" },
+  { code: "2491", bn: "পশ্চিম জাফলং", en: "Paschim Jaflong", upazila: "278" },
+  { code: "2492", bn: "পূর্ব জাফলং", en: "Purba Jaflong", upazila: "278" },
+  { code: "2490", bn: "রুস্তমপুর", en: "Rustampur", upazila: "278" },
+  { code: "2496", bn: "তোয়াকুল", en: "Towakul", upazila: "278" },
+  { code: "2500", bn: "চারিকাটা", en: "Charikatha", upazila: "279" },
+  { code: "2503", bn: "চিকনাগুল", en: "Chiknagul", upazila: "279" },
+  { code: "2501", bn: "দরবস্ত", en: "Darbast", upazila: "279" },
+  { code: "2502", bn: "ফতেপুর", en: "Fatehpur", upazila: "279" },
+  { code: "2499", bn: "জৈন্তাপুর", en: "Jaintapur", upazila: "279" },
+  { code: "2498", bn: "নিজপাট", en: "Nijpat", upazila: "279" },
+  { code: "2509", bn: "বড়চতুল", en: "Barachotul", upazila: "280" },
+  { code: "2511", bn: "দক্ষিন বানিগ্রাম", en: "Dakhin Banigram", upazila: "280" },
+  { code: "2507", bn: "দিঘিরপার পূর্ব", en: "Digirpar Purbo", upazila: "280" },
+  { code: "2512", bn: "ঝিঙ্গাবাড়ী", en: "Jinghabari", upazila: "280" },
+  { code: "2510", bn: "কানাইঘাট", en: "Kanaighat", upazila: "280" },
+  { code: "5045", bn: "কানাইঘাট পৌরসভা", en: "Kanaighat Municipality", upazila: "280" },
+  { code: "2506", bn: "লক্ষীপ্রাসাদ পশ্চিম", en: "Lakshiprashad Pashim", upazila: "280" },
+  { code: "2505", bn: "লক্ষীপ্রাসাদ পূর্ব", en: "Lakshiprashad Purbo", upazila: "280" },
+  { code: "2504", bn: "রাজাগঞ্জ", en: "Rajagonj", upazila: "280" },
+  { code: "2508", bn: "সাতবাক", en: "Satbakh", upazila: "280" },
+  { code: "2514", bn: "হাটখোলা", en: "Hatkhula", upazila: "281" },
+  { code: "2513", bn: "জালালাবাদ", en: "Jalalabad", upazila: "281" },
+  { code: "2520", bn: "কান্দিগাও", en: "Kandigaon", upazila: "281" },
+  { code: "2515", bn: "খাদিমনগর", en: "Khadimnagar", upazila: "281" },
+  { code: "2516", bn: "খাদিমপাড়া", en: "Khadimpara", upazila: "281" },
+  { code: "2519", bn: "মোগলগাও", en: "Mugolgaon", upazila: "281" },
+  { code: "2518", bn: "টুকেরবাজার", en: "Tukerbazar", upazila: "281" },
+  { code: "2517", bn: "টুলটিকর", en: "Tultikor", upazila: "281" },
+  { code: "2523", bn: "বারহাল", en: "Barohal", upazila: "282" },
+  { code: "2528", bn: "বারঠাকুরী", en: "Barothakuri", upazila: "282" },
+  { code: "2524", bn: "বিরশ্রী", en: "Birorsri", upazila: "282" },
+  { code: "2525", bn: "কাজলশার", en: "Kajalshah", upazila: "282" },
+  { code: "2529", bn: "কসকনকপুর", en: "Kaskanakpur", upazila: "282" },
+  { code: "2526", bn: "কলাছড়া", en: "Kolachora", upazila: "282" },
+  { code: "2521", bn: "মানিকপুর", en: "Manikpur", upazila: "282" },
+  { code: "2522", bn: "সুলতানপুর", en: "Sultanpur", upazila: "282" },
+  { code: "2527", bn: "জকিগঞ্জ", en: "Zakiganj", upazila: "282" },
+  { code: "5046", bn: "জকিগঞ্জ পৌরসভা", en: "Zakiganj Municipality", upazila: "282" },
+  { code: "2532", bn: "বড়ইকান্দি", en: "Boroikandi", upazila: "283" },
+  { code: "2534", bn: "দাউদপুর", en: "Daudpur", upazila: "283" },
+  { code: "2538", bn: "জালালপুর", en: "Jalalpur", upazila: "283" },
+  { code: "2537", bn: "কামালবাজার", en: "Kamalbazar", upazila: "283" },
+  { code: "2536", bn: "কুচাই", en: "Kuchai", upazila: "283" },
+  { code: "2530", bn: "লালাবাজার", en: "Lalabazar", upazila: "283" },
+  { code: "2531", bn: "মোগলাবাজার", en: "Moglabazar", upazila: "283" },
+  { code: "2535", bn: "মোল্লারগাঁও", en: "Mollargaon", upazila: "283" },
+  { code: "2533", bn: "সিলাম", en: "Silam", upazila: "283" },
+  { code: "2539", bn: "তেতলী", en: "Tetli", upazila: "283" },
+  { code: "2441", bn: "বুরুঙ্গাবাজার", en: "Burungabazar", upazila: "284" },
+  { code: "2443", bn: "দয়ামীর", en: "Doyamir", upazila: "284" },
+  { code: "2442", bn: "গোয়ালাবাজার", en: "Goalabazar", upazila: "284" },
+  { code: "2449", bn: "সাদিরপুর", en: "Sadipur", upazila: "284" },
+  { code: "2436", bn: "তাজপুর", en: "Tazpur", upazila: "284" },
+  { code: "2437", bn: "উমরপুর", en: "Umorpur", upazila: "284" },
+  { code: "2444", bn: "উসমানপুর", en: "Usmanpur", upazila: "284" },
+  { code: "2438", bn: "পশ্চিম পৈলনপুর", en: "West Poilanpur", upazila: "284" },
+  { code: "2547", bn: "বড়লেখা", en: "Baralekha", upazila: "285" },
+  { code: "5044", bn: "বড়লেখা পৌরসভা", en: "Baralekha municipality", upazila: "285" },
+  { code: "2541", bn: "বর্ণি", en: "Borni", upazila: "285" },
+  { code: "2545", bn: "দক্ষিণ শাহবাজপুর", en: "Dakkhin Shahbajpur", upazila: "285" },
+  { code: "2549", bn: "দক্ষিণভাগ (দক্ষিণ)", en: "Dakshinbhag Dakkhin", upazila: "285" },
+  { code: "2548", bn: "দক্ষিণভাগ (উত্তর)", en: "Dakshinbhag Uttar", upazila: "285" },
+  { code: "2542", bn: "দাসেরবাজার", en: "Dasherbazar", upazila: "285" },
+  { code: "2543", bn: "নিজবাহাদুরপুর", en: "Nizbahadurpur", upazila: "285" },
+  { code: "2550", bn: "সুজানগর", en: "Sujanagar", upazila: "285" },
+  { code: "2540", bn: "তালিমপুর", en: "Talimpur", upazila: "285" },
+  { code: "2544", bn: "উত্তর শাহবাজপুর", en: "Uttar Shahbajpur", upazila: "285" },
+  { code: "2551", bn: "আদমপুর", en: "Adampur", upazila: "286" },
+  { code: "2559", bn: "আলী নগর", en: "Alinagar", upazila: "286" },
+  { code: "2557", bn: "ইসলামপুর", en: "Islampur", upazila: "286" },
+  { code: "5043", bn: "কমলগঞ্জ পৌরসভা", en: "Kamalganj Municipality", upazila: "286" },
+  { code: "2556", bn: "কমলগঞ্জ", en: "Kamalgonj", upazila: "286" },
+  { code: "2553", bn: "মাধবপুর", en: "Madhabpur", upazila: "286" },
+  { code: "2558", bn: "মুন্সিবাজার", en: "Munshibazar", upazila: "286" },
+  { code: "2552", bn: "পতনঊষার", en: "Patanushar", upazila: "286" },
+  { code: "2554", bn: "রহিমপুর", en: "Rahimpur", upazila: "286" },
+  { code: "2555", bn: "শমশেরনগর", en: "Shamshernagar", upazila: "286" },
+  { code: "2560", bn: "বরমচাল", en: "Baramchal", upazila: "287" },
+  { code: "2571", bn: "ভাটেরা", en: "Bhatera", upazila: "287" },
+  { code: "2561", bn: "ভূকশিমইল", en: "Bhukshimail", upazila: "287" },
+  { code: "2563", bn: "ব্রাহ্মণবাজার", en: "Brammanbazar", upazila: "287" },
+  { code: "2572", bn: "হাজীপুর", en: "Hazipur", upazila: "287" },
+  { code: "2562", bn: "জয়চন্ডি", en: "Joychandi", upazila: "287" },
+  { code: "2564", bn: "কাদিপুর", en: "Kadipur", upazila: "287" },
+  { code: "2570", bn: "কর্মধা", en: "Kormodha", upazila: "287" },
+  { code: "2565", bn: "কুলাউড়া", en: "Kulaura", upazila: "287" },
+  { code: "4798", bn: "কুলাউড়া পৌরসভা", en: "Kulaura Municipality", upazila: "287" },
+  { code: "2569", bn: "পৃথিমপাশা", en: "Prithimpassa", upazila: "287" },
+  { code: "2566", bn: "রাউৎগাঁও", en: "Rauthgaon", upazila: "287" },
+  { code: "2568", bn: "শরীফপুর", en: "Sharifpur", upazila: "287" },
+  { code: "2567", bn: "টিলাগাঁও", en: "Tilagaon", upazila: "287" },
+  { code: "2578", bn: "আখাইলকুড়া", en: "Akhailkura", upazila: "288" },
+  { code: "2573", bn: "আমতৈল", en: "Amtail", upazila: "288" },
+  { code: "2577", bn: "আপার কাগাবলা", en: "Apar Kagabala", upazila: "288" },
+  { code: "2580", bn: "চাঁদনীঘাট", en: "Chadnighat", upazila: "288" },
+  { code: "2579", bn: "একাটুনা", en: "Ekatuna", upazila: "288" },
+  { code: "2584", bn: "গিয়াসনগর", en: "Giasnagar", upazila: "288" },
+  { code: "2576", bn: "কামালপুর", en: "Kamalpur", upazila: "288" },
+  { code: "2574", bn: "খলিলপুর", en: "Khalilpur", upazila: "288" },
+  { code: "2581", bn: "কনকপুর", en: "Konokpur", upazila: "288" },
+  { code: "2575", bn: "মনুমুখ", en: "Monumukh", upazila: "288" },
+  { code: "2583", bn: "মোস্তফাপুর", en: "Mostafapur", upazila: "288" },
+  { code: "4799", bn: "মৌলভীবাজার পৌরসভা", en: "Moulvibazar Municipality", upazila: "288" },
+  { code: "2582", bn: "নাজিরাবাদ", en: "Nazirabad", upazila: "288" },
+  { code: "2585", bn: "ফতেপুর", en: "Fotepur", upazila: "289" },
+  { code: "2591", bn: "কামারচাক", en: "Kamarchak", upazila: "289" },
+  { code: "2587", bn: "মুন্সিবাজার", en: "Munsibazar", upazila: "289" },
+  { code: "2592", bn: "মনসুরনগর", en: "Munsurnagar", upazila: "289" },
+  { code: "2588", bn: "পাঁচগাঁও", en: "Panchgaon", upazila: "289" },
+  { code: "2589", bn: "রাজনগর", en: "Rajnagar", upazila: "289" },
+  { code: "2590", bn: "টেংরা", en: "Tengra", upazila: "289" },
+  { code: "2586", bn: "উত্তরভাগ", en: "Uttorbhag", upazila: "289" },
+  { code: "2598", bn: "আশিদ্রোন", en: "Ashidron", upazila: "290" },
+  { code: "2594", bn: "ভূনবীর", en: "Bhunabir", upazila: "290" },
+  { code: "2597", bn: "কালাপুর", en: "Kalapur", upazila: "290" },
+  { code: "2600", bn: "কালীঘাট", en: "Kalighat", upazila: "290" },
+  { code: "2593", bn: "মির্জাপুর", en: "Mirzapur", upazila: "290" },
+  { code: "2599", bn: "রাজঘাট", en: "Rajghat", upazila: "290" },
+  { code: "2601", bn: "সাতগাঁও", en: "Satgaon", upazila: "290" },
+  { code: "2596", bn: "সিন্দুরখান", en: "Sindurkhan", upazila: "290" },
+  { code: "2595", bn: "শ্রীমঙ্গল", en: "Sreemangal", upazila: "290" },
+  { code: "4889", bn: "শ্রীমঙ্গল পৌরসভা", en: "Srimangal Municipality", upazila: "290" },
+  { code: "2607", bn: "পুর্ব জুড়ী", en: "Eastjuri", upazila: "291" },
+  { code: "2606", bn: "ফুলতলা", en: "Fultola", upazila: "291" },
+  { code: "2604", bn: "গোয়ালবাড়ী", en: "Gualbari", upazila: "291" },
+  { code: "2602", bn: "জায়ফরনগর", en: "Jafornagar", upazila: "291" },
+  { code: "2605", bn: "সাগরনাল", en: "Sagornal", upazila: "291" },
+  { code: "2603", bn: "পশ্চিম জুড়ী", en: "West Juri", upazila: "291" },
+  { code: "2612", bn: "আউশকান্দি", en: "Aushkandi", upazila: "292" },
+  { code: "2608", bn: "বড় ভাকৈর (পশ্চিম)", en: "Barabhakoir Paschim", upazila: "292" },
+  { code: "2609", bn: "বড় ভাকৈর (পূর্ব)", en: "Barabhakoir Purba", upazila: "292" },
+  { code: "2616", bn: "বাউসা", en: "Bausha", upazila: "292" },
+  { code: "2617", bn: "দেবপাড়া", en: "Debparra", upazila: "292" },
+  { code: "2611", bn: "দীঘলবাক", en: "Digholbak", upazila: "292" },
+  { code: "2618", bn: "গজনাইপুর", en: "Gaznaipur", upazila: "292" },
+  { code: "2610", bn: "ইনাতগঞ্জ", en: "Inatganj", upazila: "292" },
+  { code: "2619", bn: "কালিয়ারভাংগা", en: "Kaliarbhanga", upazila: "292" },
+  { code: "2614", bn: "করগাঁও", en: "Kargoan", upazila: "292" },
+  { code: "2613", bn: "কুর্শি", en: "Kurshi", upazila: "292" },
+  { code: "4803", bn: "নবীগঞ্জ পৌরসভা", en: "Nabiganj Municipality", upazila: "292" },
+  { code: "2615", bn: "নবীগঞ্জ সদর", en: "Nabiganj Sadar", upazila: "292" },
+  { code: "2620", bn: "পানিউমদা", en: "Paniumda", upazila: "292" },
+  { code: "2624", bn: "বাহুবল সদর", en: "Bahubal Sadar", upazila: "293" },
+  { code: "2627", bn: "ভাদেশ্বর", en: "Bhadeshwar", upazila: "293" },
+  { code: "2625", bn: "লামাতাশী", en: "Lamatashi", upazila: "293" },
+  { code: "2626", bn: "মিরপুর", en: "Mirpur", upazila: "293" },
+  { code: "2622", bn: "পুটিজুরী", en: "Putijuri", upazila: "293" },
+  { code: "2623", bn: "সাতকাপন", en: "Satkapon", upazila: "293" },
+  { code: "2621", bn: "স্নানঘাট", en: "Snanghat", upazila: "293" },
+  { code: "5048", bn: "আজমিরীগঞ্জ পৌরসভা", en: "Ajmiriganj Municipality", upazila: "294" },
+  { code: "2630", bn: "আজমিরীগঞ্জ সদর", en: "Ajmiriganj Sadar", upazila: "294" },
+  { code: "2631", bn: "বদলপুর", en: "Badolpur", upazila: "294" },
+  { code: "2632", bn: "জলসুখা", en: "Jolsuka", upazila: "294" },
+  { code: "2629", bn: "কাকাইলছেও", en: "Kakailsao", upazila: "294" },
+  { code: "2628", bn: "শিবপাশা", en: "Shibpasha", upazila: "294" },
+  { code: "2633", bn: "বানিয়াচং উত্তর পূর্ব", en: "Baniachong North East", upazila: "295" },
+  { code: "2634", bn: "বানিয়াচং উত্তর পশ্চিম", en: "Baniachong North West", upazila: "295" },
+  { code: "2635", bn: "বানিয়াচং দক্ষিণ পূর্ব", en: "Baniachong South East", upazila: "295" },
+  { code: "2636", bn: "বানিয়াচং দক্ষিণ পশ্চিম", en: "Baniachong South West", upazila: "295" },
+  { code: "2639", bn: "বড়ইউড়ি", en: "Baraiuri", upazila: "295" },
+  { code: "2637", bn: "দৌলতপুর", en: "Daulatpur", upazila: "295" },
+  { code: "2640", bn: "কাগাপাশা", en: "Kagapasha", upazila: "295" },
+  { code: "2638", bn: "খাগাউড়া", en: "Khagaura", upazila: "295" },
+  { code: "2643", bn: "মক্রমপুর", en: "Makrampur", upazila: "295" },
+  { code: "2645", bn: "মন্দরী", en: "Mandari", upazila: "295" },
+  { code: "2646", bn: "মুরাদপুর", en: "Muradpur", upazila: "295" },
+  { code: "2647", bn: "পৈলারকান্দি", en: "Pailarkandi", upazila: "295" },
+  { code: "2641", bn: "পুকড়া", en: "Pukra", upazila: "295" },
+  { code: "2642", bn: "সুবিদপুর", en: "Subidpur", upazila: "295" },
+  { code: "2644", bn: "সুজাতপুর", en: "Sujatpur", upazila: "295" },
+  { code: "2651", bn: "বামৈ", en: "Bamoi", upazila: "296" },
+  { code: "2653", bn: "বুল্লা", en: "Bulla", upazila: "296" },
+  { code: "2652", bn: "করাব", en: "Karab", upazila: "296" },
+  { code: "2648", bn: "লাখাই", en: "Lakhai", upazila: "296" },
+  { code: "2649", bn: "মোড়াকরি", en: "Murakari", upazila: "296" },
+  { code: "2650", bn: "মুড়িয়াউক", en: "Muriauk", upazila: "296" },
+  { code: "2655", bn: "আহম্মদাবাদ", en: "Ahammadabad", upazila: "297" },
+  { code: "2659", bn: "চুনারুঘাট", en: "Chunarughat", upazila: "297" },
+  { code: "4891", bn: "চুনারুঘাট পৌরসভা", en: "Chunarughat Municipality", upazila: "297" },
+  { code: "2656", bn: "দেওরগাছ", en: "Deorgach", upazila: "297" },
+  { code: "2654", bn: "গাজীপুর", en: "Gazipur", upazila: "297" },
+  { code: "2663", bn: "মিরাশী", en: "Mirashi", upazila: "297" },
+  { code: "2657", bn: "পাইকপাড়া", en: "Paikpara", upazila: "297" },
+  { code: "2662", bn: "রাণীগাঁও", en: "Ranigaon", upazila: "297" },
+  { code: "2658", bn: "শানখলা", en: "Shankhala", upazila: "297" },
+  { code: "2661", bn: "সাটিয়াজুরী", en: "Shatiajuri", upazila: "297" },
+  { code: "2660", bn: "উবাহাটা", en: "Ubahata", upazila: "297" },
+  { code: "2668", bn: "গোপায়া", en: "Gopaya", upazila: "298" },
+  { code: "4804", bn: "হবিগঞ্জ পৌরসভা", en: "Habiganj Municipality", upazila: "298" },
+  { code: "2673", bn: "লস্করপুর", en: "Laskerpur", upazila: "298" },
+  { code: "2664", bn: "লুকড়া", en: "Lukra", upazila: "298" },
+  { code: "2672", bn: "নিজামপুর", en: "Nijampur", upazila: "298" },
+  { code: "2670", bn: "নুরপুর", en: "Nurpur", upazila: "298" },
+  { code: "2667", bn: "পইল", en: "Poil", upazila: "298" },
+  { code: "2669", bn: "রাজিউড়া", en: "Rajiura", upazila: "298" },
+  { code: "2665", bn: "রিচি", en: "Richi", upazila: "298" },
+  { code: "2671", bn: "শায়েস্তাগঞ্জ", en: "Shayestaganj", upazila: "298" },
+  { code: "5047", bn: "শায়েস্তাগঞ্জ পৌরসভা", en: "Shayestaganj Municipality", upazila: "298" },
+  { code: "2666", bn: "তেঘরিয়া", en: "Teghoria", upazila: "298" },
+  { code: "2677", bn: "আদাঐর", en: "Adaoir", upazila: "299" },
+  { code: "2678", bn: "আন্দিউড়া", en: "Andiura", upazila: "299" },
+  { code: "2684", bn: "বাঘাসুরা", en: "Bagashura", upazila: "299" },
+  { code: "2676", bn: "বহরা", en: "Bahara", upazila: "299" },
+  { code: "2681", bn: "বুল্লা", en: "Bulla", upazila: "299" },
+  { code: "2683", bn: "ছাতিয়াইন", en: "Chhatiain", upazila: "299" },
+  { code: "2675", bn: "চৌমুহনী", en: "Choumohani", upazila: "299" },
+  { code: "2674", bn: "ধর্মঘর", en: "Dharmaghar", upazila: "299" },
+  { code: "2680", bn: "জগদীশপুর", en: "Jagadishpur", upazila: "299" },
+  { code: "4966", bn: "মাধবপুর পৌরসভা", en: "Madhabpur Municipality", upazila: "299" },
+  { code: "2682", bn: "নোয়াপাড়া", en: "Noapara", upazila: "299" },
+  { code: "2679", bn: "শাহজাহানপুর", en: "Shahjahanpur", upazila: "299" },
+  { code: "2687", bn: "আপ্তাবনগর", en: "Aptabnagar", upazila: "300" },
+  { code: "2688", bn: "গৌরারং", en: "Gourarang", upazila: "300" },
+  { code: "2685", bn: "জাহাঙ্গীরনগর", en: "Jahangirnagar", upazila: "300" },
+  { code: "2691", bn: "কাঠইর", en: "Kathair", upazila: "300" },
+  { code: "2690", bn: "লক্ষণশ্রী", en: "Laxmansree", upazila: "300" },
+  { code: "2693", bn: "মোহনপুর", en: "Mohonpur", upazila: "300" },
+  { code: "2689", bn: "মোল্লাপাড়া", en: "Mollapara", upazila: "300" },
+  { code: "2686", bn: "রংগারচর", en: "Rangarchar", upazila: "300" },
+  { code: "4965", bn: "সুনামগঞ্জ পৌরসভা", en: "Sunamganj Municipality", upazila: "300" },
+  { code: "2692", bn: "সুরমা", en: "Surma", upazila: "300" },
+  { code: "2700", bn: "দরগাপাশা", en: "Dargapasha", upazila: "301" },
+  { code: "2696", bn: "জয়কলস", en: "Joykalash", upazila: "301" },
+  { code: "2701", bn: "পশ্চিম বীরগাঁও", en: "Paschim Birgaon", upazila: "301" },
+  { code: "2695", bn: "পশ্চিম পাগলা", en: "Paschim Pagla", upazila: "301" },
+  { code: "2698", bn: "পাথারিয়া", en: "Patharia", upazila: "301" },
+  { code: "2699", bn: "পূর্ব বীরগাঁও", en: "Purba Birgaon", upazila: "301" },
+  { code: "2697", bn: "পূর্ব পাগলা", en: "Purba Pagla", upazila: "301" },
+  { code: "2694", bn: "শিমুলবাক", en: "Shimulbak", upazila: "301" },
+  { code: "2705", bn: "বাদাঘাট দক্ষিণ", en: "Badaghat South", upazila: "302" },
+  { code: "2704", bn: "ধনপুর", en: "Dhanpur", upazila: "302" },
+  { code: "2706", bn: "ফতেপুর", en: "Fatepur", upazila: "302" },
+  { code: "2702", bn: "পলাশ", en: "Palash", upazila: "302" },
+  { code: "2703", bn: "সলুকাবাদ", en: "Solukabad", upazila: "302" },
+  { code: "2719", bn: "ভাতগাঁও", en: "Bhatgaon", upazila: "303" },
+  { code: "2712", bn: "ছৈলা আফজলাবাদ", en: "Chhaila Afjalabad", upazila: "303" },
+  { code: "4964", bn: "ছাতক পৌরসভা", en: "Chhatak Municipality", upazila: "303" },
+  { code: "2709", bn: "ছাতক সদর", en: "Chhatak Sadar", upazila: "303" },
+  { code: "2715", bn: "চরমহল্লা", en: "Chormohalla", upazila: "303" },
+  { code: "2718", bn: "দোলারবাজার", en: "Dolarbazar", upazila: "303" },
+  { code: "2711", bn: "গোবিন্দগঞ্জ-সৈদেরগাঁও", en: "Gobindganj-Syedergaon", upazila: "303" },
+  { code: "2707", bn: "ইসলামপুর", en: "Islampur", upazila: "303" },
+  { code: "2716", bn: "জাউয়া বাজার", en: "Jauwabazar", upazila: "303" },
+  { code: "2710", bn: "কালারুকা", en: "Kalaruka", upazila: "303" },
+  { code: "2713", bn: "খুরমা উত্তর", en: "Khurma North", upazila: "303" },
+  { code: "2714", bn: "খুরমা দক্ষিণ", en: "Khurma South", upazila: "303" },
+  { code: "2708", bn: "নোয়ারাই", en: "Noarai", upazila: "303" },
+  { code: "2717", bn: "সিংচাপইড়", en: "Singchapair", upazila: "303" },
+  { code: "2726", bn: "আশারকান্দি", en: "Asharkandi", upazila: "304" },
+  { code: "2723", bn: "চিলাউড়া হলদিপুর", en: "Chilaura Holdipur", upazila: "304" },
+  { code: "4802", bn: "জগন্নাথপুর পৌরসভা", en: "Jagannathpur Municipality", upazila: "304" },
+  { code: "2720", bn: "কলকলিয়া", en: "Kolkolia", upazila: "304" },
+  { code: "2722", bn: "মীরপুর", en: "Mirpur", upazila: "304" },
+  { code: "2727", bn: "পাইলগাঁও", en: "Pailgaon", upazila: "304" },
+  { code: "2721", bn: "পাটলী", en: "Patli", upazila: "304" },
+  { code: "2724", bn: "রানীগঞ্জ", en: "Raniganj", upazila: "304" },
+  { code: "2725", bn: "সৈয়দপুর শাহাড়পাড়া", en: "Syedpur Shaharpara", upazila: "304" },
+  { code: "2728", bn: "বাংলাবাজার", en: "Banglabazar", upazila: "305" },
+  { code: "2735", bn: "বোগলাবাজার", en: "Boglabazar", upazila: "305" },
+  { code: "2733", bn: "দোহালিয়া", en: "Dohalia", upazila: "305" },
+  { code: "2730", bn: "দোয়ারাবাজার", en: "Dowarabazar", upazila: "305" },
+  { code: "2734", bn: "লক্ষীপুর", en: "Laxmipur", upazila: "305" },
+  { code: "2731", bn: "মান্নারগাঁও", en: "Mannargaon", upazila: "305" },
+  { code: "2729", bn: "নরসিংহপুর", en: "Norsingpur", upazila: "305" },
+  { code: "2732", bn: "পান্ডারগাঁও", en: "Pandargaon", upazila: "305" },
+  { code: "2736", bn: "সুরমা", en: "Surma", upazila: "305" },
+  { code: "2741", bn: "বাদাঘাট", en: "Badaghat", upazila: "306" },
+  { code: "2743", bn: "বালিজুরী", en: "Balijuri", upazila: "306" },
+  { code: "2740", bn: "বড়দল উত্তর", en: "Bordal North", upazila: "306" },
+  { code: "2739", bn: "বড়দল দক্ষিণ", en: "Bordal South", upazila: "306" },
+  { code: "2737", bn: "শ্রীপুর উত্তর", en: "Sreepur North", upazila: "306" },
+  { code: "2738", bn: "শ্রীপুর দক্ষিণ", en: "Sreepur South", upazila: "306" },
+  { code: "2742", bn: "তাহিরপুর সদর", en: "Tahirpur Sadar", upazila: "306" },
+  { code: "2744", bn: "বংশীকুন্ডা উত্তর", en: "Bongshikunda North", upazila: "307" },
+  { code: "2745", bn: "বংশীকুন্ডা দক্ষিণ", en: "Bongshikunda South", upazila: "307" },
+  { code: "2746", bn: "চামরদানী", en: "Chamordani", upazila: "307" },
+  { code: "2750", bn: "ধর্মপাশা সদর", en: "Dharmapasha Sadar", upazila: "307" },
+  { code: "2751", bn: "জয়শ্রী", en: "Joyasree", upazila: "307" },
+  { code: "2747", bn: "মধ্যনগর", en: "Madhyanagar", upazila: "307" },
+  { code: "2748", bn: "পাইকুরাটী", en: "Paikurati", upazila: "307" },
+  { code: "2749", bn: "সেলবরষ", en: "Selbarash", upazila: "307" },
+  { code: "2752", bn: "সুখাইড় রাজাপুর উত্তর", en: "Sukhair Rajapur North", upazila: "307" },
+  { code: "2753", bn: "সুখাইড় রাজাপুর দক্ষিণ", en: "Sukhair Rajapur South", upazila: "307" },
+  { code: "2754", bn: "বেহেলী", en: "Beheli", upazila: "308" },
+  { code: "2756", bn: "ভীমখালী", en: "Bhimkhali", upazila: "308" },
+  { code: "2757", bn: "ফেনারবাক", en: "Fenerbak", upazila: "308" },
+  { code: "2758", bn: "জামালগঞ্জ সদর", en: "Jamalganj Sadar", upazila: "308" },
+  { code: "2755", bn: "সাচনাবাজার", en: "Sachnabazar", upazila: "308" },
+  { code: "2759", bn: "আটগাঁও", en: "Atgaon", upazila: "309" },
+  { code: "2761", bn: "বাহারা", en: "Bahara", upazila: "309" },
+  { code: "2760", bn: "হবিবপুর", en: "Habibpur", upazila: "309" },
+  { code: "2762", bn: "শাল্লা সদর", en: "Shalla Sadar", upazila: "309" },
+  { code: "2764", bn: "ভাটিপাড়া", en: "Bhatipara", upazila: "310" },
+  { code: "2766", bn: "চরনারচর", en: "Charnarchar", upazila: "310" },
+  { code: "2767", bn: "দিরাই সরমঙ্গল", en: "Derai Sarmangal", upazila: "310" },
+  { code: "4890", bn: "দিরাই পৌরসভা", en: "Dirai Municipality", upazila: "310" },
+  { code: "2769", bn: "জগদল", en: "Jagddol", upazila: "310" },
+  { code: "2768", bn: "করিমপুর", en: "Karimpur", upazila: "310" },
+  { code: "2771", bn: "কুলঞ্জ", en: "Kulanj", upazila: "310" },
+  { code: "2763", bn: "রফিনগর", en: "Rafinagar", upazila: "310" },
+  { code: "2765", bn: "রাজানগর", en: "Rajanagar", upazila: "310" },
+  { code: "2770", bn: "তাড়ল", en: "Taral", upazila: "310" },
+  { code: "2772", bn: "আমলাব", en: "Amlaba", upazila: "311" },
+  { code: "2773", bn: "বাজনাব", en: "Bajnaba", upazila: "311" },
+  { code: "2774", bn: "বেলাব", en: "Belabo", upazila: "311" },
+  { code: "2775", bn: "বিন্নাবাইদ", en: "Binnabayd", upazila: "311" },
+  { code: "2776", bn: "চরউজিলাব", en: "Charuzilab", upazila: "311" },
+  { code: "2780", bn: "দেয়ারা মডেল", en: "Diara", upazila: "311" },
+  { code: "2777", bn: "নারায়নপুর", en: "Naraynpur", upazila: "311" },
+  { code: "2779", bn: "পাটুলী", en: "Patuli", upazila: "311" },
+  { code: "2778", bn: "সল্লাবাদ", en: "Sallabad", upazila: "311" },
+  { code: "2781", bn: "বড়চাপা", en: "Barachapa", upazila: "312" },
+  { code: "2782", bn: "চালাকচর", en: "Chalakchar", upazila: "312" },
+  { code: "2792", bn: "চন্দনবাড়ী", en: "Chandanbari", upazila: "312" },
+  { code: "2783", bn: "চরমান্দালিয়া", en: "Charmandalia", upazila: "312" },
+  { code: "2789", bn: "দৌলতপুর", en: "Dawlatpur", upazila: "312" },
+  { code: "2784", bn: "একদুয়ারিয়া", en: "Ekduaria", upazila: "312" },
+  { code: "2785", bn: "গোতাশিয়া", en: "Gotashia", upazila: "312" },
+  { code: "2786", bn: "কাচিকাটা", en: "Kanchikata", upazila: "312" },
+  { code: "2787", bn: "খিদিরপুর", en: "Khidirpur", upazila: "312" },
+  { code: "2790", bn: "কৃষ্ণপুর", en: "Krisnopur", upazila: "312" },
+  { code: "2791", bn: "লেবুতলা", en: "Labutala", upazila: "312" },
+  { code: "4983", bn: "মনোহরদী পৌরসভা", en: "Manohardi Municipality", upazila: "312" },
+  { code: "2788", bn: "শুকুন্দি", en: "Shukundi", upazila: "312" },
+  { code: "2793", bn: "আলোকবালী", en: "Alokbali", upazila: "313" },
+  { code: "2806", bn: "আমদিয়া ২", en: "Amdia", upazila: "313" },
+  { code: "2794", bn: "চরদিঘলদী", en: "Chardighaldi", upazila: "313" },
+  { code: "2795", bn: "চিনিশপুর", en: "Chinishpur", upazila: "313" },
+  { code: "2796", bn: "হাজীপুর", en: "Hajipur", upazila: "313" },
+  { code: "2797", bn: "করিমপুর", en: "Karimpur", upazila: "313" },
+  { code: "2798", bn: "কাঠালিয়া", en: "Khathalia", upazila: "313" },
+  { code: "4920", bn: "মাধবদী পৌরসভা", en: "Madhabadi Municipality", upazila: "313" },
+  { code: "2800", bn: "মহিষাশুড়া", en: "Mahishasura", upazila: "313" },
+  { code: "2801", bn: "মেহেড়পাড়া", en: "Meherpara", upazila: "313" },
+  { code: "4737", bn: "নরসিংদী পৌরসভা", en: "Narsingdi Municipality", upazila: "313" },
+  { code: "2802", bn: "নজরপুর", en: "Nazarpur", upazila: "313" },
+  { code: "2799", bn: "নূরালাপুর", en: "Nuralapur", upazila: "313" },
+  { code: "2803", bn: "পাইকারচর", en: "Paikarchar", upazila: "313" },
+  { code: "2804", bn: "পাঁচদোনা", en: "Panchdona", upazila: "313" },
+  { code: "2805", bn: "শিলমান্দী", en: "Silmandi", upazila: "313" },
+  { code: "2808", bn: "চরসিন্দুর", en: "Charsindur", upazila: "314" },
+  { code: "2807", bn: "ডাংঙ্গা", en: "Danga", upazila: "314" },
+  { code: "2810", bn: "গজারিয়া", en: "Gazaria", upazila: "314" },
+  { code: "4982", bn: "ঘোড়াশাল পৌরসভা", en: "Ghorashal Municipality", upazila: "314" },
+  { code: "2809", bn: "জিনারদী", en: "Jinardi", upazila: "314" },
+  { code: "2814", bn: "আদিয়াবাদ", en: "Adiabad", upazila: "315" },
+  { code: "2812", bn: "অলিপুরা", en: "Alipura", upazila: "315" },
+  { code: "2813", bn: "আমিরগঞ্জ", en: "Amirganj", upazila: "315" },
+  { code: "2815", bn: "বাঁশগাড়ী", en: "Banshgari", upazila: "315" },
+  { code: "2816", bn: "চান্দেরকান্দি", en: "Chanderkandi", upazila: "315" },
+  { code: "2811", bn: "চানপুর", en: "Chanpur", upazila: "315" },
+  { code: "2817", bn: "চরআড়ালিয়া", en: "Chararalia", upazila: "315" },
+  { code: "2818", bn: "চরমধুয়া", en: "Charmadhua", upazila: "315" },
+  { code: "2819", bn: "চরসুবুদ্দি", en: "Charsubuddi", upazila: "315" },
+  { code: "2820", bn: "ডৌকারচর", en: "Daukarchar", upazila: "315" },
+  { code: "2821", bn: "হাইরমারা", en: "Hairmara", upazila: "315" },
+  { code: "2822", bn: "মহেষপুর", en: "Maheshpur", upazila: "315" },
+  { code: "2832", bn: "মরজাল", en: "Marjal", upazila: "315" },
+  { code: "2823", bn: "মির্জানগর", en: "Mirzanagar", upazila: "315" },
+  { code: "2824", bn: "মির্জারচর", en: "Mirzarchar", upazila: "315" },
+  { code: "2830", bn: "মুছাপুর", en: "Musapur", upazila: "315" },
+  { code: "2825", bn: "নিলক্ষ্যা", en: "Nilakhya", upazila: "315" },
+  { code: "2826", bn: "পলাশতলী", en: "Palashtali", upazila: "315" },
+  { code: "2827", bn: "পাড়াতলী", en: "Paratali", upazila: "315" },
+  { code: "4738", bn: "রায়পুরা পৌরসভা", en: "Raipura Municipality", upazila: "315" },
+  { code: "2829", bn: "রায়পুরা", en: "Roypura", upazila: "315" },
+  { code: "2828", bn: "শ্রীনগর", en: "Sreenagar", upazila: "315" },
+  { code: "2831", bn: "উত্তর বাখরনগর", en: "Uttar Bakharnagar", upazila: "315" },
+  { code: "2840", bn: "আয়ুবপুর", en: "Ayubpur", upazila: "316" },
+  { code: "2839", bn: "বাঘাব", en: "Baghabo", upazila: "316" },
+  { code: "2837", bn: "চক্রধা", en: "Chakradha", upazila: "316" },
+  { code: "2833", bn: "দুলালপুর", en: "Dulalpur", upazila: "316" },
+  { code: "2838", bn: "যোশর", en: "Joshar", upazila: "316" },
+  { code: "2834", bn: "জয়নগর", en: "Joynagar", upazila: "316" },
+  { code: "2836", bn: "মাছিমপুর", en: "Masimpur", upazila: "316" },
+  { code: "2841", bn: "পুটিয়া", en: "Putia", upazila: "316" },
+  { code: "2835", bn: "সাধারচর", en: "Sadharchar", upazila: "316" },
+  { code: "4984", bn: "শিবপুর পৌরসভা", en: "Shibpur Municipality", upazila: "316" },
+  { code: "2842", bn: "বাহাদুরশাদী", en: "Bahadursadi", upazila: "317" },
+  { code: "2843", bn: "বক্তারপুর", en: "Baktarpur", upazila: "317" },
+  { code: "2844", bn: "জামালপুর", en: "Jamalpurnew", upazila: "317" },
+  { code: "2845", bn: "জাঙ্গালিয়া", en: "Jangalia", upazila: "317" },
+  { code: "4912", bn: "কালিগঞ্জ পৌরসভা", en: "Kaliganj Municipality", upazila: "317" },
+  { code: "4559", bn: "কালীগঞ্জ পৌরসভা", en: "kaliganj pourasava", upazila: "317" },
+  { code: "2846", bn: "মোক্তারপুর", en: "Moktarpur", upazila: "317" },
+  { code: "2847", bn: "নাগরী", en: "Nagari", upazila: "317" },
+  { code: "2848", bn: "তুমুলিয়া", en: "Tumulia", upazila: "317" },
+  { code: "2849", bn: "আটাবহ", en: "Atabaha", upazila: "318" },
+  { code: "2850", bn: "বোয়ালী", en: "Boali", upazila: "318" },
+  { code: "2851", bn: "চাপাইর", en: "Chapair", upazila: "318" },
+  { code: "2852", bn: "ঢালজোড়া", en: "Dhaliora", upazila: "318" },
+  { code: "2853", bn: "ফুলবাড়ীয়া", en: "Fulbaria", upazila: "318" },
+  { code: "4731", bn: "কালিয়াকৈর পৌরসভা", en: "Kaliakair Municipality", upazila: "318" },
+  { code: "4558", bn: "কালিয়াকৈর পৌরসভা", en: "kaliakoir pourosova", upazila: "318" },
+  { code: "2854", bn: "মধ্যপাড়া", en: "Madhyapara", upazila: "318" },
+  { code: "2855", bn: "মৌচাক", en: "Mouchak", upazila: "318" },
+  { code: "2857", bn: "শ্রীফলতলী", en: "Srifaltali", upazila: "318" },
+  { code: "2856", bn: "সূত্রাপুর", en: "Sutrapur", upazila: "318" },
+  { code: "2858", bn: "বারিষাব", en: "Barishaba", upazila: "319" },
+  { code: "2861", bn: "চাঁদপুর", en: "Chandpur", upazila: "319" },
+  { code: "2866", bn: "দূর্গাপুর", en: "Durgapur", upazila: "319" },
+  { code: "2859", bn: "ঘাগটিয়া", en: "Ghagotia", upazila: "319" },
+  { code: "2860", bn: "কাপাসিয়া", en: "Kapasia", upazila: "319" },
+  { code: "2863", bn: "কড়িহাতা", en: "Karihata", upazila: "319" },
+  { code: "2868", bn: "রায়েদ", en: "Rayed", upazila: "319" },
+  { code: "2865", bn: "সিংহশ্রী", en: "Sinhasree", upazila: "319" },
+  { code: "2867", bn: "সনমানিয়া", en: "Sonmania", upazila: "319" },
+  { code: "2862", bn: "তরগাঁও", en: "Targoan", upazila: "319" },
+  { code: "2864", bn: "টোক", en: "Tokh", upazila: "319" },
+  { code: "2869", bn: "বাড়ীয়া", en: "Baria", upazila: "320" },
+  { code: "4556", bn: "ভাওয়ালগড়", en: "bhawalgarhup", upazila: "320" },
+  { code: "4555", bn: "গাজীপুর সিটি কর্পোরেশন", en: "Gazipur City Corporation", upazila: "320" },
+  { code: "2875", bn: "মির্জাপুর", en: "Mirzapur", upazila: "320" },
+  { code: "4557", bn: "পিরুজালী", en: "pirujaliup", upazila: "320" },
+  { code: "2877", bn: "বরমী", en: "Barmi", upazila: "321" },
+  { code: "2878", bn: "গাজীপুর", en: "Gazipur", upazila: "321" },
+  { code: "2879", bn: "গোসিংগা", en: "Gosinga", upazila: "321" },
+  { code: "2881", bn: "কাওরাইদ", en: "Kaoraid", upazila: "321" },
+  { code: "2880", bn: "মাওনা", en: "Maona", upazila: "321" },
+  { code: "2882", bn: "প্রহলাদপুর", en: "Prahladpur", upazila: "321" },
+  { code: "2883", bn: "রাজাবাড়ী", en: "Rajabari", upazila: "321" },
+  { code: "4560", bn: "শ্রীপুর পৌরসভা", en: "shreepur pourasava", upazila: "321" },
+  { code: "2884", bn: "তেলিহাটী", en: "Telihati", upazila: "321" },
+  { code: "2890", bn: "আংগারিয়া", en: "Angaria", upazila: "322" },
+  { code: "2885", bn: "বিনোদপুর", en: "Binodpur", upazila: "322" },
+  { code: "2894", bn: "চন্দ্রপুর", en: "Chandrapur", upazila: "322" },
+  { code: "2893", bn: "চিকন্দি", en: "Chikondi", upazila: "322" },
+  { code: "2891", bn: "চিতলয়া", en: "Chitolia", upazila: "322" },
+  { code: "2888", bn: "ডোমসার", en: "Domshar", upazila: "322" },
+  { code: "2892", bn: "মাহমুদপুর", en: "Mahmudpur", upazila: "322" },
+  { code: "2887", bn: "পালং", en: "Palong", upazila: "322" },
+  { code: "2889", bn: "রুদ্রকর", en: "Rudrakar", upazila: "322" },
+  { code: "4926", bn: "শরিয়তপুর পৌরসভা", en: "Shariatpur Municipality", upazila: "322" },
+  { code: "2895", bn: "শৌলপাড়া", en: "Shulpara", upazila: "322" },
+  { code: "2886", bn: "তুলাসার", en: "Tulasar", upazila: "322" },
+  { code: "2906", bn: "বিঝারি", en: "Bijari", upazila: "323" },
+  { code: "7803", bn: "চামটা", en: "Chamta", upazila: "323" },
+  { code: "2901", bn: "চরআত্রা", en: "Charatra", upazila: "323" },
+  { code: "2897", bn: "ডিংগামানিক", en: "Dingamanik", upazila: "323" },
+  { code: "2905", bn: "ফতেজংপুর", en: "Fategongpur", upazila: "323" },
+  { code: "2898", bn: "ঘড়িষার", en: "Garishar", upazila: "323" },
+  { code: "2903", bn: "জপসা", en: "Japsa", upazila: "323" },
+  { code: "2896", bn: "কেদারপুর", en: "Kedarpur", upazila: "323" },
+  { code: "2900", bn: "মোত্তারেরচর", en: "Moktererchar", upazila: "323" },
+  { code: "4992", bn: "নড়িয়া পৌরসভা", en: "Naria Municipality", upazila: "323" },
+  { code: "2908", bn: "নশাসন", en: "Nashason", upazila: "323" },
+  { code: "2899", bn: "নওপাড়া", en: "Nowpara", upazila: "323" },
+  { code: "2902", bn: "রাজনগর", en: "Rajnagar", upazila: "323" },
+  { code: "2904", bn: "ভোজেশ্বর", en: "Vojeshwar", upazila: "323" },
+  { code: "2907", bn: "ভূমখাড়া", en: "Vumkhara", upazila: "323" },
+  { code: "2919", bn: "বড়গোপালপুর", en: "Barogopalpur", upazila: "324" },
+  { code: "2911", bn: "বড়কান্দি", en: "Barokandi", upazila: "324" },
+  { code: "2912", bn: "বিলাসপুর", en: "Bilaspur", upazila: "324" },
+  { code: "2918", bn: "বি. কে. নগর", en: "Bknagar", upazila: "324" },
+  { code: "2920", bn: "জয়নগর", en: "Jaynagor", upazila: "324" },
+  { code: "4746", bn: "জাজিরা পৌরসভা", en: "Jazira Municipality", upazila: "324" },
+  { code: "2913", bn: "কুন্ডেরচর", en: "Kundarchar", upazila: "324" },
+  { code: "2910", bn: "মূলনা", en: "Mulna", upazila: "324" },
+  { code: "2916", bn: "নাওডোবা", en: "Nawdoba", upazila: "324" },
+  { code: "2914", bn: "পালেরচর", en: "Palerchar", upazila: "324" },
+  { code: "2915", bn: "পুর্ব নাওডোবা", en: "Purba Nawdoba", upazila: "324" },
+  { code: "2917", bn: "সেনেরচর", en: "Shenerchar", upazila: "324" },
+  { code: "2909", bn: "জাজিরা সদর", en: "Zajira Sadar", upazila: "324" },
+  { code: "2922", bn: "আলাওলপুর", en: "Alaolpur", upazila: "325" },
+  { code: "2925", bn: "ইদিলপুর", en: "Edilpur", upazila: "325" },
+  { code: "4993", bn: "গোসাইরহাট পৌরসভা", en: "Gosairhat Municipality", upazila: "325" },
+  { code: "2924", bn: "গোসাইরহাট", en: "Goshairhat", upazila: "325" },
+  { code: "2923", bn: "কোদালপুর", en: "Kodalpur", upazila: "325" },
+  { code: "2928", bn: "কুচাইপট্টি", en: "Kuchipatti", upazila: "325" },
+  { code: "2921", bn: "নাগের পাড়া", en: "Nager Para", upazila: "325" },
+  { code: "2926", bn: "নলমুড়ি", en: "Nalmuri", upazila: "325" },
+  { code: "2927", bn: "সামন্তসার", en: "Samontasar", upazila: "325" },
+  { code: "2939", bn: "আরশিনগর", en: "Arsinagar", upazila: "326" },
+  { code: "2934", bn: "চরকুমারিয়া", en: "Charkumaria", upazila: "326" },
+  { code: "2941", bn: "চরসেনসাস", en: "Charsensas", upazila: "326" },
+  { code: "2938", bn: "চরভাগা", en: "Charvaga", upazila: "326" },
+  { code: "2933", bn: "ডি.এম খালি", en: "D.M Khali", upazila: "326" },
+  { code: "2936", bn: "কাচিকাঁটা", en: "Kachikata", upazila: "326" },
+  { code: "2930", bn: "মহিষার", en: "Mahisar", upazila: "326" },
+  { code: "2932", bn: "নারায়নপুর", en: "Narayanpur", upazila: "326" },
+  { code: "2937", bn: "উত্তর তারাবুনিয়া", en: "North Tarabunia", upazila: "326" },
+  { code: "2929", bn: "রামভদ্রপুর", en: "Ramvadrapur", upazila: "326" },
+  { code: "2935", bn: "সখিপুর", en: "Sakhipur", upazila: "326" },
+  { code: "2931", bn: "ছয়গাঁও", en: "Saygaon", upazila: "326" },
+  { code: "2940", bn: "দক্ষিন তারাবুনিয়া", en: "South Tarabunia", upazila: "326" },
+  { code: "4745", bn: "ভেদরগঞ্জ পৌরসভা", en: "Vedharganj Municipality", upazila: "326" },
+  { code: "4744", bn: "ডামুড্যা পৌরসভা", en: "Damudya Municipality", upazila: "327" },
+  { code: "2946", bn: "ধানকাটি", en: "Dankati", upazila: "327" },
+  { code: "2948", bn: "দারুল আমান", en: "Darulaman", upazila: "327" },
+  { code: "2945", bn: "ইসলামপুর", en: "Islampur", upazila: "327" },
+  { code: "2943", bn: "কনেস্বর", en: "Kaneshar", upazila: "327" },
+  { code: "2944", bn: "পুর্ব ডামুড্যা", en: "Purba Damudya", upazila: "327" },
+  { code: "2942", bn: "শিধলকুড়া", en: "Shidulkura", upazila: "327" },
+  { code: "2947", bn: "সিড্যা", en: "Sidya", upazila: "327" },
+  { code: "4740", bn: "আড়াইহাজার পৌরসভা", en: "Arai hazar municipalities", upazila: "328" },
+  { code: "2953", bn: "বিশনন্দী", en: "Bishnandi", upazila: "328" },
+  { code: "2951", bn: "ব্রা‏হ্মন্দী", en: "Brahammandi", upazila: "328" },
+  { code: "2950", bn: "দুপ্তারা", en: "Duptara", upazila: "328" },
+  { code: "2952", bn: "ফতেপুর", en: "Fatepur", upazila: "328" },
+  { code: "4921", bn: "গোপালদী পৌরসভা", en: "Gopaldi Municipality", upazila: "328" },
+  { code: "2955", bn: "হাইজাদী", en: "Highjadi", upazila: "328" },
+  { code: "2958", bn: "খাগকান্দা", en: "Kagkanda", upazila: "328" },
+  { code: "2957", bn: "কালাপাহাড়িয়া", en: "Kalapaharia", upazila: "328" },
+  { code: "2954", bn: "মাহমুদপুর", en: "Mahmudpur", upazila: "328" },
+  { code: "2949", bn: "সাতগ্রাম", en: "Satgram", upazila: "328" },
+  { code: "2956", bn: "উচিৎপুরা", en: "Uchitpura", upazila: "328" },
+  { code: "2961", bn: "বন্দর", en: "Bandar", upazila: "329" },
+  { code: "2962", bn: "ধামগর", en: "Dhamgar", upazila: "329" },
+  { code: "2963", bn: "কলাগাছিয়া", en: "Kolagathia", upazila: "329" },
+  { code: "2960", bn: "মদনপুর", en: "Modonpur", upazila: "329" },
+  { code: "2959", bn: "মুছাপুর", en: "Musapur", upazila: "329" },
+  { code: "2964", bn: "আলিরটেক", en: "Alirtek", upazila: "330" },
+  { code: "2968", bn: "বক্তাবলী", en: "Baktaboli", upazila: "330" },
+  { code: "2969", bn: "এনায়েত নগর", en: "Enayetnagor", upazila: "330" },
+  { code: "6267", bn: "ফতুল্লা ইউনিয়ন", en: "Fatullah Union", upazila: "330" },
+  { code: "2967", bn: "গোগনগর", en: "Gognagar", upazila: "330" },
+  { code: "2965", bn: "কাশীপুর", en: "Kashipur", upazila: "330" },
+  { code: "2966", bn: "কুতুবপুর", en: "Kutubpur", upazila: "330" },
+  { code: "2976", bn: "ভোলাব", en: "Bholobo", upazila: "331" },
+  { code: "2971", bn: "ভূলতা", en: "Bhulta", upazila: "331" },
+  { code: "2973", bn: "দাউদপুর", en: "Daudpur", upazila: "331" },
+  { code: "2972", bn: "গোলাকান্দাইল", en: "Golakandail", upazila: "331" },
+  { code: "4985", bn: "কাঞ্চন পৌরসভা", en: "Kanchan Municipality", upazila: "331" },
+  { code: "2975", bn: "কায়েতপাড়া", en: "Kayetpara", upazila: "331" },
+  { code: "2970", bn: "মুড়াপাড়া", en: "Murapara", upazila: "331" },
+  { code: "2974", bn: "রূপগঞ্জ", en: "Rupganj", upazila: "331" },
+  { code: "4739", bn: "তারাব পৌরসভা", en: "Tarab Municipality", upazila: "331" },
+  { code: "2980", bn: "বৈদ্যেরবাজার", en: "Baidyerbazar", upazila: "332" },
+  { code: "2981", bn: "বারদী", en: "Baradi", upazila: "332" },
+  { code: "2983", bn: "জামপুর", en: "Jampur", upazila: "332" },
+  { code: "2986", bn: "কাচপুর", en: "Kanchpur", upazila: "332" },
+  { code: "2979", bn: "মোগরাপাড়া", en: "Mograpara", upazila: "332" },
+  { code: "2982", bn: "নোয়াগাঁও", en: "Noagaon", upazila: "332" },
+  { code: "2977", bn: "পিরোজপুর", en: "Pirojpur", upazila: "332" },
+  { code: "2984", bn: "সাদীপুর", en: "Sadipur", upazila: "332" },
+  { code: "2978", bn: "শম্ভুপুরা", en: "Shambhupura", upazila: "332" },
+  { code: "4986", bn: "সোনারগাঁও পৌরসভা", en: "Sonargaon Municipality", upazila: "332" },
+  { code: "2985", bn: "সনমান্দি", en: "Sonmandi", upazila: "332" },
+  { code: "2987", bn: "বাসাইল", en: "Basail", upazila: "333" },
+  { code: "4542", bn: "বাসাইল পৌরসভা", en: "Basail", upazila: "333" },
+  { code: "2991", bn: "ফুলকি", en: "Fulki", upazila: "333" },
+  { code: "2989", bn: "হাবলা", en: "Habla", upazila: "333" },
+  { code: "2988", bn: "কাঞ্চনপুর", en: "Kanchanpur", upazila: "333" },
+  { code: "2990", bn: "কাশিল", en: "Kashil", upazila: "333" },
+  { code: "2992", bn: "কাউলজানী", en: "Kauljani", upazila: "333" },
+  { code: "2997", bn: "আলোয়া", en: "Aloa", upazila: "334" },
+  { code: "2993", bn: "অর্জুনা", en: "Arjuna", upazila: "334" },
+  { code: "4543", bn: "ভুয়াপুর পৌরসভা", en: "Bhuapur", upazila: "334" },
+  { code: "4736", bn: "ভুয়াপুর পৌরসভা", en: "Bhuapur Municipality", upazila: "334" },
+  { code: "2995", bn: "ফলদা", en: "Falda", upazila: "334" },
+  { code: "2994", bn: "গাবসারা", en: "Gabshara", upazila: "334" },
+  { code: "2996", bn: "গোবিন্দাসী", en: "Gobindashi", upazila: "334" },
+  { code: "2998", bn: "নিকরাইল", en: "Nikrail", upazila: "334" },
+  { code: "3005", bn: "আটিয়া", en: "Atia", upazila: "335" },
+  { code: "3002", bn: "দেলদুয়ার", en: "Delduar", upazila: "335" },
+  { code: "2999", bn: "দেউলী", en: "Deuli", upazila: "335" },
+  { code: "3006", bn: "ডুবাইল", en: "Dubail", upazila: "335" },
+  { code: "3004", bn: "এলাসিন", en: "Elasin", upazila: "335" },
+  { code: "3003", bn: "ফাজিলহাটি", en: "Fazilhati", upazila: "335" },
+  { code: "3000", bn: "লাউহাটি", en: "Lauhati", upazila: "335" },
+  { code: "3001", bn: "পাথরাইল", en: "Patharail", upazila: "335" },
+  { code: "3011", bn: "আনেহলা", en: "Anehola", upazila: "336" },
+  { code: "3014", bn: "দেওপাড়া", en: "Deopara", upazila: "336" },
+  { code: "3007", bn: "দেউলাবাড়ী", en: "Deulabari", upazila: "336" },
+  { code: "3017", bn: "ধলাপাড়া", en: "Dhalapara", upazila: "336" },
+  { code: "3013", bn: "দিগড়", en: "Digar", upazila: "336" },
+  { code: "3012", bn: "দিঘলকান্দি", en: "Dighalkandia", upazila: "336" },
+  { code: "3008", bn: "ঘাটাইল", en: "Ghatail", upazila: "336" },
+  { code: "4544", bn: "ঘাটাইল পৌরসভা", en: "Ghatail Pourashava", upazila: "336" },
+  { code: "3009", bn: "জামুরিয়া", en: "Jamuria", upazila: "336" },
+  { code: "3010", bn: "লোকেরপাড়া", en: "Lokerpara", upazila: "336" },
+  { code: "3016", bn: "রসুলপুর", en: "Rasulpur", upazila: "336" },
+  { code: "3015", bn: "সন্ধানপুর", en: "Sandhanpur", upazila: "336" },
+  { code: "3022", bn: "আলমনগর", en: "Alamnagor", upazila: "337" },
+  { code: "3021", bn: "ধোপাকান্দি", en: "Dhopakandi", upazila: "337" },
+  { code: "4545", bn: "গোপালপুর পৌরসভা", en: "Gopalpur Pourashava", upazila: "337" },
+  { code: "3018", bn: "হাদিরা", en: "Hadera", upazila: "337" },
+  { code: "3023", bn: "হেমনগর", en: "Hemnagor", upazila: "337" },
+  { code: "3019", bn: "ঝাওয়াইল", en: "Jhawail", upazila: "337" },
+  { code: "3024", bn: "মির্জাপুর", en: "Mirzapur", upazila: "337" },
+  { code: "3020", bn: "নগদাশিমলা", en: "Nagdashimla", upazila: "337" },
+  { code: "3025", bn: "আলোকদিয়া", en: "Alokdia", upazila: "338" },
+  { code: "3027", bn: "অরণখোলা", en: "Aronkhola", upazila: "338" },
+  { code: "3026", bn: "আউশনারা", en: "Aushnara", upazila: "338" },
+  { code: "3029", bn: "গোলাবাড়ী", en: "Golabari", upazila: "338" },
+  { code: "4546", bn: "মধুপুর পৌরসভা", en: "Madhupur Pourashava", upazila: "338" },
+  { code: "3030", bn: "মির্জাবাড়ী", en: "Mirjabari", upazila: "338" },
+  { code: "3028", bn: "শোলাকুড়ি", en: "Sholakuri", upazila: "338" },
+  { code: "3040", bn: "আজগানা", en: "Ajgana", upazila: "339" },
+  { code: "3035", bn: "আনাইতারা", en: "Anaitara", upazila: "339" },
+  { code: "3038", bn: "বহুরিয়া", en: "Bahuria", upazila: "339" },
+  { code: "3034", bn: "বানাইল", en: "Banail", upazila: "339" },
+  { code: "3043", bn: "ভাওড়া", en: "Baora", upazila: "339" },
+  { code: "3042", bn: "বাঁশতৈল", en: "Bastail", upazila: "339" },
+  { code: "3037", bn: "ভাতগ্রাম", en: "Bhatram", upazila: "339" },
+  { code: "3033", bn: "ফতেপুর", en: "Fatepur", upazila: "339" },
+  { code: "3039", bn: "গোড়াই", en: "Gorai", upazila: "339" },
+  { code: "3032", bn: "জামুর্কী", en: "Jamurki", upazila: "339" },
+  { code: "3044", bn: "লতিফপুর", en: "Latifpur", upazila: "339" },
+  { code: "3031", bn: "মহেড়া", en: "Mahera", upazila: "339" },
+  { code: "4547", bn: "মির্জাপুর পৌরসভা", en: "Mirzapur Pourashva", upazila: "339" },
+  { code: "3041", bn: "তরফপুর", en: "Tarafpur", upazila: "339" },
+  { code: "3036", bn: "ওয়ার্শী", en: "Warshi", upazila: "339" },
+  { code: "3053", bn: "বেকরা আটগ্রাম", en: "Bekrah Atgram", upazila: "340" },
+  { code: "3055", bn: "ভাদ্রা", en: "Bhadra", upazila: "340" },
+  { code: "3045", bn: "ভারড়া", en: "Bharra", upazila: "340" },
+  { code: "3054", bn: "ধুবড়িয়া", en: "Dhuburia", upazila: "340" },
+  { code: "3056", bn: "দপ্তিয়র", en: "Doptior", upazila: "340" },
+  { code: "3047", bn: "গয়হাটা", en: "Goyhata", upazila: "340" },
+  { code: "3050", bn: "মামুদনগর", en: "Mamudnagor", upazila: "340" },
+  { code: "3051", bn: "মোকনা", en: "Mokna", upazila: "340" },
+  { code: "3049", bn: "নাগরপুর", en: "Nagorpur", upazila: "340" },
+  { code: "3052", bn: "পাকুটিয়া", en: "Pakutia", upazila: "340" },
+  { code: "3046", bn: "সহবতপুর", en: "Sahabathpur", upazila: "340" },
+  { code: "3048", bn: "সলিমাবাদ", en: "Solimabad", upazila: "340" },
+  { code: "3064", bn: "বহেড়াতৈল", en: "Baharatoil", upazila: "341" },
+  { code: "3062", bn: "দরিয়াপুর", en: "Dariapur", upazila: "341" },
+  { code: "3058", bn: "গজারিয়া", en: "Gajaria", upazila: "341" },
+  { code: "3060", bn: "হাতীবান্ধা", en: "Hatibandha", upazila: "341" },
+  { code: "3059", bn: "যাদবপুর", en: "Jaduppur", upazila: "341" },
+  { code: "3057", bn: "কাকড়াজান", en: "Kakrajan", upazila: "341" },
+  { code: "3061", bn: "কালিয়া", en: "Kalia", upazila: "341" },
+  { code: "3063", bn: "কালমেঘা", en: "Kalmegha", upazila: "341" },
+  { code: "4827", bn: "সখীপুর পৌরসভা", en: "Sakhipur Municipality", upazila: "341" },
+  { code: "4548", bn: "সখিপুর পৌরসভা", en: "Sakhipur Pourashava", upazila: "341" },
+  { code: "3072", bn: "বাঘিল", en: "Baghil", upazila: "342" },
+  { code: "3071", bn: "দাইন্যা", en: "Dyenna", upazila: "342" },
+  { code: "3066", bn: "গালা", en: "Gala", upazila: "342" },
+  { code: "3067", bn: "ঘারিন্দা", en: "Gharinda", upazila: "342" },
+  { code: "3074", bn: "হুগড়া", en: "Hugra", upazila: "342" },
+  { code: "3073", bn: "কাকুয়া", en: "Kakua", upazila: "342" },
+  { code: "3068", bn: "করটিয়া", en: "Karatia", upazila: "342" },
+  { code: "3075", bn: "কাতুলী", en: "Katuli", upazila: "342" },
+  { code: "3076", bn: "মাহমুদনগর", en: "Mahamudnagar", upazila: "342" },
+  { code: "3065", bn: "মগড়া", en: "Mogra", upazila: "342" },
+  { code: "3070", bn: "পোড়াবাড়ী", en: "Porabari", upazila: "342" },
+  { code: "3069", bn: "ছিলিমপুর", en: "Silimpur", upazila: "342" },
+  { code: "4541", bn: "টাঙ্গাইল পৌরসভা", en: "Tangail Pourashava", upazila: "342" },
+  { code: "3082", bn: "বল্লা", en: "Balla", upazila: "343" },
+  { code: "3085", bn: "বাংড়া", en: "Bangra", upazila: "343" },
+  { code: "3078", bn: "বীরবাসিন্দা", en: "Birbashinda", upazila: "343" },
+  { code: "3087", bn: "দশকিয়া", en: "Dashokia", upazila: "343" },
+  { code: "3077", bn: "দুর্গাপুর", en: "Durgapur", upazila: "343" },
+  { code: "4550", bn: "এলেঙ্গা পৌরসভা", en: "Elenga Pourashava", upazila: "343" },
+  { code: "3089", bn: "গোহালিয়াবাড়ী", en: "Gohaliabari", upazila: "343" },
+  { code: "4916", bn: "কালিহাতী পৌরসভা", en: "Kalihati Municipality", upazila: "343" },
+  { code: "4549", bn: "কালিহাতি পৌরসভা", en: "Kalihati Pourashava", upazila: "343" },
+  { code: "3081", bn: "কোকডহরা", en: "Kokdahara", upazila: "343" },
+  { code: "3084", bn: "নাগবাড়ী", en: "Nagbari", upazila: "343" },
+  { code: "3079", bn: "নারান্দিয়া", en: "Narandia", upazila: "343" },
+  { code: "3086", bn: "পাইকড়া", en: "Paikora", upazila: "343" },
+  { code: "3088", bn: "পারখী", en: "Parkhi", upazila: "343" },
+  { code: "3083", bn: "সল্লা", en: "Salla", upazila: "343" },
+  { code: "3080", bn: "সহদেবপুর", en: "Shahadebpur", upazila: "343" },
+  { code: "3095", bn: "বানিয়াজান", en: "Baniajan", upazila: "344" },
+  { code: "3094", bn: "বীরতারা", en: "Birtara", upazila: "344" },
+  { code: "3093", bn: "বলিভদ্র", en: "Bolibodrow", upazila: "344" },
+  { code: "4917", bn: "ধনবাড়ী পৌরসভা", en: "Dhanbari Municipality", upazila: "344" },
+  { code: "4551", bn: "ধানবাড়ী পৌরসভা", en: "Dhanbari Pourashava", upazila: "344" },
+  { code: "3090", bn: "ধোপাখালী", en: "Dhopakhali", upazila: "344" },
+  { code: "3096", bn: "যদুনাথপুর", en: "Jadunathpur", upazila: "344" },
+  { code: "3092", bn: "মুশুদ্দি", en: "Mushuddi", upazila: "344" },
+  { code: "3091", bn: "পাইস্কা", en: "Paiska", upazila: "344" },
+  { code: "3099", bn: "এলংজুরী", en: "Alonjori", upazila: "345" },
+  { code: "3100", bn: "বাদলা", en: "Badla", upazila: "345" },
+  { code: "3101", bn: "বড়িবাড়ি", en: "Boribari", upazila: "345" },
+  { code: "3097", bn: "চৌগাংগা", en: "Chawganga", upazila: "345" },
+  { code: "3104", bn: "ধনপুর", en: "Dhonpur", upazila: "345" },
+  { code: "3102", bn: "ইটনা", en: "Itna", upazila: "345" },
+  { code: "3098", bn: "জয়সিদ্ধি", en: "Joysiddi", upazila: "345" },
+  { code: "3103", bn: "মৃগা", en: "Mriga", upazila: "345" },
+  { code: "3105", bn: "রায়টুটি", en: "Raytoti", upazila: "345" },
+  { code: "3111", bn: "আচমিতা", en: "Acmita", upazila: "346" },
+  { code: "3106", bn: "বনগ্রাম", en: "Banagram", upazila: "346" },
+  { code: "3109", bn: "চান্দপুর", en: "Chandpur", upazila: "346" },
+  { code: "3114", bn: "জালালপুর", en: "Jalalpur", upazila: "346" },
+  { code: "3108", bn: "কারগাঁও", en: "Kargaon", upazila: "346" },
+  { code: "4566", bn: "কটিয়াদী পৌরসভা", en: "katayadi pourasava", upazila: "346" },
+  { code: "3113", bn: "লোহাজুরী", en: "Lohajuree", upazila: "346" },
+  { code: "3112", bn: "মসূয়া", en: "Mosua", upazila: "346" },
+  { code: "3110", bn: "মুমুরদিয়া", en: "Mumurdia", upazila: "346" },
+  { code: "3107", bn: "সহশ্রাম ধুলদিয়া", en: "Shahasram Dhuldia", upazila: "346" },
+  { code: "3116", bn: "আগানগর", en: "Aganagar", upazila: "347" },
+  { code: "4565", bn: "ভৈরব পৌরসভা", en: "Bhoirob pourasava", upazila: "347" },
+  { code: "3118", bn: "গজারিয়া", en: "Gajaria", upazila: "347" },
+  { code: "3119", bn: "কালিকা প্রসাদ", en: "Kalika Prashad", upazila: "347" },
+  { code: "3115", bn: "সাদেকপুর", en: "Sadekpur", upazila: "347" },
+  { code: "3121", bn: "শিবপুর", en: "Shibpur", upazila: "347" },
+  { code: "3117", bn: "শিমুলকান্দি", en: "Shimulkandi", upazila: "347" },
+  { code: "3120", bn: "শ্রীনগর", en: "Sreenagar", upazila: "347" },
+  { code: "3126", bn: "দামিহা", en: "Damiha", upazila: "348" },
+  { code: "3124", bn: "ধলা", en: "Dhola", upazila: "348" },
+  { code: "3127", bn: "দিগদাইর", en: "Digdair", upazila: "348" },
+  { code: "3125", bn: "জাওয়ার", en: "Jawar", upazila: "348" },
+  { code: "3123", bn: "রাউতি", en: "Rauti", upazila: "348" },
+  { code: "3122", bn: "তালজাঙ্গা", en: "Taljanga", upazila: "348" },
+  { code: "3128", bn: "তাড়াইল-সাচাইল", en: "Tarail-Sachail", upazila: "348" },
+  { code: "3132", bn: "আড়াইবাড়িয়া", en: "Araibaria", upazila: "349" },
+  { code: "3130", bn: "গোবিন্দপুর", en: "Gobindapur", upazila: "349" },
+  { code: "4570", bn: "হোসেনপুর পৌরসভা", en: "Hossainpur", upazila: "349" },
+  { code: "3129", bn: "জিনারী", en: "Jinari", upazila: "349" },
+  { code: "3134", bn: "পুমদি", en: "Pumdi", upazila: "349" },
+  { code: "3133", bn: "সাহেদল", en: "Sahedal", upazila: "349" },
+  { code: "3131", bn: "সিদলা", en: "Sidhla", upazila: "349" },
+  { code: "3142", bn: "বুড়ুদিয়া", en: "Burudia", upazila: "350" },
+  { code: "3140", bn: "চান্দিপাশা", en: "Chandipasha", upazila: "350" },
+  { code: "3141", bn: "চারফারাদি", en: "Charfaradi", upazila: "350" },
+  { code: "3143", bn: "ইজারাসিন্দুর", en: "Egarasindur", upazila: "350" },
+  { code: "3136", bn: "হোসেনদি", en: "Hosendi", upazila: "350" },
+  { code: "3135", bn: "জাঙ্গালিয়া", en: "Jangalia", upazila: "350" },
+  { code: "3137", bn: "নারান্দি", en: "Narandi", upazila: "350" },
+  { code: "3144", bn: "পাকন্দিয়া", en: "Pakundia", upazila: "350" },
+  { code: "4571", bn: "পাকুন্দিয়া পৌরসভা", en: "Pakundia", upazila: "350" },
+  { code: "3139", bn: "পটুয়াভাঙ্গা", en: "Patuavabga", upazila: "350" },
+  { code: "3138", bn: "সুখিয়া", en: "Shukhia", upazila: "350" },
+  { code: "3147", bn: "ছয়সূতী", en: "Chhaysuti", upazila: "351" },
+  { code: "3150", bn: "ফরিদপুর", en: "Faridpur", upazila: "351" },
+  { code: "3149", bn: "গোবরিয়া আব্দুল্লাহপুর", en: "Gobaria Abdullahpur", upazila: "351" },
+  { code: "4568", bn: "কুলিয়ারচর পৌরসভা", en: "Kuliarchar pourasava", upazila: "351" },
+  { code: "3146", bn: "উছমানপুর", en: "Osmanpur", upazila: "351" },
+  { code: "3145", bn: "রামদী", en: "Ramdi", upazila: "351" },
+  { code: "3148", bn: "সালুয়া", en: "Salua", upazila: "351" },
+  { code: "3157", bn: "বিন্নাটি", en: "Binnati", upazila: "352" },
+  { code: "3156", bn: "বৌলাই", en: "Bowlai", upazila: "352" },
+  { code: "3159", bn: "চৌদ্দশত", en: "Chowddoshata", upazila: "352" },
+  { code: "3161", bn: "দানাপাটুলী", en: "Danapatuli", upazila: "352" },
+  { code: "3155", bn: "যশোদল", en: "Joshodal", upazila: "352" },
+  { code: "3160", bn: "কর্শাকড়িয়াইল", en: "Karshakarial", upazila: "352" },
+  { code: "4563", bn: "কিশোরগঞ্জ পৌরসভা", en: "Kishoreganj Pourasava", upazila: "352" },
+  { code: "3152", bn: "লতিবাবাদ", en: "Latibabad", upazila: "352" },
+  { code: "3153", bn: "মাইজখাপন", en: "Maizkhapan", upazila: "352" },
+  { code: "3158", bn: "মারিয়া", en: "Maria", upazila: "352" },
+  { code: "3154", bn: "মহিনন্দ", en: "Mohinanda", upazila: "352" },
+  { code: "3151", bn: "রশিদাবাদ", en: "Rashidabad", upazila: "352" },
+  { code: "3165", bn: "বারঘড়িয়া", en: "Barogharia", upazila: "353" },
+  { code: "3167", bn: "দেহুন্দা", en: "Dehunda", upazila: "353" },
+  { code: "3163", bn: "গুজাদিয়া", en: "Gujadia", upazila: "353" },
+  { code: "3169", bn: "গুনধর", en: "Gunodhar", upazila: "353" },
+  { code: "3170", bn: "জয়কা", en: "Joyka", upazila: "353" },
+  { code: "3162", bn: "কাদিরজঙ্গল", en: "Kadirjangal", upazila: "353" },
+  { code: "4567", bn: "করিমগঞ্জ পৌরসভা", en: "Karimgonj pourasava", upazila: "353" },
+  { code: "3164", bn: "কিরাটন", en: "Kiraton", upazila: "353" },
+  { code: "3166", bn: "নিয়ামতপুর", en: "Niamatpur", upazila: "353" },
+  { code: "3172", bn: "নোয়াবাদ", en: "Noabad", upazila: "353" },
+  { code: "3168", bn: "সুতারপাড়া", en: "Sutarpara", upazila: "353" },
+  { code: "3171", bn: "জাফরাবাদ", en: "Zafrabad", upazila: "353" },
+  { code: "4569", bn: "বাজিতপুর পৌরসভা", en: "Bajitpur", upazila: "354" },
+  { code: "3183", bn: "বলিয়ার্দী", en: "Boliardi", upazila: "354" },
+  { code: "3182", bn: "দিঘীরপাড়", en: "Dighirpar", upazila: "354" },
+  { code: "3181", bn: "দিলালপুর", en: "Dilalpur", upazila: "354" },
+  { code: "3175", bn: "গাজীরচর", en: "Gazirchar", upazila: "354" },
+  { code: "3179", bn: "হালিমপুর", en: "Halimpur", upazila: "354" },
+  { code: "3176", bn: "হিলচিয়া", en: "Hilochia", upazila: "354" },
+  { code: "3178", bn: "হুমাইপর", en: "Homypur", upazila: "354" },
+  { code: "3173", bn: "কৈলাগ", en: "Kailag", upazila: "354" },
+  { code: "3177", bn: "মাইজচর", en: "Maijchar9", upazila: "354" },
+  { code: "3174", bn: "পিরিজপুর", en: "Pirijpur", upazila: "354" },
+  { code: "3180", bn: "সরারচর", en: "Sararchar", upazila: "354" },
+  { code: "3189", bn: "আদমপুর", en: "Adampur", upazila: "355" },
+  { code: "3186", bn: "অষ্টগ্রাম সদর", en: "Austagram Sadar", upazila: "355" },
+  { code: "3187", bn: "বাঙ্গালপাড়া", en: "Bangalpara", upazila: "355" },
+  { code: "3184", bn: "দেওঘর", en: "Dewghar", upazila: "355" },
+  { code: "3188", bn: "কলমা", en: "Kalma", upazila: "355" },
+  { code: "3185", bn: "কাস্তুল", en: "Kastul", upazila: "355" },
+  { code: "3190", bn: "খয়েরপুর-আব্দুল্লাপুর", en: "Khyerpur-Abdullahpur", upazila: "355" },
+  { code: "3191", bn: "পূর্ব অষ্টগ্রাম", en: "Purba Austagram", upazila: "355" },
+  { code: "3198", bn: "বৈরাটি", en: "Bairati", upazila: "356" },
+  { code: "3194", bn: "ঢাকী", en: "Dhaki", upazila: "356" },
+  { code: "3195", bn: "ঘাগড়া", en: "Ghagra", upazila: "356" },
+  { code: "3192", bn: "গোপদিঘী", en: "Gopdighi", upazila: "356" },
+  { code: "3197", bn: "কাটখাল", en: "Katkhal", upazila: "356" },
+  { code: "3196", bn: "কেওয়ারজোর", en: "Keoarjore", upazila: "356" },
+  { code: "3193", bn: "মিঠামইন", en: "Mithamoin", upazila: "356" },
+  { code: "3199", bn: "ছাতিরচর", en: "Chatirchar", upazila: "357" },
+  { code: "3204", bn: "দামপাড়া", en: "Dampara", upazila: "357" },
+  { code: "3200", bn: "গুরই", en: "Guroi", upazila: "357" },
+  { code: "3201", bn: "জারইতলা", en: "Jaraitala", upazila: "357" },
+  { code: "3203", bn: "কারপাশা", en: "Karpasa", upazila: "357" },
+  { code: "3202", bn: "নিকলী সদর", en: "Nikli Sadar", upazila: "357" },
+  { code: "3205", bn: "সিংপুর", en: "Singpur", upazila: "357" },
+  { code: "3218", bn: "আজিমনগর", en: "Azimnagar", upazila: "358" },
+  { code: "3211", bn: "বয়রা", en: "Baira", upazila: "358" },
+  { code: "3206", bn: "বাল্লা", en: "Balla", upazila: "358" },
+  { code: "3209", bn: "বলড়া", en: "Blara", upazila: "358" },
+  { code: "3208", bn: "চালা", en: "Chala", upazila: "358" },
+  { code: "3217", bn: "ধূলশুড়া", en: "Dhulsura", upazila: "358" },
+  { code: "3207", bn: "গালা", en: "Gala", upazila: "358" },
+  { code: "3213", bn: "গোপীনাথপুর", en: "Gopinathpur", upazila: "358" },
+  { code: "3210", bn: "হারুকান্দি", en: "Harukandi", upazila: "358" },
+  { code: "3214", bn: "কাঞ্চনপুর", en: "Kanchanpur", upazila: "358" },
+  { code: "3215", bn: "লেছড়াগঞ্জ", en: "Lacharagonj", upazila: "358" },
+  { code: "3212", bn: "রামকৃঞ্চপুর", en: "Ramkrishnapur", upazila: "358" },
+  { code: "4554", bn: "সিঙ্গাইর পৌরসভা", en: "Singair Pourashava", upazila: "358" },
+  { code: "3216", bn: "সুতালড়ী", en: "Sutalorie", upazila: "358" },
+  { code: "3221", bn: "বালিয়াটি", en: "Baliyati", upazila: "359" },
+  { code: "3219", bn: "বরাইদ", en: "Baried", upazila: "359" },
+  { code: "3222", bn: "দড়গ্রাম", en: "Dargram", upazila: "359" },
+  { code: "3226", bn: "ধানকোড়া", en: "Dhankora", upazila: "359" },
+  { code: "3220", bn: "দিঘুলিয়া", en: "Dighulia", upazila: "359" },
+  { code: "3227", bn: "ফুকুরহাটি", en: "Fukurhati", upazila: "359" },
+  { code: "3224", bn: "হরগজ", en: "Hargaj", upazila: "359" },
+  { code: "3225", bn: "সাটুরিয়া", en: "Saturia", upazila: "359" },
+  { code: "3223", bn: "তিল্লী", en: "Tilli", upazila: "359" },
+  { code: "3230", bn: "আটিগ্রাম", en: "Atigram", upazila: "360" },
+  { code: "3228", bn: "বেতিলা-মিতরা", en: "Betila-Mitara", upazila: "360" },
+  { code: "3231", bn: "দিঘী", en: "Dighi", upazila: "360" },
+  { code: "3236", bn: "গড়পাড়া", en: "Garpara", upazila: "360" },
+  { code: "3233", bn: "হাটিপাড়া", en: "Hatipara", upazila: "360" },
+  { code: "3229", bn: "জাগীর", en: "Jagir", upazila: "360" },
+  { code: "3237", bn: "কৃঞ্চপুর", en: "Krishnapur", upazila: "360" },
+  { code: "4553", bn: "মানিকগঞ্জ পৌরসভা", en: "Manikganj Pourashava", upazila: "360" },
+  { code: "3235", bn: "নবগ্রাম", en: "Nbogram", upazila: "360" },
+  { code: "3232", bn: "পুটাইল", en: "Putile", upazila: "360" },
+  { code: "3234", bn: "ভাড়ারিয়া", en: "Vararia", upazila: "360" },
+  { code: "3240", bn: "বালিয়াখোড়া", en: "Baliyakhora", upazila: "361" },
+  { code: "3243", bn: "বানিয়াজুড়ী", en: "Baniazuri", upazila: "361" },
+  { code: "3242", bn: "বড়টিয়া", en: "Bartia", upazila: "361" },
+  { code: "3241", bn: "ঘিওর", en: "Gior", upazila: "361" },
+  { code: "3244", bn: "নালী", en: "Nalee", upazila: "361" },
+  { code: "3238", bn: "পয়লা", en: "Paila", upazila: "361" },
+  { code: "3239", bn: "সিংজুড়ী", en: "Shingzuri", upazila: "361" },
+  { code: "3249", bn: "আরুয়া", en: "Aruoa", upazila: "362" },
+  { code: "3250", bn: "মহাদেবপুর", en: "Mohadebpur", upazila: "362" },
+  { code: "3247", bn: "শিবালয়", en: "Shibaloy", upazila: "362" },
+  { code: "3251", bn: "শিমুলিয়া", en: "Shimulia", upazila: "362" },
+  { code: "3245", bn: "তেওতা", en: "Teota", upazila: "362" },
+  { code: "3248", bn: "উলাইল", en: "Ulayel", upazila: "362" },
+  { code: "3246", bn: "উথলী", en: "Utholi", upazila: "362" },
+  { code: "3253", bn: "বাচামারা", en: "Bachamara", upazila: "363" },
+  { code: "3254", bn: "বাঘুটিয়া", en: "Baghutia", upazila: "363" },
+  { code: "3257", bn: "চকমিরপুর", en: "Chakmirpur", upazila: "363" },
+  { code: "3252", bn: "চরকাটারী", en: "Charkataree", upazila: "363" },
+  { code: "3259", bn: "ধামশ্বর", en: "Dhamswar", upazila: "363" },
+  { code: "3256", bn: "খলশী", en: "Khalshi", upazila: "363" },
+  { code: "3258", bn: "কলিয়া", en: "Klia", upazila: "363" },
+  { code: "3255", bn: "জিয়নপুর", en: "Zionpur", upazila: "363" },
+  { code: "3263", bn: "বলধারা", en: "Baldhara", upazila: "364" },
+  { code: "3260", bn: "বায়রা", en: "Buyra", upazila: "364" },
+  { code: "3270", bn: "চান্দহর", en: "Chandhar", upazila: "364" },
+  { code: "3265", bn: "চারিগ্রাম", en: "Charigram", upazila: "364" },
+  { code: "3268", bn: "ধল্লা", en: "Dhalla", upazila: "364" },
+  { code: "3269", bn: "জার্মিতা", en: "Jamirta", upazila: "364" },
+  { code: "3267", bn: "জয়মন্টপ", en: "Joymonto", upazila: "364" },
+  { code: "4990", bn: "সিংগাইর পৌরসভা", en: "Municipality of Singair", upazila: "364" },
+  { code: "3266", bn: "শায়েস্তা", en: "Shayesta", upazila: "364" },
+  { code: "3262", bn: "সিংগাইর", en: "Singiar", upazila: "364" },
+  { code: "3261", bn: "তালেবপুর", en: "Talebpur", upazila: "364" },
+  { code: "3264", bn: "জামশা", en: "Zamsha", upazila: "364" },
+  { code: "3282", bn: "আমিনবাজার", en: "Aminbazar", upazila: "365" },
+  { code: "3275", bn: "আশুলিয়া", en: "Ashulia", upazila: "365" },
+  { code: "3272", bn: "বিরুলিয়া", en: "Birulia", upazila: "365" },
+  { code: "3279", bn: "বনগাঁও", en: "Bongaon", upazila: "365" },
+  { code: "3273", bn: "ধামসোনা", en: "Dhamsona", upazila: "365" },
+  { code: "3280", bn: "কাউন্দিয়া", en: "Kaundia", upazila: "365" },
+  { code: "3278", bn: "পাথালিয়া", en: "Pathalia", upazila: "365" },
+  { code: "3271", bn: "সাভার", en: "Savar", upazila: "365" },
+  { code: "4582", bn: "সাভার পৌরসভা", en: "Savar", upazila: "365" },
+  { code: "3274", bn: "শিমুলিয়া", en: "Shimulia", upazila: "365" },
+  { code: "3281", bn: "তেঁতুলঝোড়া", en: "Tetuljhora", upazila: "365" },
+  { code: "3277", bn: "ভাকুর্তা", en: "Vakurta", upazila: "365" },
+  { code: "3276", bn: "ইয়ারপুর", en: "Yearpur", upazila: "365" },
+  { code: "3284", bn: "আমতা", en: "Amta", upazila: "366" },
+  { code: "3287", bn: "বাইশাকান্দা", en: "Baisakanda", upazila: "366" },
+  { code: "3285", bn: "বালিয়া", en: "Balia", upazila: "366" },
+  { code: "3283", bn: "চৌহাট", en: "Chauhat", upazila: "366" },
+  { code: "3294", bn: "ধামরাই", en: "Dhamrai", upazila: "366" },
+  { code: "4584", bn: "ধামরাই পৌরসভা", en: "Dhamrai", upazila: "366" },
+  { code: "3289", bn: "গাংগুটিয়া", en: "Gangutia", upazila: "366" },
+  { code: "3286", bn: "যাদবপুর", en: "Jadabpur", upazila: "366" },
+  { code: "3295", bn: "কুল্লা", en: "Kulla", upazila: "366" },
+  { code: "3288", bn: "কুশুরা", en: "Kushura", upazila: "366" },
+  { code: "3298", bn: "নান্নার", en: "Nannar", upazila: "366" },
+  { code: "3296", bn: "রোয়াইল", en: "Rowail", upazila: "366" },
+  { code: "3290", bn: "সানোড়া", en: "Sanora", upazila: "366" },
+  { code: "3292", bn: "সোমভাগ", en: "Sombhag", upazila: "366" },
+  { code: "3297", bn: "সুয়াপুর", en: "Suapur", upazila: "366" },
+  { code: "3291", bn: "সূতিপাড়া", en: "Sutipara", upazila: "366" },
+  { code: "3293", bn: "ভাড়ারিয়া", en: "Vararia", upazila: "366" },
+  { code: "3310", bn: "আগানগর", en: "Aganagar", upazila: "367" },
+  { code: "3304", bn: "বাস্তা", en: "Basta", upazila: "367" },
+  { code: "3299", bn: "হযরতপুর", en: "Hazratpur", upazila: "367" },
+  { code: "3300", bn: "কলাতিয়া", en: "Kalatia", upazila: "367" },
+  { code: "3305", bn: "কালিন্দি", en: "Kalindi", upazila: "367" },
+  { code: "3309", bn: "কোন্ডা", en: "Konda", upazila: "367" },
+  { code: "3303", bn: "রোহিতপুর", en: "Ruhitpur", upazila: "367" },
+  { code: "3302", bn: "শাক্তা", en: "Sakta", upazila: "367" },
+  { code: "3307", bn: "শুভাঢ্যা", en: "Suvadda", upazila: "367" },
+  { code: "3308", bn: "তেঘরিয়া", en: "Taghoria", upazila: "367" },
+  { code: "3301", bn: "তারানগর", en: "Taranagar", upazila: "367" },
+  { code: "3306", bn: "জিনজিরা", en: "Zinzira", upazila: "367" },
+  { code: "3322", bn: "আগলা", en: "Agla", upazila: "368" },
+  { code: "3319", bn: "বক্সনগর", en: "Bakshanagar", upazila: "368" },
+  { code: "3317", bn: "বান্দুরা", en: "Bandura", upazila: "368" },
+  { code: "3320", bn: "বাহ্রা", en: "Barrah", upazila: "368" },
+  { code: "3313", bn: "বারুয়াখালী", en: "Baruakhali", upazila: "368" },
+  { code: "3324", bn: "চুড়াইন", en: "Churain", upazila: "368" },
+  { code: "3323", bn: "গালিমপুর", en: "Galimpur", upazila: "368" },
+  { code: "3316", bn: "যন্ত্রাইল", en: "Jantrail", upazila: "368" },
+  { code: "3312", bn: "জয়কৃষ্ণপুর", en: "Joykrishnapur", upazila: "368" },
+  { code: "3321", bn: "কৈলাইল", en: "Kailail", upazila: "368" },
+  { code: "3318", bn: "কলাকোপা", en: "Kalakopa", upazila: "368" },
+  { code: "3314", bn: "নয়নশ্রী", en: "Nayansree", upazila: "368" },
+  { code: "3311", bn: "শিকারীপাড়া", en: "Shikaripara", upazila: "368" },
+  { code: "3315", bn: "শোল্লা", en: "Sholla", upazila: "368" },
+  { code: "3332", bn: "বিলাসপুর", en: "Bilaspur", upazila: "369" },
+  { code: "4583", bn: "দোহার পৌরসভা", en: "Dohar", upazila: "369" },
+  { code: "3326", bn: "কুসুমহাটি", en: "Kusumhathi", upazila: "369" },
+  { code: "3331", bn: "মাহমুদপুর", en: "Mahmudpur", upazila: "369" },
+  { code: "3330", bn: "মুকসুদপুর", en: "Muksudpur", upazila: "369" },
+  { code: "3329", bn: "নারিশা", en: "Narisha", upazila: "369" },
+  { code: "3325", bn: "নয়াবাড়ী", en: "Nayabari", upazila: "369" },
+  { code: "3327", bn: "রাইপাড়া", en: "Raipara", upazila: "369" },
+  { code: "3328", bn: "সুতারপাড়া", en: "Sutarpara", upazila: "369" },
+  { code: "3339", bn: "আধারা", en: "Adhara", upazila: "370" },
+  { code: "3335", bn: "বজ্রযোগিনী", en: "Bajrajogini", upazila: "370" },
+  { code: "3341", bn: "বাংলাবাজার", en: "Banglabazar", upazila: "370" },
+  { code: "3337", bn: "চরকেওয়ার", en: "Charkewar", upazila: "370" },
+  { code: "4742", bn: "মীরকাদিম পৌরসভা", en: "Mirkadim Municipality", upazila: "370" },
+  { code: "3336", bn: "মহাকালী", en: "Mohakali", upazila: "370" },
+  { code: "3338", bn: "মোল্লাকান্দি", en: "Mollakandi", upazila: "370" },
+  { code: "4743", bn: "মুন্সিগঞ্জ পৌরসভা", en: "Munshiganj Municipality", upazila: "370" },
+  { code: "3334", bn: "পঞ্চসার", en: "Panchashar", upazila: "370" },
+  { code: "3333", bn: "রামপাল", en: "Rampal", upazila: "370" },
+  { code: "3340", bn: "শিলই", en: "Shiloy", upazila: "370" },
+  { code: "3354", bn: "আটপাড়া", en: "Atpara", upazila: "371" },
+  { code: "3351", bn: "বাঘড়া", en: "Bagra", upazila: "371" },
+  { code: "3342", bn: "বাড়েখাল", en: "Baraikhali", upazila: "371" },
+  { code: "3344", bn: "বাড়তারা", en: "Birtara", upazila: "371" },
+  { code: "3343", bn: "হাসাড়া", en: "Hashara", upazila: "371" },
+  { code: "3349", bn: "কুলাপাড়া", en: "Kolapara", upazila: "371" },
+  { code: "3353", bn: "কুকুটিয়া", en: "Kukutia", upazila: "371" },
+  { code: "3347", bn: "পাঢাভোগ", en: "Patabhog", upazila: "371" },
+  { code: "3352", bn: "রাঢ়ীখাল", en: "Rarikhal", upazila: "371" },
+  { code: "3348", bn: "শ্যামসিদ্দি", en: "Shamshiddi", upazila: "371" },
+  { code: "3345", bn: "ষোলঘর", en: "Shologhor", upazila: "371" },
+  { code: "3346", bn: "শ্রীনগর", en: "Sreenagar", upazila: "371" },
+  { code: "3355", bn: "তন্তর", en: "Tantor", upazila: "371" },
+  { code: "3350", bn: "ভাগ্যকুল", en: "Vaggakol", upazila: "371" },
+  { code: "3365", bn: "বয়রাগাদি", en: "Bairagadi", upazila: "372" },
+  { code: "3361", bn: "বালুচর", en: "Baluchar", upazila: "372" },
+  { code: "3360", bn: "বাসাইল", en: "Basail", upazila: "372" },
+  { code: "3356", bn: "চিত্রকোট", en: "Chitracoat", upazila: "372" },
+  { code: "3364", bn: "ইছাপুরা", en: "Ichhapura", upazila: "372" },
+  { code: "3369", bn: "জৈনসার", en: "Joyinshar", upazila: "372" },
+  { code: "3359", bn: "কেয়াইন", en: "Keyain", upazila: "372" },
+  { code: "3368", bn: "কোলা", en: "Kola", upazila: "372" },
+  { code: "3362", bn: "লতাব্দী", en: "Latabdi", upazila: "372" },
+  { code: "3367", bn: "মধ্যপাড়া", en: "Madhypara", upazila: "372" },
+  { code: "3366", bn: "মালখানগর", en: "Malkhanagar", upazila: "372" },
+  { code: "3358", bn: "রাজানগর", en: "Rajanagar", upazila: "372" },
+  { code: "3363", bn: "রশুনিয়া", en: "Rasunia", upazila: "372" },
+  { code: "3357", bn: "শেখরনগার", en: "Sekhornagar", upazila: "372" },
+  { code: "3376", bn: "বৌলতলী", en: "Baultoli", upazila: "373" },
+  { code: "3375", bn: "বেজগাঁও", en: "Bejgaon", upazila: "373" },
+  { code: "3378", bn: "গাওদিয়া", en: "Gaodia", upazila: "373" },
+  { code: "3372", bn: "হলদিয়া", en: "Haldia", upazila: "373" },
+  { code: "3379", bn: "কলমা", en: "Kalma", upazila: "373" },
+  { code: "3373", bn: "কনকসার", en: "Kanaksar", upazila: "373" },
+  { code: "3377", bn: "খিদিরপাড়া", en: "Khidirpara", upazila: "373" },
+  { code: "3371", bn: "কুমারভোগ", en: "Kumarbhog", upazila: "373" },
+  { code: "3374", bn: "লৌহজং-তেওটিয়া", en: "Lohajang-Teotia", upazila: "373" },
+  { code: "3370", bn: "মেদিনীমন্ডল", en: "Medinimandal", upazila: "373" },
+  { code: "3383", bn: "বালুয়াকান্দী", en: "Baluakandi", upazila: "374" },
+  { code: "3381", bn: "বাউশিয়া", en: "Baushia", upazila: "374" },
+  { code: "3380", bn: "গজারিয়া", en: "Gajaria", upazila: "374" },
+  { code: "3386", bn: "গুয়াগাছিয়া", en: "Guagachia", upazila: "374" },
+  { code: "3385", bn: "হোসেন্দী", en: "Hosendee", upazila: "374" },
+  { code: "3387", bn: "ইমামপুর", en: "Imampur", upazila: "374" },
+  { code: "3384", bn: "টেংগারচর", en: "Tengarchar", upazila: "374" },
+  { code: "3382", bn: "ভবেরচর", en: "Vaberchar", upazila: "374" },
+  { code: "3389", bn: "আব্দুল্লাপুর", en: "Abdullapur", upazila: "375" },
+  { code: "3392", bn: "আড়িয়ল বালিগাঁও", en: "Arial Baligaon", upazila: "375" },
+  { code: "3391", bn: "আউটশাহী", en: "Autshahi", upazila: "375" },
+  { code: "3388", bn: "বেতকা", en: "Betka", upazila: "375" },
+  { code: "3393", bn: "ধীপুর", en: "Dhipur", upazila: "375" },
+  { code: "3399", bn: "দিঘীরপাড়", en: "Dighirpar", upazila: "375" },
+  { code: "3398", bn: "হাসাইল বানারী", en: "Hasailbanari", upazila: "375" },
+  { code: "3395", bn: "যশলং", en: "Joslong", upazila: "375" },
+  { code: "3397", bn: "কামারখাড়া", en: "Kamarkhara", upazila: "375" },
+  { code: "3394", bn: "কাঠাদিয়া শিমুলিয়া", en: "Kathadia Shimolia", upazila: "375" },
+  { code: "3396", bn: "পাঁচগাও", en: "Panchgaon", upazila: "375" },
+  { code: "3390", bn: "সোনারং টংগীবাড়ী", en: "Sonarong Tongibari", upazila: "375" },
+  { code: "3409", bn: "আলীপুর", en: "Alipur", upazila: "376" },
+  { code: "3404", bn: "বানীবহ", en: "Banibaha", upazila: "376" },
+  { code: "3407", bn: "বসন্তপুর", en: "Basantapur", upazila: "376" },
+  { code: "3401", bn: "বরাট", en: "Borat", upazila: "376" },
+  { code: "3402", bn: "চন্দনী", en: "Chandoni", upazila: "376" },
+  { code: "3405", bn: "দাদশী", en: "Dadshee", upazila: "376" },
+  { code: "3403", bn: "খানগঞ্জ", en: "Khangonj", upazila: "376" },
+  { code: "3408", bn: "খানখানাপুর", en: "Khankhanapur", upazila: "376" },
+  { code: "3400", bn: "মিজানপুর", en: "Mijanpur", upazila: "376" },
+  { code: "3406", bn: "মুলঘর", en: "Mulghar", upazila: "376" },
+  { code: "3412", bn: "পাঁচুরিয়া", en: "Panchuria", upazila: "376" },
+  { code: "4925", bn: "রাজবাড়ী পৌরসভা", en: "Rajbari Municipality", upazila: "376" },
+  { code: "3410", bn: "রামকান্তপুর", en: "Ramkantapur", upazila: "376" },
+  { code: "3411", bn: "শহীদওহাবপুর", en: "Shahidwahabpur", upazila: "376" },
+  { code: "3413", bn: "সুলতানপুর", en: "Sultanpur", upazila: "376" },
+  { code: "3417", bn: "ছোটভাকলা", en: "Chotovakla", upazila: "377" },
+  { code: "3415", bn: "দেবগ্রাম", en: "Debugram", upazila: "377" },
+  { code: "3414", bn: "দৌলতদিয়া", en: "Doulatdia", upazila: "377" },
+  { code: "4991", bn: "গোয়ালন্দ পৌরসভা", en: "Goalanda Municipality", upazila: "377" },
+  { code: "3416", bn: "উজানচর", en: "Uzancar", upazila: "377" },
+  { code: "3421", bn: "বাবুপাড়া", en: "Babupara", upazila: "378" },
+  { code: "3418", bn: "বাহাদুরপুর", en: "Bahadurpur", upazila: "378" },
+  { code: "3419", bn: "হাবাসপুর", en: "Habashpur", upazila: "378" },
+  { code: "3420", bn: "যশাই", en: "Jashai", upazila: "378" },
+  { code: "3425", bn: "কলিমহর", en: "Kalimahar", upazila: "378" },
+  { code: "3426", bn: "কসবামাজাইল", en: "Kasbamajhail", upazila: "378" },
+  { code: "3427", bn: "মাছপাড়া", en: "Machhpara", upazila: "378" },
+  { code: "3422", bn: "মৌরাট", en: "Mourat", upazila: "378" },
+  { code: "4835", bn: "পাংশা পৌরসভা", en: "Pangsha Municipality", upazila: "378" },
+  { code: "3423", bn: "পাট্টা", en: "Patta", upazila: "378" },
+  { code: "3424", bn: "সরিষা", en: "Sarisha", upazila: "378" },
+  { code: "3429", bn: "বহরপুর", en: "Baharpur", upazila: "379" },
+  { code: "3432", bn: "বালিয়াকান্দি", en: "Baliakandi", upazila: "379" },
+  { code: "3428", bn: "ইসলামপুর", en: "Islampur", upazila: "379" },
+  { code: "3434", bn: "জামালপুর", en: "Jamalpur", upazila: "379" },
+  { code: "3433", bn: "জঙ্গল", en: "Janjal", upazila: "379" },
+  { code: "3431", bn: "নারুয়া", en: "Narua", upazila: "379" },
+  { code: "3430", bn: "নবাবপুর", en: "Nawabpur", upazila: "379" },
+  { code: "3438", bn: "বোয়ালিয়া", en: "Boalia", upazila: "380" },
+  { code: "3437", bn: "কালিকাপুর", en: "Kalikapur", upazila: "380" },
+  { code: "3435", bn: "কালুখালী", en: "Kalukhali", upazila: "380" },
+  { code: "3440", bn: "মদাপুর", en: "Madapur", upazila: "380" },
+  { code: "3439", bn: "মাজবাড়ী", en: "Majbari", upazila: "380" },
+  { code: "3442", bn: "মৃগী", en: "Mrigi", upazila: "380" },
+  { code: "3436", bn: "রতনদিয়া", en: "Ratandia", upazila: "380" },
+  { code: "3441", bn: "সাওরাইল", en: "Shawrail", upazila: "380" },
+  { code: "3444", bn: "বাহাদুরপুর", en: "Bahadurpur", upazila: "381" },
+  { code: "3451", bn: "ছিলারচর", en: "Chilarchar", upazila: "381" },
+  { code: "3457", bn: "ধুরাইল", en: "Dhurail", upazila: "381" },
+  { code: "3449", bn: "দুধখালী", en: "Dudkhali", upazila: "381" },
+  { code: "3453", bn: "ঘটমাঝি", en: "Ghatmajhi", upazila: "381" },
+  { code: "3454", bn: "ঝাউদী", en: "Jhaoudi", upazila: "381" },
+  { code: "3450", bn: "কালিকাপুর", en: "Kalikapur", upazila: "381" },
+  { code: "3447", bn: "কেন্দুয়া", en: "Kandua", upazila: "381" },
+  { code: "3455", bn: "খোয়াজপুর", en: "Khoajpur", upazila: "381" },
+  { code: "3445", bn: "কুনিয়া", en: "Kunia", upazila: "381" },
+  { code: "4924", bn: "মাদারীপুর পৌরসভা", en: "Madaripur Municipality", upazila: "381" },
+  { code: "3448", bn: "মস্তফাপুর", en: "Mastofapur", upazila: "381" },
+  { code: "3452", bn: "পাঁচখোলা", en: "Panchkhola", upazila: "381" },
+  { code: "3446", bn: "পেয়ারপুর", en: "Peyarpur", upazila: "381" },
+  { code: "3456", bn: "রাস্তি", en: "Rasti", upazila: "381" },
+  { code: "3443", bn: "শিড়খাড়া", en: "Sirkhara", upazila: "381" },
+  { code: "3471", bn: "বহেরাতলা উত্তর", en: "Baheratala North", upazila: "382" },
+  { code: "3470", bn: "বহেরাতলা দক্ষিণ", en: "Bahertala South", upazila: "382" },
+  { code: "3461", bn: "বন্দরখোলা", en: "Bandarkhola", upazila: "382" },
+  { code: "3472", bn: "বাঁশকান্দি", en: "Baskandi", upazila: "382" },
+  { code: "3462", bn: "চরজানাজাত", en: "Charjanazat", upazila: "382" },
+  { code: "3476", bn: "দত্তপাড়া", en: "Dattapara", upazila: "382" },
+  { code: "3459", bn: "দ্বিতীয়খন্ড", en: "Ditiyakhando", upazila: "382" },
+  { code: "3468", bn: "কাদিরপুর", en: "Kadirpur", upazila: "382" },
+  { code: "3466", bn: "কাঁঠালবাড়ী", en: "Kathalbari", upazila: "382" },
+  { code: "3467", bn: "কুতুবপুর", en: "Kutubpur", upazila: "382" },
+  { code: "3463", bn: "মাদবরেরচর", en: "Madbarerchar", upazila: "382" },
+  { code: "3460", bn: "নিলখি", en: "Nilokhe", upazila: "382" },
+  { code: "3464", bn: "পাঁচচর", en: "Panchar", upazila: "382" },
+  { code: "3465", bn: "সন্যাসিরচর", en: "Sannasirchar", upazila: "382" },
+  { code: "3458", bn: "শিবচর", en: "Shibchar", upazila: "382" },
+  { code: "3475", bn: "শিরুয়াইল", en: "Shiruail", upazila: "382" },
+  { code: "4989", bn: "শিবচর পৌরসভা", en: "Shivchar Municipality", upazila: "382" },
+  { code: "3473", bn: "উমেদপুর", en: "Umedpur", upazila: "382" },
+  { code: "3474", bn: "ভদ্রাসন", en: "Vhadrasion", upazila: "382" },
+  { code: "3469", bn: "ভান্ডারীকান্দি", en: "Vhandarikandi", upazila: "382" },
+  { code: "3477", bn: "আলীনগর", en: "Alinagar", upazila: "383" },
+  { code: "3478", bn: "বালীগ্রাম", en: "Baligram", upazila: "383" },
+  { code: "3479", bn: "বাঁশগাড়ী", en: "Basgari", upazila: "383" },
+  { code: "3480", bn: "চরদৌলতখান", en: "Chardoulatkhan", upazila: "383" },
+  { code: "3481", bn: "ডাসার", en: "Dashar", upazila: "383" },
+  { code: "3482", bn: "এনায়েতনগর", en: "Enayetnagor", upazila: "383" },
+  { code: "3483", bn: "গোপালপুর", en: "Gopalpur", upazila: "383" },
+  { code: "4833", bn: "কালকিনি পৌরসভা", en: "Kalkini Municipality", upazila: "383" },
+  { code: "3485", bn: "কাজীবাকাই", en: "Kazibakai", upazila: "383" },
+  { code: "3484", bn: "কয়ারিয়া", en: "Koyaria", upazila: "383" },
+  { code: "3486", bn: "লক্ষীপুর", en: "Laxmipur", upazila: "383" },
+  { code: "3487", bn: "নবগ্রাম", en: "Nabogram", upazila: "383" },
+  { code: "3488", bn: "রমজানপুর", en: "Ramjanpur", upazila: "383" },
+  { code: "3489", bn: "সাহেবরামপুর", en: "Shahebrampur", upazila: "383" },
+  { code: "3490", bn: "শিকারমঙ্গল", en: "Shikarmongol", upazila: "383" },
+  { code: "3494", bn: "আমগ্রাম", en: "Amgram", upazila: "384" },
+  { code: "3498", bn: "বদরপাশা", en: "Badarpasa", upazila: "384" },
+  { code: "3493", bn: "বাজিতপুর", en: "Bajitpur", upazila: "384" },
+  { code: "3491", bn: "হরিদাসদী-মহেন্দ্রদী", en: "Haridasdi-Mahendrodi", upazila: "384" },
+  { code: "3500", bn: "হোসেনপুর", en: "Hosenpur", upazila: "384" },
+  { code: "3497", bn: "ইশিবপুর", en: "Ishibpur", upazila: "384" },
+  { code: "3499", bn: "কবিরাজপুর", en: "Kabirajpur", upazila: "384" },
+  { code: "3492", bn: "কদমবাড়ী", en: "Kadambari", upazila: "384" },
+  { code: "3496", bn: "খালিয়া", en: "Khaliya", upazila: "384" },
+  { code: "3501", bn: "পাইকপাড়া", en: "Paikpara", upazila: "384" },
+  { code: "3495", bn: "রাজৈর", en: "Rajoir", upazila: "384" },
+  { code: "4834", bn: "রাজৈর পৌরসভা", en: "Rajouri Municipality", upazila: "384" },
+  { code: "3520", bn: "বোড়াশী", en: "Borashi", upazila: "385" },
+  { code: "3522", bn: "বৌলতলী", en: "Boultali", upazila: "385" },
+  { code: "3504", bn: "চন্দ্রদিঘলিয়া", en: "Chandradighalia", upazila: "385" },
+  { code: "3515", bn: "দুর্গাপুর", en: "Durgapur", upazila: "385" },
+  { code: "3519", bn: "গোবরা", en: "Gobra", upazila: "385" },
+  { code: "4579", bn: "গোপালগঞ্জ পৌরসভা", en: "Gopalganj", upazila: "385" },
+  { code: "3505", bn: "গোপীনাথপুর", en: "Gopinathpur", upazila: "385" },
+  { code: "3511", bn: "হরিদাসপুর", en: "Horidaspur", upazila: "385" },
+  { code: "3502", bn: "জালালাবাদ", en: "Jalalabad", upazila: "385" },
+  { code: "3516", bn: "কাজুলিয়া", en: "Kajulia", upazila: "385" },
+  { code: "3514", bn: "করপাড়া", en: "Karpara", upazila: "385" },
+  { code: "3521", bn: "কাঠি", en: "Kati", upazila: "385" },
+  { code: "3508", bn: "লতিফপুর", en: "Lotifpur", upazila: "385" },
+  { code: "3517", bn: "মাঝিগাতী", en: "Majhigati", upazila: "385" },
+  { code: "3513", bn: "নিজড়া", en: "Nizra", upazila: "385" },
+  { code: "3506", bn: "পাইককান্দি", en: "Paikkandi", upazila: "385" },
+  { code: "3518", bn: "রঘুনাথপুর", en: "Roghunathpur", upazila: "385" },
+  { code: "3510", bn: "সাহাপুর", en: "Sahapur", upazila: "385" },
+  { code: "3509", bn: "সাতপাড়", en: "Satpar", upazila: "385" },
+  { code: "3503", bn: "শুকতাইল", en: "Shuktail", upazila: "385" },
+  { code: "3512", bn: "উলপুর", en: "Ulpur", upazila: "385" },
+  { code: "3507", bn: "উরফি", en: "Urfi", upazila: "385" },
+  { code: "3527", bn: "বেথুড়ী", en: "Bethuri", upazila: "386" },
+  { code: "3525", bn: "ফুকরা", en: "Fukura", upazila: "386" },
+  { code: "3524", bn: "হাতিয়াড়া", en: "Hatiara", upazila: "386" },
+  { code: "3523", bn: "কাশিয়ানী", en: "Kashiani", upazila: "386" },
+  { code: "3531", bn: "মহেশপুর", en: "Maheshpur", upazila: "386" },
+  { code: "3530", bn: "মাহমুদপুর", en: "Mamudpur", upazila: "386" },
+  { code: "3528", bn: "নিজামকান্দি", en: "Nijamkandi", upazila: "386" },
+  { code: "3532", bn: "ওড়াকান্দি", en: "Orakandia", upazila: "386" },
+  { code: "3533", bn: "পারুলিয়া", en: "Parulia", upazila: "386" },
+  { code: "3535", bn: "পুইশুর", en: "Puisur", upazila: "386" },
+  { code: "3526", bn: "রাজপাট", en: "Rajpat", upazila: "386" },
+  { code: "3534", bn: "রাতইল", en: "Ratail", upazila: "386" },
+  { code: "3529", bn: "সাজাইল", en: "Sajail", upazila: "386" },
+  { code: "3536", bn: "সিংগা", en: "Singa", upazila: "386" },
+  { code: "3540", bn: "বর্ণি", en: "Borni", upazila: "387" },
+  { code: "3541", bn: "ডুমরিয়া", en: "Dumaria", upazila: "387" },
+  { code: "3538", bn: "গোপালপুর", en: "Gopalpur", upazila: "387" },
+  { code: "3537", bn: "কুশলী", en: "Kushli", upazila: "387" },
+  { code: "3539", bn: "পাটগাতী", en: "Patgati", upazila: "387" },
+  { code: "4580", bn: "টুঙ্গিপাড়া পৌরসভা", en: "Tungipara", upazila: "387" },
+  { code: "3547", bn: "আমতলী", en: "Amtoli", upazila: "388" },
+  { code: "3544", bn: "বান্ধাবাড়ী", en: "Bandhabari", upazila: "388" },
+  { code: "3549", bn: "ঘাঘর", en: "Ghaghor", upazila: "388" },
+  { code: "3551", bn: "হিরণ", en: "Hiron", upazila: "388" },
+  { code: "3552", bn: "কান্দি", en: "Kandi", upazila: "388" },
+  { code: "3545", bn: "কলাবাড়ী", en: "Kolabari", upazila: "388" },
+  { code: "4578", bn: "কোটালীপাড়া পৌরসভা", en: "Kotalipara", upazila: "388" },
+  { code: "3546", bn: "কুশলা", en: "Kushla", upazila: "388" },
+  { code: "3548", bn: "পিঞ্জুরী", en: "Pinjuri", upazila: "388" },
+  { code: "3550", bn: "রাধাগঞ্জ", en: "Radhaganj", upazila: "388" },
+  { code: "3543", bn: "রামশীল", en: "Ramshil", upazila: "388" },
+  { code: "3542", bn: "সাদুল্লাপুর", en: "Sadullapur", upazila: "388" },
+  { code: "3560", bn: "বাশঁবাড়িয়া", en: "Banshbaria", upazila: "389" },
+  { code: "3563", bn: "বাটিকামারী", en: "Batikamari", upazila: "389" },
+  { code: "3559", bn: "বহুগ্রাম", en: "Bohugram", upazila: "389" },
+  { code: "3555", bn: "দিগনগর", en: "Dignagar", upazila: "389" },
+  { code: "3557", bn: "গোবিন্দপুর", en: "Gobindopur", upazila: "389" },
+  { code: "3566", bn: "গোহালা", en: "Gohala", upazila: "389" },
+  { code: "3564", bn: "জলিরপাড়", en: "Jalirpar", upazila: "389" },
+  { code: "3568", bn: "কাশালিয়া", en: "Kashalia", upazila: "389" },
+  { code: "3558", bn: "খান্দারপাড়া", en: "Khandarpara", upazila: "389" },
+  { code: "3567", bn: "মোচনা", en: "Mochna", upazila: "389" },
+  { code: "3562", bn: "মহারাজপুর", en: "Moharajpur", upazila: "389" },
+  { code: "4581", bn: "মুকসুদপুর পৌরসভা", en: "Muksudpur", upazila: "389" },
+  { code: "3554", bn: "ননীক্ষীর", en: "Nanikhir", upazila: "389" },
+  { code: "3556", bn: "পশারগাতি", en: "Poshargati", upazila: "389" },
+  { code: "3565", bn: "রাঘদী", en: "Raghdi", upazila: "389" },
+  { code: "3553", bn: "উজানী", en: "Ujani", upazila: "389" },
+  { code: "3561", bn: "ভাবড়াশুর", en: "Vabrashur", upazila: "389" },
+  { code: "3571", bn: "আলিয়াবাদ", en: "Aliabad", upazila: "390" },
+  { code: "3576", bn: "অম্বিকাপুর", en: "Ambikapur", upazila: "390" },
+  { code: "3570", bn: "চরমাধবদিয়া", en: "Charmadbdia", upazila: "390" },
+  { code: "3573", bn: "ডিক্রিরচর", en: "Decreerchar", upazila: "390" },
+  { code: "4741", bn: "ফরিদপুর পৌরসভা", en: "Faridpur Municipality", upazila: "390" },
+  { code: "3579", bn: "গেরদা", en: "Greda", upazila: "390" },
+  { code: "3569", bn: "ঈশানগোপালপুর", en: "Ishangopalpur", upazila: "390" },
+  { code: "3578", bn: "কৈজুরী", en: "Kaijuri", upazila: "390" },
+  { code: "3577", bn: "কানাইপুর", en: "Kanaipur", upazila: "390" },
+  { code: "3575", bn: "কৃষ্ণনগর", en: "Krishnanagar", upazila: "390" },
+  { code: "3574", bn: "মাচ্চর", en: "Majchar", upazila: "390" },
+  { code: "3572", bn: "নর্থচ্যানেল", en: "Uttarchannel", upazila: "390" },
+  { code: "3581", bn: "আলফাডাঙ্গা", en: "Alfadanga", upazila: "391" },
+  { code: "4987", bn: "আলফাডাঙ্গা পৌরসভা", en: "Alfadanga Municipality", upazila: "391" },
+  { code: "3583", bn: "বানা", en: "Bana", upazila: "391" },
+  { code: "3580", bn: "বুড়াইচ", en: "Buraich", upazila: "391" },
+  { code: "3585", bn: "গোপালপুর", en: "Gopalpur", upazila: "391" },
+  { code: "3584", bn: "পাঁচুড়িয়া", en: "Panchuria", upazila: "391" },
+  { code: "3582", bn: "টগরবন্দ", en: "Tagarbanda", upazila: "391" },
+  { code: "3586", bn: "বোয়ালমারী", en: "Boalmari", upazila: "392" },
+  { code: "4922", bn: "বোয়ালমারী পৌরসভা", en: "Boalmari Municipality", upazila: "392" },
+  { code: "3591", bn: "চাঁদপুর", en: "Chandpur", upazila: "392" },
+  { code: "3588", bn: "চতুল", en: "Chatul", upazila: "392" },
+  { code: "3587", bn: "দাদপুর", en: "Dadpur", upazila: "392" },
+  { code: "3589", bn: "ঘোষপুর", en: "Ghoshpur", upazila: "392" },
+  { code: "3590", bn: "গুনবহা", en: "Gunbaha", upazila: "392" },
+  { code: "3596", bn: "ময়না", en: "Moyna", upazila: "392" },
+  { code: "3592", bn: "পরমেশ্বরদী", en: "Parameshwardi", upazila: "392" },
+  { code: "3594", bn: "রূপাপাত", en: "Rupapat", upazila: "392" },
+  { code: "3593", bn: "সাতৈর", en: "Satair", upazila: "392" },
+  { code: "3595", bn: "শেখর", en: "Shekhar", upazila: "392" },
+  { code: "3598", bn: "আকোটের চর", en: "Akoter Char", upazila: "393" },
+  { code: "3601", bn: "ভাষানচর", en: "Bhashanchar", upazila: "393" },
+  { code: "3597", bn: "চর বিষ্ণুপুর", en: "Char Bisnopur", upazila: "393" },
+  { code: "3604", bn: "চর মানাইর", en: "Char Manair", upazila: "393" },
+  { code: "3599", bn: "চর নাসিরপুর", en: "Char Nasirpur", upazila: "393" },
+  { code: "3605", bn: "ঢেউখালী", en: "Dhaukhali", upazila: "393" },
+  { code: "3602", bn: "কৃষ্ণপুর", en: "Krishnapur", upazila: "393" },
+  { code: "3600", bn: "নারিকেল বাড়িয়া", en: "Narikel Bariya", upazila: "393" },
+  { code: "3603", bn: "সদরপুর", en: "Sadarpur", upazila: "393" },
+  { code: "3606", bn: "চরযশোরদী", en: "Charjashordi", upazila: "394" },
+  { code: "3613", bn: "ডাঙ্গী", en: "Dangi", upazila: "394" },
+  { code: "3612", bn: "ফুলসুতি", en: "Fulsuti", upazila: "394" },
+  { code: "3610", bn: "কাইচাইল", en: "Kaichail", upazila: "394" },
+  { code: "3614", bn: "কোদালিয়া শহিদনগর", en: "Kodalia Shohidnagar", upazila: "394" },
+  { code: "3608", bn: "লস্করদিয়া", en: "Laskardia", upazila: "394" },
+  { code: "4988", bn: "নগরকান্দা পৌরসভা", en: "Nagarkanda Municipality", upazila: "394" },
+  { code: "3607", bn: "পুরাপাড়া", en: "Purapara", upazila: "394" },
+  { code: "3609", bn: "রামনগর", en: "Ramnagar", upazila: "394" },
+  { code: "3611", bn: "তালমা", en: "Talma", upazila: "394" },
+  { code: "3621", bn: "আলগী", en: "Algi", upazila: "395" },
+  { code: "3624", bn: "আজিমনগর", en: "Azimnagor", upazila: "395" },
+  { code: "4832", bn: "ভাঙ্গা পৌরসভা", en: "Bhanga municipality", upazila: "395" },
+  { code: "3625", bn: "চান্দ্রা", en: "Chandra", upazila: "395" },
+  { code: "3622", bn: "চুমুরদী", en: "Chumurdi", upazila: "395" },
+  { code: "3615", bn: "ঘারুয়া", en: "Gharua", upazila: "395" },
+  { code: "3626", bn: "হামিরদী", en: "Hamirdi", upazila: "395" },
+  { code: "3623", bn: "কালামৃধা", en: "Kalamridha", upazila: "395" },
+  { code: "3618", bn: "কাউলিবেড়া", en: "Kawlibera", upazila: "395" },
+  { code: "3617", bn: "মানিকদহ", en: "Manikdha", upazila: "395" },
+  { code: "3619", bn: "নাছিরাবাদ", en: "Nasirabad", upazila: "395" },
+  { code: "3616", bn: "নুরুল্যাগঞ্জ", en: "Nurullagonj", upazila: "395" },
+  { code: "3620", bn: "তুজারপুর", en: "Tujerpur", upazila: "395" },
+  { code: "3628", bn: "চর ভদ্রাসন", en: "Char Bhadrasan", upazila: "396" },
+  { code: "3629", bn: "চর হরিরামপুর", en: "Char Harirampur", upazila: "396" },
+  { code: "3630", bn: "চর ঝাউকান্দা", en: "Char Jahukanda", upazila: "396" },
+  { code: "3627", bn: "গাজীরটেক", en: "Gazirtek", upazila: "396" },
+  { code: "3636", bn: "বাগাট", en: "Bagat", upazila: "397" },
+  { code: "3637", bn: "ডুমাইন", en: "Dumain", upazila: "397" },
+  { code: "3633", bn: "গাজনা", en: "Gazna", upazila: "397" },
+  { code: "3632", bn: "জাহাপুর", en: "Jahapur", upazila: "397" },
+  { code: "3639", bn: "কামারখালী", en: "Kamarkhali", upazila: "397" },
+  { code: "3631", bn: "মধুখালী", en: "Madhukhali", upazila: "397" },
+  { code: "4923", bn: "মধুখালী পৌরসভা", en: "Madhukhali Municipality", upazila: "397" },
+  { code: "3634", bn: "মেগচামী", en: "Megchami", upazila: "397" },
+  { code: "3638", bn: "নওপাড়া", en: "Nowpara", upazila: "397" },
+  { code: "3635", bn: "রায়পুর", en: "Raipur", upazila: "397" },
+  { code: "3641", bn: "আটঘর", en: "Atghar", upazila: "398" },
+  { code: "3643", bn: "বল্লভদী", en: "Ballabhdi", upazila: "398" },
+  { code: "3640", bn: "ভাওয়াল", en: "Bhawal", upazila: "398" },
+  { code: "3644", bn: "গট্টি", en: "Gatti", upazila: "398" },
+  { code: "3645", bn: "যদুনন্দী", en: "Jadunandi", upazila: "398" },
+  { code: "3642", bn: "মাঝারদিয়া", en: "Mazadia", upazila: "398" },
+  { code: "3646", bn: "রামকান্তপুর", en: "Ramkantapur", upazila: "398" },
+  { code: "3647", bn: "সোনাপুর", en: "Sonapur", upazila: "398" },
+  { code: "3650", bn: "অমরখানা", en: "Amarkhana", upazila: "399" },
+  { code: "3652", bn: "চাকলাহাট", en: "Chaklahat", upazila: "399" },
+  { code: "3655", bn: "ধাক্কামারা", en: "Dhakkamara", upazila: "399" },
+  { code: "3657", bn: "গরিনাবাড়ী", en: "Garinabari", upazila: "399" },
+  { code: "3653", bn: "হাফিজাবাদ", en: "Hafizabad", upazila: "399" },
+  { code: "3651", bn: "হাড়িভাসা", en: "Haribhasa", upazila: "399" },
+  { code: "3654", bn: "কামাত কাজল দীঘি", en: "Kamat Kajol Dighi", upazila: "399" },
+  { code: "3656", bn: "মাগুরা", en: "Magura", upazila: "399" },
+  { code: "4812", bn: "পঞ্চগড় পৌরসভা", en: "Panchagarh Municipality", upazila: "399" },
+  { code: "3648", bn: "পঞ্চগড় সদর", en: "Panchagarh Sadar", upazila: "399" },
+  { code: "3649", bn: "সাতমেরা", en: "Satmara", upazila: "399" },
+  { code: "3667", bn: "চেংঠী হাজরা ডাঙ্গা", en: "Chengthi Hazra Danga", upazila: "400" },
+  { code: "3658", bn: "চিলাহাটি", en: "Chilahati", upazila: "400" },
+  { code: "3665", bn: "দন্ডপাল", en: "Dandopal", upazila: "400" },
+  { code: "3666", bn: "দেবীডুবা", en: "Debiduba", upazila: "400" },
+  { code: "4814", bn: "দেবিগঞ্জ পৌরসভা", en: "Debiganj Municipality", upazila: "400" },
+  { code: "3660", bn: "দেবীগঞ্জ সদর", en: "Debiganj Sadar", upazila: "400" },
+  { code: "3661", bn: "পামুলী", en: "Pamuli", upazila: "400" },
+  { code: "3659", bn: "শালডাঙ্গা", en: "Shaldanga", upazila: "400" },
+  { code: "3663", bn: "সোনাহার মল্লিকাদহ", en: "Sonahar Mollikadaha", upazila: "400" },
+  { code: "3662", bn: "সুন্দরদিঘী", en: "Sundardighi", upazila: "400" },
+  { code: "3664", bn: "টেপ্রীগঞ্জ", en: "Tepriganj", upazila: "400" },
+  { code: "3670", bn: "বেংহারী", en: "Banghari", upazila: "401" },
+  { code: "3675", bn: "বোদা", en: "Boda", upazila: "401" },
+  { code: "4813", bn: "বোদা পৌরসভা", en: "Boda Municipality", upazila: "401" },
+  { code: "3672", bn: "বড়শশী", en: "Boroshoshi", upazila: "401" },
+  { code: "3673", bn: "চন্দনবাড়ী", en: "Chandanbari", upazila: "401" },
+  { code: "3668", bn: "ঝলইশাল শিরি", en: "Jholaishal Shiri", upazila: "401" },
+  { code: "3671", bn: "কাজলদীঘি কালিগঞ্জ", en: "Kajoldighi Kaligonj", upazila: "401" },
+  { code: "3674", bn: "মাড়েয়া বামনহাট", en: "Marea Bamonhat", upazila: "401" },
+  { code: "3669", bn: "ময়দান দীঘি", en: "Moidandighi", upazila: "401" },
+  { code: "3677", bn: "পাচপীর", en: "Pachpir", upazila: "401" },
+  { code: "3676", bn: "সাকোয়া", en: "Sakoa", upazila: "401" },
+  { code: "3682", bn: "আলোয়াখোয়া", en: "Alowakhowa", upazila: "402" },
+  { code: "3681", bn: "বলরামপুর", en: "Balarampur", upazila: "402" },
+  { code: "3683", bn: "ধামোর", en: "Dhamor", upazila: "402" },
+  { code: "3678", bn: "মির্জাপুর", en: "Mirgapur", upazila: "402" },
+  { code: "3679", bn: "রাধানগর", en: "Radhanagar", upazila: "402" },
+  { code: "3680", bn: "তোড়িয়া", en: "Toria", upazila: "402" },
+  { code: "3684", bn: "বাংলাবান্ধা", en: "Banglabandha", upazila: "403" },
+  { code: "3685", bn: "ভজনপুর", en: "Bhojoanpur", upazila: "403" },
+  { code: "3687", bn: "বুড়াবুড়ী", en: "Buraburi", upazila: "403" },
+  { code: "3688", bn: "দেবনগর", en: "Debnagar", upazila: "403" },
+  { code: "3689", bn: "শালবাহান", en: "Salbahan", upazila: "403" },
+  { code: "3690", bn: "তেতুলিয়া", en: "Tentulia", upazila: "403" },
+  { code: "3691", bn: "তিমাইহাট", en: "Timaihat", upazila: "403" },
+  { code: "3697", bn: "ভাদুরিয়া", en: "Bhaduria", upazila: "404" },
+  { code: "3693", bn: "বিনোদনগর", en: "Binodnagar", upazila: "404" },
+  { code: "3698", bn: "দাউদপুর", en: "Daudpur", upazila: "404" },
+  { code: "3694", bn: "গোলাপগঞ্জ", en: "Golapgonj", upazila: "404" },
+  { code: "3692", bn: "জয়পুর", en: "Joypur", upazila: "404" },
+  { code: "3700", bn: "কুশদহ", en: "Kushdaha", upazila: "404" },
+  { code: "3699", bn: "মাহামুদপুর", en: "Mahmudpur", upazila: "404" },
+  { code: "3696", bn: "পুটিমারা", en: "Putimara", upazila: "404" },
+  { code: "3695", bn: "শালখুরিয়া", en: "Shalkhuria", upazila: "404" },
+  { code: "3708", bn: "ভোগনগর", en: "Bhognagar", upazila: "405" },
+  { code: "4811", bn: "বীরগঞ্জ পৌরসভা", en: "Birganj Municipality", upazila: "405" },
+  { code: "3707", bn: "মোহাম্মদপুর", en: "Mohammadpur", upazila: "405" },
+  { code: "3710", bn: "মোহনপুর", en: "Mohonpur", upazila: "405" },
+  { code: "3711", bn: "মরিচা", en: "Moricha", upazila: "405" },
+  { code: "3706", bn: "নিজপাড়া", en: "Nijpara", upazila: "405" },
+  { code: "3704", bn: "পাল্টাপুর", en: "Paltapur", upazila: "405" },
+  { code: "3702", bn: "পলাশবাড়ী", en: "Polashbari", upazila: "405" },
+  { code: "3709", bn: "সাতোর", en: "Sator", upazila: "405" },
+  { code: "3703", bn: "শতগ্রাম", en: "Shatagram", upazila: "405" },
+  { code: "3701", bn: "শিবরামপুর", en: "Shibrampur", upazila: "405" },
+  { code: "3705", bn: "সুজালপুর", en: "Sujalpur", upazila: "405" },
+  { code: "3712", bn: "বুলাকীপুর", en: "Bulakipur", upazila: "406" },
+  { code: "3715", bn: "ঘোড়াঘাট", en: "Ghoraghat", upazila: "406" },
+  { code: "4897", bn: "ঘোড়াঘাট পৌরসভা", en: "Ghoraghat Municipality", upazila: "406" },
+  { code: "3713", bn: "পালশা", en: "Palsha", upazila: "406" },
+  { code: "3714", bn: "সিংড়া", en: "Singra", upazila: "406" },
+  { code: "3720", bn: "বিনাইল", en: "Binail", upazila: "407" },
+  { code: "4895", bn: "বিরামপুর পৌরসভা", en: "Birampur Municipality", upazila: "407" },
+  { code: "3719", bn: "দিওড়", en: "Dior", upazila: "407" },
+  { code: "3721", bn: "জোতবানী", en: "Jatbani", upazila: "407" },
+  { code: "3717", bn: "কাটলা", en: "Katla", upazila: "407" },
+  { code: "3718", bn: "খানপুর", en: "Khanpur", upazila: "407" },
+  { code: "3716", bn: "মুকুন্দপুর", en: "Mukundopur", upazila: "407" },
+  { code: "3722", bn: "পলিপ্রয়াগপুর", en: "Poliproyagpur", upazila: "407" },
+  { code: "3723", bn: "বেলাইচন্ডি", en: "Belaichandi", upazila: "408" },
+  { code: "3727", bn: "চন্ডীপুর", en: "Chandipur", upazila: "408" },
+  { code: "3730", bn: "হাবড়া", en: "Habra", upazila: "408" },
+  { code: "3731", bn: "হামিদপুর", en: "Hamidpur", upazila: "408" },
+  { code: "3732", bn: "হরিরামপুর", en: "Harirampur", upazila: "408" },
+  { code: "3728", bn: "মোমিনপুর", en: "Mominpur", upazila: "408" },
+  { code: "3724", bn: "মন্মথপুর", en: "Monmothopur", upazila: "408" },
+  { code: "3729", bn: "মোস্তফাপুর", en: "Mostofapur", upazila: "408" },
+  { code: "4809", bn: "পার্বতীপুর পৌরসভা", en: "Parbatipur Municipality", upazila: "408" },
+  { code: "3726", bn: "পলাশবাড়ী", en: "Polashbari", upazila: "408" },
+  { code: "3725", bn: "রামপুর", en: "Rampur", upazila: "408" },
+  { code: "3735", bn: "আটগাঁও", en: "Atgaon", upazila: "409" },
+  { code: "3734", bn: "ঈশানিয়া", en: "Eshania", upazila: "409" },
+  { code: "3738", bn: "মুর্শিদহাট", en: "Murshidhat", upazila: "409" },
+  { code: "3733", bn: "নাফানগর", en: "Nafanagar", upazila: "409" },
+  { code: "3737", bn: "রনগাঁও", en: "Rongaon", upazila: "409" },
+  { code: "4896", bn: "সেতাবগঞ্জ পৌরসভা", en: "Setabganj Municipality", upazila: "409" },
+  { code: "3736", bn: "ছাতইল", en: "Shatail", upazila: "409" },
+  { code: "3739", bn: "ডাবোর", en: "Dabor", upazila: "410" },
+  { code: "3741", bn: "মুকুন্দপুর", en: "Mukundapur", upazila: "410" },
+  { code: "3743", bn: "রামচন্দ্রপুর", en: "Ramchandrapur", upazila: "410" },
+  { code: "3740", bn: "রসুলপুর", en: "Rasulpur", upazila: "410" },
+  { code: "3744", bn: "সুন্দরপুর", en: "Sundarpur", upazila: "410" },
+  { code: "3742", bn: "তারগাঁও", en: "Targao", upazila: "410" },
+  { code: "3746", bn: "আলাদিপুর", en: "Aladipur", upazila: "411" },
+  { code: "3745", bn: "এলুয়াড়ী", en: "Aloary", upazila: "411" },
+  { code: "3748", bn: "বেতদিঘী", en: "Bethdighi", upazila: "411" },
+  { code: "3750", bn: "দৌলতপুর", en: "Daulatpur", upazila: "411" },
+  { code: "3747", bn: "কাজীহাল", en: "Kagihal", upazila: "411" },
+  { code: "3749", bn: "খয়েরবাড়ী", en: "Khairbari", upazila: "411" },
+  { code: "4810", bn: "ফুলবাড়ী পৌরসভা", en: "Phulbari Municipality", upazila: "411" },
+  { code: "3751", bn: "শিবনগর", en: "Shibnagor", upazila: "411" },
+  { code: "3760", bn: "আস্করপুর", en: "Askorpur", upazila: "412" },
+  { code: "3757", bn: "আউলিয়াপুর", en: "Auliapur", upazila: "412" },
+  { code: "3752", bn: "চেহেলগাজী", en: "Chealgazi", upazila: "412" },
+  { code: "4808", bn: "দিনাজপুর পৌরসভা", en: "Dinajpur Municipality", upazila: "412" },
+  { code: "3754", bn: "ফাজিলপুর", en: "Fazilpur", upazila: "412" },
+  { code: "3761", bn: "কমলপুর", en: "Kamalpur", upazila: "412" },
+  { code: "3759", bn: "শংকরপুর", en: "Sankarpur", upazila: "412" },
+  { code: "3756", bn: "শশরা", en: "Shashora", upazila: "412" },
+  { code: "3755", bn: "শেখপুরা", en: "Shekpura", upazila: "412" },
+  { code: "3753", bn: "সুন্দরবন", en: "Sundorbon", upazila: "412" },
+  { code: "3758", bn: "উথরাইল", en: "Uthrail", upazila: "412" },
+  { code: "3762", bn: "আলীহাট", en: "Alihat", upazila: "413" },
+  { code: "3764", bn: "বোয়ালদার", en: "Boalder", upazila: "413" },
+  { code: "5052", bn: "হাকিমপুর পৌরসভা", en: "Hakimpur Municipality", upazila: "413" },
+  { code: "3763", bn: "খট্টামাধবপাড়া", en: "Khattamadobpara", upazila: "413" },
+  { code: "3765", bn: "আলোকঝাড়ী", en: "Alokjhari", upazila: "414" },
+  { code: "3767", bn: "আঙ্গারপাড়া", en: "Angarpara", upazila: "414" },
+  { code: "3769", bn: "ভাবকী", en: "Bhabki", upazila: "414" },
+  { code: "3766", bn: "ভেড়ভেড়ী", en: "Bherbheri", upazila: "414" },
+  { code: "3768", bn: "গোয়ালডিহি", en: "Goaldihi", upazila: "414" },
+  { code: "3770", bn: "খামারপাড়া", en: "Khamarpara", upazila: "414" },
+  { code: "3771", bn: "আজিমপুর", en: "Azimpur", upazila: "415" },
+  { code: "3776", bn: "ভান্ডারা", en: "Bhandra", upazila: "415" },
+  { code: "3777", bn: "বিজোড়া", en: "Bijora", upazila: "415" },
+  { code: "3775", bn: "বিরল", en: "Birol", upazila: "415" },
+  { code: "3773", bn: "ধামইর", en: "Dhamoir", upazila: "415" },
+  { code: "3778", bn: "ধর্মপুর", en: "Dharmapur", upazila: "415" },
+  { code: "3772", bn: "ফরাক্কাবাদ", en: "Farakkabad", upazila: "415" },
+  { code: "3779", bn: "মঙ্গলপুর", en: "Mongalpur", upazila: "415" },
+  { code: "3781", bn: "রাজারামপুর", en: "Rajarampur", upazila: "415" },
+  { code: "3780", bn: "রাণীপুকুর", en: "Ranipukur", upazila: "415" },
+  { code: "4898", bn: "বিরল পৌরসভা", en: "Rare municipality", upazila: "415" },
+  { code: "3774", bn: "শহরগ্রাম", en: "Shohorgram", upazila: "415" },
+  { code: "3786", bn: "আব্দুলপুর", en: "Abdulpur", upazila: "416" },
+  { code: "3793", bn: "আলোকডিহি", en: "Alokdihi", upazila: "416" },
+  { code: "3787", bn: "অমরপুর", en: "Amarpur", upazila: "416" },
+  { code: "3788", bn: "আউলিয়াপুকুর", en: "Auliapukur", upazila: "416" },
+  { code: "3784", bn: "ফতেজংপুর", en: "Fatejangpur", upazila: "416" },
+  { code: "3785", bn: "ইসবপুর", en: "Isobpur", upazila: "416" },
+  { code: "3782", bn: "নশরতপুর", en: "Nashratpur", upazila: "416" },
+  { code: "3791", bn: "পুনট্টি", en: "Punotti", upazila: "416" },
+  { code: "3789", bn: "সাইতারা", en: "Saitara", upazila: "416" },
+  { code: "3783", bn: "সাতনালা", en: "Satnala", upazila: "416" },
+  { code: "3792", bn: "তেতুলিয়া", en: "Tetulia", upazila: "416" },
+  { code: "3790", bn: "ভিয়াইল", en: "Viail", upazila: "416" },
+  { code: "3798", bn: "বড়বাড়ী", en: "Barobari", upazila: "417" },
+  { code: "3797", bn: "গোকুন্ডা", en: "Gokunda", upazila: "417" },
+  { code: "3795", bn: "হারাটি", en: "Harati", upazila: "417" },
+  { code: "3801", bn: "খুনিয়াগাছ", en: "Khuniagachh", upazila: "417" },
+  { code: "3799", bn: "কুলাঘাট", en: "Kulaghat", upazila: "417" },
+  { code: "4902", bn: "লালমনিরহাট পৌরসভা", en: "Lalmonirhat Municipality", upazila: "417" },
+  { code: "3796", bn: "মোগলহাট", en: "Mogolhat", upazila: "417" },
+  { code: "3800", bn: "মহেন্দ্রনগর", en: "Mohendranagar", upazila: "417" },
+  { code: "3802", bn: "পঞ্চগ্রাম", en: "Panchagram", upazila: "417" },
+  { code: "3794", bn: "রাজপুর", en: "Rajpur", upazila: "417" },
+  { code: "3803", bn: "ভোটমারী", en: "Bhotmari", upazila: "418" },
+  { code: "3809", bn: "চলবলা", en: "Cholbola", upazila: "418" },
+  { code: "3808", bn: "চন্দ্রপুর", en: "Chondropur", upazila: "418" },
+  { code: "3805", bn: "দলগ্রাম", en: "Dologram", upazila: "418" },
+  { code: "3807", bn: "গোড়ল", en: "Goral", upazila: "418" },
+  { code: "3810", bn: "কাকিনা", en: "Kakina", upazila: "418" },
+  { code: "3804", bn: "মদাতী", en: "Modati", upazila: "418" },
+  { code: "3806", bn: "তুষভান্ডার", en: "Tushbhandar", upazila: "418" },
+  { code: "3811", bn: "বড়খাতা", en: "Barokhata", upazila: "419" },
+  { code: "3822", bn: "ডাউয়াবাড়ী", en: "Dawabari", upazila: "419" },
+  { code: "3821", bn: "ফকিরপাড়া", en: "Fakirpara", upazila: "419" },
+  { code: "3812", bn: "গড্ডিমারী", en: "Goddimari", upazila: "419" },
+  { code: "3818", bn: "গোতামারী", en: "Gotamari", upazila: "419" },
+  { code: "3817", bn: "নওদাবাস", en: "Nowdabas", upazila: "419" },
+  { code: "3816", bn: "পাটিকাপাড়া", en: "Paticapara", upazila: "419" },
+  { code: "3820", bn: "সানিয়াজান", en: "Shaniajan", upazila: "419" },
+  { code: "3815", bn: "সিন্দুর্ণা", en: "Sindurna", upazila: "419" },
+  { code: "3813", bn: "সিংগীমারী", en: "Singimari", upazila: "419" },
+  { code: "3814", bn: "টংভাঙ্গা", en: "Tongvhanga", upazila: "419" },
+  { code: "3819", bn: "ভেলাগুড়ি", en: "Vhelaguri", upazila: "419" },
+  { code: "3828", bn: "বাউড়া", en: "Baura", upazila: "420" },
+  { code: "3830", bn: "বুড়িমারী", en: "Burimari", upazila: "420" },
+  { code: "3829", bn: "দহগ্রাম", en: "Dahagram", upazila: "420" },
+  { code: "3825", bn: "জগতবেড়", en: "Jagatber", upazila: "420" },
+  { code: "3827", bn: "জোংড়া", en: "Jongra", upazila: "420" },
+  { code: "3826", bn: "কুচলিবাড়ী", en: "Kuchlibari", upazila: "420" },
+  { code: "3824", bn: "পাটগ্রাম", en: "Patgram", upazila: "420" },
+  { code: "5053", bn: "পাটগ্রাম পৌরসভা", en: "Patgram Municipality", upazila: "420" },
+  { code: "3823", bn: "শ্রীরামপুর", en: "Sreerampur", upazila: "420" },
+  { code: "3832", bn: "ভাদাই", en: "Bhadai", upazila: "421" },
+  { code: "3831", bn: "ভেলাবাড়ী", en: "Bhelabari", upazila: "421" },
+  { code: "3834", bn: "দূর্গাপুর", en: "Durgapur", upazila: "421" },
+  { code: "3833", bn: "কমলাবাড়ী", en: "Kamlabari", upazila: "421" },
+  { code: "3838", bn: "মহিষখোচা", en: "Mohishkhocha", upazila: "421" },
+  { code: "3837", bn: "পলাশী", en: "Palashi", upazila: "421" },
+  { code: "3836", bn: "সাপ্টিবাড়ী", en: "Saptibari", upazila: "421" },
+  { code: "3835", bn: "সারপুকুর", en: "Sarpukur", upazila: "421" },
+  { code: "3841", bn: "বাঙ্গালীপুর", en: "Bangalipur", upazila: "422" },
+  { code: "3842", bn: "বোতলাগাড়ী", en: "Botlagari", upazila: "422" },
+  { code: "3839", bn: "কামারপুকুর", en: "Kamarpukur", upazila: "422" },
+  { code: "3840", bn: "কাশিরাম বেলপুকুর", en: "Kasiram Belpukur", upazila: "422" },
+  { code: "3843", bn: "খাতা মধুপুর", en: "Khata Madhupur", upazila: "422" },
+  { code: "4969", bn: "সৈয়দপুর পৌরসভা", en: "Syedpur Municipality", upazila: "422" },
+  { code: "3848", bn: "বামুনীয়া", en: "Bamunia", upazila: "423" },
+  { code: "3845", bn: "ভোগডাবুড়ী", en: "Bhogdaburi", upazila: "423" },
+  { code: "3850", bn: "বোড়াগাড়ী", en: "Boragari", upazila: "423" },
+  { code: "3851", bn: "ডোমার", en: "Domar", upazila: "423" },
+  { code: "4899", bn: "ডোমার পৌরসভা", en: "Domar Municipality", upazila: "423" },
+  { code: "3844", bn: "গোমনাতি", en: "Gomnati", upazila: "423" },
+  { code: "3853", bn: "হরিণচরা", en: "Harinchara", upazila: "423" },
+  { code: "3847", bn: "জোড়াবাড়ী", en: "Jorabari", upazila: "423" },
+  { code: "3846", bn: "কেতকীবাড়ী", en: "Ketkibari", upazila: "423" },
+  { code: "3849", bn: "পাংগা মটকপুর", en: "Panga Motukpur", upazila: "423" },
+  { code: "3852", bn: "সোনারায়", en: "Sonaray", upazila: "423" },
+  { code: "3855", bn: "বালাপাড়া", en: "Balapara", upazila: "424" },
+  { code: "3856", bn: "ডিমলা সদর", en: "Dimla Sadar", upazila: "424" },
+  { code: "3858", bn: "গয়াবাড়ী", en: "Gayabari", upazila: "424" },
+  { code: "3861", bn: "ঝুনাগাছ চাপানী", en: "Jhunagach Chapani", upazila: "424" },
+  { code: "3860", bn: "খালিশা চাপানী", en: "Khalisha Chapani", upazila: "424" },
+  { code: "3857", bn: "খগা খড়িবাড়ী", en: "Khogakharibari", upazila: "424" },
+  { code: "3859", bn: "নাউতারা", en: "Noutara", upazila: "424" },
+  { code: "3854", bn: "পশ্চিম ছাতনাই", en: "Paschim Chhatnay", upazila: "424" },
+  { code: "3863", bn: "পুর্ব ছাতনাই", en: "Purba Chhatnay", upazila: "424" },
+  { code: "3862", bn: "টেপা খরীবাড়ী", en: "Tepa Khribari", upazila: "424" },
+  { code: "3866", bn: "বালাগ্রাম", en: "Balagram", upazila: "425" },
+  { code: "3868", bn: "ধর্মপাল", en: "Dharmapal", upazila: "425" },
+  { code: "3864", bn: "ডাউয়াবাড়ী", en: "Douabari", upazila: "425" },
+  { code: "3865", bn: "গোলমুন্ডা", en: "Golmunda", upazila: "425" },
+  { code: "3867", bn: "গোলনা", en: "Golna", upazila: "425" },
+  { code: "4970", bn: "জলঢাকা পৌরসভা", en: "Jaldhaka Municipality", upazila: "425" },
+  { code: "3874", bn: "কৈমারী", en: "Kaimari", upazila: "425" },
+  { code: "3871", bn: "কাঠালী", en: "Kathali", upazila: "425" },
+  { code: "3872", bn: "খুটামারা", en: "Khutamara", upazila: "425" },
+  { code: "3870", bn: "মীরগঞ্জ", en: "Mirganj", upazila: "425" },
+  { code: "3873", bn: "শৌলমারী", en: "Shaulmari", upazila: "425" },
+  { code: "3869", bn: "শিমুলবাড়ী", en: "Simulbari", upazila: "425" },
+  { code: "3878", bn: "বাহাগিলি", en: "Bahagili", upazila: "426" },
+  { code: "3875", bn: "বড়ভিটা", en: "Barabhita", upazila: "426" },
+  { code: "3879", bn: "চাঁদখানা", en: "Chandkhana", upazila: "426" },
+  { code: "3882", bn: "গাড়াগ্রাম", en: "Garagram", upazila: "426" },
+  { code: "3880", bn: "কিশোরগঞ্জ", en: "Kishoreganj", upazila: "426" },
+  { code: "3883", bn: "মাগুরা", en: "Magura", upazila: "426" },
+  { code: "3877", bn: "নিতাই", en: "Nitai", upazila: "426" },
+  { code: "3876", bn: "পুটিমারী", en: "Putimari", upazila: "426" },
+  { code: "3881", bn: "রনচন্ডি", en: "Ranachandi", upazila: "426" },
+  { code: "3884", bn: "চওড়া বড়গাছা", en: "Chaora Bargacha", upazila: "427" },
+  { code: "3896", bn: "চাপড়া সরঞ্জানী", en: "Chapra Sarnjami", upazila: "427" },
+  { code: "3895", bn: "চড়াইখোলা", en: "Charaikhola", upazila: "427" },
+  { code: "3885", bn: "গোড়গ্রাম", en: "Gorgram", upazila: "427" },
+  { code: "3891", bn: "ইটাখোলা", en: "Itakhola", upazila: "427" },
+  { code: "3889", bn: "কচুকাটা", en: "Kachukata", upazila: "427" },
+  { code: "3886", bn: "খোকসাবাড়ী", en: "Khoksabari", upazila: "427" },
+  { code: "3892", bn: "কুন্দপুকুর", en: "Kundapukur", upazila: "427" },
+  { code: "3897", bn: "লক্ষ্মীচাপ", en: "Lakshmicha", upazila: "427" },
+  { code: "4968", bn: "নীলফামারী পৌরসভা", en: "Nilphamari Municipality", upazila: "427" },
+  { code: "3887", bn: "পলাশবাড়ী", en: "Palasbari", upazila: "427" },
+  { code: "3890", bn: "পঞ্চপুকুর", en: "Panchapukur", upazila: "427" },
+  { code: "3888", bn: "রামনগর", en: "Ramnagar", upazila: "427" },
+  { code: "3893", bn: "সোনারায়", en: "Sonaray", upazila: "427" },
+  { code: "3894", bn: "সংগলশী", en: "Songalsi", upazila: "427" },
+  { code: "3898", bn: "টুপামারী", en: "Tupamari", upazila: "427" },
+  { code: "3907", bn: "বনগ্রাম", en: "Bongram", upazila: "428" },
+  { code: "3901", bn: "দামোদরপুর", en: "Damodorpur", upazila: "428" },
+  { code: "3904", bn: "ধাপেরহাট", en: "Dhaperhat", upazila: "428" },
+  { code: "3903", bn: "ফরিদপুর", en: "Faridpur", upazila: "428" },
+  { code: "3905", bn: "ইদিলপুর", en: "Idilpur", upazila: "428" },
+  { code: "3902", bn: "জামালপুর", en: "Jamalpur", upazila: "428" },
+  { code: "3908", bn: "কামারপাড়া", en: "Kamarpara", upazila: "428" },
+  { code: "3909", bn: "খোদকোমরপুর", en: "Khodkomor", upazila: "428" },
+  { code: "3900", bn: "নলডাঙ্গা", en: "Noldanga", upazila: "428" },
+  { code: "3899", bn: "রসুলপুর", en: "Rasulpur", upazila: "428" },
+  { code: "3906", bn: "ভাতগ্রাম", en: "Vatgram", upazila: "428" },
+  { code: "3916", bn: "বাদিয়াখালী", en: "Badiakhali", upazila: "429" },
+  { code: "3914", bn: "বল্লমঝাড়", en: "Ballamjhar", upazila: "429" },
+  { code: "3917", bn: "বোয়ালী", en: "Boali", upazila: "429" },
+  { code: "4805", bn: "গাইবান্ধা পৌরসভা", en: "Gaibandha Municipality", upazila: "429" },
+  { code: "3918", bn: "ঘাগোয়া", en: "Ghagoa", upazila: "429" },
+  { code: "3919", bn: "গিদারী", en: "Gidari", upazila: "429" },
+  { code: "3922", bn: "কামারজানি", en: "Kamarjani", upazila: "429" },
+  { code: "3920", bn: "খোলাহাটী", en: "Kholahati", upazila: "429" },
+  { code: "3912", bn: "কুপতলা", en: "Kuptola", upazila: "429" },
+  { code: "3910", bn: "লক্ষ্মীপুর", en: "Laxmipur", upazila: "429" },
+  { code: "3911", bn: "মালীবাড়ী", en: "Malibari", upazila: "429" },
+  { code: "3921", bn: "মোল্লারচর", en: "Mollarchar", upazila: "429" },
+  { code: "3915", bn: "রামচন্দ্রপুর", en: "Ramchandrapur", upazila: "429" },
+  { code: "3913", bn: "সাহাপাড়া", en: "Shahapara", upazila: "429" },
+  { code: "3926", bn: "বরিশাল", en: "Barisal", upazila: "430" },
+  { code: "3928", bn: "বেতকাপা", en: "Betkapa", upazila: "430" },
+  { code: "3931", bn: "হরিণাথপুর", en: "Harinathpur", upazila: "430" },
+  { code: "3924", bn: "হোসেনপুর", en: "Hosenpur", upazila: "430" },
+  { code: "3923", bn: "কিশোরগাড়ী", en: "Kishoregari", upazila: "430" },
+  { code: "3927", bn: "মহদীপুর", en: "Mohdipur", upazila: "430" },
+  { code: "3930", bn: "মনোহরপুর", en: "Monohorpur", upazila: "430" },
+  { code: "3925", bn: "পলাশবাড়ী", en: "Palashbari", upazila: "430" },
+  { code: "4893", bn: "পলাশবাড়ী পৌরসভা", en: "Palashbari Municipality", upazila: "430" },
+  { code: "3929", bn: "পবনাপুর", en: "Pobnapur", upazila: "430" },
+  { code: "3941", bn: "বোনারপাড়া", en: "Bonarpara", upazila: "431" },
+  { code: "3937", bn: "ঘুরিদহ", en: "Ghuridah", upazila: "431" },
+  { code: "3938", bn: "হলদিয়া", en: "Holdia", upazila: "431" },
+  { code: "3939", bn: "জুমারবাড়ী", en: "Jumarbari", upazila: "431" },
+  { code: "3936", bn: "কচুয়া", en: "Kachua", upazila: "431" },
+  { code: "3940", bn: "কামালেরপাড়া", en: "Kamalerpara", upazila: "431" },
+  { code: "3935", bn: "মুক্তিনগর", en: "Muktinagar", upazila: "431" },
+  { code: "3932", bn: "পদুমশহর", en: "Padumsahar", upazila: "431" },
+  { code: "3934", bn: "সাঘাটা", en: "Saghata", upazila: "431" },
+  { code: "3933", bn: "ভরতখালী", en: "Varotkhali", upazila: "431" },
+  { code: "3947", bn: "দরবস্ত ইয়নিয়ন", en: "Dorbosto", upazila: "432" },
+  { code: "4806", bn: "গোবিন্দগঞ্জ পৌরসভা", en: "Gobindaganj Municipality", upazila: "432" },
+  { code: "3953", bn: "গুমানীগঞ্জ", en: "Gumaniganj", upazila: "432" },
+  { code: "3950", bn: "হরিরামপুর", en: "Harirampur", upazila: "432" },
+  { code: "3954", bn: "কামারদহ", en: "Kamardoho", upazila: "432" },
+  { code: "3942", bn: "কামদিয়া", en: "Kamdia", upazila: "432" },
+  { code: "3943", bn: "কাটাবাড়ী", en: "Katabari", upazila: "432" },
+  { code: "3955", bn: "কোচাশহর", en: "Kochasahar", upazila: "432" },
+  { code: "3957", bn: "মহিমাগঞ্জ", en: "Mahimaganj", upazila: "432" },
+  { code: "3949", bn: "নাকাই", en: "Nakai", upazila: "432" },
+  { code: "3952", bn: "ফুলবাড়ী", en: "Phulbari", upazila: "432" },
+  { code: "3945", bn: "রাজাহার", en: "Rajahar", upazila: "432" },
+  { code: "3951", bn: "রাখালবুরুজ", en: "Rakhalburuj", upazila: "432" },
+  { code: "3946", bn: "সাপমারা", en: "Sapmara", upazila: "432" },
+  { code: "3944", bn: "শাখাহার", en: "Shakhahar", upazila: "432" },
+  { code: "3958", bn: "শালমারা", en: "Shalmara", upazila: "432" },
+  { code: "3956", bn: "শিবপুর", en: "Shibpur", upazila: "432" },
+  { code: "3948", bn: "তালুককানুপুর", en: "Talukkanupur", upazila: "432" },
+  { code: "3959", bn: "বামনডাঙ্গা", en: "Bamondanga", upazila: "433" },
+  { code: "3962", bn: "বেলকা", en: "Belka", upazila: "433" },
+  { code: "3971", bn: "চন্ডিপুর", en: "Chandipur", upazila: "433" },
+  { code: "3967", bn: "ছাপরহাটী", en: "Chaporhati", upazila: "433" },
+  { code: "3966", bn: "ধোপাডাঙ্গা", en: "Dhopadanga", upazila: "433" },
+  { code: "3963", bn: "দহবন্দ", en: "Dohbond", upazila: "433" },
+  { code: "3973", bn: "হরিপুর", en: "Haripur", upazila: "433" },
+  { code: "3972", bn: "কাপাসিয়া", en: "Kapasia", upazila: "433" },
+  { code: "3969", bn: "কঞ্চিবাড়ী", en: "Konchibari", upazila: "433" },
+  { code: "3965", bn: "রামজীবন", en: "Ramjibon", upazila: "433" },
+  { code: "3968", bn: "শান্তিরাম", en: "Shantiram", upazila: "433" },
+  { code: "3960", bn: "সোনারায়", en: "Sonaroy", upazila: "433" },
+  { code: "3964", bn: "সর্বানন্দ", en: "Sorbanondo", upazila: "433" },
+  { code: "3970", bn: "শ্রীপুর", en: "Sreepur", upazila: "433" },
+  { code: "4807", bn: "সুন্দরগঞ্জ পৌরসভা", en: "Sundarganj Municipality", upazila: "433" },
+  { code: "3961", bn: "তারাপুর", en: "Tarapur", upazila: "433" },
+  { code: "3979", bn: "এরেন্ডাবাড়ী", en: "Erendabari", upazila: "434" },
+  { code: "3980", bn: "ফজলুপুর", en: "Fazlupur", upazila: "434" },
+  { code: "3977", bn: "গজারিয়া", en: "Gazaria", upazila: "434" },
+  { code: "3974", bn: "কঞ্চিপাড়া", en: "Kanchipara", upazila: "434" },
+  { code: "3978", bn: "ফুলছড়ি", en: "Phulchari", upazila: "434" },
+  { code: "3976", bn: "উদাখালী", en: "Udakhali", upazila: "434" },
+  { code: "3975", bn: "উড়িয়া", en: "Uria", upazila: "434" },
+  { code: "3983", bn: "আকচা", en: "Ahcha", upazila: "435" },
+  { code: "3982", bn: "আখানগর", en: "Akhanagar", upazila: "435" },
+  { code: "3986", bn: "আউলিয়াপুর", en: "Auliapur", upazila: "435" },
+  { code: "3985", bn: "বালিয়া", en: "Balia", upazila: "435" },
+  { code: "3984", bn: "বড়গাঁও", en: "Baragaon", upazila: "435" },
+  { code: "3999", bn: "বেগুনবাড়ী", en: "Begunbari", upazila: "435" },
+  { code: "3987", bn: "চিলারং", en: "Chilarang", upazila: "435" },
+  { code: "3995", bn: "দেবীপুর", en: "Debipur", upazila: "435" },
+  { code: "4001", bn: "ঢোলারহাট", en: "Dholarhat", upazila: "435" },
+  { code: "3993", bn: "গড়েয়া", en: "Gareya", upazila: "435" },
+  { code: "3997", bn: "জগন্নাথপুর", en: "Jagannathpur", upazila: "435" },
+  { code: "3990", bn: "জামালপুর", en: "Jamalpur", upazila: "435" },
+  { code: "3991", bn: "মোহাম্মদপুর", en: "Mohammadpur", upazila: "435" },
+  { code: "3996", bn: "নারগুন", en: "Nargun", upazila: "435" },
+  { code: "3988", bn: "রহিমানপুর", en: "Rahimanpur", upazila: "435" },
+  { code: "3994", bn: "রাজাগাঁও", en: "Rajagaon", upazila: "435" },
+  { code: "3989", bn: "রায়পুর", en: "Roypur", upazila: "435" },
+  { code: "3981", bn: "রুহিয়া", en: "Ruhea", upazila: "435" },
+  { code: "4000", bn: "রুহিয়া পশ্চিম", en: "Ruhia Pashchim", upazila: "435" },
+  { code: "3992", bn: "সালন্দর", en: "Salandar", upazila: "435" },
+  { code: "3998", bn: "শুখানপুকুরী", en: "Sukhanpukhari", upazila: "435" },
+  { code: "5051", bn: "ঠাকুরগাঁও পৌরসভা", en: "Thakurgaon Municipality", upazila: "435" },
+  { code: "4011", bn: "বৈরচুনা", en: "Bairchuna", upazila: "436" },
+  { code: "4002", bn: "ভোমরাদহ", en: "Bhomradaha", upazila: "436" },
+  { code: "4008", bn: "দৌলতপুর", en: "Daulatpur", upazila: "436" },
+  { code: "4007", bn: "হাজীপুর", en: "Hajipur", upazila: "436" },
+  { code: "4010", bn: "জাবরহাট", en: "Jabarhat", upazila: "436" },
+  { code: "4004", bn: "খনগাঁও", en: "Khangaon", upazila: "436" },
+  { code: "4003", bn: "কোষারাণীগঞ্জ", en: "Kosharaniganj", upazila: "436" },
+  { code: "4006", bn: "পীরগঞ্জ", en: "Pirganj", upazila: "436" },
+  { code: "4967", bn: "পীরগঞ্জ পৌরসভা", en: "Pirganj Municipality", upazila: "436" },
+  { code: "4005", bn: "সৈয়দপুর", en: "Saidpur", upazila: "436" },
+  { code: "4009", bn: "সেনগাঁও", en: "Sengaon", upazila: "436" },
+  { code: "4016", bn: "বাচোর", en: "Bachor", upazila: "437" },
+  { code: "4012", bn: "ধর্মগড়", en: "Dhormogarh", upazila: "437" },
+  { code: "4014", bn: "হোসেনগাঁও", en: "Hosengaon", upazila: "437" },
+  { code: "4017", bn: "কাশিপুর", en: "Kashipur", upazila: "437" },
+  { code: "4015", bn: "লেহেম্বা", en: "Lehemba", upazila: "437" },
+  { code: "4013", bn: "নেকমরদ", en: "Nekmorod", upazila: "437" },
+  { code: "4019", bn: "নন্দুয়ার", en: "Nonduar", upazila: "437" },
+  { code: "4894", bn: "রাণীশংকৈল পৌরসভা", en: "Ranishankail Municipality", upazila: "437" },
+  { code: "4018", bn: "রাতোর", en: "Ratore", upazila: "437" },
+  { code: "4021", bn: "আমগাঁও", en: "Amgaon", upazila: "438" },
+  { code: "4022", bn: "বকুয়া", en: "Bakua", upazila: "438" },
+  { code: "4025", bn: "ভাতুরিয়া", en: "Bhaturia", upazila: "438" },
+  { code: "4023", bn: "ডাঙ্গীপাড়া", en: "Dangipara", upazila: "438" },
+  { code: "4020", bn: "গেদুড়া", en: "Gedura", upazila: "438" },
+  { code: "4024", bn: "হরিপুর", en: "Haripur", upazila: "438" },
+  { code: "4032", bn: "আমজানখোর", en: "Amjankhore", upazila: "439" },
+  { code: "4033", bn: "বড়বাড়ী", en: "Borobari", upazila: "439" },
+  { code: "4029", bn: "বড়পলাশবাড়ী", en: "Boropalashbari", upazila: "439" },
+  { code: "4027", bn: "চারোল", en: "Charol", upazila: "439" },
+  { code: "4028", bn: "ধনতলা", en: "Dhontola", upazila: "439" },
+  { code: "4030", bn: "দুওসুও", en: "Duosuo", upazila: "439" },
+  { code: "4026", bn: "পাড়িয়া", en: "Paria", upazila: "439" },
+  { code: "4031", bn: "ভানোর", en: "Vanor", upazila: "439" },
+  { code: "4042", bn: "চন্দনপাট", en: "Chandanpat", upazila: "440" },
+  { code: "4043", bn: "দর্শানা", en: "Dorshona", upazila: "440" },
+  { code: "4035", bn: "হরিদেবপুর", en: "Horidebpur", upazila: "440" },
+  { code: "4034", bn: "মমিনপুর", en: "Mominpur", upazila: "440" },
+  { code: "4037", bn: "পরশুরাম", en: "Porshuram", upazila: "440" },
+  { code: "4040", bn: "রাজেন্দ্রপুর", en: "Rajendrapur", upazila: "440" },
+  { code: "4041", bn: "সদ্যপুস্করনী", en: "Sadwapuskoroni", upazila: "440" },
+  { code: "4039", bn: "সাতগারা", en: "Satgara", upazila: "440" },
+  { code: "4044", bn: "তামপাট", en: "Tampat", upazila: "440" },
+  { code: "4038", bn: "তপোধন", en: "Topodhan", upazila: "440" },
+  { code: "4036", bn: "উত্তম", en: "Uttam", upazila: "440" },
+  { code: "4052", bn: "আলমবিদিতর", en: "Alambiditor", upazila: "441" },
+  { code: "4045", bn: "বেতগাড়ী", en: "Betgari", upazila: "441" },
+  { code: "4047", bn: "বড়বিল", en: "Borobil", upazila: "441" },
+  { code: "4050", bn: "গজঘন্টা", en: "Gojoghonta", upazila: "441" },
+  { code: "4049", bn: "গংগাচড়া", en: "Gongachora", upazila: "441" },
+  { code: "4046", bn: "খলেয়া", en: "Kholeya", upazila: "441" },
+  { code: "4048", bn: "কোলকোন্দ", en: "Kolcondo", upazila: "441" },
+  { code: "4053", bn: "লক্ষীটারী", en: "Lakkhitari", upazila: "441" },
+  { code: "4051", bn: "মর্ণেয়া", en: "Morneya", upazila: "441" },
+  { code: "4054", bn: "নোহালী", en: "Nohali", upazila: "441" },
+  { code: "4056", bn: "আলমপুর", en: "Alampur", upazila: "442" },
+  { code: "4059", bn: "হাড়িয়ারকুঠি", en: "Hariarkuthi", upazila: "442" },
+  { code: "4058", bn: "ইকরচালী", en: "Ikorchali", upazila: "442" },
+  { code: "4055", bn: "কুর্শা", en: "Kurshatara", upazila: "442" },
+  { code: "4057", bn: "সয়ার", en: "Soyar", upazila: "442" },
+  { code: "4971", bn: "বদরগঞ্জ পৌরসভা", en: "Badarganj Municipality", upazila: "443" },
+  { code: "4064", bn: "বিষ্ণপুর", en: "Bishnapur", upazila: "443" },
+  { code: "4068", bn: "দামোদরপুর", en: "Damodorpur", upazila: "443" },
+  { code: "4067", bn: "গোপালপুর", en: "Gopalpur", upazila: "443" },
+  { code: "4061", bn: "গোপীনাথপুর", en: "Gopinathpur", upazila: "443" },
+  { code: "4065", bn: "কালুপাড়া", en: "Kalupara", upazila: "443" },
+  { code: "4063", bn: "কুতুবপুর", en: "Kutubpur", upazila: "443" },
+  { code: "4066", bn: "লোহানীপাড়া", en: "Lohanipara", upazila: "443" },
+  { code: "4062", bn: "মধুপুর", en: "Modhupur", upazila: "443" },
+  { code: "4060", bn: "রাধানগর", en: "Radhanagar", upazila: "443" },
+  { code: "4069", bn: "রামনাথপুর", en: "Ramnathpurupb", upazila: "443" },
+  { code: "4074", bn: "বালারহাট", en: "Balarhat", upazila: "444" },
+  { code: "4079", bn: "বালুয়া মাসিমপুর", en: "Baluya Masimpur", upazila: "444" },
+  { code: "4086", bn: "বড় হযরতপুর", en: "Boro Hazratpur", upazila: "444" },
+  { code: "4080", bn: "বড়বালা", en: "Borobala", upazila: "444" },
+  { code: "4077", bn: "চেংমারী", en: "Chengmari", upazila: "444" },
+  { code: "4085", bn: "দূর্গাপুর", en: "Durgapur", upazila: "444" },
+  { code: "4082", bn: "ইমাদপুর", en: "Imadpur", upazila: "444" },
+  { code: "4075", bn: "কাফ্রিখাল", en: "Kafrikhal", upazila: "444" },
+  { code: "4070", bn: "খোরাগাছ", en: "Khoragach", upazila: "444" },
+  { code: "4076", bn: "লতিবপুর", en: "Latibpur", upazila: "444" },
+  { code: "4084", bn: "গোপালপুর", en: "Mgopalpur", upazila: "444" },
+  { code: "4083", bn: "মিলনপুর", en: "Milonpur", upazila: "444" },
+  { code: "4081", bn: "মির্জাপুর", en: "Mirzapur", upazila: "444" },
+  { code: "4078", bn: "ময়েনপুর", en: "Moyenpur", upazila: "444" },
+  { code: "4072", bn: "পায়রাবন্দ", en: "Payrabond", upazila: "444" },
+  { code: "4071", bn: "রাণীপুকুর", en: "Ranipukur", upazila: "444" },
+  { code: "4073", bn: "ভাংনী", en: "Vangni", upazila: "444" },
+  { code: "4093", bn: "বড় আলমপুর", en: "Boro Alampur", upazila: "445" },
+  { code: "4089", bn: "বড়দরগাহ", en: "Borodargah", upazila: "445" },
+  { code: "4099", bn: "চতরা", en: "Chattra", upazila: "445" },
+  { code: "4087", bn: "চৈত্রকোল", en: "Chattracol", upazila: "445" },
+  { code: "4100", bn: "কাবিলপুর", en: "Kabilpur", upazila: "445" },
+  { code: "4090", bn: "কুমেদপুর", en: "Kumedpur", upazila: "445" },
+  { code: "4097", bn: "মিঠিপুর", en: "Mithipur", upazila: "445" },
+  { code: "4091", bn: "মদনখালী", en: "Modankhali", upazila: "445" },
+  { code: "4101", bn: "পাঁচগাছী", en: "Pachgachi", upazila: "445" },
+  { code: "4900", bn: "পীরগঞ্জ পৌরসভা", en: "Pirganj Municipality", upazila: "445" },
+  { code: "4095", bn: "পীরগঞ্জ", en: "Pirgonj", upazila: "445" },
+  { code: "4098", bn: "রামনাথপুর", en: "Ramnathpur", upazila: "445" },
+  { code: "4094", bn: "রায়পুর", en: "Raypur", upazila: "445" },
+  { code: "4096", bn: "শানেরহাট", en: "Shanerhat", upazila: "445" },
+  { code: "4092", bn: "টুকুরিয়া", en: "Tukuria", upazila: "445" },
+  { code: "4088", bn: "ভেন্ডাবাড়ী", en: "Vendabari", upazila: "445" },
+  { code: "4103", bn: "বালাপাড়া", en: "Balapara", upazila: "446" },
+  { code: "4105", bn: "হারাগাছ", en: "Haragach", upazila: "446" },
+  { code: "4901", bn: "হারাগাছ পৌরসভা", en: "Haragacha Municipality", upazila: "446" },
+  { code: "4107", bn: "কুর্শা", en: "Kurshaupk", upazila: "446" },
+  { code: "4102", bn: "সারাই", en: "Sarai", upazila: "446" },
+  { code: "4104", bn: "শহীদবাগ", en: "Shahidbag", upazila: "446" },
+  { code: "4106", bn: "টেপামধুপুর", en: "Tepamodhupur", upazila: "446" },
+  { code: "4114", bn: "অন্নদানগর", en: "Annodanagar", upazila: "447" },
+  { code: "4110", bn: "ইটাকুমারী", en: "Itakumari", upazila: "447" },
+  { code: "4112", bn: "কান্দি", en: "Kandi", upazila: "447" },
+  { code: "4116", bn: "কৈকুড়ী", en: "Koikuri", upazila: "447" },
+  { code: "4108", bn: "কল্যাণী", en: "Kollyani", upazila: "447" },
+  { code: "4109", bn: "পারুল", en: "Parul", upazila: "447" },
+  { code: "4113", bn: "পীরগাছা", en: "Pirgacha", upazila: "447" },
+  { code: "4111", bn: "ছাওলা", en: "Saula", upazila: "447" },
+  { code: "4115", bn: "তাম্বুলপুর", en: "Tambulpur", upazila: "447" },
+  { code: "4119", bn: "বেলগাছা", en: "Belgacha", upazila: "448" },
+  { code: "4124", bn: "ভোগডাঙ্গা", en: "Bhogdanga", upazila: "448" },
+  { code: "4118", bn: "ঘোগাদহ", en: "Ghogadhoh", upazila: "448" },
+  { code: "4117", bn: "হলোখানা", en: "Holokhana", upazila: "448" },
+  { code: "4122", bn: "যাত্রাপুর", en: "Jatrapur", upazila: "448" },
+  { code: "4123", bn: "কাঁঠালবাড়ী", en: "Kanthalbari", upazila: "448" },
+  { code: "5049", bn: "কুড়িগ্রাম পৌরসভা", en: "Kurigram Municipality", upazila: "448" },
+  { code: "4120", bn: "মোগলবাসা", en: "Mogolbasa", upazila: "448" },
+  { code: "4121", bn: "পাঁচগাছি", en: "Panchgachi", upazila: "448" },
+  { code: "4127", bn: "বামনডাঙ্গা", en: "Bamondanga", upazila: "449" },
+  { code: "4128", bn: "বেরুবাড়ী", en: "Berubari", upazila: "449" },
+  { code: "4132", bn: "ভিতরবন্দ", en: "Bhitorbond", upazila: "449" },
+  { code: "4138", bn: "বল্লভেরখাস", en: "Bollobherkhas", upazila: "449" },
+  { code: "4130", bn: "হাসনাবাদ", en: "Hasnabad", upazila: "449" },
+  { code: "4137", bn: "কঁচাকাঁটা", en: "Kachakata", upazila: "449" },
+  { code: "4133", bn: "কালীগঞ্জ", en: "Kaligonj", upazila: "449" },
+  { code: "4136", bn: "কেদার", en: "Kedar", upazila: "449" },
+  { code: "5050", bn: "নাগেশ্বরী পৌরসভা", en: "Nageshwari Municipality", upazila: "449" },
+  { code: "4135", bn: "নারায়নপুর", en: "Narayanpur", upazila: "449" },
+  { code: "4131", bn: "নেওয়াশী", en: "Newyashi", upazila: "449" },
+  { code: "4134", bn: "নুনখাওয়া", en: "Noonkhawa", upazila: "449" },
+  { code: "4126", bn: "রায়গঞ্জ", en: "Raigonj", upazila: "449" },
+  { code: "4125", bn: "রামখানা", en: "Ramkhana", upazila: "449" },
+  { code: "4129", bn: "সন্তোষপুর", en: "Sontaspur", upazila: "449" },
+  { code: "4145", bn: "আন্ধারীরঝাড়", en: "Andharirjhar", upazila: "450" },
+  { code: "4147", bn: "বঙ্গসোনাহাট", en: "Bangasonahat", upazila: "450" },
+  { code: "4143", bn: "ভূরুঙ্গামারী", en: "Bhurungamari", upazila: "450" },
+  { code: "4148", bn: "বলদিয়া", en: "Boldia", upazila: "450" },
+  { code: "4146", bn: "চর-ভূরুঙ্গামারী", en: "Char-Bhurungamari", upazila: "450" },
+  { code: "4144", bn: "জয়মনিরহাট", en: "Joymonirhat", upazila: "450" },
+  { code: "4142", bn: "পাইকেরছড়া", en: "Paikarchara", upazila: "450" },
+  { code: "4139", bn: "পাথরডুবি", en: "Pathordubi", upazila: "450" },
+  { code: "4140", bn: "শিলখুড়ি", en: "Shilkhuri", upazila: "450" },
+  { code: "4141", bn: "তিলাই", en: "Tilai", upazila: "450" },
+  { code: "4152", bn: "বড়ভিটা", en: "Baravita", upazila: "451" },
+  { code: "4153", bn: "ভাঙ্গামোড়", en: "Bhangamor", upazila: "451" },
+  { code: "4154", bn: "কাশিপুর", en: "Kashipur", upazila: "451" },
+  { code: "4149", bn: "নাওডাঙ্গা", en: "Nawdanga", upazila: "451" },
+  { code: "4151", bn: "ফুলবাড়ী", en: "Phulbari", upazila: "451" },
+  { code: "4150", bn: "শিমুলবাড়ী", en: "Shimulbari", upazila: "451" },
+  { code: "4160", bn: "বিদ্যানন্দ", en: "Biddanondo", upazila: "452" },
+  { code: "4159", bn: "চাকিরপশার", en: "Chakirpashar", upazila: "452" },
+  { code: "4155", bn: "ছিনাই", en: "Chinai", upazila: "452" },
+  { code: "4158", bn: "ঘড়িয়ালডাঙ্গা", en: "Gharialdanga", upazila: "452" },
+  { code: "4157", bn: "নাজিমখাঁন", en: "Nazimkhan", upazila: "452" },
+  { code: "4156", bn: "রাজারহাট", en: "Rajarhat", upazila: "452" },
+  { code: "4161", bn: "উমর মজিদ", en: "Umarmajid", upazila: "452" },
+  { code: "4169", bn: "বজরা", en: "Bazra", upazila: "453" },
+  { code: "4172", bn: "বেগমগঞ্জ", en: "Begumgonj", upazila: "453" },
+  { code: "4165", bn: "বুড়াবুড়ী", en: "Buraburi", upazila: "453" },
+  { code: "4162", bn: "দলদলিয়া", en: "Daldalia", upazila: "453" },
+  { code: "4167", bn: "ধামশ্রেণী", en: "Dhamsreni", upazila: "453" },
+  { code: "4166", bn: "ধরণীবাড়ী", en: "Dharanibari", upazila: "453" },
+  { code: "4163", bn: "দুর্গাপুর", en: "Durgapur", upazila: "453" },
+  { code: "4168", bn: "গুনাইগাছ", en: "Gunaigas", upazila: "453" },
+  { code: "4171", bn: "হাতিয়া", en: "Hatia", upazila: "453" },
+  { code: "4164", bn: "পান্ডুল", en: "Pandul", upazila: "453" },
+  { code: "4173", bn: "সাহেবের আলগা", en: "Shahabiar Alga", upazila: "453" },
+  { code: "4174", bn: "থেতরাই", en: "Thetrai", upazila: "453" },
+  { code: "4170", bn: "তবকপুর", en: "Tobockpur", upazila: "453" },
+  { code: "4892", bn: "উলিপুর পৌরসভা", en: "Ulipur Municipality", upazila: "453" },
+  { code: "4180", bn: "অষ্টমীর চর", en: "Austomirchar", upazila: "454" },
+  { code: "4179", bn: "চিলমারী", en: "Chilmari", upazila: "454" },
+  { code: "4176", bn: "নয়ারহাট", en: "Nayarhat", upazila: "454" },
+  { code: "4178", bn: "রমনা", en: "Ramna", upazila: "454" },
+  { code: "4175", bn: "রাণীগঞ্জ", en: "Ranigonj", upazila: "454" },
+  { code: "4177", bn: "থানাহাট", en: "Thanahat", upazila: "454" },
+  { code: "4183", bn: "বন্দবেড়", en: "Bondober", upazila: "455" },
+  { code: "4181", bn: "দাঁতভাঙ্গা", en: "Dadevanga", upazila: "455" },
+  { code: "4185", bn: "যাদুরচর", en: "Jadurchar", upazila: "455" },
+  { code: "4184", bn: "রৌমারী", en: "Rowmari", upazila: "455" },
+  { code: "4182", bn: "শৌলমারী", en: "Shoulemari", upazila: "455" },
+  { code: "4187", bn: "কোদালকাটি", en: "Kodalkati", upazila: "456" },
+  { code: "4188", bn: "মোহনগঞ্জ", en: "Mohongonj", upazila: "456" },
+  { code: "4186", bn: "রাজিবপুর", en: "Rajibpur", upazila: "456" },
+  { code: "4191", bn: "বাজিতখিলা", en: "Bajitkhila", upazila: "457" },
+  { code: "4202", bn: "বলাইরচর", en: "Balairchar", upazila: "457" },
+  { code: "4201", bn: "বেতমারি ঘুঘুরাকান্দি", en: "Betmari Ghughurakandi", upazila: "457" },
+  { code: "4199", bn: "চর মোচারিয়া", en: "Chor Mochoriya", upazila: "457" },
+  { code: "4200", bn: "চর পক্ষীমারি", en: "Chorpokhimari", upazila: "457" },
+  { code: "4190", bn: "চরশেরপুর", en: "Chorsherpur", upazila: "457" },
+  { code: "4193", bn: "ধলা", en: "Dhola", upazila: "457" },
+  { code: "4192", bn: "গাজির খামার", en: "Gajir Khamar", upazila: "457" },
+  { code: "4189", bn: "কামারের চর", en: "Kamararchor", upazila: "457" },
+  { code: "4198", bn: "কামারিয়া", en: "Kamariya", upazila: "457" },
+  { code: "4196", bn: "লছমনপুর", en: "Losmonpur", upazila: "457" },
+  { code: "4194", bn: "পাকুরিয়া", en: "Pakuriya", upazila: "457" },
+  { code: "4197", bn: "রৌহা", en: "Rouha", upazila: "457" },
+  { code: "4821", bn: "শেরপুর পৌরসভা", en: "Sherpur Municipality", upazila: "457" },
+  { code: "4195", bn: "ভাতশালা", en: "Vatshala", upazila: "457" },
+  { code: "4212", bn: "বাঘবেড়", en: "Bagber", upazila: "458" },
+  { code: "4211", bn: "যোগনীয়া", en: "Juganiya", upazila: "458" },
+  { code: "4209", bn: "কাকরকান্দি", en: "Kakorkandhi", upazila: "458" },
+  { code: "4213", bn: "কলসপাড়", en: "Koloshpar", upazila: "458" },
+  { code: "4205", bn: "মরিচপুরাণ", en: "Morichpuran", upazila: "458" },
+  { code: "4210", bn: "নালিতাবাড়ী", en: "Nalitabari", upazila: "458" },
+  { code: "4822", bn: "নালিতাবাড়ী পৌরসভা", en: "Nalitabari Municipality", upazila: "458" },
+  { code: "4207", bn: "নয়াবীল", en: "Nayabil", upazila: "458" },
+  { code: "4204", bn: "নন্নী", en: "Nonni", upazila: "458" },
+  { code: "4203", bn: "পোড়াগাও", en: "Puraga", upazila: "458" },
+  { code: "4206", bn: "রাজনগর", en: "Rajnogor", upazila: "458" },
+  { code: "4208", bn: "রামচন্দ্রকুড়া", en: "Ramchondrokura", upazila: "458" },
+  { code: "4214", bn: "রূপনারায়নকুড়া", en: "Rupnarayankura", upazila: "458" },
+  { code: "4221", bn: "ভেলুয়া", en: "Bhelua", upazila: "459" },
+  { code: "4224", bn: "গড়জরিপা", en: "Garjaripa", upazila: "459" },
+  { code: "4219", bn: "গোশাইপুর", en: "Gosaipur", upazila: "459" },
+  { code: "4217", bn: "কাকিলাকুড়া", en: "Kakilakura", upazila: "459" },
+  { code: "4222", bn: "খড়িয়া কাজিরচর", en: "Kharia Kazirchar", upazila: "459" },
+  { code: "4223", bn: "কুড়িকাহনিয়া", en: "Kurikahonia", upazila: "459" },
+  { code: "4215", bn: "রানীশিমুল", en: "Ranishimul", upazila: "459" },
+  { code: "4216", bn: "সিংগাবরুনা", en: "Singabaruna", upazila: "459" },
+  { code: "4220", bn: "শ্রীবরদী", en: "Sreebordi", upazila: "459" },
+  { code: "4978", bn: "শ্রীবরদী পৌরসভা", en: "Sreevardi Municipality", upazila: "459" },
+  { code: "4218", bn: "তাতীহাটি", en: "Tatihati", upazila: "459" },
+  { code: "4229", bn: "বানেশ্বর্দী", en: "Baneshwardi", upazila: "460" },
+  { code: "4233", bn: "চন্দ্রকোনা", en: "Chandrakona", upazila: "460" },
+  { code: "4232", bn: "চরঅষ্টধর", en: "Choraustadhar", upazila: "460" },
+  { code: "4225", bn: "গণপদ্দী", en: "Gonopoddi", upazila: "460" },
+  { code: "4228", bn: "গৌড়দ্বার", en: "Gourdwar", upazila: "460" },
+  { code: "4977", bn: "নকলা পৌরসভা", en: "Nakla municipality", upazila: "460" },
+  { code: "4226", bn: "নকলা", en: "Nokla", upazila: "460" },
+  { code: "4230", bn: "পাঠাকাটা", en: "Pathakata", upazila: "460" },
+  { code: "4231", bn: "টালকী", en: "Talki", upazila: "460" },
+  { code: "4227", bn: "উরফা", en: "Urpha", upazila: "460" },
+  { code: "4235", bn: "ধানশাইল", en: "Dansail", upazila: "461" },
+  { code: "4237", bn: "গৌরিপুর", en: "Gouripur", upazila: "461" },
+  { code: "4239", bn: "হাতিবান্দা", en: "Hatibandha", upazila: "461" },
+  { code: "4238", bn: "ঝিনাইগাতী", en: "Jhenaigati", upazila: "461" },
+  { code: "4234", bn: "কাংশা", en: "Kansa", upazila: "461" },
+  { code: "4240", bn: "মালিঝিকান্দা", en: "Malijhikanda", upazila: "461" },
+  { code: "4236", bn: "নলকুড়া", en: "Nolkura", upazila: "461" },
+  { code: "4251", bn: "আছিমপাটুলী", en: "Asimpatuli", upazila: "462" },
+  { code: "4246", bn: "বাক্তা", en: "Bakta", upazila: "462" },
+  { code: "4253", bn: "বালিয়ান", en: "Balian", upazila: "462" },
+  { code: "4241", bn: "দেওখোলা", en: "Deukhola", upazila: "462" },
+  { code: "4248", bn: "এনায়েতপুর", en: "Enayetpur", upazila: "462" },
+  { code: "4245", bn: "ফুলবাড়ীয়া", en: "Fulbaria", upazila: "462" },
+  { code: "4249", bn: "কালাদহ", en: "Kaladaha", upazila: "462" },
+  { code: "4244", bn: "কুশমাইল", en: "Kushmail", upazila: "462" },
+  { code: "4242", bn: "নাওগাঁও", en: "Naogaon", upazila: "462" },
+  { code: "4976", bn: "ফুলবাড়িয়া পৌরসভা", en: "Phulbaria Municipality", upazila: "462" },
+  { code: "4243", bn: "পুটিজানা", en: "Putijana", upazila: "462" },
+  { code: "4250", bn: "রাধাকানাই", en: "Radhakanai", upazila: "462" },
+  { code: "4247", bn: "রাঙ্গামাটিয়া", en: "Rangamatia", upazila: "462" },
+  { code: "4252", bn: "ভবানীপুর", en: "Vobanipur", upazila: "462" },
+  { code: "4264", bn: "আমিরাবাড়ী", en: "Amirabari", upazila: "463" },
+  { code: "4255", bn: "বৈলর", en: "Bailor", upazila: "463" },
+  { code: "4261", bn: "বালিপাড়া", en: "Balipara", upazila: "463" },
+  { code: "4254", bn: "ধানীখোলা", en: "Dhanikhola", upazila: "463" },
+  { code: "4259", bn: "হরিরামপুর", en: "Harirampur", upazila: "463" },
+  { code: "4257", bn: "কানিহারী", en: "Kanihari", upazila: "463" },
+  { code: "4256", bn: "কাঁঠাল", en: "Kanthal", upazila: "463" },
+  { code: "4263", bn: "মঠবাড়ী", en: "Mathbari", upazila: "463" },
+  { code: "4262", bn: "মোক্ষপুর", en: "Mokshapur", upazila: "463" },
+  { code: "4265", bn: "রামপুর", en: "Rampur", upazila: "463" },
+  { code: "4260", bn: "সাখুয়া", en: "Sakhua", upazila: "463" },
+  { code: "4258", bn: "ত্রিশাল", en: "Trishal", upazila: "463" },
+  { code: "5057", bn: "ত্রিশাল পৌরসভা", en: "Trishal Municipality", upazila: "463" },
+  { code: "4272", bn: "ভালুকা", en: "Bhaluka", upazila: "464" },
+  { code: "4820", bn: "ভালুকা পৌরসভা", en: "Bhaluka Municipality", upazila: "464" },
+  { code: "4271", bn: "বিরুনিয়া", en: "Birunia", upazila: "464" },
+  { code: "4270", bn: "ডাকাতিয়া", en: "Dakatia", upazila: "464" },
+  { code: "4269", bn: "ধীতপুর", en: "Dhitpur", upazila: "464" },
+  { code: "4275", bn: "হবিরবাড়ী", en: "Habirbari", upazila: "464" },
+  { code: "4274", bn: "কাচিনা", en: "Kachina", upazila: "464" },
+  { code: "4273", bn: "মল্লিকবাড়ী", en: "Mallikbari", upazila: "464" },
+  { code: "4267", bn: "মেদুয়ারী", en: "Meduari", upazila: "464" },
+  { code: "4276", bn: "রাজৈ", en: "Rajoi", upazila: "464" },
+  { code: "4266", bn: "উথুরা", en: "Uthura", upazila: "464" },
+  { code: "4268", bn: "ভরাডোবা", en: "Varadoba", upazila: "464" },
+  { code: "4281", bn: "বাশাটি", en: "Basati", upazila: "465" },
+  { code: "4278", bn: "বড়গ্রাম", en: "Borogram", upazila: "465" },
+  { code: "4284", bn: "দাওগাঁও", en: "Daogaon", upazila: "465" },
+  { code: "4277", bn: "দুল্লা", en: "Dulla", upazila: "465" },
+  { code: "4283", bn: "ঘোগা", en: "Ghoga", upazila: "465" },
+  { code: "4285", bn: "কাশিমপুর", en: "Kashimpur", upazila: "465" },
+  { code: "4286", bn: "খেরুয়াজানী", en: "Kheruajani", upazila: "465" },
+  { code: "4280", bn: "কুমারগাতা", en: "Kumargata", upazila: "465" },
+  { code: "4282", bn: "মানকোন", en: "Mankon", upazila: "465" },
+  { code: "5059", bn: "মুক্তাগাছা পৌরসভা", en: "Muktagachha Municipality", upazila: "465" },
+  { code: "4279", bn: "তারাটি", en: "Tarati", upazila: "465" },
+  { code: "4290", bn: "আকুয়া", en: "Aqua", upazila: "466" },
+  { code: "4287", bn: "অষ্টধার", en: "Austadhar", upazila: "466" },
+  { code: "4288", bn: "বোররচর", en: "Bororchar", upazila: "466" },
+  { code: "4299", bn: "বয়ড়া", en: "Boyra", upazila: "466" },
+  { code: "4296", bn: "চর ঈশ্বরদিয়া", en: "Char Ishwardia", upazila: "466" },
+  { code: "4292", bn: "চরনিলক্ষিয়া", en: "Charnilaxmia", upazila: "466" },
+  { code: "4289", bn: "দাপুনিয়া", en: "Dapunia", upazila: "466" },
+  { code: "4297", bn: "ঘাগড়া", en: "Ghagra", upazila: "466" },
+  { code: "4291", bn: "খাগডহর", en: "Khagdohor", upazila: "466" },
+  { code: "4293", bn: "কুষ্টিয়া", en: "Kushtia", upazila: "466" },
+  { code: "4294", bn: "পরানগঞ্জ", en: "Paranganj", upazila: "466" },
+  { code: "4295", bn: "সিরতা", en: "Sirta", upazila: "466" },
+  { code: "4298", bn: "ভাবখালী", en: "Vabokhali", upazila: "466" },
+  { code: "4306", bn: "বাঘবেড়", en: "Baghber", upazila: "467" },
+  { code: "4300", bn: "দক্ষিণ মাইজপাড়া", en: "Dakshin Maijpara", upazila: "467" },
+  { code: "4302", bn: "ধোবাউড়া", en: "Dhobaura", upazila: "467" },
+  { code: "4301", bn: "গামারীতলা", en: "Gamaritola", upazila: "467" },
+  { code: "4305", bn: "ঘোষগাঁও", en: "Ghoshgaon", upazila: "467" },
+  { code: "4304", bn: "গোয়াতলা", en: "Goatala", upazila: "467" },
+  { code: "4303", bn: "পোড়াকান্দুলিয়া", en: "Porakandulia", upazila: "467" },
+  { code: "4316", bn: "বালিয়া", en: "Balia", upazila: "468" },
+  { code: "4314", bn: "বওলা", en: "Baola", upazila: "468" },
+  { code: "4315", bn: "পয়ারী", en: "Payari", upazila: "468" },
+  { code: "4311", bn: "ফুলপুর", en: "Phulpur", upazila: "468" },
+  { code: "5058", bn: "ফুলপুর পৌরসভা", en: "Phulpur Municipality", upazila: "468" },
+  { code: "4317", bn: "রহিমগঞ্জ", en: "Rahimganj", upazila: "468" },
+  { code: "4307", bn: "রামভদ্রপুর", en: "Rambhadrapur", upazila: "468" },
+  { code: "4321", bn: "রূপসী", en: "Rupasi", upazila: "468" },
+  { code: "4310", bn: "সিংহেশ্বর", en: "Singheshwar", upazila: "468" },
+  { code: "4308", bn: "ছনধরা", en: "Sondhara", upazila: "468" },
+  { code: "4309", bn: "ভাইটকান্দি", en: "Vaitkandi", upazila: "468" },
+  { code: "4337", bn: "আমতৈল", en: "Amtoil", upazila: "469" },
+  { code: "4327", bn: "ভূবনকুড়া", en: "Bhubankura", upazila: "469" },
+  { code: "4332", bn: "বিলডোরা", en: "Bildora", upazila: "469" },
+  { code: "4335", bn: "ধারা", en: "Dhara", upazila: "469" },
+  { code: "4336", bn: "ধুরাইল", en: "Dhurail", upazila: "469" },
+  { code: "4331", bn: "গাজিরভিটা", en: "Gazirbhita", upazila: "469" },
+  { code: "4330", bn: "হালুয়াঘাট", en: "Haluaghat", upazila: "469" },
+  { code: "4908", bn: "হালুয়াঘাট পৌরসভা", en: "Haluaghat Municipality", upazila: "469" },
+  { code: "4328", bn: "জুগলী", en: "Jugli", upazila: "469" },
+  { code: "4329", bn: "কৈচাপুর", en: "Kaichapur", upazila: "469" },
+  { code: "4334", bn: "নড়াইল", en: "Narail", upazila: "469" },
+  { code: "4333", bn: "শাকুয়াই", en: "Sakuai", upazila: "469" },
+  { code: "4338", bn: "স্বদেশী", en: "Swadeshi", upazila: "469" },
+  { code: "4340", bn: "অচিন্তপুর", en: "Achintapur", upazila: "470" },
+  { code: "4347", bn: "ভাংনামারী", en: "Bhangnamari", upazila: "470" },
+  { code: "4342", bn: "বোকাইনগর", en: "Bokainagar", upazila: "470" },
+  { code: "4346", bn: "ডৌহাখলা", en: "Douhakhola", upazila: "470" },
+  { code: "4819", bn: "গৌরীপুর পৌরসভা", en: "Gauripur Municipality", upazila: "470" },
+  { code: "4343", bn: "গৌরীপুর", en: "Gouripur", upazila: "470" },
+  { code: "4341", bn: "মইলাকান্দা", en: "Mailakanda", upazila: "470" },
+  { code: "4344", bn: "মাওহা", en: "Maoha", upazila: "470" },
+  { code: "4345", bn: "রামগোপালপুর", en: "Ramgopalpur", upazila: "470" },
+  { code: "4339", bn: "সহনাটি", en: "Sahanati", upazila: "470" },
+  { code: "4348", bn: "সিধলা", en: "Sidhla", upazila: "470" },
+  { code: "4350", bn: "বারবারিয়া", en: "Barobaria", upazila: "471" },
+  { code: "4351", bn: "চরআলগী", en: "Charalgi", upazila: "471" },
+  { code: "4361", bn: "দত্তেরবাজার", en: "Dotterbazar", upazila: "471" },
+  { code: "4356", bn: "গফরগাঁও", en: "Gafargaon", upazila: "471" },
+  { code: "5056", bn: "গফরগাঁও পৌরসভা", en: "Gafargaon Municipality", upazila: "471" },
+  { code: "4357", bn: "যশরা", en: "Josora", upazila: "471" },
+  { code: "4354", bn: "লংগাইর", en: "Longair", upazila: "471" },
+  { code: "4358", bn: "মশাখালী", en: "Moshakhali", upazila: "471" },
+  { code: "4362", bn: "নিগুয়ারী", en: "Niguari", upazila: "471" },
+  { code: "4355", bn: "পাইথল", en: "Paithol", upazila: "471" },
+  { code: "4359", bn: "পাঁচবাগ", en: "Panchbagh", upazila: "471" },
+  { code: "4353", bn: "রাওনা", en: "Raona", upazila: "471" },
+  { code: "4349", bn: "রসুলপুর", en: "Rasulpur", upazila: "471" },
+  { code: "4352", bn: "সালটিয়া", en: "Saltia", upazila: "471" },
+  { code: "4363", bn: "টাংগাব", en: "Tangabo", upazila: "471" },
+  { code: "4360", bn: "উস্থি", en: "Usthi", upazila: "471" },
+  { code: "4367", bn: "আঠারবাড়ী", en: "Atharabari", upazila: "472" },
+  { code: "4374", bn: "বড়হিত", en: "Barahit", upazila: "472" },
+  { code: "4975", bn: "ঈশ্বরগঞ্জ পৌরসভা", en: "Ishwarganj Municipality", upazila: "472" },
+  { code: "4364", bn: "ঈশ্বরগঞ্জ", en: "Iswarganj", upazila: "472" },
+  { code: "4371", bn: "জাটিয়া", en: "Jatia", upazila: "472" },
+  { code: "4370", bn: "মগটুলা", en: "Magtula", upazila: "472" },
+  { code: "4369", bn: "মাইজবাগ", en: "Maijbagh", upazila: "472" },
+  { code: "4368", bn: "রাজিবপুর", en: "Rajibpur", upazila: "472" },
+  { code: "4365", bn: "সরিষা", en: "Sarisha", upazila: "472" },
+  { code: "4366", bn: "সোহাগী", en: "Sohagi", upazila: "472" },
+  { code: "4373", bn: "তারুন্দিয়া", en: "Tarundia", upazila: "472" },
+  { code: "4372", bn: "উচাখিলা", en: "Uchakhila", upazila: "472" },
+  { code: "4383", bn: "আচারগাঁও", en: "Achargaon", upazila: "473" },
+  { code: "4375", bn: "বেতাগৈর", en: "Batagoir", upazila: "473" },
+  { code: "4377", bn: "চন্ডীপাশা", en: "Chandipasha", upazila: "473" },
+  { code: "4378", bn: "গাংগাইল", en: "Gangail", upazila: "473" },
+  { code: "4386", bn: "জাহাঙ্গীরপুর", en: "Jahangirpur", upazila: "473" },
+  { code: "4385", bn: "খারুয়া", en: "Kharua", upazila: "473" },
+  { code: "4380", bn: "মোয়াজ্জেমপুর", en: "Muajjempur", upazila: "473" },
+  { code: "4384", bn: "মুশুল্লী", en: "Mushulli", upazila: "473" },
+  { code: "4376", bn: "নান্দাইল", en: "Nandail", upazila: "473" },
+  { code: "4907", bn: "নান্দাইল পৌরসভা", en: "Nandail Municipality", upazila: "473" },
+  { code: "4379", bn: "রাজগাতী", en: "Rajgati", upazila: "473" },
+  { code: "4381", bn: "শেরপুর", en: "Sherpur", upazila: "473" },
+  { code: "4382", bn: "সিংরইল", en: "Singroil", upazila: "473" },
+  { code: "4318", bn: "বালিখা", en: "Balikha", upazila: "474" },
+  { code: "4312", bn: "বানিহালা", en: "Banihala", upazila: "474" },
+  { code: "4313", bn: "বিস্কা", en: "Biska", upazila: "474" },
+  { code: "4320", bn: "ঢাকুয়া", en: "Dhakua", upazila: "474" },
+  { code: "4323", bn: "গালাগাঁও", en: "Galagaon", upazila: "474" },
+  { code: "4319", bn: "কাকনী", en: "Kakni", upazila: "474" },
+  { code: "4324", bn: "কামারগাঁও", en: "Kamargaon", upazila: "474" },
+  { code: "4325", bn: "কামারিয়া", en: "Kamaria", upazila: "474" },
+  { code: "4326", bn: "রামপুর", en: "Rampur", upazila: "474" },
+  { code: "4322", bn: "তারাকান্দা", en: "Tarakanda", upazila: "474" },
+  { code: "4394", bn: "বাশঁচড়া", en: "Bashchara", upazila: "475" },
+  { code: "4400", bn: "দিগপাইত", en: "Digpait", upazila: "475" },
+  { code: "4393", bn: "ঘোড়াধাপ", en: "Ghorada", upazila: "475" },
+  { code: "4816", bn: "হাজরাবাড়ী পৌরসভা", en: "Hazrabari Municipality", upazila: "475" },
+  { code: "4391", bn: "ইটাইল", en: "Itail", upazila: "475" },
+  { code: "4903", bn: "জামালপুর পৌরসভা", en: "Jamalpur Municipality", upazila: "475" },
+  { code: "4387", bn: "কেন্দুয়া", en: "Kendua", upazila: "475" },
+  { code: "4389", bn: "লক্ষীরচর", en: "Laxirchar", upazila: "475" },
+  { code: "4399", bn: "মেষ্টা", en: "Mesta", upazila: "475" },
+  { code: "4392", bn: "নরুন্দী", en: "Narundi", upazila: "475" },
+  { code: "4395", bn: "রানাগাছা", en: "Ranagacha", upazila: "475" },
+  { code: "4401", bn: "রশিদপুর", en: "Rashidpur", upazila: "475" },
+  { code: "4397", bn: "শাহবাজপুর", en: "Shahbajpur", upazila: "475" },
+  { code: "4388", bn: "শরিফপুর", en: "Sharifpur", upazila: "475" },
+  { code: "4396", bn: "শ্রীপুর", en: "Sheepur", upazila: "475" },
+  { code: "4398", bn: "তিতপল্লা", en: "Titpalla", upazila: "475" },
+  { code: "4390", bn: "তুলশীরচর", en: "Tolshirchar", upazila: "475" },
+  { code: "4407", bn: "আদ্রা", en: "Adra", upazila: "476" },
+  { code: "4408", bn: "চরবানী পাকুরিয়া", en: "Charbani Pakuria", upazila: "476" },
+  { code: "4402", bn: "দুরমুট", en: "Durmot", upazila: "476" },
+  { code: "4409", bn: "ফুলকোচা", en: "Fulkucha", upazila: "476" },
+  { code: "4410", bn: "ঘোষেরপাড়া", en: "Ghuserpara", upazila: "476" },
+  { code: "4411", bn: "ঝাউগড়া", en: "Jhaugara", upazila: "476" },
+  { code: "4403", bn: "কুলিয়া", en: "Kulia", upazila: "476" },
+  { code: "4404", bn: "মাহমুদপুর", en: "Mahmudpur", upazila: "476" },
+  { code: "5054", bn: "মেলান্দহ পৌরসভা", en: "Melandha Municipality", upazila: "476" },
+  { code: "4405", bn: "নাংলা", en: "Nangla", upazila: "476" },
+  { code: "4406", bn: "নয়ানগর", en: "Nayanagar", upazila: "476" },
+  { code: "4412", bn: "শ্যামপুর", en: "Shuampur", upazila: "476" },
+  { code: "4414", bn: "বেলগাছা", en: "Belghacha", upazila: "477" },
+  { code: "4424", bn: "চরগোয়ালীনি", en: "Chargualini", upazila: "477" },
+  { code: "4423", bn: "চরপুটিমারী", en: "Charputimari", upazila: "477" },
+  { code: "4415", bn: "চিনাডুলী", en: "Chinaduli", upazila: "477" },
+  { code: "4422", bn: "গাইবান্ধা", en: "Gaibandha", upazila: "477" },
+  { code: "4421", bn: "গোয়ালেরচর", en: "Gualerchar", upazila: "477" },
+  { code: "4418", bn: "ইসলামপুর", en: "Islampur", upazila: "477" },
+  { code: "4972", bn: "ইসলামপুর পৌরসভা", en: "Islampur Municipality", upazila: "477" },
+  { code: "4413", bn: "কুলকান্দি", en: "Kulkandi", upazila: "477" },
+  { code: "4417", bn: "নোয়ারপাড়া", en: "Noarpara", upazila: "477" },
+  { code: "4420", bn: "পলবান্ধা", en: "Palabandha", upazila: "477" },
+  { code: "4419", bn: "পাথশী", en: "Partharshi", upazila: "477" },
+  { code: "4416", bn: "সাপধরী", en: "Shapdari", upazila: "477" },
+  { code: "4429", bn: "বাহাদুরাবাদ", en: "Bahadurabad", upazila: "478" },
+  { code: "4426", bn: "চর আমখাওয়া", en: "Char Amkhawa", upazila: "478" },
+  { code: "4430", bn: "চিকাজানী", en: "Chikajani", upazila: "478" },
+  { code: "4431", bn: "চুকাইবাড়ী", en: "Chukaibari", upazila: "478" },
+  { code: "5055", bn: "দেওয়ানগঞ্জ পৌরসভা", en: "Dewanganj Municipality", upazila: "478" },
+  { code: "4432", bn: "দেওয়ানগঞ্জ", en: "Dewangonj", upazila: "478" },
+  { code: "4425", bn: "ডাংধরা", en: "Dungdhara", upazila: "478" },
+  { code: "4428", bn: "হাতীভাঙ্গা", en: "Hatibanga", upazila: "478" },
+  { code: "4427", bn: "পাররাম রামপুর", en: "Parram Rampur", upazila: "478" },
+  { code: "4436", bn: "আওনা", en: "Aona", upazila: "479" },
+  { code: "4438", bn: "ভাটারা", en: "Bhatara", upazila: "479" },
+  { code: "4435", bn: "ডোয়াইল", en: "Doail", upazila: "479" },
+  { code: "4439", bn: "কামরাবাদ", en: "Kamrabad", upazila: "479" },
+  { code: "4440", bn: "মহাদান", en: "Mahadan", upazila: "479" },
+  { code: "4437", bn: "পিংনা", en: "Pingna", upazila: "479" },
+  { code: "4434", bn: "পোগলদিঘা", en: "Pogaldigha", upazila: "479" },
+  { code: "4815", bn: "সরিষাবাড়ী পৌরসভা", en: "Sarishabari Municipality", upazila: "479" },
+  { code: "4433", bn: "সাতপোয়া", en: "Satpoa", upazila: "479" },
+  { code: "4446", bn: "আদারভিটা", en: "Adarvita", upazila: "480" },
+  { code: "4444", bn: "বালিজুড়ী", en: "Balijuri", upazila: "480" },
+  { code: "4441", bn: "চর পাকেরদহ", en: "Char Pakerdah", upazila: "480" },
+  { code: "4443", bn: "গুনারীতলা", en: "Gunaritala", upazila: "480" },
+  { code: "4445", bn: "জোড়খালী", en: "Jorekhali", upazila: "480" },
+  { code: "4442", bn: "কড়ইচড়া", en: "Karaichara", upazila: "480" },
+  { code: "4973", bn: "মাদারগঞ্জ পৌরসভা", en: "Madarganj Municipality", upazila: "480" },
+  { code: "4447", bn: "সিধুলী", en: "Sidhuli", upazila: "480" },
+  { code: "4449", bn: "বগারচর", en: "Bagarchar", upazila: "481" },
+  { code: "4904", bn: "বকশীগঞ্জ পৌরসভা", en: "Bakshiganj Municipality", upazila: "481" },
+  { code: "4452", bn: "বকসীগঞ্জ", en: "Bakshigonj", upazila: "481" },
+  { code: "4450", bn: "বাট্রাজোড়", en: "Battajore", upazila: "481" },
+  { code: "4448", bn: "ধানুয়া", en: "Danua", upazila: "481" },
+  { code: "4454", bn: "মেরুরচর", en: "Merurchar", upazila: "481" },
+  { code: "4453", bn: "নিলক্ষিয়া", en: "Nilakhia", upazila: "481" },
+  { code: "4451", bn: "সাধুরপাড়া", en: "Shadurpara", upazila: "481" },
+  { code: "4455", bn: "আসমা", en: "Asma", upazila: "482" },
+  { code: "4458", bn: "বারহাট্টা", en: "Barhatta", upazila: "482" },
+  { code: "4457", bn: "বাউশী", en: "Baushi", upazila: "482" },
+  { code: "4456", bn: "চিরাম", en: "Chhiram", upazila: "482" },
+  { code: "4459", bn: "রায়পুর", en: "Raypur", upazila: "482" },
+  { code: "4460", bn: "সাহতা", en: "Sahata", upazila: "482" },
+  { code: "4461", bn: "সিংধা", en: "Singdha", upazila: "482" },
+  { code: "4467", bn: "বাকলজোড়া", en: "Bakaljora", upazila: "483" },
+  { code: "4466", bn: "বিরিশিরি", en: "Birisiri", upazila: "483" },
+  { code: "4465", bn: "চণ্ডিগড়", en: "Chandigarh", upazila: "483" },
+  { code: "4462", bn: "দূর্গাপুর", en: "Durgapur", upazila: "483" },
+  { code: "4974", bn: "দুর্গাপুর পৌরসভা", en: "Durgapur Municipality", upazila: "483" },
+  { code: "4468", bn: "গাঁওকান্দিয়া", en: "Gawkandia", upazila: "483" },
+  { code: "4463", bn: "কাকৈরগড়া", en: "Kakoirgora", upazila: "483" },
+  { code: "4464", bn: "কুল্লাগড়া", en: "Kullagora", upazila: "483" },
+  { code: "4469", bn: "আশুজিয়া", en: "Asujia", upazila: "484" },
+  { code: "4475", bn: "বলাইশিমুল", en: "Bolaishimul", upazila: "484" },
+  { code: "4478", bn: "চিরাং", en: "Chirang", upazila: "484" },
+  { code: "4470", bn: "দলপা", en: "Dalpa", upazila: "484" },
+  { code: "4472", bn: "গণ্ডা", en: "Gonda", upazila: "484" },
+  { code: "4471", bn: "গড়াডোবা", en: "Goraduba", upazila: "484" },
+  { code: "4477", bn: "কান্দিউড়া", en: "Kandiura", upazila: "484" },
+  { code: "4906", bn: "কেন্দুয়া পৌরসভা", en: "Kendua Municipality", upazila: "484" },
+  { code: "4474", bn: "মাসকা", en: "Maska", upazila: "484" },
+  { code: "4481", bn: "মোজাফরপুর", en: "Muzafarpur", upazila: "484" },
+  { code: "4476", bn: "নওপাড়া", en: "Noapara", upazila: "484" },
+  { code: "4480", bn: "পাইকুড়া", en: "Paikura", upazila: "484" },
+  { code: "4479", bn: "রোয়াইলবাড়ী আমতলা", en: "Roailbari Amtala", upazila: "484" },
+  { code: "4473", bn: "সান্দিকোনা", en: "Sandikona", upazila: "484" },
+  { code: "4485", bn: "বানিয়াজান", en: "Baniyajan", upazila: "485" },
+  { code: "4487", bn: "দুওজ", en: "Duoj", upazila: "485" },
+  { code: "4484", bn: "লুনেশ্বর", en: "Lunesshor", upazila: "485" },
+  { code: "4482", bn: "স্বরমুশিয়া", en: "Shormushia", upazila: "485" },
+  { code: "4483", bn: "শুনই", en: "Shunoi", upazila: "485" },
+  { code: "4488", bn: "সুখারী", en: "Sukhari", upazila: "485" },
+  { code: "4486", bn: "তেলিগাতী", en: "Teligati", upazila: "485" },
+  { code: "4495", bn: "চানগাঁও", en: "Chandgaw", upazila: "486" },
+  { code: "4489", bn: "ফতেপুর", en: "Fathepur", upazila: "486" },
+  { code: "4493", bn: "গেবিন্দশ্রী", en: "Gobindasree", upazila: "486" },
+  { code: "4496", bn: "কাইটাল", en: "Kytail", upazila: "486" },
+  { code: "4494", bn: "মদন", en: "Madan", upazila: "486" },
+  { code: "4818", bn: "মদন পৌরসভা", en: "Madan Municipality", upazila: "486" },
+  { code: "4492", bn: "মাঘান", en: "Magan", upazila: "486" },
+  { code: "4490", bn: "নায়েকপুর", en: "Nayekpur", upazila: "486" },
+  { code: "4491", bn: "তিয়শ্রী", en: "Teosree", upazila: "486" },
+  { code: "4499", bn: "চাকুয়া", en: "Chakua", upazila: "487" },
+  { code: "4502", bn: "গাজীপুর", en: "Gazipur", upazila: "487" },
+  { code: "4500", bn: "খালিয়াজুরী", en: "Khaliajuri", upazila: "487" },
+  { code: "4497", bn: "কৃষ্ণপুর", en: "Krishnapur", upazila: "487" },
+  { code: "4501", bn: "মেন্দিপুর", en: "Mendipur", upazila: "487" },
+  { code: "4498", bn: "নগর", en: "Nogor", upazila: "487" },
+  { code: "4509", bn: "বড়খাপন", en: "Borokhapon", upazila: "488" },
+  { code: "4510", bn: "খারনৈ", en: "Kharnoi", upazila: "488" },
+  { code: "4503", bn: "কৈলাটী", en: "Koilati", upazila: "488" },
+  { code: "4506", bn: "কলমাকান্দা", en: "Kolmakanda", upazila: "488" },
+  { code: "4508", bn: "লেংগুরা", en: "Lengura", upazila: "488" },
+  { code: "4504", bn: "নাজিরপুর", en: "Najirpur", upazila: "488" },
+  { code: "4505", bn: "পোগলা", en: "Pogla", upazila: "488" },
+  { code: "4507", bn: "রংছাতি", en: "Rongchati", upazila: "488" },
+  { code: "4511", bn: "বড়কাশিয়া বিরামপুর", en: "Borokashia Birampur", upazila: "489" },
+  { code: "4512", bn: "বড়তলী বানিহারী", en: "Borotoli Banihari", upazila: "489" },
+  { code: "4517", bn: "গাগলাজুর", en: "Gaglajur", upazila: "489" },
+  { code: "4514", bn: "মাঘান সিয়াদার", en: "Maghan Siadar", upazila: "489" },
+  { code: "4817", bn: "মোহনগঞ্জ পৌরসভা", en: "Mohanganj Municipality", upazila: "489" },
+  { code: "4515", bn: "সমাজ সহিলদেও", en: "Somaj Sohildeo", upazila: "489" },
+  { code: "4516", bn: "সুয়াইর", en: "Suair", upazila: "489" },
+  { code: "4513", bn: "তেতুলিয়া", en: "Tetulia", upazila: "489" },
+  { code: "4527", bn: "আগিয়া", en: "Agia", upazila: "490" },
+  { code: "4523", bn: "বৈরাটী", en: "Bairaty", upazila: "490" },
+  { code: "4522", bn: "বিশকাকুনী", en: "Bishkakuni", upazila: "490" },
+  { code: "4526", bn: "ধলামুলগাঁও", en: "Dhalamulgaon", upazila: "490" },
+  { code: "4519", bn: "ঘাগড়া", en: "Ghagra", upazila: "490" },
+  { code: "4525", bn: "গোহালাকান্দা", en: "Gohalakanda", upazila: "490" },
+  { code: "4524", bn: "হোগলা", en: "Hogla", upazila: "490" },
+  { code: "4520", bn: "জারিয়া", en: "Jaria", upazila: "490" },
+  { code: "4518", bn: "খলিশাউড়", en: "Khalishaur", upazila: "490" },
+  { code: "4521", bn: "নারান্দিয়া", en: "Narandia", upazila: "490" },
+  { code: "4528", bn: "পূর্বধলা", en: "Purbadhala", upazila: "490" },
+  { code: "4533", bn: "আমতলা", en: "Amtola", upazila: "491" },
+  { code: "4529", bn: "চল্লিশা", en: "Chollisha", upazila: "491" },
+  { code: "4531", bn: "দক্ষিণ বিশিউড়া", en: "Dokkhin Bishiura", upazila: "491" },
+  { code: "4530", bn: "কাইলাটি", en: "Kailati", upazila: "491" },
+  { code: "4540", bn: "কালিয়ারা গাবরাগাতি", en: "Kaliara Babragati", upazila: "491" },
+  { code: "4534", bn: "লক্ষীগঞ্জ", en: "Lokkhiganj", upazila: "491" },
+  { code: "4539", bn: "মেদনী", en: "Medni", upazila: "491" },
+  { code: "4532", bn: "মদনপুর", en: "Modonpur", upazila: "491" },
+  { code: "4537", bn: "মৌগাতি", en: "Mougati", upazila: "491" },
+  { code: "4905", bn: "নেত্রকোণা পৌরসভা", en: "Netrokona Municipality", upazila: "491" },
+  { code: "4538", bn: "রৌহা", en: "Rouha", upazila: "491" },
+  { code: "4535", bn: "সিংহের বাংলা", en: "Singher Bangla", upazila: "491" },
+  { code: "4536", bn: "ঠাকুরাকোণা", en: "Thakurakona", upazila: "491" },
+  { code: "4653", bn: "ডেমরা", en: "Demra", upazila: "492" },
+  { code: "4654", bn: "ধানমন্ডি", en: "Dhanmondi", upazila: "492" },
+  { code: "4655", bn: "গেন্ডারিয়া", en: "gandaria", upazila: "492" },
+  { code: "4658", bn: "হাজারীবাগ", en: "hazaribag", upazila: "492" },
+  { code: "4659", bn: "যাত্রাবাড়ী", en: "Jatrabari", upazila: "492" },
+  { code: "4660", bn: "কদমতলী", en: "kadamtoli", upazila: "492" },
+  { code: "4661", bn: "কামরাঙ্গীর চর", en: "Kamrangirchor", upazila: "492" },
+  { code: "4663", bn: "কেরানীগঞ্জ", en: "keraniganj", upazila: "492" },
+  { code: "4662", bn: "খিলগাঁও", en: "khilgao", upazila: "492" },
+  { code: "4664", bn: "কোতয়ালী", en: "kotoyali", upazila: "492" },
+  { code: "4665", bn: "লালবাগ", en: "lalbag", upazila: "492" },
+  { code: "4666", bn: "মোহাম্মদপুর", en: "mohammudpur", upazila: "492" },
+  { code: "4667", bn: "মতিঝিল", en: "mothijhil", upazila: "492" },
+  { code: "4668", bn: "নিউ মার্কেট", en: "new market", upazila: "492" },
+  { code: "4669", bn: "পল্টন", en: "poltan", upazila: "492" },
+  { code: "4670", bn: "রমনা", en: "ramna", upazila: "492" },
+  { code: "4671", bn: "সবুজবাগ", en: "sabujbag", upazila: "492" },
+  { code: "4672", bn: "শাহবাগ", en: "shahbag", upazila: "492" },
+  { code: "5061", bn: "শাহজাহানপুর", en: "Shahjahanpur", upazila: "492" },
+  { code: "4673", bn: "শ্যামপুর", en: "shampur", upazila: "492" },
+  { code: "4674", bn: "সুত্রাপুর", en: "sutrapur", upazila: "492" },
+  { code: "4686", bn: "আদাবর", en: "adabor", upazila: "493" },
+  { code: "4687", bn: "বাড্ডা", en: "badda", upazila: "493" },
+  { code: "4689", bn: "বনানী", en: "banani", upazila: "493" },
+  { code: "4693", bn: "ভাটারা", en: "Bhatara", upazila: "493" },
+  { code: "4688", bn: "বিমান বন্দর", en: "bimanbondor", upazila: "493" },
+  { code: "4690", bn: "ক্যান্টনমেন্ট", en: "cantonment", upazila: "493" },
+  { code: "4691", bn: "দক্ষিণখান", en: "dakkhinkhan", upazila: "493" },
+  { code: "4692", bn: "ধানমন্ডি", en: "Dhanmondi", upazila: "493" },
+  { code: "4694", bn: "গুলশান", en: "gulshan", upazila: "493" },
+  { code: "4695", bn: "হাতিরঝিল", en: "hatirjhil", upazila: "493" },
+  { code: "4697", bn: "কাফরুল", en: "kafrul", upazila: "493" },
+  { code: "4698", bn: "খিলগাঁও", en: "khilgaon", upazila: "493" },
+  { code: "4699", bn: "খিলক্ষেত", en: "khilkhet", upazila: "493" },
+  { code: "4676", bn: "মিরপুর", en: "mirpur", upazila: "493" },
+  { code: "4677", bn: "মোহাম্মদপুর", en: "mohammadpur", upazila: "493" },
+  { code: "4678", bn: "পল্লবী", en: "pallabi", upazila: "493" },
+  { code: "4679", bn: "রমনা", en: "ramna", upazila: "493" },
+  { code: "4680", bn: "রামপুরা", en: "rampura", upazila: "493" },
+  { code: "4681", bn: "শাহ্‌ আলী", en: "shahali", upazila: "493" },
+  { code: "5755", bn: "শেরে বাংলা নগর", en: "shere Bangla Nagar", upazila: "493" },
+  { code: "4683", bn: "তেজগাঁও শিল্প এলাকা", en: "tejgao ca", upazila: "493" },
+  { code: "4682", bn: "তেজগাঁও", en: "tejgaon", upazila: "493" },
+  { code: "4684", bn: "তুরাগ", en: "turag", upazila: "493" },
+  { code: "4675", bn: "উত্তর খান", en: "uttar khan", upazila: "493" },
+  { code: "4685", bn: "উত্তরা", en: "uttara", upazila: "493" },
+  { code: "4713", bn: "দৌলতপুর", en: "doulotpur", upazila: "494" },
+  { code: "4714", bn: "খালিসপুর", en: "khalispur", upazila: "494" },
+  { code: "4716", bn: "খান জাহান আলী", en: "khanjahanali", upazila: "494" },
+  { code: "4712", bn: "খুলনা সদর", en: "khulna sadar", upazila: "494" },
+  { code: "4715", bn: "সোনাডাঙ্গা", en: "sonadanga", upazila: "494" },
+  { code: "4719", bn: "বোয়ালিয়া", en: "boalia", upazila: "495" },
+  { code: "4718", bn: "মতিহার", en: "motihar", upazila: "495" },
+  { code: "4721", bn: "রাজপাড়া", en: "rajpara", upazila: "495" },
+  { code: "4720", bn: "শাহ্‌ মখদুম", en: "shahmogdum", upazila: "495" },
+  { code: "4724", bn: "পীরগাছা", en: "pirgacha", upazila: "496" },
+  { code: "4723", bn: "রংপুর সদর", en: "rangpur sadar", upazila: "496" },
+  { code: "4717", bn: "বরিশাল সদর", en: "barishal sadar", upazila: "497" },
+  { code: "4703", bn: "বাকলীয়া", en: "Bakalia", upazila: "498" },
+  { code: "4702", bn: "বায়জিদ বোস্তামী", en: "Bayazid Bostami", upazila: "498" },
+  { code: "4704", bn: "চাঁদগাও", en: "Chandgaon", upazila: "498" },
+  { code: "4705", bn: "চট্টগ্রাম পোর্ট", en: "Chattatagram port", upazila: "498" },
+  { code: "4707", bn: "ডবলমুরিং", en: "dabalmuring", upazila: "498" },
+  { code: "4706", bn: "হালিশহর", en: "halishohor", upazila: "498" },
+  { code: "4708", bn: "হাটহাজারী", en: "hathazari", upazila: "498" },
+  { code: "4710", bn: "খুলশী", en: "khulsi", upazila: "498" },
+  { code: "4711", bn: "কোতয়ালী", en: "kotowali", upazila: "498" },
+  { code: "4700", bn: "পাঁচলাইশ", en: "pachlish", upazila: "498" },
+  { code: "4709", bn: "পাহাড়তলী", en: "pahartoli", upazila: "498" },
+  { code: "4701", bn: "পতেঙ্গা", en: "patanga", upazila: "498" },
+  { code: "4728", bn: "গাজীপুর সদর", en: "gazipur sadar", upazila: "499" },
+  { code: "4727", bn: "টঙ্গী", en: "tangi", upazila: "499" },
+  { code: "4729", bn: "বন্দর", en: "bandar", upazila: "500" },
+  { code: "4730", bn: "নারায়ণগঞ্জ সদর", en: "narayanganj sadar", upazila: "500" },
+  { code: "4651", bn: "ময়মনসিংহ সদর", en: "Mymansing sadar", upazila: "501" },
+  { code: "4722", bn: "সিলেট সদর", en: "sylhet sadar", upazila: "502" },
+  { code: "4726", bn: "কুমিল্লা আদর্শ সদর", en: "kumilla adarsha sadar", upazila: "503" },
+  { code: "4725", bn: "কুমিল্লা সদর দক্ষিণ", en: "kumilla sadar dakkhin", upazila: "503" },
+];
@@ -0,0 +1,68 @@
+// Approximate coordinates of each district headquarters, keyed by BBS district
+// code. Used as the district centroid when an event has no map location.
+export const DISTRICT_CENTROIDS: Record<string, [number, number]> = {
+  "01": [22.6602, 89.7895], // Bagerhat
+  "03": [22.1953, 92.2184], // Bandarban
+  "04": [22.0953, 90.1121], // Barguna
+  "06": [22.7010, 90.3535], // Barisal
+  "09": [22.6859, 90.6482], // Bhola
+  "10": [24.8465, 89.3773], // Bogura
+  "12": [23.9571, 91.1119], // Brahmanbaria
+  "13": [23.2333, 90.6712], // Chandpur
+  "15": [22.3569, 91.7832], // Chattogram
+  "18": [23.6402, 88.8418], // Chuadanga
+  "19": [23.4607, 91.1809], // Comilla
+  "22": [21.4272, 92.0058], // Cox's Bazar
+  "26": [23.8103, 90.4125], // Dhaka
+  "27": [25.6279, 88.6332], // Dinajpur
+  "29": [23.6071, 89.8429], // Faridpur
+  "30": [23.0159, 91.3976], // Feni
+  "32": [25.3288, 89.5280], // Gaibandha
+  "33": [23.9999, 90.4203], // Gazipur
+  "35": [23.0050, 89.8266], // Gopalganj
+  "36": [24.3749, 91.4155], // Habiganj
+  "38": [25.0968, 89.0227], // Joypurhat
+  "39": [24.9375, 89.9378], // Jamalpur
+  "41": [23.1664, 89.2081], // Jashore
+  "42": [22.6406, 90.1987], // Jhalakathi
+  "44": [23.5450, 89.1726], // Jhenaidah
+  "46": [23.1193, 91.9847], // Khagrachhari
+  "47": [22.8456, 89.5403], // Khulna
+  "48": [24.4449, 90.7766], // Kishoreganj
+  "49": [25.8072, 89.6295], // Kurigram
+  "50": [23.9013, 89.1204], // Kushtia
+  "51": [22.9447, 90.8282], // Lakshmipur
+  "52": [25.9923, 89.2847], // Lalmonirhat
+  "54": [23.1641, 90.1897], // Madaripur
+  "55": [23.4855, 89.4198], // Magura
+  "56": [23.8617, 90.0003], // Manikganj
+  "57": [23.7622, 88.6318], // Meherpur
+  "58": [24.4829, 91.7774], // Moulvibazar
+  "59": [23.5422, 90.5305], // Munshiganj
+  "61": [24.7471, 90.4203], // Mymensingh
+  "64": [24.7936, 88.9318], // Naogaon
+  "65": [23.1725, 89.5127], // Narail
+  "67": [23.6238, 90.4990], // Narayanganj
+  "68": [23.9322, 90.7151], // Narsingdi
+  "69": [24.4206, 89.0003], // Natore
+  "70": [24.5965, 88.2775], // Chapainawabganj
+  "72": [24.8709, 90.7279], // Netrokona
+  "73": [25.9310, 88.8560], // Nilphamari
+  "75": [22.8696, 91.0995], // Noakhali
+  "76": [24.0064, 89.2372], // Pabna
+  "77": [26.3411, 88.5542], // Panchagarh
+  "78": [22.3596, 90.3299], // Patuakhali
+  "79": [22.5841, 89.9720], // Pirojpur
+  "81": [24.3745, 88.6042], // Rajshahi
+  "82": [23.7574, 89.6444], // Rajbari
+  "84": [22.6533, 92.1750], // Rangamati
+  "85": [25.7439, 89.2752], // Rangpur
+  "86": [23.2423, 90.4348], // Shariatpur
+  "87": [22.7185, 89.0705], // Satkhira
+  "88": [24.4534, 89.7007], // Sirajganj
+  "89": [25.0205, 90.0153], // Sherpur
+  "90": [25.0715, 91.3992], // Sunamganj
+  "91": [24.8949, 91.8687], // Sylhet
+  "93": [24.2513, 89.9167], // Tangail
+  "94": [26.0336, 88.4616], // Thakurgaon
+};
@@ -0,0 +1,14 @@
+import { BookOpen, Utensils } from 'lucide-react';
+import publicIftarMarker from './assets/markers/public_iftar.svg';
+import religiousGatheringMarker from './assets/markers/religious_gathering.svg';
+import defaultMarker from './assets/markers/default.svg';
+
+export const EVENT_TYPES = [
+  { id: "public_iftar", label: "গণ-ইফতার", icon: Utensils, color: "text-blue-600", bg: "bg-blue-50", marker: publicIftarMarker },
+  { id: "religious_gathering", label: "ওয়াজ/দ্বীনি মজলিস", icon: BookOpen, color: "text-emerald-600", bg: "bg-emerald-50", marker: religiousGatheringMarker }
+];
+
+// Map pin for events whose type is not in EVENT_TYPES
+export const DEFAULT_MARKER = defaultMarker;
+
+export const getEventType = (id?: string) => EVENT_TYPES.find(t => t.id === id) || EVENT_TYPES[0];
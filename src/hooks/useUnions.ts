@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import { getUnions, type GeoUnion } from '../lib/geo';
+
+// Unions of an upazila, loaded lazily from the bundled dataset.
+export function useUnions(upazilaCode?: string) {
+  const [unions, setUnions] = useState<GeoUnion[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!upazilaCode) {
+      setUnions([]);
+      return;
+    }
+    getUnions(upazilaCode)
+      .then(result => { if (!cancelled) setUnions(result); })
+      .catch(e => console.error("Failed to load unions", e));
+    return () => { cancelled = true; };
+  }, [upazilaCode]);
+
+  return unions;
+}
@@ -0,0 +1,30 @@
+const BENGALI_DIGITS = ['০', '১', '২', '৩', '৪', '৫', '৬', '৭', '৮', '৯'];
+
+export const toBanglaDigits = (value: number | string) =>
+  value.toString().replace(/[0-9]/g, d => BENGALI_DIGITS[Number(d)]);
+
+// Formats a 24-hour "HH:mm" clock time the way it is spoken in Bangla,
+// e.g. "18:05" -> "সন্ধ্যা ৬:০৫". Values that are not clock times (older
+// events stored free text such as "মাগরিবের আযানের সময়") are returned as is.
+export function formatClockBn(time?: string | null) {
+  if (!time) return '';
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) return time;
+
+  const hours = Number(match[1]);
+  const period =
+    hours < 4 ? 'রাত' :
+    hours < 6 ? 'ভোর' :
+    hours < 12 ? 'সকাল' :
+    hours < 15 ? 'দুপুর' :
+    hours < 17 ? 'বিকাল' :
+    hours < 19 ? 'সন্ধ্যা' : 'রাত';
+  const hour12 = hours % 12 || 12;
+  return `${period} ${toBanglaDigits(hour12)}:${toBanglaDigits(match[2])}`;
+}
+
+// "৮০০ মিটার" below a kilometre, "২.৩ কিমি" above.
+export function formatDistanceBn(km: number) {
+  if (km < 1) return `${toBanglaDigits(Math.max(10, Math.round(km * 100) * 10))} মিটার`;
+  return `${toBanglaDigits(km < 10 ? km.toFixed(1) : Math.round(km))} কিমি`;
+}
@@ -0,0 +1,164 @@
+import { EVENT_TYPE_IDS, type Event } from '../types';
+import { toBanglaDigits } from './bangla';
+import { findDistrict, findUpazila } from './geo';
+import { isUploadedImage } from './images';
+import { OPEN_ENDED_DAYS, parseDateList } from './schedule';
+
+// Validation shared by the submission form and the server. Errors are keyed
+// by field and written in Bangla so the form can show them next to each input.
+export type EventErrors = Partial<Record<keyof Event, string>>;
+
+// Bounding box of Bangladesh, with a little margin for border villages.
+export const BANGLADESH_BOUNDS = { minLat: 20.5, maxLat: 26.7, minLng: 88.0, maxLng: 92.7 };
+
+// Mobile numbers are 01[3-9] plus eight digits; landlines are an area code
+// starting with 0 plus the local number. Either may carry the +88 prefix.
+const MOBILE_NUMBER = /^(?:\+?88)?01[3-9]\d{8}$/;
+const LANDLINE_NUMBER = /^(?:\+?88)?0[2-9]\d{6,9}$/;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Event dates must fall in these years, and a schedule may run for at most
+// OPEN_ENDED_DAYS, about a year.
+const MIN_YEAR = 2000;
+const MAX_YEAR = 2100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MAX_LENGTHS: Partial<Record<keyof Event, number>> = {
+  name: 200,
+  village: 200,
+  address: 500,
+  date_range: 200,
+  start_time: 100,
+  contact: 100,
+  description: 5000,
+  event_date: 100,
+  event_day: 50,
+};
+
+const fromBanglaDigits = (text: string) =>
+  text.replace(/[০-৯]/g, d => String(d.charCodeAt(0) - 0x09E6));
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && !value.trim()) ||
+  (typeof value === 'number' && isNaN(value));
+
+const isDate = (value: string) => ISO_DATE.test(value) && !isNaN(Date.parse(value));
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// One or more numbers separated by commas or slashes; spaces, dashes and
+// Bangla digits are allowed within a number.
+export const isBangladeshiPhone = (value: string) =>
+  value.split(/[,/]/).every(part => {
+    const number = fromBanglaDigits(part).replace(/[\s\-().]/g, '');
+    return MOBILE_NUMBER.test(number) || LANDLINE_NUMBER.test(number);
+  });
+
+// The organizer's address for the management link; not stored on the event
+export const isEmail = (value: string) =>
+  value.length <= 254 && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+
+export const isInBangladesh = (lat: number, lng: number) =>
+  lat >= BANGLADESH_BOUNDS.minLat && lat <= BANGLADESH_BOUNDS.maxLat &&
+  lng >= BANGLADESH_BOUNDS.minLng && lng <= BANGLADESH_BOUNDS.maxLng;
+
+// Checks a submission. With `partial`, as for edits, fields that are absent
+// are left alone and only the ones sent are checked.
+export function validateEvent(input: Record<string, unknown>, { partial = false } = {}): EventErrors {
+  const errors: EventErrors = {};
+  const has = (field: keyof Event) => !partial || field in input;
+
+  for (const [field, max] of Object.entries(MAX_LENGTHS) as [keyof Event, number][]) {
+    const value = input[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'string') errors[field] = 'লেখা হিসেবে দিন';
+    else if (value.length > max) errors[field] = `সর্বোচ্চ ${toBanglaDigits(max)} অক্ষর লেখা যাবে`;
+  }
+
+  if (has('name') && isEmpty(input.name)) errors.name = 'ইভেন্টের নাম দিন';
+
+  if (has('type') && !EVENT_TYPE_IDS.includes(input.type as typeof EVENT_TYPE_IDS[number])) {
+    errors.type = 'ইভেন্টের ধরন নির্বাচন করুন';
+  }
+
+  if ((has('district') || has('district_code')) && isEmpty(input.district) && isEmpty(input.district_code)) {
+    errors.district_code = 'জেলা নির্বাচন করুন';
+  } else if (!isEmpty(input.district_code) && !findDistrict(String(input.district_code))) {
+    errors.district_code = 'জেলাটি খুঁজে পাওয়া যায়নি';
+  }
+
+  if ((has('upazila') || has('upazila_code')) && isEmpty(input.upazila) && isEmpty(input.upazila_code)) {
+    errors.upazila_code = 'উপজেলা নির্বাচন করুন';
+  } else if (!isEmpty(input.upazila_code) && !findUpazila(undefined, String(input.upazila_code))) {
+    errors.upazila_code = 'উপজেলাটি খুঁজে পাওয়া যায়নি';
+  }
+
+  if (has('village') && isEmpty(input.village)) errors.village ??= 'গ্রাম বা মহল্লার নাম দিন';
+  if (has('address') && isEmpty(input.address)) errors.address ??= 'বিস্তারিত ঠিকানা দিন';
+
+  // The server works out the calendar date from a free-text one, so either will do
+  if ((has('event_date') || has('target_date')) && isEmpty(input.event_date) && isEmpty(input.target_date)) {
+    errors.target_date = 'ইভেন্টের তারিখ দিন';
+  }
+  for (const field of ['target_date', 'end_date'] as const) {
+    const value = input[field];
+    if (isEmpty(value)) continue;
+    if (typeof value !== 'string' || !isDate(value)) {
+      errors[field] = 'সঠিক তারিখ দিন';
+    } else if (Number(value.slice(0, 4)) < MIN_YEAR || Number(value.slice(0, 4)) > MAX_YEAR) {
+      errors[field] = `তারিখ ${toBanglaDigits(MIN_YEAR)} থেকে ${toBanglaDigits(MAX_YEAR)} সালের মধ্যে হতে হবে`;
+    }
+  }
+  if (!errors.target_date && !errors.end_date && !isEmpty(input.end_date) && !isEmpty(input.target_date)) {
+    const days = (Date.parse(String(input.end_date)) - Date.parse(String(input.target_date))) / DAY_MS;
+    if (days < 0) {
+      errors.end_date = 'শেষ তারিখ শুরুর তারিখের আগে হতে পারে না';
+    } else if (days >= OPEN_ENDED_DAYS) {
+      errors.end_date = `ইভেন্ট সর্বোচ্চ ${toBanglaDigits(OPEN_ENDED_DAYS)} দিন চলতে পারে`;
+    }
+  }
+  if (!isEmpty(input.recurrence) && !['daily', 'weekly'].includes(String(input.recurrence))) {
+    errors.recurrence = 'পুনরাবৃত্তির ধরন সঠিক নয়';
+  }
+  if (!isEmpty(input.recurrence_weekdays) && !/^\s*[0-6](\s*,\s*[0-6])*\s*$/.test(String(input.recurrence_weekdays))) {
+    errors.recurrence_weekdays = 'সপ্তাহের দিন সঠিক নয়';
+  }
+  if (!isEmpty(input.exception_dates) &&
+      parseDateList(String(input.exception_dates)).length !== String(input.exception_dates).split(',').filter(d => d.trim()).length) {
+    errors.exception_dates = 'সব তারিখ YYYY-MM-DD আকারে দিন';
+  }
+
+  if (!isEmpty(input.contact) && typeof input.contact === 'string' && !errors.contact && !isBangladeshiPhone(input.contact)) {
+    errors.contact = 'সঠিক বাংলাদেশি ফোন নম্বর দিন (যেমন: 017XXXXXXXX)';
+  }
+
+  if (!isEmpty(input.link_url) && (typeof input.link_url !== 'string' || !isHttpUrl(input.link_url.trim()))) {
+    errors.link_url = 'সঠিক লিংক দিন (https:// দিয়ে শুরু)';
+  }
+  // Images are either uploaded here or linked from elsewhere
+  if (!isEmpty(input.image_url) && (typeof input.image_url !== 'string' ||
+      !(isUploadedImage(input.image_url) || isHttpUrl(input.image_url.trim())))) {
+    errors.image_url = 'ছবিটি আবার আপলোড করুন';
+  }
+
+  const lat = input.lat;
+  const lng = input.lng;
+  if (!isEmpty(lat) || !isEmpty(lng)) {
+    if (typeof lat !== 'number' || typeof lng !== 'number' || isNaN(lat) || isNaN(lng)) {
+      errors.lat = 'অক্ষাংশ ও দ্রাঘিমাংশ দুটোই সংখ্যায় দিন';
+    } else if (!isInBangladesh(lat, lng)) {
+      errors.lat = 'লোকেশনটি বাংলাদেশের ভেতরে নয়';
+    }
+  }
+
+  return errors;
+}
+
+export const hasErrors = (errors: EventErrors) => Object.keys(errors).length > 0;
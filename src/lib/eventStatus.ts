@@ -0,0 +1,19 @@
+import type { Event, EventStatus } from '../types';
+
+// How review states are shown to organizers and moderators
+export const STATUS_LABELS: Record<EventStatus, string> = {
+  pending: 'অনুমোদনের অপেক্ষায়',
+  approved: 'অনুমোদিত',
+  rejected: 'প্রত্যাখ্যাত',
+  changes_requested: 'পরিবর্তন প্রয়োজন',
+};
+
+export const STATUS_STYLES: Record<EventStatus, string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  approved: 'bg-emerald-100 text-emerald-700',
+  rejected: 'bg-red-100 text-red-700',
+  changes_requested: 'bg-orange-100 text-orange-700',
+};
+
+// Events without a status came in through a replica and are unreviewed
+export const eventStatus = (event: Pick<Event, 'status'>): EventStatus => event.status ?? 'pending';
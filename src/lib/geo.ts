@@ -0,0 +1,134 @@
+import { DISTRICTS, DIVISIONS, UPAZILAS } from '../data/bdAdmin';
+
+export interface GeoUnit {
+  code: string;
+  bn: string;
+  en: string;
+}
+
+export interface GeoDivision extends GeoUnit {}
+
+export interface GeoDistrict extends GeoUnit {
+  division: string;
+}
+
+export interface GeoUpazila extends GeoUnit {
+  district: string;
+}
+
+export interface GeoUnion extends GeoUnit {
+  upazila: string;
+}
+
+export interface GeoCodes {
+  division_code?: string;
+  district_code?: string;
+  upazila_code?: string;
+  union_code?: string;
+}
+
+export { DIVISIONS, DISTRICTS, UPAZILAS };
+
+// Bangla names can be typed with precomposed or decomposed nukta letters
+// (ড় vs ড়), so names are compared in NFC form and case-insensitively.
+const normalizeName = (name: string) => name.normalize('NFC').trim().toLowerCase();
+
+const hasName = (unit: GeoUnit, name: string) => {
+  const wanted = normalizeName(name);
+  return normalizeName(unit.bn) === wanted || normalizeName(unit.en) === wanted;
+};
+
+export const findDivision = (code?: string | null) => DIVISIONS.find(d => d.code === code);
+
+export const findDistrict = (codeOrName?: string | null) =>
+  codeOrName ? DISTRICTS.find(d => d.code === codeOrName) || DISTRICTS.find(d => hasName(d, codeOrName)) : undefined;
+
+export const findUpazila = (districtCode?: string | null, codeOrName?: string | null) => {
+  if (!codeOrName) return undefined;
+  const byCode = UPAZILAS.find(u => u.code === codeOrName);
+  if (byCode) return byCode;
+  return UPAZILAS.find(u => (!districtCode || u.district === districtCode) && hasName(u, codeOrName));
+};
+
+export const getDistricts = (divisionCode?: string) =>
+  divisionCode ? DISTRICTS.filter(d => d.division === divisionCode) : DISTRICTS;
+
+export const getUpazilas = (districtCode?: string) =>
+  districtCode ? UPAZILAS.filter(u => u.district === districtCode) : [];
+
+// Unions are split into their own chunk and only fetched once a select needs them.
+let unionsPromise: Promise<GeoUnion[]> | null = null;
+export const loadUnions = () => {
+  unionsPromise ??= import('../data/bdUnions').then(m => m.UNIONS);
+  return unionsPromise;
+};
+
+export const getUnions = async (upazilaCode?: string) =>
+  upazilaCode ? (await loadUnions()).filter(u => u.upazila === upazilaCode) : [];
+
+// Derives the geography codes of an event from its codes or, for events
+// written before codes existed, from its free-text district/upazila names.
+export function resolveGeoCodes(event: GeoCodes & { district?: string | null; upazila?: string | null }): GeoCodes {
+  const district = findDistrict(event.district_code || event.district);
+  const upazila = findUpazila(district?.code, event.upazila_code || event.upazila);
+  return {
+    division_code: district?.division,
+    district_code: district?.code,
+    upazila_code: upazila?.code,
+    union_code: event.union_code || undefined,
+  };
+}
+
+type GeoFields = GeoCodes & {
+  district?: string | null;
+  upazila?: string | null;
+  union_name?: string | null;
+};
+
+// Completes the geography of a submitted event: names are rewritten to the
+// canonical Bangla spelling of their codes, and codes are derived for
+// submissions that only carry names. Inputs without geography pass through.
+export async function completeEventGeo<T extends GeoFields>(input: T): Promise<T> {
+  if (!input.district_code && !input.district && !input.upazila_code && !input.upazila && !input.union_code) {
+    return input;
+  }
+
+  const codes = resolveGeoCodes(input);
+  const result: T = { ...input };
+  const district = findDistrict(codes.district_code);
+  if (district) {
+    result.division_code = district.division;
+    result.district_code = district.code;
+    result.district = district.bn;
+  }
+  const upazila = findUpazila(district?.code, codes.upazila_code);
+  if (upazila) {
+    result.upazila_code = upazila.code;
+    result.upazila = upazila.bn;
+  }
+  if (codes.union_code) {
+    const union = (await getUnions(upazila?.code)).find(u => u.code === codes.union_code);
+    result.union_code = union?.code;
+    result.union_name = union?.bn ?? null;
+  }
+  return result;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+// Great-circle distance in kilometres between two [lat, lng] points.
+export function haversineKm([lat1, lng1]: [number, number], [lat2, lng2]: [number, number]) {
+  const rad = (d: number) => d * Math.PI / 180;
+  const dLat = rad(lat2 - lat1);
+  const dLng = rad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(rad(lat1)) * Math.cos(rad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// Latitude/longitude box that contains every point within radiusKm of the
+// centre, used to narrow a radius search before exact distances are computed.
+export function boundingBox([lat, lng]: [number, number], radiusKm: number) {
+  const dLat = radiusKm / 111.32;
+  const dLng = radiusKm / (111.32 * Math.max(Math.cos(lat * Math.PI / 180), 0.01));
+  return { minLat: lat - dLat, maxLat: lat + dLat, minLng: lng - dLng, maxLng: lng + dLng };
+}
@@ -0,0 +1,164 @@
+import { toBanglaDigits } from './bangla';
+
+// Hijri <-> Gregorian conversion based on the Umm al-Qura calendar that the
+// browser and Node ship with. Bangladesh announces months by local moon
+// sighting, which usually starts them a day after Saudi Arabia, so dates are
+// shifted by HIJRI_OFFSET_DAYS (default -1, i.e. Bangladesh is one Hijri day
+// behind Umm al-Qura on any given Gregorian date).
+export const HIJRI_OFFSET_DAYS = Number(process.env.HIJRI_OFFSET_DAYS || -1);
+
+export const RAMADAN = 9;
+
+export interface HijriDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+export const HIJRI_MONTHS_BN = [
+  'মুহাররম', 'সফর', 'রবিউল আউয়াল', 'রবিউস সানি', 'জমাদিউল আউয়াল', 'জমাদিউস সানি',
+  'রজব', 'শাবান', 'রমজান', 'শাওয়াল', 'জিলকদ', 'জিলহজ',
+];
+
+export const WEEKDAYS_BN = ['রবিবার', 'সোমবার', 'মঙ্গলবার', 'বুধবার', 'বৃহস্পতিবার', 'শুক্রবার', 'শনিবার'];
+
+// Spellings organizers use for the months in free-text dates, by month number.
+const MONTH_ALIASES: [number, string[]][] = [
+  [1, ['মুহাররম', 'মহররম', 'muharram']],
+  [2, ['সফর', 'safar']],
+  [3, ['রবিউল আউয়াল', 'রবিউল আওয়াল', 'rabiul awal', 'rabi al-awwal']],
+  [4, ['রবিউস সানি', 'রবিউস সানী', 'rabius sani', 'rabi al-thani']],
+  [5, ['জমাদিউল আউয়াল', 'জুমাদাল উলা', 'jumada al-awwal']],
+  [6, ['জমাদিউস সানি', 'জুমাদাল আখিরাহ', 'jumada al-thani']],
+  [7, ['রজব', 'rajab']],
+  [8, ['শাবান', "শা'বান", 'shaban', "sha'ban"]],
+  [9, ['রমজান', 'রমযান', 'রামাদান', 'রমাদান', 'ramadan', 'ramzan', 'ramadhan']],
+  [10, ['শাওয়াল', 'শাওয়াল', 'shawwal']],
+  [11, ['জিলকদ', 'জিলক্বদ', 'dhul qadah', "dhu al-qi'dah"]],
+  [12, ['জিলহজ', 'জিলহজ্জ', 'dhul hijjah', 'dhu al-hijjah']],
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const addDays = (date: string, days: number) =>
+  new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+
+let formatter: Intl.DateTimeFormat | null = null;
+
+// Hijri date in Bangladesh on a Gregorian YYYY-MM-DD date.
+export function toHijri(date: string, offset = HIJRI_OFFSET_DAYS): HijriDate {
+  formatter ??= new Intl.DateTimeFormat('en-u-ca-islamic-umalqura-nu-latn', {
+    timeZone: 'UTC', year: 'numeric', month: 'numeric', day: 'numeric',
+  });
+  const parts = formatter.formatToParts(new Date(Date.parse(date) + offset * DAY_MS));
+  const part = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '', 10);
+  return { year: part('year'), month: part('month'), day: part('day') };
+}
+
+// Day count in the arithmetic (tabular) Islamic calendar, which never drifts
+// more than a day or two from Umm al-Qura.
+const tabularDayNumber = ({ year, month, day }: HijriDate) =>
+  day + Math.ceil(29.5 * (month - 1)) + (year - 1) * 354 + Math.floor((3 + 11 * year) / 30);
+
+// Gregorian YYYY-MM-DD date on which the given Hijri date falls in Bangladesh.
+export function fromHijri(hijri: HijriDate, offset = HIJRI_OFFSET_DAYS): string {
+  // Whether a month has 30 days depends on the moon sighting, so the 30th is
+  // always taken as the day after the 29th.
+  if (hijri.day === 30) return addDays(fromHijri({ ...hijri, day: 29 }, offset), 1);
+  // 1 Muharram 1 AH is 16 July 622 in the tabular calendar.
+  let date = addDays('0622-07-15', tabularDayNumber(hijri) - 1);
+  // Correct the tabular estimate against the real calendar. Month lengths
+  // differ between the two, so a zero tabular difference across a month
+  // boundary still needs a one-day step.
+  for (let i = 0; i < 4; i++) {
+    const actual = toHijri(date, offset);
+    if (actual.year === hijri.year && actual.month === hijri.month && actual.day === hijri.day) break;
+    const diff = tabularDayNumber(hijri) - tabularDayNumber(actual);
+    const later = actual.year * 12 + actual.month > hijri.year * 12 + hijri.month;
+    date = addDays(date, diff || (later ? -1 : 1));
+  }
+  return date;
+}
+
+export function banglaDateOrdinal(day: number) {
+  const suffix =
+    day === 1 ? 'লা' :
+    day <= 4 ? (day === 4 ? 'ঠা' : 'রা') :
+    day <= 18 ? 'ই' : 'শে';
+  return `${toBanglaDigits(day)}${suffix}`;
+}
+
+// "১০ই রমজান", the way event dates have always been written.
+export const formatHijriBn = (hijri: HijriDate) =>
+  `${banglaDateOrdinal(hijri.day)} ${HIJRI_MONTHS_BN[hijri.month - 1]}`;
+
+export const weekdayBn = (date: string) => WEEKDAYS_BN[new Date(date).getUTCDay()];
+
+// The Hijri year of the next Ramadan (or the current one, while it lasts).
+export function upcomingRamadanYear(today: string) {
+  const hijri = toHijri(today);
+  return hijri.month > RAMADAN ? hijri.year + 1 : hijri.year;
+}
+
+export const ramadanDate = (day: number, today: string) =>
+  fromHijri({ year: upcomingRamadanYear(today), month: RAMADAN, day });
+
+// target_date, event_date and event_day for an event on a Gregorian date.
+export function describeEventDate(date: string) {
+  return {
+    target_date: date,
+    event_date: formatHijriBn(toHijri(date)),
+    event_day: weekdayBn(date),
+  };
+}
+
+const fromBanglaDigits = (text: string) =>
+  text.replace(/[০-৯]/g, d => String(d.charCodeAt(0) - 0x09E6));
+
+// Reads a free-text event date such as "১০ই রমজান", "Ramadan 10" or
+// "2026-03-01" into a Gregorian date. Hijri dates without a year are taken
+// to be the first occurrence on or after `reference` (YYYY-MM-DD), ignoring
+// the day so that an event posted mid-month stays in that month.
+export function parseEventDate(text: string | null | undefined, reference: string): string | null {
+  if (!text) return null;
+  const normalized = fromBanglaDigits(text.normalize('NFC')).toLowerCase();
+
+  const iso = /\b(\d{4}-\d{2}-\d{2})\b/.exec(normalized);
+  if (iso && !isNaN(Date.parse(iso[1]))) return iso[1];
+
+  const month = MONTH_ALIASES.find(([, names]) => names.some(n => normalized.includes(n.normalize('NFC'))))?.[0];
+  const day = Number(/(?<!\d)(\d{1,2})(?!\d)/.exec(normalized)?.[1]);
+  if (!month || !day || day > 30) return null;
+
+  const current = toHijri(reference);
+  const year = month < current.month ? current.year + 1 : current.year;
+  return fromHijri({ year, month, day });
+}
+
+export type DatedEvent = {
+  event_date?: string | null;
+  event_day?: string | null;
+  target_date?: string | null;
+  created_at?: string | null;
+};
+
+// The Gregorian date of an event: its target_date, or one parsed from the
+// free-text event_date relative to when the event was posted.
+export function eventTargetDate(event: DatedEvent, today: string) {
+  if (event.target_date && ISO_DATE.test(event.target_date)) return event.target_date;
+  const reference = event.created_at && !isNaN(Date.parse(event.created_at)) ? event.created_at.slice(0, 10) : today;
+  return parseEventDate(event.event_date, reference);
+}
+
+// Fills in target_date and event_day for submissions that only carry a
+// free-text event_date, and event_day from target_date.
+export function withStructuredDate<T extends DatedEvent>(event: T, today: string): T {
+  const targetDate = eventTargetDate(event, today);
+  if (!targetDate) return event;
+  return {
+    ...event,
+    target_date: targetDate,
+    event_day: event.event_day || weekdayBn(targetDate),
+  };
+}
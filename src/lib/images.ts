@@ -0,0 +1,15 @@
+// Uploaded event images are served from /uploads as a full-size variant,
+// "<id>-full.webp", and a card thumbnail, "<id>-thumb.webp". image_url holds
+// the full-size one; older events may link to an image hosted elsewhere.
+export const UPLOADS_PATH = '/uploads';
+
+export const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+export const MAX_IMAGE_MB = 5;
+
+const UPLOADED_IMAGE = /^\/uploads\/[0-9a-f-]+-full\.webp$/;
+
+export const isUploadedImage = (url?: string | null) => !!url && UPLOADED_IMAGE.test(url);
+
+// The thumbnail of an uploaded image, or the image itself when it has none.
+export const thumbnailUrl = (url: string) =>
+  isUploadedImage(url) ? url.replace(/-full\.webp$/, '-thumb.webp') : url;
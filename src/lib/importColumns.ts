@@ -0,0 +1,64 @@
+import type { Event } from '../types';
+
+// Event fields a spreadsheet import can fill, with the Bangla label used for
+// the column in the import template and the mapping screen.
+export const IMPORT_FIELDS: { field: keyof Event; label: string }[] = [
+  { field: 'name', label: 'ইভেন্টের নাম' },
+  { field: 'type', label: 'ধরন' },
+  { field: 'district', label: 'জেলা' },
+  { field: 'upazila', label: 'উপজেলা' },
+  { field: 'union_name', label: 'ইউনিয়ন' },
+  { field: 'village', label: 'গ্রাম/মহল্লা' },
+  { field: 'address', label: 'বিস্তারিত ঠিকানা' },
+  { field: 'event_date', label: 'তারিখ' },
+  { field: 'end_date', label: 'শেষ তারিখ' },
+  { field: 'recurrence', label: 'পুনরাবৃত্তি' },
+  { field: 'recurrence_weekdays', label: 'সপ্তাহের দিন' },
+  { field: 'exception_dates', label: 'যেসব দিনে হবে না' },
+  { field: 'start_time', label: 'শুরুর সময়' },
+  { field: 'iftar_time', label: 'ইফতারের সময়' },
+  { field: 'contact', label: 'যোগাযোগ নম্বর' },
+  { field: 'description', label: 'বিবরণ' },
+  { field: 'link_url', label: 'লোকেশন লিংক' },
+  { field: 'image_url', label: 'ছবির লিংক' },
+  { field: 'lat', label: 'অক্ষাংশ' },
+  { field: 'lng', label: 'দ্রাঘিমাংশ' },
+];
+
+export type ImportField = typeof IMPORT_FIELDS[number]['field'];
+
+// Header names that are read as each field besides its own name and label,
+// compared without case and trailing asterisks.
+const COLUMN_ALIASES: Partial<Record<ImportField, string[]>> = {
+  name: ['নাম', 'event name', 'event'],
+  type: ['ইভেন্টের ধরন', 'event type'],
+  upazila: ['থানা', 'thana'],
+  union_name: ['union'],
+  village: ['গ্রাম', 'মহল্লা'],
+  address: ['ঠিকানা'],
+  event_date: ['date', 'target_date', 'রমজানের দিন'],
+  recurrence: ['repeat'],
+  recurrence_weekdays: ['weekdays'],
+  start_time: ['start', 'time', 'সময়'],
+  iftar_time: ['iftar', 'ইফতার'],
+  contact: ['phone', 'mobile', 'যোগাযোগ', 'মোবাইল', 'ফোন'],
+  description: ['বিশেষত্ব/বিবরণ', 'details'],
+  link_url: ['link', 'map', 'লিংক', 'লোকেশন লিংক (google maps)'],
+  image_url: ['image', 'poster', 'ছবি'],
+  lat: ['latitude'],
+  lng: ['lon', 'long', 'longitude'],
+};
+
+const normalizeHeader = (header: string) =>
+  header.normalize('NFC').trim().replace(/\s*\*+$/, '').toLowerCase();
+
+const HEADER_FIELDS = new Map<string, ImportField>(
+  IMPORT_FIELDS.flatMap(({ field, label }) =>
+    [field, label, ...(COLUMN_ALIASES[field] || [])].map(name => [normalizeHeader(name), field] as const))
+);
+
+// The field a spreadsheet column is read into by default, if any.
+export const guessImportField = (header: string) => HEADER_FIELDS.get(normalizeHeader(header)) ?? null;
+
+export const isImportField = (field: unknown): field is ImportField =>
+  IMPORT_FIELDS.some(f => f.field === field);
@@ -0,0 +1,135 @@
+import { DISTRICT_CENTROIDS } from '../data/districtCentroids';
+import { resolveGeoCodes, type GeoCodes } from './geo';
+
+// Offline sunrise/sunset and Fajr calculator, following the solar position
+// formulas used by praytimes.org. Bangladesh follows the Karachi convention
+// (Fajr at 18° below the horizon) and has no daylight saving time.
+export const BANGLADESH_TIMEZONE = 'Asia/Dhaka';
+export const BANGLADESH_UTC_OFFSET = 6;
+
+const FAJR_ANGLE = 18;
+const SUNSET_ANGLE = 0.833; // refraction + solar disc radius
+
+export interface PrayerTimes {
+  date: string;
+  lat: number;
+  lng: number;
+  fajr: string;
+  sehri_end: string;
+  sunrise: string;
+  sunset: string;
+  maghrib: string;
+  iftar: string;
+}
+
+const rad = (d: number) => d * Math.PI / 180;
+const deg = (r: number) => r * 180 / Math.PI;
+const fixAngle = (a: number) => a - 360 * Math.floor(a / 360);
+const fixHour = (h: number) => h - 24 * Math.floor(h / 24);
+
+function julianDay(year: number, month: number, day: number) {
+  if (month <= 2) {
+    year -= 1;
+    month += 12;
+  }
+  const a = Math.floor(year / 100);
+  const b = 2 - a + Math.floor(a / 4);
+  return Math.floor(365.25 * (year + 4716)) + Math.floor(30.6001 * (month + 1)) + day + b - 1524.5;
+}
+
+// Sun declination and equation of time (hours) at the given Julian day.
+function sunPosition(jd: number) {
+  const d = jd - 2451545.0;
+  const g = fixAngle(357.529 + 0.98560028 * d);
+  const q = fixAngle(280.459 + 0.98564736 * d);
+  const l = fixAngle(q + 1.915 * Math.sin(rad(g)) + 0.020 * Math.sin(rad(2 * g)));
+  const e = 23.439 - 0.00000036 * d;
+  const ra = fixHour(deg(Math.atan2(Math.cos(rad(e)) * Math.sin(rad(l)), Math.cos(rad(l)))) / 15);
+  return {
+    declination: deg(Math.asin(Math.sin(rad(e)) * Math.sin(rad(l)))),
+    equation: q / 15 - ra - 24 * Math.round((q / 15 - ra) / 24),
+  };
+}
+
+// Local time (hours) at which the sun is `angle` degrees below the horizon,
+// before (direction -1) or after (direction 1) solar noon. Two refinement
+// passes evaluate the sun position at the time being solved for.
+function timeForAngle(jd: number, lat: number, lng: number, angle: number, direction: -1 | 1) {
+  let time = 12 + direction * 6;
+  for (let i = 0; i < 2; i++) {
+    const { declination, equation } = sunPosition(jd + (time - BANGLADESH_UTC_OFFSET) / 24);
+    const noon = 12 - equation - lng / 15 + BANGLADESH_UTC_OFFSET;
+    const cosH = (-Math.sin(rad(angle)) - Math.sin(rad(declination)) * Math.sin(rad(lat))) /
+      (Math.cos(rad(declination)) * Math.cos(rad(lat)));
+    time = noon + direction * deg(Math.acos(Math.min(1, Math.max(-1, cosH)))) / 15;
+  }
+  return time;
+}
+
+// Rounds towards caution: times that end eating are rounded down, times
+// that allow breaking the fast are rounded up.
+function toClock(hours: number, round: 'floor' | 'ceil') {
+  const minutes = Math[round](fixHour(hours) * 60) % (24 * 60);
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+// Today's date in Bangladesh as YYYY-MM-DD, whatever the host timezone.
+export function todayInBangladesh(now = new Date()) {
+  return new Date(now.getTime() + BANGLADESH_UTC_OFFSET * 3600_000).toISOString().slice(0, 10);
+}
+
+export function calculatePrayerTimes(lat: number, lng: number, date: string = todayInBangladesh()): PrayerTimes {
+  const [year, month, day] = date.split('-').map(Number);
+  const jd = julianDay(year, month, day);
+
+  const fajr = timeForAngle(jd, lat, lng, FAJR_ANGLE, -1);
+  const sunrise = timeForAngle(jd, lat, lng, SUNSET_ANGLE, -1);
+  const sunset = timeForAngle(jd, lat, lng, SUNSET_ANGLE, 1);
+
+  return {
+    date,
+    lat,
+    lng,
+    fajr: toClock(fajr, 'floor'),
+    sehri_end: toClock(fajr, 'floor'),
+    sunrise: toClock(sunrise, 'floor'),
+    sunset: toClock(sunset, 'ceil'),
+    maghrib: toClock(sunset, 'ceil'),
+    iftar: toClock(sunset, 'ceil'),
+  };
+}
+
+export const getDistrictCentroid = (districtCode?: string) =>
+  districtCode ? DISTRICT_CENTROIDS[districtCode] : undefined;
+
+type LocatedEvent = GeoCodes & {
+  lat?: number | null;
+  lng?: number | null;
+  district?: string | null;
+  upazila?: string | null;
+  target_date?: string | null;
+};
+
+// Where an event's times are computed for: its own map location, or the
+// centroid of its district when no location was given.
+export function eventCoordinates(event: LocatedEvent): [number, number] | undefined {
+  if (event.lat != null && event.lng != null && !isNaN(event.lat) && !isNaN(event.lng)) {
+    return [event.lat, event.lng];
+  }
+  return getDistrictCentroid(event.district_code || resolveGeoCodes(event).district_code);
+}
+
+export function eventPrayerTimes(event: LocatedEvent, date?: string) {
+  const coordinates = eventCoordinates(event);
+  const day = date || event.target_date;
+  if (!coordinates || !day || !/^\d{4}-\d{2}-\d{2}$/.test(day)) return null;
+  return calculatePrayerTimes(coordinates[0], coordinates[1], day);
+}
+
+// Fills in iftar_time from the event's location and date when the organizer
+// left it empty.
+export function withIftarTime<T extends LocatedEvent & { iftar_time?: string | null }>(event: T): T {
+  if (event.iftar_time) return event;
+  const times = eventPrayerTimes(event);
+  return times ? { ...event, iftar_time: times.iftar } : event;
+}
@@ -0,0 +1,60 @@
+import { findDistrict } from './geo';
+
+// App URLs, shared by the client router and the server, which links to
+// events from calendar entries and serves these paths with the SPA.
+export const eventPath = (id: string | number) => `/event/${encodeURIComponent(String(id))}`;
+export const districtPath = (code: string) => `/district/${encodeURIComponent(code)}`;
+// An organizer's management page; the edit token follows in the fragment
+export const managePath = (id: string) => `/manage/${encodeURIComponent(id)}`;
+
+export const EVENT_SORTS = ['newest', 'soonest', 'nearest', 'relevance'] as const;
+export type EventSort = typeof EVENT_SORTS[number];
+
+export interface EventFilters {
+  district_code: string;
+  upazila_code: string;
+  union_code: string;
+  village: string;
+  type: string;
+  date: string;
+  q: string;
+  sort: EventSort | '';
+}
+
+// The district is part of the path; the other filters go in the query string
+// under the names GET /api/events uses.
+const QUERY_PARAMS = {
+  upazila_code: 'upazila',
+  union_code: 'union',
+  village: 'village',
+  type: 'type',
+  date: 'date',
+  q: 'q',
+  sort: 'sort',
+} as const;
+
+// Reads the filters of /, or of /district/:district where the district may
+// be given by code or name.
+export function filtersFromUrl(district: string | undefined, params: URLSearchParams): EventFilters {
+  const sort = params.get('sort') || '';
+  return {
+    district_code: district ? findDistrict(district)?.code ?? '' : '',
+    upazila_code: params.get(QUERY_PARAMS.upazila_code) || '',
+    union_code: params.get(QUERY_PARAMS.union_code) || '',
+    village: params.get(QUERY_PARAMS.village) || '',
+    type: params.get(QUERY_PARAMS.type) || '',
+    date: params.get(QUERY_PARAMS.date) || '',
+    q: params.get(QUERY_PARAMS.q) || '',
+    sort: (EVENT_SORTS as readonly string[]).includes(sort) ? sort as EventSort : '',
+  };
+}
+
+export function filtersUrl(filters: EventFilters) {
+  const params = new URLSearchParams();
+  for (const [field, name] of Object.entries(QUERY_PARAMS) as [keyof typeof QUERY_PARAMS, string][]) {
+    if (filters[field]) params.set(name, filters[field]);
+  }
+  const path = filters.district_code ? districtPath(filters.district_code) : '/';
+  const query = params.toString();
+  return query ? `${path}?${query}` : path;
+}
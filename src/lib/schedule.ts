@@ -0,0 +1,106 @@
+import type { EventRecurrence } from '../types';
+import { toBanglaDigits } from './bangla';
+import { eventTargetDate, formatHijriBn, toHijri, WEEKDAYS_BN, type DatedEvent } from './hijri';
+
+// An event runs on its target_date. With an end_date it runs every day up to
+// that date, or only on recurrence_weekdays when recurrence is 'weekly'.
+// Dates listed in exception_dates are skipped.
+type ScheduledEvent = {
+  target_date?: string | null;
+  end_date?: string | null;
+  recurrence?: EventRecurrence | string | null;
+  recurrence_weekdays?: string | null;
+  exception_dates?: string | null;
+};
+
+// Recurring events without an end date are expanded this far ahead, and no
+// schedule is expanded any further than that.
+export const OPEN_ENDED_DAYS = 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const isDate = (value?: string | null): value is string =>
+  !!value && ISO_DATE.test(value) && !isNaN(Date.parse(value));
+
+const addDays = (date: string, days: number) =>
+  new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+
+const weekday = (date: string) => new Date(date).getUTCDay();
+
+export const parseDateList = (value?: string | null) =>
+  (value || '').split(',').map(d => d.trim()).filter(isDate);
+
+export const parseWeekdays = (value?: string | null) =>
+  (value || '').split(',').filter(d => /^\s*[0-6]\s*$/.test(d)).map(Number);
+
+// Weekly events without explicit weekdays repeat on their first day's weekday.
+function scheduleWeekdays(event: ScheduledEvent, start: string) {
+  const days = parseWeekdays(event.recurrence_weekdays);
+  return days.length ? days : [weekday(start)];
+}
+
+export const isRecurring = (event: ScheduledEvent) =>
+  isDate(event.target_date) && (!!event.recurrence || isDate(event.end_date));
+
+// Every date the event runs on, in order.
+export function expandOccurrences(event: ScheduledEvent): string[] {
+  const start = event.target_date;
+  if (!isDate(start)) return [];
+
+  const exceptions = new Set(parseDateList(event.exception_dates));
+  if (!isRecurring(event)) return exceptions.has(start) ? [] : [start];
+
+  const end = isDate(event.end_date) && event.end_date >= start ? event.end_date : null;
+  const weekdays = event.recurrence === 'weekly' ? new Set(scheduleWeekdays(event, start)) : null;
+
+  const dates: string[] = [];
+  // Counted rather than compared with the end alone: past year 9999 the
+  // dates are no longer ISO dates and stop sorting
+  for (let date = start, day = 0; day < OPEN_ENDED_DAYS && isDate(date) && (!end || date <= end); date = addDays(date, 1), day++) {
+    if (weekdays && !weekdays.has(weekday(date))) continue;
+    if (!exceptions.has(date)) dates.push(date);
+  }
+  return dates;
+}
+
+// The first occurrence on or after `today`, or the last one once the
+// schedule is over so that countdowns can say it has ended.
+export function nextOccurrence(event: ScheduledEvent, today: string) {
+  const dates = expandOccurrences(event);
+  return dates.find(d => d >= today) ?? dates[dates.length - 1] ?? null;
+}
+
+// The day an event's countdown points at: the next date computed by the
+// server, or worked out here for events read straight from a replica.
+export function eventNextDate(event: ScheduledEvent & DatedEvent & { next_date?: string | null }, today: string) {
+  if (event.next_date) return event.next_date;
+  const targetDate = eventTargetDate(event, today);
+  return targetDate ? nextOccurrence({ ...event, target_date: targetDate }, today) : null;
+}
+
+export const occursBetween = (event: ScheduledEvent, from: string, to: string) =>
+  expandOccurrences(event).some(d => d >= from && d <= to);
+
+// "প্রতি শুক্রবার · ১লা রমজান – ৩০শে রমজান", or null for one-off events.
+export function formatScheduleBn(event: ScheduledEvent) {
+  if (!isRecurring(event)) return null;
+  const start = event.target_date as string;
+
+  const rule = event.recurrence === 'weekly'
+    ? `প্রতি ${scheduleWeekdays(event, start).sort().map(d => WEEKDAYS_BN[d]).join(', ')}`
+    : 'প্রতিদিন';
+  const range = isDate(event.end_date)
+    ? `${formatHijriBn(toHijri(start))} – ${formatHijriBn(toHijri(event.end_date))}`
+    : `${formatHijriBn(toHijri(start))} থেকে`;
+  return `${rule} · ${range}`;
+}
+
+// "৩ দিন বাকি", "আজকে" or "শেষ হয়েছে" for a YYYY-MM-DD date.
+export function countdownBn(targetDate: string, today: string) {
+  const days = Math.round((Date.parse(targetDate) - Date.parse(today)) / DAY_MS);
+  if (days < 0) return "শেষ হয়েছে";
+  if (days === 0) return "আজকে";
+  if (days === 1) return "আগামীকাল";
+  return `${toBanglaDigits(days)} দিন বাকি`;
+}
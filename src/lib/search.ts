@@ -0,0 +1,71 @@
+// Search normalization shared by the full-text index and its queries. Bangla
+// script and romanized Bangla ("Banglish") are both reduced to a phonetic key
+// of consonant classes without vowels, so "বড় মসজিদ", "boro masjid" and
+// "baro moshjid" all become "br msjd". Vowels are dropped because romanized
+// spellings disagree on them far more than on consonants.
+
+const BANGLA_CONSONANTS: Record<string, string> = {
+  'ক': 'k', 'খ': 'k', 'গ': 'g', 'ঘ': 'g', 'ঙ': 'n',
+  'চ': 'c', 'ছ': 'c', 'জ': 'j', 'ঝ': 'j', 'ঞ': 'n',
+  'ট': 't', 'ঠ': 't', 'ড': 'd', 'ঢ': 'd', 'ণ': 'n',
+  'ত': 't', 'থ': 't', 'দ': 'd', 'ধ': 'd', 'ন': 'n',
+  'প': 'p', 'ফ': 'f', 'ব': 'b', 'ভ': 'b', 'ম': 'm',
+  'য': 'j', 'র': 'r', 'ল': 'l', 'শ': 's', 'ষ': 's', 'স': 's', 'হ': 'h',
+  'ৎ': 't', 'ং': 'n',
+};
+
+// NFC keeps ড়, ঢ় and য় decomposed into a base letter and a nukta.
+const NUKTA_LETTERS: [RegExp, string][] = [
+  [/\u09A1\u09BC|\u09DC/g, 'r'], [/\u09A2\u09BC|\u09DD/g, 'r'], [/\u09AF\u09BC|\u09DF/g, ''],
+];
+
+// Romanizations of the same sounds, longest first so digraphs win. A
+// remaining h only marks aspiration in most romanizations, so it is dropped.
+const LATIN_FOLDS: [RegExp, string][] = [
+  [/kh/g, 'k'], [/gh/g, 'g'], [/chh/g, 'c'], [/ch/g, 'c'], [/jh/g, 'j'],
+  [/th/g, 't'], [/dh/g, 'd'], [/ph/g, 'f'], [/bh/g, 'b'], [/sh/g, 's'],
+  [/ng/g, 'n'], [/q/g, 'k'], [/x/g, 'ks'], [/z/g, 'j'], [/v/g, 'b'],
+  [/[aeiouwyh]/g, ''],
+];
+
+const fromBanglaDigits = (text: string) =>
+  text.replace(/[০-৯]/g, d => String(d.charCodeAt(0) - 0x09E6));
+
+// Bangla letters are replaced by their consonant class; vowels, vowel signs,
+// hasanta and other marks are dropped.
+const transliterateBangla = (word: string) =>
+  Array.from(NUKTA_LETTERS.reduce((w, [pattern, replacement]) => w.replace(pattern, replacement), word))
+    .map(ch => BANGLA_CONSONANTS[ch] ?? (/[ঀ-৿]/.test(ch) ? '' : ch)).join('');
+
+const foldLatin = (word: string) =>
+  LATIN_FOLDS.reduce((w, [pattern, replacement]) => w.replace(pattern, replacement), word)
+    .replace(/(.)\1+/g, '$1');
+
+// Phonetic keys of every word in the text. Numbers are kept as they are.
+export function searchTokens(text: string | null | undefined): string[] {
+  if (!text) return [];
+  const words = fromBanglaDigits(text.normalize('NFC').toLowerCase()).split(/[^\p{L}\p{M}\p{N}]+/u);
+  return words
+    .map(word => /^\d+$/.test(word) ? word : foldLatin(transliterateBangla(word).replace(/[^a-z0-9]/g, '')))
+    .filter(Boolean);
+}
+
+export const normalizeSearchText = (text: string | null | undefined) => searchTokens(text).join(' ');
+
+// Fields covered by free-text search, in order of importance.
+export const SEARCH_FIELDS = ['name', 'address', 'village', 'description'] as const;
+
+type SearchableEvent = Partial<Record<typeof SEARCH_FIELDS[number], string | null>>;
+
+// Query words match the start of an indexed word. Single-letter keys would
+// match almost everything that way, so they must match a whole word.
+export const isPrefixToken = (token: string) => token.length > 1;
+
+// Client-side equivalent of the server's index: every query word must match
+// some word in the event.
+export function matchesSearch(event: SearchableEvent, query: string) {
+  const wanted = searchTokens(query);
+  if (!wanted.length) return true;
+  const tokens = SEARCH_FIELDS.flatMap(field => searchTokens(event[field]));
+  return wanted.every(w => tokens.some(t => isPrefixToken(w) ? t.startsWith(w) : t === w));
+}
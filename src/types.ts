@@ -0,0 +1,84 @@
+export interface Event {
+  id: string | number;
+  name: string;
+  type: string;
+  district: string;
+  upazila: string;
+  village: string;
+  address: string;
+  date_range: string;
+  start_time: string;
+  iftar_time: string;
+  contact: string;
+  description: string;
+  image_url: string;
+  lat?: number;
+  lng?: number;
+  link_url?: string;
+  event_date?: string;
+  event_day?: string;
+  target_date?: string;
+  // Schedule, starting on target_date; see src/lib/schedule.ts
+  end_date?: string;
+  recurrence?: EventRecurrence;
+  recurrence_weekdays?: string;
+  exception_dates?: string;
+  division_code?: string;
+  district_code?: string;
+  upazila_code?: string;
+  union_code?: string;
+  union_name?: string;
+  // Set when the organizer called the event off; it stays listed as cancelled
+  cancelled_at?: string | null;
+  // Moderation state; only approved events are listed publicly
+  status?: EventStatus | null;
+  // Why a moderator rejected the event or asked for changes, shown to the organizer
+  status_reason?: string | null;
+  created_at?: string;
+  updated_at?: string;
+  // Computed by the server: the next (or, once over, the last) date the event runs
+  next_date?: string;
+  // Computed by the server for radius searches, in kilometres
+  distance_km?: number;
+}
+
+// Repeat rule of a multi-day event. Weekly events run on recurrence_weekdays,
+// a comma-separated list of day numbers from 0 (Sunday) to 6.
+export type EventRecurrence = 'daily' | 'weekly';
+
+// Review states of a submission. New events wait as pending until a
+// moderator approves or rejects them, or asks the organizer for changes.
+export const EVENT_STATUSES = ['pending', 'approved', 'rejected', 'changes_requested'] as const;
+export type EventStatus = typeof EVENT_STATUSES[number];
+
+// Event kinds accepted by the server. Labels and icons live in src/eventTypes.ts.
+export const EVENT_TYPE_IDS = ['public_iftar', 'religious_gathering'] as const;
+
+// An existing event that looks like the same gathering as a submission.
+// score combines the name similarity, distance and whether the dates overlap.
+export interface DuplicateMatch<E extends Event = Event> {
+  event: E;
+  score: number;
+  name_similarity: number;
+  distance_km: number | null;
+  same_date: boolean;
+}
+
+// Moderation roles, from most to least privileged. A district moderator can
+// only act on events inside their own district.
+export type AdminRole = 'admin' | 'moderator' | 'district_moderator';
+
+export interface AdminUser {
+  id: number;
+  username: string;
+  role: AdminRole;
+  // A district moderator's district code
+  district: string | null;
+  created_at?: string;
+}
+
+export const canModerateEvent = (admin: AdminUser | null, event: Pick<Event, 'district_code'>) => {
+  if (!admin) return false;
+  if (admin.role === 'district_moderator') return !!admin.district && admin.district === event.district_code;
+  return true;
+};
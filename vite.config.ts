@@ -9,6 +9,7 @@ export default defineConfig(({mode}) => {
     plugins: [react(), tailwindcss()],
     define: {
       'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+      'process.env.HIJRI_OFFSET_DAYS': JSON.stringify(env.HIJRI_OFFSET_DAYS),
     },
     resolve: {
       alias: {